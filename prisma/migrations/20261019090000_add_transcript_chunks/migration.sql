@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "transcript_chunks" (
+    "id" TEXT NOT NULL,
+    "meeting_id" TEXT NOT NULL,
+    "first_transcription_id" TEXT NOT NULL,
+    "transcription_ids" TEXT[],
+    "speaker_name" TEXT,
+    "text" TEXT NOT NULL,
+    "timestamp_start" TIMESTAMP(3),
+    "timestamp_end" TIMESTAMP(3),
+    "embedding" DOUBLE PRECISION[],
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "dimensions" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "transcript_chunks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transcript_chunks_first_transcription_id_key" ON "transcript_chunks"("first_transcription_id");
+
+-- CreateIndex
+CREATE INDEX "transcript_chunks_meeting_id_idx" ON "transcript_chunks"("meeting_id");
+
+-- CreateIndex
+CREATE INDEX "transcript_chunks_model_idx" ON "transcript_chunks"("model");
+
+-- AddForeignKey
+ALTER TABLE "transcript_chunks" ADD CONSTRAINT "transcript_chunks_meeting_id_fkey" FOREIGN KEY ("meeting_id") REFERENCES "meetings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "meetings" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce("description", '')), 'B')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "transcriptions" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+    to_tsvector('english'::regconfig, coalesce("text", ''))
+) STORED;
+
+-- AlterTable
+ALTER TABLE "analysis_results" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+    to_tsvector('english'::regconfig, coalesce("summary", ''))
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "meetings_search_vector_idx" ON "meetings" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "transcriptions_search_vector_idx" ON "transcriptions" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "analysis_results_search_vector_idx" ON "analysis_results" USING GIN ("search_vector");
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "action_items" (
+    "id" TEXT NOT NULL,
+    "meeting_id" TEXT NOT NULL,
+    "source_transcription_id" TEXT,
+    "source_analysis_type" TEXT,
+    "description" TEXT NOT NULL,
+    "owner" TEXT,
+    "assignees" TEXT[],
+    "priority" TEXT NOT NULL DEFAULT 'medium',
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "due_date" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "confidence" DECIMAL(5,4),
+    "context" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "action_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "action_items_meeting_id_idx" ON "action_items"("meeting_id");
+
+-- CreateIndex
+CREATE INDEX "action_items_status_idx" ON "action_items"("status");
+
+-- CreateIndex
+CREATE INDEX "action_items_due_date_idx" ON "action_items"("due_date");
+
+-- AddForeignKey
+ALTER TABLE "action_items" ADD CONSTRAINT "action_items_meeting_id_fkey" FOREIGN KEY ("meeting_id") REFERENCES "meetings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "action_items" ADD CONSTRAINT "action_items_source_transcription_id_fkey" FOREIGN KEY ("source_transcription_id") REFERENCES "transcriptions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "decisions" (
+    "id" TEXT NOT NULL,
+    "meeting_id" TEXT NOT NULL,
+    "source_transcription_id" TEXT,
+    "description" TEXT NOT NULL,
+    "rationale" TEXT,
+    "participants" TEXT[],
+    "context" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "decided_at" TIMESTAMP(3) NOT NULL,
+    "confidence" DECIMAL(5,4),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "decisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "decision_links" (
+    "id" TEXT NOT NULL,
+    "decision_id" TEXT NOT NULL,
+    "related_decision_id" TEXT NOT NULL,
+    "relation" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "decision_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "decisions_meeting_id_idx" ON "decisions"("meeting_id");
+
+-- CreateIndex
+CREATE INDEX "decisions_decided_at_idx" ON "decisions"("decided_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "decision_links_decision_id_related_decision_id_key" ON "decision_links"("decision_id", "related_decision_id");
+
+-- CreateIndex
+CREATE INDEX "decision_links_related_decision_id_idx" ON "decision_links"("related_decision_id");
+
+-- AddForeignKey
+ALTER TABLE "decisions" ADD CONSTRAINT "decisions_meeting_id_fkey" FOREIGN KEY ("meeting_id") REFERENCES "meetings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "decisions" ADD CONSTRAINT "decisions_source_transcription_id_fkey" FOREIGN KEY ("source_transcription_id") REFERENCES "transcriptions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "decision_links" ADD CONSTRAINT "decision_links_decision_id_fkey" FOREIGN KEY ("decision_id") REFERENCES "decisions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "decision_links" ADD CONSTRAINT "decision_links_related_decision_id_fkey" FOREIGN KEY ("related_decision_id") REFERENCES "decisions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "meetings" ADD COLUMN     "occurrence_at" TIMESTAMP(3),
+ADD COLUMN     "series_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "meeting_series" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "meeting_url" TEXT,
+    "platform" TEXT,
+    "recurrence_rule" TEXT NOT NULL,
+    "starts_at" TIMESTAMP(3) NOT NULL,
+    "duration_minutes" INTEGER,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "materialized_to" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "meeting_series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "meeting_series_user_id_idx" ON "meeting_series"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "meetings_series_id_occurrence_at_key" ON "meetings"("series_id", "occurrence_at");
+
+-- AddForeignKey
+ALTER TABLE "meetings" ADD CONSTRAINT "meetings_series_id_fkey" FOREIGN KEY ("series_id") REFERENCES "meeting_series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "meeting_series" ADD CONSTRAINT "meeting_series_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
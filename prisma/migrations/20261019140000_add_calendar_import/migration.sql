@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "meetings" ADD COLUMN     "calendar_feed_id" TEXT,
+ADD COLUMN     "external_uid" TEXT;
+
+-- CreateTable
+CREATE TABLE "calendar_feeds" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT,
+    "url" TEXT NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "last_synced_at" TIMESTAMP(3),
+    "last_error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "calendar_feeds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_feeds_user_id_url_key" ON "calendar_feeds"("user_id", "url");
+
+-- CreateIndex
+CREATE INDEX "meetings_calendar_feed_id_idx" ON "meetings"("calendar_feed_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "meetings_user_id_external_uid_key" ON "meetings"("user_id", "external_uid");
+
+-- AddForeignKey
+ALTER TABLE "meetings" ADD CONSTRAINT "meetings_calendar_feed_id_fkey" FOREIGN KEY ("calendar_feed_id") REFERENCES "calendar_feeds"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "calendar_feeds" ADD CONSTRAINT "calendar_feeds_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "report_templates" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "brand_name" TEXT,
+    "logo_url" TEXT,
+    "primary_color" TEXT NOT NULL DEFAULT '#1F3A5F',
+    "header_text" TEXT,
+    "footer_text" TEXT,
+    "sections" TEXT[],
+    "include_transcript" BOOLEAN NOT NULL DEFAULT false,
+    "is_default" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "report_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "report_templates_user_id_name_key" ON "report_templates"("user_id", "name");
+
+-- AddForeignKey
+ALTER TABLE "report_templates" ADD CONSTRAINT "report_templates_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
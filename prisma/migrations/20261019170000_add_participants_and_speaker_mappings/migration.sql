@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "participants" (
+    "id" TEXT NOT NULL,
+    "owner_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "email" TEXT,
+    "user_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "participants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "speaker_mappings" (
+    "id" TEXT NOT NULL,
+    "meeting_id" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "display_name" TEXT NOT NULL,
+    "participant_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "speaker_mappings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "participants_owner_id_email_key" ON "participants"("owner_id", "email");
+
+-- CreateIndex
+CREATE INDEX "participants_owner_id_idx" ON "participants"("owner_id");
+
+-- CreateIndex
+CREATE INDEX "participants_user_id_idx" ON "participants"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "speaker_mappings_meeting_id_label_key" ON "speaker_mappings"("meeting_id", "label");
+
+-- CreateIndex
+CREATE INDEX "speaker_mappings_participant_id_idx" ON "speaker_mappings"("participant_id");
+
+-- AddForeignKey
+ALTER TABLE "participants" ADD CONSTRAINT "participants_owner_id_fkey" FOREIGN KEY ("owner_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "participants" ADD CONSTRAINT "participants_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "speaker_mappings" ADD CONSTRAINT "speaker_mappings_meeting_id_fkey" FOREIGN KEY ("meeting_id") REFERENCES "meetings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "speaker_mappings" ADD CONSTRAINT "speaker_mappings_participant_id_fkey" FOREIGN KEY ("participant_id") REFERENCES "participants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "meetings" ADD COLUMN "transcript_revision" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "analysis_results" ADD COLUMN "transcript_revision" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "transcript_revisions" (
+    "id" TEXT NOT NULL,
+    "meeting_id" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "author_id" TEXT,
+    "action" TEXT NOT NULL,
+    "summary" TEXT,
+    "changes" JSONB,
+    "reverted_revision" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "transcript_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transcript_revisions_meeting_id_revision_key" ON "transcript_revisions"("meeting_id", "revision");
+
+-- CreateIndex
+CREATE INDEX "transcript_revisions_author_id_idx" ON "transcript_revisions"("author_id");
+
+-- AddForeignKey
+ALTER TABLE "transcript_revisions" ADD CONSTRAINT "transcript_revisions_meeting_id_fkey" FOREIGN KEY ("meeting_id") REFERENCES "meetings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transcript_revisions" ADD CONSTRAINT "transcript_revisions_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
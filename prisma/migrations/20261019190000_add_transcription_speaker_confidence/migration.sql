@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "transcriptions" ADD COLUMN "speaker_confidence" DECIMAL(5,4);
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "ai_usage_records" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT,
+    "meeting_id" TEXT,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "operation" TEXT NOT NULL,
+    "task" TEXT,
+    "prompt_tokens" INTEGER NOT NULL DEFAULT 0,
+    "completion_tokens" INTEGER NOT NULL DEFAULT 0,
+    "total_tokens" INTEGER NOT NULL DEFAULT 0,
+    "latency_ms" INTEGER NOT NULL,
+    "cost" DECIMAL(14,8),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ai_usage_records_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_usage_records_user_id_created_at_idx" ON "ai_usage_records"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "ai_usage_records_meeting_id_idx" ON "ai_usage_records"("meeting_id");
+
+-- CreateIndex
+CREATE INDEX "ai_usage_records_provider_created_at_idx" ON "ai_usage_records"("provider", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "ai_usage_records" ADD CONSTRAINT "ai_usage_records_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ai_usage_records" ADD CONSTRAINT "ai_usage_records_meeting_id_fkey" FOREIGN KEY ("meeting_id") REFERENCES "meetings"("id") ON DELETE SET NULL ON UPDATE CASCADE;
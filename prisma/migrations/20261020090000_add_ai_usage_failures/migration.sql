@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ai_usage_records" ADD COLUMN     "success" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "error_type" TEXT;
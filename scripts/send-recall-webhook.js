@@ -0,0 +1,53 @@
+#!/usr/bin/env node
+
+/**
+ * Post a signed Recall AI webhook fixture to a local server
+ *
+ * Usage:
+ *   RECALL_AI_WEBHOOK_SECRET=whsec_... node scripts/send-recall-webhook.js <fixture.json> [botId]
+ *
+ * Set WEBHOOK_URL to override the default http://localhost:8000/api/webhooks/recall
+ */
+
+import { createHmac, randomUUID } from 'crypto';
+import { readFile } from 'fs/promises';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const [fixturePath, botId] = process.argv.slice(2);
+const secret = process.env.RECALL_AI_WEBHOOK_SECRET;
+const url = process.env.WEBHOOK_URL || 'http://localhost:8000/api/webhooks/recall';
+
+if (!fixturePath || !secret) {
+  console.error('Usage: RECALL_AI_WEBHOOK_SECRET=whsec_... node scripts/send-recall-webhook.js <fixture.json> [botId]');
+  process.exit(1);
+}
+
+const payload = JSON.parse(await readFile(fixturePath, 'utf8'));
+
+// Point the fixture at a bot that exists locally
+if (botId) {
+  if (payload.data.bot) payload.data.bot.id = botId;
+  if (payload.data.bot_id) payload.data.bot_id = botId;
+}
+
+const body = JSON.stringify(payload);
+const id = `msg_${randomUUID()}`;
+const timestamp = Math.floor(Date.now() / 1000).toString();
+const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+const signature = createHmac('sha256', key).update(`${id}.${timestamp}.${body}`).digest('base64');
+
+const response = await fetch(url, {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+    'webhook-id': id,
+    'webhook-timestamp': timestamp,
+    'webhook-signature': `v1,${signature}`,
+  },
+  body,
+});
+
+console.log(`${response.status} ${response.statusText}`);
+console.log(await response.text());
@@ -16,6 +16,23 @@ import healthRoutes from './routes/health.routes.js';
 import authRoutes from './routes/auth.routes.js';
 import meetingRoutes from './routes/meeting.routes.js';
 import meetingBotRoutes from './routes/meeting-bot.routes.js';
+import analysisRoutes from './routes/analysis.routes.js';
+import analysisJobRoutes from './routes/analysis-job.routes.js';
+import webhookRoutes from './routes/webhook.routes.js';
+import chatRoutes from './routes/chat.routes.js';
+import searchRoutes from './routes/search.routes.js';
+import meetingActionItemRoutes from './routes/meeting-action-item.routes.js';
+import actionItemRoutes from './routes/action-item.routes.js';
+import meetingDecisionRoutes from './routes/meeting-decision.routes.js';
+import meetingSpeakerRoutes from './routes/meeting-speaker.routes.js';
+import meetingTranscriptRoutes from './routes/meeting-transcript.routes.js';
+import decisionRoutes from './routes/decision.routes.js';
+import meetingSeriesRoutes from './routes/meeting-series.routes.js';
+import calendarRoutes from './routes/calendar.routes.js';
+import reportTemplateRoutes from './routes/report-template.routes.js';
+import participantRoutes from './routes/participant.routes.js';
+import adminRoutes from './routes/admin.routes.js';
+import usageRoutes from './routes/usage.routes.js';
 
 class App {
   public app: Application;
@@ -64,8 +81,15 @@ class App {
       }),
     );
 
-    // Body parsing
-    this.app.use(express.json({ limit: '10mb' }));
+    // Body parsing (raw body is kept for webhook signature verification)
+    this.app.use(
+      express.json({
+        limit: '10mb',
+        verify: (req, _res, buf) => {
+          (req as Request).rawBody = buf;
+        },
+      }),
+    );
     this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
     // Rate limiting
@@ -78,6 +102,23 @@ class App {
     this.app.use('/api/auth', authRoutes);
     this.app.use('/api/meetings', meetingRoutes);
     this.app.use('/api/meetings', meetingBotRoutes);
+    this.app.use('/api/meetings', analysisRoutes);
+    this.app.use('/api/meetings', meetingActionItemRoutes);
+    this.app.use('/api/meetings', meetingDecisionRoutes);
+    this.app.use('/api/meetings', meetingSpeakerRoutes);
+    this.app.use('/api/meetings', meetingTranscriptRoutes);
+    this.app.use('/api/analysis', analysisJobRoutes);
+    this.app.use('/api/webhooks', webhookRoutes);
+    this.app.use('/api/chat', chatRoutes);
+    this.app.use('/api/search', searchRoutes);
+    this.app.use('/api/action-items', actionItemRoutes);
+    this.app.use('/api/decisions', decisionRoutes);
+    this.app.use('/api/series', meetingSeriesRoutes);
+    this.app.use('/api/calendar', calendarRoutes);
+    this.app.use('/api/report-templates', reportTemplateRoutes);
+    this.app.use('/api/participants', participantRoutes);
+    this.app.use('/api/admin', adminRoutes);
+    this.app.use('/api/usage', usageRoutes);
 
     // Root endpoint
     this.app.get('/', (_req: Request, res: Response) => {
@@ -5,6 +5,7 @@ dotenv.config();
 interface Config {
   env: string;
   port: number;
+  publicUrl?: string;
   redis: {
     host: string;
     port: number;
@@ -25,19 +26,68 @@ interface Config {
     apiKey?: string;
     endpoint?: string;
   };
+  anthropic: {
+    apiKey?: string;
+    endpoint?: string;
+  };
+  ollama: {
+    endpoint?: string;
+    model: string;
+    api: string;
+  };
+  ai: {
+    defaultProvider: string;
+    analysisProvider?: string;
+    analysisModel?: string;
+    routes?: string;
+    pricing?: string;
+  };
+  embeddings: {
+    provider: string;
+    model?: string;
+    dimensions?: number;
+  };
   recallAI: {
     apiKey: string;
     endpoint: string;
+    webhookSecret: string;
   };
   rateLimit: {
     windowMs: number;
     max: number;
   };
+  analysisQueue: {
+    concurrency: number;
+    pollIntervalMs: number;
+    maxAttempts: number;
+    staleJobMs: number;
+  };
+  speechToText: {
+    engine: string;
+    chunkSeconds: number;
+    maxUploadMb: number;
+    ffmpegPath: string;
+    ffmpegTimeoutSeconds: number;
+    whisperCpp: {
+      binaryPath: string;
+      modelPath?: string;
+      threads: number;
+      timeoutSeconds: number;
+    };
+    openaiModel: string;
+  };
+  diarization: {
+    backend: string;
+    endpoint?: string;
+    threshold: number;
+    maxSpeakers: number;
+  };
 }
 
 export const config: Config = {
   env: process.env.NODE_ENV || 'development',
   port: parseInt(process.env.PORT || '8000', 10),
+  publicUrl: process.env.PUBLIC_API_URL?.replace(/\/$/, ''),
   redis: {
     host: process.env.REDIS_HOST || 'localhost',
     port: parseInt(process.env.REDIS_PORT || '6379', 10),
@@ -58,12 +108,62 @@ export const config: Config = {
     apiKey: process.env.OPENAI_API_KEY,
     endpoint: process.env.OPENAI_ENDPOINT,
   },
+  anthropic: {
+    apiKey: process.env.ANTHROPIC_API_KEY,
+    endpoint: process.env.ANTHROPIC_ENDPOINT,
+  },
+  ollama: {
+    endpoint: process.env.OLLAMA_ENDPOINT?.replace(/\/$/, ''),
+    model: process.env.OLLAMA_MODEL || 'llama3.1',
+    api: process.env.OLLAMA_API || 'ollama',
+  },
+  ai: {
+    defaultProvider: process.env.AI_DEFAULT_PROVIDER || 'gemini',
+    analysisProvider: process.env.AI_ANALYSIS_PROVIDER,
+    analysisModel: process.env.AI_ANALYSIS_MODEL,
+    routes: process.env.AI_ROUTES,
+    pricing: process.env.AI_PRICING,
+  },
+  embeddings: {
+    provider: process.env.AI_EMBEDDING_PROVIDER || 'gemini',
+    model: process.env.AI_EMBEDDING_MODEL,
+    dimensions: process.env.AI_EMBEDDING_DIMENSIONS
+      ? parseInt(process.env.AI_EMBEDDING_DIMENSIONS, 10)
+      : undefined,
+  },
   recallAI: {
     apiKey: process.env.RECALL_AI_API_KEY || '',
     endpoint: process.env.RECALL_AI_ENDPOINT || 'https://api.recall.ai/v1',
+    webhookSecret: process.env.RECALL_AI_WEBHOOK_SECRET || '',
   },
   rateLimit: {
     windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10), // 15 minutes
     max: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
   },
+  analysisQueue: {
+    concurrency: parseInt(process.env.ANALYSIS_WORKER_CONCURRENCY || '2', 10),
+    pollIntervalMs: parseInt(process.env.ANALYSIS_QUEUE_POLL_INTERVAL_MS || '2000', 10),
+    maxAttempts: parseInt(process.env.ANALYSIS_JOB_MAX_ATTEMPTS || '3', 10),
+    staleJobMs: parseInt(process.env.ANALYSIS_JOB_STALE_MS || '900000', 10),
+  },
+  speechToText: {
+    engine: process.env.STT_ENGINE || 'whisper-cpp',
+    chunkSeconds: parseInt(process.env.STT_CHUNK_SECONDS || '30', 10),
+    maxUploadMb: parseInt(process.env.STT_MAX_UPLOAD_MB || '500', 10),
+    ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg',
+    ffmpegTimeoutSeconds: parseInt(process.env.FFMPEG_TIMEOUT_SECONDS || '1800', 10),
+    whisperCpp: {
+      binaryPath: process.env.WHISPER_CPP_PATH || 'whisper-cli',
+      modelPath: process.env.WHISPER_CPP_MODEL,
+      threads: parseInt(process.env.WHISPER_CPP_THREADS || '4', 10),
+      timeoutSeconds: parseInt(process.env.WHISPER_CPP_TIMEOUT_SECONDS || '300', 10),
+    },
+    openaiModel: process.env.STT_OPENAI_MODEL || 'whisper-1',
+  },
+  diarization: {
+    backend: process.env.DIARIZATION_BACKEND || 'local',
+    endpoint: process.env.DIARIZATION_ENDPOINT?.replace(/\/$/, ''),
+    threshold: parseFloat(process.env.DIARIZATION_THRESHOLD || '0.85'),
+    maxSpeakers: parseInt(process.env.DIARIZATION_MAX_SPEAKERS || '10', 10),
+  },
 };
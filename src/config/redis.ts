@@ -3,6 +3,7 @@ import { config } from './index.js';
 import { logger } from '../utils/logger.js';
 
 let redisClient: RedisClientType | null = null;
+let subscriberClient: Promise<RedisClientType> | null = null;
 
 export const connectRedis = async (): Promise<RedisClientType> => {
   try {
@@ -38,7 +39,33 @@ export const getRedis = (): RedisClientType => {
   return redisClient;
 };
 
+/**
+ * Get dedicated connection for pub/sub subscriptions
+ * A subscribed connection cannot run other commands, so it is separate from the main client
+ */
+export const getRedisSubscriber = (): Promise<RedisClientType> => {
+  if (!subscriberClient) {
+    const subscriber = getRedis().duplicate();
+
+    subscriber.on('error', (error) => {
+      logger.error('Redis Subscriber Error:', error);
+    });
+
+    subscriberClient = subscriber.connect().then(() => subscriber);
+    subscriberClient.catch(() => {
+      subscriberClient = null;
+    });
+  }
+  return subscriberClient;
+};
+
 export const closeRedis = async (): Promise<void> => {
+  if (subscriberClient) {
+    const subscriber = await subscriberClient.catch(() => null);
+    subscriberClient = null;
+    await subscriber?.quit();
+  }
+
   if (redisClient) {
     await redisClient.quit();
     redisClient = null;
@@ -0,0 +1,172 @@
+import { Request, Response, NextFunction } from 'express';
+import { actionItemService, ActionItemInput } from '../services/action-item.service.js';
+import { meetingService } from '../services/meeting.service.js';
+import {
+  ActionItemFilters,
+  ActionItemPriority,
+  ActionItemStatus,
+} from '../types/action-item.types.js';
+import { AppError } from '../middlewares/error-handler.js';
+import { ValidationUtil } from '../utils/validation.util.js';
+
+/**
+ * Parse and validate action item list filters from the query string
+ */
+function parseFilters(query: Request['query']): ActionItemFilters {
+  const { status, priority, owner, dueBefore, dueAfter, overdue, skip, take } = query;
+
+  const parsed = {
+    statuses: status
+      ? (status as string).split(',').map((value) => value.trim()).filter(Boolean)
+      : undefined,
+    priority: priority as string | undefined,
+    owner: owner as string | undefined,
+    dueBefore: dueBefore as string | undefined,
+    dueAfter: dueAfter as string | undefined,
+    skip: skip ? parseInt(skip as string, 10) : undefined,
+    take: take ? parseInt(take as string, 10) : undefined,
+  };
+
+  const validation = ValidationUtil.validateActionItemQuery(parsed);
+  if (!validation.valid) {
+    throw new AppError(validation.message || 'Invalid action item query', 400);
+  }
+
+  return {
+    statuses: parsed.statuses as ActionItemStatus[] | undefined,
+    priority: parsed.priority as ActionItemPriority | undefined,
+    owner: parsed.owner,
+    dueBefore: parsed.dueBefore ? new Date(parsed.dueBefore) : undefined,
+    dueAfter: parsed.dueAfter ? new Date(parsed.dueAfter) : undefined,
+    overdue: overdue === 'true',
+    skip: parsed.skip,
+    take: parsed.take,
+  };
+}
+
+/**
+ * Validate an action item body and convert it to service input
+ */
+function parseInput(body: Record<string, unknown>, partial: boolean): ActionItemInput {
+  const { description, owner, assignees, priority, status, dueDate, sourceTranscriptionId } =
+    body || {};
+  const input = { description, owner, assignees, priority, status, dueDate, sourceTranscriptionId };
+
+  const validation = ValidationUtil.validateActionItem(input, { partial });
+  if (!validation.valid) {
+    throw new AppError(validation.message || 'Invalid action item', 400);
+  }
+
+  return {
+    description: (description as string | undefined)?.trim(),
+    owner: owner as string | null | undefined,
+    assignees: assignees as string[] | undefined,
+    priority: priority as ActionItemPriority | undefined,
+    status: status as ActionItemStatus | undefined,
+    dueDate: dueDate === undefined || dueDate === null ? dueDate : new Date(dueDate as string),
+    sourceTranscriptionId: sourceTranscriptionId as string | null | undefined,
+  };
+}
+
+export class ActionItemController {
+  /**
+   * List action items of a meeting
+   */
+  async getMeetingActionItems(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      const filters = parseFilters(req.query);
+      await meetingService.getOwnedMeeting(id, userId);
+
+      const actionItems = await actionItemService.listForMeeting(id, filters);
+      res.json({ actionItems });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Add an action item to a meeting
+   */
+  async createActionItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      const input = parseInput(req.body, false);
+      await meetingService.getOwnedMeeting(id, userId);
+
+      const actionItem = await actionItemService.createActionItem(id, {
+        ...input,
+        description: input.description!,
+      });
+      res.status(201).json(actionItem);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the caller's action items across all meetings
+   */
+  async getMyActionItems(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+
+      const result = await actionItemService.listForUser(userId, parseFilters(req.query));
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get an action item
+   */
+  async getActionItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { itemId } = req.params;
+      const userId = req.user!.id;
+
+      const actionItem = await actionItemService.getOwnedActionItem(itemId, userId);
+      res.json(actionItem);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update an action item
+   */
+  async updateActionItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { itemId } = req.params;
+      const userId = req.user!.id;
+
+      const input = parseInput(req.body, true);
+      const actionItem = await actionItemService.updateActionItem(itemId, userId, input);
+      res.json(actionItem);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete an action item
+   */
+  async deleteActionItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { itemId } = req.params;
+      const userId = req.user!.id;
+
+      await actionItemService.deleteActionItem(itemId, userId);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const actionItemController = new ActionItemController();
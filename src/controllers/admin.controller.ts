@@ -0,0 +1,41 @@
+import { Request, Response, NextFunction } from 'express';
+import { aiService } from '../services/ai/ai.service.js';
+import { AIProvider } from '../services/ai/types/ai.types.js';
+import { AppError } from '../middlewares/error-handler.js';
+
+export class AdminController {
+  /**
+   * Get circuit breaker state of AI providers
+   */
+  async getAICircuits(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const providers = await aiService.getCircuitStatus();
+      res.json({ providers });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Close an AI provider's circuit breaker
+   */
+  async resetAICircuit(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const provider = req.params.provider as AIProvider;
+      if (!Object.values(AIProvider).includes(provider)) {
+        throw new AppError(
+          `Unknown AI provider. Use one of: ${Object.values(AIProvider).join(', ')}`,
+          400
+        );
+      }
+
+      await aiService.resetCircuit(provider);
+      const providers = await aiService.getCircuitStatus();
+      res.json({ provider, circuit: providers[provider] ?? null });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const adminController = new AdminController();
@@ -0,0 +1,206 @@
+import { Request, Response, NextFunction } from 'express';
+import { meetingService } from '../services/meeting.service.js';
+import { aiAnalysisService } from '../services/ai/ai-analysis.service.js';
+import { analysisQueueService } from '../services/ai/analysis-queue.service.js';
+import { AnalysisType } from '../services/ai/types/analysis.types.js';
+import { AppError } from '../middlewares/error-handler.js';
+import { ValidationUtil } from '../utils/validation.util.js';
+
+export class AnalysisController {
+  /**
+   * Run an analysis for a meeting
+   */
+  async startAnalysis(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const { analysisType, options } = req.body;
+
+      const validation = ValidationUtil.validateAnalysisRequest({ analysisType, options });
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid analysis request', 400);
+      }
+
+      await meetingService.getOwnedMeeting(id, userId);
+
+      const result = await aiAnalysisService.runAnalysis(id, analysisType as AnalysisType, {
+        ...options,
+        analysisTypes: [analysisType],
+      });
+
+      res.status(201).json({ analysisType, result });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Extract insights for a meeting
+   */
+  async extractInsights(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const maxInsights = req.body.maxInsights ? parseInt(req.body.maxInsights, 10) : undefined;
+
+      if (maxInsights !== undefined && (isNaN(maxInsights) || maxInsights < 1)) {
+        throw new AppError('maxInsights must be a positive integer', 400);
+      }
+
+      await meetingService.getOwnedMeeting(id, userId);
+
+      const insights = await aiAnalysisService.extractInsights(id, maxInsights);
+      res.json({ insights });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List stored analysis results for a meeting
+   */
+  async getAnalysisResults(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const { type, skip, take } = req.query;
+
+      await meetingService.getOwnedMeeting(id, userId);
+
+      const result = await aiAnalysisService.getAnalysisResults(id, {
+        analysisType: type as string | undefined,
+        skip: skip ? parseInt(skip as string) : undefined,
+        take: take ? parseInt(take as string) : undefined,
+      });
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the latest analysis result per type
+   */
+  async getLatestAnalysisResults(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      await meetingService.getOwnedMeeting(id, userId);
+
+      const latest = await aiAnalysisService.getLatestAnalysisResults(id);
+      res.json(latest);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the latest analysis result of a type
+   */
+  async getLatestAnalysisResultByType(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id, type } = req.params;
+      const userId = req.user!.id;
+
+      if (!Object.values(AnalysisType).includes(type as AnalysisType)) {
+        throw new AppError(`Unsupported analysis type: ${type}`, 400);
+      }
+
+      await meetingService.getOwnedMeeting(id, userId);
+
+      const result = await aiAnalysisService.getLatestAnalysisResult(id, type);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete an analysis result
+   */
+  async deleteAnalysisResult(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, analysisId } = req.params;
+      const userId = req.user!.id;
+
+      await meetingService.getOwnedMeeting(id, userId);
+
+      await aiAnalysisService.deleteAnalysisResult(id, analysisId);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Queue analysis for background processing
+   */
+  async enqueueAnalysis(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const { analysisTypes, options, maxAttempts } = req.body;
+
+      const validation = ValidationUtil.validateAnalysisJobRequest({
+        analysisTypes,
+        options,
+        maxAttempts,
+      });
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid analysis job request', 400);
+      }
+
+      await meetingService.getOwnedMeeting(id, userId);
+
+      const job = await analysisQueueService.enqueue(
+        id,
+        userId,
+        analysisTypes as AnalysisType[],
+        options,
+        maxAttempts
+      );
+
+      res.status(202).json({ jobId: job.jobId, status: job.status });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get analysis job status
+   */
+  async getAnalysisJob(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { jobId } = req.params;
+      const userId = req.user!.id;
+
+      const job = await analysisQueueService.getJobForUser(jobId, userId);
+      res.json(job);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Cancel an analysis job
+   */
+  async cancelAnalysisJob(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { jobId } = req.params;
+      const userId = req.user!.id;
+
+      const job = await analysisQueueService.cancelJob(jobId, userId);
+      res.json(job);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const analysisController = new AnalysisController();
@@ -0,0 +1,146 @@
+import { Request, Response, NextFunction } from 'express';
+import { calendarImportService } from '../services/calendar-import.service.js';
+import { calendarExportService } from '../services/calendar-export.service.js';
+import { config } from '../config/index.js';
+import { AppError } from '../middlewares/error-handler.js';
+import { ValidationUtil } from '../utils/validation.util.js';
+
+export class CalendarController {
+  /**
+   * Import an uploaded .ics file
+   */
+  async importCalendar(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      // Raw text/calendar upload, or JSON with the file in `content`
+      const content = typeof req.body === 'string' ? req.body : req.body?.content;
+
+      if (!content || typeof content !== 'string') {
+        throw new AppError('Calendar content is required', 400);
+      }
+
+      const result = await calendarImportService.importCalendar(userId, content);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the caller's calendar feeds
+   */
+  async getFeeds(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+
+      const feeds = await calendarImportService.getUserFeeds(userId);
+      res.json({ feeds });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Register a calendar feed
+   */
+  async createFeed(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { url, name } = req.body || {};
+
+      const validation = ValidationUtil.validateCalendarFeed({ url, name });
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid calendar feed', 400);
+      }
+
+      const { feed, result } = await calendarImportService.createFeed(userId, url, name);
+      res.status(201).json({ feed, import: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Sync a calendar feed now
+   */
+  async syncFeed(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { feedId } = req.params;
+      const userId = req.user!.id;
+
+      const result = await calendarImportService.syncOwnedFeed(feedId, userId);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove a calendar feed
+   */
+  async deleteFeed(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { feedId } = req.params;
+      const userId = req.user!.id;
+
+      await calendarImportService.deleteFeed(feedId, userId);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the link of the caller's subscribable meeting calendar
+   */
+  async getFeedLink(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+
+      const token = await calendarExportService.getFeedToken(userId);
+      res.json({ url: buildFeedUrl(req, token) });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Replace the link of the caller's meeting calendar
+   */
+  async rotateFeedLink(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+
+      const token = await calendarExportService.rotateFeedToken(userId);
+      res.json({ url: buildFeedUrl(req, token) });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Serve a user's meeting calendar to calendar clients
+   */
+  async getFeed(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token } = req.params;
+
+      const calendar = await calendarExportService.renderFeed(token);
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Cache-Control', 'private, max-age=300');
+      res.send(calendar);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+/**
+ * Absolute feed URL, calendar clients cannot resolve relative links
+ */
+const buildFeedUrl = (req: Request, token: string): string => {
+  const baseUrl = config.publicUrl || `${req.protocol}://${req.get('host')}`;
+  return `${baseUrl}/api/calendar/feed/${token}.ics`;
+};
+
+export const calendarController = new CalendarController();
@@ -0,0 +1,74 @@
+import { Request, Response, NextFunction } from 'express';
+import { meetingChatService } from '../services/ai/meeting-chat.service.js';
+import { MeetingChatRequest } from '../services/ai/types/chat.types.js';
+import { AppError } from '../middlewares/error-handler.js';
+import { ValidationUtil } from '../utils/validation.util.js';
+import { SSEUtil } from '../utils/sse.util.js';
+import { logger } from '../utils/logger.js';
+
+export class ChatController {
+  /**
+   * Ask a question across the user's meetings
+   * Streams the answer as server-sent events when requested
+   */
+  async ask(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { question, history, meetingIds, startDate, endDate, maxSources, stream } = req.body;
+
+      const validation = ValidationUtil.validateChatRequest({
+        question,
+        history,
+        meetingIds,
+        startDate,
+        endDate,
+        maxSources,
+        stream,
+      });
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid chat request', 400);
+      }
+
+      const chatRequest: MeetingChatRequest = {
+        question: question.trim(),
+        history,
+        meetingIds,
+        startDate: startDate ? new Date(startDate) : undefined,
+        endDate: endDate ? new Date(endDate) : undefined,
+        maxSources,
+      };
+
+      const wantsStream =
+        stream === true || (req.headers.accept || '').includes('text/event-stream');
+
+      if (!wantsStream) {
+        const answer = await meetingChatService.ask(userId, chatRequest);
+        res.json(answer);
+        return;
+      }
+
+      SSEUtil.open(req, res);
+
+      try {
+        const answer = await meetingChatService.streamAnswer(userId, chatRequest, {
+          onSources: (sources) => SSEUtil.send(res, 'sources', { sources }),
+          onChunk: (chunk) => SSEUtil.send(res, 'chunk', { content: chunk.content }),
+        });
+
+        SSEUtil.send(res, 'done', { citations: answer.citations, usage: answer.usage });
+      } catch (error) {
+        // Headers are already sent, so report the failure on the stream itself
+        logger.error('Meeting chat stream failed', { userId, error: String(error) });
+        SSEUtil.send(res, 'error', {
+          message: error instanceof AppError ? error.message : 'Failed to generate answer',
+        });
+      }
+
+      res.end();
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const chatController = new ChatController();
@@ -0,0 +1,126 @@
+import { Request, Response, NextFunction } from 'express';
+import { decisionService } from '../services/decision.service.js';
+import { meetingService } from '../services/meeting.service.js';
+import { DecisionRelation, DecisionStatus } from '../types/decision.types.js';
+import { AppError } from '../middlewares/error-handler.js';
+import { ValidationUtil } from '../utils/validation.util.js';
+
+export class DecisionController {
+  /**
+   * Search the caller's decision log
+   */
+  async getDecisionLog(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { q, meetingIds, participant, status, startDate, endDate, skip, take } = req.query;
+
+      const query = {
+        q: q as string | undefined,
+        meetingIds: meetingIds
+          ? (meetingIds as string).split(',').map((id) => id.trim()).filter(Boolean)
+          : undefined,
+        participant: participant as string | undefined,
+        status: status as string | undefined,
+        startDate: startDate as string | undefined,
+        endDate: endDate as string | undefined,
+        skip: skip ? parseInt(skip as string, 10) : undefined,
+        take: take ? parseInt(take as string, 10) : undefined,
+      };
+
+      const validation = ValidationUtil.validateDecisionLogQuery(query);
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid decision log query', 400);
+      }
+
+      const result = await decisionService.searchLog(userId, {
+        q: query.q?.trim(),
+        meetingIds: query.meetingIds,
+        participant: query.participant,
+        status: query.status as DecisionStatus | undefined,
+        startDate: query.startDate ? new Date(query.startDate) : undefined,
+        endDate: query.endDate ? new Date(query.endDate) : undefined,
+        skip: query.skip,
+        take: query.take,
+      });
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List decisions of a meeting
+   */
+  async getMeetingDecisions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      await meetingService.getOwnedMeeting(id, userId);
+
+      const decisions = await decisionService.listForMeeting(id);
+      res.json({ decisions });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a decision with its links
+   */
+  async getDecision(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { decisionId } = req.params;
+      const userId = req.user!.id;
+
+      const decision = await decisionService.getOwnedDecision(decisionId, userId);
+      res.json(decision);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Link a decision to an earlier one it revisits or supersedes
+   */
+  async linkDecision(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { decisionId } = req.params;
+      const userId = req.user!.id;
+      const { relatedDecisionId, relation } = req.body || {};
+
+      const validation = ValidationUtil.validateDecisionLink({ relatedDecisionId, relation });
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid decision link', 400);
+      }
+
+      const link = await decisionService.linkDecisions(
+        decisionId,
+        relatedDecisionId,
+        relation as DecisionRelation,
+        userId
+      );
+      res.status(201).json(link);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove the link between two decisions
+   */
+  async unlinkDecision(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { decisionId, relatedDecisionId } = req.params;
+      const userId = req.user!.id;
+
+      await decisionService.unlinkDecisions(decisionId, relatedDecisionId, userId);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const decisionController = new DecisionController();
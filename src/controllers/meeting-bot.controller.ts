@@ -1,5 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import { meetingBotService } from '../services/recall-ai/meeting-bot.service.js';
+import { meetingService } from '../services/meeting.service.js';
+import { transcriptionService } from '../services/transcription.service.js';
+import { transcriptStreamService } from '../services/transcript-stream.service.js';
+import { SSEUtil } from '../utils/sse.util.js';
+import { logger } from '../utils/logger.js';
 
 export class MeetingBotController {
   /**
@@ -98,6 +103,60 @@ export class MeetingBotController {
       next(error);
     }
   }
+
+  /**
+   * Stream live transcription events (Server-Sent Events)
+   */
+  async streamTranscription(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id: meetingId } = req.params;
+      const userId = req.user!.id;
+
+      await meetingService.getOwnedMeeting(meetingId, userId);
+
+      let unsubscribe: (() => Promise<void>) | undefined;
+      let closed = false;
+
+      SSEUtil.open(req, res, () => {
+        closed = true;
+        unsubscribe?.();
+      });
+
+      try {
+        unsubscribe = await transcriptStreamService.subscribe(meetingId, (event) => {
+          SSEUtil.send(res, event.type, event, event.type === 'segment' ? event.segment.id : undefined);
+        });
+      } catch (error) {
+        // Headers are already sent, so report the failure on the stream itself
+        logger.error('Failed to subscribe to transcript stream', {
+          meetingId,
+          error: String(error),
+        });
+        SSEUtil.send(res, 'error', { message: 'Transcript stream unavailable' });
+        res.end();
+        return;
+      }
+
+      if (closed) {
+        await unsubscribe();
+        return;
+      }
+
+      // Let the client know where the session currently stands
+      const session = await transcriptionService.getSessionByMeetingId(meetingId);
+      if (session) {
+        SSEUtil.send(res, 'session_status', {
+          type: 'session_status',
+          meetingId,
+          sessionId: session.sessionId,
+          status: session.status,
+          emittedAt: new Date(),
+        });
+      }
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export const meetingBotController = new MeetingBotController();
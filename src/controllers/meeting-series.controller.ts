@@ -0,0 +1,167 @@
+import { Request, Response, NextFunction } from 'express';
+import { meetingSeriesService } from '../services/meeting-series.service.js';
+import { UpdateMeetingSeriesData } from '../repositories/index.js';
+import { AppError } from '../middlewares/error-handler.js';
+import { ValidationUtil } from '../utils/validation.util.js';
+import {
+  transformMeetingResponse,
+  transformMeetingsResponse,
+} from '../utils/meeting-transformer.js';
+
+export class MeetingSeriesController {
+  /**
+   * Create a meeting series
+   */
+  async createSeries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const {
+        title,
+        description,
+        meetingUrl,
+        platform,
+        recurrenceRule,
+        startsAt,
+        durationMinutes,
+      } = req.body || {};
+      const data = {
+        title,
+        description,
+        meetingUrl,
+        platform,
+        recurrenceRule,
+        startsAt,
+        durationMinutes,
+      };
+
+      const validation = ValidationUtil.validateMeetingSeries(data, { partial: false });
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid meeting series', 400);
+      }
+
+      const series = await meetingSeriesService.createSeries({
+        ...data,
+        userId,
+        startsAt: new Date(startsAt),
+      });
+      res.status(201).json(series);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the caller's meeting series
+   */
+  async getUserSeries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+
+      const series = await meetingSeriesService.getUserSeries(userId);
+      res.json({ series });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the series view
+   */
+  async getSeries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { seriesId } = req.params;
+      const userId = req.user!.id;
+
+      const view = await meetingSeriesService.getSeriesView(seriesId, userId);
+      res.json({
+        ...view,
+        pastOccurrences: transformMeetingsResponse(view.pastOccurrences),
+        upcomingOccurrences: transformMeetingsResponse(view.upcomingOccurrences),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a meeting series
+   */
+  async updateSeries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { seriesId } = req.params;
+      const userId = req.user!.id;
+      const {
+        title,
+        description,
+        meetingUrl,
+        platform,
+        recurrenceRule,
+        startsAt,
+        durationMinutes,
+        active,
+      } = req.body || {};
+      const data = {
+        title,
+        description,
+        meetingUrl,
+        platform,
+        recurrenceRule,
+        startsAt,
+        durationMinutes,
+        active,
+      };
+
+      const validation = ValidationUtil.validateMeetingSeries(data, { partial: true });
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid meeting series', 400);
+      }
+
+      const update: UpdateMeetingSeriesData = {
+        ...data,
+        startsAt: startsAt ? new Date(startsAt) : undefined,
+      };
+
+      const series = await meetingSeriesService.updateSeries(seriesId, userId, update);
+      res.json(series);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a meeting series
+   */
+  async deleteSeries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { seriesId } = req.params;
+      const userId = req.user!.id;
+
+      await meetingSeriesService.deleteSeries(seriesId, userId);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Add an existing meeting to a series
+   */
+  async attachMeeting(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { seriesId } = req.params;
+      const userId = req.user!.id;
+      const { meetingId } = req.body || {};
+
+      if (!meetingId || typeof meetingId !== 'string') {
+        throw new AppError('meetingId is required', 400);
+      }
+
+      const meeting = await meetingSeriesService.attachMeeting(seriesId, meetingId, userId);
+      res.json(transformMeetingResponse(meeting));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const meetingSeriesController = new MeetingSeriesController();
@@ -1,8 +1,19 @@
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import { Request, Response, NextFunction } from 'express';
 import { meetingService } from '../services/meeting.service.js';
+import { meetingExportService } from '../services/export/meeting-export.service.js';
+import { transcriptImportService } from '../services/import/transcript-import.service.js';
+import { audioTranscriptionService } from '../services/stt/audio-transcription.service.js';
+import {
+  ExportSection,
+  MeetingExportOptions,
+} from '../services/export/types/export.types.js';
+import { TranscriptFormat } from '../services/import/types/import.types.js';
 import { CreateMeetingData, UpdateMeetingData } from '../repositories/meeting.repository.js';
 import { AppError } from '../middlewares/error-handler.js';
-import { MeetingWithRelations } from '../types/meeting.types.js';
+import { ValidationUtil } from '../utils/validation.util.js';
+import { logger } from '../utils/logger.js';
 import { transformMeetingResponse, transformMeetingsResponse } from '../utils/meeting-transformer.js';
 
 export class MeetingController {
@@ -178,115 +189,204 @@ export class MeetingController {
   }
 
   /**
-   * Export meeting
+   * Export meeting in the requested format
    */
   async exportMeeting(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
-      const { format } = req.query; // json, txt, csv, md
       const userId = req.user!.id;
+      const { format } = req.query;
 
-      const meeting: MeetingWithRelations = await meetingService.getMeetingWithRelations(id);
+      const exporter = meetingExportService.getExporter(
+        typeof format === 'string' ? format : undefined
+      );
+      const options = parseExportOptions(req.query);
 
-      if (meeting.userId !== userId) {
-        throw new AppError('Unauthorized access to meeting', 403);
+      const stream = await meetingExportService.exportMeeting(id, userId, exporter, options);
+      const filename = meetingExportService.getFilename(id, exporter);
+      await sendExport(res, stream, exporter.contentType, filename);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Export several meetings as a ZIP archive
+   */
+  async exportMeetings(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { meetingIds, format } = req.body || {};
+
+      const validation = ValidationUtil.validateBulkExport({ meetingIds, format });
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid export request', 400);
       }
 
-      if (format === 'txt') {
-        let content = `Title: ${meeting.title}\n`;
-        content += `Date: ${meeting.scheduledAt || meeting.createdAt}\n`;
-        content += `Description: ${meeting.description || 'N/A'}\n\n`;
-
-        content += `TRANSCRIPTIONS:\n`;
-        if (meeting.transcriptions && meeting.transcriptions.length > 0) {
-            meeting.transcriptions.forEach((t) => {
-                content += `[${t.timestampStart || '00:00'}] ${t.speakerName || 'Speaker'}: ${t.text}\n`;
-            });
-        } else {
-            content += `No transcriptions available.\n`;
-        }
-
-        content += `\nANALYSIS:\n`;
-        if (meeting.analysisResults && meeting.analysisResults.length > 0) {
-            meeting.analysisResults.forEach((a) => {
-                content += `Type: ${a.analysisType}\n`;
-                if (a.summary) content += `Summary: ${a.summary}\n`;
-                content += `\n`;
-            });
-        }
-
-        res.setHeader('Content-Type', 'text/plain');
-        res.setHeader('Content-Disposition', `attachment; filename="meeting-${id}.txt"`);
-        res.send(content);
-      } else if (format === 'csv') {
-        // CSV export of transcriptions
-        let csv = 'Timestamp,Speaker,Text,Confidence\n';
-
-        if (meeting.transcriptions && meeting.transcriptions.length > 0) {
-          meeting.transcriptions.forEach((t) => {
-            const timestamp = t.timestampStart || '00:00';
-            const speaker = (t.speakerName || 'Speaker').replace(/"/g, '""');
-            const text = (t.text || '').replace(/"/g, '""');
-            const confidence = t.confidence || 'N/A';
-            csv += `"${timestamp}","${speaker}","${text}","${confidence}"\n`;
-          });
-        }
-
-        res.setHeader('Content-Type', 'text/csv');
-        res.setHeader('Content-Disposition', `attachment; filename="meeting-${id}.csv"`);
-        res.send(csv);
-      } else if (format === 'md') {
-        // Markdown export
-        let md = `# ${meeting.title}\n\n`;
-        md += `**Date:** ${meeting.scheduledAt || meeting.createdAt}\n\n`;
-        if (meeting.description) {
-          md += `**Description:** ${meeting.description}\n\n`;
-        }
-        if (meeting.platform) {
-          md += `**Platform:** ${meeting.platform}\n\n`;
-        }
-        md += `**Status:** ${meeting.status}\n\n`;
-        md += `---\n\n`;
-
-        md += `## Transcriptions\n\n`;
-        if (meeting.transcriptions && meeting.transcriptions.length > 0) {
-          meeting.transcriptions.forEach((t) => {
-            const timestamp = t.timestampStart || '00:00';
-            const speaker = t.speakerName || 'Speaker';
-            md += `**[${timestamp}] ${speaker}:** ${t.text}\n\n`;
-          });
-        } else {
-          md += `*No transcriptions available.*\n\n`;
-        }
-
-        md += `---\n\n## Analysis Results\n\n`;
-        if (meeting.analysisResults && meeting.analysisResults.length > 0) {
-          meeting.analysisResults.forEach((a) => {
-            md += `### ${a.analysisType}\n\n`;
-            if (a.summary) md += `${a.summary}\n\n`;
-            if (a.actionItems && Array.isArray(a.actionItems) && a.actionItems.length > 0) {
-              md += `**Action Items:**\n\n`;
-              a.actionItems.forEach((item) => {
-                md += `- ${item}\n`;
-              });
-              md += `\n`;
-            }
-          });
-        } else {
-          md += `*No analysis results available.*\n\n`;
-        }
-
-        res.setHeader('Content-Type', 'text/markdown');
-        res.setHeader('Content-Disposition', `attachment; filename="meeting-${id}.md"`);
-        res.send(md);
-      } else {
-        // Default to JSON
-        res.json(meeting);
+      const exporter = meetingExportService.getExporter(format);
+      const options = parseExportOptions(req.body);
+
+      const archive = await meetingExportService.exportMeetings(
+        meetingIds,
+        userId,
+        exporter,
+        options
+      );
+      const filename = `meetings-${new Date().toISOString().slice(0, 10)}.zip`;
+      await sendExport(res, archive, 'application/zip', filename);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Import a transcript file exported by a meeting platform
+   */
+  async importTranscript(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const content = readTranscriptUpload(req.body);
+      // Options come in the query for raw uploads, or next to `content` in JSON
+      const fields = Buffer.isBuffer(req.body) || typeof req.body === 'string' ? {} : req.body;
+      const { format, replace, analyze } = { ...req.query, ...fields };
+
+      const validation = ValidationUtil.validateTranscriptImport({ format, replace, analyze });
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid import options', 400);
+      }
+
+      const result = await transcriptImportService.importTranscript(id, userId, content, {
+        format: format as TranscriptFormat | undefined,
+        replace: String(replace) === 'true',
+        analyze: String(analyze) === 'true',
+      });
+      res.status(201).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Upload a recording of a meeting to be transcribed
+   */
+  async transcribeAudio(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const { engine, language, diarize, replace, analyze } = req.query;
+
+      if (!req.is(['audio/*', 'video/*', 'application/octet-stream'])) {
+        throw new AppError('Upload the recording as an audio or video file', 400);
       }
+
+      const validation = ValidationUtil.validateAudioTranscription({
+        engine,
+        language,
+        diarize,
+        replace,
+        analyze,
+      });
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid transcription options', 400);
+      }
+
+      const progress = await audioTranscriptionService.transcribeUpload(id, userId, req, {
+        engine: engine as string | undefined,
+        language: language as string | undefined,
+        diarize: String(diarize) !== 'false',
+        replace: String(replace) === 'true',
+        analyze: String(analyze) === 'true',
+      });
+      res.status(202).json(progress);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the progress of the recording uploaded for a meeting
+   */
+  async getAudioTranscription(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      const progress = await audioTranscriptionService.getProgress(id, userId);
+      res.json(progress);
     } catch (error) {
       next(error);
     }
   }
 }
 
+/**
+ * Transcript file from a raw upload, or JSON with the file in `content` (base64 when
+ * `encoding` is "base64")
+ */
+function readTranscriptUpload(body: unknown): Buffer {
+  if (Buffer.isBuffer(body)) {
+    return body;
+  }
+  if (typeof body === 'string') {
+    return Buffer.from(body, 'utf8');
+  }
+
+  const { content, encoding } = (body || {}) as { content?: unknown; encoding?: unknown };
+  if (typeof content !== 'string' || !content) {
+    throw new AppError('Transcript content is required', 400);
+  }
+
+  return Buffer.from(content, encoding === 'base64' ? 'base64' : 'utf8');
+}
+
+/**
+ * Export options from the query or body: `sections` as a list or comma-separated,
+ * `templateId` and `includeTranscript`
+ */
+function parseExportOptions(source: Record<string, unknown>): MeetingExportOptions {
+  const { sections, templateId, includeTranscript } = source;
+  const sectionList =
+    typeof sections === 'string'
+      ? sections.split(',').map((section) => section.trim()).filter(Boolean)
+      : sections;
+
+  const validation = ValidationUtil.validateExportOptions({
+    sections: sectionList,
+    templateId,
+    includeTranscript,
+  });
+  if (!validation.valid) {
+    throw new AppError(validation.message || 'Invalid export options', 400);
+  }
+
+  return {
+    sections: sectionList as ExportSection[] | undefined,
+    templateId: templateId as string | undefined,
+    includeTranscript:
+      includeTranscript === undefined ? undefined : String(includeTranscript) === 'true',
+  };
+}
+
+/**
+ * Stream an export as a download
+ * Once the first chunk is out the status can no longer change, so a failure mid-way can only
+ * abort the download.
+ */
+async function sendExport(
+  res: Response,
+  stream: Readable,
+  contentType: string,
+  filename: string
+): Promise<void> {
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+  try {
+    await pipeline(stream, res);
+  } catch (error) {
+    logger.error('Export stream failed', { filename, error: String(error) });
+  }
+}
+
 export const meetingController = new MeetingController();
@@ -0,0 +1,100 @@
+import { Request, Response, NextFunction } from 'express';
+import { participantService } from '../services/participant.service.js';
+import { AppError } from '../middlewares/error-handler.js';
+import { ValidationUtil } from '../utils/validation.util.js';
+
+export class ParticipantController {
+  /**
+   * List the participants of the caller's meetings
+   */
+  async getParticipants(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+
+      const participants = await participantService.getUserParticipants(userId);
+      res.json({ participants });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a participant
+   */
+  async getParticipant(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { participantId } = req.params;
+      const userId = req.user!.id;
+
+      const participant = await participantService.getOwnedParticipant(participantId, userId);
+      res.json(participant);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Add a participant
+   */
+  async createParticipant(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { name, email } = req.body || {};
+
+      const validation = ValidationUtil.validateParticipant({ name, email }, { partial: false });
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid participant', 400);
+      }
+
+      const participant = await participantService.createParticipant({
+        ownerId: userId,
+        name: name.trim(),
+        email,
+      });
+      res.status(201).json(participant);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a participant
+   */
+  async updateParticipant(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { participantId } = req.params;
+      const userId = req.user!.id;
+      const { name, email } = req.body || {};
+
+      const validation = ValidationUtil.validateParticipant({ name, email }, { partial: true });
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid participant', 400);
+      }
+
+      const participant = await participantService.updateParticipant(participantId, userId, {
+        name: name ? name.trim() : undefined,
+        email,
+      });
+      res.json(participant);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a participant
+   */
+  async deleteParticipant(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { participantId } = req.params;
+      const userId = req.user!.id;
+
+      await participantService.deleteParticipant(participantId, userId);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const participantController = new ParticipantController();
@@ -0,0 +1,145 @@
+import { Request, Response, NextFunction } from 'express';
+import { reportTemplateService } from '../services/report/report-template.service.js';
+import { UpdateReportTemplateData } from '../repositories/index.js';
+import { AppError } from '../middlewares/error-handler.js';
+import { ValidationUtil } from '../utils/validation.util.js';
+
+export class ReportTemplateController {
+  /**
+   * List the caller's report templates
+   */
+  async getTemplates(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+
+      const templates = await reportTemplateService.getUserTemplates(userId);
+      res.json({ templates });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a report template
+   */
+  async getTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { templateId } = req.params;
+      const userId = req.user!.id;
+
+      const template = await reportTemplateService.getOwnedTemplate(templateId, userId);
+      res.json(template);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a report template
+   */
+  async createTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const {
+        name,
+        brandName,
+        logoUrl,
+        primaryColor,
+        headerText,
+        footerText,
+        sections,
+        includeTranscript,
+        isDefault,
+      } = req.body || {};
+      const data = {
+        name,
+        brandName,
+        logoUrl,
+        primaryColor,
+        headerText,
+        footerText,
+        sections,
+        includeTranscript,
+        isDefault,
+      };
+
+      const validation = ValidationUtil.validateReportTemplate(data, { partial: false });
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid report template', 400);
+      }
+
+      const template = await reportTemplateService.createTemplate({
+        ...data,
+        userId,
+        name: name.trim(),
+      });
+      res.status(201).json(template);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a report template
+   */
+  async updateTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { templateId } = req.params;
+      const userId = req.user!.id;
+      const {
+        name,
+        brandName,
+        logoUrl,
+        primaryColor,
+        headerText,
+        footerText,
+        sections,
+        includeTranscript,
+        isDefault,
+      } = req.body || {};
+      const data = {
+        name,
+        brandName,
+        logoUrl,
+        primaryColor,
+        headerText,
+        footerText,
+        sections,
+        includeTranscript,
+        isDefault,
+      };
+
+      const validation = ValidationUtil.validateReportTemplate(data, { partial: true });
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid report template', 400);
+      }
+
+      const update: UpdateReportTemplateData = {
+        ...data,
+        name: name ? name.trim() : undefined,
+      };
+
+      const template = await reportTemplateService.updateTemplate(templateId, userId, update);
+      res.json(template);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a report template
+   */
+  async deleteTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { templateId } = req.params;
+      const userId = req.user!.id;
+
+      await reportTemplateService.deleteTemplate(templateId, userId);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const reportTemplateController = new ReportTemplateController();
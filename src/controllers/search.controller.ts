@@ -0,0 +1,112 @@
+import { Request, Response, NextFunction } from 'express';
+import { semanticSearchService } from '../services/semantic-search.service.js';
+import { fullTextSearchService } from '../services/full-text-search.service.js';
+import { FullTextSearchKind } from '../repositories/index.js';
+import { meetingService } from '../services/meeting.service.js';
+import { AppError } from '../middlewares/error-handler.js';
+import { ValidationUtil } from '../utils/validation.util.js';
+
+export class SearchController {
+  /**
+   * Keyword search across meetings, transcripts and analyses
+   */
+  async fullTextSearch(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { q, types, userId, startDate, endDate, platform, speaker, analysisType, skip, take } =
+        req.query;
+
+      const query = {
+        q: q as string | undefined,
+        types: types
+          ? (types as string).split(',').map((type) => type.trim()).filter(Boolean)
+          : undefined,
+        userId: userId as string | undefined,
+        startDate: startDate as string | undefined,
+        endDate: endDate as string | undefined,
+        platform: platform as string | undefined,
+        speaker: speaker as string | undefined,
+        analysisType: analysisType as string | undefined,
+        skip: skip ? parseInt(skip as string, 10) : undefined,
+        take: take ? parseInt(take as string, 10) : undefined,
+      };
+
+      const validation = ValidationUtil.validateFullTextSearchQuery(query);
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid search query', 400);
+      }
+
+      const result = await fullTextSearchService.search(req.user!, query.q!.trim(), {
+        userId: query.userId,
+        kinds: query.types as FullTextSearchKind[] | undefined,
+        startDate: query.startDate ? new Date(query.startDate) : undefined,
+        endDate: query.endDate ? new Date(query.endDate) : undefined,
+        platform: query.platform,
+        speaker: query.speaker,
+        analysisType: query.analysisType,
+        skip: query.skip,
+        take: query.take,
+      });
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Search transcripts by meaning
+   */
+  async semanticSearch(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { q, meetingIds, startDate, endDate, limit, minScore } = req.query;
+
+      const query = {
+        q: q as string | undefined,
+        meetingIds: meetingIds
+          ? (meetingIds as string).split(',').map((id) => id.trim()).filter(Boolean)
+          : undefined,
+        startDate: startDate as string | undefined,
+        endDate: endDate as string | undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        minScore: minScore ? parseFloat(minScore as string) : undefined,
+      };
+
+      const validation = ValidationUtil.validateSemanticSearchQuery(query);
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid search query', 400);
+      }
+
+      const results = await semanticSearchService.search(userId, query.q!.trim(), {
+        meetingIds: query.meetingIds,
+        startDate: query.startDate ? new Date(query.startDate) : undefined,
+        endDate: query.endDate ? new Date(query.endDate) : undefined,
+        limit: query.limit,
+        minScore: query.minScore,
+      });
+
+      res.json({ query: query.q, results });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Rebuild the semantic index of a meeting
+   */
+  async reindexMeeting(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { meetingId } = req.params;
+      const userId = req.user!.id;
+
+      await meetingService.getOwnedMeeting(meetingId, userId);
+
+      const chunks = await semanticSearchService.reindexMeeting(meetingId);
+      res.json({ meetingId, chunks });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const searchController = new SearchController();
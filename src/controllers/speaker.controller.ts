@@ -0,0 +1,99 @@
+import { Request, Response, NextFunction } from 'express';
+import { speakerService } from '../services/speaker.service.js';
+import { SpeakerTarget } from '../types/speaker.types.js';
+import { AppError } from '../middlewares/error-handler.js';
+import { ValidationUtil } from '../utils/validation.util.js';
+
+export class SpeakerController {
+  /**
+   * List the speakers of a meeting
+   */
+  async getSpeakers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      const speakers = await speakerService.getMeetingSpeakers(id, userId);
+      res.json({ speakers });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Rename a speaker of a meeting, optionally linking them to a participant
+   */
+  async renameSpeaker(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, speaker } = req.params;
+      const userId = req.user!.id;
+      const { name, participantId, email } = req.body || {};
+      const target: SpeakerTarget = { name, participantId, email };
+
+      const validation = ValidationUtil.validateSpeakerChange({ target });
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid speaker', 400);
+      }
+
+      const result = await speakerService.renameSpeaker(id, userId, speaker, target);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Merge speakers of a meeting into one
+   */
+  async mergeSpeakers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const { speakers, into } = req.body || {};
+
+      const validation = ValidationUtil.validateSpeakerChange(
+        { target: into, speakers },
+        { require: 'speakers' }
+      );
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid speaker merge', 400);
+      }
+
+      const result = await speakerService.mergeSpeakers(id, userId, speakers, into);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Attribute transcriptions of a meeting to another speaker
+   */
+  async reassignTranscriptions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const { transcriptionIds, speaker } = req.body || {};
+
+      const validation = ValidationUtil.validateSpeakerChange(
+        { target: speaker, transcriptionIds },
+        { require: 'transcriptionIds' }
+      );
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid speaker reassignment', 400);
+      }
+
+      const result = await speakerService.reassignTranscriptions(
+        id,
+        userId,
+        transcriptionIds,
+        speaker
+      );
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const speakerController = new SpeakerController();
@@ -0,0 +1,210 @@
+import { Request, Response, NextFunction } from 'express';
+import { transcriptEditService } from '../services/transcript-edit.service.js';
+import { transcriptRevisionService } from '../services/transcript-revision.service.js';
+import { AppError } from '../middlewares/error-handler.js';
+import { ValidationUtil } from '../utils/validation.util.js';
+
+export class TranscriptController {
+  /**
+   * Add a segment to a meeting's transcript
+   */
+  async insertSegment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const { text, speakerName, timestampStart, timestampEnd } = req.body || {};
+
+      const validation = ValidationUtil.validateTranscriptSegment(
+        { text, speakerName, timestampStart, timestampEnd },
+        { partial: false }
+      );
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid transcription', 400);
+      }
+
+      const result = await transcriptEditService.insertSegment(id, userId, {
+        text,
+        speakerName,
+        timestampStart: timestampStart ? new Date(timestampStart) : undefined,
+        timestampEnd: timestampEnd ? new Date(timestampEnd) : undefined,
+      });
+      res.status(201).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Change the text or speaker of a segment
+   */
+  async editSegment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, transcriptionId } = req.params;
+      const userId = req.user!.id;
+      const { text, speakerName } = req.body || {};
+
+      const validation = ValidationUtil.validateTranscriptSegment(
+        { text, speakerName },
+        { partial: true }
+      );
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid transcription', 400);
+      }
+
+      const result = await transcriptEditService.editSegment(id, userId, transcriptionId, {
+        text,
+        speakerName: typeof speakerName === 'string' ? speakerName.trim() || null : speakerName,
+      });
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Split a segment in two
+   */
+  async splitSegment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, transcriptionId } = req.params;
+      const userId = req.user!.id;
+      const { at, speakerName } = req.body || {};
+
+      const validation = ValidationUtil.validateTranscriptRestructure({ at, speakerName });
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid split', 400);
+      }
+
+      const result = await transcriptEditService.splitSegment(id, userId, transcriptionId, {
+        at,
+        speakerName,
+      });
+      res.status(201).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Join segments into one
+   */
+  async mergeSegments(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const { transcriptionIds, speakerName } = req.body || {};
+
+      const validation = ValidationUtil.validateTranscriptRestructure({
+        transcriptionIds,
+        speakerName,
+      });
+      if (!validation.valid) {
+        throw new AppError(validation.message || 'Invalid merge', 400);
+      }
+
+      const result = await transcriptEditService.mergeSegments(id, userId, transcriptionIds, {
+        speakerName,
+      });
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the revisions of a meeting's transcript
+   */
+  async getRevisions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const page = req.query.page ? parseInt(req.query.page as string, 10) : undefined;
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+
+      if ((page !== undefined && !(page >= 1)) || (limit !== undefined && !(limit >= 1))) {
+        throw new AppError('page and limit must be positive integers', 400);
+      }
+
+      const result = await transcriptRevisionService.getRevisions(id, userId, {
+        page,
+        limit: limit && Math.min(limit, 100),
+      });
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a revision of a meeting's transcript
+   */
+  async getRevision(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      const revision = await transcriptRevisionService.getRevision(
+        id,
+        userId,
+        parseRevision(req.params.revision, 'revision')
+      );
+      res.json(revision);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Diff a meeting's transcript between two revisions
+   */
+  async diffRevisions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const { from, to } = req.query;
+
+      const diff = await transcriptRevisionService.diff(
+        id,
+        userId,
+        parseRevision(from, 'from'),
+        to === undefined ? undefined : parseRevision(to, 'to')
+      );
+      res.json(diff);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revert a revision of a meeting's transcript
+   */
+  async revertRevision(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      const result = await transcriptRevisionService.revert(
+        id,
+        userId,
+        parseRevision(req.params.revision, 'revision')
+      );
+      res.status(201).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+/**
+ * Read a revision number from a request parameter
+ */
+function parseRevision(value: unknown, name: string): number {
+  const revision = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : NaN;
+  if (Number.isNaN(revision)) {
+    throw new AppError(`${name} must be a revision number`, 400);
+  }
+
+  return revision;
+}
+
+export const transcriptController = new TranscriptController();
@@ -0,0 +1,67 @@
+import { Request, Response, NextFunction } from 'express';
+import { aiUsageService, AIUsageReportOptions } from '../services/ai/ai-usage.service.js';
+import { AppError } from '../middlewares/error-handler.js';
+import { ValidationUtil } from '../utils/validation.util.js';
+
+/**
+ * Read and validate the user and date range of a usage report
+ */
+function parseUsageQuery(req: Request): AIUsageReportOptions {
+  const query = {
+    userId: req.query.userId as string | undefined,
+    startDate: req.query.startDate as string | undefined,
+    endDate: req.query.endDate as string | undefined,
+  };
+
+  const validation = ValidationUtil.validateAIUsageQuery(query);
+  if (!validation.valid) {
+    throw new AppError(validation.message || 'Invalid usage query', 400);
+  }
+
+  return {
+    userId: query.userId,
+    startDate: query.startDate ? new Date(query.startDate) : undefined,
+    endDate: query.endDate ? new Date(query.endDate) : undefined,
+  };
+}
+
+export class UsageController {
+  /**
+   * Get AI usage per user and month
+   */
+  async getMonthlyUsage(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const months = await aiUsageService.getMonthlyUsage(req.user!, parseUsageQuery(req));
+      res.json({ months });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get AI usage of a meeting
+   */
+  async getMeetingUsage(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const usage = await aiUsageService.getMeetingUsage(req.user!, req.params.meetingId);
+      res.json(usage);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get AI usage per provider and model
+   */
+  async getProviderUsage(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { startDate, endDate } = parseUsageQuery(req);
+      const providers = await aiUsageService.getProviderUsage({ startDate, endDate });
+      res.json({ providers });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const usageController = new UsageController();
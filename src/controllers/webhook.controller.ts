@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express';
+import { recallWebhookService } from '../services/recall-ai/recall-webhook.service.js';
+
+export class WebhookController {
+  /**
+   * Receive Recall AI webhook
+   */
+  async handleRecallWebhook(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Accept both the Svix and the standard-webhooks header names
+      const headers = {
+        id: req.header('webhook-id') || req.header('svix-id'),
+        timestamp: req.header('webhook-timestamp') || req.header('svix-timestamp'),
+        signature: req.header('webhook-signature') || req.header('svix-signature'),
+      };
+
+      recallWebhookService.verifySignature(headers, req.rawBody);
+
+      const result = await recallWebhookService.handleWebhook(headers.id!, req.body);
+      res.json({ received: true, ...result });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const webhookController = new WebhookController();
@@ -3,6 +3,10 @@ import { logger } from './utils/logger.js';
 import { connectDatabase } from './config/database.js';
 import { connectRedis } from './config/redis.js';
 import { meetingBotScheduler } from './jobs/meeting-bot.job.js';
+import { analysisWorker } from './jobs/analysis-worker.job.js';
+import { calendarSyncScheduler } from './jobs/calendar-sync.job.js';
+import { aiService } from './services/ai/ai.service.js';
+import { audioTranscriptionService } from './services/stt/audio-transcription.service.js';
 
 async function bootstrap(): Promise<void> {
   try {
@@ -14,10 +18,35 @@ async function bootstrap(): Promise<void> {
     await connectRedis();
     logger.info('Redis connected successfully');
 
+    // Initialize AI providers (analysis endpoints are unavailable without them)
+    try {
+      await aiService.initialize();
+      logger.info('AI service initialized successfully');
+    } catch (error) {
+      logger.warn('AI service not available, analysis features are disabled', {
+        error: String(error),
+      });
+    }
+
+    // Uploads being transcribed when the server stopped are lost with its temporary files
+    try {
+      await audioTranscriptionService.failInterrupted();
+    } catch (error) {
+      logger.error('Failed to recover interrupted audio transcriptions', {
+        error: String(error),
+      });
+    }
+
     // Start meeting bot scheduler
     meetingBotScheduler.start();
     logger.info('Meeting bot scheduler started');
 
+    // Start analysis job worker
+    analysisWorker.start();
+
+    // Start calendar feed sync
+    calendarSyncScheduler.start();
+
     // Start server
     const app = new App();
     app.listen();
@@ -43,6 +72,8 @@ process.on('unhandledRejection', (reason: unknown) => {
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully');
   meetingBotScheduler.stop();
+  analysisWorker.stop();
+  calendarSyncScheduler.stop();
   process.exit(0);
 });
 
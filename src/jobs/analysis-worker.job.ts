@@ -0,0 +1,111 @@
+import { analysisQueueService } from '../services/ai/analysis-queue.service.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Analysis Worker
+ * Polls the analysis queue and processes jobs in the background
+ */
+export class AnalysisWorker {
+  private readonly RECLAIM_INTERVAL_MS = 60 * 1000;
+  private timer: NodeJS.Timeout | null = null;
+  private reclaimTimer: NodeJS.Timeout | null = null;
+  private activeJobs = 0;
+
+  /**
+   * Start the worker
+   * Polls the queue and keeps up to `concurrency` jobs running
+   */
+  start(): void {
+    if (this.timer) {
+      logger.warn('Analysis worker is already running');
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.fillSlots();
+    }, config.analysisQueue.pollIntervalMs);
+
+    // Requeue jobs of workers that stopped mid-job, e.g. before this restart
+    this.reclaim();
+    this.reclaimTimer = setInterval(() => {
+      this.reclaim();
+    }, this.RECLAIM_INTERVAL_MS);
+
+    logger.info(
+      `Analysis worker started (concurrency ${config.analysisQueue.concurrency}, ` +
+        `polls every ${config.analysisQueue.pollIntervalMs}ms)`
+    );
+  }
+
+  /**
+   * Stop the worker
+   * Jobs already running are allowed to finish
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Analysis worker stopped');
+    }
+
+    if (this.reclaimTimer) {
+      clearInterval(this.reclaimTimer);
+      this.reclaimTimer = null;
+    }
+  }
+
+  /**
+   * Process a single job immediately (for testing)
+   */
+  async runNow(): Promise<boolean> {
+    logger.info('Running analysis worker manually');
+    return analysisQueueService.processNextJob();
+  }
+
+  /**
+   * Requeue stale jobs, logging instead of throwing
+   */
+  private async reclaim(): Promise<void> {
+    try {
+      const reclaimed = await analysisQueueService.reclaimStaleJobs();
+      if (reclaimed > 0) {
+        logger.warn('Requeued stale analysis jobs', { reclaimed });
+      }
+    } catch (error) {
+      logger.error('Failed to reclaim stale analysis jobs', {
+        error: String(error),
+      });
+    }
+  }
+
+  /**
+   * Start a worker loop for each free slot
+   */
+  private fillSlots(): void {
+    while (this.activeJobs < config.analysisQueue.concurrency) {
+      this.activeJobs++;
+      this.drain().finally(() => {
+        this.activeJobs--;
+      });
+    }
+  }
+
+  /**
+   * Process jobs until the queue is empty
+   */
+  private async drain(): Promise<void> {
+    try {
+      while (this.timer && (await analysisQueueService.processNextJob())) {
+        // Keep taking jobs while the worker is running
+      }
+    } catch (error) {
+      logger.error('Analysis worker failed to process job', {
+        error: String(error),
+      });
+    }
+  }
+}
+
+// Export singleton instance
+export const analysisWorker = new AnalysisWorker();
@@ -0,0 +1,58 @@
+import * as cron from 'node-cron';
+import { calendarImportService } from '../services/calendar-import.service.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Calendar Sync Scheduler
+ * Refreshes registered ICS feeds so calendar changes reach their meetings
+ */
+export class CalendarSyncScheduler {
+  private cronJob: cron.ScheduledTask | null = null;
+
+  /**
+   * Start the scheduler
+   * Runs every 15 minutes, each feed is synced at most once an hour
+   */
+  start(): void {
+    if (this.cronJob) {
+      logger.warn('Calendar sync scheduler is already running');
+      return;
+    }
+
+    this.cronJob = cron.schedule('*/15 * * * *', async () => {
+      try {
+        await this.runNow();
+      } catch (error) {
+        logger.error('Calendar sync job failed', {
+          error: String(error),
+        });
+      }
+    });
+
+    logger.info('Calendar sync scheduler started (runs every 15 minutes)');
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop(): void {
+    if (this.cronJob) {
+      this.cronJob.stop();
+      this.cronJob = null;
+      logger.info('Calendar sync scheduler stopped');
+    }
+  }
+
+  /**
+   * Run the job immediately
+   */
+  async runNow(): Promise<void> {
+    const synced = await calendarImportService.syncDueFeeds();
+    if (synced > 0) {
+      logger.info('Calendar feeds synced', { feeds: synced });
+    }
+  }
+}
+
+// Export singleton instance
+export const calendarSyncScheduler = new CalendarSyncScheduler();
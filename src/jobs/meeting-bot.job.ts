@@ -1,10 +1,11 @@
 import * as cron from 'node-cron';
 import { meetingBotService } from '../services/recall-ai/meeting-bot.service.js';
+import { meetingSeriesService } from '../services/meeting-series.service.js';
 import { logger } from '../utils/logger.js';
 
 /**
  * Meeting Bot Scheduler
- * Automatically deploys bots for upcoming meetings
+ * Creates upcoming meeting series occurrences and automatically deploys bots for upcoming meetings
  */
 export class MeetingBotScheduler {
   private cronJob: cron.ScheduledTask | null = null;
@@ -23,6 +24,7 @@ export class MeetingBotScheduler {
     this.cronJob = cron.schedule('*/5 * * * *', async () => {
       try {
         logger.info('Running meeting bot auto-deploy job');
+        await meetingSeriesService.materializeUpcomingOccurrences();
         await meetingBotService.autoDeployForScheduledMeetings();
       } catch (error) {
         logger.error('Meeting bot auto-deploy job failed', {
@@ -50,6 +52,7 @@ export class MeetingBotScheduler {
    */
   async runNow(): Promise<void> {
     logger.info('Running meeting bot auto-deploy job manually');
+    await meetingSeriesService.materializeUpcomingOccurrences();
     await meetingBotService.autoDeployForScheduledMeetings();
   }
 }
@@ -3,6 +3,25 @@ import { AppError } from './error-handler.js';
 import { TokenService } from '../services/token.service.js';
 import { AuthenticatedRequest } from '../types/auth.types.js';
 
+/**
+ * Get bearer token from request
+ * EventSource clients cannot set headers, so event streams may pass `access_token` instead
+ */
+const extractToken = (req: AuthenticatedRequest): string | null => {
+  const authHeader = req.headers.authorization;
+
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.substring(7); // Remove 'Bearer ' prefix
+  }
+
+  const accessToken = req.query?.access_token;
+  if (req.headers.accept === 'text/event-stream' && typeof accessToken === 'string') {
+    return accessToken;
+  }
+
+  return null;
+};
+
 /**
  * Middleware to authenticate requests using JWT
  */
@@ -12,14 +31,7 @@ export const authenticate = async (
   next: NextFunction,
 ): Promise<void> => {
   try {
-    // Get token from Authorization header
-    const authHeader = req.headers.authorization;
-
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      throw new AppError('Access token required', 401);
-    }
-
-    const token = authHeader.substring(7); // Remove 'Bearer ' prefix
+    const token = extractToken(req);
 
     if (!token) {
       throw new AppError('Access token required', 401);
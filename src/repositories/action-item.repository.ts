@@ -0,0 +1,170 @@
+import { ActionItem, Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { BaseRepository } from './base.repository.js';
+import {
+  ActionItemFilters,
+  ActionItemStatus,
+  ActionItemWithMeeting,
+} from '../types/action-item.types.js';
+
+export interface CreateActionItemData {
+  meetingId: string;
+  description: string;
+  sourceTranscriptionId?: string | null;
+  sourceAnalysisType?: string | null;
+  owner?: string | null;
+  assignees?: string[];
+  priority?: string;
+  status?: string;
+  dueDate?: Date | null;
+  completedAt?: Date | null;
+  confidence?: Decimal | null;
+  context?: string | null;
+}
+
+export interface UpdateActionItemData {
+  description?: string;
+  sourceTranscriptionId?: string | null;
+  owner?: string | null;
+  assignees?: string[];
+  priority?: string;
+  status?: string;
+  dueDate?: Date | null;
+  completedAt?: Date | null;
+  confidence?: Decimal | null;
+  context?: string | null;
+}
+
+const MEETING_SUMMARY_SELECT = {
+  id: true,
+  title: true,
+  userId: true,
+  scheduledAt: true,
+  startedAt: true,
+} as const;
+
+/**
+ * Action Item Repository
+ * Handles all database operations for action items
+ */
+export class ActionItemRepository extends BaseRepository<ActionItem> {
+  protected modelName = 'actionItem';
+
+  /**
+   * Find action item with its meeting
+   */
+  async findByIdWithMeeting(id: string): Promise<ActionItemWithMeeting | null> {
+    return this.prisma.actionItem.findUnique({
+      where: { id },
+      include: { meeting: { select: MEETING_SUMMARY_SELECT } },
+    });
+  }
+
+  /**
+   * Find action items of a meeting
+   */
+  async findByMeetingId(meetingId: string, filters?: ActionItemFilters): Promise<ActionItem[]> {
+    return this.prisma.actionItem.findMany({
+      where: { meetingId, ...this.buildFilterWhere(filters) },
+      orderBy: [{ createdAt: 'asc' }],
+      skip: filters?.skip,
+      take: filters?.take,
+    });
+  }
+
+  /**
+   * Find action items across all meetings of a user, soonest due first
+   */
+  async findForUser(
+    userId: string,
+    filters?: ActionItemFilters
+  ): Promise<{ actionItems: ActionItemWithMeeting[]; total: number }> {
+    const where: Prisma.ActionItemWhereInput = {
+      meeting: { userId },
+      ...this.buildFilterWhere(filters),
+    };
+
+    const [actionItems, total] = await Promise.all([
+      this.prisma.actionItem.findMany({
+        where,
+        include: { meeting: { select: MEETING_SUMMARY_SELECT } },
+        orderBy: [{ dueDate: { sort: 'asc', nulls: 'last' } }, { createdAt: 'desc' }],
+        skip: filters?.skip,
+        take: filters?.take,
+      }),
+      this.prisma.actionItem.count({ where }),
+    ]);
+
+    return { actionItems, total };
+  }
+
+  /**
+   * Find open and in-progress action items of the given meetings, oldest first
+   */
+  async findUnfinishedForMeetings(meetingIds: string[]): Promise<ActionItemWithMeeting[]> {
+    return this.prisma.actionItem.findMany({
+      where: {
+        meetingId: { in: meetingIds },
+        status: { in: [ActionItemStatus.OPEN, ActionItemStatus.IN_PROGRESS] },
+      },
+      include: { meeting: { select: MEETING_SUMMARY_SELECT } },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Point action items taken from some transcriptions at another one
+   */
+  async moveSourceTranscriptions(fromIds: string[], toId: string): Promise<{ count: number }> {
+    return this.updateMany(
+      { sourceTranscriptionId: { in: fromIds } },
+      { sourceTranscriptionId: toId }
+    );
+  }
+
+  /**
+   * Delete action items by ID
+   */
+  async deleteByIds(ids: string[]): Promise<{ count: number }> {
+    return this.deleteMany({ id: { in: ids } });
+  }
+
+  /**
+   * Translate list filters into a where clause
+   */
+  private buildFilterWhere(filters?: ActionItemFilters): Prisma.ActionItemWhereInput {
+    const where: Prisma.ActionItemWhereInput = {};
+
+    if (filters?.statuses?.length) {
+      where.status = { in: filters.statuses };
+    }
+
+    if (filters?.priority) {
+      where.priority = filters.priority;
+    }
+
+    if (filters?.owner) {
+      where.owner = { equals: filters.owner, mode: 'insensitive' };
+    }
+
+    if (filters?.dueBefore || filters?.dueAfter || filters?.overdue) {
+      const now = new Date();
+      const overdueCutoff = filters.overdue && (!filters.dueBefore || filters.dueBefore > now);
+      const dueBefore = overdueCutoff ? now : filters.dueBefore;
+      where.dueDate = { lte: dueBefore, gte: filters.dueAfter };
+    }
+
+    // Overdue items are the ones still waiting on someone
+    if (filters?.overdue) {
+      const statuses = filters.statuses?.length
+        ? filters.statuses
+        : [ActionItemStatus.OPEN, ActionItemStatus.IN_PROGRESS];
+      where.status = { in: statuses.filter((status) => status !== ActionItemStatus.DONE) };
+    }
+
+    return where;
+  }
+}
+
+// Export singleton instance
+export const actionItemRepository = new ActionItemRepository();
@@ -0,0 +1,139 @@
+import { AIUsageRecord, Prisma } from '@prisma/client';
+import { BaseRepository } from './base.repository.js';
+
+export interface CreateAIUsageRecordData {
+  userId?: string | null;
+  meetingId?: string | null;
+  provider: string;
+  model: string;
+  operation: string;
+  task?: string | null;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  cost: number | null;
+  success: boolean;
+  errorType?: string | null;
+}
+
+export interface AIUsageFilters {
+  userId?: string; // Omit for every user
+  startDate?: Date;
+  endDate?: Date;
+}
+
+/**
+ * Totals of a group of AI calls
+ */
+export interface AIUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number; // USD of priced calls
+  unpricedCalls: number; // Calls to models without a price, left out of the cost
+  failedCalls: number; // Attempts that failed, retried or fallen back from included
+  averageLatencyMs: number;
+}
+
+export interface MonthlyAIUsageRow extends AIUsageTotals {
+  month: string; // YYYY-MM, in UTC
+  userId: string | null;
+}
+
+export interface MeetingAIUsageRow extends AIUsageTotals {
+  task: string | null;
+  provider: string;
+  model: string;
+}
+
+export interface ProviderAIUsageRow extends AIUsageTotals {
+  provider: string;
+  model: string;
+}
+
+/**
+ * Totals selected by every report
+ * Sums are cast to float8 so they come back as numbers rather than bigints
+ */
+const TOTALS = Prisma.sql`
+  COUNT(*)::int AS calls,
+  SUM(prompt_tokens)::float8 AS "promptTokens",
+  SUM(completion_tokens)::float8 AS "completionTokens",
+  SUM(total_tokens)::float8 AS "totalTokens",
+  COALESCE(SUM(cost), 0)::float8 AS cost,
+  (COUNT(*) FILTER (WHERE cost IS NULL AND success))::int AS "unpricedCalls",
+  (COUNT(*) FILTER (WHERE NOT success))::int AS "failedCalls",
+  ROUND(AVG(latency_ms))::int AS "averageLatencyMs"
+`;
+
+/**
+ * AIUsageRecord Repository
+ * Handles all database operations for the AI usage ledger
+ * Records are only ever created, reports aggregate them in the database.
+ */
+export class AIUsageRepository extends BaseRepository<AIUsageRecord> {
+  protected modelName = 'aIUsageRecord';
+
+  /**
+   * Sum usage per user and calendar month, latest month first
+   */
+  async sumByUserAndMonth(filters: AIUsageFilters): Promise<MonthlyAIUsageRow[]> {
+    return this.prisma.$queryRaw<MonthlyAIUsageRow[]>`
+      SELECT
+        to_char(date_trunc('month', created_at), 'YYYY-MM') AS month,
+        user_id AS "userId",
+        ${TOTALS}
+      FROM ai_usage_records
+      WHERE ${this.buildConditions(filters)}
+      GROUP BY 1, 2
+      ORDER BY 1 DESC, cost DESC
+    `;
+  }
+
+  /**
+   * Sum usage of a meeting per task and model, most expensive first
+   */
+  async sumByMeeting(meetingId: string): Promise<MeetingAIUsageRow[]> {
+    return this.prisma.$queryRaw<MeetingAIUsageRow[]>`
+      SELECT task, provider, model, ${TOTALS}
+      FROM ai_usage_records
+      WHERE meeting_id = ${meetingId}
+      GROUP BY task, provider, model
+      ORDER BY cost DESC, "totalTokens" DESC
+    `;
+  }
+
+  /**
+   * Sum usage per provider and model, most expensive first
+   */
+  async sumByProvider(filters: AIUsageFilters): Promise<ProviderAIUsageRow[]> {
+    return this.prisma.$queryRaw<ProviderAIUsageRow[]>`
+      SELECT provider, model, ${TOTALS}
+      FROM ai_usage_records
+      WHERE ${this.buildConditions(filters)}
+      GROUP BY provider, model
+      ORDER BY cost DESC, "totalTokens" DESC
+    `;
+  }
+
+  private buildConditions(filters: AIUsageFilters): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [Prisma.sql`TRUE`];
+
+    if (filters.userId) {
+      conditions.push(Prisma.sql`user_id = ${filters.userId}`);
+    }
+    if (filters.startDate) {
+      conditions.push(Prisma.sql`created_at >= ${filters.startDate}`);
+    }
+    if (filters.endDate) {
+      conditions.push(Prisma.sql`created_at <= ${filters.endDate}`);
+    }
+
+    return Prisma.join(conditions, ' AND ');
+  }
+}
+
+// Export singleton instance
+export const aiUsageRepository = new AIUsageRepository();
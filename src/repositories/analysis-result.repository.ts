@@ -1,5 +1,6 @@
 import { AnalysisResult } from '@prisma/client';
 import { BaseRepository } from './base.repository.js';
+import { buildUserMeetingFilter, UserMeetingScope } from './meeting.repository.js';
 
 export interface CreateAnalysisResultData {
   meetingId: string;
@@ -11,6 +12,7 @@ export interface CreateAnalysisResultData {
   topics?: any;
   participants?: any;
   metadata?: any;
+  transcriptRevision?: number;
 }
 
 export interface UpdateAnalysisResultData {
@@ -21,8 +23,13 @@ export interface UpdateAnalysisResultData {
   topics?: any;
   participants?: any;
   metadata?: any;
+  transcriptRevision?: number;
 }
 
+export type AnalysisResultWithMeeting = AnalysisResult & {
+  meeting: { id: string; title: string };
+};
+
 /**
  * AnalysisResult Repository
  * Handles all database operations for analysis results
@@ -36,13 +43,14 @@ export class AnalysisResultRepository extends BaseRepository<AnalysisResult> {
   async findByMeetingId(
     meetingId: string,
     options?: {
+      analysisType?: string;
       skip?: number;
       take?: number;
       orderBy?: any;
     }
   ): Promise<AnalysisResult[]> {
     return this.findAll({
-      where: { meetingId },
+      where: options?.analysisType ? { meetingId, analysisType: options.analysisType } : { meetingId },
       orderBy: options?.orderBy || { createdAt: 'desc' },
       skip: options?.skip,
       take: options?.take,
@@ -81,6 +89,44 @@ export class AnalysisResultRepository extends BaseRepository<AnalysisResult> {
     });
   }
 
+  /**
+   * Find the most recent analysis result of a type for a meeting
+   */
+  async findLatestByMeetingAndType(
+    meetingId: string,
+    analysisType: string
+  ): Promise<AnalysisResult | null> {
+    return this.model.findFirst({
+      where: { meetingId, analysisType },
+      orderBy: { updatedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Find the most recent analysis result of a type for each of the given meetings
+   */
+  async findLatestForMeetings(
+    meetingIds: string[],
+    analysisType: string
+  ): Promise<AnalysisResult[]> {
+    return this.model.findMany({
+      where: { meetingId: { in: meetingIds }, analysisType },
+      orderBy: [{ meetingId: 'asc' }, { updatedAt: 'desc' }],
+      distinct: ['meetingId'],
+    });
+  }
+
+  /**
+   * Find the most recent analysis result per type for a meeting
+   */
+  async findLatestPerType(meetingId: string): Promise<AnalysisResult[]> {
+    return this.model.findMany({
+      where: { meetingId },
+      orderBy: [{ analysisType: 'asc' }, { updatedAt: 'desc' }],
+      distinct: ['analysisType'],
+    });
+  }
+
   /**
    * Find latest analysis for a meeting
    */
@@ -133,6 +179,17 @@ export class AnalysisResultRepository extends BaseRepository<AnalysisResult> {
     });
   }
 
+  /**
+   * Move analysis results that ran against one transcript revision to another
+   */
+  async updateTranscriptRevision(
+    meetingId: string,
+    from: number,
+    to: number
+  ): Promise<{ count: number }> {
+    return this.updateMany({ meetingId, transcriptRevision: from }, { transcriptRevision: to });
+  }
+
   /**
    * Delete all analysis results for a meeting
    */
@@ -154,6 +211,13 @@ export class AnalysisResultRepository extends BaseRepository<AnalysisResult> {
     return this.count({ meetingId });
   }
 
+  /**
+   * Count analysis results by meeting and optional type
+   */
+  async countByMeetingIdAndType(meetingId: string, analysisType?: string): Promise<number> {
+    return this.count(analysisType ? { meetingId, analysisType } : { meetingId });
+  }
+
   /**
    * Count analysis results by type
    */
@@ -196,6 +260,33 @@ export class AnalysisResultRepository extends BaseRepository<AnalysisResult> {
     });
   }
 
+  /**
+   * Find summaries in the user's meetings that mention any keyword
+   */
+  async searchSummariesForUser(
+    userId: string,
+    keywords: string[],
+    options?: UserMeetingScope & { take?: number }
+  ): Promise<AnalysisResultWithMeeting[]> {
+    if (keywords.length === 0) {
+      return [];
+    }
+
+    return this.prisma.analysisResult.findMany({
+      where: {
+        meeting: buildUserMeetingFilter(userId, options),
+        OR: keywords.map((keyword) => ({
+          summary: { contains: keyword, mode: 'insensitive' as const },
+        })),
+      },
+      include: {
+        meeting: { select: { id: true, title: true } },
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: options?.take ?? 50,
+    });
+  }
+
   /**
    * Get summary for a meeting
    */
@@ -0,0 +1,49 @@
+import { CalendarFeed } from '@prisma/client';
+import { BaseRepository } from './base.repository.js';
+
+export interface CreateCalendarFeedData {
+  userId: string;
+  url: string;
+  name?: string | null;
+}
+
+export interface UpdateCalendarFeedData {
+  name?: string | null;
+  active?: boolean;
+  lastSyncedAt?: Date;
+  lastError?: string | null;
+}
+
+/**
+ * Calendar Feed Repository
+ * Handles all database operations for registered ICS feeds
+ */
+export class CalendarFeedRepository extends BaseRepository<CalendarFeed> {
+  protected modelName = 'calendarFeed';
+
+  /**
+   * Find feeds of a user
+   */
+  async findByUserId(userId: string): Promise<CalendarFeed[]> {
+    return this.findAll({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Find active feeds not synced since a point in time
+   */
+  async findDueForSync(syncedBefore: Date): Promise<CalendarFeed[]> {
+    return this.findAll({
+      where: {
+        active: true,
+        OR: [{ lastSyncedAt: null }, { lastSyncedAt: { lt: syncedBefore } }],
+      },
+      orderBy: { lastSyncedAt: { sort: 'asc', nulls: 'first' } },
+    });
+  }
+}
+
+// Export singleton instance
+export const calendarFeedRepository = new CalendarFeedRepository();
@@ -0,0 +1,218 @@
+import { Decision, DecisionLink, Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { BaseRepository } from './base.repository.js';
+import {
+  DecisionLogFilters,
+  DecisionRelation,
+  DecisionStatus,
+  DecisionWithLinks,
+} from '../types/decision.types.js';
+
+export interface CreateDecisionData {
+  meetingId: string;
+  description: string;
+  decidedAt: Date;
+  sourceTranscriptionId?: string | null;
+  rationale?: string | null;
+  participants?: string[];
+  context?: string | null;
+  confidence?: Decimal | null;
+}
+
+export interface UpdateDecisionData {
+  description?: string;
+  decidedAt?: Date;
+  sourceTranscriptionId?: string | null;
+  rationale?: string | null;
+  participants?: string[];
+  context?: string | null;
+  status?: string;
+  confidence?: Decimal | null;
+}
+
+const LINKED_DECISION_SELECT = {
+  id: true,
+  meetingId: true,
+  description: true,
+  status: true,
+  decidedAt: true,
+} as const;
+
+const DECISION_INCLUDE = {
+  meeting: { select: { id: true, title: true, userId: true } },
+  links: { include: { relatedDecision: { select: LINKED_DECISION_SELECT } } },
+  linkedFrom: { include: { decision: { select: LINKED_DECISION_SELECT } } },
+} as const;
+
+/**
+ * Decision Repository
+ * Handles all database operations for decisions and the links between them
+ */
+export class DecisionRepository extends BaseRepository<Decision> {
+  protected modelName = 'decision';
+
+  /**
+   * Find decision with its meeting and links
+   */
+  async findByIdWithLinks(id: string): Promise<DecisionWithLinks | null> {
+    return this.prisma.decision.findUnique({
+      where: { id },
+      include: DECISION_INCLUDE,
+    });
+  }
+
+  /**
+   * Find decisions of a meeting in the order they were made
+   */
+  async findByMeetingId(meetingId: string): Promise<DecisionWithLinks[]> {
+    return this.prisma.decision.findMany({
+      where: { meetingId },
+      include: DECISION_INCLUDE,
+      orderBy: { decidedAt: 'asc' },
+    });
+  }
+
+  /**
+   * Search the decision log of a user, newest first
+   */
+  async findForUser(
+    userId: string,
+    filters?: DecisionLogFilters
+  ): Promise<{ decisions: DecisionWithLinks[]; total: number }> {
+    const where: Prisma.DecisionWhereInput = {
+      meeting: { userId },
+    };
+
+    if (filters?.meetingIds?.length) {
+      where.meetingId = { in: filters.meetingIds };
+    }
+
+    if (filters?.status) {
+      where.status = filters.status;
+    }
+
+    if (filters?.participant) {
+      where.participants = { has: filters.participant };
+    }
+
+    if (filters?.startDate || filters?.endDate) {
+      where.decidedAt = { gte: filters.startDate, lte: filters.endDate };
+    }
+
+    if (filters?.q) {
+      where.OR = [
+        { description: { contains: filters.q, mode: 'insensitive' } },
+        { rationale: { contains: filters.q, mode: 'insensitive' } },
+        { context: { contains: filters.q, mode: 'insensitive' } },
+      ];
+    }
+
+    const [decisions, total] = await Promise.all([
+      this.prisma.decision.findMany({
+        where,
+        include: DECISION_INCLUDE,
+        orderBy: { decidedAt: 'desc' },
+        skip: filters?.skip,
+        take: filters?.take,
+      }),
+      this.prisma.decision.count({ where }),
+    ]);
+
+    return { decisions, total };
+  }
+
+  /**
+   * Find a user's active decisions made before a point in time, newest first
+   */
+  async findActiveBefore(
+    userId: string,
+    before: Date,
+    options: { excludeMeetingId?: string; take?: number } = {}
+  ): Promise<Decision[]> {
+    return this.prisma.decision.findMany({
+      where: {
+        meeting: { userId },
+        meetingId: options.excludeMeetingId ? { not: options.excludeMeetingId } : undefined,
+        status: DecisionStatus.ACTIVE,
+        decidedAt: { lt: before },
+      },
+      orderBy: { decidedAt: 'desc' },
+      take: options.take,
+    });
+  }
+
+  /**
+   * Create or update the link from a decision to an earlier one
+   */
+  async upsertLink(
+    decisionId: string,
+    relatedDecisionId: string,
+    relation: DecisionRelation
+  ): Promise<DecisionLink> {
+    return this.prisma.decisionLink.upsert({
+      where: { decisionId_relatedDecisionId: { decisionId, relatedDecisionId } },
+      create: { decisionId, relatedDecisionId, relation },
+      update: { relation },
+    });
+  }
+
+  /**
+   * Delete the link from a decision to an earlier one
+   */
+  async deleteLink(decisionId: string, relatedDecisionId: string): Promise<DecisionLink | null> {
+    const link = await this.prisma.decisionLink.findUnique({
+      where: { decisionId_relatedDecisionId: { decisionId, relatedDecisionId } },
+    });
+    if (!link) return null;
+
+    return this.prisma.decisionLink.delete({ where: { id: link.id } });
+  }
+
+  /**
+   * Find decisions superseded by any of the given decisions
+   */
+  async findSupersededBy(decisionIds: string[]): Promise<string[]> {
+    const links = await this.prisma.decisionLink.findMany({
+      where: { decisionId: { in: decisionIds }, relation: DecisionRelation.SUPERSEDES },
+      select: { relatedDecisionId: true },
+    });
+
+    return [...new Set(links.map((link) => link.relatedDecisionId))];
+  }
+
+  /**
+   * Mark decisions active again when nothing supersedes them any more
+   */
+  async reactivateUnsuperseded(decisionIds: string[]): Promise<{ count: number }> {
+    if (decisionIds.length === 0) return { count: 0 };
+
+    return this.prisma.decision.updateMany({
+      where: {
+        id: { in: decisionIds },
+        status: DecisionStatus.SUPERSEDED,
+        linkedFrom: { none: { relation: DecisionRelation.SUPERSEDES } },
+      },
+      data: { status: DecisionStatus.ACTIVE },
+    });
+  }
+
+  /**
+   * Point decisions taken from some transcriptions at another one
+   */
+  async moveSourceTranscriptions(fromIds: string[], toId: string): Promise<{ count: number }> {
+    return this.updateMany(
+      { sourceTranscriptionId: { in: fromIds } },
+      { sourceTranscriptionId: toId }
+    );
+  }
+
+  /**
+   * Delete decisions by ID
+   */
+  async deleteByIds(ids: string[]): Promise<{ count: number }> {
+    return this.deleteMany({ id: { in: ids } });
+  }
+}
+
+// Export singleton instance
+export const decisionRepository = new DecisionRepository();
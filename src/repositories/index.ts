@@ -4,16 +4,91 @@ export {
   meetingRepository,
   type CreateMeetingData,
   type UpdateMeetingData,
+  type UserMeetingScope,
+  buildUserMeetingFilter,
 } from './meeting.repository.js';
 export {
   TranscriptionRepository,
   transcriptionRepository,
   type CreateTranscriptionData,
   type UpdateTranscriptionData,
+  type TranscriptionWithMeeting,
 } from './transcription.repository.js';
+export {
+  TranscriptChunkRepository,
+  transcriptChunkRepository,
+  type CreateTranscriptChunkData,
+  type TranscriptChunkWithMeeting,
+} from './transcript-chunk.repository.js';
 export {
   AnalysisResultRepository,
   analysisResultRepository,
   type CreateAnalysisResultData,
   type UpdateAnalysisResultData,
+  type AnalysisResultWithMeeting,
 } from './analysis-result.repository.js';
+export {
+  SearchRepository,
+  searchRepository,
+  type FullTextSearchKind,
+  type FullTextSearchFilters,
+  type FullTextSearchRow,
+} from './search.repository.js';
+export {
+  ActionItemRepository,
+  actionItemRepository,
+  type CreateActionItemData,
+  type UpdateActionItemData,
+} from './action-item.repository.js';
+export {
+  DecisionRepository,
+  decisionRepository,
+  type CreateDecisionData,
+  type UpdateDecisionData,
+} from './decision.repository.js';
+export {
+  MeetingSeriesRepository,
+  meetingSeriesRepository,
+  type CreateMeetingSeriesData,
+  type UpdateMeetingSeriesData,
+} from './meeting-series.repository.js';
+export {
+  CalendarFeedRepository,
+  calendarFeedRepository,
+  type CreateCalendarFeedData,
+  type UpdateCalendarFeedData,
+} from './calendar-feed.repository.js';
+export {
+  ReportTemplateRepository,
+  reportTemplateRepository,
+  type CreateReportTemplateData,
+  type UpdateReportTemplateData,
+} from './report-template.repository.js';
+export {
+  ParticipantRepository,
+  participantRepository,
+  type CreateParticipantData,
+  type UpdateParticipantData,
+} from './participant.repository.js';
+export {
+  SpeakerMappingRepository,
+  speakerMappingRepository,
+  type UpsertSpeakerMappingData,
+  type SpeakerMappingWithParticipant,
+} from './speaker-mapping.repository.js';
+export {
+  TranscriptRevisionRepository,
+  transcriptRevisionRepository,
+  type CreateTranscriptRevisionData,
+} from './transcript-revision.repository.js';
+export {
+  AIUsageRepository,
+  aiUsageRepository,
+  type CreateAIUsageRecordData,
+  type AIUsageFilters,
+  type AIUsageTotals,
+  type MonthlyAIUsageRow,
+  type MeetingAIUsageRow,
+  type ProviderAIUsageRow,
+} from './ai-usage.repository.js';
+export { UserRepository, userRepository } from './user.repository.js';
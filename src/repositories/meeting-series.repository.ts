@@ -0,0 +1,58 @@
+import { MeetingSeries } from '@prisma/client';
+import { BaseRepository } from './base.repository.js';
+
+export interface CreateMeetingSeriesData {
+  userId: string;
+  title: string;
+  description?: string | null;
+  meetingUrl?: string | null;
+  platform?: string | null;
+  recurrenceRule: string;
+  startsAt: Date;
+  durationMinutes?: number | null;
+}
+
+export interface UpdateMeetingSeriesData {
+  title?: string;
+  description?: string | null;
+  meetingUrl?: string | null;
+  platform?: string | null;
+  recurrenceRule?: string;
+  startsAt?: Date;
+  durationMinutes?: number | null;
+  active?: boolean;
+  materializedTo?: Date | null;
+}
+
+/**
+ * Meeting Series Repository
+ * Handles all database operations for recurring meeting series
+ */
+export class MeetingSeriesRepository extends BaseRepository<MeetingSeries> {
+  protected modelName = 'meetingSeries';
+
+  /**
+   * Find series of a user
+   */
+  async findByUserId(userId: string): Promise<MeetingSeries[]> {
+    return this.findAll({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Find active series whose occurrences are not created up to a point in time
+   */
+  async findNeedingOccurrences(until: Date): Promise<MeetingSeries[]> {
+    return this.findAll({
+      where: {
+        active: true,
+        OR: [{ materializedTo: null }, { materializedTo: { lt: until } }],
+      },
+    });
+  }
+}
+
+// Export singleton instance
+export const meetingSeriesRepository = new MeetingSeriesRepository();
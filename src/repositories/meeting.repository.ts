@@ -1,5 +1,6 @@
-import { Meeting } from '@prisma/client';
+import { Meeting, Prisma } from '@prisma/client';
 import { BaseRepository } from './base.repository.js';
+import { MeetingForCalendar } from '../types/meeting.types.js';
 
 export interface CreateMeetingData {
   userId: string;
@@ -9,6 +10,10 @@ export interface CreateMeetingData {
   platform?: string;
   scheduledAt?: Date;
   status?: string;
+  seriesId?: string;
+  occurrenceAt?: Date;
+  externalUid?: string;
+  calendarFeedId?: string;
 }
 
 export interface UpdateMeetingData {
@@ -21,6 +26,8 @@ export interface UpdateMeetingData {
   endedAt?: Date;
   status?: string;
   metadata?: any;
+  seriesId?: string | null;
+  occurrenceAt?: Date | null;
 }
 
 export interface CreateTranscriptionData {
@@ -31,6 +38,34 @@ export interface CreateTranscriptionData {
   confidence?: number;
 }
 
+export interface UserMeetingScope {
+  meetingIds?: string[];
+  startDate?: Date;
+  endDate?: Date;
+}
+
+/**
+ * Build a filter for a user's meetings, optionally limited to IDs and a date range
+ * Meetings that never started are matched by their scheduled time
+ */
+export const buildUserMeetingFilter = (
+  userId: string,
+  scope?: UserMeetingScope
+): Prisma.MeetingWhereInput => {
+  const where: Prisma.MeetingWhereInput = { userId };
+
+  if (scope?.meetingIds?.length) {
+    where.id = { in: scope.meetingIds };
+  }
+
+  if (scope?.startDate || scope?.endDate) {
+    const range = { gte: scope.startDate, lte: scope.endDate };
+    where.OR = [{ startedAt: range }, { startedAt: null, scheduledAt: range }];
+  }
+
+  return where;
+};
+
 /**
  * Meeting Repository
  * Handles all database operations for meetings
@@ -73,6 +108,88 @@ export class MeetingRepository extends BaseRepository<Meeting> {
     });
   }
 
+  /**
+   * Find meetings of a series in slot order
+   */
+  async findBySeriesId(
+    seriesId: string,
+    options?: { after?: Date; before?: Date; take?: number; order?: 'asc' | 'desc' }
+  ): Promise<Meeting[]> {
+    return this.prisma.meeting.findMany({
+      where: {
+        seriesId,
+        occurrenceAt: { gt: options?.after, lt: options?.before },
+      },
+      orderBy: { occurrenceAt: options?.order ?? 'asc' },
+      take: options?.take,
+    });
+  }
+
+  /**
+   * Create series occurrences, skipping slots that already have a meeting
+   */
+  async createSeriesOccurrences(data: CreateMeetingData[]): Promise<{ count: number }> {
+    return this.prisma.meeting.createMany({ data, skipDuplicates: true });
+  }
+
+  /**
+   * Delete upcoming series occurrences that nothing has happened to yet
+   * Meetings with a deployed bot or other metadata are kept.
+   */
+  async deleteUntouchedSeriesOccurrences(
+    seriesId: string,
+    after: Date
+  ): Promise<{ count: number }> {
+    return this.deleteMany({
+      seriesId,
+      status: 'scheduled',
+      scheduledAt: { gt: after },
+      metadata: { equals: Prisma.AnyNull },
+    });
+  }
+
+  /**
+   * Find meetings whose uploaded recording is in one of the given states
+   */
+  async findByAudioTranscriptionStatus(statuses: string[]): Promise<Meeting[]> {
+    return this.findAll({
+      where: {
+        OR: statuses.map((status) => ({
+          metadata: { path: ['audioTranscription', 'status'], equals: status },
+        })),
+      },
+    });
+  }
+
+  /**
+   * Find a user's meetings imported from calendar events
+   */
+  async findByExternalUids(userId: string, externalUids: string[]): Promise<Meeting[]> {
+    return this.findAll({
+      where: { userId, externalUid: { in: externalUids } },
+    });
+  }
+
+  /**
+   * Create meetings imported from calendar events, skipping events already imported
+   */
+  async createImportedMeetings(data: CreateMeetingData[]): Promise<{ count: number }> {
+    return this.prisma.meeting.createMany({ data, skipDuplicates: true });
+  }
+
+  /**
+   * Find scheduled meetings of a feed within a time range
+   */
+  async findScheduledByCalendarFeed(feedId: string, after: Date, before: Date): Promise<Meeting[]> {
+    return this.findAll({
+      where: {
+        calendarFeedId: feedId,
+        status: 'scheduled',
+        scheduledAt: { gt: after, lte: before },
+      },
+    });
+  }
+
   /**
    * Find upcoming meetings for a user
    */
@@ -163,6 +280,40 @@ export class MeetingRepository extends BaseRepository<Meeting> {
     });
   }
 
+  /**
+   * Find meeting with what exports show besides the transcript
+   * Transcriptions are read in pages while the export streams.
+   */
+  async findByIdForExport(id: string): Promise<Meeting | null> {
+    return this.model.findUnique({
+      where: { id },
+      include: {
+        user: {
+          select: {
+            id: true,
+            email: true,
+            fullName: true,
+          },
+        },
+        analysisResults: {
+          orderBy: {
+            createdAt: 'desc',
+          },
+        },
+        actionItems: {
+          orderBy: {
+            createdAt: 'asc',
+          },
+        },
+        decisions: {
+          orderBy: {
+            decidedAt: 'asc',
+          },
+        },
+      },
+    });
+  }
+
   /**
    * Find meeting with all related data
    */
@@ -187,7 +338,40 @@ export class MeetingRepository extends BaseRepository<Meeting> {
             createdAt: 'desc',
           },
         },
+        actionItems: {
+          orderBy: {
+            createdAt: 'asc',
+          },
+        },
+        decisions: {
+          orderBy: {
+            decidedAt: 'asc',
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Find a user's meetings for their calendar feed, with summaries and action items
+   */
+  async findForCalendar(userId: string, since: Date, take: number): Promise<MeetingForCalendar[]> {
+    return this.prisma.meeting.findMany({
+      where: {
+        userId,
+        OR: [{ scheduledAt: { gte: since } }, { scheduledAt: null, startedAt: { gte: since } }],
+      },
+      include: {
+        series: { select: { durationMinutes: true } },
+        analysisResults: {
+          where: { analysisType: 'meeting_summary' },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+        },
+        actionItems: { orderBy: { createdAt: 'asc' } },
       },
+      orderBy: { scheduledAt: 'asc' },
+      take,
     });
   }
 
@@ -218,6 +402,19 @@ export class MeetingRepository extends BaseRepository<Meeting> {
     });
   }
 
+  /**
+   * Move the transcript of a meeting to its next revision and return the revision number
+   */
+  async nextTranscriptRevision(id: string): Promise<number> {
+    const meeting = await this.model.update({
+      where: { id },
+      data: { transcriptRevision: { increment: 1 } },
+      select: { transcriptRevision: true },
+    });
+
+    return meeting.transcriptRevision;
+  }
+
   /**
    * Count meetings by user
    */
@@ -0,0 +1,39 @@
+import { Participant } from '@prisma/client';
+import { BaseRepository } from './base.repository.js';
+
+export interface CreateParticipantData {
+  ownerId: string;
+  name: string;
+  email?: string | null;
+  userId?: string | null;
+}
+
+export type UpdateParticipantData = Partial<Omit<CreateParticipantData, 'ownerId'>>;
+
+/**
+ * Participant Repository
+ * Handles all database operations for meeting participants
+ */
+export class ParticipantRepository extends BaseRepository<Participant> {
+  protected modelName = 'participant';
+
+  /**
+   * Find participants of a user's meetings
+   */
+  async findByOwnerId(ownerId: string): Promise<Participant[]> {
+    return this.findAll({
+      where: { ownerId },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * Find a user's participant by email
+   */
+  async findByEmail(ownerId: string, email: string): Promise<Participant | null> {
+    return this.findOne({ ownerId, email });
+  }
+}
+
+// Export singleton instance
+export const participantRepository = new ParticipantRepository();
@@ -0,0 +1,62 @@
+import { ReportTemplate } from '@prisma/client';
+import { BaseRepository } from './base.repository.js';
+
+export interface CreateReportTemplateData {
+  userId: string;
+  name: string;
+  brandName?: string | null;
+  logoUrl?: string | null;
+  primaryColor?: string;
+  headerText?: string | null;
+  footerText?: string | null;
+  sections?: string[];
+  includeTranscript?: boolean;
+  isDefault?: boolean;
+}
+
+export type UpdateReportTemplateData = Partial<Omit<CreateReportTemplateData, 'userId'>>;
+
+/**
+ * Report Template Repository
+ * Handles all database operations for meeting report templates
+ */
+export class ReportTemplateRepository extends BaseRepository<ReportTemplate> {
+  protected modelName = 'reportTemplate';
+
+  /**
+   * Find templates of a user
+   */
+  async findByUserId(userId: string): Promise<ReportTemplate[]> {
+    return this.findAll({
+      where: { userId },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * Find the template a user's reports use when none is picked
+   */
+  async findDefaultForUser(userId: string): Promise<ReportTemplate | null> {
+    return this.findOne({ userId, isDefault: true });
+  }
+
+  /**
+   * Find a user's template by name
+   */
+  async findByName(userId: string, name: string): Promise<ReportTemplate | null> {
+    return this.findOne({ userId, name });
+  }
+
+  /**
+   * Unset the default flag on a user's templates, except one
+   */
+  async clearDefault(userId: string, exceptId?: string): Promise<void> {
+    await this.updateMany(
+      { userId, isDefault: true, ...(exceptId ? { id: { not: exceptId } } : {}) },
+      { isDefault: false }
+    );
+  }
+}
+
+// Export singleton instance
+export const reportTemplateRepository = new ReportTemplateRepository();
@@ -0,0 +1,191 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { prisma } from '../config/database.js';
+
+/**
+ * Kinds of records covered by full-text search
+ */
+export type FullTextSearchKind = 'meeting' | 'transcript' | 'analysis';
+
+export interface FullTextSearchFilters {
+  userId?: string; // Omit to search every user's meetings
+  kinds: FullTextSearchKind[];
+  startDate?: Date;
+  endDate?: Date;
+  platform?: string;
+  speaker?: string;
+  analysisType?: string;
+}
+
+export interface FullTextSearchRow {
+  kind: FullTextSearchKind;
+  id: string;
+  meetingId: string;
+  meetingTitle: string;
+  platform: string | null;
+  meetingDate: Date | null;
+  speakerName: string | null;
+  timestampStart: Date | null;
+  analysisType: string | null;
+  headline: string;
+  rank: number;
+}
+
+/**
+ * Text search configuration, must match the generated search_vector columns
+ */
+const TEXT_SEARCH_CONFIG = Prisma.sql`'english'::regconfig`;
+
+/**
+ * Search Repository
+ * Full-text search over meetings, transcriptions and analysis results using tsvector indexes
+ */
+export class SearchRepository {
+  protected prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Find records matching a web-style query (quoted phrases, `or`, `-word`), best match first
+   * Headlines wrap matched terms in the given start and stop markers
+   */
+  async search(
+    query: string,
+    filters: FullTextSearchFilters,
+    options: { skip: number; take: number; startSel: string; stopSel: string }
+  ): Promise<FullTextSearchRow[]> {
+    const headlineOptions = `StartSel=${options.startSel}, StopSel=${options.stopSel}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" ... "`;
+
+    return this.prisma.$queryRaw<FullTextSearchRow[]>`
+      WITH q AS (SELECT websearch_to_tsquery(${TEXT_SEARCH_CONFIG}, ${query}) AS query),
+      matches AS (${this.buildMatches(filters)})
+      SELECT
+        page.kind,
+        page.id,
+        page.meeting_id AS "meetingId",
+        page.meeting_title AS "meetingTitle",
+        page.platform,
+        page.meeting_date AS "meetingDate",
+        page.speaker_name AS "speakerName",
+        page.timestamp_start AS "timestampStart",
+        page.analysis_type AS "analysisType",
+        ts_headline(${TEXT_SEARCH_CONFIG}, page.body, q.query, ${headlineOptions}) AS headline,
+        page.rank::float8 AS rank
+      FROM (
+        SELECT * FROM matches
+        ORDER BY rank DESC, meeting_date DESC NULLS LAST, id
+        LIMIT ${options.take} OFFSET ${options.skip}
+      ) page, q
+      ORDER BY page.rank DESC, page.meeting_date DESC NULLS LAST, page.id
+    `;
+  }
+
+  /**
+   * Count records matching a query
+   */
+  async count(query: string, filters: FullTextSearchFilters): Promise<number> {
+    const result = await this.prisma.$queryRaw<{ total: number }[]>`
+      WITH q AS (SELECT websearch_to_tsquery(${TEXT_SEARCH_CONFIG}, ${query}) AS query),
+      matches AS (${this.buildMatches(filters)})
+      SELECT COUNT(*)::int AS total FROM matches
+    `;
+
+    return result[0]?.total ?? 0;
+  }
+
+  /**
+   * Build one SELECT per searched kind, joined with UNION ALL
+   * Speaker filters only apply to transcripts and analysis type filters only to analyses,
+   * so other kinds are left out when those filters are set
+   */
+  private buildMatches(filters: FullTextSearchFilters): Prisma.Sql {
+    const branches: Prisma.Sql[] = [];
+    const meetingConditions = this.buildMeetingConditions(filters);
+    const searchMeetings = !filters.speaker && !filters.analysisType;
+
+    if (filters.kinds.includes('meeting') && searchMeetings) {
+      branches.push(Prisma.sql`
+        SELECT 'meeting' AS kind, m.id, m.id AS meeting_id, m.title AS meeting_title, m.platform,
+          COALESCE(m.started_at, m.scheduled_at) AS meeting_date,
+          NULL::text AS speaker_name, NULL::timestamp AS timestamp_start, NULL::text AS analysis_type,
+          concat_ws(' ', m.title, m.description) AS body,
+          ts_rank(m.search_vector, q.query) AS rank
+        FROM meetings m, q
+        WHERE m.search_vector @@ q.query AND ${meetingConditions}
+      `);
+    }
+
+    if (filters.kinds.includes('transcript') && !filters.analysisType) {
+      const speakerCondition = filters.speaker
+        ? Prisma.sql`AND lower(t.speaker_name) = lower(${filters.speaker})`
+        : Prisma.empty;
+
+      branches.push(Prisma.sql`
+        SELECT 'transcript' AS kind, t.id, m.id AS meeting_id, m.title AS meeting_title, m.platform,
+          COALESCE(m.started_at, m.scheduled_at) AS meeting_date,
+          t.speaker_name, t.timestamp_start, NULL::text AS analysis_type,
+          t.text AS body,
+          ts_rank(t.search_vector, q.query) AS rank
+        FROM transcriptions t
+        JOIN meetings m ON m.id = t.meeting_id, q
+        WHERE t.search_vector @@ q.query AND ${meetingConditions} ${speakerCondition}
+      `);
+    }
+
+    if (filters.kinds.includes('analysis') && !filters.speaker) {
+      const analysisTypeCondition = filters.analysisType
+        ? Prisma.sql`AND a.analysis_type = ${filters.analysisType}`
+        : Prisma.empty;
+
+      branches.push(Prisma.sql`
+        SELECT 'analysis' AS kind, a.id, m.id AS meeting_id, m.title AS meeting_title, m.platform,
+          COALESCE(m.started_at, m.scheduled_at) AS meeting_date,
+          NULL::text AS speaker_name, NULL::timestamp AS timestamp_start, a.analysis_type,
+          a.summary AS body,
+          ts_rank(a.search_vector, q.query) AS rank
+        FROM analysis_results a
+        JOIN meetings m ON m.id = a.meeting_id, q
+        WHERE a.search_vector @@ q.query AND ${meetingConditions} ${analysisTypeCondition}
+      `);
+    }
+
+    if (branches.length === 0) {
+      // Keep the CTE valid when the filters exclude every kind
+      return Prisma.sql`
+        SELECT NULL::text AS kind, NULL::text AS id, NULL::text AS meeting_id,
+          NULL::text AS meeting_title, NULL::text AS platform, NULL::timestamp AS meeting_date,
+          NULL::text AS speaker_name, NULL::timestamp AS timestamp_start,
+          NULL::text AS analysis_type, NULL::text AS body, NULL::real AS rank
+        WHERE false
+      `;
+    }
+
+    return Prisma.join(branches, ' UNION ALL ');
+  }
+
+  /**
+   * Conditions on the meeting shared by every kind
+   */
+  private buildMeetingConditions(filters: FullTextSearchFilters): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [Prisma.sql`TRUE`];
+
+    if (filters.userId) {
+      conditions.push(Prisma.sql`m.user_id = ${filters.userId}`);
+    }
+    if (filters.platform) {
+      conditions.push(Prisma.sql`m.platform = ${filters.platform}`);
+    }
+    if (filters.startDate) {
+      conditions.push(Prisma.sql`COALESCE(m.started_at, m.scheduled_at) >= ${filters.startDate}`);
+    }
+    if (filters.endDate) {
+      conditions.push(Prisma.sql`COALESCE(m.started_at, m.scheduled_at) <= ${filters.endDate}`);
+    }
+
+    return Prisma.join(conditions, ' AND ');
+  }
+}
+
+// Export singleton instance
+export const searchRepository = new SearchRepository();
@@ -0,0 +1,73 @@
+import { Participant, SpeakerMapping } from '@prisma/client';
+import { BaseRepository } from './base.repository.js';
+
+export interface UpsertSpeakerMappingData {
+  displayName: string;
+  participantId?: string | null;
+}
+
+export type SpeakerMappingWithParticipant = SpeakerMapping & {
+  participant: Participant | null;
+};
+
+/**
+ * Speaker Mapping Repository
+ * Handles all database operations for speaker label mappings
+ */
+export class SpeakerMappingRepository extends BaseRepository<SpeakerMapping> {
+  protected modelName = 'speakerMapping';
+
+  /**
+   * Find mappings of a meeting
+   */
+  async findByMeetingId(meetingId: string): Promise<SpeakerMappingWithParticipant[]> {
+    return this.findAll({
+      where: { meetingId },
+      include: { participant: true },
+      orderBy: { label: 'asc' },
+    }) as Promise<SpeakerMappingWithParticipant[]>;
+  }
+
+  /**
+   * Find mappings of the other meetings of a series, most recent first
+   */
+  async findForSeries(
+    seriesId: string,
+    excludeMeetingId: string
+  ): Promise<SpeakerMappingWithParticipant[]> {
+    return this.findAll({
+      where: { meeting: { seriesId }, meetingId: { not: excludeMeetingId } },
+      include: { participant: true },
+      orderBy: { updatedAt: 'desc' },
+    }) as Promise<SpeakerMappingWithParticipant[]>;
+  }
+
+  /**
+   * Map a speaker label of a meeting
+   */
+  async upsertMapping(
+    meetingId: string,
+    label: string,
+    data: UpsertSpeakerMappingData
+  ): Promise<SpeakerMapping> {
+    return this.prisma.speakerMapping.upsert({
+      where: { meetingId_label: { meetingId, label } },
+      create: { meetingId, label, ...data },
+      update: data,
+    });
+  }
+
+  /**
+   * Point every label of a meeting shown under one name to another name
+   */
+  async updateByDisplayName(
+    meetingId: string,
+    displayName: string,
+    data: UpsertSpeakerMappingData
+  ): Promise<{ count: number }> {
+    return this.updateMany({ meetingId, displayName }, data);
+  }
+}
+
+// Export singleton instance
+export const speakerMappingRepository = new SpeakerMappingRepository();
@@ -0,0 +1,116 @@
+import { TranscriptChunk } from '@prisma/client';
+import { BaseRepository } from './base.repository.js';
+import { buildUserMeetingFilter, UserMeetingScope } from './meeting.repository.js';
+
+export interface CreateTranscriptChunkData {
+  meetingId: string;
+  firstTranscriptionId: string;
+  transcriptionIds: string[];
+  speakerName?: string | null;
+  text: string;
+  timestampStart?: Date | null;
+  timestampEnd?: Date | null;
+  embedding: number[];
+  provider: string;
+  model: string;
+  dimensions: number;
+}
+
+export type TranscriptChunkWithMeeting = TranscriptChunk & {
+  meeting: {
+    id: string;
+    title: string;
+    platform: string | null;
+    startedAt: Date | null;
+    scheduledAt: Date | null;
+  };
+};
+
+/**
+ * Transcript Chunk Repository
+ * Handles all database operations for embedded transcript chunks
+ */
+export class TranscriptChunkRepository extends BaseRepository<TranscriptChunk> {
+  protected modelName = 'transcriptChunk';
+
+  /**
+   * Get IDs of transcriptions already covered by a chunk
+   */
+  async getIndexedTranscriptionIds(meetingId: string): Promise<string[]> {
+    const chunks = await this.prisma.transcriptChunk.findMany({
+      where: { meetingId },
+      select: { transcriptionIds: true },
+    });
+
+    return chunks.flatMap((chunk) => chunk.transcriptionIds);
+  }
+
+  /**
+   * Bulk create chunks, skipping chunks another worker already stored
+   */
+  async bulkCreate(data: CreateTranscriptChunkData[]): Promise<{ count: number }> {
+    return this.prisma.transcriptChunk.createMany({
+      data,
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * Find a page of chunks embedded with a model in the user's meetings, most recent first
+   * Pass the id of the last chunk of a page as `cursor` to get the next one.
+   */
+  async findForUser(
+    userId: string,
+    model: string,
+    options?: UserMeetingScope & { take?: number; cursor?: string }
+  ): Promise<TranscriptChunkWithMeeting[]> {
+    return this.prisma.transcriptChunk.findMany({
+      where: {
+        model,
+        meeting: buildUserMeetingFilter(userId, options),
+      },
+      include: {
+        meeting: {
+          select: { id: true, title: true, platform: true, startedAt: true, scheduledAt: true },
+        },
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: options?.take ?? 1000,
+      ...(options?.cursor && { cursor: { id: options.cursor }, skip: 1 }),
+    });
+  }
+
+  /**
+   * Count chunks by meeting
+   */
+  async countByMeetingId(meetingId: string): Promise<number> {
+    return this.count({ meetingId });
+  }
+
+  /**
+   * Give every chunk of a speaker in a meeting another speaker name
+   */
+  async renameSpeaker(meetingId: string, from: string, to: string): Promise<{ count: number }> {
+    return this.updateMany({ meetingId, speakerName: from }, { speakerName: to });
+  }
+
+  /**
+   * Delete the chunks of a meeting that contain any of the given transcriptions
+   */
+  async deleteByTranscriptionIds(
+    meetingId: string,
+    transcriptionIds: string[]
+  ): Promise<{ count: number }> {
+    return this.deleteMany({ meetingId, transcriptionIds: { hasSome: transcriptionIds } });
+  }
+
+  /**
+   * Delete all chunks for a meeting
+   */
+  async deleteByMeetingId(meetingId: string): Promise<{ count: number }> {
+    return this.deleteMany({ meetingId });
+  }
+}
+
+// Export singleton instance
+export const transcriptChunkRepository = new TranscriptChunkRepository();
@@ -0,0 +1,64 @@
+import { TranscriptRevision } from '@prisma/client';
+import { BaseRepository } from './base.repository.js';
+import { TranscriptRevisionChanges } from '../types/transcript-revision.types.js';
+
+export interface CreateTranscriptRevisionData {
+  meetingId: string;
+  revision: number;
+  authorId: string | null;
+  action: string;
+  summary?: string;
+  changes?: TranscriptRevisionChanges;
+  revertedRevision?: number;
+}
+
+/**
+ * TranscriptRevision Repository
+ * Handles all database operations for the transcript revision log
+ * Revisions are only ever created, never updated.
+ */
+export class TranscriptRevisionRepository extends BaseRepository<TranscriptRevision> {
+  protected modelName = 'transcriptRevision';
+
+  /**
+   * Find revisions of a meeting, latest first
+   */
+  async findByMeetingId(
+    meetingId: string,
+    options?: { skip?: number; take?: number }
+  ): Promise<TranscriptRevision[]> {
+    return this.findAll({
+      where: { meetingId },
+      orderBy: { revision: 'desc' },
+      skip: options?.skip,
+      take: options?.take,
+    });
+  }
+
+  /**
+   * Find a revision of a meeting by its number
+   */
+  async findByRevision(meetingId: string, revision: number): Promise<TranscriptRevision | null> {
+    return this.findOne({ meetingId, revision });
+  }
+
+  /**
+   * Find the revisions of a meeting after one revision up to and including another, in order
+   */
+  async findBetween(meetingId: string, after: number, upTo: number): Promise<TranscriptRevision[]> {
+    return this.findAll({
+      where: { meetingId, revision: { gt: after, lte: upTo } },
+      orderBy: { revision: 'asc' },
+    });
+  }
+
+  /**
+   * Count revisions of a meeting
+   */
+  async countByMeetingId(meetingId: string): Promise<number> {
+    return this.count({ meetingId });
+  }
+}
+
+// Export singleton instance
+export const transcriptRevisionRepository = new TranscriptRevisionRepository();
@@ -1,24 +1,32 @@
 import { Transcription } from '@prisma/client';
 import { BaseRepository } from './base.repository.js';
+import { buildUserMeetingFilter, UserMeetingScope } from './meeting.repository.js';
 import { Decimal } from '@prisma/client/runtime/library';
 
 export interface CreateTranscriptionData {
+  id?: string; // Only to restore a transcription that was deleted
   meetingId: string;
   speakerName?: string;
   text: string;
   timestampStart?: Date;
   timestampEnd?: Date;
   confidence?: Decimal;
+  speakerConfidence?: Decimal;
 }
 
 export interface UpdateTranscriptionData {
-  speakerName?: string;
+  speakerName?: string | null;
   text?: string;
-  timestampStart?: Date;
-  timestampEnd?: Date;
-  confidence?: Decimal;
+  timestampStart?: Date | null;
+  timestampEnd?: Date | null;
+  confidence?: Decimal | null;
+  speakerConfidence?: null; // Cleared once a person picks the speaker
 }
 
+export type TranscriptionWithMeeting = Transcription & {
+  meeting: { id: string; title: string };
+};
+
 /**
  * Transcription Repository
  * Handles all database operations for transcriptions
@@ -45,6 +53,22 @@ export class TranscriptionRepository extends BaseRepository<Transcription> {
     });
   }
 
+  /**
+   * Find transcriptions of a meeting in spoken order, skipping the given IDs
+   */
+  async findByMeetingIdExcluding(
+    meetingId: string,
+    excludeIds: string[]
+  ): Promise<Transcription[]> {
+    return this.findAll({
+      where: {
+        meetingId,
+        ...(excludeIds.length > 0 && { id: { notIn: excludeIds } }),
+      },
+      orderBy: [{ timestampStart: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
   /**
    * Find transcriptions by speaker
    */
@@ -123,6 +147,34 @@ export class TranscriptionRepository extends BaseRepository<Transcription> {
       .join('\n');
   }
 
+  /**
+   * Find segments in the user's meetings that mention any keyword in text or speaker name
+   */
+  async searchForUser(
+    userId: string,
+    keywords: string[],
+    options?: UserMeetingScope & { take?: number }
+  ): Promise<TranscriptionWithMeeting[]> {
+    if (keywords.length === 0) {
+      return [];
+    }
+
+    return this.prisma.transcription.findMany({
+      where: {
+        meeting: buildUserMeetingFilter(userId, options),
+        OR: keywords.flatMap((keyword) => [
+          { text: { contains: keyword, mode: 'insensitive' as const } },
+          { speakerName: { contains: keyword, mode: 'insensitive' as const } },
+        ]),
+      },
+      include: {
+        meeting: { select: { id: true, title: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: options?.take ?? 200,
+    });
+  }
+
   /**
    * Count transcriptions by meeting
    */
@@ -148,6 +200,70 @@ export class TranscriptionRepository extends BaseRepository<Transcription> {
     return result.map((r) => r.speakerName as string).filter(Boolean);
   }
 
+  /**
+   * Count a meeting's transcriptions per speaker
+   */
+  async countBySpeaker(meetingId: string): Promise<{ speakerName: string; count: number }[]> {
+    const groups = await this.prisma.transcription.groupBy({
+      by: ['speakerName'],
+      where: { meetingId, speakerName: { not: null } },
+      _count: { _all: true },
+    });
+
+    return groups.map((group) => ({
+      speakerName: group.speakerName as string,
+      count: group._count._all,
+    }));
+  }
+
+  /**
+   * Give every transcription of a speaker in a meeting another speaker name
+   */
+  async renameSpeaker(meetingId: string, from: string, to: string): Promise<{ count: number }> {
+    return this.updateMany({ meetingId, speakerName: from }, { speakerName: to });
+  }
+
+  /**
+   * Attribute transcriptions of a meeting to a speaker
+   */
+  async reassignSpeaker(
+    meetingId: string,
+    ids: string[],
+    speakerName: string
+  ): Promise<{ count: number }> {
+    return this.updateMany(
+      { meetingId, id: { in: ids } },
+      { speakerName, speakerConfidence: null }
+    );
+  }
+
+  /**
+   * Find transcriptions of a meeting by ID, in spoken order
+   */
+  async findByIds(meetingId: string, ids: string[]): Promise<Transcription[]> {
+    return this.findAll({
+      where: { meetingId, id: { in: ids } },
+      orderBy: [{ timestampStart: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Find transcriptions of a meeting spoken by any of the given speakers
+   */
+  async findBySpeakers(meetingId: string, speakerNames: string[]): Promise<Transcription[]> {
+    return this.findAll({
+      where: { meetingId, speakerName: { in: speakerNames } },
+      orderBy: { timestampStart: 'asc' },
+    });
+  }
+
+  /**
+   * Delete transcriptions of a meeting by ID
+   */
+  async deleteByIds(meetingId: string, ids: string[]): Promise<{ count: number }> {
+    return this.deleteMany({ meetingId, id: { in: ids } });
+  }
+
   /**
    * Delete all transcriptions for a meeting
    */
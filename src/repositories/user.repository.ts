@@ -0,0 +1,20 @@
+import { User } from '@prisma/client';
+import { BaseRepository } from './base.repository.js';
+
+/**
+ * User Repository
+ * Handles database operations for users outside of authentication
+ */
+export class UserRepository extends BaseRepository<User> {
+  protected modelName = 'user';
+
+  /**
+   * Find the user a calendar feed token belongs to
+   */
+  async findByCalendarFeedToken(token: string): Promise<User | null> {
+    return this.findOne({ calendarFeedToken: token });
+  }
+}
+
+// Export singleton instance
+export const userRepository = new UserRepository();
@@ -0,0 +1,172 @@
+import { Router } from 'express';
+import { actionItemController } from '../controllers/action-item.controller.js';
+import { authenticate } from '../middlewares/auth.middleware.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/action-items/mine:
+ *   get:
+ *     summary: List your action items across all meetings
+ *     description: |
+ *       Returns open and in-progress items by default, soonest due first. Pass `status` to include
+ *       done items and `overdue=true` for unfinished items past their due date.
+ *     tags: [Action Items]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         description: Comma-separated statuses (open, in_progress, done)
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: priority
+ *         schema:
+ *           type: string
+ *           enum: [low, medium, high]
+ *       - in: query
+ *         name: owner
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: dueBefore
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: dueAfter
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: overdue
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: skip
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: take
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Action items with their meeting and the total number of matches
+ *       400:
+ *         description: Invalid filters
+ */
+router.get('/mine', actionItemController.getMyActionItems);
+
+/**
+ * @swagger
+ * /api/action-items/{itemId}:
+ *   get:
+ *     summary: Get an action item
+ *     tags: [Action Items]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Action item with its meeting
+ *       403:
+ *         description: Unauthorized access to action item
+ *       404:
+ *         description: Action item not found
+ */
+router.get('/:itemId', actionItemController.getActionItem);
+
+/**
+ * @swagger
+ * /api/action-items/{itemId}:
+ *   patch:
+ *     summary: Update an action item
+ *     description: Moving to `done` records the completion time, moving away from it clears it.
+ *     tags: [Action Items]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               description:
+ *                 type: string
+ *               owner:
+ *                 type: string
+ *                 nullable: true
+ *               assignees:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               priority:
+ *                 type: string
+ *                 enum: [low, medium, high]
+ *               status:
+ *                 type: string
+ *                 enum: [open, in_progress, done]
+ *               dueDate:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               sourceTranscriptionId:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Action item updated
+ *       400:
+ *         description: Invalid action item
+ *       403:
+ *         description: Unauthorized access to action item
+ *       404:
+ *         description: Action item not found
+ */
+router.patch('/:itemId', actionItemController.updateActionItem);
+
+/**
+ * @swagger
+ * /api/action-items/{itemId}:
+ *   delete:
+ *     summary: Delete an action item
+ *     tags: [Action Items]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Action item deleted
+ *       403:
+ *         description: Unauthorized access to action item
+ *       404:
+ *         description: Action item not found
+ */
+router.delete('/:itemId', actionItemController.deleteActionItem);
+
+export default router;
@@ -0,0 +1,96 @@
+import { Router } from 'express';
+import { adminController } from '../controllers/admin.controller.js';
+import { authenticate } from '../middlewares/auth.middleware.js';
+import { requireAdmin } from '../middlewares/rbac.middleware.js';
+
+const router = Router();
+
+// All routes require an admin
+router.use(authenticate, requireAdmin);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CircuitStatus:
+ *       type: object
+ *       properties:
+ *         state:
+ *           type: string
+ *           enum: [closed, open, half_open]
+ *         openedAt:
+ *           type: string
+ *           format: date-time
+ *         retryAt:
+ *           type: string
+ *           format: date-time
+ *           description: When an open breaker lets a trial request through
+ *         requests:
+ *           type: integer
+ *           description: Requests within the window
+ *         failures:
+ *           type: integer
+ *         errorRate:
+ *           type: number
+ *         errors:
+ *           type: object
+ *           description: Failures by error type, e.g. rate_limit or timeout
+ *           additionalProperties:
+ *             type: integer
+ */
+
+/**
+ * @swagger
+ * /api/admin/ai/circuits:
+ *   get:
+ *     summary: Get circuit breaker state of AI providers
+ *     description: |
+ *       Breakers are shared by all instances through Redis. An open breaker skips its provider
+ *       and moves requests on to the next provider of their fallback chain.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Circuit breaker state of each available provider
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 providers:
+ *                   type: object
+ *                   additionalProperties:
+ *                     $ref: '#/components/schemas/CircuitStatus'
+ *       403:
+ *         description: Admin access required
+ */
+router.get('/ai/circuits', adminController.getAICircuits);
+
+/**
+ * @swagger
+ * /api/admin/ai/circuits/{provider}/reset:
+ *   post:
+ *     summary: Close an AI provider's circuit breaker
+ *     description: Closes the breaker and clears its recent requests, e.g. after an outage ended
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [gemini, openai, local, ollama, anthropic]
+ *     responses:
+ *       200:
+ *         description: Circuit breaker closed
+ *       400:
+ *         description: Unknown provider
+ *       403:
+ *         description: Admin access required
+ */
+router.post('/ai/circuits/:provider/reset', adminController.resetAICircuit);
+
+export default router;
@@ -0,0 +1,58 @@
+import { Router } from 'express';
+import { analysisController } from '../controllers/analysis.controller.js';
+import { authenticate } from '../middlewares/auth.middleware.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/analysis/jobs/{jobId}:
+ *   get:
+ *     summary: Get analysis job status
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Job status, attempts, error and results collected so far
+ *       403:
+ *         description: Unauthorized access to analysis job
+ *       404:
+ *         description: Analysis job not found
+ */
+router.get('/jobs/:jobId', analysisController.getAnalysisJob);
+
+/**
+ * @swagger
+ * /api/analysis/jobs/{jobId}/cancel:
+ *   post:
+ *     summary: Cancel an analysis job
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Analysis job cancelled
+ *       400:
+ *         description: Analysis job already finished
+ *       404:
+ *         description: Analysis job not found
+ */
+router.post('/jobs/:jobId/cancel', analysisController.cancelAnalysisJob);
+
+export default router;
@@ -0,0 +1,256 @@
+import { Router } from 'express';
+import { analysisController } from '../controllers/analysis.controller.js';
+import { authenticate } from '../middlewares/auth.middleware.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/analysis:
+ *   post:
+ *     summary: Run an analysis for a meeting
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - analysisType
+ *             properties:
+ *               analysisType:
+ *                 type: string
+ *                 enum: [meeting_summary, sentiment_analysis, content_analysis, speaker_metrics, action_items]
+ *               options:
+ *                 type: object
+ *                 properties:
+ *                   includeTimestamps:
+ *                     type: boolean
+ *                   minConfidenceThreshold:
+ *                     type: number
+ *                     minimum: 0
+ *                     maximum: 1
+ *                   maxInsights:
+ *                     type: integer
+ *                   maxActionItems:
+ *                     type: integer
+ *                   customInstructions:
+ *                     type: string
+ *     responses:
+ *       201:
+ *         description: Analysis completed and stored
+ *       400:
+ *         description: Invalid analysis request
+ *       403:
+ *         description: Unauthorized access to meeting
+ *       404:
+ *         description: Meeting or transcriptions not found
+ */
+router.post('/:id/analysis', analysisController.startAnalysis);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/analysis:
+ *   get:
+ *     summary: List stored analysis results for a meeting
+ *     description: >
+ *       Results that ran against an earlier revision of the transcript are flagged `stale`.
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *         description: Filter by analysis type
+ *       - in: query
+ *         name: skip
+ *         schema:
+ *           type: integer
+ *         description: Number of records to skip
+ *       - in: query
+ *         name: take
+ *         schema:
+ *           type: integer
+ *         description: Number of records to take
+ *     responses:
+ *       200:
+ *         description: List of analysis results
+ *       403:
+ *         description: Unauthorized access to meeting
+ */
+router.get('/:id/analysis', analysisController.getAnalysisResults);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/analysis/jobs:
+ *   post:
+ *     summary: Queue analysis for background processing
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - analysisTypes
+ *             properties:
+ *               analysisTypes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [meeting_summary, sentiment_analysis, content_analysis, speaker_metrics, action_items]
+ *               options:
+ *                 type: object
+ *               maxAttempts:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 10
+ *     responses:
+ *       202:
+ *         description: Analysis job queued
+ *       400:
+ *         description: Invalid analysis job request
+ *       403:
+ *         description: Unauthorized access to meeting
+ *       404:
+ *         description: Meeting not found
+ */
+router.post('/:id/analysis/jobs', analysisController.enqueueAnalysis);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/analysis/insights:
+ *   post:
+ *     summary: Extract key insights from a meeting
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               maxInsights:
+ *                 type: integer
+ *                 default: 10
+ *     responses:
+ *       200:
+ *         description: Extracted insights
+ *       404:
+ *         description: Meeting or transcriptions not found
+ */
+router.post('/:id/analysis/insights', analysisController.extractInsights);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/analysis/latest:
+ *   get:
+ *     summary: Get the latest analysis result for each type
+ *     description: >
+ *       Results that ran against an earlier revision of the transcript are flagged `stale`.
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Latest analysis results keyed by analysis type
+ */
+router.get('/:id/analysis/latest', analysisController.getLatestAnalysisResults);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/analysis/latest/{type}:
+ *   get:
+ *     summary: Get the latest analysis result of a type
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: type
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [meeting_summary, sentiment_analysis, content_analysis, speaker_metrics, action_items]
+ *     responses:
+ *       200:
+ *         description: Latest analysis result
+ *       404:
+ *         description: Analysis result not found
+ */
+router.get('/:id/analysis/latest/:type', analysisController.getLatestAnalysisResultByType);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/analysis/{analysisId}:
+ *   delete:
+ *     summary: Delete an analysis result
+ *     tags: [Analysis]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: analysisId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Analysis result deleted
+ *       404:
+ *         description: Analysis result not found
+ */
+router.delete('/:id/analysis/:analysisId', analysisController.deleteAnalysisResult);
+
+export default router;
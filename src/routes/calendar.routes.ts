@@ -0,0 +1,251 @@
+import express, { Router } from 'express';
+import { calendarController } from '../controllers/calendar.controller.js';
+import { authenticate } from '../middlewares/auth.middleware.js';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/calendar/feed/{token}.ics:
+ *   get:
+ *     summary: Subscribable calendar of a user's meetings
+ *     description: |
+ *       iCalendar feed of meetings from the last 90 days onwards, with their status and join
+ *       links. Completed meetings include their summary and action items. Calendar clients
+ *       cannot send bearer tokens, so the secret token in the URL authenticates the request;
+ *       get the URL from `GET /api/calendar/feed-link`.
+ *     tags: [Calendar]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: iCalendar feed
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Calendar feed not found
+ */
+router.get('/feed/:token.ics', calendarController.getFeed);
+
+// All other routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CalendarImportResult:
+ *       type: object
+ *       properties:
+ *         calendarName:
+ *           type: string
+ *         created:
+ *           type: integer
+ *         updated:
+ *           type: integer
+ *         cancelled:
+ *           type: integer
+ *         skipped:
+ *           type: integer
+ *           description: All-day events, new cancelled events and meetings that already started
+ *         warnings:
+ *           type: array
+ *           items:
+ *             type: string
+ */
+
+/**
+ * @swagger
+ * /api/calendar/import:
+ *   post:
+ *     summary: Import meetings from an iCalendar (.ics) file
+ *     description: |
+ *       Creates a scheduled meeting per event, and per occurrence of recurring events, from
+ *       30 days ago up to 90 days ahead. Events are matched by UID, so importing the same
+ *       calendar again updates changed events and cancels cancelled ones instead of creating
+ *       duplicates. The meeting URL is taken from the first Zoom, Google Meet, Teams or Webex
+ *       link in the event's location, URL or description. Meetings that already started are
+ *       never changed.
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/calendar:
+ *           schema:
+ *             type: string
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - content
+ *             properties:
+ *               content:
+ *                 type: string
+ *                 description: Contents of the .ics file
+ *     responses:
+ *       200:
+ *         description: Import summary
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CalendarImportResult'
+ *       400:
+ *         description: Missing or invalid calendar
+ */
+router.post(
+  '/import',
+  express.text({ type: ['text/calendar', 'text/plain'], limit: '5mb' }),
+  calendarController.importCalendar
+);
+
+/**
+ * @swagger
+ * /api/calendar/feeds:
+ *   get:
+ *     summary: List your calendar feeds
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Calendar feeds with their last sync time and error
+ */
+router.get('/feeds', calendarController.getFeeds);
+
+/**
+ * @swagger
+ * /api/calendar/feeds:
+ *   post:
+ *     summary: Register an ICS feed
+ *     description: |
+ *       The feed is imported right away and then synced every hour. Events removed from the
+ *       feed cancel their upcoming meetings.
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - url
+ *             properties:
+ *               url:
+ *                 type: string
+ *                 example: webcal://calendar.example.com/team.ics
+ *               name:
+ *                 type: string
+ *                 description: Defaults to the calendar's own name
+ *     responses:
+ *       201:
+ *         description: Feed registered and imported
+ *       400:
+ *         description: Invalid URL, or the feed could not be loaded or parsed
+ *       409:
+ *         description: Feed already registered
+ */
+router.post('/feeds', calendarController.createFeed);
+
+/**
+ * @swagger
+ * /api/calendar/feeds/{feedId}/sync:
+ *   post:
+ *     summary: Sync a calendar feed now
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: feedId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Import summary
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CalendarImportResult'
+ *       400:
+ *         description: The feed could not be loaded or parsed
+ *       403:
+ *         description: Unauthorized access to calendar feed
+ *       404:
+ *         description: Calendar feed not found
+ */
+router.post('/feeds/:feedId/sync', calendarController.syncFeed);
+
+/**
+ * @swagger
+ * /api/calendar/feeds/{feedId}:
+ *   delete:
+ *     summary: Remove a calendar feed
+ *     description: Meetings imported from the feed are kept.
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: feedId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Feed removed
+ *       403:
+ *         description: Unauthorized access to calendar feed
+ *       404:
+ *         description: Calendar feed not found
+ */
+router.delete('/feeds/:feedId', calendarController.deleteFeed);
+
+/**
+ * @swagger
+ * /api/calendar/feed-link:
+ *   get:
+ *     summary: Get the link of your meeting calendar
+ *     description: The link is created on first use. Anyone with the link can read the calendar.
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Feed URL to subscribe to in a calendar client
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 url:
+ *                   type: string
+ */
+router.get('/feed-link', calendarController.getFeedLink);
+
+/**
+ * @swagger
+ * /api/calendar/feed-link/rotate:
+ *   post:
+ *     summary: Replace the link of your meeting calendar
+ *     description: The previous link stops working immediately.
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: New feed URL
+ */
+router.post('/feed-link/rotate', calendarController.rotateFeedLink);
+
+export default router;
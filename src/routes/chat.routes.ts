@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import { chatController } from '../controllers/chat.controller.js';
+import { authenticate } from '../middlewares/auth.middleware.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/chat:
+ *   post:
+ *     summary: Ask a question across your meetings
+ *     description: |
+ *       Retrieves relevant transcript segments and meeting summaries, then answers with
+ *       numbered citations such as [1]. Set `stream` to true or send
+ *       `Accept: text/event-stream` to receive `sources`, `chunk`, `done` and `error` events.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - question
+ *             properties:
+ *               question:
+ *                 type: string
+ *                 example: What did we decide about the pricing page?
+ *               history:
+ *                 type: array
+ *                 description: Previous turns of the conversation
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     role:
+ *                       type: string
+ *                       enum: [user, assistant]
+ *                     content:
+ *                       type: string
+ *               meetingIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *               maxSources:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 30
+ *               stream:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Answer with the cited sources
+ *       400:
+ *         description: Invalid chat request
+ */
+router.post('/', chatController.ask);
+
+export default router;
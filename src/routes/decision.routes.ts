@@ -0,0 +1,164 @@
+import { Router } from 'express';
+import { decisionController } from '../controllers/decision.controller.js';
+import { authenticate } from '../middlewares/auth.middleware.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/decisions:
+ *   get:
+ *     summary: Search your decision log
+ *     description: |
+ *       Decisions from all your meetings, newest first. `q` matches the decision, its rationale
+ *       and the statement it was made in. Each decision lists the earlier decisions it revisits
+ *       or supersedes (`links`) and the later ones that revisit or supersede it (`linkedFrom`).
+ *     tags: [Decisions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: meetingIds
+ *         description: Comma-separated meeting IDs
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: participant
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, superseded]
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: skip
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: take
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Decisions and the total number of matches
+ *       400:
+ *         description: Invalid decision log query
+ */
+router.get('/', decisionController.getDecisionLog);
+
+/**
+ * @swagger
+ * /api/decisions/{decisionId}:
+ *   get:
+ *     summary: Get a decision with its links
+ *     tags: [Decisions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: decisionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Decision with its meeting and links
+ *       403:
+ *         description: Unauthorized access to decision
+ *       404:
+ *         description: Decision not found
+ */
+router.get('/:decisionId', decisionController.getDecision);
+
+/**
+ * @swagger
+ * /api/decisions/{decisionId}/links:
+ *   post:
+ *     summary: Link a decision to an earlier one
+ *     description: Superseded decisions are marked `superseded` until the link is removed.
+ *     tags: [Decisions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: decisionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - relatedDecisionId
+ *               - relation
+ *             properties:
+ *               relatedDecisionId:
+ *                 type: string
+ *               relation:
+ *                 type: string
+ *                 enum: [revisits, supersedes]
+ *     responses:
+ *       201:
+ *         description: Link recorded
+ *       400:
+ *         description: Invalid link or the related decision is not earlier
+ *       403:
+ *         description: Unauthorized access to decision
+ *       404:
+ *         description: Decision not found
+ */
+router.post('/:decisionId/links', decisionController.linkDecision);
+
+/**
+ * @swagger
+ * /api/decisions/{decisionId}/links/{relatedDecisionId}:
+ *   delete:
+ *     summary: Remove the link between two decisions
+ *     tags: [Decisions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: decisionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: relatedDecisionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Link removed
+ *       403:
+ *         description: Unauthorized access to decision
+ *       404:
+ *         description: Decision or link not found
+ */
+router.delete('/:decisionId/links/:relatedDecisionId', decisionController.unlinkDecision);
+
+export default router;
@@ -1,6 +1,8 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../config/database.js';
 import { getRedis } from '../config/redis.js';
+import { aiService } from '../services/ai/ai.service.js';
+import { AIProvider, CircuitStatus } from '../services/ai/types/ai.types.js';
 
 const router = Router();
 
@@ -31,6 +33,14 @@ const router = Router();
  *                       type: string
  *                     redis:
  *                       type: string
+ *                 aiProviders:
+ *                   description: |
+ *                     Circuit breaker state (closed, open or half_open) and recent error rate of
+ *                     each available AI provider, `unknown` without Redis.
+ *                     Open breakers do not fail the health check.
+ *                   type: object
+ *                   additionalProperties:
+ *                     $ref: '#/components/schemas/CircuitStatus'
  */
 router.get('/', async (_req: Request, res: Response) => {
   const health = {
@@ -40,6 +50,7 @@ router.get('/', async (_req: Request, res: Response) => {
       database: 'unknown',
       redis: 'unknown',
     },
+    aiProviders: 'unknown' as Partial<Record<AIProvider, CircuitStatus>> | 'unknown',
   };
 
   try {
@@ -57,6 +68,12 @@ router.get('/', async (_req: Request, res: Response) => {
     health.services.redis = 'unhealthy';
   }
 
+  try {
+    health.aiProviders = await aiService.getCircuitStatus();
+  } catch (error) {
+    health.aiProviders = 'unknown';
+  }
+
   const statusCode =
     health.services.database === 'healthy' && health.services.redis === 'healthy' ? 200 : 503;
 
@@ -0,0 +1,119 @@
+import { Router } from 'express';
+import { actionItemController } from '../controllers/action-item.controller.js';
+import { authenticate } from '../middlewares/auth.middleware.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/action-items:
+ *   get:
+ *     summary: List action items of a meeting
+ *     tags: [Action Items]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         description: Comma-separated statuses (open, in_progress, done)
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: priority
+ *         schema:
+ *           type: string
+ *           enum: [low, medium, high]
+ *       - in: query
+ *         name: owner
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: dueBefore
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: dueAfter
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: overdue
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Action items in the order they were added
+ *       400:
+ *         description: Invalid filters
+ *       403:
+ *         description: Unauthorized access to meeting
+ *       404:
+ *         description: Meeting not found
+ */
+router.get('/:id/action-items', actionItemController.getMeetingActionItems);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/action-items:
+ *   post:
+ *     summary: Add an action item to a meeting
+ *     tags: [Action Items]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - description
+ *             properties:
+ *               description:
+ *                 type: string
+ *               owner:
+ *                 type: string
+ *               assignees:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               priority:
+ *                 type: string
+ *                 enum: [low, medium, high]
+ *               status:
+ *                 type: string
+ *                 enum: [open, in_progress, done]
+ *               dueDate:
+ *                 type: string
+ *                 format: date-time
+ *               sourceTranscriptionId:
+ *                 type: string
+ *                 description: Transcript segment the action item was agreed in
+ *     responses:
+ *       201:
+ *         description: Action item created
+ *       400:
+ *         description: Invalid action item
+ *       403:
+ *         description: Unauthorized access to meeting
+ *       404:
+ *         description: Meeting not found
+ */
+router.post('/:id/action-items', actionItemController.createActionItem);
+
+export default router;
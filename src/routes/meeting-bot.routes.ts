@@ -101,6 +101,43 @@ router.get('/:id/recording', meetingBotController.getRecording);
  */
 router.get('/:id/transcription', meetingBotController.getTranscription);
 
+/**
+ * @swagger
+ * /api/meetings/{id}/transcription/stream:
+ *   get:
+ *     summary: Stream live transcription events
+ *     description: |
+ *       Server-Sent Events stream of `segment`, `speaker_change` and `session_status`
+ *       events for a meeting. Browsers using EventSource cannot set headers, so the
+ *       access token may be passed as the `access_token` query parameter instead.
+ *     tags: [Meeting Bot]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: access_token
+ *         schema:
+ *           type: string
+ *         description: JWT access token (only accepted with `Accept: text/event-stream`)
+ *     responses:
+ *       200:
+ *         description: Event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       403:
+ *         description: Unauthorized access to meeting
+ *       404:
+ *         description: Meeting not found
+ */
+router.get('/:id/transcription/stream', meetingBotController.streamTranscription);
+
 /**
  * @swagger
  * /api/bots/{botId}/status:
@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import { decisionController } from '../controllers/decision.controller.js';
+import { authenticate } from '../middlewares/auth.middleware.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/decisions:
+ *   get:
+ *     summary: List decisions made in a meeting
+ *     description: Decisions are recorded when a meeting summary is generated.
+ *     tags: [Decisions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Decisions in the order they were made, with their links
+ *       403:
+ *         description: Unauthorized access to meeting
+ *       404:
+ *         description: Meeting not found
+ */
+router.get('/:id/decisions', decisionController.getMeetingDecisions);
+
+export default router;
@@ -0,0 +1,220 @@
+import { Router } from 'express';
+import { meetingSeriesController } from '../controllers/meeting-series.controller.js';
+import { authenticate } from '../middlewares/auth.middleware.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/series:
+ *   post:
+ *     summary: Create a recurring meeting series
+ *     description: |
+ *       Occurrences for the next 7 days are created as scheduled meetings right away and then
+ *       kept topped up by the bot scheduler, so bots are auto-deployed to them like any other
+ *       meeting. Recurrence rules use a subset of RFC 5545 RRULE: FREQ (DAILY, WEEKLY,
+ *       MONTHLY), INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL, evaluated in UTC.
+ *     tags: [Meeting Series]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *               - recurrenceRule
+ *               - startsAt
+ *             properties:
+ *               title:
+ *                 type: string
+ *                 example: Daily standup
+ *               description:
+ *                 type: string
+ *               meetingUrl:
+ *                 type: string
+ *               platform:
+ *                 type: string
+ *                 enum: [zoom, google_meet, microsoft_teams, webex]
+ *               recurrenceRule:
+ *                 type: string
+ *                 example: FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR
+ *               startsAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: First occurrence, its time of day is used for every occurrence
+ *               durationMinutes:
+ *                 type: integer
+ *     responses:
+ *       201:
+ *         description: Series created
+ *       400:
+ *         description: Invalid series or recurrence rule
+ */
+router.post('/', meetingSeriesController.createSeries);
+
+/**
+ * @swagger
+ * /api/series:
+ *   get:
+ *     summary: List your meeting series
+ *     tags: [Meeting Series]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Meeting series, newest first
+ */
+router.get('/', meetingSeriesController.getUserSeries);
+
+/**
+ * @swagger
+ * /api/series/{seriesId}:
+ *   get:
+ *     summary: Get the series view
+ *     description: |
+ *       Recent and upcoming occurrences, unfinished action items carried over from earlier
+ *       occurrences, and a digest of what changed between the last two summarized meetings.
+ *       The digest is null until two occurrences have a meeting summary or when no AI provider
+ *       is available.
+ *     tags: [Meeting Series]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: seriesId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Series view
+ *       403:
+ *         description: Unauthorized access to meeting series
+ *       404:
+ *         description: Meeting series not found
+ */
+router.get('/:seriesId', meetingSeriesController.getSeries);
+
+/**
+ * @swagger
+ * /api/series/{seriesId}:
+ *   patch:
+ *     summary: Update a meeting series
+ *     description: |
+ *       Changing the schedule or meeting details, or pausing the series with `active: false`,
+ *       replaces upcoming occurrences that have no bot or other activity yet.
+ *     tags: [Meeting Series]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: seriesId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               meetingUrl:
+ *                 type: string
+ *               platform:
+ *                 type: string
+ *               recurrenceRule:
+ *                 type: string
+ *               startsAt:
+ *                 type: string
+ *                 format: date-time
+ *               durationMinutes:
+ *                 type: integer
+ *               active:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Series updated
+ *       400:
+ *         description: Invalid series or recurrence rule
+ *       403:
+ *         description: Unauthorized access to meeting series
+ *       404:
+ *         description: Meeting series not found
+ */
+router.patch('/:seriesId', meetingSeriesController.updateSeries);
+
+/**
+ * @swagger
+ * /api/series/{seriesId}:
+ *   delete:
+ *     summary: Delete a meeting series
+ *     description: Past occurrences are kept as standalone meetings.
+ *     tags: [Meeting Series]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: seriesId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Series deleted
+ *       403:
+ *         description: Unauthorized access to meeting series
+ *       404:
+ *         description: Meeting series not found
+ */
+router.delete('/:seriesId', meetingSeriesController.deleteSeries);
+
+/**
+ * @swagger
+ * /api/series/{seriesId}/meetings:
+ *   post:
+ *     summary: Add an existing meeting to a series
+ *     description: The meeting fills the slot of its scheduled time, or its start time.
+ *     tags: [Meeting Series]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: seriesId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - meetingId
+ *             properties:
+ *               meetingId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Meeting added to the series
+ *       403:
+ *         description: Unauthorized access to meeting or series
+ *       404:
+ *         description: Meeting or series not found
+ *       409:
+ *         description: The series already has a meeting at this time
+ */
+router.post('/:seriesId/meetings', meetingSeriesController.attachMeeting);
+
+export default router;
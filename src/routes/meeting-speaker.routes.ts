@@ -0,0 +1,186 @@
+import { Router } from 'express';
+import { speakerController } from '../controllers/speaker.controller.js';
+import { authenticate } from '../middlewares/auth.middleware.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SpeakerTarget:
+ *       type: object
+ *       description: Who the speaker is. Give a participantId or an email, or just a name
+ *       properties:
+ *         name:
+ *           type: string
+ *           description: Defaults to the participant's name
+ *         participantId:
+ *           type: string
+ *         email:
+ *           type: string
+ *           format: email
+ *           description: Finds the participant with this email, adding them if needed
+ */
+
+/**
+ * @swagger
+ * /api/meetings/{id}/speakers:
+ *   get:
+ *     summary: List the speakers of a meeting
+ *     description: >
+ *       Speakers as the transcript names them, with the participant they are mapped to.
+ *       Unmapped speakers carry a suggestion when an earlier meeting of the series named them.
+ *     tags: [Speakers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Speakers with their segment counts
+ *       403:
+ *         description: Unauthorized access to meeting
+ *       404:
+ *         description: Meeting not found
+ */
+router.get('/:id/speakers', speakerController.getSpeakers);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/speakers/merge:
+ *   post:
+ *     summary: Merge speakers of a meeting into one
+ *     description: >
+ *       Rewrites the transcript, stored analyses, action items and decisions. Later meetings of
+ *       the same series start with the merged speakers named the same way.
+ *     tags: [Speakers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - speakers
+ *               - into
+ *             properties:
+ *               speakers:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               into:
+ *                 $ref: '#/components/schemas/SpeakerTarget'
+ *     responses:
+ *       200:
+ *         description: Counts of what was rewritten and the speakers after the merge
+ *       400:
+ *         description: Invalid merge
+ *       403:
+ *         description: Unauthorized access to meeting
+ *       404:
+ *         description: Meeting, speaker or participant not found
+ */
+router.post('/:id/speakers/merge', speakerController.mergeSpeakers);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/speakers/reassign:
+ *   post:
+ *     summary: Attribute transcript segments to another speaker
+ *     description: >
+ *       Only the segments change. Analyses quote speakers by name and are left as they are.
+ *     tags: [Speakers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - transcriptionIds
+ *               - speaker
+ *             properties:
+ *               transcriptionIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               speaker:
+ *                 $ref: '#/components/schemas/SpeakerTarget'
+ *     responses:
+ *       200:
+ *         description: Counts of what was rewritten and the speakers afterwards
+ *       400:
+ *         description: Invalid reassignment
+ *       403:
+ *         description: Unauthorized access to meeting
+ *       404:
+ *         description: Meeting, transcription or participant not found
+ */
+router.post('/:id/speakers/reassign', speakerController.reassignTranscriptions);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/speakers/{speaker}:
+ *   patch:
+ *     summary: Rename a speaker of a meeting
+ *     description: >
+ *       Rewrites the transcript, stored analyses, action items and decisions, and remembers the
+ *       name for later meetings of the same series.
+ *     tags: [Speakers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: speaker
+ *         required: true
+ *         description: Current name of the speaker
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SpeakerTarget'
+ *     responses:
+ *       200:
+ *         description: Counts of what was rewritten and the speakers after the rename
+ *       400:
+ *         description: Invalid speaker
+ *       403:
+ *         description: Unauthorized access to meeting
+ *       404:
+ *         description: Meeting, speaker or participant not found
+ */
+router.patch('/:id/speakers/:speaker', speakerController.renameSpeaker);
+
+export default router;
@@ -0,0 +1,340 @@
+import { Router } from 'express';
+import { transcriptController } from '../controllers/transcript.controller.js';
+import { authenticate } from '../middlewares/auth.middleware.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/transcription/segments:
+ *   post:
+ *     summary: Insert a segment the transcript missed
+ *     description: Recorded as a transcript revision; analyses that ran before it become stale.
+ *     tags: [Transcript Editing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - text
+ *             properties:
+ *               text:
+ *                 type: string
+ *               speakerName:
+ *                 type: string
+ *                 nullable: true
+ *               timestampStart:
+ *                 type: string
+ *                 format: date-time
+ *               timestampEnd:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: The revision recorded and the new segment
+ *       400:
+ *         description: Invalid segment
+ *       403:
+ *         description: Unauthorized access to meeting
+ *       404:
+ *         description: Meeting not found
+ */
+router.post('/:id/transcription/segments', transcriptController.insertSegment);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/transcription/segments/merge:
+ *   post:
+ *     summary: Join transcript segments into one
+ *     description: >
+ *       Segments are joined into the first of them in spoken order. Action items and decisions
+ *       taken from the joined segments point at the result.
+ *     tags: [Transcript Editing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - transcriptionIds
+ *             properties:
+ *               transcriptionIds:
+ *                 type: array
+ *                 minItems: 2
+ *                 items:
+ *                   type: string
+ *               speakerName:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Defaults to the speaker of the first segment
+ *     responses:
+ *       200:
+ *         description: The revision recorded and the merged segment
+ *       400:
+ *         description: Invalid merge
+ *       403:
+ *         description: Unauthorized access to meeting
+ *       404:
+ *         description: Meeting or transcription not found
+ */
+router.post('/:id/transcription/segments/merge', transcriptController.mergeSegments);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/transcription/segments/{transcriptionId}:
+ *   patch:
+ *     summary: Correct the text or speaker of a transcript segment
+ *     tags: [Transcript Editing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: transcriptionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               text:
+ *                 type: string
+ *               speakerName:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: The revision recorded and the updated segment
+ *       400:
+ *         description: Invalid or no changes
+ *       403:
+ *         description: Unauthorized access to meeting
+ *       404:
+ *         description: Meeting or transcription not found
+ */
+router.patch('/:id/transcription/segments/:transcriptionId', transcriptController.editSegment);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/transcription/segments/{transcriptionId}/split:
+ *   post:
+ *     summary: Split a transcript segment in two
+ *     description: Timed segments share their time in proportion to the length of each part.
+ *     tags: [Transcript Editing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: transcriptionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - at
+ *             properties:
+ *               at:
+ *                 type: integer
+ *                 description: Character offset in the text where the second segment starts
+ *               speakerName:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Speaker of the second segment, by default the same speaker
+ *     responses:
+ *       201:
+ *         description: The revision recorded and both segments
+ *       400:
+ *         description: Invalid split point
+ *       403:
+ *         description: Unauthorized access to meeting
+ *       404:
+ *         description: Meeting or transcription not found
+ */
+router.post(
+  '/:id/transcription/segments/:transcriptionId/split',
+  transcriptController.splitSegment
+);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/transcription/revisions:
+ *   get:
+ *     summary: List the revisions of a meeting's transcript
+ *     tags: [Transcript Editing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Revisions latest first, with the revision the transcript is at
+ *       403:
+ *         description: Unauthorized access to meeting
+ *       404:
+ *         description: Meeting not found
+ */
+router.get('/:id/transcription/revisions', transcriptController.getRevisions);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/transcription/revisions/{revision}:
+ *   get:
+ *     summary: Get a revision of a meeting's transcript
+ *     description: Includes the segments it changed as they were before and after.
+ *     tags: [Transcript Editing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: revision
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Revision details
+ *       403:
+ *         description: Unauthorized access to meeting
+ *       404:
+ *         description: Meeting or revision not found
+ */
+router.get('/:id/transcription/revisions/:revision', transcriptController.getRevision);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/transcription/revisions/{revision}/revert:
+ *   post:
+ *     summary: Revert a revision of a meeting's transcript
+ *     description: >
+ *       Records a new revision that puts the segments back as they were. Fails when a later
+ *       revision changed the same segments.
+ *     tags: [Transcript Editing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: revision
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       201:
+ *         description: The revision recorded and the restored segments
+ *       400:
+ *         description: The revision replaced the whole transcript and cannot be reverted
+ *       403:
+ *         description: Unauthorized access to meeting
+ *       404:
+ *         description: Meeting or revision not found
+ *       409:
+ *         description: A later revision changed the same segments
+ */
+router.post(
+  '/:id/transcription/revisions/:revision/revert',
+  transcriptController.revertRevision
+);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/transcription/diff:
+ *   get:
+ *     summary: Diff a meeting's transcript between two revisions
+ *     description: Lists the segments added, removed or modified, with a word diff of their text.
+ *     tags: [Transcript Editing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         description: Revision to diff from, 0 for the transcript before any edit
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: to
+ *         description: Revision to diff to, by default the current one
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Changed segments in spoken order
+ *       400:
+ *         description: Invalid revisions, or a transcript replacement between them
+ *       403:
+ *         description: Unauthorized access to meeting
+ *       404:
+ *         description: Meeting not found
+ */
+router.get('/:id/transcription/diff', transcriptController.diffRevisions);
+
+export default router;
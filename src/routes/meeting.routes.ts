@@ -1,4 +1,4 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { meetingController } from '../controllers/meeting.controller.js';
 import { authenticate } from '../middlewares/auth.middleware.js';
 
@@ -89,6 +89,56 @@ router.get('/', meetingController.getMeetings);
  */
 router.post('/', meetingController.createMeeting);
 
+/**
+ * @swagger
+ * /api/meetings/export:
+ *   post:
+ *     summary: Export several meetings as a ZIP archive
+ *     description: |
+ *       One file per meeting in any format of `GET /api/meetings/{id}/export`, named after the
+ *       meeting title and ID. The archive is streamed while meetings are exported.
+ *     tags: [Meetings]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - meetingIds
+ *             properties:
+ *               meetingIds:
+ *                 type: array
+ *                 maxItems: 100
+ *                 items:
+ *                   type: string
+ *               format:
+ *                 type: string
+ *                 enum: [json, txt, csv, md, ics, srt, vtt, pdf, docx]
+ *               sections:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [metadata, transcript, analysis]
+ *               templateId:
+ *                 type: string
+ *               includeTranscript:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: ZIP archive
+ *         content:
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid export request
+ *       404:
+ *         description: Meetings not found, or a meeting cannot be exported in the format
+ */
+router.post('/export', meetingController.exportMeetings);
+
 /**
  * @swagger
  * /api/meetings/{id}:
@@ -269,12 +319,234 @@ router.post('/:id/end', meetingController.endMeeting);
  *         name: format
  *         schema:
  *           type: string
- *           enum: [json, txt, csv, md]
- *         description: Export format (default json)
+ *           enum: [json, txt, csv, md, ics, srt, vtt, pdf, docx]
+ *         description: |
+ *           Export format (default json). `ics` is a calendar event with the join link and, once
+ *           the meeting is completed, its summary and action items. `srt` and `vtt` are captions
+ *           for the meeting recording, timed from the start of the meeting, with speakers as
+ *           WebVTT voice tags or an SRT "Speaker:" prefix. `pdf` and `docx` are meeting reports
+ *           laid out with a report template. `csv`, `srt` and `vtt` cover the transcript only.
+ *       - in: query
+ *         name: sections
+ *         schema:
+ *           type: string
+ *           example: metadata,transcript
+ *         description: |
+ *           Comma-separated sections to include: metadata, transcript and analysis (analysis
+ *           results, action items and decisions). Defaults to all.
+ *       - in: query
+ *         name: templateId
+ *         schema:
+ *           type: string
+ *         description: Report template for pdf and docx, defaults to your default template
+ *       - in: query
+ *         name: includeTranscript
+ *         schema:
+ *           type: boolean
+ *         description: Add the full transcript as an appendix to pdf and docx reports
  *     responses:
  *       200:
  *         description: Exported data
+ *       400:
+ *         description: Unsupported format or invalid sections
+ *       404:
+ *         description: |
+ *           Meeting or report template not found, or no timed transcriptions for subtitles
  */
 router.get('/:id/export', meetingController.exportMeeting);
 
+/**
+ * @swagger
+ * /api/meetings/{id}/transcription/import:
+ *   post:
+ *     summary: Import a transcript file into a meeting
+ *     description: |
+ *       Stores a transcript exported by a meeting platform as the meeting's transcriptions.
+ *       Reads WebVTT (including Zoom and Teams .vtt), SRT, Teams .docx and plain text with
+ *       "Speaker: text" lines, optional "[00:01:02]" timestamps or Otter-style
+ *       "Speaker  0:03" headings. Speaker names differing only in case or spacing are merged.
+ *       Times are offsets from the start of the recording; lines without one are placed after
+ *       the line before them. Lines that cannot be read are skipped and reported as warnings.
+ *     tags: [Meetings]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [vtt, srt, docx, txt]
+ *         description: File format, detected from the content when left out
+ *       - in: query
+ *         name: replace
+ *         schema:
+ *           type: boolean
+ *         description: Overwrite the meeting's existing transcript
+ *       - in: query
+ *         name: analyze
+ *         schema:
+ *           type: boolean
+ *         description: Queue all analysis types once the transcript is stored
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/vtt:
+ *           schema:
+ *             type: string
+ *         application/x-subrip:
+ *           schema:
+ *             type: string
+ *         text/plain:
+ *           schema:
+ *             type: string
+ *         application/vnd.openxmlformats-officedocument.wordprocessingml.document:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - content
+ *             properties:
+ *               content:
+ *                 type: string
+ *                 description: Contents of the transcript file
+ *               encoding:
+ *                 type: string
+ *                 enum: [utf8, base64]
+ *                 description: Use base64 for .docx files
+ *               format:
+ *                 type: string
+ *                 enum: [vtt, srt, docx, txt]
+ *               replace:
+ *                 type: boolean
+ *               analyze:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: |
+ *           Import summary: format read, segments imported and replaced, speakers, duration in
+ *           seconds, warnings and the analysis job ID when analysis was queued
+ *       400:
+ *         description: Missing content, invalid options or no transcript found in the file
+ *       404:
+ *         description: Meeting not found
+ *       409:
+ *         description: Meeting is in progress, or already has a transcript and replace is not set
+ */
+router.post(
+  '/:id/transcription/import',
+  express.text({
+    type: ['text/vtt', 'text/plain', 'text/srt', 'application/x-subrip'],
+    limit: '10mb',
+  }),
+  express.raw({
+    type: [
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/octet-stream',
+    ],
+    limit: '10mb',
+  }),
+  meetingController.importTranscript
+);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/transcription/audio:
+ *   post:
+ *     summary: Transcribe an uploaded recording of a meeting
+ *     description: |
+ *       Converts an audio or video file with ffmpeg, cuts it into chunks and transcribes them in
+ *       the background with a speech-to-text engine. The local whisper-cpp engine needs no cloud
+ *       service. Speakers are told apart by the DIARIZATION_BACKEND and labelled "Speaker 1",
+ *       "Speaker 2"... in order of first appearance, with each segment's speakerConfidence.
+ *       Segments are stored as they are transcribed. Follow the progress with GET on the same
+ *       path.
+ *     tags: [Meetings]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: engine
+ *         schema:
+ *           type: string
+ *           enum: [whisper-cpp, openai]
+ *         description: Speech-to-text engine, STT_ENGINE when left out
+ *       - in: query
+ *         name: language
+ *         schema:
+ *           type: string
+ *         description: Two-letter language code, detected when left out
+ *       - in: query
+ *         name: diarize
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *         description: Tell speakers apart; segments are left as "Unknown Speaker" when false
+ *       - in: query
+ *         name: replace
+ *         schema:
+ *           type: boolean
+ *         description: Overwrite the meeting's existing transcript
+ *       - in: query
+ *         name: analyze
+ *         schema:
+ *           type: boolean
+ *         description: Queue all analysis types once the recording is transcribed
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         audio/*:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *         video/*:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *         application/octet-stream:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *     responses:
+ *       202:
+ *         description: Transcription queued, with its progress
+ *       400:
+ *         description: Empty file, invalid options, or an unknown or unconfigured engine
+ *       404:
+ *         description: Meeting not found
+ *       409:
+ *         description: |
+ *           Meeting is in progress, a recording of it is already being transcribed, or it
+ *           already has a transcript and replace is not set
+ *       413:
+ *         description: Recording is larger than STT_MAX_UPLOAD_MB
+ *   get:
+ *     summary: Get the progress of an uploaded recording
+ *     description: |
+ *       Status is queued, converting, transcribing, completed or failed, with the chunks done
+ *       out of the total once the file is converted.
+ *     tags: [Meetings]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Transcription progress
+ *       404:
+ *         description: Meeting not found, or no recording uploaded for it
+ */
+router.post('/:id/transcription/audio', meetingController.transcribeAudio);
+router.get('/:id/transcription/audio', meetingController.getAudioTranscription);
+
 export default router;
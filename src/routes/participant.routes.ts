@@ -0,0 +1,147 @@
+import { Router } from 'express';
+import { participantController } from '../controllers/participant.controller.js';
+import { authenticate } from '../middlewares/auth.middleware.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/participants:
+ *   get:
+ *     summary: List the people who speak in your meetings
+ *     tags: [Participants]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Participants ordered by name
+ */
+router.get('/', participantController.getParticipants);
+
+/**
+ * @swagger
+ * /api/participants:
+ *   post:
+ *     summary: Add a participant
+ *     description: A participant with the email of a user account is linked to that account.
+ *     tags: [Participants]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       201:
+ *         description: Participant created
+ *       400:
+ *         description: Invalid participant
+ *       409:
+ *         description: A participant with this email already exists
+ */
+router.post('/', participantController.createParticipant);
+
+/**
+ * @swagger
+ * /api/participants/{participantId}:
+ *   get:
+ *     summary: Get a participant
+ *     tags: [Participants]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: participantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Participant details
+ *       403:
+ *         description: Unauthorized access to participant
+ *       404:
+ *         description: Participant not found
+ */
+router.get('/:participantId', participantController.getParticipant);
+
+/**
+ * @swagger
+ * /api/participants/{participantId}:
+ *   patch:
+ *     summary: Update a participant
+ *     tags: [Participants]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: participantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Participant updated
+ *       400:
+ *         description: Invalid participant
+ *       403:
+ *         description: Unauthorized access to participant
+ *       404:
+ *         description: Participant not found
+ *       409:
+ *         description: A participant with this email already exists
+ */
+router.patch('/:participantId', participantController.updateParticipant);
+
+/**
+ * @swagger
+ * /api/participants/{participantId}:
+ *   delete:
+ *     summary: Delete a participant
+ *     description: Speakers mapped to the participant keep their names.
+ *     tags: [Participants]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: participantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Participant deleted
+ *       403:
+ *         description: Unauthorized access to participant
+ *       404:
+ *         description: Participant not found
+ */
+router.delete('/:participantId', participantController.deleteParticipant);
+
+export default router;
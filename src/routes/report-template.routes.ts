@@ -0,0 +1,184 @@
+import { Router } from 'express';
+import { reportTemplateController } from '../controllers/report-template.controller.js';
+import { authenticate } from '../middlewares/auth.middleware.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/report-templates:
+ *   get:
+ *     summary: List your report templates
+ *     tags: [Report Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Report templates by name
+ */
+router.get('/', reportTemplateController.getTemplates);
+
+/**
+ * @swagger
+ * /api/report-templates:
+ *   post:
+ *     summary: Create a report template
+ *     description: |
+ *       Branding and layout of PDF and DOCX meeting reports
+ *       (`GET /api/meetings/{id}/export?format=pdf`). Reports use your default template unless
+ *       another one is picked with `templateId`.
+ *     tags: [Report Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Acme board reports
+ *               brandName:
+ *                 type: string
+ *                 description: Shown above the report title
+ *               logoUrl:
+ *                 type: string
+ *                 description: PNG or JPEG image, left out of the report if it cannot be loaded
+ *               primaryColor:
+ *                 type: string
+ *                 example: "#1F3A5F"
+ *               headerText:
+ *                 type: string
+ *                 example: Confidential
+ *               footerText:
+ *                 type: string
+ *               sections:
+ *                 type: array
+ *                 description: Sections to include, in order (default all)
+ *                 items:
+ *                   type: string
+ *                   enum: [metadata, summary, key_points, decisions, action_items,
+ *                     participation, topics]
+ *               includeTranscript:
+ *                 type: boolean
+ *                 description: Add the full transcript as an appendix
+ *               isDefault:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Report template created
+ *       400:
+ *         description: Invalid report template
+ *       409:
+ *         description: A report template with this name already exists
+ */
+router.post('/', reportTemplateController.createTemplate);
+
+/**
+ * @swagger
+ * /api/report-templates/{templateId}:
+ *   get:
+ *     summary: Get a report template
+ *     tags: [Report Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Report template
+ *       403:
+ *         description: Unauthorized access to report template
+ *       404:
+ *         description: Report template not found
+ */
+router.get('/:templateId', reportTemplateController.getTemplate);
+
+/**
+ * @swagger
+ * /api/report-templates/{templateId}:
+ *   patch:
+ *     summary: Update a report template
+ *     description: Setting `isDefault` makes this template the default instead of any other.
+ *     tags: [Report Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               brandName:
+ *                 type: string
+ *               logoUrl:
+ *                 type: string
+ *               primaryColor:
+ *                 type: string
+ *               headerText:
+ *                 type: string
+ *               footerText:
+ *                 type: string
+ *               sections:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               includeTranscript:
+ *                 type: boolean
+ *               isDefault:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Report template updated
+ *       400:
+ *         description: Invalid report template
+ *       404:
+ *         description: Report template not found
+ *       409:
+ *         description: A report template with this name already exists
+ */
+router.patch('/:templateId', reportTemplateController.updateTemplate);
+
+/**
+ * @swagger
+ * /api/report-templates/{templateId}:
+ *   delete:
+ *     summary: Delete a report template
+ *     tags: [Report Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Report template deleted
+ *       404:
+ *         description: Report template not found
+ */
+router.delete('/:templateId', reportTemplateController.deleteTemplate);
+
+export default router;
@@ -0,0 +1,162 @@
+import { Router } from 'express';
+import { searchController } from '../controllers/search.controller.js';
+import { authenticate } from '../middlewares/auth.middleware.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/search:
+ *   get:
+ *     summary: Keyword search across meetings, transcripts and analyses
+ *     description: |
+ *       Full-text search over meeting titles and descriptions, transcript text and analysis
+ *       summaries. Supports quoted phrases, `or` and `-word` exclusion. Snippets are HTML-escaped
+ *       with matches wrapped in `<mark>`. Filtering by speaker returns only transcript hits and
+ *       filtering by analysis type returns only analysis hits.
+ *     tags: [Search]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: '"pricing page" -draft'
+ *       - in: query
+ *         name: types
+ *         description: Comma-separated kinds to search (meeting, transcript, analysis)
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: userId
+ *         description: Admins only, search this user's meetings instead of everyone's
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: platform
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: speaker
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: analysisType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: skip
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: take
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Ranked results with snippets and the total number of matches
+ *       400:
+ *         description: Invalid search query
+ *       403:
+ *         description: Searching another user's meetings requires admin
+ */
+router.get('/', searchController.fullTextSearch);
+
+/**
+ * @swagger
+ * /api/search/semantic:
+ *   get:
+ *     summary: Search transcripts by meaning
+ *     description: |
+ *       Ranks embedded transcript chunks from your meetings by cosine similarity to the query.
+ *       Requires an embedding provider (AI_EMBEDDING_PROVIDER).
+ *     tags: [Search]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: meetingIds
+ *         description: Comma-separated meeting IDs to search in
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: minScore
+ *         description: Minimum cosine similarity, between -1 and 1
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *         description: Ranked segments with meeting, speaker and timestamp context
+ *       400:
+ *         description: Invalid search query
+ *       503:
+ *         description: No embedding provider configured
+ */
+router.get('/semantic', searchController.semanticSearch);
+
+/**
+ * @swagger
+ * /api/search/semantic/reindex/{meetingId}:
+ *   post:
+ *     summary: Rebuild the semantic index of a meeting
+ *     description: Use after switching embedding provider or model
+ *     tags: [Search]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: meetingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Number of chunks embedded
+ *       403:
+ *         description: Unauthorized access to meeting
+ *       404:
+ *         description: Meeting not found
+ *       503:
+ *         description: No embedding provider configured
+ */
+router.post('/semantic/reindex/:meetingId', searchController.reindexMeeting);
+
+export default router;
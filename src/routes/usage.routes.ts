@@ -0,0 +1,188 @@
+import { Router } from 'express';
+import { usageController } from '../controllers/usage.controller.js';
+import { authenticate } from '../middlewares/auth.middleware.js';
+import { requireAdmin } from '../middlewares/rbac.middleware.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AIUsageTotals:
+ *       type: object
+ *       properties:
+ *         calls:
+ *           type: integer
+ *         promptTokens:
+ *           type: integer
+ *         completionTokens:
+ *           type: integer
+ *         totalTokens:
+ *           type: integer
+ *         cost:
+ *           type: number
+ *           description: USD, from the price table at the time of each call
+ *         unpricedCalls:
+ *           type: integer
+ *           description: Calls to models without a price or without reported usage, not in cost
+ *         failedCalls:
+ *           type: integer
+ *           description: Attempts that failed, including ones retried or fallen back from
+ *         averageLatencyMs:
+ *           type: integer
+ */
+
+/**
+ * @swagger
+ * /api/usage/monthly:
+ *   get:
+ *     summary: Get AI usage per user and month
+ *     description: |
+ *       Tokens and cost of AI calls per calendar month (UTC), latest month first. Calls made for
+ *       a meeting are accounted to the meeting's owner.
+ *     tags: [Usage]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: userId
+ *         description: Admins only, report this user instead of everyone
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Usage per month, for the caller or, for admins, per user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 months:
+ *                   type: array
+ *                   items:
+ *                     allOf:
+ *                       - type: object
+ *                         properties:
+ *                           month:
+ *                             type: string
+ *                             example: '2026-10'
+ *                           userId:
+ *                             type: string
+ *                             nullable: true
+ *                       - $ref: '#/components/schemas/AIUsageTotals'
+ *       400:
+ *         description: Invalid query
+ *       403:
+ *         description: Another user's usage requires admin
+ */
+router.get('/monthly', usageController.getMonthlyUsage);
+
+/**
+ * @swagger
+ * /api/usage/meetings/{meetingId}:
+ *   get:
+ *     summary: Get AI usage of a meeting
+ *     description: Totals of the meeting's AI calls and a breakdown per task and model
+ *     tags: [Usage]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: meetingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Meeting usage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 meetingId:
+ *                   type: string
+ *                 totals:
+ *                   $ref: '#/components/schemas/AIUsageTotals'
+ *                 breakdown:
+ *                   type: array
+ *                   items:
+ *                     allOf:
+ *                       - type: object
+ *                         properties:
+ *                           task:
+ *                             type: string
+ *                             nullable: true
+ *                           provider:
+ *                             type: string
+ *                           model:
+ *                             type: string
+ *                       - $ref: '#/components/schemas/AIUsageTotals'
+ *       403:
+ *         description: Not the meeting's owner
+ *       404:
+ *         description: Meeting not found
+ */
+router.get('/meetings/:meetingId', usageController.getMeetingUsage);
+
+/**
+ * @swagger
+ * /api/usage/providers:
+ *   get:
+ *     summary: Get AI usage per provider and model
+ *     description: Usage over every user, most expensive model first
+ *     tags: [Usage]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Usage per provider and model
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 providers:
+ *                   type: array
+ *                   items:
+ *                     allOf:
+ *                       - type: object
+ *                         properties:
+ *                           provider:
+ *                             type: string
+ *                           model:
+ *                             type: string
+ *                       - $ref: '#/components/schemas/AIUsageTotals'
+ *       400:
+ *         description: Invalid query
+ *       403:
+ *         description: Admin access required
+ */
+router.get('/providers', requireAdmin, usageController.getProviderUsage);
+
+export default router;
@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import { webhookController } from '../controllers/webhook.controller.js';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/webhooks/recall:
+ *   post:
+ *     summary: Receive Recall AI bot lifecycle and transcript events
+ *     description: |
+ *       Public endpoint called by Recall AI. Requests must be signed with the
+ *       RECALL_AI_WEBHOOK_SECRET using the webhook-id, webhook-timestamp and
+ *       webhook-signature headers (svix-* names are also accepted). Each
+ *       webhook-id is processed once; redeliveries return `duplicate: true`.
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: header
+ *         name: webhook-id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: webhook-timestamp
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: webhook-signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - event
+ *               - data
+ *             properties:
+ *               event:
+ *                 type: string
+ *                 example: bot.in_call_recording
+ *               data:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: Webhook received
+ *       400:
+ *         description: Invalid webhook payload
+ *       401:
+ *         description: Missing or invalid signature
+ *       503:
+ *         description: Webhook secret not configured
+ */
+router.post('/recall', webhookController.handleRecallWebhook);
+
+export default router;
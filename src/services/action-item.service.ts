@@ -0,0 +1,245 @@
+import { ActionItem, Transcription } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  actionItemRepository,
+  transcriptionRepository,
+  UpdateActionItemData,
+} from '../repositories/index.js';
+import {
+  ActionItemFilters,
+  ActionItemPriority,
+  ActionItemStatus,
+  ActionItemWithMeeting,
+} from '../types/action-item.types.js';
+import { ActionItem as ExtractedActionItem } from './ai/types/analysis.types.js';
+import { AppError } from '../middlewares/error-handler.js';
+import { logger } from '../utils/logger.js';
+import { SegmentMatchUtil } from '../utils/segment-match.util.js';
+
+/**
+ * Fields a user can set on an action item
+ */
+export interface ActionItemInput {
+  description?: string;
+  owner?: string | null;
+  assignees?: string[];
+  priority?: ActionItemPriority;
+  status?: ActionItemStatus;
+  dueDate?: Date | null;
+  sourceTranscriptionId?: string | null;
+}
+
+/**
+ * Action Item Service
+ * Tracks action items of meetings, either extracted by analysis or added by hand
+ */
+export class ActionItemService {
+  private readonly DEFAULT_TAKE = 50;
+
+  /**
+   * List action items of a meeting
+   */
+  async listForMeeting(meetingId: string, filters?: ActionItemFilters): Promise<ActionItem[]> {
+    return actionItemRepository.findByMeetingId(meetingId, filters);
+  }
+
+  /**
+   * List action items across all meetings of a user, open and in progress by default
+   */
+  async listForUser(
+    userId: string,
+    filters: ActionItemFilters = {}
+  ): Promise<{ actionItems: ActionItemWithMeeting[]; total: number }> {
+    return actionItemRepository.findForUser(userId, {
+      ...filters,
+      statuses: filters.statuses?.length
+        ? filters.statuses
+        : [ActionItemStatus.OPEN, ActionItemStatus.IN_PROGRESS],
+      take: filters.take ?? this.DEFAULT_TAKE,
+    });
+  }
+
+  /**
+   * Get action item and verify the user owns its meeting
+   */
+  async getOwnedActionItem(id: string, userId: string): Promise<ActionItemWithMeeting> {
+    const actionItem = await actionItemRepository.findByIdWithMeeting(id);
+    if (!actionItem) {
+      throw new AppError('Action item not found', 404);
+    }
+
+    if (actionItem.meeting.userId !== userId) {
+      throw new AppError('Unauthorized access to action item', 403);
+    }
+
+    return actionItem;
+  }
+
+  /**
+   * Add an action item to a meeting by hand
+   */
+  async createActionItem(
+    meetingId: string,
+    input: ActionItemInput & { description: string }
+  ): Promise<ActionItem> {
+    if (input.sourceTranscriptionId) {
+      await this.assertTranscriptionInMeeting(input.sourceTranscriptionId, meetingId);
+    }
+
+    const status = input.status ?? ActionItemStatus.OPEN;
+
+    const actionItem = await actionItemRepository.create({
+      meetingId,
+      description: input.description,
+      owner: input.owner ?? null,
+      assignees: input.assignees ?? (input.owner ? [input.owner] : []),
+      priority: input.priority ?? 'medium',
+      status,
+      dueDate: input.dueDate ?? null,
+      completedAt: status === ActionItemStatus.DONE ? new Date() : null,
+      sourceTranscriptionId: input.sourceTranscriptionId ?? null,
+    });
+
+    logger.info('Action item created', { meetingId, actionItemId: actionItem.id });
+
+    return actionItem;
+  }
+
+  /**
+   * Update an action item, stamping completion time when it moves to or from done
+   */
+  async updateActionItem(id: string, userId: string, input: ActionItemInput): Promise<ActionItem> {
+    const existing = await this.getOwnedActionItem(id, userId);
+
+    if (input.sourceTranscriptionId) {
+      await this.assertTranscriptionInMeeting(input.sourceTranscriptionId, existing.meetingId);
+    }
+
+    const data: UpdateActionItemData = { ...input };
+
+    if (input.status && input.status !== existing.status) {
+      data.completedAt = input.status === ActionItemStatus.DONE ? new Date() : null;
+    }
+
+    return actionItemRepository.update(id, data);
+  }
+
+  /**
+   * Delete an action item
+   */
+  async deleteActionItem(id: string, userId: string): Promise<void> {
+    await this.getOwnedActionItem(id, userId);
+    await actionItemRepository.delete(id);
+  }
+
+  /**
+   * Sync tracked action items with the latest extraction of an analysis
+   * Items are matched by description so status, owner and due date edits survive re-runs.
+   * Open items the analysis no longer finds are removed, worked-on items are kept.
+   * Items the meeting already tracks from another source (another analysis type or added by
+   * hand) with the same description and owner are not created again.
+   */
+  async syncFromAnalysis(
+    meetingId: string,
+    analysisType: string,
+    items: ExtractedActionItem[],
+    transcriptions: Transcription[]
+  ): Promise<ActionItem[]> {
+    const tracked = await actionItemRepository.findByMeetingId(meetingId);
+    const existing = tracked.filter((item) => item.sourceAnalysisType === analysisType);
+    const existingByKey = new Map(
+      existing.map((item) => [SegmentMatchUtil.normalize(item.description), item])
+    );
+    const otherSources = new Set(
+      tracked
+        .filter((item) => item.sourceAnalysisType !== analysisType)
+        .map((item) => this.getDuplicateKey(item.description, item.owner))
+    );
+    const seen = new Set<string>();
+    const synced: ActionItem[] = [];
+
+    for (const item of items) {
+      const key = SegmentMatchUtil.normalize(item.description || '');
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+
+      const sourceTranscriptionId =
+        SegmentMatchUtil.findSourceSegment(item.context, transcriptions)?.id ?? null;
+      const confidence = new Decimal(item.confidence.value.toFixed(4));
+      const match = existingByKey.get(key);
+
+      if (match) {
+        synced.push(
+          await actionItemRepository.update(match.id, {
+            confidence,
+            context: item.context || null,
+            sourceTranscriptionId: sourceTranscriptionId ?? match.sourceTranscriptionId,
+          })
+        );
+        continue;
+      }
+
+      const owner = item.assignedTo?.[0] ?? null;
+      if (otherSources.has(this.getDuplicateKey(item.description, owner))) {
+        continue;
+      }
+
+      synced.push(
+        await actionItemRepository.create({
+          meetingId,
+          sourceAnalysisType: analysisType,
+          sourceTranscriptionId,
+          description: item.description.trim(),
+          owner,
+          assignees: item.assignedTo ?? [],
+          priority: item.priority,
+          dueDate: item.dueDate ?? null,
+          confidence,
+          context: item.context || null,
+        })
+      );
+    }
+
+    const stale = existing.filter(
+      (item) =>
+        !seen.has(SegmentMatchUtil.normalize(item.description)) &&
+        item.status === ActionItemStatus.OPEN
+    );
+
+    if (stale.length > 0) {
+      await actionItemRepository.deleteByIds(stale.map((item) => item.id));
+    }
+
+    logger.info('Action items synced from analysis', {
+      meetingId,
+      analysisType,
+      synced: synced.length,
+      removed: stale.length,
+    });
+
+    return synced;
+  }
+
+  /**
+   * Key telling whether two action items of a meeting are the same task
+   */
+  private getDuplicateKey(description: string, owner: string | null): string {
+    return `${SegmentMatchUtil.normalize(description)}|${SegmentMatchUtil.normalize(owner ?? '')}`;
+  }
+
+  /**
+   * Ensure a transcript segment belongs to the meeting
+   */
+  private async assertTranscriptionInMeeting(
+    transcriptionId: string,
+    meetingId: string
+  ): Promise<void> {
+    const transcription = await transcriptionRepository.findById(transcriptionId);
+    if (!transcription || transcription.meetingId !== meetingId) {
+      throw new AppError('Source transcription not found in this meeting', 400);
+    }
+  }
+}
+
+// Export singleton instance
+export const actionItemService = new ActionItemService();
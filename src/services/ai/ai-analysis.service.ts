@@ -1,7 +1,11 @@
+import { AnalysisResult, Decision, Transcription } from '@prisma/client';
 import { aiService } from './ai.service.js';
 import { transcriptionRepository } from '../../repositories/transcription.repository.js';
 import { analysisResultRepository } from '../../repositories/analysis-result.repository.js';
-import { AIProvider, AIMessageRole } from './types/ai.types.js';
+import { actionItemService } from '../action-item.service.js';
+import { decisionService } from '../decision.service.js';
+import { transcriptRevisionService } from '../transcript-revision.service.js';
+import { AIMessageRole, AITaskType } from './types/ai.types.js';
 import {
   AnalysisType,
   SentimentType,
@@ -12,16 +16,42 @@ import {
   SpeakerMetrics,
   ConfidenceScore,
   AnalysisOptions,
+  ActionItem,
+  MeetingDecision,
+  SpeakerMetricsResult,
+  ActionItemsResult,
+  AnalysisRunResult,
+  StoredAnalysisResult,
 } from './types/analysis.types.js';
 import { logger } from '../../utils/logger.js';
 import { AppError } from '../../middlewares/error-handler.js';
 
+type RawActionItem = {
+  description?: string;
+  assignedTo?: string[];
+  priority?: ActionItem['priority'];
+  dueDate?: string;
+  confidence?: unknown;
+  context?: string;
+};
+
+type RawDecision =
+  | string
+  | {
+      description?: string;
+      participants?: string[];
+      rationale?: string;
+      confidence?: unknown;
+      context?: string;
+      relatedDecisions?: { ref?: number; relation?: string }[];
+    };
+
 /**
  * AI Analysis Service
- * Handles meeting content analysis, sentiment analysis, and summary generation using Gemini AI
+ * Handles meeting content analysis, sentiment analysis, and summary generation
+ * Each task runs on its fallback chain, by default the provider and model configured for analysis
  */
 export class AIAnalysisService {
-  private readonly DEFAULT_MODEL = 'gemini-1.5-pro';
   private readonly DEFAULT_TEMPERATURE = 0.3; // Lower for more consistent structured output
 
   /**
@@ -33,6 +63,7 @@ export class AIAnalysisService {
   ): Promise<ContentAnalysisResult> {
     logger.info('Starting meeting content analysis', { meetingId });
 
+    const transcriptRevision = await transcriptRevisionService.getCurrentRevision(meetingId);
     // Fetch transcriptions
     const transcriptions = await transcriptionRepository.findByMeetingId(meetingId);
 
@@ -46,32 +77,30 @@ export class AIAnalysisService {
     // Calculate total duration
     const totalDuration = this.calculateTotalDuration(transcriptions);
 
-    // Perform analysis using Gemini
+    // Perform analysis
     const analysisPrompt = this.buildContentAnalysisPrompt(
       conversationText,
       options?.customInstructions
     );
 
-    const response = await aiService.chat(
-      {
-        messages: [
-          {
-            role: AIMessageRole.SYSTEM,
-            content: this.getSystemPromptForContentAnalysis(),
-          },
-          {
-            role: AIMessageRole.USER,
-            content: analysisPrompt,
-          },
-        ],
-        options: {
-          model: this.DEFAULT_MODEL,
-          temperature: this.DEFAULT_TEMPERATURE,
-          maxTokens: 4000,
+    const response = await aiService.chat({
+      messages: [
+        {
+          role: AIMessageRole.SYSTEM,
+          content: this.getSystemPromptForContentAnalysis(),
+        },
+        {
+          role: AIMessageRole.USER,
+          content: analysisPrompt,
         },
+      ],
+      options: {
+        task: AITaskType.ANALYSIS,
+        context: { meetingId },
+        temperature: this.DEFAULT_TEMPERATURE,
+        maxTokens: 4000,
       },
-      AIProvider.GEMINI
-    );
+    });
 
     // Parse structured output
     const analysisData = this.parseContentAnalysisResponse(response.content);
@@ -95,7 +124,7 @@ export class AIAnalysisService {
     };
 
     // Store analysis result
-    await this.storeAnalysisResult(result);
+    await this.storeAnalysisResult(result, transcriptRevision);
 
     logger.info('Meeting content analysis completed', {
       meetingId,
@@ -112,6 +141,7 @@ export class AIAnalysisService {
   async analyzeSentiment(meetingId: string): Promise<SentimentAnalysis> {
     logger.info('Starting sentiment analysis', { meetingId });
 
+    const transcriptRevision = await transcriptRevisionService.getCurrentRevision(meetingId);
     const transcriptions = await transcriptionRepository.findByMeetingId(meetingId);
 
     if (!transcriptions || transcriptions.length === 0) {
@@ -122,32 +152,31 @@ export class AIAnalysisService {
 
     const sentimentPrompt = this.buildSentimentAnalysisPrompt(conversationText);
 
-    const response = await aiService.chat(
-      {
-        messages: [
-          {
-            role: AIMessageRole.SYSTEM,
-            content: this.getSystemPromptForSentimentAnalysis(),
-          },
-          {
-            role: AIMessageRole.USER,
-            content: sentimentPrompt,
-          },
-        ],
-        options: {
-          model: this.DEFAULT_MODEL,
-          temperature: this.DEFAULT_TEMPERATURE,
-          maxTokens: 1000,
+    const response = await aiService.chat({
+      messages: [
+        {
+          role: AIMessageRole.SYSTEM,
+          content: this.getSystemPromptForSentimentAnalysis(),
+        },
+        {
+          role: AIMessageRole.USER,
+          content: sentimentPrompt,
         },
+      ],
+      options: {
+        task: AITaskType.SENTIMENT,
+        context: { meetingId },
+        temperature: this.DEFAULT_TEMPERATURE,
+        maxTokens: 1000,
       },
-      AIProvider.GEMINI
-    );
+    });
 
     const sentiment = this.parseSentimentAnalysisResponse(response.content);
 
     // Store sentiment analysis
     await analysisResultRepository.upsert(meetingId, AnalysisType.SENTIMENT_ANALYSIS, {
       sentiment: sentiment.sentiment,
+      transcriptRevision,
       metadata: {
         confidence: sentiment.confidence,
         emotionalTone: sentiment.emotionalTone,
@@ -184,26 +213,24 @@ export class AIAnalysisService {
 
     const insightsPrompt = this.buildInsightsExtractionPrompt(conversationText, maxInsights);
 
-    const response = await aiService.chat(
-      {
-        messages: [
-          {
-            role: AIMessageRole.SYSTEM,
-            content: this.getSystemPromptForInsightExtraction(),
-          },
-          {
-            role: AIMessageRole.USER,
-            content: insightsPrompt,
-          },
-        ],
-        options: {
-          model: this.DEFAULT_MODEL,
-          temperature: this.DEFAULT_TEMPERATURE,
-          maxTokens: 3000,
+    const response = await aiService.chat({
+      messages: [
+        {
+          role: AIMessageRole.SYSTEM,
+          content: this.getSystemPromptForInsightExtraction(),
         },
+        {
+          role: AIMessageRole.USER,
+          content: insightsPrompt,
+        },
+      ],
+      options: {
+        task: AITaskType.ANALYSIS,
+        context: { meetingId },
+        temperature: this.DEFAULT_TEMPERATURE,
+        maxTokens: 3000,
       },
-      AIProvider.GEMINI
-    );
+    });
 
     const insights = this.parseInsightsResponse(response.content);
 
@@ -224,6 +251,7 @@ export class AIAnalysisService {
   ): Promise<MeetingSummary> {
     logger.info('Generating meeting summary', { meetingId });
 
+    const transcriptRevision = await transcriptRevisionService.getCurrentRevision(meetingId);
     const transcriptions = await transcriptionRepository.findByMeetingId(meetingId);
 
     if (!transcriptions || transcriptions.length === 0) {
@@ -237,36 +265,38 @@ export class AIAnalysisService {
     // Generate speaker metrics
     const speakerMetrics = await this.generateSpeakerMetrics(meetingId, transcriptions);
 
+    // Earlier decisions let the summary tell when one is revisited or superseded
+    const priorDecisions = await decisionService.getPriorDecisions(meetingId);
+
     // Build summary prompt
     const summaryPrompt = this.buildSummaryPrompt(
       conversationText,
       speakers.length,
       totalDuration,
-      options?.customInstructions
+      options?.customInstructions,
+      priorDecisions
     );
 
-    const response = await aiService.chat(
-      {
-        messages: [
-          {
-            role: AIMessageRole.SYSTEM,
-            content: this.getSystemPromptForSummaryGeneration(),
-          },
-          {
-            role: AIMessageRole.USER,
-            content: summaryPrompt,
-          },
-        ],
-        options: {
-          model: this.DEFAULT_MODEL,
-          temperature: this.DEFAULT_TEMPERATURE,
-          maxTokens: 5000,
+    const response = await aiService.chat({
+      messages: [
+        {
+          role: AIMessageRole.SYSTEM,
+          content: this.getSystemPromptForSummaryGeneration(),
+        },
+        {
+          role: AIMessageRole.USER,
+          content: summaryPrompt,
         },
+      ],
+      options: {
+        task: AITaskType.SUMMARY,
+        context: { meetingId },
+        temperature: this.DEFAULT_TEMPERATURE,
+        maxTokens: 5000,
       },
-      AIProvider.GEMINI
-    );
+    });
 
-    const summaryData = this.parseSummaryResponse(response.content);
+    const summaryData = this.parseSummaryResponse(response.content, priorDecisions);
 
     const summary: MeetingSummary = {
       meetingId,
@@ -282,7 +312,14 @@ export class AIAnalysisService {
     };
 
     // Store summary
-    await this.storeMeetingSummary(summary);
+    await this.storeMeetingSummary(summary, transcriptRevision);
+    await this.syncActionItems(
+      meetingId,
+      AnalysisType.MEETING_SUMMARY,
+      summary.actionItems,
+      transcriptions
+    );
+    await this.syncDecisions(meetingId, summary.decisionDetails, transcriptions);
 
     logger.info('Meeting summary generated', {
       meetingId,
@@ -293,6 +330,228 @@ export class AIAnalysisService {
     return summary;
   }
 
+  /**
+   * Run a single analysis type for a meeting
+   */
+  async runAnalysis(
+    meetingId: string,
+    analysisType: AnalysisType,
+    options?: Partial<AnalysisOptions>
+  ): Promise<AnalysisRunResult> {
+    switch (analysisType) {
+      case AnalysisType.MEETING_SUMMARY:
+        return this.generateMeetingSummary(meetingId, options);
+      case AnalysisType.SENTIMENT_ANALYSIS:
+        return this.analyzeSentiment(meetingId);
+      case AnalysisType.CONTENT_ANALYSIS:
+        return this.analyzeMeetingContent(meetingId, options);
+      case AnalysisType.SPEAKER_METRICS:
+        return this.analyzeSpeakerMetrics(meetingId);
+      case AnalysisType.ACTION_ITEMS:
+        return this.extractActionItems(meetingId, options);
+      default:
+        throw new AppError(`Unsupported analysis type: ${analysisType}`, 400);
+    }
+  }
+
+  /**
+   * Generate and store per-speaker metrics
+   */
+  async analyzeSpeakerMetrics(meetingId: string): Promise<SpeakerMetricsResult> {
+    logger.info('Starting speaker metrics analysis', { meetingId });
+
+    const transcriptRevision = await transcriptRevisionService.getCurrentRevision(meetingId);
+    const transcriptions = await transcriptionRepository.findByMeetingId(meetingId);
+
+    if (!transcriptions || transcriptions.length === 0) {
+      throw new AppError('No transcriptions found for meeting', 404);
+    }
+
+    const speakerMetrics = await this.generateSpeakerMetrics(meetingId, transcriptions);
+
+    const result: SpeakerMetricsResult = {
+      meetingId,
+      speakerMetrics,
+      metadata: {
+        analyzedAt: new Date(),
+        participantCount: speakerMetrics.length,
+        totalDuration: this.calculateTotalDuration(transcriptions),
+      },
+    };
+
+    await analysisResultRepository.upsert(meetingId, AnalysisType.SPEAKER_METRICS, {
+      participants: result.speakerMetrics,
+      metadata: result.metadata,
+      transcriptRevision,
+    });
+
+    logger.info('Speaker metrics analysis completed', {
+      meetingId,
+      speakerCount: speakerMetrics.length,
+    });
+
+    return result;
+  }
+
+  /**
+   * Extract and store action items
+   */
+  async extractActionItems(
+    meetingId: string,
+    options?: Partial<AnalysisOptions>
+  ): Promise<ActionItemsResult> {
+    logger.info('Extracting action items', { meetingId });
+
+    const transcriptRevision = await transcriptRevisionService.getCurrentRevision(meetingId);
+    const transcriptions = await transcriptionRepository.findByMeetingId(meetingId);
+
+    if (!transcriptions || transcriptions.length === 0) {
+      throw new AppError('No transcriptions found for meeting', 404);
+    }
+
+    const conversationText = this.buildConversationText(transcriptions);
+
+    const actionItemsPrompt = this.buildActionItemsPrompt(
+      conversationText,
+      options?.maxActionItems,
+      options?.customInstructions
+    );
+
+    const response = await aiService.chat({
+      messages: [
+        {
+          role: AIMessageRole.SYSTEM,
+          content: this.getSystemPromptForActionItemExtraction(),
+        },
+        {
+          role: AIMessageRole.USER,
+          content: actionItemsPrompt,
+        },
+      ],
+      options: {
+        task: AITaskType.ANALYSIS,
+        context: { meetingId },
+        temperature: this.DEFAULT_TEMPERATURE,
+        maxTokens: 2000,
+      },
+    });
+
+    let actionItems = this.parseActionItemsResponse(response.content);
+
+    if (options?.minConfidenceThreshold !== undefined) {
+      actionItems = actionItems.filter(
+        (item) => item.confidence.value >= options.minConfidenceThreshold!
+      );
+    }
+
+    if (options?.maxActionItems !== undefined) {
+      actionItems = actionItems.slice(0, options.maxActionItems);
+    }
+
+    const result: ActionItemsResult = {
+      meetingId,
+      actionItems,
+      metadata: {
+        analyzedAt: new Date(),
+        transcriptionSegments: transcriptions.length,
+        modelUsed: response.model,
+      },
+    };
+
+    await analysisResultRepository.upsert(meetingId, AnalysisType.ACTION_ITEMS, {
+      actionItems: result.actionItems,
+      metadata: result.metadata,
+      transcriptRevision,
+    });
+    await this.syncActionItems(meetingId, AnalysisType.ACTION_ITEMS, actionItems, transcriptions);
+
+    logger.info('Action item extraction completed', {
+      meetingId,
+      actionItemCount: actionItems.length,
+    });
+
+    return result;
+  }
+
+  /**
+   * List stored analysis results for a meeting
+   */
+  async getAnalysisResults(
+    meetingId: string,
+    options?: { analysisType?: string; skip?: number; take?: number }
+  ): Promise<{ results: StoredAnalysisResult[]; total: number }> {
+    const results = await analysisResultRepository.findByMeetingId(meetingId, options);
+    const total = await analysisResultRepository.countByMeetingIdAndType(
+      meetingId,
+      options?.analysisType
+    );
+
+    return { results: await this.flagStale(meetingId, results), total };
+  }
+
+  /**
+   * Get the latest stored analysis result for each type
+   */
+  async getLatestAnalysisResults(
+    meetingId: string
+  ): Promise<Record<string, StoredAnalysisResult>> {
+    const results = await this.flagStale(
+      meetingId,
+      await analysisResultRepository.findLatestPerType(meetingId)
+    );
+
+    return results.reduce<Record<string, StoredAnalysisResult>>((latest, result) => {
+      latest[result.analysisType] = result;
+      return latest;
+    }, {});
+  }
+
+  /**
+   * Get the latest stored analysis result of a type
+   */
+  async getLatestAnalysisResult(
+    meetingId: string,
+    analysisType: string
+  ): Promise<StoredAnalysisResult> {
+    const result = await analysisResultRepository.findLatestByMeetingAndType(
+      meetingId,
+      analysisType
+    );
+
+    if (!result) {
+      throw new AppError('Analysis result not found', 404);
+    }
+
+    const [stored] = await this.flagStale(meetingId, [result]);
+    return stored;
+  }
+
+  /**
+   * Delete a stored analysis result belonging to a meeting
+   */
+  async deleteAnalysisResult(meetingId: string, analysisId: string): Promise<void> {
+    const result = await analysisResultRepository.findById(analysisId);
+
+    if (!result || result.meetingId !== meetingId) {
+      throw new AppError('Analysis result not found', 404);
+    }
+
+    await analysisResultRepository.delete(analysisId);
+
+    logger.info('Analysis result deleted', { meetingId, analysisId });
+  }
+
+  /**
+   * Flag results that ran against an earlier revision of the transcript
+   */
+  private async flagStale(
+    meetingId: string,
+    results: AnalysisResult[]
+  ): Promise<StoredAnalysisResult[]> {
+    const revision = await transcriptRevisionService.getCurrentRevision(meetingId);
+    return results.map((result) => ({ ...result, stale: result.transcriptRevision < revision }));
+  }
+
   /**
    * Generate speaker metrics
    */
@@ -329,6 +588,13 @@ export class AIAnalysisService {
           0
         ) / speakerTranscriptions.length;
 
+      // How sure diarization was that these segments are this speaker's
+      const diarized = speakerTranscriptions.filter((t) => t.speakerConfidence !== null);
+      const speakerConfidence =
+        diarized.length > 0
+          ? diarized.reduce((sum, t) => sum + Number(t.speakerConfidence), 0) / diarized.length
+          : null;
+
       // Calculate speaking percentage
       const totalDuration = this.calculateTotalDuration(transcriptions);
       const speakingPercentage = (speakingTime / totalDuration) * 100;
@@ -342,22 +608,20 @@ export class AIAnalysisService {
 
       let keyContributions: string[] = [];
       try {
-        const response = await aiService.chat(
-          {
-            messages: [
-              {
-                role: AIMessageRole.USER,
-                content: contributionsPrompt,
-              },
-            ],
-            options: {
-              model: this.DEFAULT_MODEL,
-              temperature: 0.3,
-              maxTokens: 500,
+        const response = await aiService.chat({
+          messages: [
+            {
+              role: AIMessageRole.USER,
+              content: contributionsPrompt,
             },
+          ],
+          options: {
+            task: AITaskType.ANALYSIS,
+            context: { meetingId },
+            temperature: 0.3,
+            maxTokens: 500,
           },
-          AIProvider.GEMINI
-        );
+        });
 
         const parsed = this.parseJSONResponse(response.content);
         keyContributions = parsed.contributions || [];
@@ -375,6 +639,7 @@ export class AIAnalysisService {
         speakingTime,
         speakingPercentage: Math.round(speakingPercentage * 100) / 100,
         averageConfidence,
+        speakerConfidence,
         sentimentDistribution: {
           positive: 0.33,
           neutral: 0.34,
@@ -466,13 +731,22 @@ Respond with a valid JSON object containing:
 - detailedSummary: comprehensive paragraph summarizing the meeting
 - keyPoints: array of important discussion points
 - actionItems: array with description, assignedTo, priority, confidence, and context
-- decisions: array of decisions made
+- decisions: array with description, participants (speaker names involved), rationale (why it was decided), confidence (0-1), context (the statement it was made in), and relatedDecisions (array of { ref, relation } pointing at listed earlier decisions, relation "revisits" or "supersedes")
 - sentiment: sentiment analysis object
 - topics: array of main topics discussed
 
 Be concise, accurate, and focus on actionable information.`;
   }
 
+  private getSystemPromptForActionItemExtraction(): string {
+    return `You are an expert at identifying action items in meetings. Focus on concrete tasks that someone committed to or was asked to do.
+
+Respond with a valid JSON object containing:
+- actionItems: array with description, assignedTo (array of speaker names), priority ("low", "medium", "high"), dueDate (ISO date if mentioned), confidence (0-1), and context (the statement the item came from)
+
+Only include genuine, actionable commitments.`;
+  }
+
   /**
    * Prompt builders
    */
@@ -506,13 +780,22 @@ Be concise, accurate, and focus on actionable information.`;
     conversationText: string,
     participantCount: number,
     duration: number,
-    customInstructions?: string
+    customInstructions?: string,
+    priorDecisions: Decision[] = []
   ): string {
     let prompt = `Generate a comprehensive summary of this meeting:\n\n`;
     prompt += `Participants: ${participantCount}\n`;
     prompt += `Duration: ${Math.round(duration / 60)} minutes\n\n`;
     prompt += `Conversation:\n${conversationText}\n\n`;
 
+    if (priorDecisions.length > 0) {
+      prompt += `Earlier decisions from previous meetings:\n`;
+      priorDecisions.forEach((decision, index) => {
+        prompt += `[${index + 1}] (${decision.decidedAt.toISOString().slice(0, 10)}) ${decision.description}\n`;
+      });
+      prompt += `\nWhen a decision in this meeting revisits or replaces one of these, add it to relatedDecisions with its number as ref.\n\n`;
+    }
+
     if (customInstructions) {
       prompt += `Additional instructions: ${customInstructions}\n\n`;
     }
@@ -522,6 +805,26 @@ Be concise, accurate, and focus on actionable information.`;
     return prompt;
   }
 
+  private buildActionItemsPrompt(
+    conversationText: string,
+    maxActionItems?: number,
+    customInstructions?: string
+  ): string {
+    let prompt = `Extract the action items from this meeting:\n\n${conversationText}\n\n`;
+
+    if (maxActionItems) {
+      prompt += `Return at most ${maxActionItems} action items.\n\n`;
+    }
+
+    if (customInstructions) {
+      prompt += `Additional instructions: ${customInstructions}\n\n`;
+    }
+
+    prompt += `Provide a JSON object with an actionItems array.`;
+
+    return prompt;
+  }
+
   /**
    * Response parsers
    */
@@ -555,22 +858,20 @@ Be concise, accurate, and focus on actionable information.`;
     }));
   }
 
-  private parseSummaryResponse(content: string): any {
+  private parseSummaryResponse(content: string, priorDecisions: Decision[] = []): any {
     const data = this.parseJSONResponse(content);
+    const decisionDetails: MeetingDecision[] = (data.decisions || [])
+      .map((decision: RawDecision) => this.parseDecision(decision, priorDecisions))
+      .filter((decision: MeetingDecision) => decision.description);
 
     return {
       title: data.title || 'Meeting Summary',
       executiveSummary: data.executiveSummary || '',
       detailedSummary: data.detailedSummary || '',
       keyPoints: data.keyPoints || [],
-      actionItems: (data.actionItems || []).map((item: any) => ({
-        description: item.description || '',
-        assignedTo: item.assignedTo || [],
-        priority: item.priority || 'medium',
-        confidence: this.normalizeConfidence(item.confidence),
-        context: item.context || '',
-      })),
-      decisions: data.decisions || [],
+      actionItems: (data.actionItems || []).map((item: any) => this.parseActionItem(item)),
+      decisions: decisionDetails.map((decision) => decision.description),
+      decisionDetails,
       sentiment: this.parseSentimentAnalysisResponse(
         JSON.stringify(data.sentiment || {})
       ),
@@ -584,6 +885,53 @@ Be concise, accurate, and focus on actionable information.`;
     };
   }
 
+  private parseActionItemsResponse(content: string): ActionItem[] {
+    const data = this.parseJSONResponse(content);
+    const items: RawActionItem[] = Array.isArray(data) ? data : data.actionItems || [];
+
+    return items.map((item) => this.parseActionItem(item));
+  }
+
+  private parseActionItem(item: RawActionItem): ActionItem {
+    const dueDate = item.dueDate ? new Date(item.dueDate) : undefined;
+
+    return {
+      description: item.description || '',
+      assignedTo: item.assignedTo || [],
+      priority: item.priority || 'medium',
+      dueDate: dueDate && !isNaN(dueDate.getTime()) ? dueDate : undefined,
+      confidence: this.normalizeConfidence(item.confidence),
+      context: item.context || '',
+    };
+  }
+
+  private parseDecision(decision: RawDecision, priorDecisions: Decision[]): MeetingDecision {
+    // Older prompts returned decisions as plain strings
+    const item = typeof decision === 'string' ? { description: decision } : decision || {};
+
+    const relatedDecisions = (item.relatedDecisions || []).flatMap((related) => {
+      const prior = related.ref ? priorDecisions[related.ref - 1] : undefined;
+      if (!prior) return [];
+
+      return [
+        {
+          decisionId: prior.id,
+          relation:
+            related.relation === 'supersedes' ? ('supersedes' as const) : ('revisits' as const),
+        },
+      ];
+    });
+
+    return {
+      description: item.description || '',
+      participants: item.participants || [],
+      rationale: item.rationale || '',
+      confidence: this.normalizeConfidence(item.confidence),
+      context: item.context || '',
+      relatedDecisions,
+    };
+  }
+
   /**
    * Parse JSON response from AI
    */
@@ -675,7 +1023,10 @@ Be concise, accurate, and focus on actionable information.`;
   /**
    * Store analysis result
    */
-  private async storeAnalysisResult(result: ContentAnalysisResult): Promise<void> {
+  private async storeAnalysisResult(
+    result: ContentAnalysisResult,
+    transcriptRevision: number
+  ): Promise<void> {
     await analysisResultRepository.upsert(
       result.meetingId,
       result.analysisType,
@@ -684,14 +1035,51 @@ Be concise, accurate, and focus on actionable information.`;
         keyPoints: result.insights,
         topics: result.topics,
         metadata: result.metadata,
+        transcriptRevision,
       }
     );
   }
 
+  /**
+   * Feed extracted action items into task tracking
+   * The analysis itself is already stored, so a failed sync only gets logged
+   */
+  private async syncActionItems(
+    meetingId: string,
+    analysisType: AnalysisType,
+    actionItems: ActionItem[],
+    transcriptions: Transcription[]
+  ): Promise<void> {
+    try {
+      await actionItemService.syncFromAnalysis(meetingId, analysisType, actionItems, transcriptions);
+    } catch (error) {
+      logger.error('Failed to sync action items', { meetingId, analysisType, error });
+    }
+  }
+
+  /**
+   * Record the decisions of a summary in the decision log
+   * The summary itself is already stored, so a failed sync only gets logged
+   */
+  private async syncDecisions(
+    meetingId: string,
+    decisions: MeetingDecision[],
+    transcriptions: Transcription[]
+  ): Promise<void> {
+    try {
+      await decisionService.syncFromSummary(meetingId, decisions, transcriptions);
+    } catch (error) {
+      logger.error('Failed to sync decisions', { meetingId, error });
+    }
+  }
+
   /**
    * Store meeting summary
    */
-  private async storeMeetingSummary(summary: MeetingSummary): Promise<void> {
+  private async storeMeetingSummary(
+    summary: MeetingSummary,
+    transcriptRevision: number
+  ): Promise<void> {
     await analysisResultRepository.upsert(
       summary.meetingId,
       AnalysisType.MEETING_SUMMARY,
@@ -703,6 +1091,7 @@ Be concise, accurate, and focus on actionable information.`;
         topics: summary.topics,
         participants: summary.speakerMetrics,
         metadata: summary.metadata,
+        transcriptRevision,
       }
     );
   }
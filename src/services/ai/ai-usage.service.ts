@@ -0,0 +1,197 @@
+import { Role } from '@prisma/client';
+import {
+  aiUsageRepository,
+  meetingRepository,
+  AIUsageTotals,
+  MonthlyAIUsageRow,
+  MeetingAIUsageRow,
+  ProviderAIUsageRow,
+} from '../../repositories/index.js';
+import { AIConfigService, aiConfigService } from './config/ai-config.service.js';
+import { AIProvider, AITaskType, AIUsage, AIUsageContext } from './types/ai.types.js';
+import { AppError } from '../../middlewares/error-handler.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * AIService method a call was made through
+ */
+export type AIUsageOperation = 'complete' | 'chat' | 'stream_chat' | 'embed';
+
+/**
+ * AI call attempt to record in the usage ledger
+ */
+export interface AIUsageEntry {
+  operation: AIUsageOperation;
+  provider: AIProvider;
+  model: string;
+  task?: AITaskType;
+  context?: AIUsageContext;
+  usage?: AIUsage; // Calls without reported usage are recorded without tokens or cost
+  errorType?: string; // Set when the attempt failed
+  latencyMs: number;
+}
+
+/**
+ * Usage report options
+ */
+export interface AIUsageReportOptions {
+  userId?: string; // Admins only: limit the report to this user
+  startDate?: Date;
+  endDate?: Date;
+}
+
+/**
+ * Usage of a meeting, in total and per task and model
+ */
+export interface MeetingAIUsage {
+  meetingId: string;
+  totals: AIUsageTotals;
+  breakdown: MeetingAIUsageRow[];
+}
+
+/**
+ * AI Usage Service
+ * Records the tokens, latency and cost of every AI call and reports usage for billing
+ */
+export class AIUsageService {
+  private readonly configService: AIConfigService;
+
+  constructor(configService: AIConfigService = aiConfigService) {
+    this.configService = configService;
+  }
+
+  /**
+   * Record an AI call attempt
+   * Never throws, a call must not fail or change its error because it could not be recorded
+   */
+  async record(entry: AIUsageEntry): Promise<void> {
+    try {
+      const { userId, meetingId } = entry.context ?? {};
+      const usage = entry.usage;
+
+      await aiUsageRepository.create({
+        userId: userId ?? (meetingId ? await this.findMeetingOwner(meetingId) : null),
+        meetingId: meetingId ?? null,
+        provider: entry.provider,
+        model: entry.model,
+        operation: entry.operation,
+        task: entry.task ?? null,
+        promptTokens: usage?.promptTokens ?? 0,
+        completionTokens: usage?.completionTokens ?? 0,
+        totalTokens: usage?.totalTokens ?? 0,
+        latencyMs: Math.round(entry.latencyMs),
+        cost: this.computeCost(entry.provider, entry.model, usage),
+        success: !entry.errorType,
+        errorType: entry.errorType ?? null,
+      });
+    } catch (error) {
+      logger.error('Failed to record AI usage', {
+        provider: entry.provider,
+        model: entry.model,
+        operation: entry.operation,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Compute the cost of a call in USD
+   * Null when the model has no price or the provider reported no usage
+   */
+  computeCost(provider: AIProvider, model: string, usage?: AIUsage): number | null {
+    const price = this.configService.getModelPrice(provider, model);
+    if (!price || !usage) {
+      return null;
+    }
+
+    return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+  }
+
+  /**
+   * Get usage per user and month
+   * Callers see their own usage, admins may see every user or a given one
+   */
+  async getMonthlyUsage(
+    caller: { id: string; role: Role },
+    options: AIUsageReportOptions = {}
+  ): Promise<MonthlyAIUsageRow[]> {
+    const isAdmin = caller.role === Role.ADMIN;
+
+    if (options.userId && options.userId !== caller.id && !isAdmin) {
+      throw new AppError('You can only access your own resources', 403);
+    }
+
+    return aiUsageRepository.sumByUserAndMonth({
+      userId: isAdmin ? options.userId : caller.id,
+      startDate: options.startDate,
+      endDate: options.endDate,
+    });
+  }
+
+  /**
+   * Get usage of a meeting, for its owner or an admin
+   */
+  async getMeetingUsage(
+    caller: { id: string; role: Role },
+    meetingId: string
+  ): Promise<MeetingAIUsage> {
+    const meeting = await meetingRepository.findById(meetingId);
+    if (!meeting) {
+      throw new AppError('Meeting not found', 404);
+    }
+    if (meeting.userId !== caller.id && caller.role !== Role.ADMIN) {
+      throw new AppError('Unauthorized access to meeting', 403);
+    }
+
+    const breakdown = await aiUsageRepository.sumByMeeting(meetingId);
+    return { meetingId, totals: this.sumTotals(breakdown), breakdown };
+  }
+
+  /**
+   * Get usage per provider and model over every user
+   */
+  async getProviderUsage(options: AIUsageReportOptions = {}): Promise<ProviderAIUsageRow[]> {
+    return aiUsageRepository.sumByProvider(options);
+  }
+
+  private async findMeetingOwner(meetingId: string): Promise<string | null> {
+    const meeting = await meetingRepository.findById(meetingId);
+    return meeting?.userId ?? null;
+  }
+
+  /**
+   * Add up report rows, weighting average latency by calls
+   */
+  private sumTotals(rows: AIUsageTotals[]): AIUsageTotals {
+    const totals = rows.reduce(
+      (sum, row) => ({
+        calls: sum.calls + row.calls,
+        promptTokens: sum.promptTokens + row.promptTokens,
+        completionTokens: sum.completionTokens + row.completionTokens,
+        totalTokens: sum.totalTokens + row.totalTokens,
+        cost: sum.cost + row.cost,
+        unpricedCalls: sum.unpricedCalls + row.unpricedCalls,
+        failedCalls: sum.failedCalls + row.failedCalls,
+        averageLatencyMs: sum.averageLatencyMs + row.averageLatencyMs * row.calls,
+      }),
+      {
+        calls: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        cost: 0,
+        unpricedCalls: 0,
+        failedCalls: 0,
+        averageLatencyMs: 0,
+      }
+    );
+
+    return {
+      ...totals,
+      averageLatencyMs: totals.calls > 0 ? Math.round(totals.averageLatencyMs / totals.calls) : 0,
+    };
+  }
+}
+
+// Export singleton instance
+export const aiUsageService = new AIUsageService();
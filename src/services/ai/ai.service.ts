@@ -5,26 +5,51 @@ import {
   AIChatRequest,
   AIResponse,
   AIStreamChunk,
+  AIUsage,
+  AIEmbeddingRequest,
+  AIEmbeddingResponse,
   AIError,
+  AIErrorType,
+  AIProviderStatus,
+  AIRequestOptions,
+  AIRoute,
+  AICostClass,
+  AILatencyClass,
   RetryConfig,
+  CircuitStatus,
 } from './types/ai.types.js';
 import { GeminiAIProvider } from './providers/gemini.provider.js';
 import { OpenAIProvider } from './providers/openai.provider.js';
+import { LocalAIProvider } from './providers/local.provider.js';
+import { OllamaAIProvider } from './providers/ollama.provider.js';
+import { AnthropicAIProvider } from './providers/anthropic.provider.js';
 import { aiConfigService, AIConfigService } from './config/ai-config.service.js';
+import { CircuitBreakerService } from './circuit-breaker.service.js';
+import { AIUsageService, AIUsageOperation } from './ai-usage.service.js';
 import { logger } from '../../utils/logger.js';
 
+const COST_ORDER = [AICostClass.LOW, AICostClass.MEDIUM, AICostClass.HIGH];
+const LATENCY_ORDER = [AILatencyClass.FAST, AILatencyClass.STANDARD, AILatencyClass.SLOW];
+
 /**
  * AI Service
  * Main service for AI operations with provider switching, retry logic, and fallback
+ * Requests are routed along the fallback chain of their task, see `AIConfigService.getRoutes`
+ * Providers whose circuit breaker is open are skipped, see `CircuitBreakerService`
+ * Tokens, latency and cost of successful calls are recorded, see `AIUsageService`
  */
 export class AIService {
   private providers: Map<AIProvider, IAIProvider> = new Map();
   private currentProvider: AIProvider;
   private configService: AIConfigService;
+  private circuitBreaker: CircuitBreakerService;
+  private usageService: AIUsageService;
   private isInitialized: boolean = false;
 
   constructor(configService: AIConfigService = aiConfigService) {
     this.configService = configService;
+    this.circuitBreaker = new CircuitBreakerService(configService);
+    this.usageService = new AIUsageService(configService);
     this.currentProvider = this.configService.getDefaultProvider();
   }
 
@@ -79,6 +104,64 @@ export class AIService {
       logger.info('OpenAI provider registered');
     }
 
+    // Initialize Anthropic provider
+    const anthropicConfig = config.providers[AIProvider.ANTHROPIC];
+    if (anthropicConfig?.apiKey) {
+      const anthropicProvider = new AnthropicAIProvider({
+        provider: AIProvider.ANTHROPIC,
+        apiKey: anthropicConfig.apiKey,
+        model: anthropicConfig.defaultModel,
+        endpoint: anthropicConfig.endpoint,
+      });
+      await anthropicProvider.initialize({
+        provider: AIProvider.ANTHROPIC,
+        apiKey: anthropicConfig.apiKey,
+        model: anthropicConfig.defaultModel,
+        endpoint: anthropicConfig.endpoint,
+      });
+      this.providers.set(AIProvider.ANTHROPIC, anthropicProvider);
+      logger.info('Anthropic provider registered');
+    }
+
+    // Initialize Ollama provider for a self-hosted LLM server
+    const ollamaConfig = config.providers[AIProvider.OLLAMA];
+    if (ollamaConfig?.endpoint) {
+      const ollamaProvider = new OllamaAIProvider(
+        {
+          provider: AIProvider.OLLAMA,
+          model: ollamaConfig.defaultModel,
+          endpoint: ollamaConfig.endpoint,
+          apiKey: ollamaConfig.apiKey,
+        },
+        ollamaConfig.api
+      );
+      await ollamaProvider.initialize({
+        provider: AIProvider.OLLAMA,
+        model: ollamaConfig.defaultModel,
+        endpoint: ollamaConfig.endpoint,
+        apiKey: ollamaConfig.apiKey,
+      });
+      this.providers.set(AIProvider.OLLAMA, ollamaProvider);
+      logger.info('Ollama provider registered', { endpoint: ollamaConfig.endpoint });
+    }
+
+    // Initialize local provider, only used for embeddings
+    if (config.embeddings.provider === AIProvider.LOCAL) {
+      const localProvider = new LocalAIProvider(
+        { provider: AIProvider.LOCAL },
+        config.providers[AIProvider.LOCAL].dimensions
+      );
+      await localProvider.initialize({ provider: AIProvider.LOCAL });
+      this.providers.set(AIProvider.LOCAL, localProvider);
+      logger.info('Local provider registered');
+    }
+
+    if (!this.isProviderAvailable(config.embeddings.provider)) {
+      logger.warn('Embedding provider not configured, semantic search is disabled', {
+        provider: config.embeddings.provider,
+      });
+    }
+
     // Set up config reload listeners
     if (config.enableHotReload) {
       this.configService.enableHotReload();
@@ -94,54 +177,56 @@ export class AIService {
 
   /**
    * Generate completion with retry and fallback
+   * A given provider is tried first, ahead of the task's fallback chain
    */
   async complete(request: AICompletionRequest, provider?: AIProvider): Promise<AIResponse> {
     this.ensureInitialized();
 
-    const targetProvider = provider || this.currentProvider;
-    const retryConfig = this.configService.getRetryConfig();
-
-    try {
-      return await this.executeWithRetry(
-        () => this.getProvider(targetProvider).complete(request),
-        retryConfig,
-        targetProvider
-      );
-    } catch (error) {
-      return await this.handleErrorWithFallback(
-        error as AIError,
-        () => this.complete(request, this.getFallbackProvider(targetProvider)),
-        targetProvider
-      );
-    }
+    const attemptedProviders: AIProvider[] = [];
+    const { result, route } = await this.executeWithFallback(
+      this.planRoutes(request.options, provider),
+      (instance, route) =>
+        this.trackAttempt(
+          'complete',
+          { provider: route.provider, model: this.getRouteModel(route) },
+          request.options,
+          () =>
+            instance.complete({ ...request, options: { ...request.options, model: route.model } }),
+          (response) => ({ model: response?.model, usage: response?.usage })
+        ),
+      attemptedProviders
+    );
+
+    return this.withRoutingMetadata(result, route, attemptedProviders);
   }
 
   /**
    * Generate chat completion with retry and fallback
+   * A given provider is tried first, ahead of the task's fallback chain
    */
   async chat(request: AIChatRequest, provider?: AIProvider): Promise<AIResponse> {
     this.ensureInitialized();
 
-    const targetProvider = provider || this.currentProvider;
-    const retryConfig = this.configService.getRetryConfig();
-
-    try {
-      return await this.executeWithRetry(
-        () => this.getProvider(targetProvider).chat(request),
-        retryConfig,
-        targetProvider
-      );
-    } catch (error) {
-      return await this.handleErrorWithFallback(
-        error as AIError,
-        () => this.chat(request, this.getFallbackProvider(targetProvider)),
-        targetProvider
-      );
-    }
+    const attemptedProviders: AIProvider[] = [];
+    const { result, route } = await this.executeWithFallback(
+      this.planRoutes(request.options, provider),
+      (instance, route) =>
+        this.trackAttempt(
+          'chat',
+          { provider: route.provider, model: this.getRouteModel(route) },
+          request.options,
+          () => instance.chat({ ...request, options: { ...request.options, model: route.model } }),
+          (response) => ({ model: response?.model, usage: response?.usage })
+        ),
+      attemptedProviders
+    );
+
+    return this.withRoutingMetadata(result, route, attemptedProviders);
   }
 
   /**
-   * Stream chat completion with retry
+   * Stream chat completion with retry and fallback
+   * Retries and falls back only until the first chunk is sent, a started answer cannot be redone
    */
   async streamChat(
     request: AIChatRequest,
@@ -150,22 +235,86 @@ export class AIService {
   ): Promise<void> {
     this.ensureInitialized();
 
-    const targetProvider = provider || this.currentProvider;
-    const retryConfig = this.configService.getRetryConfig();
+    let started = false;
+    await this.executeWithFallback(
+      this.planRoutes(request.options, provider),
+      (instance, route) => {
+        let usage: AIUsage | undefined;
+        return this.trackAttempt(
+          'stream_chat',
+          { provider: route.provider, model: this.getRouteModel(route) },
+          request.options,
+          () =>
+            instance.streamChat(
+              { ...request, options: { ...request.options, model: route.model } },
+              (chunk) => {
+                started = true;
+                // Providers report usage with the last chunk
+                usage = chunk.usage ?? usage;
+                onChunk(chunk);
+              }
+            ),
+          // Also read when the stream breaks off, tokens sent until then are billed
+          () => ({ usage })
+        );
+      },
+      [],
+      () => started
+    );
+  }
 
-    try {
-      await this.executeWithRetry(
-        () => this.getProvider(targetProvider).streamChat(request, onChunk),
-        retryConfig,
-        targetProvider
-      );
-    } catch (error) {
-      await this.handleErrorWithFallback(
-        error as AIError,
-        () => this.streamChat(request, onChunk, this.getFallbackProvider(targetProvider)),
-        targetProvider
-      );
+  /**
+   * Generate embeddings with retry
+   * No fallback: vectors from different models are not comparable
+   */
+  async embed(request: AIEmbeddingRequest, provider?: AIProvider): Promise<AIEmbeddingResponse> {
+    this.ensureInitialized();
+
+    const embeddingConfig = this.configService.getEmbeddingConfig();
+    const targetProvider = provider || embeddingConfig.provider;
+    const providerInstance = this.getProvider(targetProvider);
+
+    if (!providerInstance.supportsEmbeddings()) {
+      throw new Error(`Provider ${targetProvider} does not support embeddings`);
     }
+
+    const model = request.model || embeddingConfig.model;
+    return this.executeWithRetry(
+      () =>
+        this.trackAttempt(
+          'embed',
+          { provider: targetProvider, model: model ?? targetProvider },
+          { context: request.context },
+          () =>
+            providerInstance.embed({
+              ...request,
+              model,
+              dimensions: request.dimensions || embeddingConfig.dimensions,
+            }),
+          (response) => ({ model: response?.model, usage: response?.usage })
+        ),
+      this.configService.getRetryConfig(),
+      targetProvider
+    );
+  }
+
+  /**
+   * Get provider used for embeddings
+   */
+  getEmbeddingProvider(): AIProvider {
+    return this.configService.getEmbeddingConfig().provider;
+  }
+
+  /**
+   * Check if embeddings can be generated
+   */
+  isEmbeddingAvailable(): boolean {
+    const provider = this.getEmbeddingProvider();
+    return (
+      this.isInitialized &&
+      this.isProviderAvailable(provider) &&
+      this.providers.get(provider)!.supportsEmbeddings()
+    );
   }
 
   /**
@@ -201,13 +350,60 @@ export class AIService {
     return this.providers.has(provider) && this.providers.get(provider)!.isConfigured();
   }
 
+  /**
+   * Get configuration and health of every provider
+   * Available providers are asked for their models, which checks that local servers are up
+   */
+  async getProviderStatus(): Promise<Record<AIProvider, AIProviderStatus>> {
+    const configured = this.configService.getProviderStatus();
+
+    const entries = await Promise.all(
+      Object.values(AIProvider).map(async (provider): Promise<[AIProvider, AIProviderStatus]> => {
+        const status: AIProviderStatus = {
+          configured: configured[provider],
+          available: this.isProviderAvailable(provider),
+        };
+
+        if (status.available) {
+          try {
+            status.models = await this.providers.get(provider)!.listModels();
+            status.healthy = true;
+          } catch (error) {
+            status.healthy = false;
+            status.error = (error as Error).message;
+          }
+        }
+
+        return [provider, status];
+      })
+    );
+
+    return Object.fromEntries(entries) as Record<AIProvider, AIProviderStatus>;
+  }
+
+  /**
+   * Get circuit breaker state and recent error rates of available providers
+   */
+  async getCircuitStatus(): Promise<Partial<Record<AIProvider, CircuitStatus>>> {
+    return this.circuitBreaker.getStatus(this.getAvailableProviders());
+  }
+
+  /**
+   * Close a provider's circuit breaker, e.g. once an outage is known to be over
+   */
+  async resetCircuit(provider: AIProvider): Promise<void> {
+    await this.circuitBreaker.reset(provider);
+  }
+
   /**
    * Execute operation with retry logic
+   * Nothing is retried once `isCommitted` returns true
    */
   private async executeWithRetry<T>(
     operation: () => Promise<T>,
     retryConfig: RetryConfig,
-    provider: AIProvider
+    provider: AIProvider,
+    isCommitted?: () => boolean
   ): Promise<T> {
     let lastError: AIError | null = null;
     let attempt = 0;
@@ -219,7 +415,7 @@ export class AIService {
         lastError = error as AIError;
 
         // Check if error is retryable
-        if (!retryConfig.retryableErrors.includes(lastError.type)) {
+        if (!retryConfig.retryableErrors.includes(lastError.type) || isCommitted?.()) {
           throw lastError;
         }
 
@@ -252,51 +448,236 @@ export class AIService {
   }
 
   /**
-   * Handle error with fallback to alternative provider
+   * Run an operation along a chain of routes, retrying each before falling back to the next
+   * Providers are added to `attemptedProviders` as they are tried, open circuits are skipped
    */
-  private async handleErrorWithFallback<T>(
-    error: AIError,
-    fallbackOperation: () => Promise<T>,
-    primaryProvider: AIProvider
-  ): Promise<T> {
+  private async executeWithFallback<T>(
+    routes: AIRoute[],
+    operation: (provider: IAIProvider, route: AIRoute) => Promise<T>,
+    attemptedProviders: AIProvider[],
+    isCommitted?: () => boolean
+  ): Promise<{ result: T; route: AIRoute }> {
     const fallbackConfig = this.configService.getFallbackConfig();
+    const retryConfig = this.configService.getRetryConfig();
 
-    // Check if fallback is enabled and error is fallback-eligible
-    if (!fallbackConfig.enabled || !fallbackConfig.fallbackOnErrors.includes(error.type)) {
-      throw error;
+    for (let index = 0; ; index++) {
+      const route = routes[index];
+
+      try {
+        const result = await this.executeWithRetry(
+          () => this.callThroughCircuit(route, operation, attemptedProviders),
+          retryConfig,
+          route.provider,
+          isCommitted
+        );
+        return { result, route };
+      } catch (error) {
+        const aiError = error as AIError;
+        const canFallBack =
+          fallbackConfig.enabled &&
+          (fallbackConfig.fallbackOnErrors.includes(aiError.type) ||
+            aiError.type === AIErrorType.CIRCUIT_OPEN) &&
+          index < routes.length - 1 &&
+          !isCommitted?.();
+
+        if (!canFallBack) {
+          if (index > 0) {
+            logger.error('All providers in the fallback chain failed', {
+              attemptedProviders,
+              error: aiError.message,
+            });
+          }
+          throw error;
+        }
+
+        logger.warn('Falling back to next provider', {
+          failedProvider: route.provider,
+          nextProvider: routes[index + 1].provider,
+          errorType: aiError.type,
+        });
+      }
     }
+  }
 
-    const fallbackProvider = this.getFallbackProvider(primaryProvider);
+  /**
+   * Send a single attempt to a provider, unless its circuit breaker is open
+   * The outcome is recorded in the breaker, so a failing provider is skipped by later requests
+   */
+  private async callThroughCircuit<T>(
+    route: AIRoute,
+    operation: (provider: IAIProvider, route: AIRoute) => Promise<T>,
+    attemptedProviders: AIProvider[]
+  ): Promise<T> {
+    if (!(await this.circuitBreaker.allowRequest(route.provider))) {
+      // Not retryable, so the request moves on to the next route without backoff
+      throw new AIError(
+        `Circuit breaker open for ${route.provider}, provider skipped`,
+        AIErrorType.CIRCUIT_OPEN,
+        route.provider,
+        undefined,
+        503
+      );
+    }
 
-    // Check if fallback provider is available
-    if (!this.isProviderAvailable(fallbackProvider)) {
-      logger.error('Fallback provider not available', {
-        primaryProvider,
-        fallbackProvider,
-        error: error.message,
-      });
+    // Retries of the same route are one attempt
+    if (attemptedProviders[attemptedProviders.length - 1] !== route.provider) {
+      attemptedProviders.push(route.provider);
+    }
+
+    try {
+      const result = await operation(this.getProvider(route.provider), route);
+      await this.circuitBreaker.recordSuccess(route.provider);
+      return result;
+    } catch (error) {
+      await this.circuitBreaker.recordFailure(route.provider, (error as AIError).type);
       throw error;
     }
+  }
+
+  /**
+   * Plan the providers and models a request is tried on, in order
+   * - a given provider goes first, then the task's chain, or the current provider without one
+   * - routes outside the request's cost and latency limits are dropped, unless that drops them all
+   * - a weighted route is picked for the first attempt, the rest keep their order
+   * - the configured fallback provider closes the chain
+   * - routes to unavailable providers are skipped
+   */
+  private planRoutes(options?: AIRequestOptions, provider?: AIProvider): AIRoute[] {
+    const configured = this.configService.getRoutes(options?.task);
+    let routes: AIRoute[] = provider
+      ? [{ provider, model: options?.model }, ...configured]
+      : configured.length > 0
+        ? configured
+        : [{ provider: this.currentProvider, model: options?.model }];
+
+    if (options?.routing) {
+      const preferred = routes.filter((route) => this.meetsPreference(route, options));
+      if (preferred.length > 0) {
+        routes = preferred;
+      } else {
+        logger.warn('No route meets the routing preference, ignoring it', {
+          task: options.task,
+          routing: options.routing,
+        });
+      }
+    }
+
+    if (!provider) {
+      const picked = this.pickWeighted(routes);
+      if (picked) {
+        routes = [picked, ...routes.filter((route) => route !== picked)];
+      }
+    }
 
-    logger.warn('Falling back to alternative provider', {
-      primaryProvider,
-      fallbackProvider,
-      errorType: error.type,
+    const fallbackConfig = this.configService.getFallbackConfig();
+    if (fallbackConfig.enabled) {
+      routes = [...routes, { provider: this.getFallbackProvider(routes[0].provider) }];
+    }
+
+    // Each provider and model once, the first time it appears
+    const seen = new Set<string>();
+    const unique = routes.filter((route) => {
+      const key = `${route.provider}:${route.model ?? ''}`;
+      return !seen.has(key) && !!seen.add(key);
     });
 
+    const available = unique.filter((route) => this.isProviderAvailable(route.provider));
+    // Keep the first route when none is available, so the caller gets the provider error
+    return available.length > 0 ? available : [unique[0]];
+  }
+
+  /**
+   * Check a route is within the cost and latency limits of a request
+   */
+  private meetsPreference(route: AIRoute, options: AIRequestOptions): boolean {
+    const { maxCost, maxLatency } = options.routing!;
+    const cost = COST_ORDER.indexOf(route.costClass ?? AICostClass.MEDIUM);
+    const latency = LATENCY_ORDER.indexOf(route.latencyClass ?? AILatencyClass.STANDARD);
+
+    return (
+      (!maxCost || cost <= COST_ORDER.indexOf(maxCost)) &&
+      (!maxLatency || latency <= LATENCY_ORDER.indexOf(maxLatency))
+    );
+  }
+
+  /**
+   * Pick one of the weighted routes at random, in proportion to their weights
+   */
+  private pickWeighted(routes: AIRoute[]): AIRoute | undefined {
+    const weighted = routes.filter(
+      (route) => (route.weight ?? 0) > 0 && this.isProviderAvailable(route.provider)
+    );
+    const total = weighted.reduce((sum, route) => sum + route.weight!, 0);
+
+    let remaining = Math.random() * total;
+    return weighted.find((route) => (remaining -= route.weight!) < 0) ?? weighted[0];
+  }
+
+  /**
+   * Record the routing of a request in its response
+   */
+  private withRoutingMetadata(
+    response: AIResponse,
+    route: AIRoute,
+    attemptedProviders: AIProvider[]
+  ): AIResponse {
+    return {
+      ...response,
+      metadata: {
+        ...response.metadata,
+        attemptedProviders,
+        succeededProvider: route.provider,
+      },
+    };
+  }
+
+  /**
+   * Run a single attempt of a call and record it in the usage ledger, whether it fails or not
+   * Retries and fallbacks are separate attempts. `describe` gives the model that answered and the
+   * usage it reported, it gets no result when the attempt failed.
+   */
+  private async trackAttempt<T>(
+    operation: AIUsageOperation,
+    target: { provider: AIProvider; model: string },
+    options: AIRequestOptions | undefined,
+    attempt: () => Promise<T>,
+    describe: (result: T | undefined) => { model?: string; usage?: AIUsage }
+  ): Promise<T> {
+    const startedAt = Date.now();
+    let result: T | undefined;
+    let errorType: string | undefined;
+
     try {
-      return await fallbackOperation();
-    } catch (fallbackError) {
-      logger.error('Fallback operation also failed', {
-        primaryProvider,
-        fallbackProvider,
-        primaryError: error.message,
-        fallbackError: (fallbackError as Error).message,
+      result = await attempt();
+      return result;
+    } catch (error) {
+      errorType = error instanceof AIError ? error.type : AIErrorType.UNKNOWN;
+      throw error;
+    } finally {
+      const { model, usage } = describe(result);
+      await this.usageService.record({
+        operation,
+        provider: target.provider,
+        model: model ?? target.model,
+        task: options?.task,
+        context: options?.context,
+        usage,
+        errorType,
+        latencyMs: Date.now() - startedAt,
       });
-      throw fallbackError;
     }
   }
 
+  /**
+   * Model a route runs on, the provider's default model when the route names none
+   */
+  private getRouteModel(route: AIRoute): string {
+    const config = this.configService.getProviderConfig(route.provider) as {
+      defaultModel?: string;
+    };
+    return route.model ?? config.defaultModel ?? route.provider;
+  }
+
   /**
    * Get fallback provider
    */
@@ -0,0 +1,336 @@
+import { randomUUID } from 'crypto';
+import { cacheService } from '../cache.service.js';
+import { aiAnalysisService } from './ai-analysis.service.js';
+import {
+  AnalysisJob,
+  AnalysisOptions,
+  AnalysisRunResult,
+  AnalysisStatus,
+  AnalysisType,
+} from './types/analysis.types.js';
+import { config } from '../../config/index.js';
+import { logger } from '../../utils/logger.js';
+import { AppError } from '../../middlewares/error-handler.js';
+
+/**
+ * Analysis Queue Service
+ * Redis-backed queue for running meeting analyses outside the request cycle
+ * Workers move jobs onto a processing list while running them, so jobs of a worker that died
+ * can be found and requeued.
+ */
+export class AnalysisQueueService {
+  private readonly QUEUE_KEY = 'analysis:queue';
+  private readonly PROCESSING_KEY = 'analysis:processing';
+  private readonly JOB_PREFIX = 'analysis:job:';
+  private readonly JOB_TTL = 7 * 24 * 60 * 60; // 7 days
+
+  /**
+   * Get cache key for job
+   */
+  private getJobKey(jobId: string): string {
+    return `${this.JOB_PREFIX}${jobId}`;
+  }
+
+  /**
+   * Get cache key of a job's cancel flag
+   * Only `cancelJob` writes it, so a worker saving progress cannot overwrite a cancel
+   */
+  private getCancelKey(jobId: string): string {
+    return `${this.JOB_PREFIX}${jobId}:cancelled`;
+  }
+
+  private async isCancelled(jobId: string): Promise<boolean> {
+    return cacheService.exists(this.getCancelKey(jobId));
+  }
+
+  /**
+   * Persist job state
+   */
+  private async saveJob(job: AnalysisJob): Promise<void> {
+    await cacheService.set(this.getJobKey(job.jobId), job, this.JOB_TTL);
+  }
+
+  /**
+   * Check whether a job has reached a terminal state
+   */
+  private isFinished(job: AnalysisJob): boolean {
+    return [AnalysisStatus.COMPLETED, AnalysisStatus.FAILED, AnalysisStatus.CANCELLED].includes(
+      job.status
+    );
+  }
+
+  /**
+   * Queue an analysis job for a meeting
+   */
+  async enqueue(
+    meetingId: string,
+    userId: string,
+    analysisTypes: AnalysisType[],
+    options?: Omit<AnalysisOptions, 'analysisTypes'>,
+    maxAttempts: number = config.analysisQueue.maxAttempts
+  ): Promise<AnalysisJob> {
+    const job: AnalysisJob = {
+      jobId: randomUUID(),
+      meetingId,
+      userId,
+      status: AnalysisStatus.PENDING,
+      analysisTypes,
+      options,
+      attempts: 0,
+      maxAttempts,
+      createdAt: new Date(),
+      results: {},
+    };
+
+    await this.saveJob(job);
+    await cacheService.lPush(this.QUEUE_KEY, job.jobId);
+
+    logger.info('Analysis job queued', {
+      jobId: job.jobId,
+      meetingId,
+      analysisTypes,
+    });
+
+    return job;
+  }
+
+  /**
+   * Get job by ID
+   */
+  async getJob(jobId: string): Promise<AnalysisJob> {
+    const job = await cacheService.get<AnalysisJob>(this.getJobKey(jobId));
+    if (!job) {
+      throw new AppError('Analysis job not found', 404);
+    }
+
+    // A worker may have saved progress after the job was cancelled
+    if (job.status !== AnalysisStatus.CANCELLED && (await this.isCancelled(jobId))) {
+      job.status = AnalysisStatus.CANCELLED;
+    }
+
+    return job;
+  }
+
+  /**
+   * Get job by ID and verify the user owns it
+   */
+  async getJobForUser(jobId: string, userId: string): Promise<AnalysisJob> {
+    const job = await this.getJob(jobId);
+
+    if (job.userId !== userId) {
+      throw new AppError('Unauthorized access to analysis job', 403);
+    }
+
+    return job;
+  }
+
+  /**
+   * Cancel a pending or running job
+   * Running jobs stop before their next analysis type
+   */
+  async cancelJob(jobId: string, userId: string): Promise<AnalysisJob> {
+    const job = await this.getJobForUser(jobId, userId);
+
+    if (this.isFinished(job)) {
+      throw new AppError(`Analysis job is already ${job.status}`, 400);
+    }
+
+    job.status = AnalysisStatus.CANCELLED;
+    job.completedAt = new Date();
+    await cacheService.set(this.getCancelKey(jobId), true, this.JOB_TTL);
+    await this.saveJob(job);
+
+    logger.info('Analysis job cancelled', { jobId, meetingId: job.meetingId });
+
+    return job;
+  }
+
+  /**
+   * Get number of jobs waiting in the queue
+   */
+  async getQueueLength(): Promise<number> {
+    return cacheService.lLen(this.QUEUE_KEY);
+  }
+
+  /**
+   * Take the next job off the queue and process it
+   * The job stays on the processing list until it is done. Returns false when the queue is empty.
+   */
+  async processNextJob(): Promise<boolean> {
+    const jobId = await cacheService.lMove<string>(this.QUEUE_KEY, this.PROCESSING_KEY);
+    if (!jobId) {
+      return false;
+    }
+
+    try {
+      const job = await cacheService.get<AnalysisJob>(this.getJobKey(jobId));
+      if (!job) {
+        logger.warn('Analysis job expired before processing', { jobId });
+        return true;
+      }
+
+      if (job.status !== AnalysisStatus.PENDING || (await this.isCancelled(jobId))) {
+        logger.info('Skipping analysis job', { jobId, status: job.status });
+        return true;
+      }
+
+      await this.processJob(job);
+      return true;
+    } finally {
+      await cacheService.lRem(this.PROCESSING_KEY, jobId);
+    }
+  }
+
+  /**
+   * Requeue jobs left on the processing list by a worker that stopped
+   * A job is stale once its worker has not reported progress for `staleJobMs`. Jobs out of
+   * attempts are marked as failed. Returns the number of jobs reclaimed.
+   */
+  async reclaimStaleJobs(): Promise<number> {
+    const jobIds = await cacheService.lRange<string>(this.PROCESSING_KEY);
+    let reclaimed = 0;
+
+    for (const jobId of jobIds) {
+      const job = await cacheService.get<AnalysisJob>(this.getJobKey(jobId));
+      if (job && !this.isFinished(job) && !this.isStale(job)) {
+        continue;
+      }
+
+      // Another worker may have reclaimed or finished the job meanwhile
+      if ((await cacheService.lRem(this.PROCESSING_KEY, jobId)) === 0) {
+        continue;
+      }
+      if (!job || this.isFinished(job) || (await this.isCancelled(jobId))) {
+        continue;
+      }
+
+      reclaimed++;
+      await this.handleJobFailure(job, new Error('Worker stopped while processing the job'));
+    }
+
+    return reclaimed;
+  }
+
+  private isStale(job: AnalysisJob): boolean {
+    const lastProgress = job.heartbeatAt ?? job.startedAt ?? job.createdAt;
+    return Date.now() - new Date(lastProgress).getTime() > config.analysisQueue.staleJobMs;
+  }
+
+  /**
+   * Run every analysis type of a job, retrying failures up to the job limit
+   */
+  private async processJob(job: AnalysisJob): Promise<void> {
+    job.status = AnalysisStatus.IN_PROGRESS;
+    job.attempts += 1;
+    job.startedAt = new Date();
+    job.heartbeatAt = job.startedAt;
+    job.error = undefined;
+    await this.saveJob(job);
+
+    logger.info('Processing analysis job', {
+      jobId: job.jobId,
+      meetingId: job.meetingId,
+      attempt: job.attempts,
+    });
+
+    try {
+      for (const analysisType of job.analysisTypes) {
+        // Results from a previous attempt are kept
+        if (job.results[analysisType]) continue;
+
+        if (await this.isCancelled(job.jobId)) {
+          logger.info('Analysis job cancelled during processing', { jobId: job.jobId });
+          return;
+        }
+
+        const result = await this.runWithHeartbeat(job, analysisType);
+
+        // Saving now would overwrite a cancel that arrived during the analysis
+        if (await this.isCancelled(job.jobId)) {
+          logger.info('Analysis job cancelled during processing', { jobId: job.jobId });
+          return;
+        }
+
+        job.results[analysisType] = result;
+        job.heartbeatAt = new Date();
+        await this.saveJob(job);
+      }
+
+      job.status = AnalysisStatus.COMPLETED;
+      job.completedAt = new Date();
+      await this.saveJob(job);
+
+      logger.info('Analysis job completed', { jobId: job.jobId, meetingId: job.meetingId });
+    } catch (error) {
+      await this.handleJobFailure(job, error);
+    }
+  }
+
+  /**
+   * Run one analysis type of a job, refreshing its heartbeat while the analysis runs
+   * With provider timeouts, retries and fallbacks one analysis can outlast `staleJobMs`.
+   */
+  private async runWithHeartbeat(
+    job: AnalysisJob,
+    analysisType: AnalysisType
+  ): Promise<AnalysisRunResult> {
+    const heartbeat = setInterval(() => {
+      job.heartbeatAt = new Date();
+      this.saveJob(job).catch((error) => {
+        logger.warn('Failed to refresh analysis job heartbeat', {
+          jobId: job.jobId,
+          error: (error as Error).message,
+        });
+      });
+    }, config.analysisQueue.staleJobMs / 3);
+
+    try {
+      return await aiAnalysisService.runAnalysis(job.meetingId, analysisType, {
+        ...job.options,
+        analysisTypes: [analysisType],
+      });
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Requeue a failed job or mark it as failed
+   * Client errors (missing meeting, no transcriptions) are not retried
+   */
+  private async handleJobFailure(job: AnalysisJob, error: unknown): Promise<void> {
+    const retryable = !(error instanceof AppError && error.statusCode < 500);
+    job.error = error instanceof Error ? error.message : String(error);
+
+    if (await this.isCancelled(job.jobId)) {
+      return;
+    }
+
+    if (retryable && job.attempts < job.maxAttempts) {
+      job.status = AnalysisStatus.PENDING;
+      await this.saveJob(job);
+      await cacheService.lPush(this.QUEUE_KEY, job.jobId);
+
+      logger.warn('Analysis job failed, retrying', {
+        jobId: job.jobId,
+        attempt: job.attempts,
+        maxAttempts: job.maxAttempts,
+        error: job.error,
+      });
+      return;
+    }
+
+    job.status = AnalysisStatus.FAILED;
+    job.completedAt = new Date();
+    await this.saveJob(job);
+
+    logger.error('Analysis job failed', {
+      jobId: job.jobId,
+      attempts: job.attempts,
+      error: job.error,
+    });
+  }
+}
+
+// Export singleton instance
+export const analysisQueueService = new AnalysisQueueService();
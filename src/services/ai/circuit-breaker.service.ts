@@ -0,0 +1,239 @@
+import { randomUUID } from 'crypto';
+import { RedisClientType } from 'redis';
+import { getRedis } from '../../config/redis.js';
+import { AIConfigService, aiConfigService } from './config/ai-config.service.js';
+import { AIProvider, AIErrorType, CircuitState, CircuitStatus } from './types/ai.types.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Circuit Breaker Service
+ * Skips providers that keep failing instead of paying retries and backoff on every request.
+ * State lives in Redis, so every instance of the API sees a breaker open at once.
+ * Without Redis, requests are let through and nothing is recorded.
+ */
+export class CircuitBreakerService {
+  private readonly KEY_PREFIX = 'ai:circuit:';
+  private readonly configService: AIConfigService;
+
+  constructor(configService: AIConfigService = aiConfigService) {
+    this.configService = configService;
+  }
+
+  /**
+   * Check whether a request may be sent to a provider
+   * Once an open breaker has waited long enough, one instance gets to send a trial request
+   */
+  async allowRequest(provider: AIProvider): Promise<boolean> {
+    const config = this.configService.getCircuitBreakerConfig();
+    const redis = this.getRedisClient();
+    if (!config.enabled || !redis) {
+      return true;
+    }
+
+    try {
+      const { state, openedAt } = await redis.hGetAll(this.getStateKey(provider));
+      if (!state || state === CircuitState.CLOSED) {
+        return true;
+      }
+      if (state === CircuitState.OPEN && Date.now() < Number(openedAt) + config.openDurationMs) {
+        return false;
+      }
+
+      // The trial expires, so a trial request that never finishes does not keep the breaker open
+      const claimed = await redis.set(this.getTrialKey(provider), String(Date.now()), {
+        NX: true,
+        PX: config.openDurationMs,
+      });
+      if (claimed !== 'OK') {
+        return false;
+      }
+
+      await redis.hSet(this.getStateKey(provider), 'state', CircuitState.HALF_OPEN);
+      logger.info('Circuit breaker half-open, sending a trial request', { provider });
+      return true;
+    } catch (error) {
+      logger.warn('Circuit breaker state unavailable, allowing request', {
+        provider,
+        error: (error as Error).message,
+      });
+      return true;
+    }
+  }
+
+  /**
+   * Record a request the provider answered
+   */
+  async recordSuccess(provider: AIProvider): Promise<void> {
+    await this.record(provider);
+  }
+
+  /**
+   * Record a failed request
+   * Only errors the breaker trips on count as failures, others mean the provider answered
+   */
+  async recordFailure(provider: AIProvider, errorType: AIErrorType): Promise<void> {
+    const { tripOnErrors } = this.configService.getCircuitBreakerConfig();
+    await this.record(provider, tripOnErrors.includes(errorType) ? errorType : undefined);
+  }
+
+  /**
+   * Get breaker state and recent requests of providers
+   * Throws when Redis is unavailable
+   */
+  async getStatus(providers: AIProvider[]): Promise<Partial<Record<AIProvider, CircuitStatus>>> {
+    const config = this.configService.getCircuitBreakerConfig();
+    const redis = getRedis();
+    const status: Partial<Record<AIProvider, CircuitStatus>> = {};
+
+    for (const provider of providers) {
+      const { state, openedAt } = await redis.hGetAll(this.getStateKey(provider));
+      const window = await this.getWindow(redis, provider);
+
+      status[provider] = {
+        state: (state as CircuitState) || CircuitState.CLOSED,
+        openedAt: openedAt ? new Date(Number(openedAt)).toISOString() : undefined,
+        retryAt:
+          state === CircuitState.OPEN
+            ? new Date(Number(openedAt) + config.openDurationMs).toISOString()
+            : undefined,
+        ...window,
+      };
+    }
+
+    return status;
+  }
+
+  /**
+   * Close a provider's breaker and forget its recent requests
+   */
+  async reset(provider: AIProvider): Promise<void> {
+    await getRedis().del([
+      this.getStateKey(provider),
+      this.getTrialKey(provider),
+      this.getOutcomesKey(provider),
+    ]);
+    logger.info('Circuit breaker reset', { provider });
+  }
+
+  /**
+   * Add the outcome of a request to the window and move the breaker on
+   * - a failed trial request opens the breaker again, a successful one closes it
+   * - a closed breaker opens once the failure rate reaches the threshold
+   */
+  private async record(provider: AIProvider, errorType?: AIErrorType): Promise<void> {
+    const config = this.configService.getCircuitBreakerConfig();
+    const redis = this.getRedisClient();
+    if (!config.enabled || !redis) {
+      return;
+    }
+
+    const now = Date.now();
+    const outcomesKey = this.getOutcomesKey(provider);
+
+    try {
+      // Members must be unique, the outcome is read back from the end
+      await redis.zAdd(outcomesKey, {
+        score: now,
+        value: `${now}:${randomUUID()}:${errorType ?? 'ok'}`,
+      });
+      await redis.zRemRangeByScore(outcomesKey, 0, now - config.windowMs);
+      await redis.pExpire(outcomesKey, config.windowMs);
+
+      const { state } = await redis.hGetAll(this.getStateKey(provider));
+
+      if (state === CircuitState.HALF_OPEN) {
+        if (errorType) {
+          await this.open(redis, provider, now, { trialError: errorType });
+        } else {
+          await redis.del([this.getStateKey(provider), this.getTrialKey(provider), outcomesKey]);
+          logger.info('Circuit breaker closed after a successful trial request', { provider });
+        }
+        return;
+      }
+
+      if (errorType && state !== CircuitState.OPEN) {
+        const window = await this.getWindow(redis, provider);
+        if (
+          window.requests >= config.minimumRequests &&
+          window.errorRate >= config.failureRateThreshold
+        ) {
+          await this.open(redis, provider, now, window);
+        }
+      }
+    } catch (error) {
+      logger.warn('Failed to record request in circuit breaker', {
+        provider,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  private async open(
+    redis: RedisClientType,
+    provider: AIProvider,
+    now: number,
+    details: object
+  ): Promise<void> {
+    await redis.hSet(this.getStateKey(provider), {
+      state: CircuitState.OPEN,
+      openedAt: String(now),
+    });
+    await redis.del(this.getTrialKey(provider));
+
+    logger.warn('Circuit breaker opened, skipping provider', { provider, ...details });
+  }
+
+  /**
+   * Requests to a provider within the window, by outcome
+   */
+  private async getWindow(
+    redis: RedisClientType,
+    provider: AIProvider
+  ): Promise<Pick<CircuitStatus, 'requests' | 'failures' | 'errorRate' | 'errors'>> {
+    const { windowMs } = this.configService.getCircuitBreakerConfig();
+    const outcomes = await redis.zRangeByScore(
+      this.getOutcomesKey(provider),
+      Date.now() - windowMs,
+      '+inf'
+    );
+
+    const errors: Partial<Record<AIErrorType, number>> = {};
+    for (const outcome of outcomes) {
+      const type = outcome.slice(outcome.lastIndexOf(':') + 1);
+      if (type !== 'ok') {
+        errors[type as AIErrorType] = (errors[type as AIErrorType] ?? 0) + 1;
+      }
+    }
+
+    const failures = Object.values(errors).reduce((sum, count) => sum + count, 0);
+    return {
+      requests: outcomes.length,
+      failures,
+      errorRate: outcomes.length > 0 ? failures / outcomes.length : 0,
+      errors,
+    };
+  }
+
+  private getRedisClient(): RedisClientType | null {
+    try {
+      return getRedis();
+    } catch {
+      return null;
+    }
+  }
+
+  private getStateKey(provider: AIProvider): string {
+    return `${this.KEY_PREFIX}${provider}`;
+  }
+
+  private getTrialKey(provider: AIProvider): string {
+    return `${this.KEY_PREFIX}${provider}:trial`;
+  }
+
+  private getOutcomesKey(provider: AIProvider): string {
+    return `${this.KEY_PREFIX}${provider}:outcomes`;
+  }
+}
+
+// Export singleton instance
+export const circuitBreakerService = new CircuitBreakerService();
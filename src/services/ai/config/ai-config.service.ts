@@ -7,10 +7,24 @@ import {
   AIErrorType,
   RetryConfig,
   FallbackConfig,
+  CircuitBreakerConfig,
+  EmbeddingConfig,
+  AnalysisModelConfig,
+  RoutingConfig,
+  AIRoute,
+  AITaskType,
+  AICostClass,
+  AILatencyClass,
+  ModelPrice,
+  PricingConfig,
   ProviderConfigMap,
   ProviderConfigUpdate,
   GeminiProviderConfig,
   OpenAIProviderConfig,
+  AnthropicProviderConfig,
+  LocalProviderConfig,
+  OllamaProviderConfig,
+  LocalLLMApi,
 } from '../types/ai.types.js';
 import { logger } from '../../../utils/logger.js';
 
@@ -34,6 +48,8 @@ export class AIConfigService extends EventEmitter {
    * Load configuration from app config
    */
   private loadConfig(): AIServiceConfig {
+    const defaultProvider = this.parseProvider(appConfig.ai.defaultProvider, AIProvider.GEMINI);
+
     const defaultRetryConfig: RetryConfig = {
       maxRetries: 3,
       baseDelay: 1000,
@@ -49,8 +65,9 @@ export class AIConfigService extends EventEmitter {
 
     const defaultFallbackConfig: FallbackConfig = {
       enabled: true,
-      primaryProvider: AIProvider.GEMINI,
-      fallbackProvider: AIProvider.OPENAI,
+      primaryProvider: defaultProvider,
+      fallbackProvider:
+        defaultProvider === AIProvider.OPENAI ? AIProvider.GEMINI : AIProvider.OPENAI,
       fallbackOnErrors: [
         AIErrorType.AUTHENTICATION,
         AIErrorType.RATE_LIMIT,
@@ -58,6 +75,36 @@ export class AIConfigService extends EventEmitter {
       ],
     };
 
+    const defaultCircuitBreakerConfig: CircuitBreakerConfig = {
+      enabled: true,
+      failureRateThreshold: 0.5,
+      minimumRequests: 10,
+      windowMs: 60000,
+      openDurationMs: 30000,
+      tripOnErrors: [
+        AIErrorType.RATE_LIMIT,
+        AIErrorType.NETWORK_ERROR,
+        AIErrorType.TIMEOUT,
+        AIErrorType.PROVIDER_ERROR,
+      ],
+    };
+
+    // List prices in USD per million tokens, self-hosted models cost nothing per token
+    const defaultPricing: PricingConfig = {
+      'gemini-1.5-pro': { input: 1.25, output: 5 },
+      'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+      'text-embedding-004': { input: 0, output: 0 },
+      'gpt-4o': { input: 2.5, output: 10 },
+      'gpt-4o-mini': { input: 0.15, output: 0.6 },
+      'text-embedding-3-small': { input: 0.02, output: 0 },
+      'text-embedding-3-large': { input: 0.13, output: 0 },
+      'claude-sonnet-4-5': { input: 3, output: 15 },
+      'claude-haiku-4-5': { input: 1, output: 5 },
+      'claude-opus-4-1': { input: 15, output: 75 },
+      [AIProvider.OLLAMA]: { input: 0, output: 0 },
+      [AIProvider.LOCAL]: { input: 0, output: 0 },
+    };
+
     const providers: ProviderConfigMap = {
       [AIProvider.GEMINI]: {
         apiKey: appConfig.gemini.apiKey,
@@ -68,18 +115,103 @@ export class AIConfigService extends EventEmitter {
         defaultModel: 'gpt-4o-mini',
         endpoint: appConfig.openai.endpoint,
       },
+      [AIProvider.ANTHROPIC]: {
+        apiKey: appConfig.anthropic.apiKey,
+        defaultModel: 'claude-sonnet-4-5',
+        endpoint: appConfig.anthropic.endpoint,
+      },
+      [AIProvider.LOCAL]: {
+        dimensions: appConfig.embeddings.dimensions,
+      },
+      [AIProvider.OLLAMA]: {
+        endpoint: appConfig.ollama.endpoint,
+        defaultModel: appConfig.ollama.model,
+        api: appConfig.ollama.api as LocalLLMApi,
+      },
+    };
+
+    const embeddingConfig: EmbeddingConfig = {
+      provider: this.parseProvider(appConfig.embeddings.provider, AIProvider.GEMINI),
+      model: appConfig.embeddings.model || undefined,
+      dimensions: appConfig.embeddings.dimensions,
+    };
+
+    const analysisConfig: AnalysisModelConfig = {
+      provider: this.parseProvider(appConfig.ai.analysisProvider, defaultProvider),
+      model: appConfig.ai.analysisModel || undefined,
     };
 
     return {
-      defaultProvider: AIProvider.GEMINI,
+      defaultProvider,
       providers,
       retry: defaultRetryConfig,
       fallback: defaultFallbackConfig,
+      circuitBreaker: defaultCircuitBreakerConfig,
+      embeddings: embeddingConfig,
+      analysis: analysisConfig,
+      routing: this.parseRouting(appConfig.ai.routes),
+      pricing: { ...defaultPricing, ...this.parsePricing(appConfig.ai.pricing) },
       timeout: 30000,
       enableHotReload: appConfig.env === 'development',
     };
   }
 
+  /**
+   * Map a provider name from the environment to a provider, unknown and empty names to a default
+   */
+  private parseProvider(value: string | undefined, defaultProvider: AIProvider): AIProvider {
+    return Object.values(AIProvider).includes(value as AIProvider)
+      ? (value as AIProvider)
+      : defaultProvider;
+  }
+
+  /**
+   * Parse fallback chains from JSON mapping tasks to routes
+   * A route is a provider name or an object, e.g.
+   * {"summary": [{"provider": "anthropic", "weight": 3}, "openai", "ollama"]}
+   */
+  private parseRouting(value: string | undefined): RoutingConfig {
+    if (!value?.trim()) {
+      return { chains: {} };
+    }
+
+    try {
+      const parsed = JSON.parse(value) as Record<string, (string | AIRoute)[]>;
+      const chains: RoutingConfig['chains'] = {};
+
+      for (const [task, routes] of Object.entries(parsed)) {
+        chains[task as AITaskType] = (Array.isArray(routes) ? routes : [routes]).map((route) =>
+          typeof route === 'string' ? { provider: route as AIProvider } : route
+        );
+      }
+
+      return { chains };
+    } catch (error) {
+      logger.error('AI_ROUTES is not valid JSON, using default routing', {
+        error: (error as Error).message,
+      });
+      return { chains: {} };
+    }
+  }
+
+  /**
+   * Parse prices from JSON mapping model name prefixes or providers to prices
+   */
+  private parsePricing(value: string | undefined): PricingConfig {
+    if (!value?.trim()) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(value) as PricingConfig;
+    } catch (error) {
+      logger.error('AI_PRICING is not valid JSON, using default prices', {
+        error: (error as Error).message,
+      });
+      return {};
+    }
+  }
+
   /**
    * Get current configuration
    */
@@ -109,6 +241,61 @@ export class AIConfigService extends EventEmitter {
     return { ...this.config.fallback };
   }
 
+  /**
+   * Get circuit breaker configuration
+   */
+  getCircuitBreakerConfig(): Readonly<CircuitBreakerConfig> {
+    return { ...this.config.circuitBreaker };
+  }
+
+  /**
+   * Get embedding configuration
+   */
+  getEmbeddingConfig(): Readonly<EmbeddingConfig> {
+    return { ...this.config.embeddings };
+  }
+
+  /**
+   * Get provider and model used for meeting analysis
+   */
+  getAnalysisConfig(): Readonly<AnalysisModelConfig> {
+    return { ...this.config.analysis };
+  }
+
+  /**
+   * Get the fallback chain configured for a task
+   * Analysis tasks without a chain use the analysis provider, other tasks the default chain.
+   * Empty when nothing is configured, leaving the choice to the caller.
+   */
+  getRoutes(task: AITaskType = AITaskType.DEFAULT): AIRoute[] {
+    const { chains } = this.config.routing;
+
+    if (chains[task]) {
+      return chains[task]!.map((route) => ({ ...route }));
+    }
+
+    if ([AITaskType.SUMMARY, AITaskType.SENTIMENT, AITaskType.ANALYSIS].includes(task)) {
+      return [{ ...this.config.analysis }];
+    }
+
+    return (chains[AITaskType.DEFAULT] ?? []).map((route) => ({ ...route }));
+  }
+
+  /**
+   * Get the price of a model
+   * The longest model name prefix wins, e.g. gpt-4o-mini-2024-07-18 is priced as gpt-4o-mini.
+   * Models without a price of their own use their provider's price, if any.
+   */
+  getModelPrice(provider: AIProvider, model: string): ModelPrice | undefined {
+    const { pricing } = this.config;
+    const prefix = Object.keys(pricing)
+      .filter((key) => model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+
+    const price = prefix ? pricing[prefix] : pricing[provider];
+    return price ? { ...price } : undefined;
+  }
+
   /**
    * Get default provider
    */
@@ -142,6 +329,26 @@ export class AIConfigService extends EventEmitter {
         ...this.config.fallback,
         ...updates.fallback,
       },
+      circuitBreaker: {
+        ...this.config.circuitBreaker,
+        ...updates.circuitBreaker,
+      },
+      embeddings: {
+        ...this.config.embeddings,
+        ...updates.embeddings,
+      },
+      analysis: {
+        ...this.config.analysis,
+        ...updates.analysis,
+      },
+      routing: {
+        ...this.config.routing,
+        ...updates.routing,
+      },
+      pricing: {
+        ...this.config.pricing,
+        ...updates.pricing,
+      },
     };
 
     logger.info('AI configuration updated', {
@@ -212,6 +419,15 @@ export class AIConfigService extends EventEmitter {
       case AIProvider.OPENAI:
         this.validateOpenAIConfig(config as OpenAIProviderConfig);
         break;
+      case AIProvider.LOCAL:
+        this.validateLocalConfig(config as LocalProviderConfig);
+        break;
+      case AIProvider.OLLAMA:
+        this.validateOllamaConfig(config as OllamaProviderConfig);
+        break;
+      case AIProvider.ANTHROPIC:
+        this.validateAnthropicConfig(config as AnthropicProviderConfig);
+        break;
       default:
         // Exhaustive check
         const _exhaustive: never = provider;
@@ -253,6 +469,54 @@ export class AIConfigService extends EventEmitter {
     }
   }
 
+  /**
+   * Validate Anthropic provider configuration
+   */
+  private validateAnthropicConfig(config: AnthropicProviderConfig): void {
+    // Anthropic API key is optional (can be disabled)
+    if (config.apiKey !== undefined && config.apiKey.trim().length === 0) {
+      throw new Error('Anthropic API key cannot be empty string');
+    }
+
+    if (config.endpoint) {
+      try {
+        new URL(config.endpoint);
+      } catch {
+        throw new Error(`Invalid Anthropic endpoint URL: ${config.endpoint}`);
+      }
+    }
+  }
+
+  /**
+   * Validate local provider configuration
+   */
+  private validateLocalConfig(config: LocalProviderConfig): void {
+    if (
+      config.dimensions !== undefined &&
+      (!Number.isInteger(config.dimensions) || config.dimensions <= 0)
+    ) {
+      throw new Error('Local provider dimensions must be a positive integer');
+    }
+  }
+
+  /**
+   * Validate Ollama provider configuration
+   */
+  private validateOllamaConfig(config: OllamaProviderConfig): void {
+    // No endpoint disables the provider
+    if (config.endpoint) {
+      try {
+        new URL(config.endpoint);
+      } catch {
+        throw new Error(`Invalid Ollama endpoint URL: ${config.endpoint}`);
+      }
+    }
+
+    if (config.api !== undefined && !['ollama', 'openai'].includes(config.api)) {
+      throw new Error(`Unknown local LLM API: ${config.api}. Use ollama or openai`);
+    }
+  }
+
   /**
    * Enable hot reload of configuration
    */
@@ -329,6 +593,14 @@ export class AIConfigService extends EventEmitter {
           apiKey: process.env.OPENAI_API_KEY,
           endpoint: process.env.OPENAI_ENDPOINT,
         },
+        anthropic: {
+          apiKey: process.env.ANTHROPIC_API_KEY,
+          endpoint: process.env.ANTHROPIC_ENDPOINT,
+        },
+        ollama: {
+          endpoint: process.env.OLLAMA_ENDPOINT?.replace(/\/$/, ''),
+          model: process.env.OLLAMA_MODEL || 'llama3.1',
+        },
       };
 
       // Update provider configurations using type-safe method
@@ -341,6 +613,21 @@ export class AIConfigService extends EventEmitter {
         endpoint: newAppConfig.openai.endpoint,
       });
 
+      this.updateProviderConfig(AIProvider.ANTHROPIC, {
+        apiKey: newAppConfig.anthropic.apiKey,
+        endpoint: newAppConfig.anthropic.endpoint,
+      });
+
+      this.updateProviderConfig(AIProvider.OLLAMA, {
+        endpoint: newAppConfig.ollama.endpoint,
+        defaultModel: newAppConfig.ollama.model,
+      });
+
+      this.updateConfig({
+        routing: this.parseRouting(process.env.AI_ROUTES),
+        pricing: this.parsePricing(process.env.AI_PRICING),
+      });
+
       logger.info('AI configuration reloaded successfully');
       this.emit('config:reloaded', this.config);
     } catch (error) {
@@ -358,9 +645,11 @@ export class AIConfigService extends EventEmitter {
     // Check if at least one provider is configured
     const geminiConfigured = !!this.config.providers[AIProvider.GEMINI].apiKey;
     const openaiConfigured = !!this.config.providers[AIProvider.OPENAI]?.apiKey;
+    const anthropicConfigured = !!this.config.providers[AIProvider.ANTHROPIC]?.apiKey;
+    const ollamaConfigured = !!this.config.providers[AIProvider.OLLAMA]?.endpoint;
 
-    if (!geminiConfigured && !openaiConfigured) {
-      errors.push('No AI provider configured. At least one provider API key is required.');
+    if (!geminiConfigured && !openaiConfigured && !anthropicConfigured && !ollamaConfigured) {
+      errors.push('No AI provider configured. Set a provider API key or a local LLM endpoint.');
     }
 
     // Check if default provider is configured
@@ -371,6 +660,25 @@ export class AIConfigService extends EventEmitter {
     if (defaultProvider === AIProvider.OPENAI && !openaiConfigured) {
       errors.push('Default provider (OpenAI) is not configured');
     }
+    if (defaultProvider === AIProvider.ANTHROPIC && !anthropicConfigured) {
+      errors.push('Default provider (Anthropic) is not configured');
+    }
+    if (defaultProvider === AIProvider.OLLAMA && !ollamaConfigured) {
+      errors.push('Default provider (Ollama) is not configured');
+    }
+    if (defaultProvider === AIProvider.LOCAL) {
+      errors.push('Default provider (local) only generates embeddings');
+    }
+
+    // The analysis provider must be able to chat
+    const analysisProvider = this.config.analysis.provider;
+    if (analysisProvider !== defaultProvider) {
+      if (analysisProvider === AIProvider.LOCAL) {
+        errors.push('Analysis provider (local) only generates embeddings');
+      } else if (!this.getProviderStatus()[analysisProvider]) {
+        errors.push(`Analysis provider (${analysisProvider}) is not configured`);
+      }
+    }
 
     // Validate retry configuration
     if (this.config.retry.maxRetries < 0) {
@@ -383,6 +691,39 @@ export class AIConfigService extends EventEmitter {
       errors.push('Retry maxDelay must be >= baseDelay');
     }
 
+    // Validate circuit breaker configuration
+    const circuitBreaker = this.config.circuitBreaker;
+    if (!(circuitBreaker.failureRateThreshold > 0 && circuitBreaker.failureRateThreshold <= 1)) {
+      errors.push('Circuit breaker failureRateThreshold must be > 0 and <= 1');
+    }
+    if (circuitBreaker.minimumRequests < 1) {
+      errors.push('Circuit breaker minimumRequests must be >= 1');
+    }
+    if (circuitBreaker.windowMs <= 0 || circuitBreaker.openDurationMs <= 0) {
+      errors.push('Circuit breaker windowMs and openDurationMs must be > 0');
+    }
+
+    errors.push(...this.validateRouting());
+
+    // Validate prices
+    for (const [key, price] of Object.entries(this.config.pricing)) {
+      const valid = [price?.input, price?.output].every(
+        (value) => typeof value === 'number' && value >= 0
+      );
+      if (!valid) {
+        errors.push(`Price of "${key}" must have input and output numbers >= 0`);
+      }
+    }
+
+    // Validate embedding dimensions
+    const embeddingDimensions = this.config.embeddings.dimensions;
+    if (
+      embeddingDimensions !== undefined &&
+      (!Number.isInteger(embeddingDimensions) || embeddingDimensions <= 0)
+    ) {
+      errors.push('Embedding dimensions must be a positive integer');
+    }
+
     // Validate timeout
     if (this.config.timeout <= 0) {
       errors.push('Timeout must be > 0');
@@ -394,6 +735,49 @@ export class AIConfigService extends EventEmitter {
     };
   }
 
+  /**
+   * Validate fallback chains
+   * Routes to providers that are not configured are allowed and skipped when requests are routed
+   */
+  private validateRouting(): string[] {
+    const errors: string[] = [];
+    const tasks = Object.values(AITaskType) as string[];
+    const providers = Object.values(AIProvider) as string[];
+
+    for (const [task, routes] of Object.entries(this.config.routing.chains)) {
+      if (!tasks.includes(task)) {
+        errors.push(`Unknown AI task "${task}" in routing. Use one of: ${tasks.join(', ')}`);
+        continue;
+      }
+
+      for (const route of routes ?? []) {
+        if (!providers.includes(route?.provider)) {
+          errors.push(`Unknown provider "${route?.provider}" in ${task} routing`);
+        } else if (route.provider === AIProvider.LOCAL) {
+          errors.push(`Local provider in ${task} routing only generates embeddings`);
+        }
+        const weight = route?.weight;
+        if (weight !== undefined && !(typeof weight === 'number' && weight >= 0)) {
+          errors.push(`Route weight in ${task} routing must be a number >= 0`);
+        }
+        if (
+          route?.costClass !== undefined &&
+          !Object.values(AICostClass).includes(route.costClass)
+        ) {
+          errors.push(`Unknown cost class "${route.costClass}" in ${task} routing`);
+        }
+        if (
+          route?.latencyClass !== undefined &&
+          !Object.values(AILatencyClass).includes(route.latencyClass)
+        ) {
+          errors.push(`Unknown latency class "${route.latencyClass}" in ${task} routing`);
+        }
+      }
+    }
+
+    return errors;
+  }
+
   /**
    * Get provider availability status
    */
@@ -401,6 +785,9 @@ export class AIConfigService extends EventEmitter {
     return {
       [AIProvider.GEMINI]: !!this.config.providers[AIProvider.GEMINI].apiKey,
       [AIProvider.OPENAI]: !!this.config.providers[AIProvider.OPENAI]?.apiKey,
+      [AIProvider.LOCAL]: true,
+      [AIProvider.OLLAMA]: !!this.config.providers[AIProvider.OLLAMA]?.endpoint,
+      [AIProvider.ANTHROPIC]: !!this.config.providers[AIProvider.ANTHROPIC]?.apiKey,
     };
   }
 
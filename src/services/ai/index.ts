@@ -5,9 +5,25 @@
 
 // Main service
 export { AIService, aiService } from './ai.service.js';
+export { CircuitBreakerService, circuitBreakerService } from './circuit-breaker.service.js';
+export {
+  AIUsageService,
+  aiUsageService,
+  type AIUsageOperation,
+  type AIUsageEntry,
+  type AIUsageReportOptions,
+  type MeetingAIUsage,
+} from './ai-usage.service.js';
 
 // Analysis service
 export { AIAnalysisService, aiAnalysisService } from './ai-analysis.service.js';
+export { AnalysisQueueService, analysisQueueService } from './analysis-queue.service.js';
+
+// Meeting chat service
+export { MeetingChatService, meetingChatService } from './meeting-chat.service.js';
+
+// Meeting series digest service
+export { SeriesDigestService, seriesDigestService } from './series-digest.service.js';
 
 // Configuration
 export { AIConfigService, aiConfigService } from './config/ai-config.service.js';
@@ -16,6 +32,9 @@ export { AIConfigService, aiConfigService } from './config/ai-config.service.js'
 export { BaseAIProvider } from './providers/base.provider.js';
 export { GeminiAIProvider } from './providers/gemini.provider.js';
 export { OpenAIProvider } from './providers/openai.provider.js';
+export { LocalAIProvider } from './providers/local.provider.js';
+export { OllamaAIProvider } from './providers/ollama.provider.js';
+export { AnthropicAIProvider } from './providers/anthropic.provider.js';
 
 // Types
 export {
@@ -27,16 +46,37 @@ export {
   AIChatRequest,
   AICompletionRequest,
   AIUsage,
+  AIUsageContext,
   AIResponse,
   AIStreamChunk,
+  AIEmbeddingRequest,
+  AIEmbeddingResponse,
   AIErrorType,
   AIError,
   RetryConfig,
   FallbackConfig,
+  CircuitBreakerConfig,
+  CircuitState,
+  CircuitStatus,
   AIServiceConfig,
   IAIProvider,
   GeminiProviderConfig,
   OpenAIProviderConfig,
+  AnthropicProviderConfig,
+  LocalProviderConfig,
+  OllamaProviderConfig,
+  LocalLLMApi,
+  EmbeddingConfig,
+  AnalysisModelConfig,
+  AIProviderStatus,
+  AITaskType,
+  AICostClass,
+  AILatencyClass,
+  AIRoutingPreference,
+  AIRoute,
+  RoutingConfig,
+  ModelPrice,
+  PricingConfig,
   ProviderConfigMap,
   ProviderConfigUpdate,
 } from './types/ai.types.js';
@@ -49,12 +89,24 @@ export {
   SentimentAnalysis,
   MeetingInsight,
   ActionItem,
+  MeetingDecision,
   MeetingTopic,
   SpeakerMetrics,
   ContentAnalysisResult,
   MeetingSummary,
+  SeriesDigest,
   AnalysisOptions,
   AnalysisSchema,
   AnalysisStatus,
   AnalysisJob,
 } from './types/analysis.types.js';
+
+// Chat types
+export {
+  MeetingChatTurn,
+  MeetingChatRequest,
+  MeetingChatSourceKind,
+  MeetingChatSource,
+  MeetingChatCitation,
+  MeetingChatAnswer,
+} from './types/chat.types.js';
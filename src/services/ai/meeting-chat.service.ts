@@ -0,0 +1,307 @@
+import { aiService } from './ai.service.js';
+import {
+  AIChatRequest,
+  AIMessage,
+  AIMessageRole,
+  AIStreamChunk,
+  AITaskType,
+  AIUsage,
+} from './types/ai.types.js';
+import {
+  MeetingChatAnswer,
+  MeetingChatCitation,
+  MeetingChatRequest,
+  MeetingChatSource,
+} from './types/chat.types.js';
+import { transcriptionRepository, analysisResultRepository } from '../../repositories/index.js';
+import { logger } from '../../utils/logger.js';
+
+// Common words that carry no meaning for retrieval
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been',
+  'before', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has',
+  'have', 'he', 'her', 'him', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'last',
+  'me', 'meeting', 'meetings', 'my', 'next', 'not', 'of', 'on', 'or', 'our', 'she', 'so',
+  'that', 'the', 'their', 'them', 'then', 'there', 'they', 'this', 'to', 'us', 'was', 'we',
+  'week', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'would',
+  'you', 'your',
+]);
+
+/**
+ * Streaming callbacks for chat answers
+ */
+export interface MeetingChatStreamHandlers {
+  onSources?: (sources: MeetingChatCitation[]) => void;
+  onChunk: (chunk: AIStreamChunk) => void;
+}
+
+/**
+ * Meeting Chat Service
+ * Answers questions about a user's meeting history, grounded in retrieved transcripts and summaries
+ */
+export class MeetingChatService {
+  private readonly DEFAULT_MAX_SOURCES = 12;
+  private readonly MAX_KEYWORDS = 12;
+  private readonly MAX_SUMMARY_SOURCES = 4;
+  private readonly MAX_SOURCE_LENGTH = 1200;
+  private readonly SUMMARY_WEIGHT = 1.5;
+  private readonly SPEAKER_MATCH_BONUS = 2;
+  private readonly NO_CONTEXT_ANSWER =
+    "I couldn't find anything in your meetings that answers this question.";
+
+  /**
+   * Answer a question in a single response
+   */
+  async ask(userId: string, request: MeetingChatRequest): Promise<MeetingChatAnswer> {
+    const sources = await this.retrieveSources(userId, request);
+
+    if (sources.length === 0) {
+      return { answer: this.NO_CONTEXT_ANSWER, citations: [], sources: [] };
+    }
+
+    const response = await aiService.chat(this.buildChatRequest(userId, request, sources));
+
+    return this.buildAnswer(response.content, sources, response.usage);
+  }
+
+  /**
+   * Answer a question as a stream of chunks
+   * Sources are emitted before the first chunk so clients can render citations as they appear
+   */
+  async streamAnswer(
+    userId: string,
+    request: MeetingChatRequest,
+    handlers: MeetingChatStreamHandlers
+  ): Promise<MeetingChatAnswer> {
+    const sources = await this.retrieveSources(userId, request);
+    handlers.onSources?.(sources.map((source) => this.toCitation(source)));
+
+    if (sources.length === 0) {
+      handlers.onChunk({
+        content: this.NO_CONTEXT_ANSWER,
+        provider: aiService.getCurrentProvider(),
+        isComplete: true,
+      });
+      return { answer: this.NO_CONTEXT_ANSWER, citations: [], sources: [] };
+    }
+
+    let answer = '';
+    let usage: AIUsage | undefined;
+
+    await aiService.streamChat(this.buildChatRequest(userId, request, sources), (chunk) => {
+      answer += chunk.content;
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+      handlers.onChunk(chunk);
+    });
+
+    return this.buildAnswer(answer, sources, usage);
+  }
+
+  /**
+   * Retrieve the passages most relevant to the question, numbered for citation
+   */
+  async retrieveSources(
+    userId: string,
+    request: MeetingChatRequest
+  ): Promise<MeetingChatSource[]> {
+    const keywords = this.extractKeywords(request.question);
+    const maxSources = request.maxSources || this.DEFAULT_MAX_SOURCES;
+    const scope = {
+      meetingIds: request.meetingIds,
+      startDate: request.startDate,
+      endDate: request.endDate,
+    };
+
+    const [segments, summaries] = await Promise.all([
+      transcriptionRepository.searchForUser(userId, keywords, scope),
+      analysisResultRepository.searchSummariesForUser(userId, keywords, scope),
+    ]);
+
+    const transcriptSources: MeetingChatSource[] = segments.map((segment) => ({
+      index: 0,
+      kind: 'transcript',
+      meetingId: segment.meetingId,
+      meetingTitle: segment.meeting.title,
+      speaker: segment.speakerName || undefined,
+      timestamp: segment.timestampStart || undefined,
+      transcriptionId: segment.id,
+      text: segment.text,
+      score:
+        this.scoreText(segment.text, keywords) +
+        (segment.speakerName && this.scoreText(segment.speakerName, keywords) > 0
+          ? this.SPEAKER_MATCH_BONUS
+          : 0),
+    }));
+
+    const summarySources: MeetingChatSource[] = summaries
+      .map((result) => ({
+        index: 0,
+        kind: 'summary' as const,
+        meetingId: result.meetingId,
+        meetingTitle: result.meeting.title,
+        analysisResultId: result.id,
+        text: this.truncate(result.summary || ''),
+        score: this.scoreText(result.summary || '', keywords) * this.SUMMARY_WEIGHT,
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.MAX_SUMMARY_SOURCES);
+
+    const sources = [...summarySources, ...transcriptSources]
+      .filter((source) => source.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxSources)
+      .map((source, i) => ({ ...source, index: i + 1 }));
+
+    logger.debug('Retrieved meeting chat sources', {
+      userId,
+      keywords,
+      candidates: segments.length + summaries.length,
+      sources: sources.length,
+    });
+
+    return sources;
+  }
+
+  /**
+   * Build chat request with the numbered sources in the system prompt
+   */
+  private buildChatRequest(
+    userId: string,
+    request: MeetingChatRequest,
+    sources: MeetingChatSource[]
+  ): AIChatRequest {
+    const messages: AIMessage[] = [
+      {
+        role: AIMessageRole.SYSTEM,
+        content: this.getSystemPrompt(sources),
+      },
+      ...(request.history || []).map((turn) => ({
+        role: turn.role === 'assistant' ? AIMessageRole.ASSISTANT : AIMessageRole.USER,
+        content: turn.content,
+      })),
+      {
+        role: AIMessageRole.USER,
+        content: request.question,
+      },
+    ];
+
+    return {
+      messages,
+      options: {
+        task: AITaskType.CHAT,
+        // A question about a single meeting is accounted to that meeting too
+        context: {
+          userId,
+          meetingId: request.meetingIds?.length === 1 ? request.meetingIds[0] : undefined,
+        },
+        temperature: 0.2,
+        maxTokens: 1024,
+      },
+    };
+  }
+
+  private getSystemPrompt(sources: MeetingChatSource[]): string {
+    const context = sources.map((source) => this.formatSource(source)).join('\n\n');
+
+    return `You are a meeting assistant answering questions about the user's past meetings.
+
+Answer using ONLY the numbered sources below. Cite every claim with the source number in square brackets, e.g. [2] or [1][3].
+If the sources do not contain the answer, say that you could not find it in the meetings. Do not guess.
+Keep answers concise and mention the meeting title when it helps.
+
+Sources:
+${context}`;
+  }
+
+  private formatSource(source: MeetingChatSource): string {
+    const details = [`meeting "${source.meetingTitle}"`];
+    if (source.kind === 'summary') {
+      details.push('meeting summary');
+    }
+    if (source.speaker) {
+      details.push(`speaker ${source.speaker}`);
+    }
+    if (source.timestamp) {
+      details.push(new Date(source.timestamp).toISOString());
+    }
+
+    return `[${source.index}] (${details.join(', ')})\n${source.text}`;
+  }
+
+  /**
+   * Collect the sources actually cited in the answer
+   */
+  private buildAnswer(
+    answer: string,
+    sources: MeetingChatSource[],
+    usage?: AIUsage
+  ): MeetingChatAnswer {
+    const cited = new Set<number>();
+    for (const match of answer.matchAll(/\[(\d+)\]/g)) {
+      cited.add(parseInt(match[1], 10));
+    }
+
+    return {
+      answer,
+      citations: sources
+        .filter((source) => cited.has(source.index))
+        .map((source) => this.toCitation(source)),
+      sources: sources.map((source) => this.toCitation(source)),
+      usage,
+    };
+  }
+
+  private toCitation(source: MeetingChatSource): MeetingChatCitation {
+    return {
+      index: source.index,
+      kind: source.kind,
+      meetingId: source.meetingId,
+      meetingTitle: source.meetingTitle,
+      speaker: source.speaker,
+      timestamp: source.timestamp,
+      transcriptionId: source.transcriptionId,
+      analysisResultId: source.analysisResultId,
+      text: source.text,
+    };
+  }
+
+  /**
+   * Extract search keywords from the question
+   */
+  private extractKeywords(question: string): string[] {
+    const words = question
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length > 2 && !STOP_WORDS.has(word));
+
+    return [...new Set(words)].slice(0, this.MAX_KEYWORDS);
+  }
+
+  /**
+   * Count keyword occurrences in text
+   */
+  private scoreText(text: string, keywords: string[]): number {
+    const lower = text.toLowerCase();
+
+    return keywords.reduce((score, keyword) => {
+      let count = 0;
+      let position = lower.indexOf(keyword);
+      while (position !== -1) {
+        count++;
+        position = lower.indexOf(keyword, position + keyword.length);
+      }
+      return score + count;
+    }, 0);
+  }
+
+  private truncate(text: string): string {
+    return text.length > this.MAX_SOURCE_LENGTH
+      ? `${text.slice(0, this.MAX_SOURCE_LENGTH)}...`
+      : text;
+  }
+}
+
+// Export singleton instance
+export const meetingChatService = new MeetingChatService();
@@ -0,0 +1,370 @@
+import axios, { AxiosInstance } from 'axios';
+import { Readable } from 'stream';
+import { BaseAIProvider } from './base.provider.js';
+import {
+  AIProvider,
+  AIModelConfig,
+  AICompletionRequest,
+  AIChatRequest,
+  AIResponse,
+  AIStreamChunk,
+  AIMessage,
+  AIMessageRole,
+  AIUsage,
+  AIError,
+  AIErrorType,
+} from '../types/ai.types.js';
+import { logger } from '../../../utils/logger.js';
+
+const DEFAULT_ENDPOINT = 'https://api.anthropic.com';
+const API_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 4096; // The Messages API has no default, every request must set one
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface AnthropicResponse {
+  model: string;
+  content: { type: string; text?: string }[];
+  stop_reason: string | null;
+  usage: AnthropicUsage;
+}
+
+interface AnthropicErrorBody {
+  type: 'error';
+  error: { type: string; message: string };
+}
+
+/**
+ * Server-sent event of a streamed message
+ */
+interface AnthropicStreamEvent {
+  type: string;
+  message?: { model: string; usage: AnthropicUsage };
+  delta?: { type?: string; text?: string; stop_reason?: string | null };
+  usage?: AnthropicUsage;
+  error?: { type: string; message: string };
+}
+
+/**
+ * Anthropic Provider
+ * Implementation for Anthropic's Messages API, used for Claude models
+ */
+export class AnthropicAIProvider extends BaseAIProvider {
+  readonly provider = AIProvider.ANTHROPIC;
+  protected readonly defaultModel = 'claude-sonnet-4-5';
+
+  private client: AxiosInstance | null = null;
+
+  /**
+   * Initialize Anthropic provider
+   */
+  async initialize(config: AIModelConfig): Promise<void> {
+    await super.initialize(config);
+    this.client = this.createClient();
+
+    logger.info('Anthropic provider initialized successfully', {
+      model: this.getModel(),
+      endpoint: this.config.endpoint || DEFAULT_ENDPOINT,
+    });
+  }
+
+  /**
+   * Update provider configuration, picking up a new API key or endpoint
+   */
+  updateConfig(config: Partial<AIModelConfig>): void {
+    super.updateConfig(config);
+    if (this.isInitialized) {
+      this.client = this.createClient();
+    }
+  }
+
+  /**
+   * Generate completion from prompt
+   */
+  async complete(request: AICompletionRequest): Promise<AIResponse> {
+    return this.chat({
+      messages: [{ role: AIMessageRole.USER, content: request.prompt }],
+      options: request.options,
+    });
+  }
+
+  /**
+   * Generate chat completion from messages
+   */
+  async chat(request: AIChatRequest): Promise<AIResponse> {
+    this.ensureInitialized();
+    this.logRequest('chat', request.options);
+
+    try {
+      const response = await this.client!.post<AnthropicResponse>(
+        '/v1/messages',
+        this.buildRequestBody(request),
+        { timeout: request.options?.timeout }
+      );
+
+      const aiResponse: AIResponse = {
+        content: response.data.content
+          .filter((block) => block.type === 'text')
+          .map((block) => block.text)
+          .join(''),
+        provider: this.provider,
+        model: response.data.model,
+        usage: this.extractUsage(response.data.usage),
+        finishReason: response.data.stop_reason || undefined,
+      };
+
+      this.logResponse('chat', aiResponse);
+      return aiResponse;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Stream chat completion
+   * Text arrives in content_block_delta events, token counts in message_start and message_delta
+   */
+  async streamChat(
+    request: AIChatRequest,
+    onChunk: (chunk: AIStreamChunk) => void
+  ): Promise<void> {
+    this.ensureInitialized();
+    this.logRequest('stream chat', request.options);
+
+    try {
+      const response = await this.client!.post<Readable>(
+        '/v1/messages',
+        { ...this.buildRequestBody(request), stream: true },
+        { responseType: 'stream', timeout: request.options?.timeout }
+      );
+
+      const usage: AnthropicUsage = {};
+      let completed = false;
+      for await (const event of this.readEvents(response.data)) {
+        switch (event.type) {
+          case 'message_start':
+            Object.assign(usage, event.message?.usage);
+            break;
+          case 'content_block_delta':
+            if (event.delta?.type === 'text_delta' && event.delta.text) {
+              onChunk({ content: event.delta.text, provider: this.provider, isComplete: false });
+            }
+            break;
+          case 'message_delta':
+            Object.assign(usage, event.usage);
+            break;
+          case 'message_stop':
+            completed = true;
+            onChunk({
+              content: '',
+              provider: this.provider,
+              isComplete: true,
+              usage: this.extractUsage(usage),
+            });
+            break;
+          case 'error':
+            // Errors after the stream started, such as overload, come as an event
+            throw this.mapApiError(event.error!.type, event.error!.message);
+        }
+      }
+
+      // A stream cut off mid-answer ends without message_stop, the answer is incomplete
+      if (!completed) {
+        throw new AIError(
+          'Anthropic stream ended before the message was complete',
+          AIErrorType.PROVIDER_ERROR,
+          this.provider
+        );
+      }
+
+      logger.debug('Anthropic stream chat completed');
+    } catch (error) {
+      throw error instanceof AIError ? error : this.handleError(error);
+    }
+  }
+
+  private createClient(): AxiosInstance {
+    return axios.create({
+      baseURL: this.config.endpoint || DEFAULT_ENDPOINT,
+      headers: {
+        'x-api-key': this.config.apiKey,
+        'anthropic-version': API_VERSION,
+        'content-type': 'application/json',
+      },
+    });
+  }
+
+  /**
+   * Build a Messages API request
+   * System prompts go in the top-level `system` field, the API has no system role
+   */
+  private buildRequestBody(request: AIChatRequest): Record<string, unknown> {
+    const system = [
+      request.options?.systemPrompt,
+      ...request.messages
+        .filter((message) => message.role === AIMessageRole.SYSTEM)
+        .map((message) => message.content),
+    ]
+      .filter((prompt): prompt is string => !!prompt)
+      .join('\n\n');
+
+    return {
+      model: this.getModel(request.options),
+      max_tokens: this.getMaxTokens(request.options) ?? DEFAULT_MAX_TOKENS,
+      system: system || undefined,
+      messages: this.mapMessages(request.messages),
+      temperature: Math.min(this.getTemperature(request.options), 1), // Anthropic allows 0 to 1
+      top_p: request.options?.topP ?? this.config.topP,
+      top_k: request.options?.topK ?? this.config.topK,
+    };
+  }
+
+  /**
+   * Map chat messages onto alternating user and assistant turns
+   * Consecutive messages from the same side are joined, as the API expects
+   */
+  private mapMessages(messages: AIMessage[]): AnthropicMessage[] {
+    const turns: AnthropicMessage[] = [];
+
+    for (const message of messages) {
+      if (message.role === AIMessageRole.SYSTEM) {
+        continue;
+      }
+
+      const role = message.role === AIMessageRole.ASSISTANT ? 'assistant' : 'user';
+      const previous = turns[turns.length - 1];
+      if (previous?.role === role) {
+        previous.content += `\n\n${message.content}`;
+      } else {
+        turns.push({ role, content: message.content });
+      }
+    }
+
+    return turns;
+  }
+
+  private extractUsage(usage: AnthropicUsage): AIUsage | undefined {
+    if (usage.input_tokens === undefined && usage.output_tokens === undefined) {
+      return undefined;
+    }
+
+    const promptTokens = usage.input_tokens ?? 0;
+    const completionTokens = usage.output_tokens ?? 0;
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
+  /**
+   * Parsed server-sent events of a streamed response body
+   */
+  private async *readEvents(stream: Readable): AsyncGenerator<AnthropicStreamEvent> {
+    stream.setEncoding('utf8');
+
+    let buffered = '';
+    for await (const data of stream) {
+      buffered += data;
+      const lines = buffered.split('\n');
+      buffered = lines.pop()!;
+      for (const line of lines) {
+        if (line.startsWith('data:')) {
+          yield JSON.parse(line.slice('data:'.length).trim()) as AnthropicStreamEvent;
+        }
+      }
+    }
+  }
+
+  /**
+   * Map an Anthropic error type onto the error types retry and fallback act on
+   * See https://docs.anthropic.com/en/api/errors
+   */
+  private mapApiError(type: string, message: string, error?: Error, status?: number): AIError {
+    switch (type) {
+      case 'authentication_error':
+      case 'permission_error':
+        return new AIError(
+          `Authentication failed for anthropic: ${message}`,
+          AIErrorType.AUTHENTICATION,
+          this.provider,
+          error,
+          status
+        );
+      case 'rate_limit_error':
+      case 'overloaded_error':
+        // Overload clears with backoff, the same as a rate limit
+        return new AIError(
+          `Anthropic rate limit exceeded: ${message}`,
+          AIErrorType.RATE_LIMIT,
+          this.provider,
+          error,
+          status
+        );
+      case 'invalid_request_error':
+      case 'not_found_error':
+      case 'request_too_large':
+        return new AIError(
+          `Invalid Anthropic request: ${message}`,
+          AIErrorType.INVALID_REQUEST,
+          this.provider,
+          error,
+          status
+        );
+      case 'timeout_error':
+        return new AIError(
+          `Request to anthropic timed out: ${message}`,
+          AIErrorType.TIMEOUT,
+          this.provider,
+          error,
+          status
+        );
+      default:
+        return new AIError(
+          `Anthropic API error: ${message}`,
+          AIErrorType.PROVIDER_ERROR,
+          this.provider,
+          error,
+          status
+        );
+    }
+  }
+
+  /**
+   * Override error handler for Anthropic API errors
+   */
+  protected handleError(error: unknown): AIError {
+    if (axios.isAxiosError(error) && error.response) {
+      const { status } = error.response;
+      const body = error.response.data as AnthropicErrorBody | undefined;
+
+      logger.error('Anthropic API error:', {
+        status,
+        type: body?.error?.type,
+        message: body?.error?.message,
+      });
+
+      // Streamed requests get no parsed body, so fall back to the status code
+      const type =
+        body?.error?.type ??
+        ({
+          400: 'invalid_request_error',
+          401: 'authentication_error',
+          403: 'permission_error',
+          404: 'not_found_error',
+          413: 'request_too_large',
+          429: 'rate_limit_error',
+          529: 'overloaded_error',
+        } as Record<number, string>)[status] ??
+        'api_error';
+
+      return this.mapApiError(type, body?.error?.message || error.message, error, status);
+    }
+
+    return super.handleError(error);
+  }
+}
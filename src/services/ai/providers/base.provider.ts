@@ -6,6 +6,8 @@ import {
   AIChatRequest,
   AIResponse,
   AIStreamChunk,
+  AIEmbeddingRequest,
+  AIEmbeddingResponse,
   AIError,
   AIErrorType,
   AIRequestOptions,
@@ -75,6 +77,33 @@ export abstract class BaseAIProvider implements IAIProvider {
     onChunk: (chunk: AIStreamChunk) => void
   ): Promise<void>;
 
+  /**
+   * Check if provider can generate embeddings
+   * Providers that implement `embed` override this
+   */
+  supportsEmbeddings(): boolean {
+    return false;
+  }
+
+  /**
+   * Generate embeddings for a batch of texts
+   */
+  async embed(_request: AIEmbeddingRequest): Promise<AIEmbeddingResponse> {
+    throw new AIError(
+      `${this.provider} provider does not support embeddings`,
+      AIErrorType.INVALID_REQUEST,
+      this.provider
+    );
+  }
+
+  /**
+   * List the models the provider can serve
+   * Hosted providers report the configured model without a network call
+   */
+  async listModels(): Promise<string[]> {
+    return [this.getModel()];
+  }
+
   /**
    * Validate provider configuration
    */
@@ -6,6 +6,8 @@ import {
   AIChatRequest,
   AIResponse,
   AIStreamChunk,
+  AIEmbeddingRequest,
+  AIEmbeddingResponse,
   AIMessageRole,
   AIRequestOptions,
   AIError,
@@ -20,6 +22,7 @@ import { logger } from '../../../utils/logger.js';
 export class GeminiAIProvider extends BaseAIProvider {
   readonly provider = AIProvider.GEMINI;
   protected readonly defaultModel = 'gemini-1.5-pro';
+  private readonly defaultEmbeddingModel = 'text-embedding-004';
 
   private client: GoogleGenAI | null = null;
 
@@ -229,6 +232,55 @@ export class GeminiAIProvider extends BaseAIProvider {
     return config;
   }
 
+  /**
+   * Check if provider can generate embeddings
+   */
+  supportsEmbeddings(): boolean {
+    return true;
+  }
+
+  /**
+   * Generate embeddings for a batch of texts
+   */
+  async embed(request: AIEmbeddingRequest): Promise<AIEmbeddingResponse> {
+    this.ensureInitialized();
+
+    try {
+      const model = request.model || this.defaultEmbeddingModel;
+      const result = await this.client!.models.embedContent({
+        model,
+        contents: request.input,
+        config: {
+          outputDimensionality: request.dimensions,
+        },
+      });
+
+      const embeddings = (result.embeddings || []).map((embedding) => embedding.values || []);
+
+      if (embeddings.length !== request.input.length) {
+        throw new AIError(
+          `Gemini returned ${embeddings.length} embeddings for ${request.input.length} inputs`,
+          AIErrorType.PROVIDER_ERROR,
+          this.provider
+        );
+      }
+
+      logger.debug('Gemini embeddings generated', { model, count: embeddings.length });
+
+      return {
+        embeddings,
+        provider: this.provider,
+        model,
+        dimensions: embeddings[0]?.length || 0,
+      };
+    } catch (error) {
+      if (error instanceof AIError) {
+        throw error;
+      }
+      throw this.handleError(error);
+    }
+  }
+
   /**
    * Map AI message role to Gemini role
    */
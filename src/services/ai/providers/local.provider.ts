@@ -0,0 +1,134 @@
+import { BaseAIProvider } from './base.provider.js';
+import {
+  AIProvider,
+  AIModelConfig,
+  AICompletionRequest,
+  AIChatRequest,
+  AIResponse,
+  AIStreamChunk,
+  AIEmbeddingRequest,
+  AIEmbeddingResponse,
+  AIError,
+  AIErrorType,
+} from '../types/ai.types.js';
+
+const DEFAULT_DIMENSIONS = 256;
+const BIGRAM_WEIGHT = 0.5;
+
+/**
+ * Local AI Provider
+ * Deterministic hashing embeddings that need no API key or network access.
+ * Meant for tests and offline development, it does not generate text.
+ */
+export class LocalAIProvider extends BaseAIProvider {
+  readonly provider = AIProvider.LOCAL;
+  protected readonly defaultModel = 'local-hashing-v1';
+
+  private readonly dimensions: number;
+
+  constructor(config: AIModelConfig, dimensions: number = DEFAULT_DIMENSIONS) {
+    super(config);
+    this.dimensions = dimensions;
+  }
+
+  /**
+   * Check if provider is configured
+   */
+  isConfigured(): boolean {
+    return this.isInitialized;
+  }
+
+  async complete(_request: AICompletionRequest): Promise<AIResponse> {
+    throw this.unsupported('Text completion');
+  }
+
+  async chat(_request: AIChatRequest): Promise<AIResponse> {
+    throw this.unsupported('Chat completion');
+  }
+
+  async streamChat(
+    _request: AIChatRequest,
+    _onChunk: (chunk: AIStreamChunk) => void
+  ): Promise<void> {
+    throw this.unsupported('Streaming chat');
+  }
+
+  /**
+   * Check if provider can generate embeddings
+   */
+  supportsEmbeddings(): boolean {
+    return true;
+  }
+
+  /**
+   * Generate embeddings by hashing words and word pairs into a fixed-size vector
+   * Texts sharing vocabulary get a high cosine similarity
+   */
+  async embed(request: AIEmbeddingRequest): Promise<AIEmbeddingResponse> {
+    this.ensureInitialized();
+
+    const dimensions = request.dimensions || this.dimensions;
+    const embeddings = request.input.map((text) => this.embedText(text, dimensions));
+
+    return {
+      embeddings,
+      provider: this.provider,
+      model: request.model || this.defaultModel,
+      dimensions,
+    };
+  }
+
+  private embedText(text: string, dimensions: number): number[] {
+    const vector = new Array<number>(dimensions).fill(0);
+    const tokens = text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((token) => token.length > 0);
+
+    tokens.forEach((token, i) => {
+      this.addFeature(vector, token, 1);
+      if (i > 0) {
+        this.addFeature(vector, `${tokens[i - 1]} ${token}`, BIGRAM_WEIGHT);
+      }
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+
+  /**
+   * Add a feature to its hashed bucket, using a hash bit as the sign to reduce collisions
+   */
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = this.hash(feature);
+    const index = hash % vector.length;
+    vector[index] += hash & 0x80000000 ? -weight : weight;
+  }
+
+  /**
+   * 32-bit FNV-1a hash
+   */
+  private hash(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  private unsupported(operation: string): AIError {
+    return new AIError(
+      `${operation} is not supported by the local provider`,
+      AIErrorType.INVALID_REQUEST,
+      this.provider
+    );
+  }
+
+  /**
+   * Local provider has no credentials to validate
+   */
+  protected async validateConfig(): Promise<void> {
+    return;
+  }
+}
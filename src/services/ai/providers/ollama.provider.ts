@@ -0,0 +1,410 @@
+import axios, { AxiosInstance } from 'axios';
+import { Readable } from 'stream';
+import { BaseAIProvider } from './base.provider.js';
+import {
+  AIProvider,
+  AIModelConfig,
+  AICompletionRequest,
+  AIChatRequest,
+  AIResponse,
+  AIStreamChunk,
+  AIRequestOptions,
+  AIUsage,
+  AIError,
+  AIErrorType,
+  LocalLLMApi,
+} from '../types/ai.types.js';
+import { logger } from '../../../utils/logger.js';
+
+// Local models on a CPU can take minutes to read a long transcript
+const REQUEST_TIMEOUT_MS = 300000;
+
+interface OllamaResponse {
+  model: string;
+  message?: { content: string };
+  response?: string;
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+interface OpenAICompatibleResponse {
+  model: string;
+  choices: {
+    text?: string;
+    message?: { content: string | null };
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }[];
+  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+}
+
+/**
+ * Ollama Provider
+ * Self-hosted LLM server, so transcripts never leave the customer's network.
+ * Speaks Ollama's native API or the OpenAI-compatible one served by llama.cpp and others.
+ */
+export class OllamaAIProvider extends BaseAIProvider {
+  readonly provider = AIProvider.OLLAMA;
+  protected readonly defaultModel = 'llama3.1';
+
+  private readonly api: LocalLLMApi;
+  private client: AxiosInstance | null = null;
+
+  constructor(config: AIModelConfig, api: LocalLLMApi = 'ollama') {
+    super(config);
+    this.api = api;
+  }
+
+  /**
+   * Initialize Ollama provider
+   */
+  async initialize(config: AIModelConfig): Promise<void> {
+    await super.initialize(config);
+    this.client = this.createClient();
+
+    logger.info('Ollama provider initialized successfully', {
+      model: this.getModel(),
+      endpoint: this.config.endpoint,
+      api: this.api,
+    });
+  }
+
+  /**
+   * Check if provider is configured
+   * Local servers need an endpoint rather than an API key
+   */
+  isConfigured(): boolean {
+    return this.isInitialized && !!this.config.endpoint;
+  }
+
+  /**
+   * Update provider configuration, reconnecting when the endpoint changes
+   */
+  updateConfig(config: Partial<AIModelConfig>): void {
+    super.updateConfig(config);
+    if (this.isInitialized) {
+      this.client = this.createClient();
+    }
+  }
+
+  /**
+   * Generate completion from prompt
+   */
+  async complete(request: AICompletionRequest): Promise<AIResponse> {
+    this.ensureInitialized();
+    this.logRequest('completion', request.options);
+
+    try {
+      const aiResponse =
+        this.api === 'openai'
+          ? this.fromOpenAI(
+              await this.post<OpenAICompatibleResponse>(
+                '/v1/completions',
+                { ...this.getOpenAIParams(request.options), prompt: request.prompt },
+                request.options
+              )
+            )
+          : this.fromOllama(
+              await this.post<OllamaResponse>(
+                '/api/generate',
+                {
+                  model: this.getModel(request.options),
+                  prompt: request.prompt,
+                  system: request.options?.systemPrompt,
+                  stream: false,
+                  options: this.getOllamaOptions(request.options),
+                },
+                request.options
+              )
+            );
+
+      this.logResponse('completion', aiResponse);
+      return aiResponse;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Generate chat completion from messages
+   */
+  async chat(request: AIChatRequest): Promise<AIResponse> {
+    this.ensureInitialized();
+    this.logRequest('chat', request.options);
+
+    try {
+      const aiResponse =
+        this.api === 'openai'
+          ? this.fromOpenAI(
+              await this.post<OpenAICompatibleResponse>(
+                '/v1/chat/completions',
+                { ...this.getOpenAIParams(request.options), messages: request.messages },
+                request.options
+              )
+            )
+          : this.fromOllama(
+              await this.post<OllamaResponse>(
+                '/api/chat',
+                {
+                  model: this.getModel(request.options),
+                  messages: request.messages,
+                  stream: false,
+                  options: this.getOllamaOptions(request.options),
+                },
+                request.options
+              )
+            );
+
+      this.logResponse('chat', aiResponse);
+      return aiResponse;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Stream chat completion
+   * Ollama streams one JSON object per line, OpenAI-compatible servers use server-sent events
+   */
+  async streamChat(
+    request: AIChatRequest,
+    onChunk: (chunk: AIStreamChunk) => void
+  ): Promise<void> {
+    this.ensureInitialized();
+    this.logRequest('stream chat', request.options);
+
+    try {
+      const isOpenAI = this.api === 'openai';
+      const response = await this.client!.post<Readable>(
+        isOpenAI ? '/v1/chat/completions' : '/api/chat',
+        isOpenAI
+          ? { ...this.getOpenAIParams(request.options), messages: request.messages, stream: true }
+          : {
+              model: this.getModel(request.options),
+              messages: request.messages,
+              stream: true,
+              options: this.getOllamaOptions(request.options),
+            },
+        { responseType: 'stream', timeout: request.options?.timeout }
+      );
+
+      let completed = false;
+      for await (const line of this.readLines(response.data)) {
+        if (isOpenAI) {
+          if (!line.startsWith('data:')) {
+            continue;
+          }
+          const data = line.slice('data:'.length).trim();
+          if (data === '[DONE]') {
+            break;
+          }
+
+          const chunk = JSON.parse(data) as OpenAICompatibleResponse;
+          const content = chunk.choices[0]?.delta?.content || '';
+          if (content) {
+            onChunk({ content, provider: this.provider, isComplete: false });
+          }
+          if (chunk.choices[0]?.finish_reason) {
+            completed = true;
+            onChunk({
+              content: '',
+              provider: this.provider,
+              isComplete: true,
+              usage: this.getOpenAIUsage(chunk),
+            });
+          }
+        } else {
+          const chunk = JSON.parse(line) as OllamaResponse;
+          if (chunk.error) {
+            throw new AIError(
+              `Ollama error: ${chunk.error}`,
+              AIErrorType.PROVIDER_ERROR,
+              this.provider
+            );
+          }
+          if (chunk.message?.content) {
+            onChunk({ content: chunk.message.content, provider: this.provider, isComplete: false });
+          }
+          if (chunk.done) {
+            completed = true;
+            onChunk({
+              content: '',
+              provider: this.provider,
+              isComplete: true,
+              usage: this.getOllamaUsage(chunk),
+            });
+          }
+        }
+      }
+
+      // Some servers close the stream without a finish reason
+      if (!completed) {
+        onChunk({ content: '', provider: this.provider, isComplete: true });
+      }
+
+      logger.debug('Ollama stream chat completed');
+    } catch (error) {
+      throw error instanceof AIError ? error : this.handleError(error);
+    }
+  }
+
+  /**
+   * List the models installed on the server
+   */
+  async listModels(): Promise<string[]> {
+    this.ensureInitialized();
+
+    try {
+      if (this.api === 'openai') {
+        const response = await this.client!.get<{ data: { id: string }[] }>('/v1/models');
+        return response.data.data.map((model) => model.id);
+      }
+
+      const response = await this.client!.get<{ models: { name: string }[] }>('/api/tags');
+      return response.data.models.map((model) => model.name);
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  private createClient(): AxiosInstance {
+    return axios.create({
+      baseURL: this.config.endpoint,
+      timeout: REQUEST_TIMEOUT_MS,
+      headers: this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {},
+    });
+  }
+
+  private async post<T>(path: string, body: object, options?: AIRequestOptions): Promise<T> {
+    const response = await this.client!.post<T>(path, body, { timeout: options?.timeout });
+    return response.data;
+  }
+
+  /**
+   * Sampling options in Ollama's naming
+   */
+  private getOllamaOptions(options?: AIRequestOptions): Record<string, number | undefined> {
+    return {
+      temperature: this.getTemperature(options),
+      num_predict: this.getMaxTokens(options),
+      top_p: options?.topP ?? this.config.topP,
+      top_k: options?.topK ?? this.config.topK,
+    };
+  }
+
+  private getOpenAIParams(options?: AIRequestOptions): Record<string, unknown> {
+    return {
+      model: this.getModel(options),
+      temperature: this.getTemperature(options),
+      max_tokens: this.getMaxTokens(options),
+      top_p: options?.topP ?? this.config.topP,
+    };
+  }
+
+  private fromOllama(response: OllamaResponse): AIResponse {
+    return {
+      content: response.message?.content ?? response.response ?? '',
+      provider: this.provider,
+      model: response.model,
+      usage: this.getOllamaUsage(response),
+      finishReason: response.done_reason,
+    };
+  }
+
+  private fromOpenAI(response: OpenAICompatibleResponse): AIResponse {
+    const choice = response.choices[0];
+    return {
+      content: choice?.message?.content ?? choice?.text ?? '',
+      provider: this.provider,
+      model: response.model,
+      usage: this.getOpenAIUsage(response),
+      finishReason: choice?.finish_reason || undefined,
+    };
+  }
+
+  private getOllamaUsage(response: OllamaResponse): AIUsage | undefined {
+    if (response.prompt_eval_count === undefined && response.eval_count === undefined) {
+      return undefined;
+    }
+
+    const promptTokens = response.prompt_eval_count ?? 0;
+    const completionTokens = response.eval_count ?? 0;
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
+  private getOpenAIUsage(response: OpenAICompatibleResponse): AIUsage | undefined {
+    return response.usage
+      ? {
+          promptTokens: response.usage.prompt_tokens,
+          completionTokens: response.usage.completion_tokens,
+          totalTokens: response.usage.total_tokens,
+        }
+      : undefined;
+  }
+
+  /**
+   * Non-empty lines of a streamed response body
+   */
+  private async *readLines(stream: Readable): AsyncGenerator<string> {
+    stream.setEncoding('utf8');
+
+    let buffered = '';
+    for await (const data of stream) {
+      buffered += data;
+      const lines = buffered.split('\n');
+      buffered = lines.pop()!;
+      for (const line of lines) {
+        if (line.trim()) {
+          yield line.trim();
+        }
+      }
+    }
+
+    if (buffered.trim()) {
+      yield buffered.trim();
+    }
+  }
+
+  /**
+   * Override error handler for errors reported by the server
+   */
+  protected handleError(error: unknown): AIError {
+    if (axios.isAxiosError(error) && error.response) {
+      const data = error.response.data as { error?: string | { message?: string } } | undefined;
+      const detail = typeof data?.error === 'string' ? data.error : data?.error?.message;
+
+      // Ollama answers 404 for models that have not been pulled
+      if (error.response.status === 404) {
+        return new AIError(
+          `Model not found on the local LLM server: ${detail || error.message}`,
+          AIErrorType.INVALID_REQUEST,
+          this.provider,
+          error,
+          404
+        );
+      }
+
+      return super.handleError(
+        Object.assign(error, { status: error.response.status, message: detail || error.message })
+      );
+    }
+
+    return super.handleError(error);
+  }
+
+  /**
+   * Validate Ollama configuration
+   */
+  protected async validateConfig(): Promise<void> {
+    if (!this.config.endpoint) {
+      throw new AIError(
+        `Endpoint not configured for ${this.provider}`,
+        AIErrorType.INVALID_REQUEST,
+        this.provider
+      );
+    }
+  }
+}
@@ -6,6 +6,8 @@ import {
   AIChatRequest,
   AIResponse,
   AIStreamChunk,
+  AIEmbeddingRequest,
+  AIEmbeddingResponse,
   AIMessageRole,
   AIError,
   AIErrorType,
@@ -19,6 +21,7 @@ import { logger } from '../../../utils/logger.js';
 export class OpenAIProvider extends BaseAIProvider {
   readonly provider = AIProvider.OPENAI;
   protected readonly defaultModel = 'gpt-4o-mini';
+  private readonly defaultEmbeddingModel = 'text-embedding-3-small';
 
   private client: OpenAI | null = null;
 
@@ -191,6 +194,53 @@ export class OpenAIProvider extends BaseAIProvider {
     }
   }
 
+  /**
+   * Check if provider can generate embeddings
+   */
+  supportsEmbeddings(): boolean {
+    return true;
+  }
+
+  /**
+   * Generate embeddings for a batch of texts
+   */
+  async embed(request: AIEmbeddingRequest): Promise<AIEmbeddingResponse> {
+    this.ensureInitialized();
+
+    try {
+      const model = request.model || this.defaultEmbeddingModel;
+      const response = await this.client!.embeddings.create({
+        model,
+        input: request.input,
+        dimensions: request.dimensions,
+      });
+
+      // The API may return items out of order, so sort by input index
+      const embeddings = [...response.data]
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+
+      logger.debug('OpenAI embeddings generated', {
+        model: response.model,
+        count: embeddings.length,
+      });
+
+      return {
+        embeddings,
+        provider: this.provider,
+        model,
+        dimensions: embeddings[0]?.length || 0,
+        usage: {
+          promptTokens: response.usage.prompt_tokens,
+          completionTokens: 0,
+          totalTokens: response.usage.total_tokens,
+        },
+      };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
   /**
    * Map AI message role to OpenAI role
    */
@@ -0,0 +1,192 @@
+import { AnalysisResult, Meeting } from '@prisma/client';
+import { aiService } from './ai.service.js';
+import { AIMessageRole, AITaskType } from './types/ai.types.js';
+import { AnalysisType, SeriesDigest } from './types/analysis.types.js';
+import { analysisResultRepository } from '../../repositories/index.js';
+import { cacheService } from '../cache.service.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Series Digest Service
+ * Compares the summaries of consecutive meetings in a series to say what changed since last time
+ */
+export class SeriesDigestService {
+  private readonly CACHE_PREFIX = 'series-digest:';
+  private readonly CACHE_TTL = 7 * 24 * 60 * 60; // Keys change whenever a summary is regenerated
+  private readonly MAX_LIST_ITEMS = 15;
+
+  /**
+   * Digest of the two latest meetings that have a summary
+   * Returns null until two meetings of the series have been summarized.
+   */
+  async getLatestDigest(seriesId: string, meetings: Meeting[]): Promise<SeriesDigest | null> {
+    if (meetings.length < 2) return null;
+
+    const summaries = await analysisResultRepository.findLatestForMeetings(
+      meetings.map((meeting) => meeting.id),
+      AnalysisType.MEETING_SUMMARY
+    );
+    const summaryByMeeting = new Map(summaries.map((summary) => [summary.meetingId, summary]));
+
+    const summarized = meetings
+      .filter((meeting) => summaryByMeeting.has(meeting.id))
+      .sort((a, b) => this.getMeetingTime(a).getTime() - this.getMeetingTime(b).getTime());
+
+    if (summarized.length < 2) return null;
+
+    const previous = summarized[summarized.length - 2];
+    const current = summarized[summarized.length - 1];
+    const previousSummary = summaryByMeeting.get(previous.id)!;
+    const currentSummary = summaryByMeeting.get(current.id)!;
+
+    const cacheKey = [
+      `${this.CACHE_PREFIX}${seriesId}`,
+      previousSummary.id,
+      previousSummary.updatedAt.getTime(),
+      currentSummary.id,
+      currentSummary.updatedAt.getTime(),
+    ].join(':');
+
+    return cacheService.getOrSet(
+      cacheKey,
+      () => this.generateDigest(seriesId, previous, previousSummary, current, currentSummary),
+      this.CACHE_TTL
+    );
+  }
+
+  /**
+   * Ask the AI provider for the differences between two summaries
+   */
+  private async generateDigest(
+    seriesId: string,
+    previous: Meeting,
+    previousSummary: AnalysisResult,
+    current: Meeting,
+    currentSummary: AnalysisResult
+  ): Promise<SeriesDigest> {
+    logger.info('Generating series digest', {
+      seriesId,
+      previousMeetingId: previous.id,
+      currentMeetingId: current.id,
+    });
+
+    const response = await aiService.chat({
+      messages: [
+        { role: AIMessageRole.SYSTEM, content: this.getSystemPrompt() },
+        {
+          role: AIMessageRole.USER,
+          content: [
+            this.formatSummary('Previous meeting', previous, previousSummary),
+            this.formatSummary('Latest meeting', current, currentSummary),
+            'What changed since the previous meeting?',
+          ].join('\n\n'),
+        },
+      ],
+      options: {
+        task: AITaskType.SUMMARY,
+        context: { meetingId: current.id },
+        temperature: 0.2,
+        maxTokens: 1500,
+      },
+    });
+
+    const data = this.parseResponse(response.content);
+
+    return {
+      seriesId,
+      previousMeetingId: previous.id,
+      currentMeetingId: current.id,
+      summary: typeof data.summary === 'string' ? data.summary : '',
+      changes: this.toStringList(data.changes),
+      newTopics: this.toStringList(data.newTopics),
+      droppedTopics: this.toStringList(data.droppedTopics),
+      metadata: {
+        generatedAt: new Date(),
+        modelUsed: response.model,
+      },
+    };
+  }
+
+  private getSystemPrompt(): string {
+    return `You compare two consecutive meetings of the same recurring series for someone who
+missed the latest one.
+
+Respond with a valid JSON object containing:
+- summary: 1-2 sentences on how things moved since the previous meeting
+- changes: array of concrete changes (progress, new decisions, changed plans, new blockers)
+- newTopics: array of topics discussed now that were not discussed before
+- droppedTopics: array of topics from the previous meeting that were not picked up again
+
+Only use the information given. Do not repeat points that stayed the same.`;
+  }
+
+  /**
+   * Render a stored summary as prompt text
+   */
+  private formatSummary(label: string, meeting: Meeting, summary: AnalysisResult): string {
+    const date = this.getMeetingTime(meeting).toISOString().slice(0, 10);
+    const lines = [`${label}: ${meeting.title} (${date})`];
+
+    if (summary.summary) {
+      lines.push(`Summary: ${summary.summary}`);
+    }
+
+    const keyPoints = this.toStringList(summary.keyPoints);
+    if (keyPoints.length > 0) {
+      lines.push('Key points:', ...keyPoints.map((point) => `- ${point}`));
+    }
+
+    const topics = this.toStringList(summary.topics);
+    if (topics.length > 0) {
+      lines.push(`Topics: ${topics.join(', ')}`);
+    }
+
+    const actionItems = this.toStringList(summary.actionItems);
+    if (actionItems.length > 0) {
+      lines.push('Action items:', ...actionItems.map((item) => `- ${item}`));
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Read a list of strings, or of objects with a name or description, from stored JSON
+   */
+  private toStringList(value: unknown): string[] {
+    if (!Array.isArray(value)) return [];
+
+    return value
+      .map((item) => {
+        if (typeof item === 'string') return item;
+        if (item && typeof item === 'object') {
+          const record = item as Record<string, unknown>;
+          const text = record.description ?? record.name ?? record.insight;
+          return typeof text === 'string' ? text : '';
+        }
+        return '';
+      })
+      .filter(Boolean)
+      .slice(0, this.MAX_LIST_ITEMS);
+  }
+
+  private parseResponse(content: string): Record<string, unknown> {
+    const fenced = content.match(/```(?:json)?\n?([\s\S]*?)\n?```/);
+    const json = fenced
+      ? fenced[1]
+      : content.slice(content.indexOf('{'), content.lastIndexOf('}') + 1);
+
+    try {
+      return JSON.parse(json);
+    } catch (error) {
+      logger.warn('Series digest response was not JSON, using it as the summary', { error });
+      return { summary: content.trim() };
+    }
+  }
+
+  private getMeetingTime(meeting: Meeting): Date {
+    return meeting.occurrenceAt ?? meeting.startedAt ?? meeting.scheduledAt ?? meeting.createdAt;
+  }
+}
+
+// Export singleton instance
+export const seriesDigestService = new SeriesDigestService();
@@ -9,6 +9,9 @@
 export enum AIProvider {
   GEMINI = 'gemini',
   OPENAI = 'openai',
+  LOCAL = 'local',
+  OLLAMA = 'ollama',
+  ANTHROPIC = 'anthropic',
 }
 
 /**
@@ -25,10 +28,60 @@ export interface AIModelConfig {
   endpoint?: string;
 }
 
+/**
+ * Kind of work a request does, used to pick its fallback chain
+ */
+export enum AITaskType {
+  DEFAULT = 'default', // Requests without a task, and tasks without a chain of their own
+  SUMMARY = 'summary',
+  SENTIMENT = 'sentiment',
+  ANALYSIS = 'analysis', // Insights, action items, decisions and speaker metrics
+  CHAT = 'chat',
+}
+
+/**
+ * Relative price of a route, cheapest first
+ */
+export enum AICostClass {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+}
+
+/**
+ * Relative response time of a route, fastest first
+ */
+export enum AILatencyClass {
+  FAST = 'fast',
+  STANDARD = 'standard',
+  SLOW = 'slow',
+}
+
+/**
+ * Limits on the routes a request may take
+ * Ignored when no route in the chain meets them
+ */
+export interface AIRoutingPreference {
+  maxCost?: AICostClass;
+  maxLatency?: AILatencyClass;
+}
+
+/**
+ * Whom a request is made for, recorded with its usage
+ * Requests for a meeting without a user are accounted to the meeting's owner
+ */
+export interface AIUsageContext {
+  userId?: string;
+  meetingId?: string;
+}
+
 /**
  * AI request options
  */
 export interface AIRequestOptions {
+  task?: AITaskType;
+  routing?: AIRoutingPreference;
+  context?: AIUsageContext;
   model?: string;
   temperature?: number;
   maxTokens?: number;
@@ -84,6 +137,8 @@ export interface AIUsage {
 
 /**
  * AI response
+ * Responses from AIService carry `metadata.attemptedProviders`, in the order they were tried,
+ * and `metadata.succeededProvider`
  */
 export interface AIResponse {
   content: string;
@@ -104,6 +159,28 @@ export interface AIStreamChunk {
   usage?: AIUsage;
 }
 
+/**
+ * AI embedding request
+ */
+export interface AIEmbeddingRequest {
+  input: string[];
+  model?: string;
+  dimensions?: number;
+  context?: AIUsageContext;
+}
+
+/**
+ * AI embedding response
+ * Vectors are returned in the same order as the input texts
+ */
+export interface AIEmbeddingResponse {
+  embeddings: number[][];
+  provider: AIProvider;
+  model: string;
+  dimensions: number;
+  usage?: AIUsage;
+}
+
 /**
  * AI error types
  */
@@ -114,6 +191,7 @@ export enum AIErrorType {
   PROVIDER_ERROR = 'provider_error',
   NETWORK_ERROR = 'network_error',
   TIMEOUT = 'timeout',
+  CIRCUIT_OPEN = 'circuit_open', // Skipped without a request, the provider's circuit breaker is open
   UNKNOWN = 'unknown',
 }
 
@@ -155,6 +233,77 @@ export interface FallbackConfig {
   fallbackOnErrors: AIErrorType[];
 }
 
+/**
+ * Circuit breaker configuration
+ * Breakers open on the share of failed requests to a provider within a sliding window
+ */
+export interface CircuitBreakerConfig {
+  enabled: boolean;
+  failureRateThreshold: number; // Between 0 and 1
+  minimumRequests: number; // Requests in the window before the failure rate is acted on
+  windowMs: number;
+  openDurationMs: number; // Time an open breaker skips the provider before a trial request
+  tripOnErrors: AIErrorType[]; // Other errors mean the provider answered and count as successes
+}
+
+/**
+ * Circuit breaker state
+ * - closed: requests go through
+ * - open: the provider is skipped
+ * - half_open: a single trial request decides whether to close or open again
+ */
+export enum CircuitState {
+  CLOSED = 'closed',
+  OPEN = 'open',
+  HALF_OPEN = 'half_open',
+}
+
+/**
+ * Circuit breaker state of a provider with its recent requests
+ */
+export interface CircuitStatus {
+  state: CircuitState;
+  openedAt?: string;
+  retryAt?: string; // When an open breaker lets a trial request through
+  requests: number; // Within the window
+  failures: number;
+  errorRate: number;
+  errors: Partial<Record<AIErrorType, number>>;
+}
+
+/**
+ * Provider and model a request can be sent to
+ */
+export interface AIRoute {
+  provider: AIProvider;
+  model?: string; // The provider's default model when not set
+  weight?: number; // Weighted routes share first attempts, e.g. to A/B test models
+  costClass?: AICostClass; // Medium when not set
+  latencyClass?: AILatencyClass; // Standard when not set
+}
+
+/**
+ * Routing configuration
+ * Each task has an ordered fallback chain, tried until a provider succeeds
+ */
+export interface RoutingConfig {
+  chains: Partial<Record<AITaskType, AIRoute[]>>;
+}
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Prices by model name prefix or provider name
+ * e.g. {"gpt-4o-mini": {"input": 0.15, "output": 0.6}, "ollama": {"input": 0, "output": 0}}
+ */
+export type PricingConfig = Record<string, ModelPrice>;
+
 /**
  * Gemini provider configuration
  */
@@ -172,6 +321,58 @@ export interface OpenAIProviderConfig {
   endpoint?: string;
 }
 
+/**
+ * Anthropic provider configuration
+ */
+export interface AnthropicProviderConfig {
+  apiKey?: string;
+  defaultModel?: string;
+  endpoint?: string;
+}
+
+/**
+ * Local provider configuration
+ * Deterministic hashing embeddings, no network access or API key needed
+ */
+export interface LocalProviderConfig {
+  dimensions?: number;
+}
+
+/**
+ * API spoken by a local LLM server
+ * `ollama` is Ollama's native API, `openai` the OpenAI-compatible one served by
+ * llama.cpp, vLLM, LM Studio and Ollama itself
+ */
+export type LocalLLMApi = 'ollama' | 'openai';
+
+/**
+ * Ollama provider configuration
+ * Self-hosted LLM server, enabled once an endpoint is set
+ */
+export interface OllamaProviderConfig {
+  endpoint?: string; // Server root, e.g. http://localhost:11434
+  defaultModel?: string;
+  api?: LocalLLMApi;
+  apiKey?: string; // Only for servers behind an authenticating proxy
+}
+
+/**
+ * Embedding configuration
+ */
+export interface EmbeddingConfig {
+  provider: AIProvider;
+  model?: string;
+  dimensions?: number;
+}
+
+/**
+ * Provider and model meeting analysis runs on
+ */
+export interface AnalysisModelConfig {
+  provider: AIProvider;
+  model?: string; // The provider's default model when not set
+}
+
 /**
  * Provider configuration map
  * Maps each AIProvider enum to its specific configuration type
@@ -179,6 +380,9 @@ export interface OpenAIProviderConfig {
 export type ProviderConfigMap = {
   [AIProvider.GEMINI]: GeminiProviderConfig;
   [AIProvider.OPENAI]: OpenAIProviderConfig;
+  [AIProvider.LOCAL]: LocalProviderConfig;
+  [AIProvider.OLLAMA]: OllamaProviderConfig;
+  [AIProvider.ANTHROPIC]: AnthropicProviderConfig;
 };
 
 /**
@@ -195,10 +399,26 @@ export interface AIServiceConfig {
   providers: ProviderConfigMap;
   retry: RetryConfig;
   fallback: FallbackConfig;
+  embeddings: EmbeddingConfig;
+  analysis: AnalysisModelConfig;
+  routing: RoutingConfig;
+  circuitBreaker: CircuitBreakerConfig;
+  pricing: PricingConfig;
   timeout: number;
   enableHotReload: boolean;
 }
 
+/**
+ * Availability of a provider, as reported by `AIService.getProviderStatus`
+ */
+export interface AIProviderStatus {
+  configured: boolean; // Credentials or endpoint are set
+  available: boolean; // Registered and ready to take requests
+  healthy?: boolean; // Answered a model listing, only checked when available
+  models?: string[];
+  error?: string;
+}
+
 /**
  * AI provider interface
  */
@@ -233,6 +453,22 @@ export interface IAIProvider {
     onChunk: (chunk: AIStreamChunk) => void
   ): Promise<void>;
 
+  /**
+   * Check if provider can generate embeddings
+   */
+  supportsEmbeddings(): boolean;
+
+  /**
+   * Generate embeddings for a batch of texts
+   */
+  embed(request: AIEmbeddingRequest): Promise<AIEmbeddingResponse>;
+
+  /**
+   * List the models the provider can serve
+   * Doubles as a health check for providers that ask the server
+   */
+  listModels(): Promise<string[]>;
+
   /**
    * Update provider configuration
    */
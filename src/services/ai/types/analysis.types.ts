@@ -1,3 +1,5 @@
+import { AnalysisResult } from '@prisma/client';
+
 /**
  * AI Analysis Service Types
  * Type definitions for meeting content analysis, sentiment analysis, and summary generation
@@ -72,6 +74,21 @@ export interface ActionItem {
   context: string;
 }
 
+/**
+ * Decision made in a meeting
+ */
+export interface MeetingDecision {
+  description: string;
+  participants: string[];
+  rationale: string;
+  confidence: ConfidenceScore;
+  context: string;
+  relatedDecisions: {
+    decisionId: string; // Earlier decision from the user's previous meetings
+    relation: 'revisits' | 'supersedes';
+  }[];
+}
+
 /**
  * Topic detected in meeting
  */
@@ -92,6 +109,7 @@ export interface SpeakerMetrics {
   speakingTime: number; // in seconds
   speakingPercentage: number; // 0-100
   averageConfidence: number;
+  speakerConfidence?: number | null; // Mean diarization confidence, null for labelled speakers
   sentimentDistribution: {
     positive: number;
     neutral: number;
@@ -129,6 +147,7 @@ export interface MeetingSummary {
   keyPoints: string[];
   actionItems: ActionItem[];
   decisions: string[];
+  decisionDetails: MeetingDecision[];
   speakerMetrics: SpeakerMetrics[];
   sentiment: SentimentAnalysis;
   topics: MeetingTopic[];
@@ -141,6 +160,64 @@ export interface MeetingSummary {
   };
 }
 
+/**
+ * What changed between two consecutive meetings of a series
+ */
+export interface SeriesDigest {
+  seriesId: string;
+  previousMeetingId: string;
+  currentMeetingId: string;
+  summary: string;
+  changes: string[];
+  newTopics: string[];
+  droppedTopics: string[];
+  metadata: {
+    generatedAt: Date;
+    modelUsed: string;
+  };
+}
+
+/**
+ * Speaker metrics analysis result
+ */
+export interface SpeakerMetricsResult {
+  meetingId: string;
+  speakerMetrics: SpeakerMetrics[];
+  metadata: {
+    analyzedAt: Date;
+    participantCount: number;
+    totalDuration: number;
+  };
+}
+
+/**
+ * Action item extraction result
+ */
+export interface ActionItemsResult {
+  meetingId: string;
+  actionItems: ActionItem[];
+  metadata: {
+    analyzedAt: Date;
+    transcriptionSegments: number;
+    modelUsed: string;
+  };
+}
+
+/**
+ * Result of running a single analysis type
+ */
+export type AnalysisRunResult =
+  | ContentAnalysisResult
+  | SentimentAnalysis
+  | MeetingSummary
+  | SpeakerMetricsResult
+  | ActionItemsResult;
+
+/**
+ * Stored analysis result, stale when the transcript changed after it ran
+ */
+export type StoredAnalysisResult = AnalysisResult & { stale: boolean };
+
 /**
  * Analysis request options
  */
@@ -170,6 +247,7 @@ export enum AnalysisStatus {
   IN_PROGRESS = 'in_progress',
   COMPLETED = 'completed',
   FAILED = 'failed',
+  CANCELLED = 'cancelled',
 }
 
 /**
@@ -178,10 +256,16 @@ export enum AnalysisStatus {
 export interface AnalysisJob {
   jobId: string;
   meetingId: string;
+  userId: string;
   status: AnalysisStatus;
   analysisTypes: AnalysisType[];
-  startedAt: Date;
+  options?: Omit<AnalysisOptions, 'analysisTypes'>;
+  attempts: number;
+  maxAttempts: number;
+  createdAt: Date;
+  startedAt?: Date;
+  heartbeatAt?: Date; // Last progress of the worker processing the job
   completedAt?: Date;
   error?: string;
-  result?: ContentAnalysisResult | MeetingSummary;
+  results: Partial<Record<AnalysisType, AnalysisRunResult>>;
 }
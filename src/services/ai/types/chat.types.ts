@@ -0,0 +1,62 @@
+/**
+ * Meeting Chat Types
+ * Type definitions for asking questions across a user's meetings
+ */
+
+import { AIUsage } from './ai.types.js';
+
+/**
+ * Previous turn of the conversation
+ */
+export interface MeetingChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Question about the user's meetings
+ */
+export interface MeetingChatRequest {
+  question: string;
+  history?: MeetingChatTurn[];
+  meetingIds?: string[];
+  startDate?: Date;
+  endDate?: Date;
+  maxSources?: number;
+}
+
+/**
+ * Kind of content a source was retrieved from
+ */
+export type MeetingChatSourceKind = 'transcript' | 'summary';
+
+/**
+ * Retrieved passage the answer can cite
+ */
+export interface MeetingChatSource {
+  index: number; // Citation number used in the answer, e.g. [1]
+  kind: MeetingChatSourceKind;
+  meetingId: string;
+  meetingTitle: string;
+  speaker?: string;
+  timestamp?: Date;
+  transcriptionId?: string;
+  analysisResultId?: string;
+  text: string;
+  score: number;
+}
+
+/**
+ * Citation returned to the client
+ */
+export type MeetingChatCitation = Omit<MeetingChatSource, 'score'>;
+
+/**
+ * Complete chat answer
+ */
+export interface MeetingChatAnswer {
+  answer: string;
+  citations: MeetingChatCitation[];
+  sources: MeetingChatCitation[];
+  usage?: AIUsage;
+}
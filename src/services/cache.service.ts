@@ -52,6 +52,23 @@ export class CacheService {
     }
   }
 
+  /**
+   * Set value only if the key does not exist yet
+   * Returns false when the key is already present
+   */
+  async setIfNotExists(key: string, value: unknown, ttlSeconds: number): Promise<boolean> {
+    try {
+      const result = await this.getRedisClient().set(key, JSON.stringify(value), {
+        NX: true,
+        EX: ttlSeconds,
+      });
+      return result === 'OK';
+    } catch (error) {
+      logger.error(`Cache setIfNotExists error for key ${key}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Delete value from cache
    */
@@ -276,6 +293,98 @@ export class CacheService {
     }
   }
 
+  /**
+   * Push value onto the head of a list
+   */
+  async lPush(key: string, value: unknown): Promise<number> {
+    try {
+      return await this.getRedisClient().lPush(key, JSON.stringify(value));
+    } catch (error) {
+      logger.error(`Cache lPush error for key ${key}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pop value from the tail of a list
+   */
+  async rPop<T>(key: string): Promise<T | null> {
+    try {
+      const value = await this.getRedisClient().rPop(key);
+      if (!value) return null;
+
+      return JSON.parse(value) as T;
+    } catch (error) {
+      logger.error(`Cache rPop error for key ${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Move a value from the tail of one list to the head of another, atomically
+   */
+  async lMove<T>(source: string, destination: string): Promise<T | null> {
+    try {
+      const value = await this.getRedisClient().lMove(source, destination, 'RIGHT', 'LEFT');
+      if (!value) return null;
+
+      return JSON.parse(value) as T;
+    } catch (error) {
+      logger.error(`Cache lMove error for key ${source}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get every value of a list
+   */
+  async lRange<T>(key: string): Promise<T[]> {
+    try {
+      const values = await this.getRedisClient().lRange(key, 0, -1);
+      return values.map((value) => JSON.parse(value) as T);
+    } catch (error) {
+      logger.error(`Cache lRange error for key ${key}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Remove every occurrence of a value from a list
+   */
+  async lRem(key: string, value: unknown): Promise<number> {
+    try {
+      return await this.getRedisClient().lRem(key, 0, JSON.stringify(value));
+    } catch (error) {
+      logger.error(`Cache lRem error for key ${key}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get list length
+   */
+  async lLen(key: string): Promise<number> {
+    try {
+      return await this.getRedisClient().lLen(key);
+    } catch (error) {
+      logger.error(`Cache lLen error for key ${key}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Publish message to a pub/sub channel
+   * Returns the number of subscribers that received it
+   */
+  async publish(channel: string, message: unknown): Promise<number> {
+    try {
+      return await this.getRedisClient().publish(channel, JSON.stringify(message));
+    } catch (error) {
+      logger.error(`Cache publish error for channel ${channel}:`, error);
+      return 0;
+    }
+  }
+
   /**
    * Clear all cache (use with caution)
    */
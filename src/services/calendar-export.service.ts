@@ -0,0 +1,144 @@
+import { randomBytes } from 'crypto';
+import { AnalysisResult } from '@prisma/client';
+import { meetingRepository, userRepository } from '../repositories/index.js';
+import { MeetingForCalendar } from '../types/meeting.types.js';
+import { ActionItemStatus } from '../types/action-item.types.js';
+import { AnalysisType } from './ai/types/analysis.types.js';
+import { AppError } from '../middlewares/error-handler.js';
+import { ICalExportEvent, ICalUtil } from '../utils/ical.js';
+
+/**
+ * Calendar Export Service
+ * Writes meetings as iCalendar events, for downloads and the subscribable per-user feed
+ */
+export class CalendarExportService {
+  private readonly FEED_PAST_DAYS = 90;
+  private readonly FEED_MAX_EVENTS = 1000;
+  private readonly DEFAULT_DURATION_MINUTES = 60;
+
+  /**
+   * Get the user's feed token, creating it on first use
+   */
+  async getFeedToken(userId: string): Promise<string> {
+    const user = await userRepository.findById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    return user.calendarFeedToken || this.rotateFeedToken(userId);
+  }
+
+  /**
+   * Replace the user's feed token, so links shared earlier stop working
+   */
+  async rotateFeedToken(userId: string): Promise<string> {
+    const token = randomBytes(24).toString('base64url');
+    await userRepository.update(userId, { calendarFeedToken: token });
+    return token;
+  }
+
+  /**
+   * Render the calendar of the user a feed token belongs to
+   * Covers meetings from the last 90 days onwards.
+   */
+  async renderFeed(token: string): Promise<string> {
+    const user = await userRepository.findByCalendarFeedToken(token);
+    if (!user) {
+      throw new AppError('Calendar feed not found', 404);
+    }
+
+    const since = new Date(Date.now() - this.FEED_PAST_DAYS * 24 * 60 * 60 * 1000);
+    const meetings = await meetingRepository.findForCalendar(user.id, since, this.FEED_MAX_EVENTS);
+
+    return ICalUtil.serialize({
+      name: 'CogniNote meetings',
+      events: meetings.map((meeting) => this.toEvent(meeting)),
+    });
+  }
+
+  /**
+   * Render a single meeting as a calendar file
+   */
+  renderMeeting(meeting: MeetingForCalendar): string {
+    return ICalUtil.serialize({ events: [this.toEvent(meeting)] });
+  }
+
+  private toEvent(meeting: MeetingForCalendar): ICalExportEvent {
+    const start = meeting.startedAt ?? meeting.scheduledAt ?? meeting.createdAt;
+    const durationMinutes = meeting.series?.durationMinutes ?? this.DEFAULT_DURATION_MINUTES;
+    const end =
+      meeting.endedAt && meeting.endedAt > start
+        ? meeting.endedAt
+        : new Date(start.getTime() + durationMinutes * 60 * 1000);
+
+    return {
+      uid: `${meeting.id}@cogninote`,
+      summary: meeting.title,
+      description: this.buildDescription(meeting),
+      location: meeting.meetingUrl ?? undefined,
+      url: meeting.meetingUrl ?? undefined,
+      start,
+      end,
+      status: meeting.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+      lastModified: meeting.updatedAt,
+    };
+  }
+
+  /**
+   * Event description: the meeting's own description, its status and join link and, once the
+   * meeting is over, its summary and action items
+   */
+  private buildDescription(meeting: MeetingForCalendar): string {
+    const sections: string[] = [];
+
+    if (meeting.description) sections.push(meeting.description);
+
+    const details = [`Status: ${meeting.status}`];
+    if (meeting.meetingUrl) details.push(`Join: ${meeting.meetingUrl}`);
+    sections.push(details.join('\n'));
+
+    if (meeting.status !== 'completed') return sections.join('\n\n');
+
+    const summary = this.getSummary(meeting);
+    if (summary?.summary) sections.push(`Summary:\n${summary.summary}`);
+
+    const actionItems = this.formatActionItems(meeting);
+    if (actionItems.length > 0) sections.push(`Action items:\n${actionItems.join('\n')}`);
+
+    return sections.join('\n\n');
+  }
+
+  private getSummary(meeting: MeetingForCalendar): AnalysisResult | undefined {
+    return meeting.analysisResults?.find(
+      (result) => result.analysisType === AnalysisType.MEETING_SUMMARY
+    );
+  }
+
+  private formatActionItems(meeting: MeetingForCalendar): string[] {
+    if (meeting.actionItems?.length) {
+      return meeting.actionItems.map((item) => {
+        const details = [
+          item.owner ? `owner: ${item.owner}` : null,
+          item.dueDate ? `due: ${item.dueDate.toISOString().slice(0, 10)}` : null,
+        ].filter(Boolean);
+        const done = item.status === ActionItemStatus.DONE ? 'x' : ' ';
+        const suffix = details.length > 0 ? ` (${details.join(', ')})` : '';
+        return `- [${done}] ${item.description}${suffix}`;
+      });
+    }
+
+    // Summaries from before action items were tracked only have the extracted JSON
+    const extracted = this.getSummary(meeting)?.actionItems;
+    if (!Array.isArray(extracted)) return [];
+
+    return extracted
+      .map((item) =>
+        item && typeof item === 'object' && 'description' in item ? item.description : item
+      )
+      .filter((description): description is string => typeof description === 'string')
+      .map((description) => `- ${description}`);
+  }
+}
+
+// Export singleton instance
+export const calendarExportService = new CalendarExportService();
@@ -0,0 +1,459 @@
+import axios from 'axios';
+import { CalendarFeed, Meeting } from '@prisma/client';
+import {
+  meetingRepository,
+  calendarFeedRepository,
+  CreateMeetingData,
+  UpdateMeetingData,
+} from '../repositories/index.js';
+import { meetingService } from './meeting.service.js';
+import { meetingBotService } from './recall-ai/meeting-bot.service.js';
+import { CalendarImportResult } from '../types/calendar.types.js';
+import { AppError } from '../middlewares/error-handler.js';
+import { logger } from '../utils/logger.js';
+import { ICalCalendar, ICalEvent, ICalParseError, ICalUtil } from '../utils/ical.js';
+import { RecurrenceRuleError } from '../utils/recurrence.js';
+import { NetworkUtil } from '../utils/network.util.js';
+
+/**
+ * A single meeting read from a calendar event
+ */
+interface ImportedOccurrence {
+  externalUid: string;
+  title: string;
+  description?: string;
+  meetingUrl?: string;
+  platform?: string;
+  scheduledAt: Date;
+  cancelled: boolean;
+}
+
+// Meetings that already started are history and are never changed by an import
+const IMPORT_MUTABLE_STATUSES = ['scheduled', 'cancelled'];
+
+/**
+ * Calendar Import Service
+ * Creates and updates meetings from iCalendar files and registered ICS feeds
+ */
+export class CalendarImportService {
+  private readonly PAST_DAYS = 30;
+  private readonly FUTURE_DAYS = 90;
+  private readonly SYNC_INTERVAL_MINUTES = 60;
+  private readonly FETCH_TIMEOUT_MS = 15000;
+  private readonly MAX_FEED_BYTES = 5 * 1024 * 1024;
+  private readonly MAX_REDIRECTS = 5;
+
+  /**
+   * Import the events of a calendar as meetings
+   * Events are matched to earlier imports by UID, so re-importing updates meetings instead of
+   * duplicating them. Only events from 30 days ago up to 90 days ahead are imported.
+   */
+  async importCalendar(
+    userId: string,
+    content: string,
+    options: { feedId?: string } = {}
+  ): Promise<CalendarImportResult> {
+    const calendar = this.parseCalendar(content);
+    const now = new Date();
+    const from = new Date(now.getTime() - this.PAST_DAYS * 24 * 60 * 60 * 1000);
+    const to = new Date(now.getTime() + this.FUTURE_DAYS * 24 * 60 * 60 * 1000);
+
+    const result: CalendarImportResult = {
+      calendarName: calendar.name,
+      created: 0,
+      updated: 0,
+      cancelled: 0,
+      skipped: 0,
+      warnings: [...calendar.warnings],
+    };
+
+    const occurrences = this.collectOccurrences(calendar, from, to, result);
+    const existing =
+      occurrences.length > 0
+        ? await meetingRepository.findByExternalUids(
+            userId,
+            occurrences.map((occurrence) => occurrence.externalUid)
+          )
+        : [];
+    const existingByUid = new Map(existing.map((meeting) => [meeting.externalUid, meeting]));
+    const toCreate: CreateMeetingData[] = [];
+
+    for (const occurrence of occurrences) {
+      const meeting = existingByUid.get(occurrence.externalUid);
+
+      if (!meeting) {
+        if (occurrence.cancelled) {
+          result.skipped++;
+          continue;
+        }
+        toCreate.push({
+          userId,
+          title: occurrence.title,
+          description: occurrence.description,
+          meetingUrl: occurrence.meetingUrl,
+          platform: occurrence.platform,
+          scheduledAt: occurrence.scheduledAt,
+          externalUid: occurrence.externalUid,
+          calendarFeedId: options.feedId,
+        });
+        continue;
+      }
+
+      if (!IMPORT_MUTABLE_STATUSES.includes(meeting.status)) {
+        result.skipped++;
+        continue;
+      }
+
+      const update = this.buildUpdate(meeting, occurrence);
+      if (!update) continue;
+
+      await meetingService.updateMeeting(meeting.id, userId, update);
+      if (update.status === 'cancelled') {
+        result.cancelled++;
+      } else {
+        result.updated++;
+      }
+    }
+
+    if (options.feedId) {
+      // Events removed from a feed are cancelled like events marked as cancelled
+      const imported = new Set(occurrences.map((occurrence) => occurrence.externalUid));
+      const removed = (
+        await meetingRepository.findScheduledByCalendarFeed(options.feedId, now, to)
+      ).filter((meeting) => !meeting.externalUid || !imported.has(meeting.externalUid));
+
+      for (const meeting of removed) {
+        await meetingService.updateMeeting(meeting.id, userId, { status: 'cancelled' });
+        result.cancelled++;
+      }
+    }
+
+    if (toCreate.length > 0) {
+      result.created = (await meetingRepository.createImportedMeetings(toCreate)).count;
+      await meetingService.invalidateListCache();
+    }
+
+    logger.info('Calendar imported', {
+      userId,
+      feedId: options.feedId,
+      created: result.created,
+      updated: result.updated,
+      cancelled: result.cancelled,
+      skipped: result.skipped,
+      warnings: result.warnings.length,
+    });
+
+    return result;
+  }
+
+  /**
+   * List calendar feeds of a user
+   */
+  async getUserFeeds(userId: string): Promise<CalendarFeed[]> {
+    return calendarFeedRepository.findByUserId(userId);
+  }
+
+  /**
+   * Get calendar feed and verify the user owns it
+   */
+  async getOwnedFeed(id: string, userId: string): Promise<CalendarFeed> {
+    const feed = await calendarFeedRepository.findById(id);
+    if (!feed) {
+      throw new AppError('Calendar feed not found', 404);
+    }
+
+    if (feed.userId !== userId) {
+      throw new AppError('Unauthorized access to calendar feed', 403);
+    }
+
+    return feed;
+  }
+
+  /**
+   * Register an ICS feed and import it right away
+   * The feed is only saved when it can be loaded and parsed.
+   */
+  async createFeed(
+    userId: string,
+    url: string,
+    name?: string | null
+  ): Promise<{ feed: CalendarFeed; result: CalendarImportResult }> {
+    const feedUrl = this.normalizeFeedUrl(url);
+
+    if (await calendarFeedRepository.exists({ userId, url: feedUrl })) {
+      throw new AppError('This calendar feed is already registered', 409);
+    }
+
+    const content = await this.fetchFeed(feedUrl);
+    this.parseCalendar(content);
+
+    const feed = await calendarFeedRepository.create({ userId, url: feedUrl, name });
+    const result = await this.importCalendar(userId, content, { feedId: feed.id });
+
+    const synced = await calendarFeedRepository.update(feed.id, {
+      name: name || result.calendarName || null,
+      lastSyncedAt: new Date(),
+      lastError: null,
+    });
+
+    return { feed: synced, result };
+  }
+
+  /**
+   * Remove a calendar feed
+   * Meetings imported from it are kept.
+   */
+  async deleteFeed(id: string, userId: string): Promise<void> {
+    await this.getOwnedFeed(id, userId);
+    await calendarFeedRepository.delete(id);
+  }
+
+  /**
+   * Sync a feed on request
+   */
+  async syncOwnedFeed(id: string, userId: string): Promise<CalendarImportResult> {
+    const feed = await this.getOwnedFeed(id, userId);
+    return this.syncFeed(feed);
+  }
+
+  /**
+   * Sync every active feed not synced within the sync interval
+   */
+  async syncDueFeeds(): Promise<number> {
+    const syncedBefore = new Date(Date.now() - this.SYNC_INTERVAL_MINUTES * 60 * 1000);
+    const feeds = await calendarFeedRepository.findDueForSync(syncedBefore);
+    let synced = 0;
+
+    for (const feed of feeds) {
+      try {
+        await this.syncFeed(feed);
+        synced++;
+      } catch (error) {
+        logger.error('Failed to sync calendar feed', { feedId: feed.id, error: String(error) });
+      }
+    }
+
+    return synced;
+  }
+
+  /**
+   * Fetch and import a feed, recording the outcome on the feed
+   */
+  private async syncFeed(feed: CalendarFeed): Promise<CalendarImportResult> {
+    try {
+      const content = await this.fetchFeed(feed.url);
+      const result = await this.importCalendar(feed.userId, content, { feedId: feed.id });
+
+      await calendarFeedRepository.update(feed.id, {
+        name: feed.name || result.calendarName || null,
+        lastSyncedAt: new Date(),
+        lastError: null,
+      });
+
+      return result;
+    } catch (error) {
+      // Failed feeds wait for the next interval instead of being retried every run
+      await calendarFeedRepository.update(feed.id, {
+        lastSyncedAt: new Date(),
+        lastError: error instanceof AppError ? error.message : 'Calendar feed sync failed',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Download a feed
+   * Redirects are followed one by one so that every hop goes through the same address checks.
+   * Failures are reported without details, which could reveal what the server can reach.
+   */
+  private async fetchFeed(url: string): Promise<string> {
+    let target = url;
+
+    try {
+      for (let redirects = 0; redirects <= this.MAX_REDIRECTS; redirects++) {
+        const parsed = NetworkUtil.assertPublicUrl(target);
+        const response = await axios.get<string>(parsed.toString(), {
+          responseType: 'text',
+          timeout: this.FETCH_TIMEOUT_MS,
+          maxContentLength: this.MAX_FEED_BYTES,
+          maxRedirects: 0,
+          lookup: NetworkUtil.publicLookup,
+          validateStatus: (status) => status >= 200 && status < 400,
+          headers: { Accept: 'text/calendar, */*' },
+        });
+
+        const location = response.headers.location;
+        if (response.status < 300 || typeof location !== 'string') {
+          return String(response.data);
+        }
+        target = new URL(location, parsed).toString();
+      }
+      throw new Error(`More than ${this.MAX_REDIRECTS} redirects`);
+    } catch (error) {
+      logger.warn('Failed to load calendar feed', {
+        host: this.getHost(target),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new AppError('Could not load calendar feed', 400);
+    }
+  }
+
+  private getHost(url: string): string | undefined {
+    try {
+      return new URL(url).host;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private parseCalendar(content: string): ICalCalendar {
+    try {
+      return ICalUtil.parse(content);
+    } catch (error) {
+      if (error instanceof ICalParseError) {
+        throw new AppError(`Invalid calendar: ${error.message}`, 400);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Expand the events of a calendar into meetings within [from, to]
+   * Recurring events become one meeting per occurrence, keyed by UID and original start so
+   * that RECURRENCE-ID overrides replace the occurrence they were made for.
+   */
+  private collectOccurrences(
+    calendar: ICalCalendar,
+    from: Date,
+    to: Date,
+    result: CalendarImportResult
+  ): ImportedOccurrence[] {
+    const masters = new Map<string, ICalEvent>();
+    const overrides = new Map<string, ICalEvent>();
+
+    for (const event of calendar.events) {
+      if (event.recurrenceId) {
+        overrides.set(this.getOccurrenceUid(event.uid, event.recurrenceId), event);
+      } else if ((masters.get(event.uid)?.sequence ?? -1) < event.sequence) {
+        masters.set(event.uid, event);
+      }
+    }
+
+    const occurrences: ImportedOccurrence[] = [];
+    const inRange = (date: Date): boolean => date >= from && date <= to;
+
+    for (const event of masters.values()) {
+      // All-day events are holidays and reminders rather than meetings
+      if (event.allDay) {
+        result.skipped++;
+        continue;
+      }
+
+      if (!event.rrule) {
+        if (inRange(event.start)) {
+          occurrences.push(this.toOccurrence(event, event.uid, event.start));
+        }
+        continue;
+      }
+
+      let starts: Date[];
+      try {
+        starts = ICalUtil.expand(event, from, to);
+      } catch (error) {
+        if (!(error instanceof RecurrenceRuleError)) throw error;
+
+        result.warnings.push(
+          `Event ${event.uid} repeats with an unsupported rule (${error.message}), ` +
+            'only its first occurrence was imported'
+        );
+        if (inRange(event.start)) {
+          occurrences.push(this.toOccurrence(event, event.uid, event.start));
+        }
+        continue;
+      }
+
+      for (const start of starts) {
+        const externalUid = this.getOccurrenceUid(event.uid, start);
+        const override = overrides.get(externalUid);
+        overrides.delete(externalUid);
+
+        occurrences.push(
+          override
+            ? this.toOccurrence(override, externalUid, override.start)
+            : this.toOccurrence(event, externalUid, start)
+        );
+      }
+    }
+
+    // Overrides moved into the range from an occurrence outside of it
+    for (const [externalUid, override] of overrides) {
+      if (masters.has(override.uid) && inRange(override.start)) {
+        occurrences.push(this.toOccurrence(override, externalUid, override.start));
+      }
+    }
+
+    return occurrences;
+  }
+
+  private toOccurrence(event: ICalEvent, externalUid: string, start: Date): ImportedOccurrence {
+    const meetingUrl = this.findMeetingUrl(event);
+
+    return {
+      externalUid,
+      title: event.summary?.trim() || 'Untitled event',
+      description: event.description?.trim() || undefined,
+      meetingUrl,
+      platform: meetingUrl ? meetingBotService.detectPlatform(meetingUrl) || undefined : undefined,
+      scheduledAt: start,
+      cancelled: event.status === 'CANCELLED',
+    };
+  }
+
+  /**
+   * First link to a supported meeting platform in the event's location, URL or description
+   */
+  private findMeetingUrl(event: ICalEvent): string | undefined {
+    return [event.location, event.url, event.description]
+      .flatMap((text) => (text ? ICalUtil.extractUrls(text) : []))
+      .find((url) => meetingBotService.detectPlatform(url) !== null);
+  }
+
+  /**
+   * Changes to apply to a previously imported meeting, or null when it is up to date
+   * Details missing from the event are kept as they are.
+   */
+  private buildUpdate(meeting: Meeting, occurrence: ImportedOccurrence): UpdateMeetingData | null {
+    const update: UpdateMeetingData = {};
+
+    if (meeting.title !== occurrence.title) update.title = occurrence.title;
+    if (occurrence.description && meeting.description !== occurrence.description) {
+      update.description = occurrence.description;
+    }
+    if (occurrence.meetingUrl && meeting.meetingUrl !== occurrence.meetingUrl) {
+      update.meetingUrl = occurrence.meetingUrl;
+      update.platform = occurrence.platform;
+    }
+    if (meeting.scheduledAt?.getTime() !== occurrence.scheduledAt.getTime()) {
+      update.scheduledAt = occurrence.scheduledAt;
+    }
+
+    const status = occurrence.cancelled ? 'cancelled' : 'scheduled';
+    if (meeting.status !== status) update.status = status;
+
+    return Object.keys(update).length > 0 ? update : null;
+  }
+
+  private getOccurrenceUid(uid: string, start: Date): string {
+    return `${uid}#${start.toISOString()}`;
+  }
+
+  /**
+   * webcal:// is the scheme calendar apps use for subscribing to HTTP feeds
+   */
+  private normalizeFeedUrl(url: string): string {
+    return url.trim().replace(/^webcals?:\/\//i, 'https://');
+  }
+}
+
+// Export singleton instance
+export const calendarImportService = new CalendarImportService();
@@ -0,0 +1,238 @@
+import { Decision, DecisionLink, Meeting, Transcription } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { decisionRepository, meetingRepository } from '../repositories/index.js';
+import {
+  DecisionLogFilters,
+  DecisionRelation,
+  DecisionStatus,
+  DecisionWithLinks,
+} from '../types/decision.types.js';
+import { MeetingDecision } from './ai/types/analysis.types.js';
+import { AppError } from '../middlewares/error-handler.js';
+import { logger } from '../utils/logger.js';
+import { SegmentMatchUtil } from '../utils/segment-match.util.js';
+import { SubtitleUtil } from '../utils/subtitle.util.js';
+
+/**
+ * Decision Service
+ * Keeps the decision log of each user and how later decisions revisit earlier ones
+ */
+export class DecisionService {
+  private readonly DEFAULT_TAKE = 50;
+  private readonly PRIOR_DECISION_LIMIT = 30; // Earlier decisions offered to the summary prompt
+
+  /**
+   * Earlier active decisions of the meeting owner, for spotting revisits in a new meeting
+   */
+  async getPriorDecisions(meetingId: string): Promise<Decision[]> {
+    const meeting = await meetingRepository.findById(meetingId);
+    if (!meeting) return [];
+
+    return decisionRepository.findActiveBefore(meeting.userId, this.getMeetingTime(meeting), {
+      excludeMeetingId: meetingId,
+      take: this.PRIOR_DECISION_LIMIT,
+    });
+  }
+
+  /**
+   * List decisions of a meeting
+   */
+  async listForMeeting(meetingId: string): Promise<DecisionWithLinks[]> {
+    return decisionRepository.findByMeetingId(meetingId);
+  }
+
+  /**
+   * Search the decision log across all meetings of a user
+   */
+  async searchLog(
+    userId: string,
+    filters: DecisionLogFilters = {}
+  ): Promise<{ decisions: DecisionWithLinks[]; total: number }> {
+    return decisionRepository.findForUser(userId, {
+      ...filters,
+      take: filters.take ?? this.DEFAULT_TAKE,
+    });
+  }
+
+  /**
+   * Get decision and verify the user owns its meeting
+   */
+  async getOwnedDecision(id: string, userId: string): Promise<DecisionWithLinks> {
+    const decision = await decisionRepository.findByIdWithLinks(id);
+    if (!decision) {
+      throw new AppError('Decision not found', 404);
+    }
+
+    if (decision.meeting.userId !== userId) {
+      throw new AppError('Unauthorized access to decision', 403);
+    }
+
+    return decision;
+  }
+
+  /**
+   * Record that a decision revisits or supersedes an earlier one
+   */
+  async linkDecisions(
+    decisionId: string,
+    relatedDecisionId: string,
+    relation: DecisionRelation,
+    userId: string
+  ): Promise<DecisionLink> {
+    if (decisionId === relatedDecisionId) {
+      throw new AppError('A decision cannot be linked to itself', 400);
+    }
+
+    const decision = await this.getOwnedDecision(decisionId, userId);
+    const related = await this.getOwnedDecision(relatedDecisionId, userId);
+
+    if (related.decidedAt > decision.decidedAt) {
+      throw new AppError('Decisions can only be linked to earlier decisions', 400);
+    }
+
+    return this.applyLink(decisionId, relatedDecisionId, relation);
+  }
+
+  /**
+   * Remove the link between two decisions
+   */
+  async unlinkDecisions(
+    decisionId: string,
+    relatedDecisionId: string,
+    userId: string
+  ): Promise<void> {
+    await this.getOwnedDecision(decisionId, userId);
+
+    const link = await decisionRepository.deleteLink(decisionId, relatedDecisionId);
+    if (!link) {
+      throw new AppError('Decision link not found', 404);
+    }
+
+    await decisionRepository.reactivateUnsuperseded([relatedDecisionId]);
+  }
+
+  /**
+   * Sync the decisions of a meeting with its latest summary
+   * Decisions are matched by description. Links reported by the summary are added,
+   * links added by hand are left alone.
+   */
+  async syncFromSummary(
+    meetingId: string,
+    decisions: MeetingDecision[],
+    transcriptions: Transcription[]
+  ): Promise<Decision[]> {
+    const meeting = await meetingRepository.findById(meetingId);
+    if (!meeting) {
+      throw new AppError('Meeting not found', 404);
+    }
+
+    const existing = await decisionRepository.findByMeetingId(meetingId);
+    const existingByKey = new Map(
+      existing.map((decision) => [SegmentMatchUtil.normalize(decision.description), decision])
+    );
+    const seen = new Set<string>();
+    const synced: Decision[] = [];
+
+    for (const item of decisions) {
+      const key = SegmentMatchUtil.normalize(item.description || '');
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+
+      const source = SegmentMatchUtil.findSourceSegment(item.context, transcriptions);
+      const data = {
+        description: item.description.trim(),
+        rationale: item.rationale || null,
+        participants: item.participants,
+        context: item.context || null,
+        sourceTranscriptionId: source?.id ?? null,
+        decidedAt: this.getDecidedAt(meeting, source?.timestampStart),
+        confidence: new Decimal(item.confidence.value.toFixed(4)),
+      };
+
+      const match = existingByKey.get(key);
+      const decision = match
+        ? await decisionRepository.update(match.id, data)
+        : await decisionRepository.create({ meetingId, ...data });
+
+      for (const related of item.relatedDecisions) {
+        if (related.decisionId === decision.id) continue;
+        await this.applyLink(
+          decision.id,
+          related.decisionId,
+          related.relation as DecisionRelation
+        );
+      }
+
+      synced.push(decision);
+    }
+
+    const stale = existing.filter(
+      (decision) => !seen.has(SegmentMatchUtil.normalize(decision.description))
+    );
+
+    if (stale.length > 0) {
+      await this.removeDecisions(stale.map((decision) => decision.id));
+    }
+
+    logger.info('Decisions synced from summary', {
+      meetingId,
+      synced: synced.length,
+      removed: stale.length,
+    });
+
+    return synced;
+  }
+
+  /**
+   * Store a link and keep the status of the earlier decision in step with it
+   */
+  private async applyLink(
+    decisionId: string,
+    relatedDecisionId: string,
+    relation: DecisionRelation
+  ): Promise<DecisionLink> {
+    const link = await decisionRepository.upsertLink(decisionId, relatedDecisionId, relation);
+
+    if (relation === DecisionRelation.SUPERSEDES) {
+      await decisionRepository.update(relatedDecisionId, { status: DecisionStatus.SUPERSEDED });
+    } else {
+      // The link may have been downgraded from supersedes
+      await decisionRepository.reactivateUnsuperseded([relatedDecisionId]);
+    }
+
+    return link;
+  }
+
+  /**
+   * Delete decisions and reactivate the ones only they superseded
+   */
+  private async removeDecisions(ids: string[]): Promise<void> {
+    const superseded = await decisionRepository.findSupersededBy(ids);
+    await decisionRepository.deleteByIds(ids);
+    await decisionRepository.reactivateUnsuperseded(superseded);
+  }
+
+  /**
+   * When a decision was made, from the timestamp of the segment it was found in
+   * Offsets from the recording start are placed after the start of the meeting
+   */
+  private getDecidedAt(meeting: Meeting, timestamp: Date | null | undefined): Date {
+    if (!timestamp) {
+      return this.getMeetingTime(meeting);
+    }
+    if (SubtitleUtil.isRelativeTimestamp(timestamp)) {
+      return new Date(this.getMeetingTime(meeting).getTime() + timestamp.getTime());
+    }
+    return timestamp;
+  }
+
+  /**
+   * When a meeting took place, for meetings that never started the time it was planned for
+   */
+  private getMeetingTime(meeting: Meeting): Date {
+    return meeting.startedAt ?? meeting.scheduledAt ?? meeting.createdAt;
+  }
+}
+
+// Export singleton instance
+export const decisionService = new DecisionService();
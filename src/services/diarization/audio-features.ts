@@ -0,0 +1,208 @@
+import { AppError } from '../../middlewares/error-handler.js';
+
+const FRAME_SECONDS = 0.025;
+const HOP_SECONDS = 0.01;
+const FFT_SIZE = 512;
+const MEL_BANDS = 24;
+const CEPSTRA = 12; // Leaving out c0, which only follows loudness
+const MIN_FREQUENCY = 80;
+const MAX_FREQUENCY = 7600;
+const SILENCE_DB = 30; // Frames this far below the loudest frame of a segment are left out
+const MIN_VOICED_FRAMES = 20;
+
+const filterBanks = new Map<number, number[][]>();
+
+/**
+ * Mono audio samples between -1 and 1
+ */
+export interface PcmAudio {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+/**
+ * Read 16-bit PCM WAV audio, keeping the first channel
+ */
+export function readWav(buffer: Buffer): PcmAudio {
+  if (
+    buffer.length < 12 ||
+    buffer.toString('ascii', 0, 4) !== 'RIFF' ||
+    buffer.toString('ascii', 8, 12) !== 'WAVE'
+  ) {
+    throw new AppError('Audio is not a WAV file', 400);
+  }
+
+  let channels = 0;
+  let sampleRate = 0;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString('ascii', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      const format = buffer.readUInt16LE(body);
+      channels = buffer.readUInt16LE(body + 2);
+      sampleRate = buffer.readUInt32LE(body + 4);
+      const bits = buffer.readUInt16LE(body + 14);
+      if (format !== 1 || bits !== 16) {
+        throw new AppError('Only 16-bit PCM WAV audio can be diarized', 400);
+      }
+    } else if (id === 'data' && channels > 0) {
+      const end = Math.min(body + size, buffer.length);
+      const count = Math.floor((end - body) / (2 * channels));
+      const samples = new Float32Array(count);
+      for (let index = 0; index < count; index++) {
+        samples[index] = buffer.readInt16LE(body + index * 2 * channels) / 32768;
+      }
+      return { samples, sampleRate };
+    }
+
+    offset = body + size + (size % 2); // Chunks are padded to an even size
+  }
+
+  throw new AppError('WAV file has no audio data', 400);
+}
+
+/**
+ * Voice signature of a stretch of audio: mean and spread of its mel cepstrum over the frames
+ * with speech in them
+ * Returns null when there is too little speech to tell who is talking.
+ */
+export function voiceSignature(audio: PcmAudio, start: number, end: number): number[] | null {
+  const { samples, sampleRate } = audio;
+  const frameLength = Math.round(FRAME_SECONDS * sampleRate);
+  const hop = Math.round(HOP_SECONDS * sampleRate);
+  const from = Math.max(Math.floor(start * sampleRate), 0);
+  const to = Math.min(Math.ceil(end * sampleRate), samples.length);
+  if (frameLength > FFT_SIZE) {
+    throw new AppError(`Sample rate ${sampleRate} is too high to diarize`, 400);
+  }
+
+  const bank = getFilterBank(sampleRate);
+  const frames: { energy: number; cepstrum: number[] }[] = [];
+  const real = new Float64Array(FFT_SIZE);
+  const imaginary = new Float64Array(FFT_SIZE);
+
+  for (let position = from; position + frameLength <= to; position += hop) {
+    real.fill(0);
+    imaginary.fill(0);
+    let energy = 0;
+    for (let index = 0; index < frameLength; index++) {
+      // Pre-emphasis, then a Hamming window
+      const sample = samples[position + index] - 0.97 * (samples[position + index - 1] ?? 0);
+      real[index] =
+        sample * (0.54 - 0.46 * Math.cos((2 * Math.PI * index) / (frameLength - 1)));
+      energy += sample * sample;
+    }
+
+    fft(real, imaginary);
+    const bands = bank.map((weights) => {
+      let power = 0;
+      for (let bin = 0; bin < weights.length; bin++) {
+        if (weights[bin] > 0) {
+          power += weights[bin] * (real[bin] * real[bin] + imaginary[bin] * imaginary[bin]);
+        }
+      }
+      return Math.log(power + 1e-10);
+    });
+
+    frames.push({ energy: 10 * Math.log10(energy + 1e-10), cepstrum: dct(bands) });
+  }
+
+  const loudest = Math.max(...frames.map((frame) => frame.energy));
+  const voiced = frames.filter((frame) => frame.energy >= loudest - SILENCE_DB);
+  if (voiced.length < MIN_VOICED_FRAMES) {
+    return null;
+  }
+
+  const means = new Array<number>(CEPSTRA).fill(0);
+  const deviations = new Array<number>(CEPSTRA).fill(0);
+  for (const frame of voiced) {
+    frame.cepstrum.forEach((value, index) => (means[index] += value / voiced.length));
+  }
+  for (const frame of voiced) {
+    frame.cepstrum.forEach(
+      (value, index) => (deviations[index] += (value - means[index]) ** 2 / voiced.length)
+    );
+  }
+
+  return [...means, ...deviations.map(Math.sqrt)];
+}
+
+/**
+ * Triangular mel filters over the bins of the power spectrum
+ */
+function getFilterBank(sampleRate: number): number[][] {
+  const cached = filterBanks.get(sampleRate);
+  if (cached) {
+    return cached;
+  }
+
+  const toMel = (hz: number): number => 2595 * Math.log10(1 + hz / 700);
+  const toHz = (mel: number): number => 700 * (10 ** (mel / 2595) - 1);
+  const low = toMel(MIN_FREQUENCY);
+  const high = toMel(Math.min(MAX_FREQUENCY, sampleRate / 2));
+  const bins = Array.from({ length: MEL_BANDS + 2 }, (_, index) =>
+    Math.floor(((FFT_SIZE + 1) * toHz(low + ((high - low) * index) / (MEL_BANDS + 1))) / sampleRate)
+  );
+
+  const bank = Array.from({ length: MEL_BANDS }, (_, band) => {
+    const [left, center, right] = [bins[band], bins[band + 1], bins[band + 2]];
+    const weights = new Array<number>(FFT_SIZE / 2 + 1).fill(0);
+    for (let bin = left; bin < center; bin++) weights[bin] = (bin - left) / (center - left);
+    for (let bin = center; bin < right; bin++) weights[bin] = (right - bin) / (right - center);
+    return weights;
+  });
+
+  filterBanks.set(sampleRate, bank);
+  return bank;
+}
+
+/**
+ * Cepstral coefficients 1 to CEPSTRA of log band energies (DCT-II)
+ */
+function dct(bands: number[]): number[] {
+  return Array.from({ length: CEPSTRA }, (_, index) =>
+    bands.reduce(
+      (sum, value, band) =>
+        sum + value * Math.cos((Math.PI * (index + 1) * (band + 0.5)) / bands.length),
+      0
+    )
+  );
+}
+
+/**
+ * In-place radix-2 FFT; the length must be a power of two
+ */
+function fft(real: Float64Array, imaginary: Float64Array): void {
+  const size = real.length;
+
+  for (let index = 1, swap = 0; index < size; index++) {
+    let bit = size >> 1;
+    for (; swap & bit; bit >>= 1) swap ^= bit;
+    swap ^= bit;
+    if (index < swap) {
+      [real[index], real[swap]] = [real[swap], real[index]];
+      [imaginary[index], imaginary[swap]] = [imaginary[swap], imaginary[index]];
+    }
+  }
+
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length;
+    for (let start = 0; start < size; start += length) {
+      for (let offset = 0; offset < length / 2; offset++) {
+        const cos = Math.cos(angle * offset);
+        const sin = Math.sin(angle * offset);
+        const even = start + offset;
+        const odd = even + length / 2;
+        const oddReal = real[odd] * cos - imaginary[odd] * sin;
+        const oddImaginary = real[odd] * sin + imaginary[odd] * cos;
+        real[odd] = real[even] - oddReal;
+        imaginary[odd] = imaginary[even] - oddImaginary;
+        real[even] += oddReal;
+        imaginary[even] += oddImaginary;
+      }
+    }
+  }
+}
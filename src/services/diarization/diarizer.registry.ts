@@ -0,0 +1,39 @@
+import { SpeakerDiarizer } from './types/diarization.types.js';
+import { localDiarizer } from './diarizers/local.diarizer.js';
+import { httpDiarizer } from './diarizers/http.diarizer.js';
+
+/**
+ * Diarizer Registry
+ * Speaker diarization back-ends by name
+ */
+export class DiarizerRegistry {
+  private diarizers: Map<string, SpeakerDiarizer> = new Map();
+
+  constructor(diarizers: SpeakerDiarizer[] = []) {
+    diarizers.forEach((diarizer) => this.register(diarizer));
+  }
+
+  /**
+   * Add a back-end, replacing any registered under the same name
+   */
+  register(diarizer: SpeakerDiarizer): void {
+    this.diarizers.set(diarizer.name, diarizer);
+  }
+
+  /**
+   * Get a back-end by name
+   */
+  get(name: string): SpeakerDiarizer | undefined {
+    return this.diarizers.get(name);
+  }
+
+  /**
+   * Names of all registered back-ends
+   */
+  getNames(): string[] {
+    return [...this.diarizers.keys()];
+  }
+}
+
+// Export singleton instance with the built-in back-ends
+export const diarizerRegistry = new DiarizerRegistry([localDiarizer, httpDiarizer]);
@@ -0,0 +1,46 @@
+import { AudioChunk } from '../../transcription.service.js';
+import { SpeechSegment } from '../../stt/types/stt.types.js';
+import {
+  DiarizationSession,
+  SpeakerAssignment,
+  SpeakerDiarizer,
+} from '../types/diarization.types.js';
+import { SpeakerClusterer } from '../speaker-clusterer.js';
+import { config } from '../../../config/index.js';
+
+/**
+ * Diarizer that turns each segment into a voice embedding and clusters the embeddings
+ * Back-ends only differ in how they compute embeddings.
+ */
+export abstract class EmbeddingDiarizer implements SpeakerDiarizer {
+  abstract readonly name: string;
+
+  abstract isConfigured(): boolean;
+
+  /**
+   * Voice embedding of each segment of a chunk, null where there is too little speech
+   */
+  protected abstract embed(
+    chunk: AudioChunk,
+    segments: SpeechSegment[]
+  ): Promise<(number[] | null)[]>;
+
+  createSession(): DiarizationSession {
+    const clusterer = new SpeakerClusterer({
+      threshold: config.diarization.threshold,
+      maxSpeakers: config.diarization.maxSpeakers,
+    });
+
+    return {
+      assign: async (
+        chunk: AudioChunk,
+        segments: SpeechSegment[]
+      ): Promise<SpeakerAssignment[]> => {
+        const embeddings = await this.embed(chunk, segments);
+        return segments.map((segment, index) =>
+          clusterer.assign(embeddings[index] ?? null, segment.endTime - segment.startTime)
+        );
+      },
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import axios from 'axios';
+import { AudioChunk } from '../../transcription.service.js';
+import { SpeechSegment } from '../../stt/types/stt.types.js';
+import { EmbeddingDiarizer } from './embedding.diarizer.js';
+import { config } from '../../../config/index.js';
+import { AppError } from '../../../middlewares/error-handler.js';
+
+const REQUEST_TIMEOUT_MS = 120000;
+
+/**
+ * HTTP Diarizer
+ * Gets voice embeddings from a speaker embedding service, such as one wrapping pyannote or
+ * SpeechBrain. The service receives `{ audio, sampleRate, segments: [{ start, end }] }` with
+ * the chunk as base64 WAV and times in seconds, and answers `{ embeddings }` with one vector
+ * (or null) per segment.
+ */
+export class HttpDiarizer extends EmbeddingDiarizer {
+  readonly name = 'http';
+
+  isConfigured(): boolean {
+    return !!config.diarization.endpoint;
+  }
+
+  protected async embed(
+    chunk: AudioChunk,
+    segments: SpeechSegment[]
+  ): Promise<(number[] | null)[]> {
+    if (!config.diarization.endpoint) {
+      throw new AppError('DIARIZATION_ENDPOINT is not set', 500);
+    }
+    if (!chunk.audioData) {
+      return segments.map(() => null);
+    }
+
+    const response = await axios.post<{ embeddings?: (number[] | null)[] }>(
+      config.diarization.endpoint,
+      {
+        audio: chunk.audioData.toString('base64'),
+        sampleRate: 16000,
+        segments: segments.map((segment) => ({ start: segment.startTime, end: segment.endTime })),
+      },
+      { timeout: REQUEST_TIMEOUT_MS }
+    );
+
+    const embeddings = response.data.embeddings;
+    if (!Array.isArray(embeddings) || embeddings.length !== segments.length) {
+      throw new AppError('Diarization service returned the wrong number of embeddings', 502);
+    }
+
+    return embeddings;
+  }
+}
+
+// Export singleton instance
+export const httpDiarizer = new HttpDiarizer();
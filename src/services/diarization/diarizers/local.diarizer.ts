@@ -0,0 +1,32 @@
+import { AudioChunk } from '../../transcription.service.js';
+import { SpeechSegment } from '../../stt/types/stt.types.js';
+import { EmbeddingDiarizer } from './embedding.diarizer.js';
+import { readWav, voiceSignature } from '../audio-features.js';
+
+/**
+ * Local Diarizer
+ * Tells voices apart by their mel cepstrum, computed here with no model or network access.
+ * Works best on clean audio with few speakers who do not talk over each other.
+ */
+export class LocalDiarizer extends EmbeddingDiarizer {
+  readonly name = 'local';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  protected async embed(
+    chunk: AudioChunk,
+    segments: SpeechSegment[]
+  ): Promise<(number[] | null)[]> {
+    if (!chunk.audioData) {
+      return segments.map(() => null);
+    }
+
+    const audio = readWav(chunk.audioData);
+    return segments.map((segment) => voiceSignature(audio, segment.startTime, segment.endTime));
+  }
+}
+
+// Export singleton instance
+export const localDiarizer = new LocalDiarizer();
@@ -0,0 +1,91 @@
+import { SpeakerAssignment, SpeakerClustererOptions } from './types/diarization.types.js';
+
+interface SpeakerCluster {
+  label: string;
+  sum: number[];
+}
+
+/**
+ * Speaker Clusterer
+ * Groups voice embeddings into speakers online, one segment at a time, so a speaker keeps
+ * the label given when first heard
+ */
+export class SpeakerClusterer {
+  private clusters: SpeakerCluster[] = [];
+  private last: string | null = null;
+
+  constructor(private readonly options: SpeakerClustererOptions) {}
+
+  /**
+   * Assign a segment to the closest speaker, or to a new one when none is close enough
+   * Segments without an embedding (too short or silent) stay with the speaker before them.
+   * `weight` is how much the segment counts towards its speaker's voice, such as its length.
+   */
+  assign(embedding: number[] | null, weight: number = 1): SpeakerAssignment {
+    const vector = embedding && normalize(embedding);
+    if (!vector) {
+      const speaker = this.last ?? this.addCluster().label;
+      this.last = speaker;
+      return { speaker, confidence: 0 };
+    }
+
+    const ranked = this.clusters
+      .filter((cluster) => cluster.sum.length > 0)
+      .map((cluster) => ({ cluster, similarity: cosine(vector, cluster.sum) }))
+      .sort((a, b) => b.similarity - a.similarity);
+    const [best, runnerUp] = ranked;
+
+    // Confidence is how far the choice beats the likeliest alternative, out of how far it could
+    let cluster: SpeakerCluster;
+    let confidence: number;
+    if (best && (best.similarity >= this.options.threshold || this.isFull())) {
+      cluster = best.cluster;
+      // The next speaker, or a new speaker if that is likelier
+      const alternative = Math.max(
+        runnerUp?.similarity ?? -1,
+        this.isFull() ? -1 : this.options.threshold
+      );
+      confidence = scale(best.similarity - alternative, 1 - alternative);
+    } else {
+      // A speaker labelled before any of their voice was heard takes the first new voice
+      cluster = this.clusters.find((existing) => existing.sum.length === 0) ?? this.addCluster();
+      const alternative = best?.similarity ?? -1;
+      confidence = scale(this.options.threshold - alternative, this.options.threshold + 1);
+    }
+
+    cluster.sum = cluster.sum.length
+      ? cluster.sum.map((value, index) => value + vector[index] * weight)
+      : vector.map((value) => value * weight);
+    this.last = cluster.label;
+
+    return { speaker: cluster.label, confidence };
+  }
+
+  private isFull(): boolean {
+    return this.clusters.length >= this.options.maxSpeakers;
+  }
+
+  private addCluster(): SpeakerCluster {
+    const cluster: SpeakerCluster = { label: `Speaker ${this.clusters.length + 1}`, sum: [] };
+    this.clusters.push(cluster);
+    return cluster;
+  }
+}
+
+function normalize(vector: number[]): number[] | null {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 && Number.isFinite(length) ? vector.map((value) => value / length) : null;
+}
+
+function cosine(a: number[], b: number[]): number {
+  const unit = normalize(b);
+  return unit ? a.reduce((sum, value, index) => sum + value * unit[index], 0) : -1;
+}
+
+/**
+ * Confidence from 0.5, a toss-up, to 1 as a margin grows to the largest it could be
+ */
+function scale(margin: number, room: number): number {
+  const share = room > 0 ? Math.min(Math.max(margin / room, 0), 1) : 1;
+  return Math.round((0.5 + share / 2) * 10000) / 10000;
+}
@@ -0,0 +1,38 @@
+import { AudioChunk } from '../../transcription.service.js';
+import { SpeechSegment } from '../../stt/types/stt.types.js';
+
+/**
+ * Speaker chosen for a segment
+ */
+export interface SpeakerAssignment {
+  speaker: string; // "Speaker 1", "Speaker 2"... in order of first appearance
+  confidence: number; // 0.5 (toss-up with the next likeliest speaker) to 1, 0 when just guessed
+}
+
+/**
+ * Diarization of one recording
+ * Labels are stable across the chunks of a session.
+ */
+export interface DiarizationSession {
+  /**
+   * Speakers of the segments heard in a chunk, in the order the segments are given
+   */
+  assign(chunk: AudioChunk, segments: SpeechSegment[]): Promise<SpeakerAssignment[]>;
+}
+
+/**
+ * Speaker diarization back-end
+ * Back-ends get the same 16 kHz mono WAV chunks as the speech-to-text engines.
+ */
+export interface SpeakerDiarizer {
+  readonly name: string;
+
+  isConfigured(): boolean;
+
+  createSession(): DiarizationSession;
+}
+
+export interface SpeakerClustererOptions {
+  threshold: number; // Cosine similarity a segment needs to join an existing speaker
+  maxSpeakers: number;
+}
@@ -0,0 +1,52 @@
+import { Meeting } from '@prisma/client';
+import { formatOffset } from '../report/report-format.js';
+import { SubtitleUtil } from '../../utils/subtitle.util.js';
+
+// Spreadsheet apps run cells starting with these as formulas
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Quote a CSV field, defusing anything a spreadsheet would evaluate
+ */
+export function escapeCsv(value: unknown): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (CSV_FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Escape text so Markdown shows it literally, on a single line
+ */
+export function escapeMarkdown(value: string): string {
+  return value
+    .replace(/\s*\r?\n\s*/g, ' ')
+    .replace(/([\\`*_[\]{}<>|#~])/g, '\\$1')
+    .replace(/^(\s*)([-+])(?=\s)/, '$1\\$2') // Would start a list
+    .replace(/^(\s*)(\d+)\.(?=\s)/, '$1$2\\.');
+}
+
+/**
+ * Collapse text to a single line for line-based plain text output
+ */
+export function toSingleLine(value: string): string {
+  return value.replace(/\s*\r?\n\s*/g, ' ');
+}
+
+/**
+ * Format transcription timestamps as positions on the recording timeline
+ * The timeline starts at the first timestamp seen, so transcriptions must come in spoken order.
+ */
+export function createTimelineFormatter(
+  meeting: Pick<Meeting, 'startedAt'>
+): (timestamp: Date | null) => string | null {
+  let origin: number | undefined;
+
+  return (timestamp) => {
+    if (!timestamp) return null;
+    origin ??= SubtitleUtil.timelineOrigin(meeting, timestamp);
+    return formatOffset(timestamp.getTime() - origin);
+  };
+}
@@ -0,0 +1,54 @@
+import { MeetingExporter } from './types/export.types.js';
+import { jsonExporter } from './exporters/json.exporter.js';
+import { textExporter } from './exporters/text.exporter.js';
+import { csvExporter } from './exporters/csv.exporter.js';
+import { markdownExporter } from './exporters/markdown.exporter.js';
+import { icsExporter } from './exporters/ics.exporter.js';
+import { srtExporter, vttExporter } from './exporters/subtitle.exporter.js';
+import { pdfExporter, docxExporter } from './exporters/report.exporter.js';
+
+/**
+ * Exporter Registry
+ * Export formats by name
+ */
+export class ExporterRegistry {
+  private exporters: Map<string, MeetingExporter> = new Map();
+
+  constructor(exporters: MeetingExporter[] = []) {
+    exporters.forEach((exporter) => this.register(exporter));
+  }
+
+  /**
+   * Add an export format, replacing any exporter registered for the same format
+   */
+  register(exporter: MeetingExporter): void {
+    this.exporters.set(exporter.format, exporter);
+  }
+
+  /**
+   * Get the exporter of a format
+   */
+  get(format: string): MeetingExporter | undefined {
+    return this.exporters.get(format);
+  }
+
+  /**
+   * Names of all registered formats
+   */
+  getFormats(): string[] {
+    return [...this.exporters.keys()];
+  }
+}
+
+// Export singleton instance with the built-in formats
+export const exporterRegistry = new ExporterRegistry([
+  jsonExporter,
+  textExporter,
+  csvExporter,
+  markdownExporter,
+  icsExporter,
+  srtExporter,
+  vttExporter,
+  pdfExporter,
+  docxExporter,
+]);
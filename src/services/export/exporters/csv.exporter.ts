@@ -0,0 +1,29 @@
+import { ExportContext, MeetingExporter } from '../types/export.types.js';
+import { createTimelineFormatter, escapeCsv } from '../export-format.js';
+
+/**
+ * CSV Exporter
+ * The transcript as a table, one row per segment
+ */
+export class CsvExporter implements MeetingExporter {
+  readonly format = 'csv';
+  readonly contentType = 'text/csv; charset=utf-8';
+  readonly extension = 'csv';
+
+  async *export(context: ExportContext): AsyncGenerator<string> {
+    const formatTimestamp = createTimelineFormatter(context.meeting);
+
+    yield 'Timestamp,Speaker,Text,Confidence\n';
+    for await (const transcription of context.transcriptions()) {
+      yield `${[
+        escapeCsv(formatTimestamp(transcription.timestampStart)),
+        escapeCsv(transcription.speakerName || 'Speaker'),
+        escapeCsv(transcription.text),
+        escapeCsv(transcription.confidence ?? ''),
+      ].join(',')}\n`;
+    }
+  }
+}
+
+// Export singleton instance
+export const csvExporter = new CsvExporter();
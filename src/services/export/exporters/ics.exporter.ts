@@ -0,0 +1,19 @@
+import { ExportContext, MeetingExporter } from '../types/export.types.js';
+import { calendarExportService } from '../../calendar-export.service.js';
+
+/**
+ * iCalendar Exporter
+ * The meeting as a calendar event with its join link and, once completed, its summary
+ */
+export class IcsExporter implements MeetingExporter {
+  readonly format = 'ics';
+  readonly contentType = 'text/calendar; charset=utf-8';
+  readonly extension = 'ics';
+
+  async *export(context: ExportContext): AsyncGenerator<string> {
+    yield calendarExportService.renderMeeting(context.meeting);
+  }
+}
+
+// Export singleton instance
+export const icsExporter = new IcsExporter();
@@ -0,0 +1,47 @@
+import { ExportContext, ExportSection, MeetingExporter } from '../types/export.types.js';
+
+/**
+ * JSON Exporter
+ * The meeting with its relations, as the API returns it
+ */
+export class JsonExporter implements MeetingExporter {
+  readonly format = 'json';
+  readonly contentType = 'application/json; charset=utf-8';
+  readonly extension = 'json';
+
+  async *export(context: ExportContext): AsyncGenerator<string> {
+    const { meeting, sections } = context;
+    const head: Record<string, unknown> = { id: meeting.id };
+
+    if (sections.includes(ExportSection.METADATA)) {
+      Object.assign(head, meeting);
+      for (const relation of ['transcriptions', 'analysisResults', 'actionItems', 'decisions']) {
+        delete head[relation];
+      }
+    }
+    if (sections.includes(ExportSection.ANALYSIS)) {
+      const { analysisResults, actionItems, decisions } = meeting;
+      Object.assign(head, { analysisResults, actionItems, decisions });
+    }
+
+    if (!sections.includes(ExportSection.TRANSCRIPT)) {
+      yield JSON.stringify(head);
+      return;
+    }
+
+    // Leave the object open so the transcript can follow one segment at a time
+    const opening = JSON.stringify(head).slice(0, -1);
+    yield `${opening},"transcriptions":[`;
+
+    let first = true;
+    for await (const transcription of context.transcriptions()) {
+      yield `${first ? '' : ','}${JSON.stringify(transcription)}`;
+      first = false;
+    }
+
+    yield ']}';
+  }
+}
+
+// Export singleton instance
+export const jsonExporter = new JsonExporter();
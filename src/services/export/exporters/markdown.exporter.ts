@@ -0,0 +1,108 @@
+import { ExportContext, ExportSection, MeetingExporter } from '../types/export.types.js';
+import { createTimelineFormatter, escapeMarkdown } from '../export-format.js';
+
+/**
+ * Markdown Exporter
+ * Meeting notes for wikis and docs; all meeting content is escaped so it shows as written
+ */
+export class MarkdownExporter implements MeetingExporter {
+  readonly format = 'md';
+  readonly contentType = 'text/markdown; charset=utf-8';
+  readonly extension = 'md';
+
+  async *export(context: ExportContext): AsyncGenerator<string> {
+    const { meeting, sections } = context;
+
+    yield `# ${escapeMarkdown(meeting.title)}\n\n`;
+
+    if (sections.includes(ExportSection.METADATA)) {
+      const date = meeting.startedAt ?? meeting.scheduledAt ?? meeting.createdAt;
+      yield `**Date:** ${date.toISOString()}\n\n`;
+      if (meeting.description) {
+        yield `**Description:** ${escapeMarkdown(meeting.description)}\n\n`;
+      }
+      if (meeting.platform) {
+        yield `**Platform:** ${escapeMarkdown(meeting.platform)}\n\n`;
+      }
+      yield `**Status:** ${escapeMarkdown(meeting.status)}\n\n`;
+      yield '---\n\n';
+    }
+
+    if (sections.includes(ExportSection.TRANSCRIPT)) {
+      yield '## Transcriptions\n\n';
+
+      const formatTimestamp = createTimelineFormatter(meeting);
+      let empty = true;
+      for await (const transcription of context.transcriptions()) {
+        const timestamp = formatTimestamp(transcription.timestampStart) ?? '--:--:--';
+        const speaker = escapeMarkdown(transcription.speakerName || 'Speaker');
+        yield `**[${timestamp}] ${speaker}:** ${escapeMarkdown(transcription.text)}\n\n`;
+        empty = false;
+      }
+      if (empty) yield '*No transcriptions available.*\n\n';
+    }
+
+    if (sections.includes(ExportSection.ANALYSIS)) {
+      yield* this.renderAnalysis(context);
+    }
+  }
+
+  private *renderAnalysis(context: ExportContext): Generator<string> {
+    const { meeting } = context;
+    const trackedActionItems = meeting.actionItems || [];
+
+    if (trackedActionItems.length > 0) {
+      yield '---\n\n## Action Items\n\n';
+      for (const item of trackedActionItems) {
+        const details = [
+          item.owner ? `owner: ${escapeMarkdown(item.owner)}` : null,
+          item.dueDate ? `due: ${item.dueDate.toISOString().slice(0, 10)}` : null,
+          `priority: ${escapeMarkdown(item.priority)}`,
+        ].filter(Boolean);
+        const done = item.status === 'done' ? 'x' : ' ';
+        yield `- [${done}] ${escapeMarkdown(item.description)} (${details.join(', ')})\n`;
+      }
+      yield '\n';
+    }
+
+    if (meeting.decisions?.length) {
+      yield '---\n\n## Decisions\n\n';
+      for (const decision of meeting.decisions) {
+        const rationale = decision.rationale ? ` (${escapeMarkdown(decision.rationale)})` : '';
+        yield `- ${escapeMarkdown(decision.description)}${rationale}\n`;
+      }
+      yield '\n';
+    }
+
+    yield '---\n\n## Analysis Results\n\n';
+    if (!meeting.analysisResults?.length) {
+      yield '*No analysis results available.*\n\n';
+      return;
+    }
+
+    for (const analysis of meeting.analysisResults) {
+      yield `### ${escapeMarkdown(analysis.analysisType)}\n\n`;
+      if (analysis.summary) yield `${escapeMarkdown(analysis.summary)}\n\n`;
+
+      // Analyses from before action items were tracked only have the extracted JSON
+      if (trackedActionItems.length === 0 && Array.isArray(analysis.actionItems)) {
+        const descriptions = analysis.actionItems
+          .map((item) =>
+            item && typeof item === 'object' && 'description' in item ? item.description : item
+          )
+          .filter((description): description is string => typeof description === 'string');
+
+        if (descriptions.length > 0) {
+          yield '**Action Items:**\n\n';
+          for (const description of descriptions) {
+            yield `- ${escapeMarkdown(description)}\n`;
+          }
+          yield '\n';
+        }
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const markdownExporter = new MarkdownExporter();
@@ -0,0 +1,82 @@
+import { Transcription } from '@prisma/client';
+import { ExportContext, ExportSection, MeetingExporter } from '../types/export.types.js';
+import { ReportFormat, ReportOptions, ReportSection } from '../../../types/report.types.js';
+import { reportService } from '../../report/report.service.js';
+import { reportTemplateService } from '../../report/report-template.service.js';
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+/**
+ * Report Exporter
+ * Meeting reports laid out with the user's report template. Documents are built whole, so the
+ * transcript is only loaded when the report has a transcript appendix.
+ */
+export class ReportExporter implements MeetingExporter {
+  readonly extension: string;
+  readonly contentType: string;
+
+  constructor(readonly format: ReportFormat) {
+    this.extension = format;
+    this.contentType = CONTENT_TYPES[format];
+  }
+
+  async prepare(context: ExportContext): Promise<void> {
+    const { templateId } = context.options;
+    if (templateId) {
+      await reportTemplateService.getOwnedTemplate(templateId, context.meeting.userId);
+    }
+  }
+
+  async *export(context: ExportContext): AsyncGenerator<Buffer> {
+    const options = this.getReportOptions(context);
+    if (options.includeTranscript === undefined) {
+      const template = await reportTemplateService.resolveTemplate(
+        context.meeting.userId,
+        options.templateId
+      );
+      options.includeTranscript = template?.includeTranscript ?? false;
+    }
+
+    const transcriptions: Transcription[] = [];
+    if (options.includeTranscript) {
+      for await (const transcription of context.transcriptions()) {
+        transcriptions.push(transcription);
+      }
+    }
+
+    yield await reportService.renderReport(
+      { ...context.meeting, transcriptions },
+      this.format,
+      options
+    );
+  }
+
+  /**
+   * Report sections and transcript appendix for the export sections picked, if any
+   */
+  private getReportOptions(context: ExportContext): ReportOptions {
+    const { templateId, includeTranscript, sections } = context.options;
+    if (!sections) {
+      return { templateId, includeTranscript };
+    }
+
+    const reportSections = Object.values(ReportSection).filter((section) =>
+      section === ReportSection.METADATA
+        ? sections.includes(ExportSection.METADATA)
+        : sections.includes(ExportSection.ANALYSIS)
+    );
+
+    return {
+      templateId,
+      includeTranscript: includeTranscript ?? sections.includes(ExportSection.TRANSCRIPT),
+      sections: reportSections,
+    };
+  }
+}
+
+// Export singleton instances
+export const pdfExporter = new ReportExporter('pdf');
+export const docxExporter = new ReportExporter('docx');
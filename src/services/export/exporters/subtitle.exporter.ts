@@ -0,0 +1,75 @@
+import { Transcription } from '@prisma/client';
+import { ExportContext, MeetingExporter } from '../types/export.types.js';
+import { transcriptionRepository } from '../../../repositories/index.js';
+import { AppError } from '../../../middlewares/error-handler.js';
+import {
+  SubtitleCue,
+  SubtitleSegment,
+  SubtitleUtil,
+  WEBVTT_HEADER,
+} from '../../../utils/subtitle.util.js';
+
+/**
+ * Subtitle Exporter
+ * Captions for the meeting recording, timed from the start of the meeting. SRT has no voice
+ * tags, so speakers are a "Speaker:" prefix there.
+ */
+export class SubtitleExporter implements MeetingExporter {
+  readonly extension: string;
+  readonly contentType: string;
+
+  constructor(readonly format: 'srt' | 'vtt') {
+    this.extension = format;
+    this.contentType =
+      format === 'srt' ? 'application/x-subrip; charset=utf-8' : 'text/vtt; charset=utf-8';
+  }
+
+  async prepare(context: ExportContext): Promise<void> {
+    const timed = await transcriptionRepository.count({
+      meetingId: context.meeting.id,
+      timestampStart: { not: null },
+    });
+    if (timed === 0) {
+      throw new AppError('Meeting has no timed transcriptions for subtitles', 404);
+    }
+  }
+
+  async *export(context: ExportContext): AsyncGenerator<string> {
+    if (this.format === 'vtt') yield WEBVTT_HEADER;
+
+    // Each segment is written once the next one is known, which caps its estimated end
+    let origin: number | undefined;
+    let previous: Transcription | undefined;
+    let sequence = 0;
+
+    const render = (transcription: Transcription, next?: Date): string =>
+      this.buildCues(SubtitleUtil.toSegment(transcription, origin!, next))
+        .map((cue) => {
+          sequence++;
+          const block =
+            this.format === 'srt'
+              ? SubtitleUtil.formatSrtCue(cue, sequence)
+              : SubtitleUtil.formatVttCue(cue);
+          return this.format === 'srt' && sequence === 1 ? block : `\n${block}`;
+        })
+        .join('');
+
+    for await (const transcription of context.transcriptions()) {
+      if (!transcription.timestampStart || !transcription.text.trim()) continue;
+
+      origin ??= SubtitleUtil.timelineOrigin(context.meeting, transcription.timestampStart);
+      if (previous) yield render(previous, transcription.timestampStart);
+      previous = transcription;
+    }
+
+    if (previous) yield render(previous);
+  }
+
+  private buildCues(segment: SubtitleSegment): SubtitleCue[] {
+    return SubtitleUtil.buildCues([segment], { labelSpeakers: this.format === 'srt' });
+  }
+}
+
+// Export singleton instances
+export const srtExporter = new SubtitleExporter('srt');
+export const vttExporter = new SubtitleExporter('vtt');
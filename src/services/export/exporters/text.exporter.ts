@@ -0,0 +1,68 @@
+import { ExportContext, ExportSection, MeetingExporter } from '../types/export.types.js';
+import { createTimelineFormatter, toSingleLine } from '../export-format.js';
+
+/**
+ * Plain Text Exporter
+ * One line per transcript segment, for reading or pasting into other tools
+ */
+export class TextExporter implements MeetingExporter {
+  readonly format = 'txt';
+  readonly contentType = 'text/plain; charset=utf-8';
+  readonly extension = 'txt';
+
+  async *export(context: ExportContext): AsyncGenerator<string> {
+    const { meeting, sections } = context;
+
+    if (sections.includes(ExportSection.METADATA)) {
+      const date = meeting.startedAt ?? meeting.scheduledAt ?? meeting.createdAt;
+      yield `Title: ${toSingleLine(meeting.title)}\n`;
+      yield `Date: ${date.toISOString()}\n`;
+      yield `Status: ${meeting.status}\n`;
+      yield `Description: ${toSingleLine(meeting.description || 'N/A')}\n\n`;
+    }
+
+    if (sections.includes(ExportSection.TRANSCRIPT)) {
+      yield 'TRANSCRIPTIONS:\n';
+
+      const formatTimestamp = createTimelineFormatter(meeting);
+      let empty = true;
+      for await (const transcription of context.transcriptions()) {
+        const timestamp = formatTimestamp(transcription.timestampStart) ?? '--:--:--';
+        const speaker = toSingleLine(transcription.speakerName || 'Speaker');
+        yield `[${timestamp}] ${speaker}: ${toSingleLine(transcription.text)}\n`;
+        empty = false;
+      }
+      if (empty) yield 'No transcriptions available.\n';
+      yield '\n';
+    }
+
+    if (sections.includes(ExportSection.ANALYSIS)) {
+      yield 'ANALYSIS:\n';
+      for (const analysis of meeting.analysisResults || []) {
+        yield `Type: ${analysis.analysisType}\n`;
+        if (analysis.summary) yield `Summary: ${toSingleLine(analysis.summary)}\n`;
+        yield '\n';
+      }
+
+      if (meeting.actionItems?.length) {
+        yield 'ACTION ITEMS:\n';
+        for (const item of meeting.actionItems) {
+          const owner = item.owner ? ` (${item.owner})` : '';
+          yield `- [${item.status}] ${toSingleLine(item.description)}${owner}\n`;
+        }
+        yield '\n';
+      }
+
+      if (meeting.decisions?.length) {
+        yield 'DECISIONS:\n';
+        for (const decision of meeting.decisions) {
+          yield `- ${toSingleLine(decision.description)}\n`;
+        }
+        yield '\n';
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const textExporter = new TextExporter();
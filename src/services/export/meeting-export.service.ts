@@ -0,0 +1,177 @@
+import { Readable } from 'stream';
+import archiver from 'archiver';
+import { Meeting, Transcription } from '@prisma/client';
+import { meetingRepository, transcriptionRepository } from '../../repositories/index.js';
+import { MeetingWithRelations } from '../../types/meeting.types.js';
+import {
+  ExportContext,
+  ExportSection,
+  MeetingExporter,
+  MeetingExportOptions,
+} from './types/export.types.js';
+import { exporterRegistry } from './exporter.registry.js';
+import { AppError } from '../../middlewares/error-handler.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Meeting Export Service
+ * Streams meetings through the registered exporters, one file or many in a ZIP archive
+ */
+export class MeetingExportService {
+  private readonly TRANSCRIPTION_PAGE_SIZE = 500;
+  private readonly MAX_BULK_MEETINGS = 100;
+
+  /**
+   * Get the exporter of a format, JSON by default
+   */
+  getExporter(format: string = 'json'): MeetingExporter {
+    const exporter = exporterRegistry.get(format);
+    if (!exporter) {
+      const formats = exporterRegistry.getFormats().join(', ');
+      throw new AppError(`Unsupported export format: ${format}. Use one of ${formats}`, 400);
+    }
+
+    return exporter;
+  }
+
+  /**
+   * Export a meeting the user owns
+   * Problems the exporter can tell in advance are thrown before the stream starts.
+   */
+  async exportMeeting(
+    meetingId: string,
+    userId: string,
+    exporter: MeetingExporter,
+    options: MeetingExportOptions = {}
+  ): Promise<Readable> {
+    const meeting = (await meetingRepository.findByIdForExport(meetingId)) as
+      | MeetingWithRelations
+      | null;
+    if (!meeting) {
+      throw new AppError('Meeting not found', 404);
+    }
+
+    if (meeting.userId !== userId) {
+      throw new AppError('Unauthorized access to meeting', 403);
+    }
+
+    const context = this.createContext(meeting, options);
+    await exporter.prepare?.(context);
+
+    return Readable.from(exporter.export(context));
+  }
+
+  /**
+   * Export meetings the user owns as a ZIP archive with one file per meeting
+   * Meetings are loaded one at a time while the archive is written.
+   */
+  async exportMeetings(
+    meetingIds: string[],
+    userId: string,
+    exporter: MeetingExporter,
+    options: MeetingExportOptions = {}
+  ): Promise<Readable> {
+    const ids = [...new Set(meetingIds)];
+    if (ids.length > this.MAX_BULK_MEETINGS) {
+      const message = `At most ${this.MAX_BULK_MEETINGS} meetings can be exported at once`;
+      throw new AppError(message, 400);
+    }
+
+    const meetings: Meeting[] = await meetingRepository.findAll({
+      where: { id: { in: ids }, userId },
+      orderBy: { createdAt: 'asc' },
+    });
+    const missing = ids.filter((id) => !meetings.some((meeting) => meeting.id === id));
+    if (missing.length > 0) {
+      throw new AppError(`Meetings not found: ${missing.join(', ')}`, 404);
+    }
+
+    for (const meeting of meetings) {
+      try {
+        await exporter.prepare?.(this.createContext(meeting, options));
+      } catch (error) {
+        if (error instanceof AppError) {
+          throw new AppError(`${meeting.title}: ${error.message}`, error.statusCode);
+        }
+        throw error;
+      }
+    }
+
+    const archive = archiver('zip', { zlib: { level: 6 } });
+    for (const meeting of meetings) {
+      archive.append(Readable.from(this.streamMeeting(meeting.id, exporter, options)), {
+        name: this.getEntryName(meeting, exporter),
+      });
+    }
+    archive.finalize().catch((error) => {
+      // Also emitted as an error of the archive stream, which fails the download
+      logger.error('Failed to write export archive', { userId, error: String(error) });
+    });
+
+    return archive;
+  }
+
+  /**
+   * File name of a single meeting export
+   */
+  getFilename(meetingId: string, exporter: MeetingExporter): string {
+    return `meeting-${meetingId}.${exporter.extension}`;
+  }
+
+  private async *streamMeeting(
+    meetingId: string,
+    exporter: MeetingExporter,
+    options: MeetingExportOptions
+  ): AsyncGenerator<string | Buffer> {
+    const meeting = (await meetingRepository.findByIdForExport(meetingId)) as
+      | MeetingWithRelations
+      | null;
+    if (!meeting) {
+      throw new AppError('Meeting not found', 404);
+    }
+
+    yield* exporter.export(this.createContext(meeting, options));
+  }
+
+  private createContext(
+    meeting: MeetingWithRelations,
+    options: MeetingExportOptions
+  ): ExportContext {
+    return {
+      meeting,
+      sections: options.sections?.length ? options.sections : Object.values(ExportSection),
+      options,
+      transcriptions: () => this.readTranscriptions(meeting.id),
+    };
+  }
+
+  private async *readTranscriptions(meetingId: string): AsyncGenerator<Transcription> {
+    for (let skip = 0; ; skip += this.TRANSCRIPTION_PAGE_SIZE) {
+      const page = await transcriptionRepository.findByMeetingId(meetingId, {
+        skip,
+        take: this.TRANSCRIPTION_PAGE_SIZE,
+        orderBy: [{ timestampStart: 'asc' }, { id: 'asc' }],
+      });
+      yield* page;
+
+      if (page.length < this.TRANSCRIPTION_PAGE_SIZE) return;
+    }
+  }
+
+  /**
+   * Archive entry name: the meeting title, made safe for file systems, and its ID
+   */
+  private getEntryName(meeting: Meeting, exporter: MeetingExporter): string {
+    const title = meeting.title
+      .normalize('NFKD')
+      .replace(/[^\w\s-]/g, '')
+      .trim()
+      .replace(/\s+/g, '-')
+      .slice(0, 60);
+
+    return `${title ? `${title}-` : ''}${meeting.id}.${exporter.extension}`;
+  }
+}
+
+// Export singleton instance
+export const meetingExportService = new MeetingExportService();
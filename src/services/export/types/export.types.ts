@@ -0,0 +1,53 @@
+import { Transcription } from '@prisma/client';
+import { MeetingWithRelations } from '../../../types/meeting.types.js';
+
+/**
+ * Parts of a meeting an export can be limited to
+ */
+export enum ExportSection {
+  METADATA = 'metadata',
+  TRANSCRIPT = 'transcript',
+  ANALYSIS = 'analysis', // Analysis results, action items and decisions
+}
+
+/**
+ * Export options taken from the request
+ */
+export interface MeetingExportOptions {
+  sections?: ExportSection[]; // All sections when not given
+  templateId?: string; // Report template for PDF and DOCX
+  includeTranscript?: boolean; // Transcript appendix of PDF and DOCX, overrides the template
+}
+
+/**
+ * What an exporter gets to write a meeting
+ */
+export interface ExportContext {
+  meeting: MeetingWithRelations; // Without transcriptions, read them through `transcriptions()`
+  sections: ExportSection[];
+  options: MeetingExportOptions;
+  /**
+   * Transcriptions in spoken order, loaded page by page
+   */
+  transcriptions(): AsyncGenerator<Transcription>;
+}
+
+/**
+ * Export format
+ * Exporters yield the file in chunks so large transcripts never have to fit in memory.
+ */
+export interface MeetingExporter {
+  readonly format: string;
+  readonly contentType: string;
+  readonly extension: string;
+
+  /**
+   * Check the meeting can be exported before any output is sent
+   */
+  prepare?(context: ExportContext): Promise<void>;
+
+  /**
+   * Write the export
+   */
+  export(context: ExportContext): AsyncGenerator<string | Buffer>;
+}
@@ -0,0 +1,114 @@
+import { Role } from '@prisma/client';
+import {
+  searchRepository,
+  FullTextSearchKind,
+  FullTextSearchRow,
+} from '../repositories/index.js';
+import { AppError } from '../middlewares/error-handler.js';
+import { logger } from '../utils/logger.js';
+
+// Control characters never appear in transcripts, so they can mark matches before escaping
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+export const FULL_TEXT_SEARCH_KINDS: FullTextSearchKind[] = ['meeting', 'transcript', 'analysis'];
+
+/**
+ * Full-text search options
+ */
+export interface FullTextSearchOptions {
+  userId?: string; // Admins only: limit results to this user's meetings
+  kinds?: FullTextSearchKind[];
+  startDate?: Date;
+  endDate?: Date;
+  platform?: string;
+  speaker?: string;
+  analysisType?: string;
+  skip?: number;
+  take?: number;
+}
+
+/**
+ * Full-text search hit
+ */
+export type FullTextSearchResult = Omit<FullTextSearchRow, 'headline'> & {
+  snippet: string; // HTML-escaped, matches wrapped in <mark>
+};
+
+/**
+ * Full-Text Search Service
+ * Keyword search with phrases and boolean operators over meetings, transcripts and analyses
+ */
+export class FullTextSearchService {
+  private readonly DEFAULT_TAKE = 20;
+
+  /**
+   * Search meetings visible to the caller
+   * Callers see their own meetings, admins may search every user or a given one
+   */
+  async search(
+    caller: { id: string; role: Role },
+    query: string,
+    options: FullTextSearchOptions = {}
+  ): Promise<{ results: FullTextSearchResult[]; total: number }> {
+    const isAdmin = caller.role === Role.ADMIN;
+
+    if (options.userId && options.userId !== caller.id && !isAdmin) {
+      throw new AppError('You can only access your own resources', 403);
+    }
+
+    const filters = {
+      userId: isAdmin ? options.userId : caller.id,
+      kinds: options.kinds?.length ? options.kinds : FULL_TEXT_SEARCH_KINDS,
+      startDate: options.startDate,
+      endDate: options.endDate,
+      platform: options.platform,
+      speaker: options.speaker,
+      analysisType: options.analysisType,
+    };
+
+    const [rows, total] = await Promise.all([
+      searchRepository.search(query, filters, {
+        skip: options.skip ?? 0,
+        take: options.take ?? this.DEFAULT_TAKE,
+        startSel: MATCH_START,
+        stopSel: MATCH_END,
+      }),
+      searchRepository.count(query, filters),
+    ]);
+
+    logger.debug('Full-text search completed', {
+      callerId: caller.id,
+      scopeUserId: filters.userId || 'all',
+      kinds: filters.kinds,
+      total,
+    });
+
+    return {
+      results: rows.map(({ headline, ...row }) => ({
+        ...row,
+        snippet: this.toSnippet(headline),
+      })),
+      total,
+    };
+  }
+
+  /**
+   * Escape the headline and turn match markers into <mark> tags
+   */
+  private toSnippet(headline: string): string {
+    return headline
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;')
+      .split(MATCH_START)
+      .join('<mark>')
+      .split(MATCH_END)
+      .join('</mark>');
+  }
+}
+
+// Export singleton instance
+export const fullTextSearchService = new FullTextSearchService();
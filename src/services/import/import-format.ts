@@ -0,0 +1,164 @@
+import { ImportWarning } from './types/import.types.js';
+
+/**
+ * Helpers shared by the transcript parsers
+ */
+
+// h:mm:ss.fff, mm:ss.fff or m:ss, with "," or "." before the fraction (SRT uses ",")
+const TIMESTAMP = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d+))?$/;
+const TIMING = /^(\S+)\s+-->\s+(\S+)/;
+const SPEAKER_PREFIX = /^([^:]{1,60}?):\s+(.*)$/;
+const SPEAKER_NAME = /^[\p{L}][\p{L}\p{M}\d .'’()&-]*$/u;
+const MAX_SPEAKER_WORDS = 5;
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&nbsp;': ' ',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&lrm;': '',
+  '&rlm;': '',
+};
+
+/**
+ * Block of consecutive non-empty lines
+ */
+export interface LineBlock {
+  line: number; // 1-based line number of the first line
+  lines: string[];
+}
+
+/**
+ * Decode a transcript file as text, dropping a byte order mark
+ */
+export function decodeText(content: Buffer): string {
+  return content.toString('utf8').replace(/^\uFEFF/, '');
+}
+
+/**
+ * Split text into trimmed lines
+ */
+export function splitLines(text: string): string[] {
+  return text.split(/\r\n|\r|\n/).map((line) => line.trim());
+}
+
+/**
+ * Group lines into blocks separated by blank lines
+ */
+export function splitBlocks(lines: string[]): LineBlock[] {
+  const blocks: LineBlock[] = [];
+  let current: LineBlock | null = null;
+
+  lines.forEach((line, index) => {
+    if (!line) {
+      current = null;
+      return;
+    }
+
+    if (!current) {
+      current = { line: index + 1, lines: [] };
+      blocks.push(current);
+    }
+    current.lines.push(line);
+  });
+
+  return blocks;
+}
+
+/**
+ * Parse a timestamp to milliseconds, or null when it is not one
+ */
+export function parseTimestamp(value: string): number | null {
+  const match = TIMESTAMP.exec(value.trim());
+  if (!match) return null;
+
+  const [, hours, minutes, seconds, fraction] = match;
+  if (hours !== undefined && Number(minutes) >= 60) return null;
+  if (Number(seconds) >= 60) return null;
+
+  // Fractions are decimal: "4.5" is 4500ms, as Teams writes them
+  const milliseconds = fraction ? Math.round(Number(`0.${fraction}`) * 1000) : 0;
+
+  return (
+    ((Number(hours ?? 0) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + milliseconds
+  );
+}
+
+/**
+ * Parse a cue timing line ("00:00:01.000 --> 00:00:04.000", maybe followed by cue settings)
+ * Returns undefined when the line is not a timing line and null when its timestamps are invalid.
+ */
+export function parseTiming(line: string): { start: number; end: number } | null | undefined {
+  if (!line.includes('-->')) return undefined;
+
+  const match = TIMING.exec(line);
+  const start = match ? parseTimestamp(match[1]) : null;
+  const end = match ? parseTimestamp(match[2]) : null;
+  if (start === null || end === null) return null;
+
+  return { start, end };
+}
+
+/**
+ * Read a caption cue: an optional identifier line, the timing line and the cue text
+ * Returns null, with a warning, for blocks that are not a valid cue.
+ */
+export function readCue(
+  block: LineBlock,
+  warnings: ImportWarning[]
+): { start: number; end?: number; text: string } | null {
+  const timingIndex = parseTiming(block.lines[0]) === undefined ? 1 : 0;
+  const timingLine = block.lines[timingIndex];
+  const timing = timingLine === undefined ? undefined : parseTiming(timingLine);
+  const line = block.line + timingIndex;
+
+  if (timing === undefined) {
+    warnings.push({ line: block.line, message: 'Skipped text outside of a cue' });
+    return null;
+  }
+  if (timing === null) {
+    warnings.push({ line, message: `Skipped cue with invalid timing "${timingLine}"` });
+    return null;
+  }
+
+  let end: number | undefined = timing.end;
+  if (timing.end < timing.start) {
+    warnings.push({ line, message: 'Cue ends before it starts, end time ignored' });
+    end = undefined;
+  }
+
+  return { start: timing.start, end, text: block.lines.slice(timingIndex + 1).join('\n') };
+}
+
+/**
+ * Whether text reads like a speaker name rather than a sentence
+ */
+export function isSpeakerName(value: string): boolean {
+  const name = value.trim();
+  return SPEAKER_NAME.test(name) && name.split(/\s+/).length <= MAX_SPEAKER_WORDS;
+}
+
+/**
+ * Split "Speaker: text" into its speaker and text
+ */
+export function splitSpeaker(value: string): { speaker?: string; text: string } {
+  const match = SPEAKER_PREFIX.exec(value);
+  if (match && isSpeakerName(match[1])) {
+    return { speaker: match[1], text: match[2] };
+  }
+
+  return { text: value };
+}
+
+/**
+ * Remove caption markup (tags, inline timestamps) and decode HTML entities
+ */
+export function stripMarkup(value: string): string {
+  return value
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(?:amp|lt|gt|nbsp|quot|#39|lrm|rlm);/g, (entity) => ENTITIES[entity])
+    .replace(/\s+/g, ' ')
+    .trim();
+}
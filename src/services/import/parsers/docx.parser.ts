@@ -0,0 +1,93 @@
+import JSZip from 'jszip';
+import {
+  TranscriptFormat,
+  TranscriptParser,
+  TranscriptParseResult,
+} from '../types/import.types.js';
+import { splitLines } from '../import-format.js';
+import { textParser } from './text.parser.js';
+import { AppError } from '../../../middlewares/error-handler.js';
+
+const XML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+};
+
+// Uploads are at most 10 MB, but compressed XML can expand to far more than fits in memory
+const MAX_DOCUMENT_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Word Document Parser
+ * Teams transcripts downloaded as .docx: one paragraph per line, read like a text transcript.
+ */
+export class DocxParser implements TranscriptParser {
+  readonly format = TranscriptFormat.DOCX;
+
+  async parse(content: Buffer): Promise<TranscriptParseResult> {
+    const xml = await this.readDocumentXml(content);
+
+    const lines = xml
+      .split(/<\/w:p>/)
+      .map((paragraph) =>
+        paragraph
+          .replace(/<w:(?:br|cr)\b[^>]*\/>/g, '\n')
+          .replace(/<w:tab\b[^>]*\/>/g, ' ')
+          .replace(/<w:delText\b[^>]*>[^<]*<\/w:delText>/g, '') // Tracked deletions
+          .replace(/<[^>]*>/g, '')
+          .replace(/&(?:amp|lt|gt|quot|apos);/g, (entity) => XML_ENTITIES[entity])
+      )
+      .flatMap((paragraph) => splitLines(paragraph));
+
+    return textParser.parseLines(lines);
+  }
+
+  private async readDocumentXml(content: Buffer): Promise<string> {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(content);
+    } catch {
+      throw new AppError('Could not read the Word document', 400);
+    }
+
+    const document = zip.file('word/document.xml');
+    if (!document) {
+      throw new AppError('The file is not a Word document', 400);
+    }
+
+    return this.readEntry(document);
+  }
+
+  /**
+   * Inflate a zip entry, giving up as soon as it grows past MAX_DOCUMENT_BYTES
+   * The sizes in the zip directory are not trusted, they are written by whoever made the file.
+   */
+  private readEntry(entry: JSZip.JSZipObject): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let bytes = 0;
+      const stream = entry.nodeStream('nodebuffer');
+
+      const onData = (chunk: Buffer): void => {
+        bytes += chunk.length;
+        if (bytes > MAX_DOCUMENT_BYTES) {
+          stream.removeListener('data', onData);
+          stream.pause();
+          reject(new AppError('The Word document is too large to import', 400));
+          return;
+        }
+        chunks.push(chunk);
+      };
+
+      stream
+        .on('data', onData)
+        .on('error', () => reject(new AppError('Could not read the Word document', 400)))
+        .on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    });
+  }
+}
+
+// Export singleton instance
+export const docxParser = new DocxParser();
@@ -0,0 +1,43 @@
+import {
+  ImportWarning,
+  ParsedSegment,
+  TranscriptFormat,
+  TranscriptParser,
+  TranscriptParseResult,
+} from '../types/import.types.js';
+import {
+  decodeText,
+  readCue,
+  splitBlocks,
+  splitLines,
+  splitSpeaker,
+  stripMarkup,
+} from '../import-format.js';
+
+/**
+ * SRT Parser
+ * Speakers are read from a "Speaker: " prefix, as SRT has no markup for them.
+ */
+export class SrtParser implements TranscriptParser {
+  readonly format = TranscriptFormat.SRT;
+
+  async parse(content: Buffer): Promise<TranscriptParseResult> {
+    const warnings: ImportWarning[] = [];
+    const segments: ParsedSegment[] = [];
+
+    for (const block of splitBlocks(splitLines(decodeText(content)))) {
+      const cue = readCue(block, warnings);
+      if (!cue) continue;
+
+      const { speaker, text } = splitSpeaker(stripMarkup(cue.text));
+      if (!text) continue;
+
+      segments.push({ speaker, text, start: cue.start, end: cue.end, line: block.line });
+    }
+
+    return { segments, warnings };
+  }
+}
+
+// Export singleton instance
+export const srtParser = new SrtParser();
@@ -0,0 +1,114 @@
+import {
+  ImportWarning,
+  ParsedSegment,
+  TranscriptFormat,
+  TranscriptParser,
+  TranscriptParseResult,
+} from '../types/import.types.js';
+import {
+  decodeText,
+  isSpeakerName,
+  parseTimestamp,
+  parseTiming,
+  splitLines,
+  splitSpeaker,
+} from '../import-format.js';
+
+// "[00:01:02] Speaker: text" or "00:01:02 Speaker: text"
+const TIMESTAMPED_LINE = /^\[?((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d+)?)\]?\s+(.+)$/;
+// "Speaker Name  0:03" above the text, as Otter and Teams write them
+const SPEAKER_HEADING = /^(.+?)\s+((?:\d+:)?\d{1,2}:\d{2})$/;
+
+/**
+ * Plain Text Parser
+ * Reads "Speaker: text" lines, optionally starting with a timestamp, speaker headings followed
+ * by paragraphs (Otter, Teams) and timing lines followed by the speaker and text (older Teams).
+ * Lines without a speaker of their own continue the segment above them.
+ */
+export class TextParser implements TranscriptParser {
+  readonly format = TranscriptFormat.TEXT;
+
+  async parse(content: Buffer): Promise<TranscriptParseResult> {
+    return this.parseLines(splitLines(decodeText(content)));
+  }
+
+  /**
+   * Parse transcript lines, already trimmed
+   */
+  parseLines(lines: string[]): TranscriptParseResult {
+    const warnings: ImportWarning[] = [];
+    const segments: ParsedSegment[] = [];
+    let current: ParsedSegment | null = null;
+    let cueTiming: { start: number; end: number; line: number } | null = null;
+
+    const startSegment = (segment: ParsedSegment): void => {
+      current = segment;
+      segments.push(segment);
+    };
+
+    lines.forEach((line, index) => {
+      const lineNumber = index + 1;
+      const next = lines[index + 1];
+
+      if (!line) {
+        current = null;
+        return;
+      }
+
+      const timing = parseTiming(line);
+      if (timing !== undefined) {
+        current = null;
+        cueTiming = timing && { ...timing, line: lineNumber };
+        if (!timing) {
+          warnings.push({ line: lineNumber, message: `Skipped invalid timing "${line}"` });
+        }
+        return;
+      }
+
+      if (cueTiming) {
+        const { start, end } = cueTiming;
+        cueTiming = null;
+        // The speaker has a line of their own when text follows on the next line
+        const { speaker, text } =
+          next && parseTiming(next) === undefined && isSpeakerName(line)
+            ? { speaker: line, text: '' }
+            : splitSpeaker(line);
+        startSegment({ speaker, text, start, end, line: lineNumber });
+        return;
+      }
+
+      const timestamped = TIMESTAMPED_LINE.exec(line);
+      const timestamp = timestamped && parseTimestamp(timestamped[1]);
+      if (timestamped && timestamp !== null) {
+        startSegment({ ...splitSpeaker(timestamped[2]), start: timestamp, line: lineNumber });
+        return;
+      }
+
+      const heading = next ? SPEAKER_HEADING.exec(line) : null;
+      const headingTime = heading && parseTimestamp(heading[2]);
+      if (heading && headingTime !== null && isSpeakerName(heading[1])) {
+        startSegment({ speaker: heading[1], text: '', start: headingTime, line: lineNumber });
+        return;
+      }
+
+      const { speaker, text } = splitSpeaker(line);
+      if (speaker || !current) {
+        startSegment({ speaker, text, line: lineNumber });
+        return;
+      }
+
+      const segment: ParsedSegment = current;
+      segment.text = segment.text ? `${segment.text} ${text}` : text;
+    });
+
+    return {
+      segments: segments
+        .map((segment) => ({ ...segment, text: segment.text.replace(/\s+/g, ' ').trim() }))
+        .filter((segment) => segment.text),
+      warnings,
+    };
+  }
+}
+
+// Export singleton instance
+export const textParser = new TextParser();
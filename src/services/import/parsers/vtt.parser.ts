@@ -0,0 +1,58 @@
+import {
+  ImportWarning,
+  ParsedSegment,
+  TranscriptFormat,
+  TranscriptParser,
+  TranscriptParseResult,
+} from '../types/import.types.js';
+import {
+  decodeText,
+  readCue,
+  splitBlocks,
+  splitLines,
+  splitSpeaker,
+  stripMarkup,
+} from '../import-format.js';
+
+// <v Speaker> or <v.class Speaker>, as Teams writes speakers
+const VOICE_TAG = /<v(?:\.[^\s>]*)?\s+([^>]+)>/;
+const NON_CUE_BLOCK = /^(NOTE|STYLE|REGION)(\s|$)/;
+
+/**
+ * WebVTT Parser
+ * Reads speakers from voice tags (Teams) or a "Speaker: " prefix (Zoom).
+ */
+export class VttParser implements TranscriptParser {
+  readonly format = TranscriptFormat.VTT;
+
+  async parse(content: Buffer): Promise<TranscriptParseResult> {
+    const warnings: ImportWarning[] = [];
+    const segments: ParsedSegment[] = [];
+    const blocks = splitBlocks(splitLines(decodeText(content)));
+
+    if (!blocks[0]?.lines[0].startsWith('WEBVTT')) {
+      warnings.push({ line: 1, message: 'Missing WEBVTT header' });
+    }
+
+    blocks.forEach((block, index) => {
+      if (index === 0 && block.lines[0].startsWith('WEBVTT')) return;
+      if (NON_CUE_BLOCK.test(block.lines[0])) return;
+
+      const cue = readCue(block, warnings);
+      if (!cue) return;
+
+      const voice = VOICE_TAG.exec(cue.text);
+      const { speaker, text } = voice
+        ? { speaker: stripMarkup(voice[1]), text: stripMarkup(cue.text) }
+        : splitSpeaker(stripMarkup(cue.text));
+      if (!text) return;
+
+      segments.push({ speaker, text, start: cue.start, end: cue.end, line: block.line });
+    });
+
+    return { segments, warnings };
+  }
+}
+
+// Export singleton instance
+export const vttParser = new VttParser();
@@ -0,0 +1,268 @@
+import {
+  meetingRepository,
+  transcriptChunkRepository,
+  transcriptionRepository,
+} from '../../repositories/index.js';
+import { CreateTranscriptionData } from '../../repositories/transcription.repository.js';
+import {
+  ImportWarning,
+  ParsedSegment,
+  TranscriptFormat,
+  TranscriptImportOptions,
+  TranscriptImportResult,
+  TranscriptParser,
+  TranscriptParseResult,
+} from './types/import.types.js';
+import { decodeText } from './import-format.js';
+import { vttParser } from './parsers/vtt.parser.js';
+import { srtParser } from './parsers/srt.parser.js';
+import { docxParser } from './parsers/docx.parser.js';
+import { textParser } from './parsers/text.parser.js';
+import { analysisQueueService } from '../ai/analysis-queue.service.js';
+import { AnalysisType } from '../ai/types/analysis.types.js';
+import { semanticSearchService } from '../semantic-search.service.js';
+import { speakerService } from '../speaker.service.js';
+import { transcriptRevisionService } from '../transcript-revision.service.js';
+import { TranscriptRevisionAction } from '../../types/transcript-revision.types.js';
+import { READING_CHARS_PER_SECOND } from '../../utils/subtitle.util.js';
+import { AppError } from '../../middlewares/error-handler.js';
+import { logger } from '../../utils/logger.js';
+
+const PARSERS: Record<TranscriptFormat, TranscriptParser> = {
+  [TranscriptFormat.VTT]: vttParser,
+  [TranscriptFormat.SRT]: srtParser,
+  [TranscriptFormat.DOCX]: docxParser,
+  [TranscriptFormat.TEXT]: textParser,
+};
+
+// Segment with a speaker name settled and a place on the timeline
+type TimedSegment = ParsedSegment & { start: number };
+
+/**
+ * Transcript Import Service
+ * Stores transcripts exported by meeting platforms as a meeting's transcriptions
+ */
+export class TranscriptImportService {
+  private readonly INSERT_BATCH_SIZE = 1000;
+  private readonly MAX_WARNINGS = 100;
+
+  /**
+   * Recognise the format of a transcript file from its content
+   */
+  detectFormat(content: Buffer): TranscriptFormat {
+    if (content.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))) {
+      return TranscriptFormat.DOCX; // ZIP archive
+    }
+
+    const head = decodeText(content.subarray(0, 4096)).trimStart();
+    if (head.startsWith('WEBVTT')) {
+      return TranscriptFormat.VTT;
+    }
+    if (/^\d+\s*\r?\n\s*\S+\s+-->/.test(head)) {
+      return TranscriptFormat.SRT;
+    }
+
+    return TranscriptFormat.TEXT;
+  }
+
+  /**
+   * Import a transcript file into a meeting the user owns
+   * Times in the file are offsets from the start of the recording and are stored the same way
+   * as the bot stores them.
+   */
+  async importTranscript(
+    meetingId: string,
+    userId: string,
+    content: Buffer,
+    options: TranscriptImportOptions = {}
+  ): Promise<TranscriptImportResult> {
+    const meeting = await meetingRepository.findById(meetingId);
+    if (!meeting) {
+      throw new AppError('Meeting not found', 404);
+    }
+
+    if (meeting.userId !== userId) {
+      throw new AppError('Unauthorized access to meeting', 403);
+    }
+
+    if (meeting.status === 'in_progress') {
+      throw new AppError('Cannot import a transcript while the meeting is in progress', 409);
+    }
+
+    const existing = await transcriptionRepository.countByMeetingId(meetingId);
+    if (existing > 0 && !options.replace) {
+      throw new AppError('Meeting already has a transcript. Set replace to overwrite it', 409);
+    }
+
+    if (content.length === 0) {
+      throw new AppError('Transcript file is empty', 400);
+    }
+
+    const format = options.format ?? this.detectFormat(content);
+    const { segments, warnings } = this.normalize(await PARSERS[format].parse(content));
+    if (segments.length === 0) {
+      throw new AppError(`No transcript found in the file (read as ${format})`, 400);
+    }
+
+    if (existing > 0) {
+      await transcriptChunkRepository.deleteByMeetingId(meetingId);
+      await transcriptionRepository.deleteByMeetingId(meetingId);
+    }
+
+    for (let index = 0; index < segments.length; index += this.INSERT_BATCH_SIZE) {
+      const batch = segments.slice(index, index + this.INSERT_BATCH_SIZE);
+      await transcriptionRepository.bulkCreate(
+        batch.map(
+          (segment): CreateTranscriptionData => ({
+            meetingId,
+            speakerName: segment.speaker,
+            text: segment.text,
+            timestampStart: new Date(segment.start),
+            timestampEnd: segment.end === undefined ? undefined : new Date(segment.end),
+          })
+        )
+      );
+    }
+
+    const speakers = [
+      ...new Set(segments.map((segment) => segment.speaker).filter((s): s is string => !!s)),
+    ];
+    const lastEnd = segments.reduce(
+      (latest, segment) => Math.max(latest, segment.end ?? segment.start),
+      0
+    );
+    const duration = lastEnd > 0 ? lastEnd / 1000 : null;
+
+    await meetingRepository.update(meetingId, {
+      metadata: {
+        ...(meeting.metadata as object),
+        transcription: {
+          totalSegments: segments.length,
+          totalDuration: duration,
+          speakers,
+          completedAt: new Date(),
+          importedFrom: format,
+        },
+      },
+    });
+
+    if (existing > 0) {
+      // Too large to keep segment by segment; analyses of the old transcript become stale
+      await transcriptRevisionService.record(
+        meetingId,
+        userId,
+        TranscriptRevisionAction.REPLACE,
+        null,
+        { summary: `Replaced by an imported ${format} transcript` }
+      );
+    }
+
+    await this.applySeriesMappings(meetingId);
+
+    // Embed the new transcript for semantic search
+    semanticSearchService.scheduleIndexing(meetingId, { flush: true });
+
+    const result: TranscriptImportResult = {
+      meetingId,
+      format,
+      imported: segments.length,
+      replaced: existing,
+      speakers,
+      duration,
+      warnings,
+    };
+
+    if (options.analyze) {
+      const job = await analysisQueueService.enqueue(
+        meetingId,
+        userId,
+        Object.values(AnalysisType)
+      );
+      result.analysisJobId = job.jobId;
+    }
+
+    logger.info('Transcript imported', {
+      meetingId,
+      format,
+      imported: result.imported,
+      replaced: existing,
+      warnings: warnings.length,
+    });
+
+    return result;
+  }
+
+  /**
+   * Name speakers as they were named in earlier meetings of the series
+   * The transcript is already stored, so a failure only gets logged
+   */
+  private async applySeriesMappings(meetingId: string): Promise<void> {
+    try {
+      await speakerService.applySeriesMappings(meetingId);
+    } catch (error) {
+      logger.error('Failed to apply speaker names from series', { meetingId, error });
+    }
+  }
+
+  /**
+   * Settle speaker names and place every segment on the timeline
+   * Spellings of a speaker that differ only in case or spacing become the first one seen.
+   * Segments without a time follow the one before them, at subtitle reading pace.
+   */
+  private normalize(parsed: TranscriptParseResult): {
+    segments: TimedSegment[];
+    warnings: ImportWarning[];
+  } {
+    const warnings = [...parsed.warnings];
+    const speakerNames = new Map<string, string>();
+    let cursor = 0;
+    let estimated = 0;
+    let unattributed = 0;
+
+    const segments = parsed.segments.map((segment): TimedSegment => {
+      const name = segment.speaker
+        ?.replace(/^(?:>>|-)\s*/, '')
+        .replace(/^\[(.*)\]$/, '$1')
+        .replace(/\s+/g, ' ')
+        .trim();
+      let speaker: string | undefined;
+      if (name) {
+        const key = name.toLowerCase();
+        if (!speakerNames.has(key)) speakerNames.set(key, name);
+        speaker = speakerNames.get(key);
+      } else {
+        unattributed++;
+      }
+
+      let start = segment.start;
+      if (start === undefined) {
+        start = cursor;
+        estimated++;
+      }
+      cursor =
+        segment.end ?? start + Math.round((segment.text.length / READING_CHARS_PER_SECOND) * 1000);
+
+      return { ...segment, speaker, start };
+    });
+
+    if (estimated > 0 && estimated < segments.length) {
+      warnings.push({ message: `Segments without a timestamp: ${estimated} (times estimated)` });
+    } else if (estimated > 0) {
+      warnings.push({ message: 'The file has no timestamps; times were estimated' });
+    }
+
+    if (unattributed > 0) {
+      warnings.push({ message: `Segments without a speaker: ${unattributed}` });
+    }
+
+    if (warnings.length > this.MAX_WARNINGS) {
+      const more = warnings.length - this.MAX_WARNINGS;
+      warnings.splice(this.MAX_WARNINGS, more, { message: `${more} more warnings` });
+    }
+
+    return { segments, warnings };
+  }
+}
+
+// Export singleton instance
+export const transcriptImportService = new TranscriptImportService();
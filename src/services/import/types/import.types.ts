@@ -0,0 +1,60 @@
+/**
+ * Transcript file formats that can be imported
+ * Zoom and Teams transcripts are WebVTT files, Otter exports and pasted transcripts are text.
+ */
+export enum TranscriptFormat {
+  VTT = 'vtt',
+  SRT = 'srt',
+  DOCX = 'docx',
+  TEXT = 'txt',
+}
+
+/**
+ * Segment read from a transcript file
+ * Times are milliseconds from the start of the recording.
+ */
+export interface ParsedSegment {
+  speaker?: string;
+  text: string;
+  start?: number;
+  end?: number;
+  line?: number; // Where the segment starts in the file, for warnings
+}
+
+/**
+ * Problem found while reading a transcript that did not stop the import
+ */
+export interface ImportWarning {
+  line?: number;
+  message: string;
+}
+
+export interface TranscriptParseResult {
+  segments: ParsedSegment[];
+  warnings: ImportWarning[];
+}
+
+/**
+ * Reads one transcript file format
+ */
+export interface TranscriptParser {
+  format: TranscriptFormat;
+  parse(content: Buffer): Promise<TranscriptParseResult>;
+}
+
+export interface TranscriptImportOptions {
+  format?: TranscriptFormat; // Detected from the content when not given
+  replace?: boolean; // Overwrite the meeting's existing transcript
+  analyze?: boolean; // Queue analysis once the transcript is stored
+}
+
+export interface TranscriptImportResult {
+  meetingId: string;
+  format: TranscriptFormat;
+  imported: number;
+  replaced: number;
+  speakers: string[];
+  duration: number | null; // Seconds
+  warnings: ImportWarning[];
+  analysisJobId?: string;
+}
@@ -0,0 +1,297 @@
+import { Meeting, MeetingSeries } from '@prisma/client';
+import {
+  meetingRepository,
+  meetingSeriesRepository,
+  actionItemRepository,
+  CreateMeetingSeriesData,
+  UpdateMeetingSeriesData,
+} from '../repositories/index.js';
+import { seriesDigestService } from './ai/series-digest.service.js';
+import { SeriesDigest } from './ai/types/analysis.types.js';
+import { ActionItemWithMeeting } from '../types/action-item.types.js';
+import { AppError } from '../middlewares/error-handler.js';
+import { logger } from '../utils/logger.js';
+import { RecurrenceRuleError, RecurrenceUtil } from '../utils/recurrence.js';
+
+/**
+ * Series view with recent and upcoming occurrences
+ */
+export interface MeetingSeriesView {
+  series: MeetingSeries;
+  pastOccurrences: Meeting[];
+  upcomingOccurrences: Meeting[];
+  carryOverActionItems: ActionItemWithMeeting[];
+  digest: SeriesDigest | null;
+}
+
+// Changing any of these replaces the upcoming occurrences nothing has happened to yet
+const OCCURRENCE_FIELDS: (keyof UpdateMeetingSeriesData & keyof MeetingSeries)[] = [
+  'title',
+  'description',
+  'meetingUrl',
+  'platform',
+  'recurrenceRule',
+  'startsAt',
+];
+
+/**
+ * Meeting Series Service
+ * Recurring meetings: creates upcoming occurrences and tracks what carries over between them
+ */
+export class MeetingSeriesService {
+  private readonly MATERIALIZE_HORIZON_DAYS = 7;
+  private readonly PAST_OCCURRENCES = 10;
+  private readonly UPCOMING_OCCURRENCES = 5;
+
+  /**
+   * Create a series and its upcoming occurrences
+   */
+  async createSeries(data: CreateMeetingSeriesData): Promise<MeetingSeries> {
+    const series = await meetingSeriesRepository.create({
+      ...data,
+      recurrenceRule: this.normalizeRule(data.recurrenceRule),
+    });
+
+    await this.materializeSeries(series);
+
+    logger.info('Meeting series created', { seriesId: series.id, userId: data.userId });
+
+    return (await meetingSeriesRepository.findById(series.id)) || series;
+  }
+
+  /**
+   * List series of a user
+   */
+  async getUserSeries(userId: string): Promise<MeetingSeries[]> {
+    return meetingSeriesRepository.findByUserId(userId);
+  }
+
+  /**
+   * Get series and verify the user owns it
+   */
+  async getOwnedSeries(id: string, userId: string): Promise<MeetingSeries> {
+    const series = await meetingSeriesRepository.findById(id);
+    if (!series) {
+      throw new AppError('Meeting series not found', 404);
+    }
+
+    if (series.userId !== userId) {
+      throw new AppError('Unauthorized access to meeting series', 403);
+    }
+
+    return series;
+  }
+
+  /**
+   * Series view: recent and upcoming occurrences, unfinished action items carried over
+   * from earlier occurrences and what changed between the last two summarized meetings
+   */
+  async getSeriesView(id: string, userId: string): Promise<MeetingSeriesView> {
+    const series = await this.getOwnedSeries(id, userId);
+    const now = new Date();
+
+    const [pastOccurrences, upcomingOccurrences] = await Promise.all([
+      meetingRepository.findBySeriesId(id, {
+        before: now,
+        order: 'desc',
+        take: this.PAST_OCCURRENCES,
+      }),
+      meetingRepository.findBySeriesId(id, {
+        after: now,
+        take: this.UPCOMING_OCCURRENCES,
+      }),
+    ]);
+
+    const carryOverActionItems =
+      pastOccurrences.length > 0
+        ? await actionItemRepository.findUnfinishedForMeetings(
+            pastOccurrences.map((meeting) => meeting.id)
+          )
+        : [];
+
+    let digest: SeriesDigest | null = null;
+    try {
+      digest = await seriesDigestService.getLatestDigest(id, pastOccurrences);
+    } catch (error) {
+      // The rest of the view is still useful without an AI provider
+      logger.warn('Failed to build series digest', { seriesId: id, error: String(error) });
+    }
+
+    return { series, pastOccurrences, upcomingOccurrences, carryOverActionItems, digest };
+  }
+
+  /**
+   * Update a series, replacing untouched upcoming occurrences when their details change
+   */
+  async updateSeries(
+    id: string,
+    userId: string,
+    data: UpdateMeetingSeriesData
+  ): Promise<MeetingSeries> {
+    const existing = await this.getOwnedSeries(id, userId);
+
+    if (data.recurrenceRule) {
+      data.recurrenceRule = this.normalizeRule(data.recurrenceRule);
+    }
+
+    const now = new Date();
+    const replaceOccurrences =
+      (data.active !== undefined && data.active !== existing.active) ||
+      OCCURRENCE_FIELDS.some((field) => this.hasChanged(existing[field], data[field]));
+
+    if (replaceOccurrences) {
+      const removed = await meetingRepository.deleteUntouchedSeriesOccurrences(id, now);
+      data.materializedTo = null;
+
+      logger.info('Replacing upcoming series occurrences', {
+        seriesId: id,
+        removed: removed.count,
+      });
+    }
+
+    const series = await meetingSeriesRepository.update(id, data);
+
+    if (replaceOccurrences && series.active) {
+      await this.materializeSeries(series, now);
+      return (await meetingSeriesRepository.findById(id)) || series;
+    }
+
+    return series;
+  }
+
+  /**
+   * Delete a series
+   * Past occurrences are kept as standalone meetings, untouched upcoming ones are removed.
+   */
+  async deleteSeries(id: string, userId: string): Promise<void> {
+    await this.getOwnedSeries(id, userId);
+
+    await meetingRepository.deleteUntouchedSeriesOccurrences(id, new Date());
+    await meetingSeriesRepository.delete(id);
+  }
+
+  /**
+   * Add an existing meeting to a series, in the slot of its scheduled or start time
+   */
+  async attachMeeting(seriesId: string, meetingId: string, userId: string): Promise<Meeting> {
+    await this.getOwnedSeries(seriesId, userId);
+
+    const meeting = await meetingRepository.findById(meetingId);
+    if (!meeting) {
+      throw new AppError('Meeting not found', 404);
+    }
+
+    if (meeting.userId !== userId) {
+      throw new AppError('Unauthorized access to meeting', 403);
+    }
+
+    const occurrenceAt = meeting.scheduledAt ?? meeting.startedAt ?? meeting.createdAt;
+
+    const taken = await meetingRepository.exists({
+      seriesId,
+      occurrenceAt,
+      id: { not: meetingId },
+    });
+    if (taken) {
+      throw new AppError('The series already has a meeting at this time', 409);
+    }
+
+    return meetingRepository.update(meetingId, { seriesId, occurrenceAt });
+  }
+
+  /**
+   * Create upcoming occurrences for every active series
+   * Runs before bot auto-deploy so occurrences starting soon get a bot.
+   */
+  async materializeUpcomingOccurrences(): Promise<number> {
+    const now = new Date();
+    const horizon = this.getHorizon(now);
+    const seriesList = await meetingSeriesRepository.findNeedingOccurrences(horizon);
+    let created = 0;
+
+    for (const series of seriesList) {
+      try {
+        created += await this.materializeSeries(series, now);
+      } catch (error) {
+        logger.error('Failed to create series occurrences', {
+          seriesId: series.id,
+          error: String(error),
+        });
+      }
+    }
+
+    if (created > 0) {
+      logger.info('Created upcoming series occurrences', { series: seriesList.length, created });
+    }
+
+    return created;
+  }
+
+  /**
+   * Create the meetings of a series up to the horizon
+   * Slots already covered are skipped, so deleted occurrences are not brought back.
+   */
+  private async materializeSeries(series: MeetingSeries, now: Date = new Date()): Promise<number> {
+    const horizon = this.getHorizon(now);
+    const from =
+      series.materializedTo && series.materializedTo > now
+        ? new Date(series.materializedTo.getTime() + 1)
+        : now;
+
+    const occurrences = RecurrenceUtil.between(
+      RecurrenceUtil.parse(series.recurrenceRule),
+      series.startsAt,
+      from,
+      horizon
+    );
+
+    const result =
+      occurrences.length > 0
+        ? await meetingRepository.createSeriesOccurrences(
+            occurrences.map((occurrenceAt) => ({
+              userId: series.userId,
+              title: series.title,
+              description: series.description ?? undefined,
+              meetingUrl: series.meetingUrl ?? undefined,
+              platform: series.platform ?? undefined,
+              scheduledAt: occurrenceAt,
+              seriesId: series.id,
+              occurrenceAt,
+            }))
+          )
+        : { count: 0 };
+
+    await meetingSeriesRepository.update(series.id, { materializedTo: horizon });
+
+    return result.count;
+  }
+
+  /**
+   * Validate a recurrence rule and return its normalized form
+   */
+  private normalizeRule(rule: string): string {
+    try {
+      return RecurrenceUtil.stringify(RecurrenceUtil.parse(rule));
+    } catch (error) {
+      if (error instanceof RecurrenceRuleError) {
+        throw new AppError(`Invalid recurrence rule: ${error.message}`, 400);
+      }
+      throw error;
+    }
+  }
+
+  private hasChanged(current: unknown, next: unknown): boolean {
+    if (next === undefined) return false;
+    if (current instanceof Date && next instanceof Date) {
+      return current.getTime() !== next.getTime();
+    }
+    return current !== next;
+  }
+
+  private getHorizon(now: Date): Date {
+    return new Date(now.getTime() + this.MATERIALIZE_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+  }
+}
+
+// Export singleton instance
+export const meetingSeriesService = new MeetingSeriesService();
@@ -34,6 +34,13 @@ export class MeetingService {
    */
   private async invalidateCache(id: string): Promise<void> {
     await cacheService.delete(this.getCacheKey(id));
+    await this.invalidateListCache();
+  }
+
+  /**
+   * Invalidate cached meeting lists, e.g. after meetings were created in bulk
+   */
+  async invalidateListCache(): Promise<void> {
     await cacheService.deletePattern(`${this.CACHE_PREFIX}list:*`);
   }
 
@@ -112,6 +119,22 @@ export class MeetingService {
     return meeting;
   }
 
+  /**
+   * Get meeting and verify the user owns it
+   */
+  async getOwnedMeeting(id: string, userId: string): Promise<Meeting> {
+    const meeting = await meetingRepository.findById(id);
+    if (!meeting) {
+      throw new AppError('Meeting not found', 404);
+    }
+
+    if (meeting.userId !== userId) {
+      throw new AppError('Unauthorized access to meeting', 403);
+    }
+
+    return meeting;
+  }
+
   /**
    * Get meeting with transcriptions
    */
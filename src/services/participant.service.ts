@@ -0,0 +1,120 @@
+import { Participant } from '@prisma/client';
+import {
+  participantRepository,
+  userRepository,
+  CreateParticipantData,
+  UpdateParticipantData,
+} from '../repositories/index.js';
+import { AppError } from '../middlewares/error-handler.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Participant Service
+ * People who speak in a user's meetings, whether or not they have an account
+ */
+export class ParticipantService {
+  /**
+   * List participants of a user's meetings
+   */
+  async getUserParticipants(ownerId: string): Promise<Participant[]> {
+    return participantRepository.findByOwnerId(ownerId);
+  }
+
+  /**
+   * Get participant and verify the user owns it
+   */
+  async getOwnedParticipant(id: string, ownerId: string): Promise<Participant> {
+    const participant = await participantRepository.findById(id);
+    if (!participant) {
+      throw new AppError('Participant not found', 404);
+    }
+
+    if (participant.ownerId !== ownerId) {
+      throw new AppError('Unauthorized access to participant', 403);
+    }
+
+    return participant;
+  }
+
+  /**
+   * Add a participant, linked to the account with their email if there is one
+   */
+  async createParticipant(data: CreateParticipantData): Promise<Participant> {
+    const email = data.email ? normalizeEmail(data.email) : null;
+    if (email) {
+      await this.assertEmailAvailable(data.ownerId, email);
+    }
+
+    const participant = await participantRepository.create({
+      ...data,
+      email,
+      userId: email ? await this.findAccountId(email) : null,
+    });
+
+    logger.info('Participant created', { participantId: participant.id, ownerId: data.ownerId });
+
+    return participant;
+  }
+
+  /**
+   * Update a participant, relinking their account when the email changes
+   */
+  async updateParticipant(
+    id: string,
+    ownerId: string,
+    data: UpdateParticipantData
+  ): Promise<Participant> {
+    const participant = await this.getOwnedParticipant(id, ownerId);
+
+    const update: UpdateParticipantData = { name: data.name };
+    if (data.email !== undefined) {
+      const email = data.email ? normalizeEmail(data.email) : null;
+      if (email && email !== participant.email) {
+        await this.assertEmailAvailable(ownerId, email);
+      }
+      update.email = email;
+      update.userId = email ? await this.findAccountId(email) : null;
+    }
+
+    return participantRepository.update(id, update);
+  }
+
+  /**
+   * Delete a participant
+   * Speakers mapped to them keep their names.
+   */
+  async deleteParticipant(id: string, ownerId: string): Promise<void> {
+    await this.getOwnedParticipant(id, ownerId);
+    await participantRepository.delete(id);
+  }
+
+  /**
+   * Find the user's participant with an email, adding them if there is none
+   */
+  async findOrCreateByEmail(ownerId: string, email: string, name?: string): Promise<Participant> {
+    const existing = await participantRepository.findByEmail(ownerId, normalizeEmail(email));
+    if (existing) {
+      return existing;
+    }
+
+    return this.createParticipant({ ownerId, email, name: name || email.split('@')[0] });
+  }
+
+  private async assertEmailAvailable(ownerId: string, email: string): Promise<void> {
+    if (await participantRepository.findByEmail(ownerId, email)) {
+      throw new AppError(`A participant with email ${email} already exists`, 409);
+    }
+  }
+
+  private async findAccountId(email: string): Promise<string | null> {
+    const user = await userRepository.findOne({ email });
+    return user?.id ?? null;
+  }
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Export singleton instance
+export const participantService = new ParticipantService();
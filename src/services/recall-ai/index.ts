@@ -7,3 +7,4 @@ export * from './types/recall-ai.types.js';
 export * from './recall-ai.service.js';
 export * from './meeting-bot.service.js';
 export * from './recording-pipeline.service.js';
+export * from './recall-webhook.service.js';
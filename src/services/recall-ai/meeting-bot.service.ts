@@ -7,6 +7,7 @@ import {
   BotStorageData,
   RecordingDownload,
   TranscriptionResponse,
+  BotLifecycleEvent,
 } from './types/recall-ai.types.js';
 import { meetingRepository } from '../../repositories/index.js';
 import { AppError } from '../../middlewares/error-handler.js';
@@ -281,6 +282,63 @@ export class MeetingBotService {
     return botStatus;
   }
 
+  /**
+   * Apply a bot lifecycle event pushed by Recall AI
+   * Returns null when no meeting is associated with the bot
+   */
+  async handleLifecycleEvent(event: BotLifecycleEvent): Promise<Meeting | null> {
+    const meeting = await this.getMeetingByBotId(event.botId);
+    if (!meeting) {
+      logger.warn('Received lifecycle event for unknown bot', {
+        botId: event.botId,
+        eventType: event.eventType,
+      });
+      return null;
+    }
+
+    const statusByEvent: Record<BotLifecycleEvent['eventType'], BotStatus> = {
+      bot_joining: BotStatus.JOINING,
+      bot_joined: BotStatus.IN_MEETING,
+      recording_started: BotStatus.RECORDING,
+      recording_stopped: BotStatus.IN_MEETING,
+      bot_left: BotStatus.COMPLETED,
+      error: BotStatus.FAILED,
+    };
+    const status = statusByEvent[event.eventType];
+    const timestamp = new Date(event.timestamp);
+    const metadata = (meeting.metadata || {}) as Record<string, unknown>;
+
+    const botData: BotStorageData = {
+      botId: event.botId,
+      meetingId: meeting.id,
+      status,
+      platform: (meeting.platform ||
+        this.detectPlatform(meeting.meetingUrl || '')) as MeetingPlatform,
+      meetingUrl: meeting.meetingUrl || '',
+      deployedAt: metadata.botDeployedAt ? new Date(String(metadata.botDeployedAt)) : timestamp,
+      joinedAt: status === BotStatus.IN_MEETING ? timestamp : undefined,
+      leftAt: status === BotStatus.COMPLETED ? timestamp : undefined,
+      error: event.eventType === 'error' ? String(event.data?.message || 'Bot failed') : undefined,
+    };
+
+    logger.info('Applying bot lifecycle event', {
+      botId: event.botId,
+      meetingId: meeting.id,
+      eventType: event.eventType,
+      status,
+    });
+
+    await this.updateMeetingFromBotStatus(meeting, botData);
+    await this.cacheBotData(event.botId, botData);
+
+    // The bot has left, so no more transcript segments will arrive
+    if (status === BotStatus.COMPLETED) {
+      await transcriptionService.finalizeMeetingSession(meeting.id);
+    }
+
+    return meeting;
+  }
+
   /**
    * Auto-deploy bot for scheduled meetings
    */
@@ -345,7 +403,7 @@ export class MeetingBotService {
   /**
    * Detect meeting platform from URL
    */
-  private detectPlatform(meetingUrl: string): MeetingPlatform | null {
+  detectPlatform(meetingUrl: string): MeetingPlatform | null {
     const url = meetingUrl.toLowerCase();
 
     if (url.includes('zoom.us') || url.includes('zoom.com')) {
@@ -375,7 +433,7 @@ export class MeetingBotService {
   /**
    * Get meeting by bot ID
    */
-  private async getMeetingByBotId(botId: string): Promise<Meeting | null> {
+  async getMeetingByBotId(botId: string): Promise<Meeting | null> {
     const meetings = await meetingRepository.findAll({
       where: {
         metadata: {
@@ -402,8 +460,15 @@ export class MeetingBotService {
       },
     };
 
+    if (botStatus.error) {
+      updates.metadata.botError = botStatus.error;
+    }
+
     // Update meeting status based on bot status
-    if (botStatus.status === BotStatus.IN_MEETING && meeting.status === 'scheduled') {
+    if (
+      (botStatus.status === BotStatus.IN_MEETING || botStatus.status === BotStatus.RECORDING) &&
+      meeting.status === 'scheduled'
+    ) {
       updates.status = 'in_progress';
       updates.startedAt = botStatus.joinedAt || new Date();
     }
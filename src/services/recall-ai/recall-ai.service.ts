@@ -289,7 +289,7 @@ export class RecallAIService {
   /**
    * Map Recall AI bot status to internal status
    */
-  private mapBotStatus(status: string): BotStatus {
+  mapBotStatus(status: string): BotStatus {
     const statusMap: Record<string, BotStatus> = {
       ready: BotStatus.IDLE,
       joining_call: BotStatus.JOINING,
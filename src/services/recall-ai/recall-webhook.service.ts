@@ -0,0 +1,269 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { recallAIService } from './recall-ai.service.js';
+import { meetingBotService } from './meeting-bot.service.js';
+import {
+  BotLifecycleEvent,
+  BotStatus,
+  RecallWebhookPayload,
+  RecallWebhookResult,
+  RecallWebhookWord,
+  TranscriptionSegment,
+} from './types/recall-ai.types.js';
+import { transcriptionService } from '../transcription.service.js';
+import { cacheService } from '../cache.service.js';
+import { config } from '../../config/index.js';
+import { AppError } from '../../middlewares/error-handler.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Signature headers sent with each webhook delivery
+ * Recall AI signs webhooks using the Svix scheme
+ */
+export interface RecallWebhookHeaders {
+  id?: string;
+  timestamp?: string;
+  signature?: string;
+}
+
+/**
+ * Recall AI Webhook Service
+ * Verifies webhook deliveries and applies bot lifecycle and transcript events
+ */
+export class RecallWebhookService {
+  private readonly DELIVERY_CACHE_PREFIX = 'recall_webhook:';
+  private readonly DELIVERY_CACHE_TTL = 24 * 60 * 60; // 24 hours
+  private readonly TIMESTAMP_TOLERANCE = 5 * 60; // 5 minutes
+
+  private readonly lifecycleEventByStatus: Partial<
+    Record<BotStatus, BotLifecycleEvent['eventType']>
+  > = {
+    [BotStatus.JOINING]: 'bot_joining',
+    [BotStatus.IN_MEETING]: 'bot_joined',
+    [BotStatus.RECORDING]: 'recording_started',
+    [BotStatus.COMPLETED]: 'bot_left',
+    [BotStatus.FAILED]: 'error',
+  };
+
+  /**
+   * Verify the webhook signature against the raw request body
+   */
+  verifySignature(
+    headers: RecallWebhookHeaders,
+    rawBody: Buffer | undefined,
+    secret: string = config.recallAI.webhookSecret,
+    now: Date = new Date()
+  ): void {
+    if (!secret) {
+      throw new AppError('Recall AI webhook secret is not configured', 503);
+    }
+
+    if (!headers.id || !headers.timestamp || !headers.signature || !rawBody) {
+      throw new AppError('Missing webhook signature headers', 401);
+    }
+
+    const timestamp = parseInt(headers.timestamp, 10);
+    if (
+      isNaN(timestamp) ||
+      Math.abs(now.getTime() / 1000 - timestamp) > this.TIMESTAMP_TOLERANCE
+    ) {
+      throw new AppError('Webhook timestamp is outside the allowed window', 401);
+    }
+
+    const expected = this.sign(headers.id, headers.timestamp, rawBody, secret);
+
+    // Header holds space separated "v1,<signature>" entries
+    const valid = headers.signature.split(' ').some((entry) => {
+      const [version, signature] = entry.split(',');
+      if (version !== 'v1' || !signature) return false;
+
+      const received = Buffer.from(signature);
+      const computed = Buffer.from(expected);
+      return received.length === computed.length && timingSafeEqual(received, computed);
+    });
+
+    if (!valid) {
+      throw new AppError('Invalid webhook signature', 401);
+    }
+  }
+
+  /**
+   * Compute the base64 signature for a webhook delivery
+   */
+  sign(id: string, timestamp: string, rawBody: Buffer | string, secret: string): string {
+    const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+
+    return createHmac('sha256', key)
+      .update(`${id}.${timestamp}.${rawBody.toString()}`)
+      .digest('base64');
+  }
+
+  /**
+   * Handle a verified webhook delivery
+   * Deliveries are processed at most once per webhook ID
+   */
+  async handleWebhook(
+    deliveryId: string,
+    payload: RecallWebhookPayload
+  ): Promise<RecallWebhookResult> {
+    if (!payload?.event || !payload.data) {
+      throw new AppError('Invalid webhook payload', 400);
+    }
+
+    const cacheKey = `${this.DELIVERY_CACHE_PREFIX}${deliveryId}`;
+    const isNew = await cacheService.setIfNotExists(
+      cacheKey,
+      { event: payload.event, receivedAt: new Date() },
+      this.DELIVERY_CACHE_TTL
+    );
+
+    if (!isNew) {
+      logger.info('Ignoring duplicate Recall AI webhook', {
+        deliveryId,
+        event: payload.event,
+      });
+      return { event: payload.event, duplicate: true, handled: false };
+    }
+
+    try {
+      const handled = await this.dispatch(payload);
+      return { event: payload.event, duplicate: false, handled };
+    } catch (error) {
+      // Allow Recall AI to retry the delivery
+      await cacheService.delete(cacheKey);
+      throw error;
+    }
+  }
+
+  /**
+   * Route an event to the matching handler
+   */
+  private async dispatch(payload: RecallWebhookPayload): Promise<boolean> {
+    const botId = payload.data.bot?.id || payload.data.bot_id;
+    if (!botId) {
+      throw new AppError('Webhook payload is missing bot ID', 400);
+    }
+
+    if (payload.event === 'transcript.data' || payload.event === 'bot.transcription') {
+      return this.handleTranscriptEvent(botId, payload);
+    }
+
+    if (payload.event.startsWith('bot.')) {
+      return this.handleStatusEvent(botId, payload);
+    }
+
+    logger.debug('Ignoring unsupported Recall AI webhook event', { event: payload.event });
+    return false;
+  }
+
+  /**
+   * Apply a bot status change
+   */
+  private async handleStatusEvent(
+    botId: string,
+    payload: RecallWebhookPayload
+  ): Promise<boolean> {
+    const event = this.toLifecycleEvent(botId, payload);
+    if (!event) {
+      logger.debug('Ignoring bot status without lifecycle mapping', {
+        botId,
+        event: payload.event,
+      });
+      return false;
+    }
+
+    const meeting = await meetingBotService.handleLifecycleEvent(event);
+    return meeting !== null;
+  }
+
+  /**
+   * Append a finalized transcript segment to the meeting's transcription session
+   */
+  private async handleTranscriptEvent(
+    botId: string,
+    payload: RecallWebhookPayload
+  ): Promise<boolean> {
+    if (payload.data.transcript?.is_final === false) {
+      return false;
+    }
+
+    const segment = this.toTranscriptionSegment(payload);
+    if (!segment) {
+      return false;
+    }
+
+    const meeting = await meetingBotService.getMeetingByBotId(botId);
+    if (!meeting) {
+      logger.warn('Received transcript for unknown bot', { botId });
+      return false;
+    }
+
+    await transcriptionService.processRealtimeTranscription(meeting.id, {
+      botId,
+      meetingId: meeting.id,
+      segments: [segment],
+      duration: segment.endTime,
+    });
+
+    return true;
+  }
+
+  /**
+   * Convert a status payload into a lifecycle event
+   * Supports both `bot.status_change` and per-status `bot.<code>` events
+   */
+  toLifecycleEvent(botId: string, payload: RecallWebhookPayload): BotLifecycleEvent | null {
+    const code =
+      payload.data.status?.code || payload.data.data?.code || payload.event.replace(/^bot\./, '');
+    const eventType = this.lifecycleEventByStatus[recallAIService.mapBotStatus(code)];
+
+    if (!eventType) {
+      return null;
+    }
+
+    return {
+      botId,
+      eventType,
+      timestamp:
+        payload.data.status?.created_at || payload.data.data?.updated_at || new Date().toISOString(),
+      data: {
+        code,
+        subCode: payload.data.status?.sub_code ?? payload.data.data?.sub_code ?? undefined,
+        message: payload.data.status?.message ?? undefined,
+      },
+    };
+  }
+
+  /**
+   * Convert a transcript payload into a single segment
+   */
+  toTranscriptionSegment(payload: RecallWebhookPayload): TranscriptionSegment | null {
+    const words: RecallWebhookWord[] =
+      payload.data.transcript?.words || payload.data.data?.words || [];
+    if (words.length === 0) {
+      return null;
+    }
+
+    const participant = payload.data.data?.participant;
+    const speaker =
+      payload.data.transcript?.speaker ||
+      participant?.name ||
+      (participant?.id !== undefined ? `Speaker ${participant.id}` : 'Unknown Speaker');
+
+    const first = words[0];
+    const last = words[words.length - 1];
+
+    return {
+      speaker,
+      text: words
+        .map((word) => word.text)
+        .join(' ')
+        .trim(),
+      startTime: first.start_timestamp?.relative ?? first.start_time ?? 0,
+      endTime: last.end_timestamp?.relative ?? last.end_time ?? 0,
+      confidence: 1.0,
+    };
+  }
+}
+
+// Export singleton instance
+export const recallWebhookService = new RecallWebhookService();
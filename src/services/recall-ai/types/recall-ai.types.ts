@@ -137,11 +137,68 @@ export interface TranscriptionResponse {
  */
 export interface BotLifecycleEvent {
   botId: string;
-  eventType: 'bot_joined' | 'bot_left' | 'recording_started' | 'recording_stopped' | 'error';
+  eventType:
+    | 'bot_joining'
+    | 'bot_joined'
+    | 'bot_left'
+    | 'recording_started'
+    | 'recording_stopped'
+    | 'error';
   timestamp: string;
   data?: Record<string, unknown>;
 }
 
+/**
+ * Transcript word from a Recall AI webhook
+ * Legacy payloads use start_time/end_time, current ones use relative timestamps
+ */
+export interface RecallWebhookWord {
+  text: string;
+  start_time?: number;
+  end_time?: number;
+  start_timestamp?: { relative: number };
+  end_timestamp?: { relative: number };
+}
+
+/**
+ * Recall AI webhook payload
+ * Covers `bot.*` status events and `transcript.data` / legacy `bot.transcription` events
+ */
+export interface RecallWebhookPayload {
+  event: string;
+  data: {
+    bot_id?: string;
+    bot?: { id: string };
+    status?: {
+      code: string;
+      sub_code?: string | null;
+      message?: string | null;
+      created_at?: string;
+    };
+    transcript?: {
+      speaker?: string | null;
+      words: RecallWebhookWord[];
+      is_final?: boolean;
+    };
+    data?: {
+      code?: string;
+      sub_code?: string | null;
+      updated_at?: string;
+      words?: RecallWebhookWord[];
+      participant?: { id?: number; name?: string | null };
+    };
+  };
+}
+
+/**
+ * Result of handling a webhook delivery
+ */
+export interface RecallWebhookResult {
+  event: string;
+  duplicate: boolean;
+  handled: boolean;
+}
+
 /**
  * Recall AI error response
  */
@@ -0,0 +1,295 @@
+import {
+  AlignmentType,
+  Document,
+  Footer,
+  Header,
+  HeadingLevel,
+  ImageRun,
+  Packer,
+  PageNumber,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import { MeetingReport, ReportBranding, ReportSection } from '../../types/report.types.js';
+import { describeSection, formatDueDate, formatSpeakingTime } from './report-format.js';
+
+const FONT = 'Calibri';
+const MUTED_COLOR = '555555';
+
+type Block = Paragraph | Table;
+
+/**
+ * DOCX Report Renderer
+ * Lays out a meeting report as a Word document
+ */
+export class DocxReportRenderer {
+  async render(report: MeetingReport, branding: ReportBranding): Promise<Buffer> {
+    const color = branding.primaryColor.replace('#', '');
+    const children: Block[] = [...this.renderTitle(report, branding, color)];
+
+    for (const section of report.sections) {
+      children.push(...this.renderSection(section, report, color));
+    }
+    if (report.transcript) {
+      children.push(...this.renderTranscript(report.transcript, color));
+    }
+
+    const doc = new Document({
+      creator: branding.brandName || 'CogniNote',
+      title: report.title,
+      styles: { default: { document: { run: { font: FONT, size: 21 } } } },
+      sections: [
+        {
+          headers: { default: this.renderHeader(branding) },
+          footers: { default: this.renderFooter(branding) },
+          children,
+        },
+      ],
+    });
+
+    return Packer.toBuffer(doc);
+  }
+
+  private renderTitle(report: MeetingReport, branding: ReportBranding, color: string): Block[] {
+    const blocks: Block[] = [];
+
+    if (branding.logo) {
+      blocks.push(
+        new Paragraph({
+          children: [
+            new ImageRun({
+              type: branding.logo.type,
+              data: branding.logo.data,
+              transformation: { width: 140, height: 50 },
+            }),
+          ],
+        })
+      );
+    }
+    if (branding.brandName) {
+      blocks.push(
+        new Paragraph({
+          children: [new TextRun({ text: branding.brandName, bold: true, color: MUTED_COLOR })],
+        })
+      );
+    }
+
+    blocks.push(
+      new Paragraph({
+        heading: HeadingLevel.TITLE,
+        children: [new TextRun({ text: report.title, bold: true, color, size: 44 })],
+      }),
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: `Report generated ${report.generatedAt.toISOString().slice(0, 10)}`,
+            color: MUTED_COLOR,
+            size: 18,
+          }),
+        ],
+      })
+    );
+
+    return blocks;
+  }
+
+  private renderSection(section: ReportSection, report: MeetingReport, color: string): Block[] {
+    const heading = this.renderHeading(describeSection(section), color);
+
+    switch (section) {
+      case ReportSection.METADATA:
+        return [
+          heading,
+          ...report.metadata.map(
+            ({ label, value }) =>
+              new Paragraph({
+                children: [new TextRun({ text: `${label}: `, bold: true }), new TextRun(value)],
+              })
+          ),
+        ];
+      case ReportSection.SUMMARY:
+        return [heading, new Paragraph(report.summary || 'No summary available.')];
+      case ReportSection.KEY_POINTS:
+        return [heading, ...this.renderList(report.keyPoints, 'No key points recorded.')];
+      case ReportSection.DECISIONS:
+        return [
+          heading,
+          ...this.renderList(
+            report.decisions.map((decision) =>
+              decision.rationale
+                ? `${decision.description} (${decision.rationale})`
+                : decision.description
+            ),
+            'No decisions recorded.'
+          ),
+        ];
+      case ReportSection.ACTION_ITEMS:
+        return [
+          heading,
+          this.renderTable(
+            ['Action item', 'Owner', 'Due', 'Status'],
+            report.actionItems.map((item) => [
+              item.description,
+              item.owner || '-',
+              formatDueDate(item.dueDate),
+              item.status || '-',
+            ]),
+            [50, 20, 15, 15],
+            color,
+            'No action items recorded.'
+          ),
+        ];
+      case ReportSection.PARTICIPATION:
+        return [
+          heading,
+          this.renderTable(
+            ['Speaker', 'Speaking time', 'Share', 'Words'],
+            report.participants.map((participant) => [
+              participant.speakerName,
+              formatSpeakingTime(participant.speakingTime),
+              `${Math.round(participant.speakingPercentage)}%`,
+              String(participant.totalWords),
+            ]),
+            [43, 23, 17, 17],
+            color,
+            'No speaker statistics available.'
+          ),
+        ];
+      case ReportSection.TOPICS:
+        return [
+          heading,
+          new Paragraph(
+            report.topics.length > 0 ? report.topics.join(', ') : 'No topics detected.'
+          ),
+        ];
+    }
+  }
+
+  private renderTranscript(
+    transcript: NonNullable<MeetingReport['transcript']>,
+    color: string
+  ): Block[] {
+    const heading = new Paragraph({
+      heading: HeadingLevel.HEADING_1,
+      pageBreakBefore: true,
+      children: [new TextRun({ text: 'Appendix: Transcript', color })],
+    });
+
+    if (transcript.length === 0) {
+      return [heading, new Paragraph('No transcriptions available.')];
+    }
+
+    return [
+      heading,
+      ...transcript.map((segment) => {
+        const prefix = segment.timestamp ? `[${segment.timestamp}] ` : '';
+        return new Paragraph({
+          spacing: { after: 60 },
+          children: [
+            new TextRun({ text: `${prefix}${segment.speaker}: `, bold: true, size: 18 }),
+            new TextRun({ text: segment.text, size: 18 }),
+          ],
+        });
+      }),
+    ];
+  }
+
+  private renderHeading(text: string, color: string): Paragraph {
+    return new Paragraph({
+      heading: HeadingLevel.HEADING_1,
+      spacing: { before: 240, after: 120 },
+      children: [new TextRun({ text, color })],
+    });
+  }
+
+  private renderList(items: string[], empty: string): Paragraph[] {
+    if (items.length === 0) {
+      return [new Paragraph(empty)];
+    }
+
+    return items.map((item) => new Paragraph({ text: item, bullet: { level: 0 } }));
+  }
+
+  private renderTable(
+    header: string[],
+    rows: string[][],
+    widths: number[], // Percent of the page width
+    color: string,
+    empty: string
+  ): Block {
+    if (rows.length === 0) {
+      return new Paragraph(empty);
+    }
+
+    const cell = (text: string, index: number, isHeader: boolean): TableCell =>
+      new TableCell({
+        width: { size: widths[index], type: WidthType.PERCENTAGE },
+        shading: isHeader ? { type: ShadingType.SOLID, color, fill: color } : undefined,
+        children: [
+          new Paragraph({
+            children: [
+              new TextRun({
+                text,
+                bold: isHeader,
+                color: isHeader ? 'FFFFFF' : undefined,
+                size: 18,
+              }),
+            ],
+          }),
+        ],
+      });
+
+    return new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [
+        new TableRow({
+          tableHeader: true,
+          children: header.map((text, index) => cell(text, index, true)),
+        }),
+        ...rows.map(
+          (row) => new TableRow({ children: row.map((text, index) => cell(text, index, false)) })
+        ),
+      ],
+    });
+  }
+
+  private renderHeader(branding: ReportBranding): Header {
+    return new Header({
+      children: branding.headerText
+        ? [
+            new Paragraph({
+              alignment: AlignmentType.RIGHT,
+              children: [new TextRun({ text: branding.headerText, color: MUTED_COLOR, size: 16 })],
+            }),
+          ]
+        : [],
+    });
+  }
+
+  private renderFooter(branding: ReportBranding): Footer {
+    const footer = branding.footerText ? [`${branding.footerText}    `] : [];
+
+    return new Footer({
+      children: [
+        new Paragraph({
+          alignment: AlignmentType.RIGHT,
+          children: [
+            new TextRun({
+              children: [...footer, 'Page ', PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES],
+              color: MUTED_COLOR,
+              size: 16,
+            }),
+          ],
+        }),
+      ],
+    });
+  }
+}
+
+// Export singleton instance
+export const docxReportRenderer = new DocxReportRenderer();
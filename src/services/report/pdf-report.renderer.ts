@@ -0,0 +1,249 @@
+import PDFDocument from 'pdfkit';
+import { MeetingReport, ReportBranding, ReportSection } from '../../types/report.types.js';
+import { describeSection, formatDueDate, formatSpeakingTime } from './report-format.js';
+
+const MARGIN = 50;
+const BODY_FONT = 'Helvetica';
+const BOLD_FONT = 'Helvetica-Bold';
+const MUTED_COLOR = '#555555';
+
+/**
+ * PDF Report Renderer
+ * Lays out a meeting report as an A4 PDF
+ */
+export class PdfReportRenderer {
+  async render(report: MeetingReport, branding: ReportBranding): Promise<Buffer> {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: MARGIN,
+      bufferPages: true, // Headers and footers are added once the page count is known
+      info: { Title: report.title, Creator: branding.brandName || 'CogniNote' },
+    });
+
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    this.renderTitle(doc, report, branding);
+    for (const section of report.sections) {
+      this.renderSection(doc, section, report, branding);
+    }
+    if (report.transcript) {
+      this.renderTranscript(doc, report.transcript, branding);
+    }
+    this.renderPageDecorations(doc, branding);
+
+    doc.end();
+    return done;
+  }
+
+  private renderTitle(
+    doc: PDFKit.PDFDocument,
+    report: MeetingReport,
+    branding: ReportBranding
+  ): void {
+    if (branding.logo) {
+      doc.image(branding.logo.data, MARGIN, MARGIN, { fit: [140, 50] });
+      doc.y = MARGIN + 60;
+    }
+    if (branding.brandName) {
+      doc.font(BOLD_FONT).fontSize(10).fillColor(MUTED_COLOR).text(branding.brandName);
+    }
+
+    doc.font(BOLD_FONT).fontSize(22).fillColor(branding.primaryColor).text(report.title);
+    doc
+      .font(BODY_FONT)
+      .fontSize(9)
+      .fillColor(MUTED_COLOR)
+      .text(`Report generated ${report.generatedAt.toISOString().slice(0, 10)}`);
+    doc.moveDown();
+  }
+
+  private renderSection(
+    doc: PDFKit.PDFDocument,
+    section: ReportSection,
+    report: MeetingReport,
+    branding: ReportBranding
+  ): void {
+    switch (section) {
+      case ReportSection.METADATA:
+        this.renderHeading(doc, describeSection(section), branding);
+        for (const { label, value } of report.metadata) {
+          doc.font(BOLD_FONT).text(`${label}: `, { continued: true });
+          doc.font(BODY_FONT).text(value);
+        }
+        break;
+      case ReportSection.SUMMARY:
+        this.renderHeading(doc, describeSection(section), branding);
+        this.renderParagraph(doc, report.summary || 'No summary available.');
+        break;
+      case ReportSection.KEY_POINTS:
+        this.renderHeading(doc, describeSection(section), branding);
+        this.renderList(doc, report.keyPoints, 'No key points recorded.');
+        break;
+      case ReportSection.DECISIONS:
+        this.renderHeading(doc, describeSection(section), branding);
+        this.renderList(
+          doc,
+          report.decisions.map((decision) =>
+            decision.rationale
+              ? `${decision.description} (${decision.rationale})`
+              : decision.description
+          ),
+          'No decisions recorded.'
+        );
+        break;
+      case ReportSection.ACTION_ITEMS:
+        this.renderHeading(doc, describeSection(section), branding);
+        this.renderTable(
+          doc,
+          ['Action item', 'Owner', 'Due', 'Status'],
+          report.actionItems.map((item) => [
+            item.description,
+            item.owner || '-',
+            formatDueDate(item.dueDate),
+            item.status || '-',
+          ]),
+          [250, 100, 70, 75],
+          branding,
+          'No action items recorded.'
+        );
+        break;
+      case ReportSection.PARTICIPATION:
+        this.renderHeading(doc, describeSection(section), branding);
+        this.renderTable(
+          doc,
+          ['Speaker', 'Speaking time', 'Share', 'Words'],
+          report.participants.map((participant) => [
+            participant.speakerName,
+            formatSpeakingTime(participant.speakingTime),
+            `${Math.round(participant.speakingPercentage)}%`,
+            String(participant.totalWords),
+          ]),
+          [215, 110, 85, 85],
+          branding,
+          'No speaker statistics available.'
+        );
+        break;
+      case ReportSection.TOPICS:
+        this.renderHeading(doc, describeSection(section), branding);
+        this.renderParagraph(
+          doc,
+          report.topics.length > 0 ? report.topics.join(', ') : 'No topics detected.'
+        );
+        break;
+    }
+  }
+
+  private renderTranscript(
+    doc: PDFKit.PDFDocument,
+    transcript: NonNullable<MeetingReport['transcript']>,
+    branding: ReportBranding
+  ): void {
+    doc.addPage();
+    this.renderHeading(doc, 'Appendix: Transcript', branding);
+
+    if (transcript.length === 0) {
+      this.renderParagraph(doc, 'No transcriptions available.');
+      return;
+    }
+
+    for (const segment of transcript) {
+      const prefix = segment.timestamp ? `[${segment.timestamp}] ` : '';
+      doc
+        .font(BOLD_FONT)
+        .fontSize(9)
+        .fillColor('black')
+        .text(`${prefix}${segment.speaker}: `, { continued: true });
+      doc.font(BODY_FONT).text(segment.text, { paragraphGap: 3 });
+    }
+  }
+
+  private renderHeading(doc: PDFKit.PDFDocument, text: string, branding: ReportBranding): void {
+    doc.moveDown();
+    doc.font(BOLD_FONT).fontSize(14).fillColor(branding.primaryColor).text(text);
+    doc.moveDown(0.3);
+    doc.font(BODY_FONT).fontSize(10).fillColor('black');
+  }
+
+  private renderParagraph(doc: PDFKit.PDFDocument, text: string): void {
+    doc.font(BODY_FONT).fontSize(10).fillColor('black').text(text, { align: 'left' });
+  }
+
+  private renderList(doc: PDFKit.PDFDocument, items: string[], empty: string): void {
+    if (items.length === 0) {
+      this.renderParagraph(doc, empty);
+      return;
+    }
+
+    doc.font(BODY_FONT).fontSize(10).fillColor('black').list(items, { bulletRadius: 2 });
+  }
+
+  private renderTable(
+    doc: PDFKit.PDFDocument,
+    header: string[],
+    rows: string[][],
+    widths: number[],
+    branding: ReportBranding,
+    empty: string
+  ): void {
+    if (rows.length === 0) {
+      this.renderParagraph(doc, empty);
+      return;
+    }
+
+    doc.font(BODY_FONT).fontSize(9).fillColor('black');
+    doc.table({
+      columnStyles: widths,
+      defaultStyle: { border: 0.5, borderColor: '#CCCCCC', padding: 4 },
+      data: [
+        header.map((text) => ({
+          text,
+          type: 'TH' as const,
+          backgroundColor: branding.primaryColor,
+          textColor: 'white',
+          font: { src: BOLD_FONT },
+        })),
+        ...rows,
+      ],
+    });
+    doc.x = MARGIN;
+  }
+
+  /**
+   * Header and footer text and page numbers on every page
+   */
+  private renderPageDecorations(doc: PDFKit.PDFDocument, branding: ReportBranding): void {
+    const range = doc.bufferedPageRange();
+    const width = doc.page.width - MARGIN * 2;
+
+    for (let index = range.start; index < range.start + range.count; index++) {
+      doc.switchToPage(index);
+      // Writing into the margins must not start new pages
+      const bottomMargin = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+
+      doc.font(BODY_FONT).fontSize(8).fillColor(MUTED_COLOR);
+      if (branding.headerText) {
+        doc.text(branding.headerText, MARGIN, MARGIN / 2, { width, align: 'right' });
+      }
+
+      const footerY = doc.page.height - MARGIN / 2 - 8;
+      if (branding.footerText) {
+        doc.text(branding.footerText, MARGIN, footerY, { width, align: 'left' });
+      }
+      doc.text(`Page ${index + 1} of ${range.count}`, MARGIN, footerY, {
+        width,
+        align: 'right',
+      });
+
+      doc.page.margins.bottom = bottomMargin;
+    }
+  }
+}
+
+// Export singleton instance
+export const pdfReportRenderer = new PdfReportRenderer();
@@ -0,0 +1,61 @@
+import { ReportSection } from '../../types/report.types.js';
+
+const SECTION_TITLES: Record<ReportSection, string> = {
+  [ReportSection.METADATA]: 'Meeting Details',
+  [ReportSection.SUMMARY]: 'Executive Summary',
+  [ReportSection.KEY_POINTS]: 'Key Points',
+  [ReportSection.DECISIONS]: 'Decisions',
+  [ReportSection.ACTION_ITEMS]: 'Action Items',
+  [ReportSection.PARTICIPATION]: 'Speaker Participation',
+  [ReportSection.TOPICS]: 'Topics',
+};
+
+/**
+ * Heading of a report section
+ */
+export function describeSection(section: ReportSection): string {
+  return SECTION_TITLES[section];
+}
+
+/**
+ * Date and time in UTC, e.g. "2026-10-19 09:00 UTC"
+ */
+export function formatDateTime(date: Date): string {
+  return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+/**
+ * Calendar date of a due date, "-" when there is none
+ */
+export function formatDueDate(date: Date | null): string {
+  return date ? date.toISOString().slice(0, 10) : '-';
+}
+
+/**
+ * Duration in minutes, e.g. "1 h 5 min"
+ */
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours} h ${minutes % 60} min` : `${minutes} min`;
+}
+
+/**
+ * Speaking time in seconds, e.g. "4 min 20 s"
+ */
+export function formatSpeakingTime(seconds: number): string {
+  const total = Math.round(seconds);
+  const minutes = Math.floor(total / 60);
+  return minutes > 0 ? `${minutes} min ${total % 60} s` : `${total} s`;
+}
+
+/**
+ * Position on the recording timeline, e.g. "00:12:05"
+ */
+export function formatOffset(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds % 60)}`;
+}
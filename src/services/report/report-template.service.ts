@@ -0,0 +1,154 @@
+import axios from 'axios';
+import { ReportTemplate } from '@prisma/client';
+import {
+  reportTemplateRepository,
+  CreateReportTemplateData,
+  UpdateReportTemplateData,
+} from '../../repositories/index.js';
+import { ReportBranding } from '../../types/report.types.js';
+import { AppError } from '../../middlewares/error-handler.js';
+import { logger } from '../../utils/logger.js';
+
+const DEFAULT_PRIMARY_COLOR = '#1F3A5F';
+
+/**
+ * Report Template Service
+ * Team branding and layout of PDF and DOCX meeting reports
+ */
+export class ReportTemplateService {
+  private readonly LOGO_TIMEOUT_MS = 5000;
+  private readonly MAX_LOGO_BYTES = 1024 * 1024; // 1MB
+
+  /**
+   * List templates of a user
+   */
+  async getUserTemplates(userId: string): Promise<ReportTemplate[]> {
+    return reportTemplateRepository.findByUserId(userId);
+  }
+
+  /**
+   * Get template and verify the user owns it
+   */
+  async getOwnedTemplate(id: string, userId: string): Promise<ReportTemplate> {
+    const template = await reportTemplateRepository.findById(id);
+    if (!template) {
+      throw new AppError('Report template not found', 404);
+    }
+
+    if (template.userId !== userId) {
+      throw new AppError('Unauthorized access to report template', 403);
+    }
+
+    return template;
+  }
+
+  /**
+   * Create a template, making it the user's default if asked to
+   */
+  async createTemplate(data: CreateReportTemplateData): Promise<ReportTemplate> {
+    await this.assertNameAvailable(data.userId, data.name);
+
+    const template = await reportTemplateRepository.create(data);
+    if (template.isDefault) {
+      await reportTemplateRepository.clearDefault(data.userId, template.id);
+    }
+
+    logger.info('Report template created', { templateId: template.id, userId: data.userId });
+
+    return template;
+  }
+
+  /**
+   * Update a template
+   */
+  async updateTemplate(
+    id: string,
+    userId: string,
+    data: UpdateReportTemplateData
+  ): Promise<ReportTemplate> {
+    const template = await this.getOwnedTemplate(id, userId);
+
+    if (data.name && data.name !== template.name) {
+      await this.assertNameAvailable(userId, data.name);
+    }
+
+    const updated = await reportTemplateRepository.update(id, data);
+    if (data.isDefault) {
+      await reportTemplateRepository.clearDefault(userId, id);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Delete a template
+   */
+  async deleteTemplate(id: string, userId: string): Promise<void> {
+    await this.getOwnedTemplate(id, userId);
+    await reportTemplateRepository.delete(id);
+  }
+
+  /**
+   * Template a report uses: the one picked, otherwise the user's default, if any
+   */
+  async resolveTemplate(userId: string, templateId?: string): Promise<ReportTemplate | null> {
+    if (templateId) {
+      return this.getOwnedTemplate(templateId, userId);
+    }
+
+    return reportTemplateRepository.findDefaultForUser(userId);
+  }
+
+  /**
+   * Branding of a template, with its logo downloaded
+   * A logo that cannot be loaded is left out rather than failing the report.
+   */
+  async getBranding(template: ReportTemplate | null): Promise<ReportBranding> {
+    if (!template) {
+      return { primaryColor: DEFAULT_PRIMARY_COLOR };
+    }
+
+    return {
+      brandName: template.brandName,
+      logo: template.logoUrl ? await this.fetchLogo(template.logoUrl) : null,
+      primaryColor: template.primaryColor || DEFAULT_PRIMARY_COLOR,
+      headerText: template.headerText,
+      footerText: template.footerText,
+    };
+  }
+
+  private async assertNameAvailable(userId: string, name: string): Promise<void> {
+    const existing = await reportTemplateRepository.findByName(userId, name);
+    if (existing) {
+      throw new AppError('A report template with this name already exists', 409);
+    }
+  }
+
+  private async fetchLogo(url: string): Promise<ReportBranding['logo']> {
+    try {
+      const response = await axios.get<ArrayBuffer>(url, {
+        responseType: 'arraybuffer',
+        timeout: this.LOGO_TIMEOUT_MS,
+        maxContentLength: this.MAX_LOGO_BYTES,
+      });
+      const data = Buffer.from(response.data);
+
+      // Both document formats only embed PNG and JPEG
+      if (data.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]))) {
+        return { data, type: 'png' };
+      }
+      if (data.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]))) {
+        return { data, type: 'jpg' };
+      }
+
+      logger.warn('Report logo is not a PNG or JPEG image', { url });
+    } catch (error) {
+      logger.warn('Failed to load report logo', { url, error: String(error) });
+    }
+
+    return null;
+  }
+}
+
+// Export singleton instance
+export const reportTemplateService = new ReportTemplateService();
@@ -0,0 +1,191 @@
+import { AnalysisResult, ReportTemplate } from '@prisma/client';
+import { MeetingWithRelations } from '../../types/meeting.types.js';
+import {
+  MeetingReport,
+  ReportActionItem,
+  ReportFormat,
+  ReportOptions,
+  ReportParticipant,
+  ReportSection,
+} from '../../types/report.types.js';
+import { AnalysisType } from '../ai/types/analysis.types.js';
+import { reportTemplateService } from './report-template.service.js';
+import { pdfReportRenderer } from './pdf-report.renderer.js';
+import { docxReportRenderer } from './docx-report.renderer.js';
+import { formatDateTime, formatMinutes, formatOffset } from './report-format.js';
+import { SubtitleUtil } from '../../utils/subtitle.util.js';
+
+/**
+ * Report Service
+ * Collects what a meeting report shows and renders it as PDF or DOCX
+ */
+export class ReportService {
+  /**
+   * Render the report of a meeting with the user's template
+   */
+  async renderReport(
+    meeting: MeetingWithRelations,
+    format: ReportFormat,
+    options: ReportOptions = {}
+  ): Promise<Buffer> {
+    const template = await reportTemplateService.resolveTemplate(
+      meeting.userId,
+      options.templateId
+    );
+    const branding = await reportTemplateService.getBranding(template);
+    const report = this.buildReport(meeting, template, options);
+
+    return format === 'pdf'
+      ? pdfReportRenderer.render(report, branding)
+      : docxReportRenderer.render(report, branding);
+  }
+
+  /**
+   * Collect the report contents from the meeting and its latest analyses
+   * Persisted action items and decisions take precedence over what the summary extracted.
+   */
+  buildReport(
+    meeting: MeetingWithRelations,
+    template: ReportTemplate | null,
+    options: ReportOptions = {}
+  ): MeetingReport {
+    const summary = this.getLatestAnalysis(meeting, AnalysisType.MEETING_SUMMARY);
+    const content = this.getLatestAnalysis(meeting, AnalysisType.CONTENT_ANALYSIS);
+    const speakerMetrics = this.getLatestAnalysis(meeting, AnalysisType.SPEAKER_METRICS);
+
+    const layout = template?.sections.length
+      ? (template.sections as ReportSection[])
+      : Object.values(ReportSection);
+    const sections = options.sections
+      ? layout.filter((section) => options.sections!.includes(section))
+      : layout;
+    const includeTranscript = options.includeTranscript ?? template?.includeTranscript ?? false;
+
+    return {
+      title: meeting.title,
+      metadata: this.buildMetadata(meeting),
+      summary: summary?.summary || content?.summary || null,
+      keyPoints: this.toStrings(summary?.keyPoints ?? content?.keyPoints, ['insight']),
+      decisions: (meeting.decisions || []).map((decision) => ({
+        description: decision.description,
+        rationale: decision.rationale,
+      })),
+      actionItems: this.buildActionItems(meeting, summary),
+      participants: this.buildParticipants(speakerMetrics?.participants ?? summary?.participants),
+      topics: this.toStrings(summary?.topics ?? content?.topics, ['name']),
+      transcript: includeTranscript ? this.buildTranscript(meeting) : null,
+      sections,
+      generatedAt: new Date(),
+    };
+  }
+
+  private getLatestAnalysis(
+    meeting: MeetingWithRelations,
+    type: AnalysisType
+  ): AnalysisResult | undefined {
+    // Analysis results come newest first
+    return meeting.analysisResults?.find((result) => result.analysisType === type);
+  }
+
+  private buildMetadata(meeting: MeetingWithRelations): MeetingReport['metadata'] {
+    const metadata: MeetingReport['metadata'] = [];
+    const date = meeting.startedAt ?? meeting.scheduledAt ?? meeting.createdAt;
+
+    metadata.push({ label: 'Date', value: formatDateTime(date) });
+    if (meeting.startedAt && meeting.endedAt && meeting.endedAt > meeting.startedAt) {
+      const durationMs = meeting.endedAt.getTime() - meeting.startedAt.getTime();
+      metadata.push({ label: 'Duration', value: formatMinutes(Math.round(durationMs / 60000)) });
+    }
+    if (meeting.platform) metadata.push({ label: 'Platform', value: meeting.platform });
+    metadata.push({ label: 'Status', value: meeting.status });
+    if (meeting.user) {
+      metadata.push({ label: 'Organizer', value: meeting.user.fullName || meeting.user.email });
+    }
+    if (meeting.description) metadata.push({ label: 'Description', value: meeting.description });
+
+    return metadata;
+  }
+
+  private buildActionItems(
+    meeting: MeetingWithRelations,
+    summary: AnalysisResult | undefined
+  ): ReportActionItem[] {
+    if (meeting.actionItems?.length) {
+      return meeting.actionItems.map((item) => ({
+        description: item.description,
+        owner: item.owner || item.assignees.join(', ') || null,
+        dueDate: item.dueDate,
+        priority: item.priority,
+        status: item.status,
+      }));
+    }
+
+    // Summaries from before action items were tracked only have the extracted JSON
+    if (!Array.isArray(summary?.actionItems)) return [];
+
+    return summary.actionItems.flatMap((item) => {
+      if (!item || typeof item !== 'object' || Array.isArray(item)) return [];
+      if (typeof item.description !== 'string') return [];
+
+      const dueDate = typeof item.dueDate === 'string' ? new Date(item.dueDate) : null;
+      return [
+        {
+          description: item.description,
+          owner: Array.isArray(item.assignedTo) ? item.assignedTo.join(', ') || null : null,
+          dueDate: dueDate && !isNaN(dueDate.getTime()) ? dueDate : null,
+          priority: typeof item.priority === 'string' ? item.priority : null,
+          status: null,
+        },
+      ];
+    });
+  }
+
+  private buildParticipants(value: unknown): ReportParticipant[] {
+    if (!Array.isArray(value)) return [];
+
+    return value
+      .filter(
+        (metrics): metrics is ReportParticipant =>
+          !!metrics && typeof metrics === 'object' && typeof metrics.speakerName === 'string'
+      )
+      .map((metrics) => ({
+        speakerName: metrics.speakerName,
+        totalWords: Number(metrics.totalWords) || 0,
+        speakingTime: Number(metrics.speakingTime) || 0,
+        speakingPercentage: Number(metrics.speakingPercentage) || 0,
+      }))
+      .sort((a, b) => b.speakingPercentage - a.speakingPercentage);
+  }
+
+  private buildTranscript(meeting: MeetingWithRelations): MeetingReport['transcript'] {
+    const transcriptions = meeting.transcriptions || [];
+    const first = transcriptions.find((transcription) => transcription.timestampStart);
+    const origin = first ? SubtitleUtil.timelineOrigin(meeting, first.timestampStart!) : 0;
+
+    return transcriptions.map((transcription) => ({
+      timestamp: transcription.timestampStart
+        ? formatOffset(transcription.timestampStart.getTime() - origin)
+        : null,
+      speaker: transcription.speakerName || 'Speaker',
+      text: transcription.text,
+    }));
+  }
+
+  /**
+   * Read a JSON list of strings, or of objects with the text in one of the given keys
+   */
+  private toStrings(value: unknown, keys: string[]): string[] {
+    if (!Array.isArray(value)) return [];
+
+    return value.flatMap((item) => {
+      if (typeof item === 'string') return [item];
+      if (!item || typeof item !== 'object') return [];
+
+      const key = keys.find((candidate) => typeof item[candidate] === 'string');
+      return key ? [item[key] as string] : [];
+    });
+  }
+}
+
+// Export singleton instance
+export const reportService = new ReportService();
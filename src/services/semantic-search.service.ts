@@ -0,0 +1,287 @@
+import { Transcription } from '@prisma/client';
+import { aiService } from './ai/ai.service.js';
+import {
+  transcriptionRepository,
+  transcriptChunkRepository,
+  CreateTranscriptChunkData,
+  TranscriptChunkWithMeeting,
+  UserMeetingScope,
+} from '../repositories/index.js';
+import { AppError } from '../middlewares/error-handler.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Semantic search options
+ */
+export interface SemanticSearchOptions extends UserMeetingScope {
+  limit?: number;
+  minScore?: number;
+}
+
+/**
+ * Ranked transcript passage
+ */
+export interface SemanticSearchResult {
+  chunkId: string;
+  score: number;
+  meeting: {
+    id: string;
+    title: string;
+    platform: string | null;
+    date: Date | null;
+  };
+  speakerName: string | null;
+  text: string;
+  timestampStart: Date | null;
+  timestampEnd: Date | null;
+  transcriptionIds: string[];
+}
+
+/**
+ * Semantic Search Service
+ * Embeds transcript chunks as they are stored and ranks them by similarity to a query
+ */
+export class SemanticSearchService {
+  private readonly CHUNK_MAX_CHARS = 1000;
+  private readonly CHUNK_MAX_SEGMENTS = 10;
+  private readonly EMBEDDING_BATCH_SIZE = 64;
+  private readonly DEFAULT_LIMIT = 20;
+  private readonly SEARCH_PAGE_SIZE = 1000;
+
+  // Indexing runs one at a time per meeting so segments are not embedded twice
+  private indexing = new Map<string, Promise<number>>();
+
+  /**
+   * Index segments of a meeting that are not embedded yet
+   * Without `flush`, the trailing chunk is held back because the speaker may still be talking
+   * Returns the number of chunks created
+   */
+  async indexMeeting(meetingId: string, options: { flush?: boolean } = {}): Promise<number> {
+    const previous = this.indexing.get(meetingId) || Promise.resolve(0);
+    const run = previous
+      .catch(() => 0)
+      .then(() => this.indexPendingSegments(meetingId, options.flush ?? false));
+
+    this.indexing.set(meetingId, run);
+
+    try {
+      return await run;
+    } finally {
+      if (this.indexing.get(meetingId) === run) {
+        this.indexing.delete(meetingId);
+      }
+    }
+  }
+
+  /**
+   * Index in the background, logging failures instead of throwing
+   * Live updates are skipped while a run is in flight, the next segment or the final flush picks them up
+   */
+  scheduleIndexing(meetingId: string, options: { flush?: boolean } = {}): void {
+    if (!aiService.isEmbeddingAvailable()) {
+      return;
+    }
+
+    if (!options.flush && this.indexing.has(meetingId)) {
+      return;
+    }
+
+    this.indexMeeting(meetingId, options).catch((error) => {
+      logger.error('Failed to index transcript embeddings', {
+        meetingId,
+        error: String(error),
+      });
+    });
+  }
+
+  /**
+   * Drop all chunks of a meeting and embed its transcript again
+   */
+  async reindexMeeting(meetingId: string): Promise<number> {
+    this.ensureAvailable();
+
+    await transcriptChunkRepository.deleteByMeetingId(meetingId);
+    return await this.indexMeeting(meetingId, { flush: true });
+  }
+
+  /**
+   * Search the user's transcripts by meaning
+   */
+  async search(
+    userId: string,
+    query: string,
+    options: SemanticSearchOptions = {}
+  ): Promise<SemanticSearchResult[]> {
+    this.ensureAvailable();
+
+    const limit = options.limit || this.DEFAULT_LIMIT;
+    const minScore = options.minScore ?? 0;
+
+    const embedding = await aiService.embed({ input: [query], context: { userId } });
+    const queryVector = embedding.embeddings[0];
+
+    // Every candidate is scored, a page at a time so only the best matches stay in memory
+    let ranked: { chunk: TranscriptChunkWithMeeting; score: number }[] = [];
+    let candidates = 0;
+    let cursor: string | undefined;
+
+    do {
+      // Only chunks embedded by the same model share a vector space with the query
+      const page = await transcriptChunkRepository.findForUser(userId, embedding.model, {
+        meetingIds: options.meetingIds,
+        startDate: options.startDate,
+        endDate: options.endDate,
+        take: this.SEARCH_PAGE_SIZE,
+        cursor,
+      });
+      candidates += page.length;
+      cursor = page.length === this.SEARCH_PAGE_SIZE ? page[page.length - 1].id : undefined;
+
+      ranked = ranked
+        .concat(
+          page.map((chunk) => ({
+            chunk,
+            score: this.cosineSimilarity(queryVector, chunk.embedding),
+          }))
+        )
+        .filter(({ score }) => score >= minScore)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    } while (cursor);
+
+    const results = ranked.map(({ chunk, score }) => ({
+      chunkId: chunk.id,
+      score: Math.round(score * 10000) / 10000,
+      meeting: {
+        id: chunk.meeting.id,
+        title: chunk.meeting.title,
+        platform: chunk.meeting.platform,
+        date: chunk.meeting.startedAt || chunk.meeting.scheduledAt,
+      },
+      speakerName: chunk.speakerName,
+      text: chunk.text,
+      timestampStart: chunk.timestampStart,
+      timestampEnd: chunk.timestampEnd,
+      transcriptionIds: chunk.transcriptionIds,
+    }));
+
+    logger.debug('Semantic search completed', {
+      userId,
+      model: embedding.model,
+      candidates,
+      results: results.length,
+    });
+
+    return results;
+  }
+
+  /**
+   * Embed and store chunks for segments not covered yet
+   */
+  private async indexPendingSegments(meetingId: string, flush: boolean): Promise<number> {
+    const indexedIds = await transcriptChunkRepository.getIndexedTranscriptionIds(meetingId);
+    const pending = await transcriptionRepository.findByMeetingIdExcluding(meetingId, indexedIds);
+
+    const groups = this.groupSegments(pending, flush);
+    if (groups.length === 0) {
+      return 0;
+    }
+
+    let created = 0;
+
+    for (let i = 0; i < groups.length; i += this.EMBEDDING_BATCH_SIZE) {
+      const batch = groups.slice(i, i + this.EMBEDDING_BATCH_SIZE);
+      const texts = batch.map((group) => group.map((segment) => segment.text).join(' '));
+
+      const response = await aiService.embed({ input: texts, context: { meetingId } });
+
+      const chunks: CreateTranscriptChunkData[] = batch.map((group, j) => ({
+        meetingId,
+        firstTranscriptionId: group[0].id,
+        transcriptionIds: group.map((segment) => segment.id),
+        speakerName: group[0].speakerName,
+        text: texts[j],
+        timestampStart: group[0].timestampStart,
+        timestampEnd: group[group.length - 1].timestampEnd,
+        embedding: response.embeddings[j],
+        provider: response.provider,
+        model: response.model,
+        dimensions: response.dimensions,
+      }));
+
+      const result = await transcriptChunkRepository.bulkCreate(chunks);
+      created += result.count;
+    }
+
+    logger.info('Indexed transcript embeddings', {
+      meetingId,
+      segments: pending.length,
+      chunks: created,
+      flush,
+    });
+
+    return created;
+  }
+
+  /**
+   * Group consecutive segments of the same speaker into chunks of bounded size
+   */
+  private groupSegments(segments: Transcription[], flush: boolean): Transcription[][] {
+    const groups: Transcription[][] = [];
+    let current: Transcription[] = [];
+    let currentLength = 0;
+
+    for (const segment of segments) {
+      const speakerChanged =
+        current.length > 0 && current[0].speakerName !== segment.speakerName;
+      const full =
+        current.length >= this.CHUNK_MAX_SEGMENTS ||
+        currentLength + segment.text.length > this.CHUNK_MAX_CHARS;
+
+      if (current.length > 0 && (speakerChanged || full)) {
+        groups.push(current);
+        current = [];
+        currentLength = 0;
+      }
+
+      current.push(segment);
+      currentLength += segment.text.length + 1;
+    }
+
+    if (current.length > 0) {
+      const full =
+        current.length >= this.CHUNK_MAX_SEGMENTS || currentLength >= this.CHUNK_MAX_CHARS;
+      if (flush || full) {
+        groups.push(current);
+      }
+    }
+
+    return groups;
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length || a.length === 0) {
+      return 0;
+    }
+
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+
+    return normA > 0 && normB > 0 ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+  }
+
+  private ensureAvailable(): void {
+    if (!aiService.isEmbeddingAvailable()) {
+      throw new AppError('Semantic search is not available: no embedding provider configured', 503);
+    }
+  }
+}
+
+// Export singleton instance
+export const semanticSearchService = new SemanticSearchService();
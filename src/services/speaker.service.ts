@@ -0,0 +1,545 @@
+import { Meeting, Participant } from '@prisma/client';
+import {
+  actionItemRepository,
+  analysisResultRepository,
+  decisionRepository,
+  meetingRepository,
+  speakerMappingRepository,
+  transcriptChunkRepository,
+  transcriptionRepository,
+  UpdateAnalysisResultData,
+} from '../repositories/index.js';
+import { participantService } from './participant.service.js';
+import { snapshotSegment, transcriptRevisionService } from './transcript-revision.service.js';
+import { SpeakerMetrics } from './ai/types/analysis.types.js';
+import {
+  MeetingSpeaker,
+  SpeakerChangeResult,
+  SpeakerTarget,
+} from '../types/speaker.types.js';
+import { TranscriptRevisionAction } from '../types/transcript-revision.types.js';
+import { AppError } from '../middlewares/error-handler.js';
+import { logger } from '../utils/logger.js';
+
+// Analysis fields that may name speakers
+const ANALYSIS_FIELDS = [
+  'summary',
+  'keyPoints',
+  'actionItems',
+  'topics',
+  'participants',
+  'metadata',
+] as const;
+
+type SpeakerRewriteCounts = Omit<SpeakerChangeResult, 'meetingId' | 'speakers'>;
+
+/**
+ * Speaker Service
+ * Maps speaker labels of the transcript source to people and keeps every record of a meeting
+ * in line when speakers are renamed
+ */
+export class SpeakerService {
+  /**
+   * List the speakers of a meeting the user owns, most talkative first
+   */
+  async getMeetingSpeakers(meetingId: string, userId: string): Promise<MeetingSpeaker[]> {
+    const meeting = await this.getOwnedMeeting(meetingId, userId);
+    return this.listSpeakers(meeting);
+  }
+
+  /**
+   * Rename a speaker throughout a meeting
+   */
+  async renameSpeaker(
+    meetingId: string,
+    userId: string,
+    speaker: string,
+    target: SpeakerTarget
+  ): Promise<SpeakerChangeResult> {
+    return this.mergeSpeakers(meetingId, userId, [speaker], target);
+  }
+
+  /**
+   * Give several speakers of a meeting one name, as when the source split a person in two
+   * Transcript, embedded chunks, stored analyses, action items and decisions are all rewritten;
+   * speaker metrics of merged speakers are combined.
+   */
+  async mergeSpeakers(
+    meetingId: string,
+    userId: string,
+    speakers: string[],
+    target: SpeakerTarget
+  ): Promise<SpeakerChangeResult> {
+    const meeting = await this.getOwnedMeeting(meetingId, userId);
+
+    const present = new Set(
+      (await transcriptionRepository.countBySpeaker(meetingId)).map((s) => s.speakerName)
+    );
+    const missing = speakers.filter((speaker) => !present.has(speaker));
+    if (missing.length > 0) {
+      throw new AppError(`Speakers not found in meeting: ${missing.join(', ')}`, 404);
+    }
+
+    const { name, participant } = await this.resolveTarget(userId, target);
+    const counts = await this.applyRename(
+      meetingId,
+      speakers,
+      name,
+      participant?.id ?? null,
+      userId
+    );
+
+    logger.info('Meeting speakers renamed', { meetingId, speakers: speakers.length, ...counts });
+
+    return { meetingId, ...counts, speakers: await this.listSpeakers(meeting) };
+  }
+
+  /**
+   * Attribute transcriptions to another speaker, as when the source mixed two people up
+   * Stored analyses are left as they are; run speaker metrics again to update them.
+   */
+  async reassignTranscriptions(
+    meetingId: string,
+    userId: string,
+    transcriptionIds: string[],
+    target: SpeakerTarget
+  ): Promise<SpeakerChangeResult> {
+    const meeting = await this.getOwnedMeeting(meetingId, userId);
+
+    const ids = [...new Set(transcriptionIds)];
+    const segments = await transcriptionRepository.findByIds(meetingId, ids);
+    if (segments.length !== ids.length) {
+      throw new AppError('Transcriptions not found in meeting', 404);
+    }
+
+    const { name, participant } = await this.resolveTarget(userId, target);
+    const { count } = await transcriptionRepository.reassignSpeaker(meetingId, ids, name);
+    await this.recordMappings(meetingId, [], name, participant?.id ?? null);
+
+    const before = segments.map(snapshotSegment);
+    const entry = await transcriptRevisionService.record(
+      meetingId,
+      userId,
+      TranscriptRevisionAction.REASSIGN_SPEAKER,
+      { before, after: before.map((segment) => ({ ...segment, speakerName: name })) },
+      { summary: `Attributed ${count} segments to ${name}` }
+    );
+
+    return {
+      meetingId,
+      transcriptionsUpdated: count,
+      analysesUpdated: 0,
+      actionItemsUpdated: 0,
+      decisionsUpdated: 0,
+      revision: entry.revision,
+      speakers: await this.listSpeakers(meeting),
+    };
+  }
+
+  /**
+   * Give speakers of a meeting the names their labels got in earlier meetings of its series
+   * Labels already mapped in the meeting are left alone.
+   */
+  async applySeriesMappings(meetingId: string): Promise<number> {
+    const meeting = await meetingRepository.findById(meetingId);
+    if (!meeting?.seriesId) {
+      return 0;
+    }
+
+    const [seriesMappings, ownMappings, speakers] = await Promise.all([
+      speakerMappingRepository.findForSeries(meeting.seriesId, meetingId),
+      speakerMappingRepository.findByMeetingId(meetingId),
+      transcriptionRepository.countBySpeaker(meetingId),
+    ]);
+    const mapped = new Set(ownMappings.flatMap((mapping) => [mapping.label, mapping.displayName]));
+
+    let applied = 0;
+    for (const { speakerName } of speakers) {
+      // Most recent first, so the latest name given to the label wins
+      const remembered = seriesMappings.find((mapping) => mapping.label === speakerName);
+      if (!remembered || mapped.has(speakerName)) continue;
+
+      await this.applyRename(
+        meetingId,
+        [speakerName],
+        remembered.displayName,
+        remembered.participantId,
+        null
+      );
+      applied++;
+    }
+
+    if (applied > 0) {
+      logger.info('Speaker names from series applied', { meetingId, applied });
+    }
+
+    return applied;
+  }
+
+  private async getOwnedMeeting(meetingId: string, userId: string): Promise<Meeting> {
+    const meeting = await meetingRepository.findById(meetingId);
+    if (!meeting) {
+      throw new AppError('Meeting not found', 404);
+    }
+
+    if (meeting.userId !== userId) {
+      throw new AppError('Unauthorized access to meeting', 403);
+    }
+
+    return meeting;
+  }
+
+  private async listSpeakers(meeting: Meeting): Promise<MeetingSpeaker[]> {
+    const [counts, mappings, seriesMappings] = await Promise.all([
+      transcriptionRepository.countBySpeaker(meeting.id),
+      speakerMappingRepository.findByMeetingId(meeting.id),
+      meeting.seriesId
+        ? speakerMappingRepository.findForSeries(meeting.seriesId, meeting.id)
+        : Promise.resolve([]),
+    ]);
+
+    return counts
+      .sort((a, b) => b.count - a.count)
+      .map(({ speakerName, count }): MeetingSpeaker => {
+        const own = mappings.filter((mapping) => mapping.displayName === speakerName);
+        const remembered =
+          own.length === 0
+            ? seriesMappings.find((mapping) => mapping.label === speakerName)
+            : undefined;
+
+        return {
+          name: speakerName,
+          segmentCount: count,
+          labels: own.length > 0 ? own.map((mapping) => mapping.label) : [speakerName],
+          participant: own.find((mapping) => mapping.participant)?.participant ?? null,
+          suggestion: remembered
+            ? {
+                meetingId: remembered.meetingId,
+                displayName: remembered.displayName,
+                participant: remembered.participant,
+              }
+            : null,
+        };
+      });
+  }
+
+  /**
+   * Name and participant a speaker target stands for
+   */
+  private async resolveTarget(
+    userId: string,
+    target: SpeakerTarget
+  ): Promise<{ name: string; participant: Participant | null }> {
+    const name = target.name?.trim();
+
+    if (target.participantId) {
+      const participant = await participantService.getOwnedParticipant(
+        target.participantId,
+        userId
+      );
+      return { name: name || participant.name, participant };
+    }
+
+    if (target.email) {
+      const participant = await participantService.findOrCreateByEmail(
+        userId,
+        target.email,
+        name
+      );
+      return { name: name || participant.name, participant };
+    }
+
+    if (!name) {
+      throw new AppError('A speaker name, participant or email is required', 400);
+    }
+
+    return { name, participant: null };
+  }
+
+  /**
+   * Rename speakers in every record of a meeting and remember their new name
+   * The rename is recorded as a transcript revision by the author, or the system when null.
+   */
+  private async applyRename(
+    meetingId: string,
+    speakers: string[],
+    name: string,
+    participantId: string | null,
+    authorId: string | null
+  ): Promise<SpeakerRewriteCounts> {
+    const counts: SpeakerRewriteCounts = {
+      transcriptionsUpdated: 0,
+      analysesUpdated: 0,
+      actionItemsUpdated: 0,
+      decisionsUpdated: 0,
+      revision: null,
+    };
+
+    const renamed = speakers.filter((speaker) => speaker !== name);
+    const segments =
+      renamed.length > 0 ? await transcriptionRepository.findBySpeakers(meetingId, renamed) : [];
+    for (const speaker of renamed) {
+      const { count } = await transcriptionRepository.renameSpeaker(meetingId, speaker, name);
+      await transcriptChunkRepository.renameSpeaker(meetingId, speaker, name);
+      counts.transcriptionsUpdated += count;
+    }
+
+    await this.recordMappings(meetingId, speakers, name, participantId);
+
+    if (renamed.length > 0) {
+      const rename = createRenamer(renamed, name);
+      counts.analysesUpdated = await this.rewriteAnalyses(meetingId, rename);
+      counts.actionItemsUpdated = await this.rewriteActionItems(meetingId, rename);
+      counts.decisionsUpdated = await this.rewriteDecisions(meetingId, rename);
+    }
+
+    if (segments.length > 0) {
+      const before = segments.map(snapshotSegment);
+      const entry = await transcriptRevisionService.record(
+        meetingId,
+        authorId,
+        TranscriptRevisionAction.RENAME_SPEAKER,
+        { before, after: before.map((segment) => ({ ...segment, speakerName: name })) },
+        { summary: `Renamed ${renamed.join(', ')} to ${name}` }
+      );
+      counts.revision = entry.revision;
+
+      // Analyses were rewritten along with the transcript, so they are still current
+      await analysisResultRepository.updateTranscriptRevision(
+        meetingId,
+        entry.revision - 1,
+        entry.revision
+      );
+    }
+
+    return counts;
+  }
+
+  /**
+   * Point the labels behind renamed speakers at their new name
+   * The name keeps the participant it already had unless a new one is given.
+   */
+  private async recordMappings(
+    meetingId: string,
+    speakers: string[],
+    name: string,
+    participantId: string | null
+  ): Promise<void> {
+    const mappings = await speakerMappingRepository.findByMeetingId(meetingId);
+    const participant =
+      participantId ??
+      mappings.find((mapping) => mapping.displayName === name && mapping.participantId)
+        ?.participantId ??
+      null;
+    const data = { displayName: name, participantId: participant };
+
+    for (const speaker of speakers) {
+      // A speaker renamed before still stands for the labels mapped to them
+      const { count } = await speakerMappingRepository.updateByDisplayName(
+        meetingId,
+        speaker,
+        data
+      );
+      if (count === 0) {
+        await speakerMappingRepository.upsertMapping(meetingId, speaker, data);
+      }
+    }
+
+    if (participant) {
+      await speakerMappingRepository.updateByDisplayName(meetingId, name, data);
+      // Transcriptions reassigned to a name no label maps to yet
+      if (speakers.length === 0 && !mappings.some((mapping) => mapping.displayName === name)) {
+        await speakerMappingRepository.upsertMapping(meetingId, name, data);
+      }
+    }
+  }
+
+  private async rewriteAnalyses(
+    meetingId: string,
+    rename: (text: string) => string
+  ): Promise<number> {
+    const results = await analysisResultRepository.findByMeetingId(meetingId);
+    let updated = 0;
+
+    for (const result of results) {
+      const data: UpdateAnalysisResultData = {};
+      for (const field of ANALYSIS_FIELDS) {
+        const value = result[field];
+        if (value === null || value === undefined) continue;
+
+        let rewritten = rewriteValue(value, rename);
+        if (field === 'participants' && isSpeakerMetricsList(rewritten)) {
+          rewritten = mergeSpeakerMetrics(rewritten);
+        }
+        if (JSON.stringify(rewritten) !== JSON.stringify(value)) {
+          data[field] = rewritten as never;
+        }
+      }
+
+      // Merged speakers count once
+      const metadata = (data.metadata ?? result.metadata) as Record<string, unknown> | null;
+      if (Array.isArray(data.participants) && typeof metadata?.participantCount === 'number') {
+        data.metadata = { ...metadata, participantCount: data.participants.length };
+      }
+
+      if (Object.keys(data).length > 0) {
+        await analysisResultRepository.update(result.id, data);
+        updated++;
+      }
+    }
+
+    return updated;
+  }
+
+  private async rewriteActionItems(
+    meetingId: string,
+    rename: (text: string) => string
+  ): Promise<number> {
+    const items = await actionItemRepository.findByMeetingId(meetingId);
+    let updated = 0;
+
+    for (const item of items) {
+      const changes = changedFields(item, rename, ['owner', 'assignees', 'description', 'context']);
+      if (changes) {
+        await actionItemRepository.update(item.id, changes);
+        updated++;
+      }
+    }
+
+    return updated;
+  }
+
+  private async rewriteDecisions(
+    meetingId: string,
+    rename: (text: string) => string
+  ): Promise<number> {
+    const decisions = await decisionRepository.findByMeetingId(meetingId);
+    let updated = 0;
+
+    for (const decision of decisions) {
+      const changes = changedFields(decision, rename, [
+        'participants',
+        'description',
+        'rationale',
+        'context',
+      ]);
+      if (changes) {
+        await decisionRepository.update(decision.id, changes);
+        updated++;
+      }
+    }
+
+    return updated;
+  }
+}
+
+/**
+ * Replace whole-word mentions of speakers in text with a new name
+ */
+function createRenamer(speakers: string[], name: string): (text: string) => string {
+  const alternatives = [...speakers]
+    .sort((a, b) => b.length - a.length)
+    .map((speaker) => speaker.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}_])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}_])`,
+    'gu'
+  );
+
+  return (text: string) => text.replace(pattern, () => name);
+}
+
+/**
+ * Apply a rename to every string in a JSON value
+ */
+function rewriteValue(value: unknown, rename: (text: string) => string): unknown {
+  if (typeof value === 'string') {
+    return rename(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => rewriteValue(item, rename));
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, rewriteValue(item, rename)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Fields of a record a rename changes, or null when it changes none
+ */
+function changedFields<T extends object, K extends keyof T>(
+  record: T,
+  rename: (text: string) => string,
+  fields: K[]
+): Partial<T> | null {
+  const changes: Partial<T> = {};
+  for (const field of fields) {
+    const rewritten = rewriteValue(record[field], rename) as T[K];
+    if (JSON.stringify(rewritten) !== JSON.stringify(record[field])) {
+      changes[field] = rewritten;
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+function isSpeakerMetricsList(value: unknown): value is SpeakerMetrics[] {
+  return (
+    Array.isArray(value) &&
+    value.every((item) => item && typeof item === 'object' && 'speakerName' in item)
+  );
+}
+
+/**
+ * Combine speaker metrics that now have the same speaker name
+ * Averages are weighted by the words each entry spoke.
+ */
+export function mergeSpeakerMetrics(metrics: SpeakerMetrics[]): SpeakerMetrics[] {
+  const merged = new Map<string, SpeakerMetrics>();
+
+  for (const entry of metrics) {
+    const current = merged.get(entry.speakerName);
+    if (!current) {
+      merged.set(entry.speakerName, entry);
+      continue;
+    }
+
+    const words = (current.totalWords || 0) + (entry.totalWords || 0);
+    const weigh = (a: number, b: number): number =>
+      words > 0
+        ? ((a || 0) * (current.totalWords || 0) + (b || 0) * (entry.totalWords || 0)) / words
+        : ((a || 0) + (b || 0)) / 2;
+    const sentiment = (key: keyof SpeakerMetrics['sentimentDistribution']): number =>
+      weigh(current.sentimentDistribution?.[key], entry.sentimentDistribution?.[key]);
+
+    merged.set(entry.speakerName, {
+      ...current,
+      totalWords: words,
+      speakingTime: (current.speakingTime || 0) + (entry.speakingTime || 0),
+      speakingPercentage:
+        Math.round(((current.speakingPercentage || 0) + (entry.speakingPercentage || 0)) * 100) /
+        100,
+      averageConfidence: weigh(current.averageConfidence, entry.averageConfidence),
+      speakerConfidence:
+        typeof current.speakerConfidence === 'number' && typeof entry.speakerConfidence === 'number'
+          ? weigh(current.speakerConfidence, entry.speakerConfidence)
+          : current.speakerConfidence ?? entry.speakerConfidence,
+      sentimentDistribution: {
+        positive: sentiment('positive'),
+        neutral: sentiment('neutral'),
+        negative: sentiment('negative'),
+      },
+      keyContributions: [
+        ...new Set([...(current.keyContributions || []), ...(entry.keyContributions || [])]),
+      ],
+    });
+  }
+
+  return [...merged.values()];
+}
+
+// Export singleton instance
+export const speakerService = new SpeakerService();
@@ -0,0 +1,82 @@
+import { execFile } from 'child_process';
+import { readdir, stat } from 'fs/promises';
+import { join } from 'path';
+import { promisify } from 'util';
+import { AudioFileChunk } from './types/stt.types.js';
+import { config } from '../../config/index.js';
+import { AppError } from '../../middlewares/error-handler.js';
+
+const execFileAsync = promisify(execFile);
+
+const SAMPLE_RATE = 16000;
+const BYTES_PER_SECOND = SAMPLE_RATE * 2; // Mono 16-bit PCM
+const WAV_HEADER_BYTES = 44;
+const CHUNK_PATTERN = /^chunk-\d+\.wav$/;
+
+/**
+ * Audio Chunker
+ * Converts uploaded audio or video to WAV pieces with ffmpeg
+ */
+export class AudioChunker {
+  /**
+   * Convert a recording to 16 kHz mono WAV chunks of at most `chunkSeconds` in `outputDir`
+   * The video track of an upload is dropped.
+   */
+  async split(
+    inputPath: string,
+    outputDir: string,
+    chunkSeconds: number = config.speechToText.chunkSeconds
+  ): Promise<AudioFileChunk[]> {
+    const { ffmpegTimeoutSeconds } = config.speechToText;
+
+    try {
+      await execFileAsync(
+        config.speechToText.ffmpegPath,
+        [
+          '-hide_banner',
+          '-loglevel', 'error',
+          '-i', inputPath,
+          '-vn',
+          '-ac', '1',
+          '-ar', String(SAMPLE_RATE),
+          '-c:a', 'pcm_s16le',
+          '-f', 'segment',
+          '-segment_time', String(chunkSeconds),
+          '-reset_timestamps', '1',
+          join(outputDir, 'chunk-%05d.wav'),
+        ],
+        { maxBuffer: 1024 * 1024, timeout: ffmpegTimeoutSeconds * 1000, killSignal: 'SIGKILL' }
+      );
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new AppError('ffmpeg is not installed or FFMPEG_PATH is wrong', 500);
+      }
+      if ((error as { killed?: boolean }).killed) {
+        throw new AppError(
+          `Converting the audio took longer than ${ffmpegTimeoutSeconds} seconds`,
+          500
+        );
+      }
+      throw new AppError(`Could not read the audio: ${stderr || String(error)}`, 400);
+    }
+
+    const files = (await readdir(outputDir)).filter((file) => CHUNK_PATTERN.test(file)).sort();
+
+    // ffmpeg cuts on packet boundaries, so place each chunk by its actual length
+    const chunks: AudioFileChunk[] = [];
+    let offset = 0;
+    for (const file of files) {
+      const path = join(outputDir, file);
+      const { size } = await stat(path);
+      const duration = Math.max(size - WAV_HEADER_BYTES, 0) / BYTES_PER_SECOND;
+      chunks.push({ path, offset, duration });
+      offset += duration;
+    }
+
+    return chunks.filter((chunk) => chunk.duration > 0);
+  }
+}
+
+// Export singleton instance
+export const audioChunker = new AudioChunker();
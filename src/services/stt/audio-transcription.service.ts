@@ -0,0 +1,414 @@
+import { createWriteStream } from 'fs';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  meetingRepository,
+  transcriptChunkRepository,
+  transcriptionRepository,
+} from '../../repositories/index.js';
+import {
+  AudioTranscriptionOptions,
+  AudioTranscriptionProgress,
+  AudioTranscriptionStatus,
+  SpeechToTextEngine,
+} from './types/stt.types.js';
+import { speechToTextEngineRegistry } from './stt-engine.registry.js';
+import { diarizerRegistry } from '../diarization/diarizer.registry.js';
+import { SpeakerDiarizer } from '../diarization/types/diarization.types.js';
+import { audioChunker } from './audio-chunker.js';
+import { AudioChunk, transcriptionService } from '../transcription.service.js';
+import { analysisQueueService } from '../ai/analysis-queue.service.js';
+import { AnalysisType } from '../ai/types/analysis.types.js';
+import { semanticSearchService } from '../semantic-search.service.js';
+import { transcriptRevisionService } from '../transcript-revision.service.js';
+import { TranscriptRevisionAction } from '../../types/transcript-revision.types.js';
+import { config } from '../../config/index.js';
+import { AppError } from '../../middlewares/error-handler.js';
+import { logger } from '../../utils/logger.js';
+
+const UNFINISHED_STATUSES = [
+  AudioTranscriptionStatus.QUEUED,
+  AudioTranscriptionStatus.CONVERTING,
+  AudioTranscriptionStatus.TRANSCRIBING,
+];
+
+/**
+ * Audio Transcription Service
+ * Transcribes uploaded recordings of a meeting with a speech-to-text engine
+ * Uploads are transcribed one at a time in the background; progress is kept in the meeting's
+ * metadata under `audioTranscription`.
+ */
+export class AudioTranscriptionService {
+  private queue: Promise<void> = Promise.resolve();
+  private activeMeetings = new Set<string>();
+
+  /**
+   * Queue an uploaded audio or video file of a meeting the user owns for transcription
+   * The upload is streamed to a temporary file rather than held in memory.
+   */
+  async transcribeUpload(
+    meetingId: string,
+    userId: string,
+    upload: Readable,
+    options: AudioTranscriptionOptions = {}
+  ): Promise<AudioTranscriptionProgress> {
+    const meeting = await meetingRepository.findById(meetingId);
+    if (!meeting) {
+      throw new AppError('Meeting not found', 404);
+    }
+
+    if (meeting.userId !== userId) {
+      throw new AppError('Unauthorized access to meeting', 403);
+    }
+
+    if (meeting.status === 'in_progress') {
+      throw new AppError('Cannot transcribe a recording while the meeting is in progress', 409);
+    }
+
+    if (this.activeMeetings.has(meetingId)) {
+      throw new AppError('A recording of this meeting is already being transcribed', 409);
+    }
+
+    // Claimed before anything is awaited, so a second upload cannot pass the check meanwhile
+    this.activeMeetings.add(meetingId);
+    let dir: string | undefined;
+
+    try {
+      const existing = await transcriptionRepository.countByMeetingId(meetingId);
+      if (existing > 0 && !options.replace) {
+        throw new AppError('Meeting already has a transcript. Set replace to overwrite it', 409);
+      }
+
+      const engine = this.getEngine(options.engine ?? config.speechToText.engine);
+      const diarizer = options.diarize === false ? null : this.getDiarizer();
+
+      dir = await mkdtemp(join(tmpdir(), 'cogninote-audio-'));
+      const inputPath = join(dir, 'upload');
+      const bytes = await this.saveUpload(upload, inputPath);
+      if (bytes === 0) {
+        throw new AppError('Audio file is empty', 400);
+      }
+
+      const progress: AudioTranscriptionProgress = {
+        status: AudioTranscriptionStatus.QUEUED,
+        engine: engine.name,
+        diarizer: diarizer?.name ?? null,
+        language: options.language,
+        totalChunks: null,
+        processedChunks: 0,
+        segments: 0,
+        percent: 0,
+        startedAt: new Date().toISOString(),
+      };
+      await this.saveProgress(meetingId, progress);
+
+      const workDir = dir;
+      this.queue = this.queue.then(() =>
+        this.run(meetingId, userId, workDir, inputPath, engine, diarizer, options, progress)
+          .finally(() => this.activeMeetings.delete(meetingId))
+      );
+
+      logger.info('Audio transcription queued', { meetingId, engine: engine.name, bytes });
+
+      return { ...progress };
+    } catch (error) {
+      this.activeMeetings.delete(meetingId);
+      if (dir) {
+        await rm(dir, { recursive: true, force: true });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Progress of the latest recording uploaded for a meeting the user owns
+   */
+  async getProgress(meetingId: string, userId: string): Promise<AudioTranscriptionProgress> {
+    const meeting = await meetingRepository.findById(meetingId);
+    if (!meeting) {
+      throw new AppError('Meeting not found', 404);
+    }
+
+    if (meeting.userId !== userId) {
+      throw new AppError('Unauthorized access to meeting', 403);
+    }
+
+    const progress = (meeting.metadata as { audioTranscription?: AudioTranscriptionProgress })
+      ?.audioTranscription;
+    if (!progress) {
+      throw new AppError('No recording has been uploaded for this meeting', 404);
+    }
+
+    return progress;
+  }
+
+  /**
+   * Mark recordings left unfinished by an earlier run of the server as failed
+   * Uploads are transcribed from a temporary file of the process that received them, so they
+   * cannot be resumed after a restart and would otherwise stay queued or transcribing forever.
+   */
+  async failInterrupted(): Promise<number> {
+    const meetings = await meetingRepository.findByAudioTranscriptionStatus(UNFINISHED_STATUSES);
+    let failed = 0;
+
+    for (const meeting of meetings) {
+      if (this.activeMeetings.has(meeting.id)) {
+        continue;
+      }
+
+      const { audioTranscription: progress } = meeting.metadata as unknown as {
+        audioTranscription: AudioTranscriptionProgress;
+      };
+      await this.saveProgress(meeting.id, {
+        ...progress,
+        status: AudioTranscriptionStatus.FAILED,
+        error: 'Transcription was interrupted by a server restart; upload the recording again',
+        completedAt: new Date().toISOString(),
+      });
+      failed++;
+    }
+
+    if (failed > 0) {
+      logger.warn('Marked interrupted audio transcriptions as failed', { meetings: failed });
+    }
+
+    return failed;
+  }
+
+  private getEngine(name: string): SpeechToTextEngine {
+    const engine = speechToTextEngineRegistry.get(name);
+    if (!engine) {
+      throw new AppError(
+        `Unknown speech-to-text engine "${name}". Available engines: ` +
+          speechToTextEngineRegistry.getNames().join(', '),
+        400
+      );
+    }
+
+    if (!engine.isConfigured()) {
+      throw new AppError(`Speech-to-text engine "${name}" is not configured`, 400);
+    }
+
+    return engine;
+  }
+
+  /**
+   * The configured diarization back-end, or null when it is "none"
+   */
+  private getDiarizer(): SpeakerDiarizer | null {
+    const name = config.diarization.backend;
+    if (name === 'none') {
+      return null;
+    }
+
+    const diarizer = diarizerRegistry.get(name);
+    if (!diarizer?.isConfigured()) {
+      throw new AppError(
+        `Diarization back-end "${name}" is not available; upload with diarize=false`,
+        500
+      );
+    }
+
+    return diarizer;
+  }
+
+  /**
+   * Convert, transcribe and store an upload, recording progress after each chunk
+   * Never throws: failures are recorded in the progress.
+   */
+  private async run(
+    meetingId: string,
+    userId: string,
+    dir: string,
+    inputPath: string,
+    engine: SpeechToTextEngine,
+    diarizer: SpeakerDiarizer | null,
+    options: AudioTranscriptionOptions,
+    progress: AudioTranscriptionProgress
+  ): Promise<void> {
+    try {
+      progress.status = AudioTranscriptionStatus.CONVERTING;
+      await this.saveProgress(meetingId, progress);
+
+      const files = await audioChunker.split(inputPath, dir);
+      if (files.length === 0) {
+        throw new AppError('No audio found in the file', 400);
+      }
+
+      // The old transcript goes only once the upload turned out to be readable
+      const replaced = await transcriptionRepository.countByMeetingId(meetingId);
+      if (replaced > 0) {
+        await transcriptChunkRepository.deleteByMeetingId(meetingId);
+        await transcriptionRepository.deleteByMeetingId(meetingId);
+      }
+
+      progress.status = AudioTranscriptionStatus.TRANSCRIBING;
+      progress.totalChunks = files.length;
+      await this.saveProgress(meetingId, progress);
+
+      // One session for the whole recording so speakers keep their labels across chunks
+      const diarization = diarizer?.createSession();
+      const speakers = new Set<string>();
+
+      for (const [index, file] of files.entries()) {
+        const audio: AudioChunk = {
+          chunkId: `${meetingId}-${index}`,
+          meetingId,
+          audioData: await readFile(file.path),
+          timestamp: file.offset,
+          duration: file.duration,
+        };
+        const speech = await engine.transcribe(audio, { language: options.language });
+        const assignments =
+          diarization && speech.length > 0 ? await diarization.assign(audio, speech) : [];
+
+        // One chunk per recognised segment, placed on the recording's timeline
+        const chunks = speech.map(
+          (segment, position): AudioChunk => ({
+            chunkId: `${audio.chunkId}-${position}`,
+            meetingId,
+            timestamp: file.offset + segment.startTime,
+            duration: Math.max(segment.endTime - segment.startTime, 0),
+            speaker: assignments[position]?.speaker,
+            speakerConfidence: assignments[position]?.confidence,
+          })
+        );
+        assignments.forEach((assignment) => speakers.add(assignment.speaker));
+
+        if (chunks.length > 0) {
+          await transcriptionService.processAudioChunkBatch(
+            chunks,
+            speech.map((segment) => ({
+              speaker: '', // Engines do not tell speakers apart; diarization set it on the chunk
+              text: segment.text,
+              startTime: file.offset + segment.startTime,
+              endTime: file.offset + segment.endTime,
+              confidence: segment.confidence,
+            }))
+          );
+        }
+
+        progress.processedChunks = index + 1;
+        progress.segments += chunks.length;
+        progress.percent = Math.floor((progress.processedChunks / files.length) * 100);
+        await this.saveProgress(meetingId, progress);
+      }
+
+      const last = files[files.length - 1];
+      await this.updateTranscriptionMetadata(meetingId, {
+        totalSegments: progress.segments,
+        totalDuration: last.offset + last.duration,
+        speakers: [...speakers],
+        completedAt: new Date(),
+        transcribedWith: engine.name,
+      });
+
+      if (replaced > 0) {
+        // Too large to keep segment by segment; analyses of the old transcript become stale
+        await transcriptRevisionService.record(
+          meetingId,
+          userId,
+          TranscriptRevisionAction.REPLACE,
+          null,
+          { summary: `Replaced by a transcript of an uploaded recording (${engine.name})` }
+        );
+      }
+
+      semanticSearchService.scheduleIndexing(meetingId, { flush: true });
+
+      if (options.analyze && progress.segments > 0) {
+        const job = await analysisQueueService.enqueue(
+          meetingId,
+          userId,
+          Object.values(AnalysisType)
+        );
+        progress.analysisJobId = job.jobId;
+      }
+
+      progress.status = AudioTranscriptionStatus.COMPLETED;
+      progress.completedAt = new Date().toISOString();
+      await this.saveProgress(meetingId, progress);
+
+      logger.info('Audio transcription completed', {
+        meetingId,
+        engine: engine.name,
+        chunks: files.length,
+        segments: progress.segments,
+      });
+    } catch (error) {
+      logger.error('Audio transcription failed', { meetingId, engine: engine.name, error });
+
+      progress.status = AudioTranscriptionStatus.FAILED;
+      progress.error = error instanceof Error ? error.message : String(error);
+      progress.completedAt = new Date().toISOString();
+      await this.saveProgress(meetingId, progress).catch((saveError) =>
+        logger.error('Failed to record audio transcription failure', {
+          meetingId,
+          error: saveError,
+        })
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Write an upload to a file, failing once it grows past the upload limit
+   * Returns the number of bytes written
+   */
+  private async saveUpload(upload: Readable, path: string): Promise<number> {
+    const { maxUploadMb } = config.speechToText;
+    let bytes = 0;
+
+    await pipeline(
+      upload,
+      new Transform({
+        transform(chunk: Buffer, _encoding, callback): void {
+          bytes += chunk.length;
+          if (bytes > maxUploadMb * 1024 * 1024) {
+            callback(new AppError(`Recordings can be at most ${maxUploadMb} MB`, 413));
+            return;
+          }
+          callback(null, chunk);
+        },
+      }),
+      createWriteStream(path)
+    );
+
+    return bytes;
+  }
+
+  private async saveProgress(
+    meetingId: string,
+    progress: AudioTranscriptionProgress
+  ): Promise<void> {
+    const meeting = await meetingRepository.findById(meetingId);
+    if (!meeting) {
+      return;
+    }
+
+    await meetingRepository.update(meetingId, {
+      metadata: { ...(meeting.metadata as object), audioTranscription: { ...progress } },
+    });
+  }
+
+  private async updateTranscriptionMetadata(
+    meetingId: string,
+    transcription: Record<string, unknown>
+  ): Promise<void> {
+    const meeting = await meetingRepository.findById(meetingId);
+    if (!meeting) {
+      return;
+    }
+
+    await meetingRepository.update(meetingId, {
+      metadata: { ...(meeting.metadata as object), transcription },
+    });
+  }
+}
+
+// Export singleton instance
+export const audioTranscriptionService = new AudioTranscriptionService();
@@ -0,0 +1,60 @@
+import OpenAI, { toFile } from 'openai';
+import { AudioChunk } from '../../transcription.service.js';
+import { SpeechSegment, SpeechToTextEngine, SpeechToTextOptions } from '../types/stt.types.js';
+import { config } from '../../../config/index.js';
+import { AppError } from '../../../middlewares/error-handler.js';
+
+/**
+ * OpenAI Whisper Engine
+ * Sends chunks to the OpenAI transcription API, or a compatible endpoint
+ */
+export class OpenAIWhisperEngine implements SpeechToTextEngine {
+  readonly name = 'openai';
+
+  private client: OpenAI | null = null;
+
+  isConfigured(): boolean {
+    return !!config.openai.apiKey;
+  }
+
+  async transcribe(chunk: AudioChunk, options: SpeechToTextOptions): Promise<SpeechSegment[]> {
+    if (!chunk.audioData) {
+      throw new AppError(`Audio chunk ${chunk.chunkId} has no audio`, 400);
+    }
+
+    const response = await this.getClient().audio.transcriptions.create({
+      file: await toFile(chunk.audioData, `${chunk.chunkId}.wav`, { type: 'audio/wav' }),
+      model: config.speechToText.openaiModel,
+      language: options.language,
+      response_format: 'verbose_json',
+      timestamp_granularities: ['segment'],
+    });
+
+    return (response.segments || [])
+      .map((segment) => ({
+        text: segment.text.trim(),
+        startTime: segment.start,
+        endTime: segment.end,
+        confidence: Math.exp(segment.avg_logprob),
+      }))
+      .filter((segment) => segment.text);
+  }
+
+  private getClient(): OpenAI {
+    if (!config.openai.apiKey) {
+      throw new AppError('OPENAI_API_KEY is not set', 500);
+    }
+
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: config.openai.apiKey,
+        baseURL: config.openai.endpoint || 'https://api.openai.com/v1',
+      });
+    }
+
+    return this.client;
+  }
+}
+
+// Export singleton instance
+export const openaiWhisperEngine = new OpenAIWhisperEngine();
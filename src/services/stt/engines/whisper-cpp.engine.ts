@@ -0,0 +1,106 @@
+import { execFile } from 'child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { promisify } from 'util';
+import { AudioChunk } from '../../transcription.service.js';
+import { SpeechSegment, SpeechToTextEngine, SpeechToTextOptions } from '../types/stt.types.js';
+import { config } from '../../../config/index.js';
+import { AppError } from '../../../middlewares/error-handler.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Segment of the full JSON output of whisper.cpp (`-ojf`)
+ */
+interface WhisperCppSegment {
+  offsets: { from: number; to: number }; // Milliseconds
+  text: string;
+  tokens?: { text: string; p: number }[];
+}
+
+/**
+ * whisper.cpp Engine
+ * Runs the whisper.cpp command line tool on this machine, no network access needed.
+ */
+export class WhisperCppEngine implements SpeechToTextEngine {
+  readonly name = 'whisper-cpp';
+
+  isConfigured(): boolean {
+    return !!config.speechToText.whisperCpp.modelPath;
+  }
+
+  async transcribe(chunk: AudioChunk, options: SpeechToTextOptions): Promise<SpeechSegment[]> {
+    const { binaryPath, modelPath, threads, timeoutSeconds } = config.speechToText.whisperCpp;
+    if (!modelPath) {
+      throw new AppError('WHISPER_CPP_MODEL is not set', 500);
+    }
+    if (!chunk.audioData) {
+      throw new AppError(`Audio chunk ${chunk.chunkId} has no audio`, 400);
+    }
+
+    const dir = await mkdtemp(join(tmpdir(), 'cogninote-whisper-'));
+    try {
+      const input = join(dir, 'chunk.wav');
+      const output = join(dir, 'chunk');
+      await writeFile(input, chunk.audioData);
+
+      try {
+        await execFileAsync(
+          binaryPath,
+          [
+            '-m', modelPath,
+            '-f', input,
+            '-l', options.language || 'auto',
+            '-t', String(threads),
+            '-ojf',
+            '-of', output,
+            '-np',
+          ],
+          { timeout: timeoutSeconds * 1000, killSignal: 'SIGKILL' }
+        );
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          throw new AppError('whisper.cpp is not installed or WHISPER_CPP_PATH is wrong', 500);
+        }
+        if ((error as { killed?: boolean }).killed) {
+          throw new AppError(
+            `whisper.cpp took longer than ${timeoutSeconds} seconds on chunk ${chunk.chunkId}`,
+            500
+          );
+        }
+        throw error;
+      }
+
+      const result = JSON.parse(await readFile(`${output}.json`, 'utf8')) as {
+        transcription?: WhisperCppSegment[];
+      };
+
+      return (result.transcription || [])
+        .map((segment) => ({
+          text: segment.text.trim(),
+          startTime: segment.offsets.from / 1000,
+          endTime: segment.offsets.to / 1000,
+          confidence: tokenConfidence(segment),
+        }))
+        .filter((segment) => segment.text);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Mean probability of the words in a segment, leaving out markers such as [_BEG_]
+ */
+function tokenConfidence(segment: WhisperCppSegment): number {
+  const tokens = (segment.tokens || []).filter((token) => !/^\[_.*\]$/.test(token.text));
+  if (tokens.length === 0) {
+    return 0;
+  }
+
+  return tokens.reduce((sum, token) => sum + token.p, 0) / tokens.length;
+}
+
+// Export singleton instance
+export const whisperCppEngine = new WhisperCppEngine();
@@ -0,0 +1,42 @@
+import { SpeechToTextEngine } from './types/stt.types.js';
+import { whisperCppEngine } from './engines/whisper-cpp.engine.js';
+import { openaiWhisperEngine } from './engines/openai-whisper.engine.js';
+
+/**
+ * Speech-to-Text Engine Registry
+ * Engines by name
+ */
+export class SpeechToTextEngineRegistry {
+  private engines: Map<string, SpeechToTextEngine> = new Map();
+
+  constructor(engines: SpeechToTextEngine[] = []) {
+    engines.forEach((engine) => this.register(engine));
+  }
+
+  /**
+   * Add an engine, replacing any engine registered under the same name
+   */
+  register(engine: SpeechToTextEngine): void {
+    this.engines.set(engine.name, engine);
+  }
+
+  /**
+   * Get an engine by name
+   */
+  get(name: string): SpeechToTextEngine | undefined {
+    return this.engines.get(name);
+  }
+
+  /**
+   * Names of all registered engines
+   */
+  getNames(): string[] {
+    return [...this.engines.keys()];
+  }
+}
+
+// Export singleton instance with the built-in engines
+export const speechToTextEngineRegistry = new SpeechToTextEngineRegistry([
+  whisperCppEngine,
+  openaiWhisperEngine,
+]);
@@ -0,0 +1,74 @@
+import { AudioChunk } from '../../transcription.service.js';
+
+/**
+ * Speech recognised in a piece of audio
+ * Times are seconds from the start of the chunk it was heard in.
+ */
+export interface SpeechSegment {
+  text: string;
+  startTime: number;
+  endTime: number;
+  confidence: number; // 0 to 1
+}
+
+export interface SpeechToTextOptions {
+  language?: string; // ISO 639-1 code, detected when not given
+}
+
+/**
+ * Speech-to-text engine
+ * Engines get chunks of 16 kHz mono 16-bit WAV in `audioData` and do not tell speakers apart.
+ */
+export interface SpeechToTextEngine {
+  readonly name: string;
+
+  /**
+   * Check the engine has what it needs to run, such as a model file or an API key
+   */
+  isConfigured(): boolean;
+
+  transcribe(chunk: AudioChunk, options: SpeechToTextOptions): Promise<SpeechSegment[]>;
+}
+
+/**
+ * Piece of an uploaded recording, converted for the engines
+ */
+export interface AudioFileChunk {
+  path: string;
+  offset: number; // Seconds from the start of the recording
+  duration: number; // Seconds
+}
+
+export enum AudioTranscriptionStatus {
+  QUEUED = 'queued',
+  CONVERTING = 'converting', // Decoding the upload and cutting it into chunks
+  TRANSCRIBING = 'transcribing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+/**
+ * Progress of an uploaded recording, kept in the meeting's metadata
+ */
+export interface AudioTranscriptionProgress {
+  status: AudioTranscriptionStatus;
+  engine: string;
+  diarizer: string | null; // Null when speakers are not told apart
+  language?: string;
+  totalChunks: number | null; // Known once the upload is converted
+  processedChunks: number;
+  segments: number;
+  percent: number;
+  startedAt: string;
+  completedAt?: string;
+  error?: string;
+  analysisJobId?: string;
+}
+
+export interface AudioTranscriptionOptions {
+  engine?: string; // The configured engine when not given
+  language?: string;
+  diarize?: boolean; // Tell speakers apart, on unless false
+  replace?: boolean; // Overwrite the meeting's existing transcript
+  analyze?: boolean; // Queue analysis once the transcript is stored
+}
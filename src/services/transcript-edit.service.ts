@@ -0,0 +1,225 @@
+import { Meeting, Transcription } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  actionItemRepository,
+  decisionRepository,
+  meetingRepository,
+  transcriptionRepository,
+} from '../repositories/index.js';
+import {
+  TranscriptEditResult,
+  TranscriptRevisionAction,
+  TranscriptSegmentInsert,
+  TranscriptSegmentUpdate,
+} from '../types/transcript-revision.types.js';
+import { snapshotSegment, transcriptRevisionService } from './transcript-revision.service.js';
+import { READING_CHARS_PER_SECOND } from '../utils/subtitle.util.js';
+import { AppError } from '../middlewares/error-handler.js';
+
+/**
+ * Transcript Edit Service
+ * Corrects meeting transcripts segment by segment, recording each change as a revision
+ */
+export class TranscriptEditService {
+  /**
+   * Change the text or speaker of a segment
+   */
+  async editSegment(
+    meetingId: string,
+    userId: string,
+    transcriptionId: string,
+    update: TranscriptSegmentUpdate
+  ): Promise<TranscriptEditResult> {
+    await this.getOwnedMeeting(meetingId, userId);
+    const segment = await this.getSegment(meetingId, transcriptionId);
+
+    const data: TranscriptSegmentUpdate = {};
+    if (update.text !== undefined && update.text.trim() !== segment.text) {
+      data.text = update.text.trim();
+    }
+    if (update.speakerName !== undefined && update.speakerName !== segment.speakerName) {
+      data.speakerName = update.speakerName;
+    }
+    if (Object.keys(data).length === 0) {
+      throw new AppError('The transcription already reads like this', 400);
+    }
+
+    const updated = await transcriptionRepository.update(
+      transcriptionId,
+      'speakerName' in data ? { ...data, speakerConfidence: null } : data
+    );
+
+    const revision = await transcriptRevisionService.record(
+      meetingId,
+      userId,
+      TranscriptRevisionAction.EDIT,
+      { before: [snapshotSegment(segment)], after: [snapshotSegment(updated)] },
+      { summary: data.text ? 'Edited text' : 'Changed speaker' }
+    );
+
+    return { revision, segments: [updated] };
+  }
+
+  /**
+   * Split a segment in two at a character offset of its text
+   * Timed segments share their time in proportion to the length of each part.
+   */
+  async splitSegment(
+    meetingId: string,
+    userId: string,
+    transcriptionId: string,
+    options: { at: number; speakerName?: string | null }
+  ): Promise<TranscriptEditResult> {
+    await this.getOwnedMeeting(meetingId, userId);
+    const segment = await this.getSegment(meetingId, transcriptionId);
+
+    const first = segment.text.slice(0, options.at).trim();
+    const second = segment.text.slice(options.at).trim();
+    if (!first || !second) {
+      throw new AppError('Split point must leave text on both sides', 400);
+    }
+
+    const start = segment.timestampStart?.getTime();
+    const end = segment.timestampEnd?.getTime();
+    let splitAt: number | undefined;
+    if (start !== undefined && end !== undefined) {
+      splitAt = start + Math.round(((end - start) * first.length) / (first.length + second.length));
+    } else if (start !== undefined) {
+      splitAt = start + Math.round((first.length / READING_CHARS_PER_SECOND) * 1000);
+    }
+
+    const updated = await transcriptionRepository.update(transcriptionId, {
+      text: first,
+      timestampEnd: end !== undefined && splitAt !== undefined ? new Date(splitAt) : undefined,
+    });
+    const created = await transcriptionRepository.create({
+      meetingId,
+      speakerName: (options.speakerName ?? segment.speakerName) || undefined,
+      text: second,
+      timestampStart: splitAt !== undefined ? new Date(splitAt) : undefined,
+      timestampEnd: segment.timestampEnd ?? undefined,
+      confidence: segment.confidence ?? undefined,
+    });
+
+    const revision = await transcriptRevisionService.record(
+      meetingId,
+      userId,
+      TranscriptRevisionAction.SPLIT,
+      {
+        before: [snapshotSegment(segment)],
+        after: [snapshotSegment(updated), snapshotSegment(created)],
+      },
+      { summary: 'Split a segment in two' }
+    );
+
+    return { revision, segments: [updated, created] };
+  }
+
+  /**
+   * Join segments into the first of them in spoken order
+   * Action items and decisions taken from the joined segments point at the result.
+   */
+  async mergeSegments(
+    meetingId: string,
+    userId: string,
+    transcriptionIds: string[],
+    options: { speakerName?: string | null } = {}
+  ): Promise<TranscriptEditResult> {
+    await this.getOwnedMeeting(meetingId, userId);
+
+    const ids = [...new Set(transcriptionIds)];
+    if (ids.length < 2) {
+      throw new AppError('At least two transcriptions are needed to merge', 400);
+    }
+
+    const segments = await transcriptionRepository.findByIds(meetingId, ids);
+    if (segments.length !== ids.length) {
+      throw new AppError('Transcriptions not found in meeting', 404);
+    }
+
+    const [first, ...rest] = segments;
+    const ends = segments
+      .map((segment) => segment.timestampEnd?.getTime())
+      .filter((end): end is number => end !== undefined);
+    const confidences = segments
+      .map((segment) => segment.confidence)
+      .filter((confidence): confidence is Decimal => confidence !== null);
+
+    const merged = await transcriptionRepository.update(first.id, {
+      speakerName: options.speakerName !== undefined ? options.speakerName : first.speakerName,
+      text: segments.map((segment) => segment.text).join(' '),
+      timestampEnd: ends.length > 0 ? new Date(Math.max(...ends)) : first.timestampEnd,
+      // As reliable as its least reliable part
+      confidence: confidences.length > 0 ? Decimal.min(...confidences) : null,
+    });
+
+    const removed = rest.map((segment) => segment.id);
+    await actionItemRepository.moveSourceTranscriptions(removed, first.id);
+    await decisionRepository.moveSourceTranscriptions(removed, first.id);
+    await transcriptionRepository.deleteByIds(meetingId, removed);
+
+    const revision = await transcriptRevisionService.record(
+      meetingId,
+      userId,
+      TranscriptRevisionAction.MERGE,
+      { before: segments.map(snapshotSegment), after: [snapshotSegment(merged)] },
+      { summary: `Merged ${segments.length} segments` }
+    );
+
+    return { revision, segments: [merged] };
+  }
+
+  /**
+   * Add a segment the transcript missed
+   */
+  async insertSegment(
+    meetingId: string,
+    userId: string,
+    data: TranscriptSegmentInsert
+  ): Promise<TranscriptEditResult> {
+    await this.getOwnedMeeting(meetingId, userId);
+
+    const created = await transcriptionRepository.create({
+      meetingId,
+      speakerName: data.speakerName || undefined,
+      text: data.text.trim(),
+      timestampStart: data.timestampStart,
+      timestampEnd: data.timestampEnd,
+    });
+
+    const revision = await transcriptRevisionService.record(
+      meetingId,
+      userId,
+      TranscriptRevisionAction.INSERT,
+      { before: [], after: [snapshotSegment(created)] },
+      { summary: 'Inserted a segment' }
+    );
+
+    return { revision, segments: [created] };
+  }
+
+  private async getOwnedMeeting(meetingId: string, userId: string): Promise<Meeting> {
+    const meeting = await meetingRepository.findById(meetingId);
+    if (!meeting) {
+      throw new AppError('Meeting not found', 404);
+    }
+
+    if (meeting.userId !== userId) {
+      throw new AppError('Unauthorized access to meeting', 403);
+    }
+
+    return meeting;
+  }
+
+  private async getSegment(meetingId: string, transcriptionId: string): Promise<Transcription> {
+    const segment = await transcriptionRepository.findById(transcriptionId);
+    if (!segment || segment.meetingId !== meetingId) {
+      throw new AppError('Transcription not found', 404);
+    }
+
+    return segment;
+  }
+}
+
+// Export singleton instance
+export const transcriptEditService = new TranscriptEditService();
@@ -0,0 +1,332 @@
+import { Meeting, Transcription, TranscriptRevision } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  meetingRepository,
+  transcriptChunkRepository,
+  transcriptionRepository,
+  transcriptRevisionRepository,
+  CreateTranscriptionData,
+  UpdateTranscriptionData,
+} from '../repositories/index.js';
+import {
+  TranscriptDiff,
+  TranscriptEditResult,
+  TranscriptRevisionAction,
+  TranscriptRevisionChanges,
+  TranscriptSegmentDiff,
+  TranscriptSegmentSnapshot,
+} from '../types/transcript-revision.types.js';
+import { semanticSearchService } from './semantic-search.service.js';
+import { TextDiffUtil } from '../utils/text-diff.util.js';
+import { AppError } from '../middlewares/error-handler.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Transcript Revision Service
+ * Keeps the log of changes to meeting transcripts, and diffs and reverts them
+ */
+export class TranscriptRevisionService {
+  /**
+   * Record a change to the transcript of a meeting as its next revision
+   * Pass null changes for changes too large to keep, which cannot be diffed or reverted.
+   */
+  async record(
+    meetingId: string,
+    authorId: string | null,
+    action: TranscriptRevisionAction,
+    changes: TranscriptRevisionChanges | null,
+    options: { summary?: string; revertedRevision?: number } = {}
+  ): Promise<TranscriptRevision> {
+    const revision = await meetingRepository.nextTranscriptRevision(meetingId);
+
+    const entry = await transcriptRevisionRepository.create({
+      meetingId,
+      revision,
+      authorId,
+      action,
+      summary: options.summary,
+      changes: changes ?? undefined,
+      revertedRevision: options.revertedRevision,
+    });
+
+    if (changes) {
+      await this.refreshIndex(meetingId, changes);
+    }
+
+    logger.info('Transcript revision recorded', { meetingId, revision, action, authorId });
+
+    return entry;
+  }
+
+  /**
+   * Revision the transcript of a meeting is at, 0 before any change
+   * Analyses read it before the transcript, so an edit made while one runs leaves it stale.
+   */
+  async getCurrentRevision(meetingId: string): Promise<number> {
+    const meeting = await meetingRepository.findById(meetingId);
+    return meeting?.transcriptRevision ?? 0;
+  }
+
+  /**
+   * List revisions of a meeting the user owns, latest first
+   */
+  async getRevisions(
+    meetingId: string,
+    userId: string,
+    options: { page?: number; limit?: number } = {}
+  ): Promise<{ revisions: TranscriptRevision[]; total: number; currentRevision: number }> {
+    const meeting = await this.getOwnedMeeting(meetingId, userId);
+    const page = options.page || 1;
+    const limit = options.limit || 50;
+
+    const [revisions, total] = await Promise.all([
+      transcriptRevisionRepository.findByMeetingId(meetingId, {
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      transcriptRevisionRepository.countByMeetingId(meetingId),
+    ]);
+
+    return { revisions, total, currentRevision: meeting.transcriptRevision };
+  }
+
+  /**
+   * Get a revision of a meeting the user owns
+   */
+  async getRevision(
+    meetingId: string,
+    userId: string,
+    revision: number
+  ): Promise<TranscriptRevision> {
+    await this.getOwnedMeeting(meetingId, userId);
+    return this.findRevision(meetingId, revision);
+  }
+
+  /**
+   * Diff the transcript of a meeting between two revisions
+   * Only segments that changed are listed, in spoken order.
+   */
+  async diff(
+    meetingId: string,
+    userId: string,
+    fromRevision: number,
+    toRevision?: number
+  ): Promise<TranscriptDiff> {
+    const meeting = await this.getOwnedMeeting(meetingId, userId);
+    const to = toRevision ?? meeting.transcriptRevision;
+
+    if (fromRevision < 0 || to > meeting.transcriptRevision || fromRevision >= to) {
+      throw new AppError(
+        `Revisions must satisfy 0 <= from < to <= ${meeting.transcriptRevision}`,
+        400
+      );
+    }
+
+    const revisions = await transcriptRevisionRepository.findBetween(meetingId, fromRevision, to);
+    const start = new Map<string, TranscriptSegmentSnapshot | null>();
+    const end = new Map<string, TranscriptSegmentSnapshot | null>();
+
+    for (const revision of revisions) {
+      const changes = revision.changes as TranscriptRevisionChanges | null;
+      if (!changes) {
+        throw new AppError(
+          `Revision ${revision.revision} (${revision.action}) replaced the transcript and ` +
+            'cannot be diffed across',
+          400
+        );
+      }
+
+      const before = new Map(changes.before.map((segment) => [segment.id, segment]));
+      const after = new Map(changes.after.map((segment) => [segment.id, segment]));
+      for (const id of new Set([...before.keys(), ...after.keys()])) {
+        if (!start.has(id)) start.set(id, before.get(id) ?? null);
+        end.set(id, after.get(id) ?? null);
+      }
+    }
+
+    const segments: TranscriptSegmentDiff[] = [];
+    for (const [id, before] of start) {
+      const after = end.get(id) ?? null;
+      if (!before && !after) continue; // Added and removed again
+      if (before && after && sameSegment(before, after)) continue;
+
+      segments.push({
+        transcriptionId: id,
+        change: !before ? 'added' : !after ? 'removed' : 'modified',
+        before,
+        after,
+        textDiff:
+          before && after && before.text !== after.text
+            ? TextDiffUtil.diffWords(before.text, after.text)
+            : null,
+      });
+    }
+
+    segments.sort((a, b) => spokenAt(a) - spokenAt(b));
+
+    return { meetingId, fromRevision, toRevision: to, segments };
+  }
+
+  /**
+   * Undo a revision by recording one that puts its segments back as they were
+   * Fails when a later revision changed the same segments; revert that one first.
+   */
+  async revert(meetingId: string, userId: string, revision: number): Promise<TranscriptEditResult> {
+    await this.getOwnedMeeting(meetingId, userId);
+
+    const target = await this.findRevision(meetingId, revision);
+    const changes = target.changes as TranscriptRevisionChanges | null;
+    if (!changes) {
+      throw new AppError(`Revision ${revision} (${target.action}) cannot be reverted`, 400);
+    }
+
+    const beforeIds = new Set(changes.before.map((segment) => segment.id));
+    const afterIds = new Set(changes.after.map((segment) => segment.id));
+    const current = new Map(
+      (
+        await transcriptionRepository.findByIds(meetingId, [
+          ...new Set([...beforeIds, ...afterIds]),
+        ])
+      ).map((transcription) => [transcription.id, snapshotSegment(transcription)])
+    );
+
+    const unchanged =
+      changes.after.every((segment) => {
+        const now = current.get(segment.id);
+        return now && sameSegment(now, segment);
+      }) && [...beforeIds].every((id) => afterIds.has(id) || !current.has(id));
+    if (!unchanged) {
+      throw new AppError(
+        `The transcript changed after revision ${revision}; revert the later revisions first`,
+        409
+      );
+    }
+
+    const removed = [...afterIds].filter((id) => !beforeIds.has(id));
+    if (removed.length > 0) {
+      await transcriptionRepository.deleteByIds(meetingId, removed);
+    }
+
+    const restored = changes.before.filter((segment) => !afterIds.has(segment.id));
+    if (restored.length > 0) {
+      await transcriptionRepository.bulkCreate(
+        restored.map((segment): CreateTranscriptionData => {
+          const data = segmentData(segment);
+          return {
+            id: segment.id,
+            meetingId,
+            text: data.text,
+            speakerName: data.speakerName ?? undefined,
+            timestampStart: data.timestampStart ?? undefined,
+            timestampEnd: data.timestampEnd ?? undefined,
+            confidence: data.confidence ?? undefined,
+          };
+        })
+      );
+    }
+
+    for (const segment of changes.before.filter((segment) => afterIds.has(segment.id))) {
+      await transcriptionRepository.update(segment.id, segmentData(segment));
+    }
+
+    const entry = await this.record(
+      meetingId,
+      userId,
+      TranscriptRevisionAction.REVERT,
+      { before: changes.after, after: changes.before },
+      { summary: `Reverted revision ${revision}`, revertedRevision: revision }
+    );
+
+    return {
+      revision: entry,
+      segments: await transcriptionRepository.findByIds(meetingId, [...beforeIds]),
+    };
+  }
+
+  private async getOwnedMeeting(meetingId: string, userId: string): Promise<Meeting> {
+    const meeting = await meetingRepository.findById(meetingId);
+    if (!meeting) {
+      throw new AppError('Meeting not found', 404);
+    }
+
+    if (meeting.userId !== userId) {
+      throw new AppError('Unauthorized access to meeting', 403);
+    }
+
+    return meeting;
+  }
+
+  private async findRevision(meetingId: string, revision: number): Promise<TranscriptRevision> {
+    const entry = await transcriptRevisionRepository.findByRevision(meetingId, revision);
+    if (!entry) {
+      throw new AppError('Transcript revision not found', 404);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Embed segments whose words changed again
+   * Embeddings are made from the words alone, so speaker changes leave chunks be.
+   */
+  private async refreshIndex(meetingId: string, changes: TranscriptRevisionChanges): Promise<void> {
+    const before = new Map(changes.before.map((segment) => [segment.id, segment]));
+    const after = new Map(changes.after.map((segment) => [segment.id, segment]));
+    const changed = [...new Set([...before.keys(), ...after.keys()])].filter(
+      (id) => before.get(id)?.text !== after.get(id)?.text
+    );
+    if (changed.length === 0) {
+      return;
+    }
+
+    await transcriptChunkRepository.deleteByTranscriptionIds(meetingId, changed);
+    semanticSearchService.scheduleIndexing(meetingId, { flush: true });
+  }
+}
+
+/**
+ * Copy of a segment as a revision stores it
+ */
+export function snapshotSegment(transcription: Transcription): TranscriptSegmentSnapshot {
+  return {
+    id: transcription.id,
+    speakerName: transcription.speakerName,
+    text: transcription.text,
+    timestampStart: transcription.timestampStart?.toISOString() ?? null,
+    timestampEnd: transcription.timestampEnd?.toISOString() ?? null,
+    confidence: transcription.confidence === null ? null : Number(transcription.confidence),
+  };
+}
+
+/**
+ * Fields to write back to put a segment as a snapshot has it
+ */
+function segmentData(
+  segment: TranscriptSegmentSnapshot
+): Required<Omit<UpdateTranscriptionData, 'speakerConfidence'>> {
+  return {
+    speakerName: segment.speakerName,
+    text: segment.text,
+    timestampStart: segment.timestampStart ? new Date(segment.timestampStart) : null,
+    timestampEnd: segment.timestampEnd ? new Date(segment.timestampEnd) : null,
+    confidence: segment.confidence === null ? null : new Decimal(segment.confidence),
+  };
+}
+
+function sameSegment(a: TranscriptSegmentSnapshot, b: TranscriptSegmentSnapshot): boolean {
+  return (
+    a.speakerName === b.speakerName &&
+    a.text === b.text &&
+    a.timestampStart === b.timestampStart &&
+    a.timestampEnd === b.timestampEnd &&
+    a.confidence === b.confidence
+  );
+}
+
+function spokenAt(diff: TranscriptSegmentDiff): number {
+  const start = (diff.after ?? diff.before)?.timestampStart;
+  return start ? new Date(start).getTime() : Number.MAX_SAFE_INTEGER;
+}
+
+// Export singleton instance
+export const transcriptRevisionService = new TranscriptRevisionService();
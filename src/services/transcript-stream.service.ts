@@ -0,0 +1,198 @@
+import { Transcription } from '@prisma/client';
+import { getRedisSubscriber } from '../config/redis.js';
+import { cacheService } from './cache.service.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Events pushed to transcript stream subscribers
+ */
+export type TranscriptStreamEvent =
+  | {
+      type: 'segment';
+      meetingId: string;
+      segment: {
+        id: string;
+        speakerName: string | null;
+        text: string;
+        timestampStart: Date | null;
+        timestampEnd: Date | null;
+        confidence: number | null;
+      };
+      emittedAt: Date;
+    }
+  | {
+      type: 'speaker_change';
+      meetingId: string;
+      previousSpeaker: string | null;
+      speaker: string;
+      emittedAt: Date;
+    }
+  | {
+      type: 'session_status';
+      meetingId: string;
+      sessionId: string;
+      status: string;
+      emittedAt: Date;
+    };
+
+export type TranscriptStreamListener = (event: TranscriptStreamEvent) => void;
+
+/**
+ * Transcript Stream Service
+ * Fans out live transcript events to subscribers on every API instance via Redis pub/sub
+ */
+export class TranscriptStreamService {
+  private readonly CHANNEL_PREFIX = 'transcript_stream:';
+  private readonly LAST_SPEAKER_PREFIX = 'transcript_stream:last_speaker:';
+  private readonly LAST_SPEAKER_TTL = 3600; // 1 hour
+
+  // Local listeners per meeting, one Redis subscription per meeting per instance
+  private listeners = new Map<string, Set<TranscriptStreamListener>>();
+
+  /**
+   * Get pub/sub channel for meeting
+   */
+  private getChannel(meetingId: string): string {
+    return `${this.CHANNEL_PREFIX}${meetingId}`;
+  }
+
+  /**
+   * Publish a stored segment, preceded by a speaker change when the speaker differs
+   */
+  async publishSegment(transcription: Transcription): Promise<void> {
+    const { meetingId } = transcription;
+    const speaker = transcription.speakerName || 'Unknown Speaker';
+    const lastSpeakerKey = `${this.LAST_SPEAKER_PREFIX}${meetingId}`;
+
+    const previousSpeaker = await cacheService.get<string>(lastSpeakerKey);
+    if (previousSpeaker !== speaker) {
+      await cacheService.set(lastSpeakerKey, speaker, this.LAST_SPEAKER_TTL);
+      await this.publish({
+        type: 'speaker_change',
+        meetingId,
+        previousSpeaker,
+        speaker,
+        emittedAt: new Date(),
+      });
+    }
+
+    await this.publish({
+      type: 'segment',
+      meetingId,
+      segment: {
+        id: transcription.id,
+        speakerName: transcription.speakerName,
+        text: transcription.text,
+        timestampStart: transcription.timestampStart,
+        timestampEnd: transcription.timestampEnd,
+        confidence: transcription.confidence ? Number(transcription.confidence) : null,
+      },
+      emittedAt: new Date(),
+    });
+  }
+
+  /**
+   * Publish a transcription session status change
+   */
+  async publishSessionStatus(meetingId: string, sessionId: string, status: string): Promise<void> {
+    await this.publish({
+      type: 'session_status',
+      meetingId,
+      sessionId,
+      status,
+      emittedAt: new Date(),
+    });
+  }
+
+  /**
+   * Publish event to every instance
+   */
+  async publish(event: TranscriptStreamEvent): Promise<void> {
+    await cacheService.publish(this.getChannel(event.meetingId), event);
+  }
+
+  /**
+   * Subscribe to live events for a meeting
+   * Returns a function that removes the listener
+   */
+  async subscribe(
+    meetingId: string,
+    listener: TranscriptStreamListener
+  ): Promise<() => Promise<void>> {
+    let meetingListeners = this.listeners.get(meetingId);
+
+    if (!meetingListeners) {
+      meetingListeners = new Set();
+      this.listeners.set(meetingId, meetingListeners);
+
+      try {
+        const subscriber = await getRedisSubscriber();
+        await subscriber.subscribe(this.getChannel(meetingId), (message) => {
+          this.dispatch(meetingId, message);
+        });
+      } catch (error) {
+        this.listeners.delete(meetingId);
+        throw error;
+      }
+
+      logger.debug('Subscribed to transcript stream', { meetingId });
+    }
+
+    meetingListeners.add(listener);
+
+    return async () => {
+      await this.unsubscribe(meetingId, listener);
+    };
+  }
+
+  /**
+   * Remove listener and drop the Redis subscription when the meeting has none left
+   */
+  private async unsubscribe(meetingId: string, listener: TranscriptStreamListener): Promise<void> {
+    const meetingListeners = this.listeners.get(meetingId);
+    if (!meetingListeners) return;
+
+    meetingListeners.delete(listener);
+    if (meetingListeners.size > 0) return;
+
+    this.listeners.delete(meetingId);
+
+    try {
+      const subscriber = await getRedisSubscriber();
+      await subscriber.unsubscribe(this.getChannel(meetingId));
+      logger.debug('Unsubscribed from transcript stream', { meetingId });
+    } catch (error) {
+      logger.error('Failed to unsubscribe from transcript stream', {
+        meetingId,
+        error: String(error),
+      });
+    }
+  }
+
+  /**
+   * Deliver a pub/sub message to local listeners
+   */
+  private dispatch(meetingId: string, message: string): void {
+    let event: TranscriptStreamEvent;
+    try {
+      event = JSON.parse(message) as TranscriptStreamEvent;
+    } catch {
+      logger.warn('Dropping malformed transcript stream message', { meetingId });
+      return;
+    }
+
+    for (const listener of this.listeners.get(meetingId) || []) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error('Transcript stream listener failed', {
+          meetingId,
+          error: String(error),
+        });
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const transcriptStreamService = new TranscriptStreamService();
@@ -2,13 +2,19 @@ import { Transcription } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
 import { transcriptionRepository } from '../repositories/index.js';
 import { meetingRepository } from '../repositories/index.js';
+import { transcriptChunkRepository } from '../repositories/index.js';
 import { AppError } from '../middlewares/error-handler.js';
 import { logger } from '../utils/logger.js';
 import { cacheService } from './cache.service.js';
+import { transcriptStreamService } from './transcript-stream.service.js';
+import { semanticSearchService } from './semantic-search.service.js';
+import { speakerService } from './speaker.service.js';
+import { transcriptRevisionService } from './transcript-revision.service.js';
 import {
   TranscriptionSegment,
   TranscriptionResponse,
 } from './recall-ai/types/recall-ai.types.js';
+import { TranscriptRevisionAction } from '../types/transcript-revision.types.js';
 
 /**
  * Transcription session state
@@ -46,6 +52,7 @@ export interface AudioChunk {
   timestamp: number;
   duration: number;
   speaker?: string;
+  speakerConfidence?: number; // How sure diarization is of `speaker`, 0 to 1
 }
 
 /**
@@ -58,6 +65,7 @@ export interface ProcessedTranscriptionSegment {
   timestampStart: Date;
   timestampEnd: Date;
   confidence: number;
+  speakerConfidence?: number; // Only when diarization chose the speaker
   chunkId?: string;
 }
 
@@ -84,6 +92,7 @@ export interface TranscriptionFinalizationResult {
  */
 export class TranscriptionService {
   private readonly SESSION_CACHE_PREFIX = 'transcription_session:';
+  private readonly MEETING_SESSION_CACHE_PREFIX = 'transcription_session:meeting:';
   private readonly SESSION_CACHE_TTL = 3600; // 1 hour
 
   /**
@@ -113,6 +122,7 @@ export class TranscriptionService {
 
     // Cache session
     await this.cacheSession(sessionId, session);
+    await transcriptStreamService.publishSessionStatus(meetingId, sessionId, session.status);
 
     logger.info('Transcription session created', { sessionId, meetingId });
 
@@ -158,6 +168,7 @@ export class TranscriptionService {
       timestampStart,
       timestampEnd,
       confidence,
+      speakerConfidence: !speaker && chunk.speaker ? chunk.speakerConfidence : undefined,
       chunkId: chunk.chunkId,
     };
 
@@ -286,6 +297,7 @@ export class TranscriptionService {
     session.lastActivityAt = new Date();
 
     await this.cacheSession(sessionId, session);
+    await transcriptStreamService.publishSessionStatus(session.meetingId, sessionId, session.status);
   }
 
   /**
@@ -307,6 +319,7 @@ export class TranscriptionService {
     session.lastActivityAt = new Date();
 
     await this.cacheSession(sessionId, session);
+    await transcriptStreamService.publishSessionStatus(session.meetingId, sessionId, session.status);
   }
 
   /**
@@ -373,11 +386,25 @@ export class TranscriptionService {
       },
     };
 
+    // Name speakers as they were named in earlier meetings of the series
+    try {
+      await speakerService.applySeriesMappings(session.meetingId);
+    } catch (error) {
+      logger.error('Failed to apply speaker names from series', {
+        meetingId: session.meetingId,
+        error,
+      });
+    }
+
     // Update meeting with finalization data
     await this.updateMeetingWithTranscriptionMetadata(result);
 
     // Update cached session
     await this.cacheSession(sessionId, session);
+    await transcriptStreamService.publishSessionStatus(session.meetingId, sessionId, session.status);
+
+    // Embed whatever is left of the transcript for semantic search
+    semanticSearchService.scheduleIndexing(session.meetingId, { flush: true });
 
     logger.info('Transcription session finalized', {
       sessionId,
@@ -389,6 +416,20 @@ export class TranscriptionService {
     return result;
   }
 
+  /**
+   * Finalize the current session of a meeting, if one is still open
+   */
+  async finalizeMeetingSession(
+    meetingId: string
+  ): Promise<TranscriptionFinalizationResult | null> {
+    const session = await this.getSessionByMeetingId(meetingId);
+    if (!session || session.status === TranscriptionSessionStatus.COMPLETED) {
+      return null;
+    }
+
+    return await this.finalizeSession(session.sessionId);
+  }
+
   /**
    * Get transcription by meeting ID
    */
@@ -465,6 +506,14 @@ export class TranscriptionService {
     logger.info('Deleting transcription', { meetingId, userId });
 
     await transcriptionRepository.deleteByMeetingId(meetingId);
+    await transcriptChunkRepository.deleteByMeetingId(meetingId);
+    await transcriptRevisionService.record(
+      meetingId,
+      userId,
+      TranscriptRevisionAction.CLEAR,
+      null,
+      { summary: 'Deleted the transcript' }
+    );
 
     logger.info('Transcription deleted', { meetingId });
   }
@@ -475,26 +524,41 @@ export class TranscriptionService {
   private async storeSegment(
     segment: ProcessedTranscriptionSegment
   ): Promise<Transcription> {
-    return await transcriptionRepository.create({
+    const transcription = await transcriptionRepository.create({
       meetingId: segment.meetingId,
       speakerName: segment.speakerName,
       text: segment.text,
       timestampStart: segment.timestampStart,
       timestampEnd: segment.timestampEnd,
       confidence: new Decimal(segment.confidence),
+      speakerConfidence:
+        segment.speakerConfidence === undefined
+          ? undefined
+          : new Decimal(segment.speakerConfidence),
     });
+
+    // Push to live subscribers
+    await transcriptStreamService.publishSegment(transcription);
+
+    // Embed completed chunks for semantic search
+    semanticSearchService.scheduleIndexing(segment.meetingId);
+
+    return transcription;
   }
 
   /**
    * Get session by meeting ID
    */
-  private async getSessionByMeetingId(
+  async getSessionByMeetingId(
     meetingId: string
   ): Promise<TranscriptionSession | null> {
-    // This is a simplified implementation
-    // In production, you might want to store session IDs in the database
-    // or maintain a mapping in cache
-    const sessionId = `session_${meetingId}`;
+    const sessionId = await cacheService.get<string>(
+      `${this.MEETING_SESSION_CACHE_PREFIX}${meetingId}`
+    );
+    if (!sessionId) {
+      return null;
+    }
+
     return await this.getSession(sessionId);
   }
 
@@ -541,6 +605,13 @@ export class TranscriptionService {
       sessionData,
       this.SESSION_CACHE_TTL
     );
+
+    // Keep the meeting -> session mapping alive as long as the session
+    await cacheService.set(
+      `${this.MEETING_SESSION_CACHE_PREFIX}${session.meetingId}`,
+      sessionId,
+      this.SESSION_CACHE_TTL
+    );
   }
 
   /**
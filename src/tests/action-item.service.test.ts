@@ -0,0 +1,192 @@
+import { ActionItem, Transcription } from '@prisma/client';
+import { ActionItemService } from '../services/action-item.service';
+import { actionItemRepository, transcriptionRepository } from '../repositories';
+import { ActionItemStatus } from '../types/action-item.types';
+import { ActionItem as ExtractedActionItem } from '../services/ai/types/analysis.types';
+import { AppError } from '../middlewares/error-handler';
+
+jest.mock('../repositories', () => ({
+  actionItemRepository: {
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    deleteByIds: jest.fn(),
+    findByIdWithMeeting: jest.fn(),
+    findByMeetingId: jest.fn(),
+    findForUser: jest.fn(),
+  },
+  transcriptionRepository: {
+    findById: jest.fn(),
+  },
+}));
+jest.mock('../utils/logger');
+
+const mockedActionItemRepository = actionItemRepository as jest.Mocked<
+  typeof actionItemRepository
+>;
+const mockedTranscriptionRepository = transcriptionRepository as jest.Mocked<
+  typeof transcriptionRepository
+>;
+
+describe('ActionItemService', () => {
+  let service: ActionItemService;
+
+  const storedItem = (overrides: Partial<ActionItem> = {}): ActionItem =>
+    ({
+      id: 'item-1',
+      meetingId: 'meeting-1',
+      sourceTranscriptionId: null,
+      sourceAnalysisType: 'meeting_summary',
+      description: 'Update the pricing page',
+      owner: 'Alice',
+      assignees: ['Alice'],
+      priority: 'medium',
+      status: ActionItemStatus.OPEN,
+      dueDate: null,
+      completedAt: null,
+      confidence: null,
+      context: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    }) as ActionItem;
+
+  const extracted = (overrides: Partial<ExtractedActionItem> = {}): ExtractedActionItem => ({
+    description: 'Update the pricing page',
+    assignedTo: ['Alice', 'Bob'],
+    priority: 'high',
+    confidence: { value: 0.9, level: 'high' },
+    context: 'Alice will update the pricing page before launch',
+    ...overrides,
+  });
+
+  const transcriptions = [
+    { id: 'transcription-1', text: 'Welcome everyone to the sync' },
+    { id: 'transcription-2', text: 'I will update the pricing page before the launch' },
+  ] as Transcription[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ActionItemService();
+    mockedActionItemRepository.create.mockImplementation(
+      async (data) => storedItem({ id: 'new-item', ...data } as Partial<ActionItem>)
+    );
+    mockedActionItemRepository.update.mockImplementation(
+      async (id, data) => storedItem({ id, ...data } as Partial<ActionItem>)
+    );
+  });
+
+  describe('syncFromAnalysis', () => {
+    it('should create new items linked to the transcript segment they came from', async () => {
+      mockedActionItemRepository.findByMeetingId.mockResolvedValue([]);
+
+      await service.syncFromAnalysis('meeting-1', 'meeting_summary', [extracted()], transcriptions);
+
+      expect(mockedActionItemRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          meetingId: 'meeting-1',
+          sourceAnalysisType: 'meeting_summary',
+          sourceTranscriptionId: 'transcription-2',
+          owner: 'Alice',
+          assignees: ['Alice', 'Bob'],
+          priority: 'high',
+        })
+      );
+    });
+
+    it('should keep user edits on re-runs and drop open items no longer extracted', async () => {
+      mockedActionItemRepository.findByMeetingId.mockResolvedValue([
+        storedItem({ id: 'edited', description: 'Update the pricing page.', status: 'in_progress' }),
+        storedItem({ id: 'stale', description: 'Book the offsite' }),
+        storedItem({ id: 'finished', description: 'Send the notes', status: 'done' }),
+      ]);
+
+      await service.syncFromAnalysis('meeting-1', 'meeting_summary', [extracted()], transcriptions);
+
+      expect(mockedActionItemRepository.create).not.toHaveBeenCalled();
+      const [id, data] = mockedActionItemRepository.update.mock.calls[0];
+      expect(id).toBe('edited');
+      expect(data).not.toHaveProperty('status');
+      expect(data).not.toHaveProperty('owner');
+      expect(mockedActionItemRepository.deleteByIds).toHaveBeenCalledWith(['stale']);
+    });
+
+    it('should not duplicate items the meeting tracks from another source', async () => {
+      mockedActionItemRepository.findByMeetingId.mockResolvedValue([
+        storedItem({ id: 'from-analysis', sourceAnalysisType: 'action_items' }),
+        storedItem({ id: 'by-hand', sourceAnalysisType: null, description: 'Book the offsite' }),
+      ]);
+
+      await service.syncFromAnalysis(
+        'meeting-1',
+        'meeting_summary',
+        [
+          extracted({ description: 'Update the pricing page!' }),
+          extracted({ description: 'Book the offsite', assignedTo: ['Bob'] }),
+        ],
+        transcriptions
+      );
+
+      // Same task for someone else is kept
+      expect(mockedActionItemRepository.create).toHaveBeenCalledTimes(1);
+      expect(mockedActionItemRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ description: 'Book the offsite', owner: 'Bob' })
+      );
+      expect(mockedActionItemRepository.deleteByIds).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateActionItem', () => {
+    beforeEach(() => {
+      mockedActionItemRepository.findByIdWithMeeting.mockResolvedValue({
+        ...storedItem(),
+        meeting: {
+          id: 'meeting-1',
+          title: 'Pricing sync',
+          userId: 'user-123',
+          scheduledAt: null,
+          startedAt: null,
+        },
+      });
+    });
+
+    it('should stamp the completion time when an item is done', async () => {
+      await service.updateActionItem('item-1', 'user-123', { status: ActionItemStatus.DONE });
+
+      expect(mockedActionItemRepository.update).toHaveBeenCalledWith('item-1', {
+        status: ActionItemStatus.DONE,
+        completedAt: expect.any(Date),
+      });
+    });
+
+    it("should reject updates to another user's action item", async () => {
+      await expect(
+        service.updateActionItem('item-1', 'user-456', { status: ActionItemStatus.DONE })
+      ).rejects.toThrow(AppError);
+      expect(mockedActionItemRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject source segments from another meeting', async () => {
+      mockedTranscriptionRepository.findById.mockResolvedValue({
+        id: 'transcription-9',
+        meetingId: 'meeting-2',
+      } as Transcription);
+
+      await expect(
+        service.updateActionItem('item-1', 'user-123', { sourceTranscriptionId: 'transcription-9' })
+      ).rejects.toThrow('Source transcription not found in this meeting');
+    });
+  });
+
+  it('should list open and in-progress items by default', async () => {
+    mockedActionItemRepository.findForUser.mockResolvedValue({ actionItems: [], total: 0 });
+
+    await service.listForUser('user-123', { overdue: true });
+
+    expect(mockedActionItemRepository.findForUser).toHaveBeenCalledWith('user-123', {
+      overdue: true,
+      statuses: [ActionItemStatus.OPEN, ActionItemStatus.IN_PROGRESS],
+      take: 50,
+    });
+  });
+});
@@ -6,12 +6,18 @@ import {
 import { transcriptionRepository } from '../repositories/transcription.repository';
 import { analysisResultRepository } from '../repositories/analysis-result.repository';
 import { aiService } from '../services/ai/ai.service';
+import { actionItemService } from '../services/action-item.service';
+import { decisionService } from '../services/decision.service';
+import { transcriptRevisionService } from '../services/transcript-revision.service';
 import { AIProvider } from '../services/ai/types/ai.types';
 
 // Mock dependencies
 jest.mock('../repositories/transcription.repository');
 jest.mock('../repositories/analysis-result.repository');
 jest.mock('../services/ai/ai.service');
+jest.mock('../services/action-item.service');
+jest.mock('../services/decision.service');
+jest.mock('../services/transcript-revision.service');
 jest.mock('../utils/logger');
 
 describe('AIAnalysisService', () => {
@@ -54,6 +60,8 @@ describe('AIAnalysisService', () => {
   beforeEach(() => {
     service = new AIAnalysisService();
     jest.clearAllMocks();
+    (decisionService.getPriorDecisions as jest.Mock).mockResolvedValue([]);
+    (transcriptRevisionService.getCurrentRevision as jest.Mock).mockResolvedValue(0);
   });
 
   describe('analyzeMeetingContent', () => {
@@ -377,6 +385,12 @@ describe('AIAnalysisService', () => {
       expect(result.topics).toHaveLength(1);
       expect(result.confidence.value).toBeGreaterThan(0);
       expect(result.metadata.participantCount).toBe(3);
+      expect(actionItemService.syncFromAnalysis).toHaveBeenCalledWith(
+        mockMeetingId,
+        AnalysisType.MEETING_SUMMARY,
+        result.actionItems,
+        mockTranscriptions
+      );
     });
 
     it('should calculate speaker metrics correctly', async () => {
@@ -433,6 +447,76 @@ describe('AIAnalysisService', () => {
       expect(aliceMetrics!.speakingPercentage).toBeGreaterThan(0);
       expect(aliceMetrics!.averageConfidence).toBeCloseTo(0.95, 2);
     });
+
+    it('should record decisions and link them to earlier decisions they supersede', async () => {
+      // Arrange
+      const mockSummaryResponse = {
+        content: JSON.stringify({
+          title: 'Test Meeting',
+          executiveSummary: 'Summary',
+          detailedSummary: 'Detailed summary',
+          keyPoints: [],
+          actionItems: [],
+          decisions: [
+            {
+              description: 'Ship the feature behind a flag',
+              participants: ['Alice', 'Bob'],
+              rationale: 'Lower rollout risk',
+              confidence: 0.9,
+              context: 'I think we should proceed with the new feature.',
+              relatedDecisions: [
+                { ref: 1, relation: 'supersedes' },
+                { ref: 7, relation: 'revisits' },
+              ],
+            },
+          ],
+          sentiment: { sentiment: 'neutral', confidence: 0.7 },
+          topics: [],
+        }),
+        provider: AIProvider.GEMINI,
+        model: 'gemini-1.5-pro',
+      };
+
+      const mockContributionsResponse = {
+        content: JSON.stringify({ contributions: [] }),
+        provider: AIProvider.GEMINI,
+        model: 'gemini-1.5-pro',
+      };
+
+      (decisionService.getPriorDecisions as jest.Mock).mockResolvedValue([
+        {
+          id: 'decision-1',
+          description: 'Delay the feature to Q3',
+          decidedAt: new Date('2024-12-01T10:00:00Z'),
+        },
+      ]);
+      (transcriptionRepository.findByMeetingId as jest.Mock).mockResolvedValue(
+        mockTranscriptions
+      );
+      (transcriptionRepository.getUniqueSpeakers as jest.Mock).mockResolvedValue(['Alice']);
+      (aiService.chat as jest.Mock)
+        .mockResolvedValueOnce(mockContributionsResponse)
+        .mockResolvedValueOnce(mockSummaryResponse);
+      (analysisResultRepository.upsert as jest.Mock).mockResolvedValue({});
+
+      // Act
+      const result = await service.generateMeetingSummary(mockMeetingId);
+
+      // Assert
+      const summaryPrompt = (aiService.chat as jest.Mock).mock.calls[1][0].messages[1].content;
+      expect(summaryPrompt).toContain('[1] (2024-12-01) Delay the feature to Q3');
+      expect(result.decisions).toEqual(['Ship the feature behind a flag']);
+      expect(result.decisionDetails[0]).toMatchObject({
+        participants: ['Alice', 'Bob'],
+        rationale: 'Lower rollout risk',
+        relatedDecisions: [{ decisionId: 'decision-1', relation: 'supersedes' }],
+      });
+      expect(decisionService.syncFromSummary).toHaveBeenCalledWith(
+        mockMeetingId,
+        result.decisionDetails,
+        mockTranscriptions
+      );
+    });
   });
 
   describe('Error handling', () => {
@@ -540,4 +624,91 @@ describe('AIAnalysisService', () => {
       }
     });
   });
+
+  describe('extractActionItems', () => {
+    it('should extract, filter and store action items', async () => {
+      // Arrange
+      const mockAIResponse = {
+        content: JSON.stringify({
+          actionItems: [
+            {
+              description: 'Prepare the documentation',
+              assignedTo: ['Charlie'],
+              priority: 'high',
+              dueDate: '2025-01-08',
+              confidence: 0.9,
+              context: 'I will prepare the documentation.',
+            },
+            {
+              description: 'Maybe look into something',
+              assignedTo: [],
+              priority: 'low',
+              confidence: 0.3,
+              context: '',
+            },
+          ],
+        }),
+        provider: AIProvider.GEMINI,
+        model: 'gemini-1.5-pro',
+      };
+
+      (transcriptionRepository.findByMeetingId as jest.Mock).mockResolvedValue(
+        mockTranscriptions
+      );
+      (aiService.chat as jest.Mock).mockResolvedValue(mockAIResponse);
+      (analysisResultRepository.upsert as jest.Mock).mockResolvedValue({});
+
+      // Act
+      const result = await service.extractActionItems(mockMeetingId, {
+        minConfidenceThreshold: 0.5,
+      });
+
+      // Assert
+      expect(result.actionItems).toHaveLength(1);
+      expect(result.actionItems[0].assignedTo).toEqual(['Charlie']);
+      expect(result.actionItems[0].dueDate).toEqual(new Date('2025-01-08'));
+      expect(analysisResultRepository.upsert).toHaveBeenCalledWith(
+        mockMeetingId,
+        AnalysisType.ACTION_ITEMS,
+        expect.objectContaining({ actionItems: result.actionItems })
+      );
+    });
+  });
+
+  describe('runAnalysis', () => {
+    it('should dispatch to the matching analysis method', async () => {
+      // Arrange
+      const sentimentSpy = jest
+        .spyOn(service, 'analyzeSentiment')
+        .mockResolvedValue({} as never);
+
+      // Act
+      await service.runAnalysis(mockMeetingId, AnalysisType.SENTIMENT_ANALYSIS);
+
+      // Assert
+      expect(sentimentSpy).toHaveBeenCalledWith(mockMeetingId);
+    });
+
+    it('should reject unsupported analysis types', async () => {
+      await expect(
+        service.runAnalysis(mockMeetingId, 'unknown' as AnalysisType)
+      ).rejects.toThrow('Unsupported analysis type: unknown');
+    });
+  });
+
+  describe('deleteAnalysisResult', () => {
+    it('should refuse to delete a result from another meeting', async () => {
+      // Arrange
+      (analysisResultRepository.findById as jest.Mock).mockResolvedValue({
+        id: 'analysis-1',
+        meetingId: 'other-meeting',
+      });
+
+      // Act & Assert
+      await expect(
+        service.deleteAnalysisResult(mockMeetingId, 'analysis-1')
+      ).rejects.toThrow('Analysis result not found');
+      expect(analysisResultRepository.delete).not.toHaveBeenCalled();
+    });
+  });
 });
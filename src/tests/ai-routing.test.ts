@@ -0,0 +1,267 @@
+import { AIService } from '../services/ai/ai.service';
+import { AIConfigService } from '../services/ai/config/ai-config.service';
+import {
+  AIProvider,
+  AIError,
+  AIErrorType,
+  AIMessageRole,
+  AITaskType,
+  AICostClass,
+  AILatencyClass,
+  AIRoute,
+} from '../services/ai/types/ai.types';
+
+// Keep usage records out of the database
+jest.mock('../repositories', () => ({
+  aiUsageRepository: { create: jest.fn() },
+}));
+
+describe('AI routing', () => {
+  let configService: AIConfigService;
+  let aiService: AIService;
+  let providers: Record<string, { chat: jest.Mock; streamChat: jest.Mock }>;
+
+  const request = { messages: [{ role: AIMessageRole.USER, content: 'Hi' }] };
+
+  const fakeProvider = (provider: AIProvider) => ({
+    provider,
+    isConfigured: () => true,
+    chat: jest.fn().mockResolvedValue({ content: `From ${provider}`, provider, model: 'm' }),
+    streamChat: jest.fn(),
+  });
+
+  const setRoutes = (chains: Partial<Record<AITaskType, AIRoute[]>>) =>
+    configService.updateConfig({ routing: { chains } });
+
+  const calledProviders = () =>
+    Object.entries(providers)
+      .filter(([, provider]) => provider.chat.mock.calls.length > 0)
+      .map(([name]) => name);
+
+  beforeEach(() => {
+    configService = new AIConfigService();
+    configService.updateConfig({
+      defaultProvider: AIProvider.GEMINI,
+      retry: { ...configService.getRetryConfig(), maxRetries: 0 },
+      fallback: {
+        ...configService.getFallbackConfig(),
+        enabled: true,
+        primaryProvider: AIProvider.GEMINI,
+        fallbackProvider: AIProvider.OPENAI,
+      },
+      analysis: { provider: AIProvider.OLLAMA, model: 'qwen2.5:14b' },
+      routing: { chains: {} },
+      enableHotReload: false,
+    });
+
+    aiService = new AIService(configService);
+    providers = {};
+    for (const provider of [
+      AIProvider.GEMINI,
+      AIProvider.OPENAI,
+      AIProvider.ANTHROPIC,
+      AIProvider.OLLAMA,
+    ]) {
+      providers[provider] = fakeProvider(provider);
+      aiService['providers'].set(provider, providers[provider] as any);
+    }
+    aiService['isInitialized'] = true;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should follow the chain of the task until a provider succeeds', async () => {
+    setRoutes({
+      [AITaskType.SUMMARY]: [
+        { provider: AIProvider.ANTHROPIC, model: 'claude-haiku-4-5' },
+        { provider: AIProvider.OLLAMA },
+      ],
+    });
+    providers[AIProvider.ANTHROPIC].chat.mockRejectedValue(
+      new AIError('Overloaded', AIErrorType.RATE_LIMIT, AIProvider.ANTHROPIC)
+    );
+
+    const response = await aiService.chat({
+      ...request,
+      options: { task: AITaskType.SUMMARY, temperature: 0.2 },
+    });
+
+    expect(providers[AIProvider.ANTHROPIC].chat).toHaveBeenCalledWith({
+      ...request,
+      options: { task: AITaskType.SUMMARY, temperature: 0.2, model: 'claude-haiku-4-5' },
+    });
+    expect(response).toMatchObject({
+      content: 'From ollama',
+      metadata: {
+        attemptedProviders: [AIProvider.ANTHROPIC, AIProvider.OLLAMA],
+        succeededProvider: AIProvider.OLLAMA,
+      },
+    });
+  });
+
+  it('should end every chain with the fallback provider', async () => {
+    setRoutes({ [AITaskType.DEFAULT]: [{ provider: AIProvider.GEMINI }] });
+    providers[AIProvider.GEMINI].chat.mockRejectedValue(
+      new AIError('Bad key', AIErrorType.AUTHENTICATION, AIProvider.GEMINI)
+    );
+
+    const response = await aiService.chat({ ...request, options: { task: AITaskType.CHAT } });
+
+    expect(response.metadata).toEqual({
+      attemptedProviders: [AIProvider.GEMINI, AIProvider.OPENAI],
+      succeededProvider: AIProvider.OPENAI,
+    });
+  });
+
+  it('should run analysis tasks without a chain on the analysis model', async () => {
+    await aiService.chat({ ...request, options: { task: AITaskType.SENTIMENT } });
+
+    expect(calledProviders()).toEqual([AIProvider.OLLAMA]);
+    expect(providers[AIProvider.OLLAMA].chat.mock.calls[0][0].options.model).toBe('qwen2.5:14b');
+  });
+
+  it('should not fall back on errors outside the fallback list', async () => {
+    setRoutes({
+      [AITaskType.CHAT]: [{ provider: AIProvider.ANTHROPIC }, { provider: AIProvider.OLLAMA }],
+    });
+    providers[AIProvider.ANTHROPIC].chat.mockRejectedValue(
+      new AIError('Too long', AIErrorType.INVALID_REQUEST, AIProvider.ANTHROPIC)
+    );
+
+    await expect(
+      aiService.chat({ ...request, options: { task: AITaskType.CHAT } })
+    ).rejects.toMatchObject({ type: AIErrorType.INVALID_REQUEST });
+    expect(providers[AIProvider.OLLAMA].chat).not.toHaveBeenCalled();
+  });
+
+  it('should pick the first route by weight', async () => {
+    setRoutes({
+      [AITaskType.CHAT]: [
+        { provider: AIProvider.ANTHROPIC, weight: 3 },
+        { provider: AIProvider.OLLAMA, weight: 1 },
+      ],
+    });
+    const random = jest.spyOn(Math, 'random');
+
+    random.mockReturnValue(0.7);
+    await aiService.chat({ ...request, options: { task: AITaskType.CHAT } });
+    random.mockReturnValue(0.8);
+    await aiService.chat({ ...request, options: { task: AITaskType.CHAT } });
+
+    expect(providers[AIProvider.ANTHROPIC].chat).toHaveBeenCalledTimes(1);
+    expect(providers[AIProvider.OLLAMA].chat).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip routes over the cost and latency limits of the request', async () => {
+    setRoutes({
+      [AITaskType.CHAT]: [
+        { provider: AIProvider.ANTHROPIC, costClass: AICostClass.HIGH },
+        { provider: AIProvider.OLLAMA, latencyClass: AILatencyClass.SLOW },
+        { provider: AIProvider.GEMINI, costClass: AICostClass.LOW },
+      ],
+    });
+
+    const response = await aiService.chat({
+      ...request,
+      options: {
+        task: AITaskType.CHAT,
+        routing: { maxCost: AICostClass.MEDIUM, maxLatency: AILatencyClass.STANDARD },
+      },
+    });
+
+    expect(response.provider).toBe(AIProvider.GEMINI);
+  });
+
+  it('should ignore a routing preference no route meets', async () => {
+    setRoutes({
+      [AITaskType.CHAT]: [{ provider: AIProvider.ANTHROPIC, costClass: AICostClass.HIGH }],
+    });
+
+    const response = await aiService.chat({
+      ...request,
+      options: { task: AITaskType.CHAT, routing: { maxCost: AICostClass.LOW } },
+    });
+
+    expect(response.provider).toBe(AIProvider.ANTHROPIC);
+  });
+
+  it('should put an explicitly requested provider first', async () => {
+    setRoutes({ [AITaskType.CHAT]: [{ provider: AIProvider.ANTHROPIC }] });
+
+    const response = await aiService.chat(
+      { ...request, options: { task: AITaskType.CHAT } },
+      AIProvider.OLLAMA
+    );
+
+    expect(response.provider).toBe(AIProvider.OLLAMA);
+    expect(calledProviders()).toEqual([AIProvider.OLLAMA]);
+  });
+
+  it('should not fall back once a stream has started', async () => {
+    setRoutes({
+      [AITaskType.CHAT]: [{ provider: AIProvider.ANTHROPIC }, { provider: AIProvider.OLLAMA }],
+    });
+    providers[AIProvider.ANTHROPIC].streamChat.mockImplementation(async (_request, onChunk) => {
+      onChunk({ content: 'Hel', provider: AIProvider.ANTHROPIC, isComplete: false });
+      throw new AIError('Overloaded', AIErrorType.RATE_LIMIT, AIProvider.ANTHROPIC);
+    });
+
+    await expect(
+      aiService.streamChat({ ...request, options: { task: AITaskType.CHAT } }, jest.fn())
+    ).rejects.toMatchObject({ type: AIErrorType.RATE_LIMIT });
+    expect(providers[AIProvider.OLLAMA].streamChat).not.toHaveBeenCalled();
+  });
+
+  it('should not retry a stream that has started', async () => {
+    configService.updateConfig({
+      retry: { ...configService.getRetryConfig(), maxRetries: 2, baseDelay: 0 },
+    });
+    providers[AIProvider.GEMINI].streamChat.mockImplementation(async (_request, onChunk) => {
+      onChunk({ content: 'Hel', provider: AIProvider.GEMINI, isComplete: false });
+      throw new AIError('Overloaded', AIErrorType.RATE_LIMIT, AIProvider.GEMINI);
+    });
+
+    await expect(aiService.streamChat(request, jest.fn())).rejects.toMatchObject({
+      type: AIErrorType.RATE_LIMIT,
+    });
+    expect(providers[AIProvider.GEMINI].streamChat).toHaveBeenCalledTimes(1);
+  });
+
+  describe('configuration', () => {
+    it('should report invalid routes', () => {
+      setRoutes({
+        [AITaskType.CHAT]: [
+          { provider: 'mistral' as AIProvider },
+          { provider: AIProvider.LOCAL },
+          { provider: AIProvider.OPENAI, weight: -1, costClass: 'cheap' as AICostClass },
+        ],
+        ['meeting' as AITaskType]: [{ provider: AIProvider.OPENAI }],
+      });
+
+      const { errors } = configService.validateConfig();
+
+      expect(errors).toEqual(
+        expect.arrayContaining([
+          'Unknown provider "mistral" in chat routing',
+          'Local provider in chat routing only generates embeddings',
+          'Route weight in chat routing must be a number >= 0',
+          'Unknown cost class "cheap" in chat routing',
+          expect.stringContaining('Unknown AI task "meeting"'),
+        ])
+      );
+    });
+
+    it('should read provider names as shorthand routes', () => {
+      const routing = configService['parseRouting'](
+        '{"summary": [{"provider": "anthropic", "weight": 3}, "ollama"]}'
+      );
+
+      expect(routing.chains).toEqual({
+        summary: [{ provider: AIProvider.ANTHROPIC, weight: 3 }, { provider: AIProvider.OLLAMA }],
+      });
+      expect(configService['parseRouting']('not json')).toEqual({ chains: {} });
+    });
+  });
+});
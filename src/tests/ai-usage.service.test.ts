@@ -0,0 +1,285 @@
+import { Role } from '@prisma/client';
+import { AIUsageService } from '../services/ai/ai-usage.service';
+import { AIService } from '../services/ai/ai.service';
+import { AIConfigService } from '../services/ai/config/ai-config.service';
+import { aiUsageRepository, meetingRepository } from '../repositories';
+import {
+  AIError,
+  AIErrorType,
+  AIProvider,
+  AIMessageRole,
+  AITaskType,
+} from '../services/ai/types/ai.types';
+
+jest.mock('../repositories', () => ({
+  aiUsageRepository: {
+    create: jest.fn(),
+    sumByUserAndMonth: jest.fn(),
+    sumByMeeting: jest.fn(),
+    sumByProvider: jest.fn(),
+  },
+  meetingRepository: {
+    findById: jest.fn(),
+  },
+}));
+
+const mockedUsageRepository = aiUsageRepository as jest.Mocked<typeof aiUsageRepository>;
+const mockedMeetingRepository = meetingRepository as jest.Mocked<typeof meetingRepository>;
+
+describe('AIUsageService', () => {
+  let configService: AIConfigService;
+  let service: AIUsageService;
+
+  const user = { id: 'user-123', role: Role.USER };
+  const admin = { id: 'admin-1', role: Role.ADMIN };
+  const usage = { promptTokens: 200000, completionTokens: 50000, totalTokens: 250000 };
+
+  const totals = (calls: number, cost: number, averageLatencyMs: number) => ({
+    calls,
+    promptTokens: calls * 100,
+    completionTokens: calls * 10,
+    totalTokens: calls * 110,
+    cost,
+    unpricedCalls: 0,
+    failedCalls: 0,
+    averageLatencyMs,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    configService = new AIConfigService();
+    configService.updateConfig({ enableHotReload: false });
+    service = new AIUsageService(configService);
+    mockedMeetingRepository.findById.mockResolvedValue({
+      id: 'meeting-1',
+      userId: 'owner-1',
+    } as any);
+  });
+
+  describe('pricing', () => {
+    it('should price a model by its longest matching prefix', () => {
+      // gpt-4o-mini, not gpt-4o: 200k * 0.15 + 50k * 0.6 per million
+      expect(service.computeCost(AIProvider.OPENAI, 'gpt-4o-mini-2024-07-18', usage)).toBeCloseTo(
+        0.06
+      );
+      expect(service.computeCost(AIProvider.OPENAI, 'gpt-4o', usage)).toBeCloseTo(1);
+    });
+
+    it('should fall back to the provider price and leave unknown models unpriced', () => {
+      expect(service.computeCost(AIProvider.OLLAMA, 'qwen2.5:14b', usage)).toBe(0);
+      expect(service.computeCost(AIProvider.OPENAI, 'o1-preview', usage)).toBeNull();
+      expect(service.computeCost(AIProvider.OPENAI, 'gpt-4o-mini')).toBeNull();
+    });
+
+    it('should read prices from JSON over the built-in ones', () => {
+      configService.updateConfig({
+        pricing: configService['parsePricing']('{"o1": {"input": 15, "output": 60}}'),
+      });
+
+      expect(service.computeCost(AIProvider.OPENAI, 'o1-preview', usage)).toBeCloseTo(6);
+      expect(configService.getModelPrice(AIProvider.OPENAI, 'gpt-4o-mini')).toEqual({
+        input: 0.15,
+        output: 0.6,
+      });
+      expect(configService['parsePricing']('not json')).toEqual({});
+    });
+
+    it('should report invalid prices', () => {
+      configService.updateConfig({ pricing: { 'my-model': { input: -1, output: 2 } } });
+
+      expect(configService.validateConfig().errors).toContain(
+        'Price of "my-model" must have input and output numbers >= 0'
+      );
+    });
+  });
+
+  describe('record', () => {
+    it('should account calls for a meeting to its owner', async () => {
+      await service.record({
+        operation: 'chat',
+        provider: AIProvider.ANTHROPIC,
+        model: 'claude-haiku-4-5',
+        task: AITaskType.SUMMARY,
+        context: { meetingId: 'meeting-1' },
+        usage,
+        latencyMs: 1234.6,
+      });
+
+      expect(mockedUsageRepository.create).toHaveBeenCalledWith({
+        userId: 'owner-1',
+        meetingId: 'meeting-1',
+        provider: AIProvider.ANTHROPIC,
+        model: 'claude-haiku-4-5',
+        operation: 'chat',
+        task: AITaskType.SUMMARY,
+        promptTokens: 200000,
+        completionTokens: 50000,
+        totalTokens: 250000,
+        latencyMs: 1235,
+        cost: 0.45,
+        success: true,
+        errorType: null,
+      });
+    });
+
+    it('should not throw when the ledger cannot be written', async () => {
+      mockedUsageRepository.create.mockRejectedValueOnce(new Error('Connection refused'));
+
+      await expect(
+        service.record({
+          operation: 'embed',
+          provider: AIProvider.LOCAL,
+          model: 'hashing',
+          context: { userId: 'user-123' },
+          latencyMs: 3,
+        })
+      ).resolves.toBeUndefined();
+      expect(mockedMeetingRepository.findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reports', () => {
+    it('should limit regular users to their own monthly usage', async () => {
+      mockedUsageRepository.sumByUserAndMonth.mockResolvedValue([]);
+
+      await service.getMonthlyUsage(user);
+      await service.getMonthlyUsage(admin);
+
+      expect(mockedUsageRepository.sumByUserAndMonth.mock.calls).toEqual([
+        [{ userId: 'user-123' }],
+        [{ userId: undefined }],
+      ]);
+      await expect(service.getMonthlyUsage(user, { userId: 'user-456' })).rejects.toMatchObject({
+        statusCode: 403,
+      });
+    });
+
+    it("should add up a meeting's usage for its owner", async () => {
+      mockedUsageRepository.sumByMeeting.mockResolvedValue([
+        {
+          task: 'summary',
+          provider: 'anthropic',
+          model: 'claude-haiku-4-5',
+          ...totals(1, 1, 4000),
+        },
+        { task: 'analysis', provider: 'ollama', model: 'qwen2.5:14b', ...totals(3, 0, 2000) },
+      ]);
+      const owner = { id: 'owner-1', role: Role.USER };
+
+      const report = await service.getMeetingUsage(owner, 'meeting-1');
+
+      expect(report.totals).toEqual(totals(4, 1, 2500));
+      expect(report.breakdown).toHaveLength(2);
+      await expect(service.getMeetingUsage(user, 'meeting-1')).rejects.toMatchObject({
+        statusCode: 403,
+      });
+    });
+  });
+
+  describe('with AIService', () => {
+    let aiService: AIService;
+    let provider: { isConfigured: () => boolean; chat: jest.Mock; streamChat: jest.Mock };
+
+    const request = {
+      messages: [{ role: AIMessageRole.USER, content: 'Hi' }],
+      options: { task: AITaskType.CHAT, context: { userId: 'user-123' } },
+    };
+
+    beforeEach(() => {
+      configService.updateConfig({
+        defaultProvider: AIProvider.OPENAI,
+        circuitBreaker: { ...configService.getCircuitBreakerConfig(), enabled: false },
+        routing: { chains: {} },
+      });
+      configService.updateProviderConfig(AIProvider.OPENAI, { defaultModel: 'gpt-4o-mini' });
+
+      aiService = new AIService(configService);
+      provider = {
+        isConfigured: () => true,
+        chat: jest.fn().mockResolvedValue({
+          content: 'Hello',
+          provider: AIProvider.OPENAI,
+          model: 'gpt-4o-mini-2024-07-18',
+          usage,
+        }),
+        streamChat: jest.fn(async (_request, onChunk) => {
+          onChunk({ content: 'Hel', provider: AIProvider.OPENAI, isComplete: false });
+          onChunk({ content: 'lo', provider: AIProvider.OPENAI, isComplete: true, usage });
+        }),
+      };
+      aiService['providers'].set(AIProvider.OPENAI, provider as any);
+      aiService['isInitialized'] = true;
+    });
+
+    it('should record chat usage with the model that answered', async () => {
+      await aiService.chat(request);
+
+      expect(mockedUsageRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-123',
+          meetingId: null,
+          operation: 'chat',
+          task: AITaskType.CHAT,
+          model: 'gpt-4o-mini-2024-07-18',
+          totalTokens: 250000,
+          cost: expect.closeTo(0.06),
+        })
+      );
+    });
+
+    it('should record stream usage from the last chunk', async () => {
+      await aiService.streamChat(request, jest.fn());
+
+      expect(mockedUsageRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          operation: 'stream_chat',
+          provider: AIProvider.OPENAI,
+          model: 'gpt-4o-mini',
+          promptTokens: 200000,
+          completionTokens: 50000,
+        })
+      );
+    });
+
+    it('should record every attempt, failed ones included', async () => {
+      configService.updateConfig({
+        retry: { ...configService.getRetryConfig(), maxRetries: 1, baseDelay: 0 },
+      });
+      provider.chat.mockRejectedValueOnce(
+        new AIError('Overloaded', AIErrorType.RATE_LIMIT, AIProvider.OPENAI)
+      );
+
+      await aiService.chat(request);
+
+      expect(mockedUsageRepository.create.mock.calls.map(([data]) => data)).toEqual([
+        expect.objectContaining({
+          model: 'gpt-4o-mini',
+          success: false,
+          errorType: AIErrorType.RATE_LIMIT,
+          totalTokens: 0,
+          cost: null,
+        }),
+        expect.objectContaining({ model: 'gpt-4o-mini-2024-07-18', success: true }),
+      ]);
+    });
+
+    it('should record the usage of a stream that breaks off', async () => {
+      provider.streamChat.mockImplementation(async (_request, onChunk) => {
+        onChunk({ content: 'Hel', provider: AIProvider.OPENAI, isComplete: false, usage });
+        throw new AIError('Connection reset', AIErrorType.NETWORK_ERROR, AIProvider.OPENAI);
+      });
+
+      await expect(aiService.streamChat(request, jest.fn())).rejects.toThrow('Connection reset');
+
+      expect(mockedUsageRepository.create).toHaveBeenCalledTimes(1);
+      expect(mockedUsageRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          operation: 'stream_chat',
+          success: false,
+          errorType: AIErrorType.NETWORK_ERROR,
+          totalTokens: 250000,
+        })
+      );
+    });
+  });
+});
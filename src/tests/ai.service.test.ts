@@ -13,6 +13,10 @@ import {
 jest.mock('../services/ai/providers/gemini.provider');
 jest.mock('../services/ai/providers/openai.provider');
 jest.mock('../services/ai/config/ai-config.service');
+// Keep usage records out of the database
+jest.mock('../repositories', () => ({
+  aiUsageRepository: { create: jest.fn() },
+}));
 
 describe('AIService', () => {
   let aiService: AIService;
@@ -36,6 +40,7 @@ describe('AIService', () => {
             defaultModel: 'gpt-4o-mini',
             endpoint: 'https://api.openai.com/v1',
           },
+          [AIProvider.LOCAL]: {},
         },
         retry: {
           maxRetries: 3,
@@ -59,6 +64,9 @@ describe('AIService', () => {
             AIErrorType.PROVIDER_ERROR,
           ],
         },
+        embeddings: {
+          provider: AIProvider.LOCAL,
+        },
         timeout: 30000,
         enableHotReload: false,
       }),
@@ -85,7 +93,10 @@ describe('AIService', () => {
           AIErrorType.PROVIDER_ERROR,
         ],
       }),
+      getEmbeddingConfig: jest.fn().mockReturnValue({ provider: AIProvider.LOCAL }),
       getDefaultProvider: jest.fn().mockReturnValue(AIProvider.GEMINI),
+      getRoutes: jest.fn().mockReturnValue([]),
+      getCircuitBreakerConfig: jest.fn().mockReturnValue({ enabled: false }),
       enableHotReload: jest.fn(),
       on: jest.fn(),
       destroy: jest.fn(),
@@ -226,6 +237,60 @@ describe('AIService', () => {
     });
   });
 
+  describe('provider status', () => {
+    beforeEach(async () => {
+      mockConfigService.getProviderStatus = jest.fn().mockReturnValue({
+        [AIProvider.GEMINI]: true,
+        [AIProvider.OPENAI]: true,
+        [AIProvider.LOCAL]: true,
+        [AIProvider.OLLAMA]: false,
+      });
+      await aiService.initialize();
+    });
+
+    it('should list the models of available providers', async () => {
+      const status = await aiService.getProviderStatus();
+
+      expect(status[AIProvider.LOCAL]).toEqual({
+        configured: true,
+        available: true,
+        healthy: true,
+        models: ['local-hashing-v1'],
+      });
+      expect(status[AIProvider.OLLAMA]).toEqual({ configured: false, available: false });
+    });
+  });
+
+  describe('embed', () => {
+    beforeEach(async () => {
+      await aiService.initialize();
+    });
+
+    it('should generate deterministic embeddings with the local provider', async () => {
+      const first = await aiService.embed({ input: ['Ship the release on Friday'] });
+      const second = await aiService.embed({ input: ['Ship the release on Friday'] });
+
+      expect(first.provider).toBe(AIProvider.LOCAL);
+      expect(first.dimensions).toBe(256);
+      expect(first.embeddings[0]).toEqual(second.embeddings[0]);
+    });
+
+    it('should place texts with shared vocabulary closer together', async () => {
+      const { embeddings } = await aiService.embed({
+        input: ['release date for the mobile app', 'mobile app release', 'catering for lunch'],
+      });
+      const dot = (a: number[], b: number[]): number =>
+        a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+      expect(dot(embeddings[0], embeddings[1])).toBeGreaterThan(dot(embeddings[0], embeddings[2]));
+    });
+
+    it('should report embeddings as available', () => {
+      expect(aiService.getEmbeddingProvider()).toBe(AIProvider.LOCAL);
+      expect(aiService.isEmbeddingAvailable()).toBe(true);
+    });
+  });
+
   describe('retry logic', () => {
     beforeEach(async () => {
       await aiService.initialize();
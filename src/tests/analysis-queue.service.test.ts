@@ -0,0 +1,282 @@
+import { AnalysisQueueService } from '../services/ai/analysis-queue.service';
+import { AnalysisStatus, AnalysisType } from '../services/ai/types/analysis.types';
+import { cacheService } from '../services/cache.service';
+import { aiAnalysisService } from '../services/ai/ai-analysis.service';
+import { AppError } from '../middlewares/error-handler';
+import { config } from '../config/index.js';
+
+// Mock dependencies
+jest.mock('../services/cache.service');
+jest.mock('../services/ai/ai-analysis.service');
+jest.mock('../utils/logger');
+
+describe('AnalysisQueueService', () => {
+  let service: AnalysisQueueService;
+  let store: Map<string, unknown>;
+  let queue: unknown[];
+  let processing: unknown[];
+
+  const mockMeetingId = 'test-meeting-123';
+  const mockUserId = 'user-123';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new AnalysisQueueService();
+    store = new Map();
+    queue = [];
+    processing = [];
+
+    // Serialize values like Redis does so dates come back as strings
+    (cacheService.set as jest.Mock).mockImplementation(async (key: string, value: unknown) => {
+      store.set(key, JSON.parse(JSON.stringify(value)));
+      return true;
+    });
+    (cacheService.get as jest.Mock).mockImplementation(async (key: string) => {
+      return store.has(key) ? JSON.parse(JSON.stringify(store.get(key))) : null;
+    });
+    (cacheService.lPush as jest.Mock).mockImplementation(async (_key: string, value: unknown) => {
+      queue.unshift(value);
+      return queue.length;
+    });
+    (cacheService.lMove as jest.Mock).mockImplementation(async () => {
+      const value = queue.pop();
+      if (value === undefined) return null;
+      processing.unshift(value);
+      return value;
+    });
+    (cacheService.lRem as jest.Mock).mockImplementation(async (_key: string, value: unknown) => {
+      const before = processing.length;
+      processing = processing.filter((item) => item !== value);
+      return before - processing.length;
+    });
+    (cacheService.lRange as jest.Mock).mockImplementation(async () => [...processing]);
+    (cacheService.exists as jest.Mock).mockImplementation(async (key: string) => store.has(key));
+    (cacheService.lLen as jest.Mock).mockImplementation(async () => queue.length);
+  });
+
+  describe('enqueue', () => {
+    it('should store a pending job and push it onto the queue', async () => {
+      const job = await service.enqueue(mockMeetingId, mockUserId, [
+        AnalysisType.MEETING_SUMMARY,
+      ]);
+
+      expect(job.status).toBe(AnalysisStatus.PENDING);
+      expect(job.attempts).toBe(0);
+      expect(queue).toEqual([job.jobId]);
+      expect(await service.getQueueLength()).toBe(1);
+
+      const stored = await service.getJob(job.jobId);
+      expect(stored.meetingId).toBe(mockMeetingId);
+    });
+  });
+
+  describe('getJobForUser', () => {
+    it('should throw 404 for unknown job', async () => {
+      await expect(service.getJobForUser('missing', mockUserId)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+
+    it('should throw 403 for another user', async () => {
+      const job = await service.enqueue(mockMeetingId, mockUserId, [
+        AnalysisType.MEETING_SUMMARY,
+      ]);
+
+      await expect(service.getJobForUser(job.jobId, 'other-user')).rejects.toMatchObject({
+        statusCode: 403,
+      });
+    });
+  });
+
+  describe('processNextJob', () => {
+    it('should return false when the queue is empty', async () => {
+      expect(await service.processNextJob()).toBe(false);
+    });
+
+    it('should run each analysis type and complete the job', async () => {
+      (aiAnalysisService.runAnalysis as jest.Mock).mockImplementation(
+        async (meetingId: string, analysisType: AnalysisType) => ({ meetingId, analysisType })
+      );
+
+      const job = await service.enqueue(mockMeetingId, mockUserId, [
+        AnalysisType.MEETING_SUMMARY,
+        AnalysisType.ACTION_ITEMS,
+      ]);
+
+      expect(await service.processNextJob()).toBe(true);
+
+      const processed = await service.getJob(job.jobId);
+      expect(processed.status).toBe(AnalysisStatus.COMPLETED);
+      expect(processed.attempts).toBe(1);
+      expect(Object.keys(processed.results)).toEqual([
+        AnalysisType.MEETING_SUMMARY,
+        AnalysisType.ACTION_ITEMS,
+      ]);
+      expect(aiAnalysisService.runAnalysis).toHaveBeenCalledWith(
+        mockMeetingId,
+        AnalysisType.ACTION_ITEMS,
+        { analysisTypes: [AnalysisType.ACTION_ITEMS] }
+      );
+      expect(processing).toEqual([]);
+    });
+
+    it('should requeue failed jobs until the retry limit is reached', async () => {
+      (aiAnalysisService.runAnalysis as jest.Mock).mockRejectedValue(new Error('Provider down'));
+
+      const job = await service.enqueue(
+        mockMeetingId,
+        mockUserId,
+        [AnalysisType.MEETING_SUMMARY],
+        undefined,
+        2
+      );
+
+      await service.processNextJob();
+      let processed = await service.getJob(job.jobId);
+      expect(processed.status).toBe(AnalysisStatus.PENDING);
+      expect(processed.error).toBe('Provider down');
+      expect(queue).toEqual([job.jobId]);
+
+      await service.processNextJob();
+      processed = await service.getJob(job.jobId);
+      expect(processed.status).toBe(AnalysisStatus.FAILED);
+      expect(processed.attempts).toBe(2);
+      expect(queue).toEqual([]);
+    });
+
+    it('should not retry client errors', async () => {
+      (aiAnalysisService.runAnalysis as jest.Mock).mockRejectedValue(
+        new AppError('No transcriptions found for this meeting', 404)
+      );
+
+      const job = await service.enqueue(mockMeetingId, mockUserId, [
+        AnalysisType.MEETING_SUMMARY,
+      ]);
+
+      await service.processNextJob();
+
+      const processed = await service.getJob(job.jobId);
+      expect(processed.status).toBe(AnalysisStatus.FAILED);
+      expect(processed.attempts).toBe(1);
+    });
+  });
+
+  describe('reclaimStaleJobs', () => {
+    const startJob = async (maxAttempts: number) => {
+      const job = await service.enqueue(
+        mockMeetingId,
+        mockUserId,
+        [AnalysisType.MEETING_SUMMARY],
+        undefined,
+        maxAttempts
+      );
+      // A worker took the job and died mid-analysis an hour ago
+      queue.pop();
+      processing.unshift(job.jobId);
+      const startedAt = new Date(Date.now() - 60 * 60 * 1000);
+      store.set(`analysis:job:${job.jobId}`, {
+        ...job,
+        status: AnalysisStatus.IN_PROGRESS,
+        attempts: 1,
+        startedAt,
+        heartbeatAt: startedAt,
+      });
+      return job;
+    };
+
+    it('should requeue jobs of a worker that stopped', async () => {
+      const job = await startJob(3);
+
+      expect(await service.reclaimStaleJobs()).toBe(1);
+
+      const reclaimed = await service.getJob(job.jobId);
+      expect(reclaimed.status).toBe(AnalysisStatus.PENDING);
+      expect(reclaimed.error).toBe('Worker stopped while processing the job');
+      expect(queue).toEqual([job.jobId]);
+      expect(processing).toEqual([]);
+    });
+
+    it('should not reclaim a job whose analysis outlasts the stale limit', async () => {
+      jest.useFakeTimers();
+      try {
+        const job = await service.enqueue(mockMeetingId, mockUserId, [
+          AnalysisType.MEETING_SUMMARY,
+        ]);
+        let finishAnalysis: () => void = () => undefined;
+        (aiAnalysisService.runAnalysis as jest.Mock).mockImplementation(
+          () => new Promise((resolve) => (finishAnalysis = () => resolve({})))
+        );
+
+        const processed = service.processNextJob();
+        await jest.advanceTimersByTimeAsync(config.analysisQueue.staleJobMs * 2);
+
+        expect(await service.reclaimStaleJobs()).toBe(0);
+        expect(processing).toEqual([job.jobId]);
+
+        finishAnalysis();
+        await processed;
+        expect((await service.getJob(job.jobId)).status).toBe(AnalysisStatus.COMPLETED);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should fail stale jobs out of attempts and leave running jobs alone', async () => {
+      const stale = await startJob(1);
+      const running = await service.enqueue(mockMeetingId, mockUserId, [
+        AnalysisType.ACTION_ITEMS,
+      ]);
+      await cacheService.lMove('analysis:queue', 'analysis:processing');
+
+      expect(await service.reclaimStaleJobs()).toBe(1);
+
+      expect((await service.getJob(stale.jobId)).status).toBe(AnalysisStatus.FAILED);
+      expect(processing).toEqual([running.jobId]);
+    });
+  });
+
+  describe('cancelJob', () => {
+    it('should cancel a pending job so the worker skips it', async () => {
+      const job = await service.enqueue(mockMeetingId, mockUserId, [
+        AnalysisType.MEETING_SUMMARY,
+      ]);
+
+      const cancelled = await service.cancelJob(job.jobId, mockUserId);
+      expect(cancelled.status).toBe(AnalysisStatus.CANCELLED);
+
+      await service.processNextJob();
+      expect(aiAnalysisService.runAnalysis).not.toHaveBeenCalled();
+    });
+
+    it('should stop a job cancelled while an analysis is running', async () => {
+      const job = await service.enqueue(mockMeetingId, mockUserId, [
+        AnalysisType.MEETING_SUMMARY,
+        AnalysisType.ACTION_ITEMS,
+      ]);
+      (aiAnalysisService.runAnalysis as jest.Mock).mockImplementation(async () => {
+        await service.cancelJob(job.jobId, mockUserId);
+        return {};
+      });
+
+      await service.processNextJob();
+
+      const processed = await service.getJob(job.jobId);
+      expect(processed.status).toBe(AnalysisStatus.CANCELLED);
+      expect(processed.results).toEqual({});
+      expect(aiAnalysisService.runAnalysis).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject cancelling a finished job', async () => {
+      (aiAnalysisService.runAnalysis as jest.Mock).mockResolvedValue({});
+
+      const job = await service.enqueue(mockMeetingId, mockUserId, [
+        AnalysisType.MEETING_SUMMARY,
+      ]);
+      await service.processNextJob();
+
+      await expect(service.cancelJob(job.jobId, mockUserId)).rejects.toMatchObject({
+        statusCode: 400,
+      });
+    });
+  });
+});
@@ -0,0 +1,356 @@
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { AnthropicAIProvider } from '../services/ai/providers/anthropic.provider';
+import { AIService } from '../services/ai/ai.service';
+import { AIConfigService } from '../services/ai/config/ai-config.service';
+import {
+  AIProvider,
+  AIErrorType,
+  AIMessageRole,
+  AIStreamChunk,
+} from '../services/ai/types/ai.types';
+
+// Keep usage records out of the database
+jest.mock('../repositories', () => ({
+  aiUsageRepository: { create: jest.fn() },
+}));
+
+/**
+ * Contract tests against a local server answering like the Messages API
+ */
+describe('AnthropicAIProvider', () => {
+  type Reply =
+    | { status: number; json: unknown }
+    | { status: 200; events: { event: string; data: unknown }[] };
+
+  interface RecordedRequest {
+    method?: string;
+    path?: string;
+    headers: IncomingHttpHeaders;
+    body: any;
+  }
+
+  let server: Server;
+  let endpoint: string;
+  let replies: Reply[];
+  let requests: RecordedRequest[];
+
+  const message = (text: string) => ({
+    id: 'msg_01',
+    type: 'message',
+    role: 'assistant',
+    model: 'claude-sonnet-4-5-20250929',
+    content: [{ type: 'text', text }],
+    stop_reason: 'end_turn',
+    usage: { input_tokens: 25, output_tokens: 8 },
+  });
+
+  const apiError = (status: number, type: string) => ({
+    status,
+    json: { type: 'error', error: { type, message: `${type} from test server` } },
+  });
+
+  const createProvider = async () => {
+    const config = { provider: AIProvider.ANTHROPIC, apiKey: 'test-key', endpoint };
+    const provider = new AnthropicAIProvider(config);
+    await provider.initialize(config);
+    return provider;
+  };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (data) => (raw += data));
+      req.on('end', () => {
+        requests.push({
+          method: req.method,
+          path: req.url,
+          headers: req.headers,
+          body: JSON.parse(raw || '{}'),
+        });
+
+        const reply = replies.shift() ?? apiError(500, 'api_error');
+        if ('events' in reply) {
+          res.writeHead(200, { 'content-type': 'text/event-stream' });
+          for (const { event, data } of reply.events) {
+            res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+          }
+          res.end();
+        } else {
+          res.writeHead(reply.status, { 'content-type': 'application/json' });
+          res.end(JSON.stringify(reply.json));
+        }
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    replies = [];
+    requests = [];
+  });
+
+  describe('chat', () => {
+    it('should send system prompts in the system field', async () => {
+      replies.push({ status: 200, json: message('Here is the summary.') });
+      const provider = await createProvider();
+
+      const response = await provider.chat({
+        messages: [
+          { role: AIMessageRole.SYSTEM, content: 'You summarize meetings.' },
+          { role: AIMessageRole.USER, content: 'Transcript: ...' },
+          { role: AIMessageRole.USER, content: 'Keep it short.' },
+        ],
+        options: { temperature: 0.3 },
+      });
+
+      expect(requests[0]).toMatchObject({ method: 'POST', path: '/v1/messages' });
+      expect(requests[0].headers).toMatchObject({
+        'x-api-key': 'test-key',
+        'anthropic-version': '2023-06-01',
+      });
+      expect(requests[0].body).toEqual({
+        model: 'claude-sonnet-4-5',
+        max_tokens: 4096,
+        system: 'You summarize meetings.',
+        messages: [{ role: 'user', content: 'Transcript: ...\n\nKeep it short.' }],
+        temperature: 0.3,
+      });
+      expect(response).toEqual({
+        content: 'Here is the summary.',
+        provider: AIProvider.ANTHROPIC,
+        model: 'claude-sonnet-4-5-20250929',
+        usage: { promptTokens: 25, completionTokens: 8, totalTokens: 33 },
+        finishReason: 'end_turn',
+      });
+    });
+
+    it('should complete a prompt as a single user turn', async () => {
+      replies.push({ status: 200, json: message('42') });
+      const provider = await createProvider();
+
+      const response = await provider.complete({
+        prompt: 'What is six times seven?',
+        options: {
+          systemPrompt: 'Answer with a number.',
+          maxTokens: 10,
+          model: 'claude-haiku-4-5',
+        },
+      });
+
+      expect(requests[0].body).toMatchObject({
+        model: 'claude-haiku-4-5',
+        max_tokens: 10,
+        system: 'Answer with a number.',
+        messages: [{ role: 'user', content: 'What is six times seven?' }],
+      });
+      expect(response.content).toBe('42');
+    });
+  });
+
+  describe('streamChat', () => {
+    it('should stream text deltas and report usage at the end', async () => {
+      replies.push({
+        status: 200,
+        events: [
+          {
+            event: 'message_start',
+            data: {
+              type: 'message_start',
+              message: {
+                model: 'claude-sonnet-4-5',
+                usage: { input_tokens: 12, output_tokens: 1 },
+              },
+            },
+          },
+          { event: 'ping', data: { type: 'ping' } },
+          {
+            event: 'content_block_delta',
+            data: { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hello' } },
+          },
+          {
+            event: 'content_block_delta',
+            data: { type: 'content_block_delta', delta: { type: 'text_delta', text: ' world' } },
+          },
+          {
+            event: 'message_delta',
+            data: {
+              type: 'message_delta',
+              delta: { stop_reason: 'end_turn' },
+              usage: { output_tokens: 6 },
+            },
+          },
+          { event: 'message_stop', data: { type: 'message_stop' } },
+        ],
+      });
+      const provider = await createProvider();
+      const chunks: AIStreamChunk[] = [];
+
+      await provider.streamChat(
+        { messages: [{ role: AIMessageRole.USER, content: 'Hi' }] },
+        (chunk) => chunks.push(chunk)
+      );
+
+      expect(requests[0].body).toMatchObject({ stream: true });
+      expect(chunks).toEqual([
+        { content: 'Hello', provider: AIProvider.ANTHROPIC, isComplete: false },
+        { content: ' world', provider: AIProvider.ANTHROPIC, isComplete: false },
+        {
+          content: '',
+          provider: AIProvider.ANTHROPIC,
+          isComplete: true,
+          usage: { promptTokens: 12, completionTokens: 6, totalTokens: 18 },
+        },
+      ]);
+    });
+
+    it('should map an error event sent mid-stream', async () => {
+      replies.push({
+        status: 200,
+        events: [
+          {
+            event: 'error',
+            data: { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+          },
+        ],
+      });
+      const provider = await createProvider();
+
+      await expect(
+        provider.streamChat({ messages: [{ role: AIMessageRole.USER, content: 'Hi' }] }, jest.fn())
+      ).rejects.toMatchObject({ type: AIErrorType.RATE_LIMIT });
+    });
+
+    it('should fail a stream that closes before message_stop', async () => {
+      replies.push({
+        status: 200,
+        events: [
+          {
+            event: 'message_start',
+            data: { type: 'message_start', message: { usage: { input_tokens: 12 } } },
+          },
+          {
+            event: 'content_block_delta',
+            data: { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hel' } },
+          },
+        ],
+      });
+      const provider = await createProvider();
+      const chunks: AIStreamChunk[] = [];
+
+      await expect(
+        provider.streamChat({ messages: [{ role: AIMessageRole.USER, content: 'Hi' }] }, (chunk) =>
+          chunks.push(chunk)
+        )
+      ).rejects.toMatchObject({ type: AIErrorType.PROVIDER_ERROR });
+      expect(chunks.some((chunk) => chunk.isComplete)).toBe(false);
+    });
+  });
+
+  describe('errors', () => {
+    it.each([
+      [401, 'authentication_error', AIErrorType.AUTHENTICATION],
+      [403, 'permission_error', AIErrorType.AUTHENTICATION],
+      [400, 'invalid_request_error', AIErrorType.INVALID_REQUEST],
+      [404, 'not_found_error', AIErrorType.INVALID_REQUEST],
+      [429, 'rate_limit_error', AIErrorType.RATE_LIMIT],
+      [529, 'overloaded_error', AIErrorType.RATE_LIMIT],
+      [500, 'api_error', AIErrorType.PROVIDER_ERROR],
+    ])('should map %i %s onto %s', async (status, type, expected) => {
+      replies.push(apiError(status, type));
+      const provider = await createProvider();
+
+      await expect(
+        provider.chat({ messages: [{ role: AIMessageRole.USER, content: 'Hi' }] })
+      ).rejects.toMatchObject({
+        type: expected,
+        provider: AIProvider.ANTHROPIC,
+        statusCode: status,
+        message: expect.stringContaining(`${type} from test server`),
+      });
+    });
+
+    it('should map streamed request errors from the status code', async () => {
+      replies.push(apiError(429, 'rate_limit_error'));
+      const provider = await createProvider();
+
+      await expect(
+        provider.streamChat({ messages: [{ role: AIMessageRole.USER, content: 'Hi' }] }, jest.fn())
+      ).rejects.toMatchObject({ type: AIErrorType.RATE_LIMIT, statusCode: 429 });
+    });
+  });
+
+  describe('with AIService', () => {
+    let configService: AIConfigService;
+    let aiService: AIService;
+
+    beforeEach(async () => {
+      configService = new AIConfigService();
+      configService.updateConfig({
+        defaultProvider: AIProvider.ANTHROPIC,
+        providers: {
+          ...configService.getConfig().providers,
+          [AIProvider.GEMINI]: { apiKey: '' },
+          [AIProvider.OPENAI]: {},
+          [AIProvider.ANTHROPIC]: { apiKey: 'test-key', endpoint },
+          // The same test server answers Ollama's chat route
+          [AIProvider.OLLAMA]: { endpoint, defaultModel: 'llama3.1', api: 'ollama' },
+        },
+        retry: { ...configService.getRetryConfig(), baseDelay: 1, maxDelay: 1 },
+        fallback: {
+          ...configService.getFallbackConfig(),
+          primaryProvider: AIProvider.ANTHROPIC,
+          fallbackProvider: AIProvider.OLLAMA,
+        },
+        analysis: { provider: AIProvider.ANTHROPIC },
+        enableHotReload: false,
+      });
+      aiService = new AIService(configService);
+      await aiService.initialize();
+    });
+
+    afterEach(async () => {
+      await aiService.destroy();
+    });
+
+    it('should retry overloaded responses', async () => {
+      replies.push(apiError(529, 'overloaded_error'), { status: 200, json: message('Done') });
+
+      const response = await aiService.chat({
+        messages: [{ role: AIMessageRole.USER, content: 'Hi' }],
+      });
+
+      expect(response.content).toBe('Done');
+      expect(requests.map((request) => request.path)).toEqual(['/v1/messages', '/v1/messages']);
+    });
+
+    it('should fall back without retrying a rejected API key', async () => {
+      replies.push(apiError(401, 'authentication_error'), {
+        status: 200,
+        json: { model: 'llama3.1', message: { content: 'From Ollama' }, done: true },
+      });
+
+      const response = await aiService.chat({
+        messages: [{ role: AIMessageRole.USER, content: 'Hi' }],
+      });
+
+      expect(response).toMatchObject({ content: 'From Ollama', provider: AIProvider.OLLAMA });
+      expect(requests.map((request) => request.path)).toEqual(['/v1/messages', '/api/chat']);
+    });
+
+    it('should neither retry nor fall back on invalid requests', async () => {
+      replies.push(apiError(400, 'invalid_request_error'));
+
+      await expect(
+        aiService.chat({ messages: [{ role: AIMessageRole.USER, content: 'Hi' }] })
+      ).rejects.toMatchObject({ type: AIErrorType.INVALID_REQUEST });
+      expect(requests).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,331 @@
+import { existsSync } from 'fs';
+import { writeFile } from 'fs/promises';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { config } from '../config/index.js';
+import { audioTranscriptionService } from '../services/stt/audio-transcription.service';
+import { speechToTextEngineRegistry } from '../services/stt/stt-engine.registry';
+import { diarizerRegistry } from '../services/diarization/diarizer.registry';
+import { audioChunker } from '../services/stt/audio-chunker';
+import { transcriptionService } from '../services/transcription.service';
+import { transcriptRevisionService } from '../services/transcript-revision.service';
+import { analysisQueueService } from '../services/ai/analysis-queue.service';
+import { SpeechToTextEngine } from '../services/stt/types/stt.types';
+import {
+  meetingRepository,
+  transcriptChunkRepository,
+  transcriptionRepository,
+} from '../repositories';
+
+jest.mock('../repositories', () => ({
+  meetingRepository: {
+    findById: jest.fn(),
+    update: jest.fn(),
+    findByAudioTranscriptionStatus: jest.fn(),
+  },
+  transcriptionRepository: {
+    countByMeetingId: jest.fn(),
+    deleteByMeetingId: jest.fn(),
+  },
+  transcriptChunkRepository: {
+    deleteByMeetingId: jest.fn(),
+  },
+}));
+
+jest.mock('../services/stt/audio-chunker', () => ({
+  audioChunker: {
+    split: jest.fn(),
+  },
+}));
+
+jest.mock('../services/transcription.service', () => ({
+  transcriptionService: {
+    processAudioChunkBatch: jest.fn(),
+  },
+}));
+
+jest.mock('../services/transcript-revision.service', () => ({
+  transcriptRevisionService: {
+    record: jest.fn(),
+  },
+}));
+
+jest.mock('../services/ai/analysis-queue.service', () => ({
+  analysisQueueService: {
+    enqueue: jest.fn(),
+  },
+}));
+
+jest.mock('../services/semantic-search.service', () => ({
+  semanticSearchService: {
+    scheduleIndexing: jest.fn(),
+  },
+}));
+
+describe('AudioTranscriptionService', () => {
+  const userId = 'user-123';
+  const meeting = { id: 'meeting-1', userId, status: 'completed', metadata: { botId: 'bot-1' } };
+
+  const engine: jest.Mocked<SpeechToTextEngine> = {
+    name: 'test-engine',
+    isConfigured: jest.fn(),
+    transcribe: jest.fn(),
+  };
+
+  // Stands in for the configured local back-end
+  const assign = jest.fn();
+  const diarizer = {
+    name: 'local',
+    isConfigured: () => true,
+    createSession: jest.fn(() => ({ assign })),
+  };
+
+  const lastProgress = () => {
+    const calls = (meetingRepository.update as jest.Mock).mock.calls.filter(
+      ([, data]) => data.metadata.audioTranscription
+    );
+    return calls[calls.length - 1][1].metadata.audioTranscription;
+  };
+
+  // Transcription runs in the background, one upload after another
+  const finishQueue = () => audioTranscriptionService['queue'];
+
+  const upload = (content: string) => Readable.from([Buffer.from(content)]);
+
+  let chunkDir: string;
+
+  beforeAll(() => {
+    speechToTextEngineRegistry.register(engine);
+    diarizerRegistry.register(diarizer);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (meetingRepository.findById as jest.Mock).mockResolvedValue(meeting);
+    (transcriptionRepository.countByMeetingId as jest.Mock).mockResolvedValue(0);
+    engine.isConfigured.mockReturnValue(true);
+    engine.transcribe.mockResolvedValue([
+      { text: 'Hello there', startTime: 1, endTime: 2.5, confidence: 0.9 },
+    ]);
+    assign.mockResolvedValue([{ speaker: 'Speaker 1', confidence: 0.75 }]);
+    (audioChunker.split as jest.Mock).mockImplementation(async (_input: string, dir: string) => {
+      chunkDir = dir;
+      await writeFile(join(dir, 'chunk-00000.wav'), 'first');
+      await writeFile(join(dir, 'chunk-00001.wav'), 'second');
+      return [
+        { path: join(dir, 'chunk-00000.wav'), offset: 0, duration: 30 },
+        { path: join(dir, 'chunk-00001.wav'), offset: 30, duration: 12 },
+      ];
+    });
+  });
+
+  it('should transcribe each chunk and store it through the chunk batch', async () => {
+    const queued = await audioTranscriptionService.transcribeUpload(
+      meeting.id,
+      userId,
+      upload('audio'),
+      { engine: 'test-engine', language: 'en' }
+    );
+    expect(queued).toMatchObject({
+      status: 'queued',
+      engine: 'test-engine',
+      diarizer: 'local',
+      totalChunks: null,
+    });
+
+    await finishQueue();
+
+    expect(engine.transcribe).toHaveBeenCalledTimes(2);
+    expect(engine.transcribe).toHaveBeenLastCalledWith(
+      expect.objectContaining({ audioData: Buffer.from('second'), timestamp: 30, duration: 12 }),
+      { language: 'en' }
+    );
+    // One diarization session for the whole recording
+    expect(diarizer.createSession).toHaveBeenCalledTimes(1);
+    expect(assign).toHaveBeenCalledTimes(2);
+    expect(transcriptionService.processAudioChunkBatch).toHaveBeenLastCalledWith(
+      [
+        expect.objectContaining({
+          meetingId: meeting.id,
+          timestamp: 31,
+          duration: 1.5,
+          speaker: 'Speaker 1',
+          speakerConfidence: 0.75,
+        }),
+      ],
+      [{ speaker: '', text: 'Hello there', startTime: 31, endTime: 32.5, confidence: 0.9 }]
+    );
+    expect(lastProgress()).toMatchObject({
+      status: 'completed',
+      totalChunks: 2,
+      processedChunks: 2,
+      segments: 2,
+      percent: 100,
+    });
+    expect(transcriptRevisionService.record).not.toHaveBeenCalled();
+    expect(existsSync(chunkDir)).toBe(false);
+  });
+
+  it('should replace the transcript once the upload is converted', async () => {
+    (transcriptionRepository.countByMeetingId as jest.Mock).mockResolvedValue(5);
+    (analysisQueueService.enqueue as jest.Mock).mockResolvedValue({ jobId: 'job-1' });
+
+    await audioTranscriptionService.transcribeUpload(meeting.id, userId, upload('audio'), {
+      engine: 'test-engine',
+      replace: true,
+      analyze: true,
+    });
+    await finishQueue();
+
+    expect(transcriptionRepository.deleteByMeetingId).toHaveBeenCalledWith(meeting.id);
+    expect(transcriptChunkRepository.deleteByMeetingId).toHaveBeenCalledWith(meeting.id);
+    expect(transcriptRevisionService.record).toHaveBeenCalledWith(
+      meeting.id,
+      userId,
+      'replace',
+      null,
+      { summary: 'Replaced by a transcript of an uploaded recording (test-engine)' }
+    );
+    expect(lastProgress()).toMatchObject({ status: 'completed', analysisJobId: 'job-1' });
+  });
+
+  it('should record a failure and keep the old transcript when conversion fails', async () => {
+    (transcriptionRepository.countByMeetingId as jest.Mock).mockResolvedValue(5);
+    (audioChunker.split as jest.Mock).mockRejectedValue(new Error('Invalid data found'));
+
+    await audioTranscriptionService.transcribeUpload(meeting.id, userId, upload('junk'), {
+      engine: 'test-engine',
+      replace: true,
+    });
+    await finishQueue();
+
+    expect(transcriptionRepository.deleteByMeetingId).not.toHaveBeenCalled();
+    expect(lastProgress()).toMatchObject({ status: 'failed', error: 'Invalid data found' });
+  });
+
+  it('should leave speakers unknown when not diarizing', async () => {
+    const queued = await audioTranscriptionService.transcribeUpload(
+      meeting.id,
+      userId,
+      upload('audio'),
+      { engine: 'test-engine', diarize: false }
+    );
+    await finishQueue();
+
+    expect(queued.diarizer).toBeNull();
+    expect(assign).not.toHaveBeenCalled();
+    expect(transcriptionService.processAudioChunkBatch).toHaveBeenLastCalledWith(
+      [expect.objectContaining({ speaker: undefined, speakerConfidence: undefined })],
+      expect.any(Array)
+    );
+  });
+
+  it('should refuse a meeting that already has a transcript unless replacing', async () => {
+    (transcriptionRepository.countByMeetingId as jest.Mock).mockResolvedValue(5);
+
+    await expect(
+      audioTranscriptionService.transcribeUpload(meeting.id, userId, upload('audio'), {
+        engine: 'test-engine',
+      })
+    ).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('should reject unknown and unconfigured engines', async () => {
+    await expect(
+      audioTranscriptionService.transcribeUpload(meeting.id, userId, upload('audio'), {
+        engine: 'nope',
+      })
+    ).rejects.toMatchObject({ statusCode: 400 });
+
+    engine.isConfigured.mockReturnValue(false);
+    await expect(
+      audioTranscriptionService.transcribeUpload(meeting.id, userId, upload('audio'), {
+        engine: 'test-engine',
+      })
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('should refuse a second upload of a meeting while the first is being set up', async () => {
+    const first = audioTranscriptionService.transcribeUpload(meeting.id, userId, upload('audio'), {
+      engine: 'test-engine',
+    });
+
+    await expect(
+      audioTranscriptionService.transcribeUpload(meeting.id, userId, upload('audio'), {
+        engine: 'test-engine',
+      })
+    ).rejects.toMatchObject({ statusCode: 409 });
+
+    await first;
+    await finishQueue();
+  });
+
+  it('should release the meeting when the upload cannot be accepted', async () => {
+    await expect(
+      audioTranscriptionService.transcribeUpload(meeting.id, userId, Readable.from([]), {
+        engine: 'test-engine',
+      })
+    ).rejects.toMatchObject({ statusCode: 400 });
+
+    expect(audioTranscriptionService['activeMeetings'].has(meeting.id)).toBe(false);
+    await expect(
+      audioTranscriptionService.transcribeUpload(meeting.id, userId, upload('audio'), {
+        engine: 'test-engine',
+      })
+    ).resolves.toMatchObject({ status: 'queued' });
+    await finishQueue();
+  });
+
+  it('should stop reading uploads past the size limit', async () => {
+    const { maxUploadMb } = config.speechToText;
+    config.speechToText.maxUploadMb = 1;
+
+    try {
+      await expect(
+        audioTranscriptionService.transcribeUpload(
+          meeting.id,
+          userId,
+          Readable.from([Buffer.alloc(1024 * 1024), Buffer.alloc(1)]),
+          { engine: 'test-engine' }
+        )
+      ).rejects.toMatchObject({ statusCode: 413 });
+    } finally {
+      config.speechToText.maxUploadMb = maxUploadMb;
+    }
+  });
+
+  it('should not let other users upload recordings', async () => {
+    await expect(
+      audioTranscriptionService.transcribeUpload(meeting.id, 'someone-else', upload('a'))
+    ).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('should fail recordings left unfinished by an earlier run of the server', async () => {
+    const interrupted = {
+      ...meeting,
+      metadata: {
+        botId: 'bot-1',
+        audioTranscription: { status: 'transcribing', engine: 'test-engine', percent: 40 },
+      },
+    };
+    (meetingRepository.findByAudioTranscriptionStatus as jest.Mock).mockResolvedValue([
+      interrupted,
+    ]);
+    (meetingRepository.findById as jest.Mock).mockResolvedValue(interrupted);
+
+    await expect(audioTranscriptionService.failInterrupted()).resolves.toBe(1);
+
+    expect(meetingRepository.findByAudioTranscriptionStatus).toHaveBeenCalledWith([
+      'queued',
+      'converting',
+      'transcribing',
+    ]);
+    expect(lastProgress()).toEqual(
+      expect.objectContaining({
+        status: 'failed',
+        percent: 40,
+        error: expect.stringContaining('server restart'),
+      })
+    );
+  });
+});
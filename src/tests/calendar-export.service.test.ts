@@ -0,0 +1,144 @@
+import { ActionItem, AnalysisResult, User } from '@prisma/client';
+import { CalendarExportService } from '../services/calendar-export.service';
+import { meetingRepository, userRepository } from '../repositories';
+import { MeetingForCalendar } from '../types/meeting.types';
+import { ICalUtil } from '../utils/ical';
+
+jest.mock('../repositories', () => ({
+  meetingRepository: {
+    findForCalendar: jest.fn(),
+  },
+  userRepository: {
+    findById: jest.fn(),
+    findByCalendarFeedToken: jest.fn(),
+    update: jest.fn(),
+  },
+}));
+
+const mockedMeetingRepository = meetingRepository as jest.Mocked<typeof meetingRepository>;
+const mockedUserRepository = userRepository as jest.Mocked<typeof userRepository>;
+
+describe('CalendarExportService', () => {
+  let service: CalendarExportService;
+
+  const meeting = (overrides: Partial<MeetingForCalendar> = {}): MeetingForCalendar =>
+    ({
+      id: 'meeting-1',
+      userId: 'user-123',
+      title: 'Roadmap review; Q4, part 2',
+      description: null,
+      meetingUrl: 'https://zoom.us/j/42',
+      status: 'scheduled',
+      scheduledAt: new Date('2026-10-20T09:00:00Z'),
+      startedAt: null,
+      endedAt: null,
+      createdAt: new Date('2026-10-01T09:00:00Z'),
+      updatedAt: new Date('2026-10-02T09:00:00Z'),
+      series: null,
+      analysisResults: [],
+      actionItems: [],
+      ...overrides,
+    }) as MeetingForCalendar;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new CalendarExportService();
+  });
+
+  describe('renderMeeting', () => {
+    it('should write an event that reads back with its title, time and join link', () => {
+      const [event] = ICalUtil.parse(service.renderMeeting(meeting())).events;
+
+      expect(event).toEqual(
+        expect.objectContaining({
+          uid: 'meeting-1@cogninote',
+          summary: 'Roadmap review; Q4, part 2',
+          location: 'https://zoom.us/j/42',
+          start: new Date('2026-10-20T09:00:00Z'),
+          end: new Date('2026-10-20T10:00:00Z'),
+          status: 'CONFIRMED',
+        })
+      );
+      expect(event.description).toBe('Status: scheduled\nJoin: https://zoom.us/j/42');
+    });
+
+    it('should add the summary and action items once the meeting is completed', () => {
+      const content = service.renderMeeting(
+        meeting({
+          status: 'completed',
+          startedAt: new Date('2026-10-20T09:02:00Z'),
+          endedAt: new Date('2026-10-20T09:40:00Z'),
+          analysisResults: [
+            { analysisType: 'sentiment', summary: 'Positive' },
+            { analysisType: 'meeting_summary', summary: 'Agreed on the Q4 scope.' },
+          ] as AnalysisResult[],
+          actionItems: [
+            { description: 'Draft the plan', owner: 'Alice', status: 'open', dueDate: null },
+            { description: 'Book the room', owner: null, status: 'done', dueDate: null },
+          ] as ActionItem[],
+        })
+      );
+
+      expect(content.split('\r\n').every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+
+      const [event] = ICalUtil.parse(content).events;
+      expect(event.end).toEqual(new Date('2026-10-20T09:40:00Z'));
+      expect(event.description).toBe(
+        [
+          'Status: completed\nJoin: https://zoom.us/j/42',
+          'Summary:\nAgreed on the Q4 scope.',
+          'Action items:\n- [ ] Draft the plan (owner: Alice)\n- [x] Book the room',
+        ].join('\n\n')
+      );
+    });
+
+    it('should mark cancelled meetings as cancelled events', () => {
+      const content = service.renderMeeting(meeting({ status: 'cancelled' }));
+      const [event] = ICalUtil.parse(content).events;
+
+      expect(event.status).toBe('CANCELLED');
+    });
+  });
+
+  describe('renderFeed', () => {
+    it("should render the token owner's meetings", async () => {
+      mockedUserRepository.findByCalendarFeedToken.mockResolvedValue({ id: 'user-123' } as User);
+      mockedMeetingRepository.findForCalendar.mockResolvedValue([
+        meeting(),
+        meeting({ id: 'meeting-2', series: { durationMinutes: 15 } }),
+      ]);
+
+      const calendar = ICalUtil.parse(await service.renderFeed('token-1'));
+
+      expect(mockedMeetingRepository.findForCalendar).toHaveBeenCalledWith(
+        'user-123',
+        expect.any(Date),
+        1000
+      );
+      expect(calendar.name).toBe('CogniNote meetings');
+      expect(calendar.events[1].end).toEqual(new Date('2026-10-20T09:15:00Z'));
+    });
+
+    it('should reject unknown tokens', async () => {
+      mockedUserRepository.findByCalendarFeedToken.mockResolvedValue(null);
+
+      await expect(service.renderFeed('stale-token')).rejects.toThrow('Calendar feed not found');
+    });
+  });
+
+  describe('getFeedToken', () => {
+    it('should create a token on first use', async () => {
+      mockedUserRepository.findById.mockResolvedValue({
+        id: 'user-123',
+        calendarFeedToken: null,
+      } as User);
+
+      const token = await service.getFeedToken('user-123');
+
+      expect(token).toMatch(/^[A-Za-z0-9_-]{32}$/);
+      expect(mockedUserRepository.update).toHaveBeenCalledWith('user-123', {
+        calendarFeedToken: token,
+      });
+    });
+  });
+});
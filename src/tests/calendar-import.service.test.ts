@@ -0,0 +1,243 @@
+import axios from 'axios';
+import { Meeting } from '@prisma/client';
+import { CalendarImportService } from '../services/calendar-import.service';
+import { calendarFeedRepository, meetingRepository } from '../repositories';
+import { meetingService } from '../services/meeting.service';
+
+jest.mock('../repositories', () => ({
+  meetingRepository: {
+    findByExternalUids: jest.fn(),
+    createImportedMeetings: jest.fn(),
+    findScheduledByCalendarFeed: jest.fn(),
+  },
+  calendarFeedRepository: {
+    findById: jest.fn(),
+    update: jest.fn(),
+  },
+}));
+jest.mock('../services/meeting.service', () => ({
+  meetingService: {
+    updateMeeting: jest.fn(),
+    invalidateListCache: jest.fn(),
+  },
+}));
+jest.mock('../services/recall-ai/meeting-bot.service', () => ({
+  meetingBotService: {
+    detectPlatform: jest.fn((url: string) => (url.includes('zoom.us') ? 'zoom' : null)),
+  },
+}));
+jest.mock('../utils/logger');
+jest.mock('axios');
+
+const mockedMeetingRepository = meetingRepository as jest.Mocked<typeof meetingRepository>;
+const mockedFeedRepository = calendarFeedRepository as jest.Mocked<typeof calendarFeedRepository>;
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockedMeetingService = meetingService as jest.Mocked<typeof meetingService>;
+
+const calendar = (...lines: string[]): string =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+describe('CalendarImportService', () => {
+  let service: CalendarImportService;
+
+  const standup = [
+    'BEGIN:VEVENT',
+    'UID:standup',
+    'SUMMARY:Standup',
+    'LOCATION:Room 4 / https://zoom.us/j/42',
+    'DESCRIPTION:Docs: https://docs.example.com/notes',
+    'DTSTART:20261019T090000Z',
+    'RRULE:FREQ=DAILY;COUNT=3',
+    'END:VEVENT',
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date('2026-10-19T08:00:00Z'));
+    service = new CalendarImportService();
+    mockedMeetingRepository.findByExternalUids.mockResolvedValue([]);
+    mockedMeetingRepository.findScheduledByCalendarFeed.mockResolvedValue([]);
+    mockedMeetingRepository.createImportedMeetings.mockImplementation(async (data) => ({
+      count: data.length,
+    }));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should create a meeting per occurrence with the meeting link of the event', async () => {
+    const result = await service.importCalendar('user-123', calendar(...standup));
+
+    expect(result.created).toBe(3);
+    const created = mockedMeetingRepository.createImportedMeetings.mock.calls[0][0];
+    expect(created.map((meeting) => meeting.externalUid)).toEqual([
+      'standup#2026-10-19T09:00:00.000Z',
+      'standup#2026-10-20T09:00:00.000Z',
+      'standup#2026-10-21T09:00:00.000Z',
+    ]);
+    expect(created[0]).toEqual(
+      expect.objectContaining({
+        userId: 'user-123',
+        title: 'Standup',
+        meetingUrl: 'https://zoom.us/j/42',
+        platform: 'zoom',
+        scheduledAt: new Date('2026-10-19T09:00:00Z'),
+      })
+    );
+  });
+
+  it('should update moved and cancelled occurrences instead of duplicating them', async () => {
+    mockedMeetingRepository.findByExternalUids.mockResolvedValue([
+      {
+        id: 'meeting-1',
+        title: 'Standup',
+        meetingUrl: 'https://zoom.us/j/42',
+        status: 'scheduled',
+        scheduledAt: new Date('2026-10-19T09:00:00Z'),
+        externalUid: 'standup#2026-10-19T09:00:00.000Z',
+      },
+      {
+        id: 'meeting-2',
+        title: 'Standup',
+        meetingUrl: 'https://zoom.us/j/42',
+        status: 'scheduled',
+        scheduledAt: new Date('2026-10-20T09:00:00Z'),
+        externalUid: 'standup#2026-10-20T09:00:00.000Z',
+      },
+      {
+        id: 'meeting-3',
+        title: 'Standup',
+        status: 'completed',
+        scheduledAt: new Date('2026-10-21T09:00:00Z'),
+        externalUid: 'standup#2026-10-21T09:00:00.000Z',
+      },
+    ] as Meeting[]);
+
+    const result = await service.importCalendar(
+      'user-123',
+      calendar(
+        ...standup,
+        'BEGIN:VEVENT',
+        'UID:standup',
+        'RECURRENCE-ID:20261019T090000Z',
+        'SUMMARY:Standup',
+        'DTSTART:20261019T100000Z',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:standup',
+        'RECURRENCE-ID:20261020T090000Z',
+        'SUMMARY:Standup',
+        'DTSTART:20261020T090000Z',
+        'STATUS:CANCELLED',
+        'END:VEVENT'
+      )
+    );
+
+    expect(mockedMeetingService.updateMeeting).toHaveBeenCalledWith('meeting-1', 'user-123', {
+      scheduledAt: new Date('2026-10-19T10:00:00Z'),
+    });
+    expect(mockedMeetingService.updateMeeting).toHaveBeenCalledWith('meeting-2', 'user-123', {
+      status: 'cancelled',
+    });
+    expect(mockedMeetingRepository.createImportedMeetings).not.toHaveBeenCalled();
+    expect(result).toEqual(
+      expect.objectContaining({ created: 0, updated: 1, cancelled: 1, skipped: 1 })
+    );
+  });
+
+  it('should cancel upcoming meetings of events removed from a feed', async () => {
+    mockedMeetingRepository.findScheduledByCalendarFeed.mockResolvedValue([
+      { id: 'meeting-old', externalUid: 'removed-event', status: 'scheduled' },
+    ] as Meeting[]);
+
+    const result = await service.importCalendar('user-123', calendar(...standup), {
+      feedId: 'feed-1',
+    });
+
+    expect(mockedMeetingService.updateMeeting).toHaveBeenCalledWith('meeting-old', 'user-123', {
+      status: 'cancelled',
+    });
+    expect(result.cancelled).toBe(1);
+    expect(mockedMeetingRepository.createImportedMeetings.mock.calls[0][0][0]).toEqual(
+      expect.objectContaining({ calendarFeedId: 'feed-1' })
+    );
+  });
+
+  it('should import the first occurrence of events with unsupported rules', async () => {
+    const result = await service.importCalendar(
+      'user-123',
+      calendar(
+        'BEGIN:VEVENT',
+        'UID:yearly',
+        'SUMMARY:Annual review',
+        'DTSTART:20261101T090000Z',
+        'RRULE:FREQ=YEARLY',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:holiday',
+        'SUMMARY:Holiday',
+        'DTSTART;VALUE=DATE:20261026',
+        'END:VEVENT'
+      )
+    );
+
+    expect(mockedMeetingRepository.createImportedMeetings).toHaveBeenCalledWith([
+      expect.objectContaining({
+        externalUid: 'yearly',
+        scheduledAt: new Date('2026-11-01T09:00:00Z'),
+      }),
+    ]);
+    expect(result.skipped).toBe(1);
+    expect(result.warnings[0]).toContain('unsupported rule');
+  });
+
+  it('should reject content that is not a calendar', async () => {
+    await expect(service.importCalendar('user-123', 'not a calendar')).rejects.toThrow(
+      'Invalid calendar'
+    );
+  });
+
+  describe('feeds', () => {
+    const feed = {
+      id: 'feed-1',
+      userId: 'user-123',
+      url: 'https://calendar.example.com/feed.ics',
+      name: 'Work',
+    };
+
+    beforeEach(() => {
+      mockedFeedRepository.findById.mockResolvedValue(feed as any);
+      (axios.isAxiosError as unknown as jest.Mock).mockReturnValue(true);
+    });
+
+    it('should not follow redirects to internal addresses', async () => {
+      mockedAxios.get.mockResolvedValueOnce({
+        status: 302,
+        headers: { location: 'http://169.254.169.254/latest/meta-data/' },
+        data: '',
+      });
+
+      await expect(service.syncOwnedFeed('feed-1', 'user-123')).rejects.toThrow(
+        'Could not load calendar feed'
+      );
+      expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        'https://calendar.example.com/feed.ics',
+        expect.objectContaining({ maxRedirects: 0, lookup: expect.any(Function) })
+      );
+    });
+
+    it('should record a generic error instead of what the request ran into', async () => {
+      mockedAxios.get.mockRejectedValueOnce(new Error('connect ECONNREFUSED 10.0.0.5:443'));
+
+      await expect(service.syncOwnedFeed('feed-1', 'user-123')).rejects.toThrow(
+        'Could not load calendar feed'
+      );
+      expect(mockedFeedRepository.update).toHaveBeenCalledWith('feed-1', {
+        lastSyncedAt: expect.any(Date),
+        lastError: 'Could not load calendar feed',
+      });
+    });
+  });
+});
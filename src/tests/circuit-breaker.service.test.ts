@@ -0,0 +1,258 @@
+import { CircuitBreakerService } from '../services/ai/circuit-breaker.service';
+import { AIService } from '../services/ai/ai.service';
+import { AIConfigService } from '../services/ai/config/ai-config.service';
+import { getRedis } from '../config/redis';
+import {
+  AIProvider,
+  AIError,
+  AIErrorType,
+  AIMessageRole,
+  AITaskType,
+  CircuitState,
+} from '../services/ai/types/ai.types';
+
+jest.mock('../config/redis', () => ({
+  getRedis: jest.fn(),
+}));
+// Keep usage records out of the database
+jest.mock('../repositories', () => ({
+  aiUsageRepository: { create: jest.fn() },
+}));
+
+/**
+ * Just enough of Redis for the breaker, kept in memory and shared like a real server
+ */
+const createFakeRedis = () => {
+  const hashes = new Map<string, Record<string, string>>();
+  const strings = new Map<string, string>();
+  const sortedSets = new Map<string, { score: number; value: string }[]>();
+
+  return {
+    hashes,
+    hGetAll: jest.fn(async (key: string) => ({ ...hashes.get(key) })),
+    hSet: jest.fn(async (key: string, field: string | object, value?: string) => {
+      const fields = typeof field === 'string' ? { [field]: value! } : field;
+      hashes.set(key, { ...hashes.get(key), ...(fields as Record<string, string>) });
+    }),
+    set: jest.fn(async (key: string, value: string, options?: { NX?: boolean }) => {
+      if (options?.NX && strings.has(key)) {
+        return null;
+      }
+      strings.set(key, value);
+      return 'OK';
+    }),
+    del: jest.fn(async (keys: string | string[]) => {
+      for (const key of [keys].flat()) {
+        hashes.delete(key);
+        strings.delete(key);
+        sortedSets.delete(key);
+      }
+    }),
+    zAdd: jest.fn(async (key: string, member: { score: number; value: string }) => {
+      sortedSets.set(key, [...(sortedSets.get(key) ?? []), member]);
+    }),
+    zRemRangeByScore: jest.fn(async (key: string, min: number, max: number) => {
+      sortedSets.set(
+        key,
+        (sortedSets.get(key) ?? []).filter((member) => member.score < min || member.score > max)
+      );
+    }),
+    zRangeByScore: jest.fn(async (key: string, min: number) =>
+      (sortedSets.get(key) ?? [])
+        .filter((member) => member.score >= min)
+        .map((member) => member.value)
+    ),
+    pExpire: jest.fn(),
+  };
+};
+
+describe('CircuitBreakerService', () => {
+  let redis: ReturnType<typeof createFakeRedis>;
+  let configService: AIConfigService;
+  let breaker: CircuitBreakerService;
+  let now: number;
+
+  const fail = (count: number, type = AIErrorType.PROVIDER_ERROR) =>
+    Array.from({ length: count }).reduce<Promise<void>>(
+      (previous) => previous.then(() => breaker.recordFailure(AIProvider.GEMINI, type)),
+      Promise.resolve()
+    );
+
+  const state = async () => (await breaker.getStatus([AIProvider.GEMINI]))[AIProvider.GEMINI];
+
+  beforeEach(() => {
+    redis = createFakeRedis();
+    (getRedis as jest.Mock).mockReturnValue(redis);
+
+    now = Date.parse('2026-03-02T10:00:00Z');
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    configService = new AIConfigService();
+    configService.updateConfig({
+      circuitBreaker: {
+        ...configService.getCircuitBreakerConfig(),
+        failureRateThreshold: 0.5,
+        minimumRequests: 4,
+        windowMs: 60000,
+        openDurationMs: 30000,
+      },
+      enableHotReload: false,
+    });
+    breaker = new CircuitBreakerService(configService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should open once the failure rate reaches the threshold', async () => {
+    await breaker.recordSuccess(AIProvider.GEMINI);
+    await breaker.recordSuccess(AIProvider.GEMINI);
+    await fail(1);
+    expect(await breaker.allowRequest(AIProvider.GEMINI)).toBe(true);
+
+    await fail(1, AIErrorType.TIMEOUT);
+
+    expect(await breaker.allowRequest(AIProvider.GEMINI)).toBe(false);
+    expect(await state()).toEqual({
+      state: CircuitState.OPEN,
+      openedAt: '2026-03-02T10:00:00.000Z',
+      retryAt: '2026-03-02T10:00:30.000Z',
+      requests: 4,
+      failures: 2,
+      errorRate: 0.5,
+      errors: { provider_error: 1, timeout: 1 },
+    });
+  });
+
+  it('should count errors it does not trip on as answered requests', async () => {
+    await fail(4, AIErrorType.INVALID_REQUEST);
+
+    expect(await breaker.allowRequest(AIProvider.GEMINI)).toBe(true);
+    expect(await state()).toMatchObject({ state: CircuitState.CLOSED, requests: 4, failures: 0 });
+  });
+
+  it('should forget failures that left the window', async () => {
+    await fail(3);
+    now += 61000;
+    await breaker.recordSuccess(AIProvider.GEMINI);
+    await fail(1);
+
+    expect(await state()).toMatchObject({ state: CircuitState.CLOSED, requests: 2 });
+  });
+
+  it('should let a single trial request through after the open duration', async () => {
+    await fail(4);
+    now += 30000;
+
+    const otherInstance = new CircuitBreakerService(configService);
+
+    expect(await breaker.allowRequest(AIProvider.GEMINI)).toBe(true);
+    // Another instance asking at the same time waits for the trial
+    expect(await otherInstance.allowRequest(AIProvider.GEMINI)).toBe(false);
+    expect((await state()).state).toBe(CircuitState.HALF_OPEN);
+
+    await breaker.recordSuccess(AIProvider.GEMINI);
+
+    expect(await state()).toMatchObject({ state: CircuitState.CLOSED, requests: 0 });
+    expect(await breaker.allowRequest(AIProvider.GEMINI)).toBe(true);
+  });
+
+  it('should open again when the trial request fails', async () => {
+    await fail(4);
+    now += 30000;
+    await breaker.allowRequest(AIProvider.GEMINI);
+
+    await fail(1, AIErrorType.NETWORK_ERROR);
+
+    expect(await state()).toMatchObject({
+      state: CircuitState.OPEN,
+      retryAt: '2026-03-02T10:01:00.000Z',
+    });
+    expect(await breaker.allowRequest(AIProvider.GEMINI)).toBe(false);
+  });
+
+  it('should let requests through when Redis is unavailable', async () => {
+    (getRedis as jest.Mock).mockImplementation(() => {
+      throw new Error('Redis not initialized. Call connectRedis first.');
+    });
+
+    await fail(10);
+
+    expect(await breaker.allowRequest(AIProvider.GEMINI)).toBe(true);
+  });
+
+  it('should close on reset', async () => {
+    await fail(4);
+
+    await breaker.reset(AIProvider.GEMINI);
+
+    expect(await breaker.allowRequest(AIProvider.GEMINI)).toBe(true);
+    expect(redis.hashes.size).toBe(0);
+  });
+
+  describe('with AIService', () => {
+    let aiService: AIService;
+    let providers: Record<string, { isConfigured: () => boolean; chat: jest.Mock }>;
+
+    const request = {
+      messages: [{ role: AIMessageRole.USER, content: 'Hi' }],
+      options: { task: AITaskType.CHAT },
+    };
+
+    beforeEach(() => {
+      configService.updateConfig({
+        defaultProvider: AIProvider.GEMINI,
+        retry: { ...configService.getRetryConfig(), maxRetries: 5, baseDelay: 1, maxDelay: 1 },
+        fallback: {
+          ...configService.getFallbackConfig(),
+          enabled: true,
+          primaryProvider: AIProvider.GEMINI,
+          fallbackProvider: AIProvider.OPENAI,
+        },
+        routing: { chains: {} },
+      });
+
+      aiService = new AIService(configService);
+      providers = {};
+      for (const provider of [AIProvider.GEMINI, AIProvider.OPENAI]) {
+        providers[provider] = {
+          isConfigured: () => true,
+          chat: jest.fn().mockResolvedValue({ content: `From ${provider}`, provider, model: 'm' }),
+        };
+        aiService['providers'].set(provider, providers[provider] as any);
+      }
+      aiService['isInitialized'] = true;
+    });
+
+    it('should stop retrying once the breaker opens and fall back', async () => {
+      providers[AIProvider.GEMINI].chat.mockRejectedValue(
+        new AIError('Service unavailable', AIErrorType.PROVIDER_ERROR, AIProvider.GEMINI)
+      );
+
+      const response = await aiService.chat(request);
+
+      // Opened at the fourth failure, so no attempt is left to retry
+      expect(providers[AIProvider.GEMINI].chat).toHaveBeenCalledTimes(4);
+      expect(response.metadata).toMatchObject({ succeededProvider: AIProvider.OPENAI });
+
+      const next = await aiService.chat(request);
+
+      expect(providers[AIProvider.GEMINI].chat).toHaveBeenCalledTimes(4);
+      expect(next.metadata).toEqual({
+        attemptedProviders: [AIProvider.OPENAI],
+        succeededProvider: AIProvider.OPENAI,
+      });
+    });
+
+    it('should report circuits of available providers', async () => {
+      await fail(4);
+
+      const status = await aiService.getCircuitStatus();
+
+      expect(Object.keys(status)).toEqual([AIProvider.GEMINI, AIProvider.OPENAI]);
+      expect(status[AIProvider.GEMINI]?.state).toBe(CircuitState.OPEN);
+      expect(status[AIProvider.OPENAI]).toMatchObject({ state: CircuitState.CLOSED, requests: 0 });
+    });
+  });
+});
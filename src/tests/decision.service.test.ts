@@ -0,0 +1,188 @@
+import { Decision, Meeting, Transcription } from '@prisma/client';
+import { DecisionService } from '../services/decision.service';
+import { decisionRepository, meetingRepository } from '../repositories';
+import { DecisionRelation, DecisionStatus, DecisionWithLinks } from '../types/decision.types';
+import { MeetingDecision } from '../services/ai/types/analysis.types';
+import { AppError } from '../middlewares/error-handler';
+
+jest.mock('../repositories', () => ({
+  decisionRepository: {
+    create: jest.fn(),
+    update: jest.fn(),
+    findByIdWithLinks: jest.fn(),
+    findByMeetingId: jest.fn(),
+    findActiveBefore: jest.fn(),
+    upsertLink: jest.fn(),
+    deleteLink: jest.fn(),
+    findSupersededBy: jest.fn(),
+    reactivateUnsuperseded: jest.fn(),
+    deleteByIds: jest.fn(),
+  },
+  meetingRepository: {
+    findById: jest.fn(),
+  },
+}));
+jest.mock('../utils/logger');
+
+const mockedDecisionRepository = decisionRepository as jest.Mocked<typeof decisionRepository>;
+const mockedMeetingRepository = meetingRepository as jest.Mocked<typeof meetingRepository>;
+
+describe('DecisionService', () => {
+  let service: DecisionService;
+
+  const meeting = {
+    id: 'meeting-2',
+    userId: 'user-123',
+    startedAt: new Date('2025-02-01T10:00:00Z'),
+    scheduledAt: null,
+    createdAt: new Date('2025-01-30T10:00:00Z'),
+  } as Meeting;
+
+  const storedDecision = (overrides: Partial<DecisionWithLinks> = {}): DecisionWithLinks =>
+    ({
+      id: 'decision-2',
+      meetingId: 'meeting-2',
+      description: 'Ship the feature behind a flag',
+      status: DecisionStatus.ACTIVE,
+      decidedAt: new Date('2025-02-01T10:05:00Z'),
+      meeting: { id: 'meeting-2', title: 'Launch sync', userId: 'user-123' },
+      links: [],
+      linkedFrom: [],
+      ...overrides,
+    }) as DecisionWithLinks;
+
+  const extracted = (overrides: Partial<MeetingDecision> = {}): MeetingDecision => ({
+    description: 'Ship the feature behind a flag',
+    participants: ['Alice', 'Bob'],
+    rationale: 'Lower rollout risk',
+    confidence: { value: 0.9, level: 'high' },
+    context: 'Let us ship it behind a flag',
+    relatedDecisions: [],
+    ...overrides,
+  });
+
+  const transcriptions = [
+    {
+      id: 'transcription-1',
+      text: 'Let us ship it behind a feature flag',
+      timestampStart: new Date('2025-02-01T10:12:00Z'),
+    },
+  ] as Transcription[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new DecisionService();
+    mockedMeetingRepository.findById.mockResolvedValue(meeting);
+    mockedDecisionRepository.findByMeetingId.mockResolvedValue([]);
+    mockedDecisionRepository.create.mockImplementation(
+      async (data) => ({ id: 'decision-new', ...data }) as Decision
+    );
+    mockedDecisionRepository.update.mockImplementation(
+      async (id, data) => ({ id, ...data }) as Decision
+    );
+  });
+
+  describe('getPriorDecisions', () => {
+    it("should offer the owner's active decisions from before the meeting", async () => {
+      mockedDecisionRepository.findActiveBefore.mockResolvedValue([]);
+
+      await service.getPriorDecisions('meeting-2');
+
+      expect(mockedDecisionRepository.findActiveBefore).toHaveBeenCalledWith(
+        'user-123',
+        meeting.startedAt,
+        { excludeMeetingId: 'meeting-2', take: 30 }
+      );
+    });
+  });
+
+  describe('syncFromSummary', () => {
+    it('should timestamp decisions with the segment they were made in', async () => {
+      await service.syncFromSummary('meeting-2', [extracted()], transcriptions);
+
+      expect(mockedDecisionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          meetingId: 'meeting-2',
+          participants: ['Alice', 'Bob'],
+          rationale: 'Lower rollout risk',
+          sourceTranscriptionId: 'transcription-1',
+          decidedAt: new Date('2025-02-01T10:12:00Z'),
+        })
+      );
+    });
+
+    it('should place recording offsets after the start of the meeting', async () => {
+      // Recall and uploaded transcripts store offsets from the recording start
+      const relative = [{ ...transcriptions[0], timestampStart: new Date(12 * 60 * 1000) }];
+
+      await service.syncFromSummary('meeting-2', [extracted()], relative);
+
+      expect(mockedDecisionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ decidedAt: new Date('2025-02-01T10:12:00Z') })
+      );
+    });
+
+    it('should fall back to the meeting time without a matching segment', async () => {
+      await service.syncFromSummary(
+        'meeting-2',
+        [extracted({ context: 'Nothing like the transcript' })],
+        transcriptions
+      );
+
+      expect(mockedDecisionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ sourceTranscriptionId: null, decidedAt: meeting.startedAt })
+      );
+    });
+
+    it('should mark superseded decisions and reactivate them when the new one goes away', async () => {
+      mockedDecisionRepository.findByMeetingId.mockResolvedValue([
+        storedDecision({ id: 'decision-stale', description: 'Postpone the launch' }),
+      ]);
+      mockedDecisionRepository.findSupersededBy.mockResolvedValue(['decision-0']);
+
+      await service.syncFromSummary(
+        'meeting-2',
+        [
+          extracted({
+            relatedDecisions: [{ decisionId: 'decision-1', relation: 'supersedes' }],
+          }),
+        ],
+        transcriptions
+      );
+
+      expect(mockedDecisionRepository.upsertLink).toHaveBeenCalledWith(
+        'decision-new',
+        'decision-1',
+        DecisionRelation.SUPERSEDES
+      );
+      expect(mockedDecisionRepository.update).toHaveBeenCalledWith('decision-1', {
+        status: DecisionStatus.SUPERSEDED,
+      });
+      expect(mockedDecisionRepository.deleteByIds).toHaveBeenCalledWith(['decision-stale']);
+      expect(mockedDecisionRepository.reactivateUnsuperseded).toHaveBeenCalledWith(['decision-0']);
+    });
+  });
+
+  describe('linkDecisions', () => {
+    it('should only link to earlier decisions', async () => {
+      mockedDecisionRepository.findByIdWithLinks
+        .mockResolvedValueOnce(storedDecision())
+        .mockResolvedValueOnce(
+          storedDecision({ id: 'decision-3', decidedAt: new Date('2025-03-01T10:00:00Z') })
+        );
+
+      await expect(
+        service.linkDecisions('decision-2', 'decision-3', DecisionRelation.REVISITS, 'user-123')
+      ).rejects.toThrow('Decisions can only be linked to earlier decisions');
+      expect(mockedDecisionRepository.upsertLink).not.toHaveBeenCalled();
+    });
+
+    it("should reject linking another user's decisions", async () => {
+      mockedDecisionRepository.findByIdWithLinks.mockResolvedValue(storedDecision());
+
+      await expect(
+        service.linkDecisions('decision-2', 'decision-1', DecisionRelation.REVISITS, 'user-456')
+      ).rejects.toThrow(AppError);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { SpeakerClusterer } from '../services/diarization/speaker-clusterer';
+import { localDiarizer } from '../services/diarization/diarizers/local.diarizer';
+import { readWav, voiceSignature } from '../services/diarization/audio-features';
+
+const SAMPLE_RATE = 16000;
+
+/**
+ * Mono 16-bit WAV of consecutive stretches of voiced sound
+ * Each voice is a pitch with harmonics shaped by one resonance, roughly like a vowel.
+ */
+function synthesize(voices: { pitch: number; resonance: number; seconds: number }[]): Buffer {
+  const samples: number[] = [];
+  for (const voice of voices) {
+    const count = Math.round(voice.seconds * SAMPLE_RATE);
+    for (let index = 0; index < count; index++) {
+      const time = index / SAMPLE_RATE;
+      let value = 0;
+      for (let harmonic = 1; harmonic * voice.pitch < 4000; harmonic++) {
+        const frequency = harmonic * voice.pitch;
+        const gain = 1 / (1 + ((frequency - voice.resonance) / 300) ** 2);
+        value += gain * Math.sin(2 * Math.PI * frequency * time);
+      }
+      samples.push(value);
+    }
+  }
+
+  const peak = Math.max(...samples.map(Math.abs));
+  const data = Buffer.alloc(samples.length * 2);
+  samples.forEach((value, index) =>
+    data.writeInt16LE(Math.round((value / peak) * 0.8 * 32767), index * 2)
+  );
+
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // Mono
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(data.length, 40);
+
+  return Buffer.concat([header, data]);
+}
+
+describe('SpeakerClusterer', () => {
+  it('should label speakers in order of first appearance', () => {
+    const clusterer = new SpeakerClusterer({ threshold: 0.9, maxSpeakers: 5 });
+
+    const labels = [
+      [1, 0, 0],
+      [0, 1, 0],
+      [0.98, 0.05, 0],
+      [0.02, 0.99, 0.01],
+    ].map((embedding) => clusterer.assign(embedding).speaker);
+
+    expect(labels).toEqual(['Speaker 1', 'Speaker 2', 'Speaker 1', 'Speaker 2']);
+  });
+
+  it('should be more confident of clear matches', () => {
+    const clusterer = new SpeakerClusterer({ threshold: 0.9, maxSpeakers: 5 });
+    clusterer.assign([1, 0]);
+    clusterer.assign([0, 1]);
+
+    const clear = clusterer.assign([1, 0.01]);
+    const borderline = clusterer.assign([1, 0.45]);
+
+    expect(clear.speaker).toBe('Speaker 1');
+    expect(borderline.speaker).toBe('Speaker 1');
+    expect(clear.confidence).toBeGreaterThan(0.9);
+    expect(borderline.confidence).toBeLessThan(clear.confidence);
+  });
+
+  it('should keep segments without an embedding with the speaker before them', () => {
+    const clusterer = new SpeakerClusterer({ threshold: 0.9, maxSpeakers: 5 });
+
+    expect(clusterer.assign(null)).toEqual({ speaker: 'Speaker 1', confidence: 0 });
+    // The first voice heard belongs to the speaker labelled without one
+    expect(clusterer.assign([1, 0]).speaker).toBe('Speaker 1');
+    expect(clusterer.assign([0, 1]).speaker).toBe('Speaker 2');
+    expect(clusterer.assign(null)).toEqual({ speaker: 'Speaker 2', confidence: 0 });
+  });
+
+  it('should not go past the maximum number of speakers', () => {
+    const clusterer = new SpeakerClusterer({ threshold: 0.99, maxSpeakers: 2 });
+    clusterer.assign([1, 0, 0]);
+    clusterer.assign([0, 1, 0]);
+
+    expect(clusterer.assign([0.1, 0.2, 1]).speaker).toBe('Speaker 2');
+  });
+});
+
+describe('LocalDiarizer', () => {
+  const low = { pitch: 110, resonance: 500, seconds: 1 };
+  const high = { pitch: 220, resonance: 2200, seconds: 1 };
+
+  it('should read 16-bit PCM WAV audio', () => {
+    const audio = readWav(synthesize([{ ...low, seconds: 0.5 }]));
+
+    expect(audio.sampleRate).toBe(SAMPLE_RATE);
+    expect(audio.samples).toHaveLength(8000);
+  });
+
+  it('should have no signature for silence', () => {
+    const audio = { samples: new Float32Array(SAMPLE_RATE), sampleRate: SAMPLE_RATE };
+
+    expect(voiceSignature(audio, 0, 0.1)).toBeNull();
+  });
+
+  it('should tell two voices apart across chunks', async () => {
+    const session = localDiarizer.createSession();
+    const segments = [
+      { text: 'Hi', startTime: 0, endTime: 1, confidence: 0.9 },
+      { text: 'Hello', startTime: 1, endTime: 2, confidence: 0.9 },
+    ];
+
+    const first = await session.assign(
+      {
+        chunkId: 'c-0',
+        meetingId: 'm-1',
+        timestamp: 0,
+        duration: 2,
+        audioData: synthesize([low, high]),
+      },
+      segments
+    );
+    const second = await session.assign(
+      {
+        chunkId: 'c-1',
+        meetingId: 'm-1',
+        timestamp: 2,
+        duration: 2,
+        audioData: synthesize([high, low]),
+      },
+      segments
+    );
+
+    expect(first.map((assignment) => assignment.speaker)).toEqual(['Speaker 1', 'Speaker 2']);
+    expect(second.map((assignment) => assignment.speaker)).toEqual(['Speaker 2', 'Speaker 1']);
+    expect(second.every((assignment) => assignment.confidence > 0.5)).toBe(true);
+  });
+});
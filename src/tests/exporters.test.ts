@@ -0,0 +1,178 @@
+import { Transcription } from '@prisma/client';
+import { jsonExporter } from '../services/export/exporters/json.exporter';
+import { csvExporter } from '../services/export/exporters/csv.exporter';
+import { markdownExporter } from '../services/export/exporters/markdown.exporter';
+import { textExporter } from '../services/export/exporters/text.exporter';
+import { srtExporter, vttExporter } from '../services/export/exporters/subtitle.exporter';
+import { escapeCsv, escapeMarkdown } from '../services/export/export-format';
+import {
+  ExportContext,
+  ExportSection,
+  MeetingExporter,
+} from '../services/export/types/export.types';
+import { MeetingWithRelations } from '../types/meeting.types';
+import { SubtitleUtil } from '../utils/subtitle.util';
+
+jest.mock('../repositories', () => ({
+  transcriptionRepository: {
+    count: jest.fn(),
+  },
+}));
+
+describe('Meeting exporters', () => {
+  const transcriptions = [
+    {
+      id: 't-1',
+      speakerName: 'Alice',
+      text: '=HYPERLINK("http://evil.example") is *not* a formula',
+      timestampStart: new Date(2000),
+      timestampEnd: new Date(4000),
+      confidence: null,
+    },
+    {
+      id: 't-2',
+      speakerName: 'Bob',
+      text: '- sounds good, "quoted"',
+      timestampStart: new Date(65000),
+      timestampEnd: null,
+      confidence: null,
+    },
+  ] as Transcription[];
+
+  const meeting = {
+    id: 'meeting-1',
+    userId: 'user-123',
+    title: 'Launch [draft] #2',
+    description: 'Line one\nline two',
+    platform: 'zoom',
+    status: 'completed',
+    scheduledAt: new Date('2026-10-19T09:00:00Z'),
+    startedAt: null,
+    createdAt: new Date('2026-10-01T09:00:00Z'),
+    analysisResults: [{ analysisType: 'meeting_summary', summary: 'Ship it_now' }],
+    actionItems: [
+      {
+        description: 'Write *docs*',
+        owner: 'Alice',
+        dueDate: null,
+        priority: 'high',
+        status: 'open',
+      },
+    ],
+    decisions: [{ description: 'Launch on Monday', rationale: null }],
+  } as unknown as MeetingWithRelations;
+
+  const context = (sections: ExportSection[] = Object.values(ExportSection)): ExportContext => ({
+    meeting,
+    sections,
+    options: {},
+    transcriptions: async function* () {
+      yield* transcriptions;
+    },
+  });
+
+  const collect = async (exporter: MeetingExporter, exportContext: ExportContext) => {
+    let output = '';
+    for await (const chunk of exporter.export(exportContext)) {
+      output += chunk.toString();
+    }
+    return output;
+  };
+
+  describe('escaping', () => {
+    it('should defuse spreadsheet formulas and quote CSV fields', () => {
+      expect(escapeCsv('=SUM(A1:A2)')).toBe(`"'=SUM(A1:A2)"`);
+      expect(escapeCsv('@cmd')).toBe(`"'@cmd"`);
+      expect(escapeCsv('say "hi"')).toBe('"say ""hi"""');
+      expect(escapeCsv(null)).toBe('""');
+    });
+
+    it('should escape Markdown syntax and keep text on one line', () => {
+      expect(escapeMarkdown('# [link](x) *bold* _it_ `code`')).toBe(
+        '\\# \\[link\\](x) \\*bold\\* \\_it\\_ \\`code\\`'
+      );
+      expect(escapeMarkdown('- item\nnext')).toBe('\\- item next');
+      expect(escapeMarkdown('1. first')).toBe('1\\. first');
+    });
+  });
+
+  describe('json', () => {
+    it('should stream the meeting with its transcriptions as one document', async () => {
+      const parsed = JSON.parse(await collect(jsonExporter, context()));
+
+      expect(parsed.id).toBe('meeting-1');
+      expect(parsed.title).toBe('Launch [draft] #2');
+      expect(parsed.actionItems).toHaveLength(1);
+      expect(parsed.transcriptions.map((t: Transcription) => t.id)).toEqual(['t-1', 't-2']);
+    });
+
+    it('should leave out sections that were not picked', async () => {
+      const parsed = JSON.parse(await collect(jsonExporter, context([ExportSection.ANALYSIS])));
+
+      expect(parsed).toEqual({
+        id: 'meeting-1',
+        analysisResults: meeting.analysisResults,
+        actionItems: meeting.actionItems,
+        decisions: meeting.decisions,
+      });
+    });
+  });
+
+  describe('csv', () => {
+    it('should write one escaped row per segment with timeline timestamps', async () => {
+      const csv = await collect(csvExporter, context());
+
+      expect(csv.split('\n')).toEqual([
+        'Timestamp,Speaker,Text,Confidence',
+        `"00:00:02","Alice","'=HYPERLINK(""http://evil.example"") is *not* a formula",""`,
+        `"00:01:05","Bob","'- sounds good, ""quoted""",""`,
+        '',
+      ]);
+    });
+  });
+
+  describe('md', () => {
+    it('should escape meeting content', async () => {
+      const md = await collect(markdownExporter, context());
+
+      expect(md).toContain('# Launch \\[draft\\] \\#2\n');
+      expect(md).toContain('**Description:** Line one line two');
+      expect(md).toContain('**[00:01:05] Bob:** \\- sounds good');
+      expect(md).toContain('- [ ] Write \\*docs\\* (owner: Alice, priority: high)');
+      expect(md).toContain('## Decisions');
+      expect(md).toContain('Ship it\\_now');
+    });
+
+    it('should only write the sections picked', async () => {
+      const md = await collect(markdownExporter, context([ExportSection.TRANSCRIPT]));
+
+      expect(md).toContain('## Transcriptions');
+      expect(md).not.toContain('**Status:**');
+      expect(md).not.toContain('## Analysis Results');
+    });
+  });
+
+  describe('txt', () => {
+    it('should write metadata, transcript and analysis', async () => {
+      const text = await collect(textExporter, context());
+
+      expect(text).toContain('Title: Launch [draft] #2\n');
+      expect(text).toContain('[00:00:02] Alice: =HYPERLINK');
+      expect(text).toContain('Summary: Ship it_now');
+      expect(text).toContain('- [open] Write *docs* (Alice)');
+    });
+  });
+
+  describe('subtitles', () => {
+    it('should stream the same captions as rendering all segments at once', async () => {
+      const segments = SubtitleUtil.fromTranscriptions(meeting, transcriptions);
+
+      await expect(collect(srtExporter, context())).resolves.toBe(
+        SubtitleUtil.toSrt(SubtitleUtil.buildCues(segments, { labelSpeakers: true }))
+      );
+      await expect(collect(vttExporter, context())).resolves.toBe(
+        SubtitleUtil.toWebVtt(SubtitleUtil.buildCues(segments))
+      );
+    });
+  });
+});
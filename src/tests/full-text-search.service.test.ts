@@ -0,0 +1,81 @@
+import { Role } from '@prisma/client';
+import { FullTextSearchService } from '../services/full-text-search.service';
+import { searchRepository } from '../repositories';
+import { AppError } from '../middlewares/error-handler';
+
+jest.mock('../repositories', () => ({
+  searchRepository: {
+    search: jest.fn(),
+    count: jest.fn(),
+  },
+}));
+jest.mock('../utils/logger');
+
+const mockedSearchRepository = searchRepository as jest.Mocked<typeof searchRepository>;
+
+describe('FullTextSearchService', () => {
+  let service: FullTextSearchService;
+
+  const user = { id: 'user-123', role: Role.USER };
+  const admin = { id: 'admin-1', role: Role.ADMIN };
+
+  const row = {
+    kind: 'transcript' as const,
+    id: 'transcription-1',
+    meetingId: 'meeting-1',
+    meetingTitle: 'Pricing sync',
+    platform: 'zoom',
+    meetingDate: new Date('2025-01-01T10:00:00Z'),
+    speakerName: 'Alice',
+    timestampStart: null,
+    analysisType: null,
+    headline: 'Update the \u0002pricing\u0003 <b>page</b> & FAQ',
+    rank: 0.6,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new FullTextSearchService();
+    mockedSearchRepository.search.mockResolvedValue([row]);
+    mockedSearchRepository.count.mockResolvedValue(1);
+  });
+
+  it('should scope regular users to their own meetings', async () => {
+    await service.search(user, 'pricing', { platform: 'zoom', skip: 20, take: 10 });
+
+    const [query, filters, options] = mockedSearchRepository.search.mock.calls[0];
+    expect(query).toBe('pricing');
+    expect(filters).toMatchObject({
+      userId: 'user-123',
+      kinds: ['meeting', 'transcript', 'analysis'],
+      platform: 'zoom',
+    });
+    expect(options).toMatchObject({ skip: 20, take: 10 });
+    expect(mockedSearchRepository.count).toHaveBeenCalledWith('pricing', filters);
+  });
+
+  it("should reject regular users searching another user's meetings", async () => {
+    await expect(service.search(user, 'pricing', { userId: 'user-456' })).rejects.toThrow(
+      AppError
+    );
+    expect(mockedSearchRepository.search).not.toHaveBeenCalled();
+  });
+
+  it('should let admins search every user or a given one', async () => {
+    await service.search(admin, 'pricing');
+    await service.search(admin, 'pricing', { userId: 'user-456' });
+
+    expect(mockedSearchRepository.search.mock.calls[0][1].userId).toBeUndefined();
+    expect(mockedSearchRepository.search.mock.calls[1][1].userId).toBe('user-456');
+  });
+
+  it('should escape snippets and highlight matches', async () => {
+    const result = await service.search(user, 'pricing', { kinds: ['transcript'] });
+
+    expect(result.total).toBe(1);
+    expect(result.results[0]).not.toHaveProperty('headline');
+    expect(result.results[0].snippet).toBe(
+      'Update the <mark>pricing</mark> &lt;b&gt;page&lt;/b&gt; &amp; FAQ'
+    );
+  });
+});
@@ -0,0 +1,117 @@
+import { ICalParseError, ICalUtil } from '../utils/ical';
+
+const calendar = (...lines: string[]): string =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', 'X-WR-CALNAME:Team', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+describe('ICalUtil', () => {
+  describe('parse', () => {
+    it('should read events with folded lines and escaped text', () => {
+      const result = ICalUtil.parse(
+        calendar(
+          'BEGIN:VEVENT',
+          'UID:event-1@example.com',
+          'SUMMARY:Planning\\, Q4',
+          'DESCRIPTION:Join: https://zoom.us/j/123\\nAgenda',
+          '  attached',
+          'DTSTART:20261020T090000Z',
+          'DURATION:PT45M',
+          'BEGIN:VALARM',
+          'TRIGGER:-PT10M',
+          'DESCRIPTION:Reminder',
+          'END:VALARM',
+          'END:VEVENT'
+        )
+      );
+
+      expect(result.name).toBe('Team');
+      expect(result.events).toHaveLength(1);
+      expect(result.events[0]).toEqual(
+        expect.objectContaining({
+          uid: 'event-1@example.com',
+          summary: 'Planning, Q4',
+          description: 'Join: https://zoom.us/j/123\nAgenda attached',
+          start: new Date('2026-10-20T09:00:00Z'),
+          end: new Date('2026-10-20T09:45:00Z'),
+          allDay: false,
+        })
+      );
+    });
+
+    it('should convert times in IANA and VTIMEZONE-only time zones', () => {
+      const result = ICalUtil.parse(
+        calendar(
+          'BEGIN:VTIMEZONE',
+          'TZID:W. Europe Standard Time',
+          'BEGIN:STANDARD',
+          'DTSTART:16010101T030000',
+          'TZOFFSETFROM:+0200',
+          'TZOFFSETTO:+0100',
+          'END:STANDARD',
+          'END:VTIMEZONE',
+          'BEGIN:VEVENT',
+          'UID:berlin',
+          'DTSTART;TZID=Europe/Berlin:20261020T090000',
+          'END:VEVENT',
+          'BEGIN:VEVENT',
+          'UID:outlook',
+          'DTSTART;TZID="W. Europe Standard Time":20261110T090000',
+          'END:VEVENT'
+        )
+      );
+
+      expect(result.events.map((event) => event.start)).toEqual([
+        new Date('2026-10-20T07:00:00Z'),
+        new Date('2026-11-10T08:00:00Z'),
+      ]);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should skip events without UID with a warning', () => {
+      const result = ICalUtil.parse(
+        calendar('BEGIN:VEVENT', 'SUMMARY:Orphan', 'DTSTART:20261020T090000Z', 'END:VEVENT')
+      );
+
+      expect(result.events).toEqual([]);
+      expect(result.warnings).toEqual(['Skipped event "Orphan" without UID']);
+    });
+
+    it('should reject content that is not a calendar', () => {
+      expect(() => ICalUtil.parse('hello')).toThrow(ICalParseError);
+    });
+  });
+
+  describe('expand', () => {
+    it('should keep the local time across DST changes and drop EXDATEs', () => {
+      const [event] = ICalUtil.parse(
+        calendar(
+          'BEGIN:VEVENT',
+          'UID:weekly',
+          'DTSTART;TZID=Europe/Berlin:20261019T090000',
+          'RRULE:FREQ=WEEKLY;BYDAY=MO',
+          'EXDATE;TZID=Europe/Berlin:20261102T090000',
+          'END:VEVENT'
+        )
+      ).events;
+
+      const starts = ICalUtil.expand(
+        event,
+        new Date('2026-10-01T00:00:00Z'),
+        new Date('2026-11-10T00:00:00Z')
+      );
+
+      expect(starts).toEqual([
+        new Date('2026-10-19T07:00:00Z'),
+        new Date('2026-10-26T08:00:00Z'),
+        new Date('2026-11-09T08:00:00Z'),
+      ]);
+    });
+  });
+
+  describe('extractUrls', () => {
+    it('should strip trailing punctuation and brackets', () => {
+      expect(
+        ICalUtil.extractUrls('Teams: <https://teams.microsoft.com/l/meetup-join/abc>. Notes: x')
+      ).toEqual(['https://teams.microsoft.com/l/meetup-join/abc']);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { MeetingChatService } from '../services/ai/meeting-chat.service';
+import { aiService } from '../services/ai/ai.service';
+import { AIMessageRole, AIProvider } from '../services/ai/types/ai.types';
+import { transcriptionRepository, analysisResultRepository } from '../repositories';
+
+jest.mock('../services/ai/ai.service', () => ({
+  aiService: {
+    chat: jest.fn(),
+    streamChat: jest.fn(),
+    getCurrentProvider: jest.fn(() => 'gemini'),
+  },
+}));
+jest.mock('../repositories', () => ({
+  transcriptionRepository: { searchForUser: jest.fn() },
+  analysisResultRepository: { searchSummariesForUser: jest.fn() },
+}));
+jest.mock('../utils/logger');
+
+const mockedAIService = aiService as jest.Mocked<typeof aiService>;
+const mockedTranscriptionRepository = transcriptionRepository as jest.Mocked<
+  typeof transcriptionRepository
+>;
+const mockedAnalysisResultRepository = analysisResultRepository as jest.Mocked<
+  typeof analysisResultRepository
+>;
+
+describe('MeetingChatService', () => {
+  let service: MeetingChatService;
+
+  const mockUserId = 'user-123';
+  const meeting = { id: 'meeting-1', title: 'Pricing sync' };
+
+  const segments = [
+    {
+      id: 'transcription-1',
+      meetingId: meeting.id,
+      meeting,
+      speakerName: 'Alice',
+      text: 'We agreed to raise the pricing for the pro plan next quarter.',
+      timestampStart: new Date('2025-01-01T10:00:00Z'),
+    },
+    {
+      id: 'transcription-2',
+      meetingId: meeting.id,
+      meeting,
+      speakerName: 'Bob',
+      text: 'Lunch was great today.',
+      timestampStart: new Date('2025-01-01T10:01:00Z'),
+    },
+  ];
+
+  const summaries = [
+    {
+      id: 'analysis-1',
+      meetingId: meeting.id,
+      meeting,
+      summary: 'The team discussed pricing changes for the pro plan.',
+    },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new MeetingChatService();
+    mockedTranscriptionRepository.searchForUser.mockResolvedValue(segments as any);
+    mockedAnalysisResultRepository.searchSummariesForUser.mockResolvedValue(summaries as any);
+  });
+
+  describe('retrieveSources', () => {
+    it('should rank matching passages and number them for citation', async () => {
+      const sources = await service.retrieveSources(mockUserId, {
+        question: 'What did we decide about pricing for the pro plan?',
+      });
+
+      expect(mockedTranscriptionRepository.searchForUser).toHaveBeenCalledWith(
+        mockUserId,
+        ['decide', 'pricing', 'pro', 'plan'],
+        expect.objectContaining({ meetingIds: undefined })
+      );
+      // Unrelated segments are dropped
+      expect(sources).toHaveLength(2);
+      expect(sources.map((source) => source.index)).toEqual([1, 2]);
+      expect(sources.map((source) => source.kind).sort()).toEqual(['summary', 'transcript']);
+    });
+
+    it('should respect maxSources', async () => {
+      const sources = await service.retrieveSources(mockUserId, {
+        question: 'pricing plan',
+        maxSources: 1,
+      });
+
+      expect(sources).toHaveLength(1);
+    });
+  });
+
+  describe('ask', () => {
+    it('should answer with the sources it cited', async () => {
+      mockedAIService.chat.mockResolvedValue({
+        content: 'The pro plan price goes up next quarter [2].',
+        provider: AIProvider.GEMINI,
+        model: 'gemini-pro',
+        usage: { promptTokens: 100, completionTokens: 20, totalTokens: 120 },
+      } as any);
+
+      const answer = await service.ask(mockUserId, {
+        question: 'What happens to pro plan pricing?',
+        history: [{ role: 'user', content: 'Hi' }, { role: 'assistant', content: 'Hello!' }],
+      });
+
+      const request = mockedAIService.chat.mock.calls[0][0];
+      expect(request.messages[0].role).toBe(AIMessageRole.SYSTEM);
+      expect(request.messages[0].content).toContain('[1]');
+      expect(request.messages.map((message) => message.role)).toEqual([
+        AIMessageRole.SYSTEM,
+        AIMessageRole.USER,
+        AIMessageRole.ASSISTANT,
+        AIMessageRole.USER,
+      ]);
+
+      expect(answer.sources).toHaveLength(2);
+      expect(answer.citations).toHaveLength(1);
+      expect(answer.citations[0].index).toBe(2);
+      expect(answer.citations[0]).not.toHaveProperty('score');
+      expect(answer.usage?.totalTokens).toBe(120);
+    });
+
+    it('should not call the model when nothing relevant is found', async () => {
+      mockedTranscriptionRepository.searchForUser.mockResolvedValue([]);
+      mockedAnalysisResultRepository.searchSummariesForUser.mockResolvedValue([]);
+
+      const answer = await service.ask(mockUserId, { question: 'Who owns the roadmap?' });
+
+      expect(mockedAIService.chat).not.toHaveBeenCalled();
+      expect(answer.citations).toEqual([]);
+      expect(answer.answer).toMatch(/couldn't find/);
+    });
+  });
+
+  describe('streamAnswer', () => {
+    it('should emit sources before streaming chunks', async () => {
+      mockedAIService.streamChat.mockImplementation(async (_request, onChunk) => {
+        onChunk({ content: 'Prices rise ', provider: AIProvider.GEMINI, isComplete: false });
+        onChunk({ content: 'next quarter [1].', provider: AIProvider.GEMINI, isComplete: true });
+      });
+
+      const events: string[] = [];
+      const answer = await service.streamAnswer(
+        mockUserId,
+        { question: 'pro plan pricing' },
+        {
+          onSources: () => events.push('sources'),
+          onChunk: () => events.push('chunk'),
+        }
+      );
+
+      expect(events).toEqual(['sources', 'chunk', 'chunk']);
+      expect(answer.answer).toBe('Prices rise next quarter [1].');
+      expect(answer.citations.map((citation) => citation.index)).toEqual([1]);
+    });
+  });
+});
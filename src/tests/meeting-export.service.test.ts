@@ -0,0 +1,171 @@
+import { Readable } from 'stream';
+import { meetingExportService } from '../services/export/meeting-export.service';
+import { exporterRegistry } from '../services/export/exporter.registry';
+import { ExportSection, MeetingExporter } from '../services/export/types/export.types';
+import { meetingRepository, transcriptionRepository } from '../repositories';
+import { AppError } from '../middlewares/error-handler';
+
+jest.mock('../repositories', () => ({
+  meetingRepository: {
+    findByIdForExport: jest.fn(),
+    findAll: jest.fn(),
+  },
+  transcriptionRepository: {
+    findByMeetingId: jest.fn(),
+    count: jest.fn(),
+  },
+}));
+
+describe('MeetingExportService', () => {
+  const userId = 'user-123';
+  const meeting = {
+    id: 'meeting-1',
+    userId,
+    title: 'Weekly Sync',
+    status: 'completed',
+    createdAt: new Date('2026-10-01T09:00:00Z'),
+    analysisResults: [],
+    actionItems: [],
+    decisions: [],
+  };
+
+  const readAll = async (stream: Readable): Promise<Buffer> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getExporter', () => {
+    it('should default to JSON and know every built-in format', () => {
+      expect(meetingExportService.getExporter().format).toBe('json');
+      expect(exporterRegistry.getFormats()).toEqual(
+        expect.arrayContaining(['json', 'txt', 'csv', 'md', 'ics', 'srt', 'vtt', 'pdf', 'docx'])
+      );
+    });
+
+    it('should reject unknown formats with a 400', () => {
+      expect(() => meetingExportService.getExporter('xls')).toThrow(
+        /Unsupported export format: xls\. Use one of json, txt, csv/
+      );
+    });
+  });
+
+  describe('exportMeeting', () => {
+    it('should throw 404 for a missing meeting and 403 for another user', async () => {
+      const exporter = meetingExportService.getExporter('json');
+
+      (meetingRepository.findByIdForExport as jest.Mock).mockResolvedValueOnce(null);
+      await expect(
+        meetingExportService.exportMeeting('missing', userId, exporter)
+      ).rejects.toMatchObject({ statusCode: 404 });
+
+      (meetingRepository.findByIdForExport as jest.Mock).mockResolvedValueOnce(meeting);
+      await expect(
+        meetingExportService.exportMeeting(meeting.id, 'other-user', exporter)
+      ).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('should page through transcriptions while streaming', async () => {
+      const segments = Array.from({ length: 501 }, (_, index) => ({
+        id: `t-${index}`,
+        meetingId: meeting.id,
+        speakerName: 'Alice',
+        text: `Segment ${index}`,
+        timestampStart: new Date(index * 1000),
+        timestampEnd: null,
+        confidence: null,
+      }));
+      (meetingRepository.findByIdForExport as jest.Mock).mockResolvedValue(meeting);
+      (transcriptionRepository.findByMeetingId as jest.Mock).mockImplementation(
+        async (_meetingId: string, { skip, take }: { skip: number; take: number }) =>
+          segments.slice(skip, skip + take)
+      );
+
+      const stream = await meetingExportService.exportMeeting(
+        meeting.id,
+        userId,
+        meetingExportService.getExporter('csv')
+      );
+      const lines = (await readAll(stream)).toString().trim().split('\n');
+
+      expect(lines).toHaveLength(502);
+      expect(transcriptionRepository.findByMeetingId).toHaveBeenCalledTimes(2);
+      expect(transcriptionRepository.findByMeetingId).toHaveBeenLastCalledWith(
+        meeting.id,
+        expect.objectContaining({ skip: 500, take: 500 })
+      );
+    });
+
+    it('should not read transcriptions when the transcript is left out', async () => {
+      (meetingRepository.findByIdForExport as jest.Mock).mockResolvedValue(meeting);
+
+      const stream = await meetingExportService.exportMeeting(
+        meeting.id,
+        userId,
+        meetingExportService.getExporter('json'),
+        { sections: [ExportSection.METADATA] }
+      );
+      const parsed = JSON.parse((await readAll(stream)).toString());
+
+      expect(parsed.title).toBe('Weekly Sync');
+      expect(parsed.transcriptions).toBeUndefined();
+      expect(transcriptionRepository.findByMeetingId).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exportMeetings', () => {
+    const exporter: MeetingExporter = {
+      format: 'txt',
+      contentType: 'text/plain',
+      extension: 'txt',
+      async *export(context) {
+        yield `${context.meeting.title}\n`;
+      },
+    };
+
+    it('should write one archive entry per meeting', async () => {
+      (meetingRepository.findAll as jest.Mock).mockResolvedValue([meeting]);
+      (meetingRepository.findByIdForExport as jest.Mock).mockResolvedValue(meeting);
+
+      const archive = await meetingExportService.exportMeetings([meeting.id], userId, exporter);
+      const zip = await readAll(archive);
+
+      expect(zip.subarray(0, 2).toString()).toBe('PK');
+      expect(zip.toString('latin1')).toContain('Weekly-Sync-meeting-1.txt');
+      expect(meetingRepository.findAll).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: { in: [meeting.id] }, userId } })
+      );
+    });
+
+    it('should throw 404 listing meetings the user does not own', async () => {
+      (meetingRepository.findAll as jest.Mock).mockResolvedValue([meeting]);
+
+      await expect(
+        meetingExportService.exportMeetings([meeting.id, 'meeting-2'], userId, exporter)
+      ).rejects.toMatchObject({ statusCode: 404, message: 'Meetings not found: meeting-2' });
+    });
+
+    it('should name the meeting an exporter cannot handle', async () => {
+      (meetingRepository.findAll as jest.Mock).mockResolvedValue([meeting]);
+      const failing: MeetingExporter = {
+        ...exporter,
+        prepare: async () => {
+          throw new AppError('No timed transcriptions to export', 404);
+        },
+      };
+
+      await expect(
+        meetingExportService.exportMeetings([meeting.id], userId, failing)
+      ).rejects.toMatchObject({
+        statusCode: 404,
+        message: 'Weekly Sync: No timed transcriptions to export',
+      });
+    });
+  });
+});
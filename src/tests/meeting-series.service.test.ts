@@ -0,0 +1,215 @@
+import { Meeting, MeetingSeries } from '@prisma/client';
+import { MeetingSeriesService } from '../services/meeting-series.service';
+import {
+  actionItemRepository,
+  meetingRepository,
+  meetingSeriesRepository,
+} from '../repositories';
+import { seriesDigestService } from '../services/ai/series-digest.service';
+import { AppError } from '../middlewares/error-handler';
+
+jest.mock('../repositories', () => ({
+  meetingRepository: {
+    findById: jest.fn(),
+    update: jest.fn(),
+    exists: jest.fn(),
+    findBySeriesId: jest.fn(),
+    createSeriesOccurrences: jest.fn(),
+    deleteUntouchedSeriesOccurrences: jest.fn(),
+  },
+  meetingSeriesRepository: {
+    create: jest.fn(),
+    update: jest.fn(),
+    findById: jest.fn(),
+    findNeedingOccurrences: jest.fn(),
+  },
+  actionItemRepository: {
+    findUnfinishedForMeetings: jest.fn(),
+  },
+}));
+jest.mock('../services/ai/series-digest.service', () => ({
+  seriesDigestService: {
+    getLatestDigest: jest.fn(),
+  },
+}));
+jest.mock('../utils/logger');
+
+const mockedMeetingRepository = meetingRepository as jest.Mocked<typeof meetingRepository>;
+const mockedSeriesRepository = meetingSeriesRepository as jest.Mocked<
+  typeof meetingSeriesRepository
+>;
+const mockedActionItemRepository = actionItemRepository as jest.Mocked<
+  typeof actionItemRepository
+>;
+const mockedDigestService = seriesDigestService as jest.Mocked<typeof seriesDigestService>;
+
+describe('MeetingSeriesService', () => {
+  let service: MeetingSeriesService;
+
+  const now = new Date('2026-10-19T08:00:00Z'); // Monday
+
+  const series = (overrides: Partial<MeetingSeries> = {}): MeetingSeries =>
+    ({
+      id: 'series-1',
+      userId: 'user-123',
+      title: 'Team sync',
+      description: null,
+      meetingUrl: 'https://zoom.us/j/123',
+      platform: 'zoom',
+      recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO,WE',
+      startsAt: new Date('2026-10-05T09:00:00Z'),
+      durationMinutes: 30,
+      active: true,
+      materializedTo: null,
+      ...overrides,
+    }) as MeetingSeries;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(now);
+    service = new MeetingSeriesService();
+    mockedMeetingRepository.createSeriesOccurrences.mockImplementation(async (data) => ({
+      count: data.length,
+    }));
+    mockedSeriesRepository.update.mockImplementation(
+      async (id, data) => ({ ...series(), id, ...data }) as MeetingSeries
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('createSeries', () => {
+    it('should create occurrences for the next 7 days', async () => {
+      mockedSeriesRepository.create.mockResolvedValue(series());
+      mockedSeriesRepository.findById.mockResolvedValue(series());
+
+      await service.createSeries({
+        userId: 'user-123',
+        title: 'Team sync',
+        recurrenceRule: 'RRULE:FREQ=WEEKLY;BYDAY=MO,WE',
+        startsAt: new Date('2026-10-05T09:00:00Z'),
+      });
+
+      expect(mockedSeriesRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO,WE' })
+      );
+      const occurrences = mockedMeetingRepository.createSeriesOccurrences.mock.calls[0][0];
+      expect(occurrences.map((occurrence) => occurrence.occurrenceAt)).toEqual([
+        new Date('2026-10-19T09:00:00Z'),
+        new Date('2026-10-21T09:00:00Z'),
+      ]);
+      expect(occurrences[0]).toEqual(
+        expect.objectContaining({
+          userId: 'user-123',
+          seriesId: 'series-1',
+          meetingUrl: 'https://zoom.us/j/123',
+          scheduledAt: new Date('2026-10-19T09:00:00Z'),
+        })
+      );
+      expect(mockedSeriesRepository.update).toHaveBeenCalledWith('series-1', {
+        materializedTo: new Date('2026-10-26T08:00:00Z'),
+      });
+    });
+
+    it('should reject invalid recurrence rules', async () => {
+      await expect(
+        service.createSeries({
+          userId: 'user-123',
+          title: 'Team sync',
+          recurrenceRule: 'FREQ=HOURLY',
+          startsAt: now,
+        })
+      ).rejects.toThrow(AppError);
+      expect(mockedSeriesRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('materializeUpcomingOccurrences', () => {
+    it('should only add occurrences after what was already created', async () => {
+      mockedSeriesRepository.findNeedingOccurrences.mockResolvedValue([
+        series({ materializedTo: new Date('2026-10-20T08:00:00Z') }),
+      ]);
+
+      const created = await service.materializeUpcomingOccurrences();
+
+      expect(created).toBe(1);
+      expect(mockedMeetingRepository.createSeriesOccurrences).toHaveBeenCalledWith([
+        expect.objectContaining({ occurrenceAt: new Date('2026-10-21T09:00:00Z') }),
+      ]);
+    });
+  });
+
+  describe('updateSeries', () => {
+    it('should replace untouched upcoming occurrences when the schedule changes', async () => {
+      mockedSeriesRepository.findById.mockResolvedValue(series());
+      mockedMeetingRepository.deleteUntouchedSeriesOccurrences.mockResolvedValue({ count: 2 });
+
+      await service.updateSeries('series-1', 'user-123', { recurrenceRule: 'FREQ=DAILY' });
+
+      expect(mockedMeetingRepository.deleteUntouchedSeriesOccurrences).toHaveBeenCalledWith(
+        'series-1',
+        now
+      );
+      expect(mockedSeriesRepository.update).toHaveBeenCalledWith('series-1', {
+        recurrenceRule: 'FREQ=DAILY',
+        materializedTo: null,
+      });
+      expect(mockedMeetingRepository.createSeriesOccurrences.mock.calls[0][0]).toHaveLength(7);
+    });
+
+    it('should keep occurrences when only the duration changes', async () => {
+      mockedSeriesRepository.findById.mockResolvedValue(series());
+
+      await service.updateSeries('series-1', 'user-123', { durationMinutes: 45 });
+
+      expect(mockedMeetingRepository.deleteUntouchedSeriesOccurrences).not.toHaveBeenCalled();
+      expect(mockedMeetingRepository.createSeriesOccurrences).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSeriesView', () => {
+    it('should carry over unfinished action items and survive digest failures', async () => {
+      const past = [{ id: 'meeting-2' }, { id: 'meeting-1' }] as Meeting[];
+      mockedSeriesRepository.findById.mockResolvedValue(series());
+      mockedMeetingRepository.findBySeriesId.mockResolvedValueOnce(past).mockResolvedValueOnce([]);
+      mockedActionItemRepository.findUnfinishedForMeetings.mockResolvedValue([]);
+      mockedDigestService.getLatestDigest.mockRejectedValue(new Error('No AI provider'));
+
+      const view = await service.getSeriesView('series-1', 'user-123');
+
+      expect(mockedActionItemRepository.findUnfinishedForMeetings).toHaveBeenCalledWith([
+        'meeting-2',
+        'meeting-1',
+      ]);
+      expect(view.pastOccurrences).toBe(past);
+      expect(view.digest).toBeNull();
+    });
+
+    it("should reject another user's series", async () => {
+      mockedSeriesRepository.findById.mockResolvedValue(series());
+
+      await expect(service.getSeriesView('series-1', 'user-456')).rejects.toThrow(
+        'Unauthorized access to meeting series'
+      );
+    });
+  });
+
+  describe('attachMeeting', () => {
+    it('should reject a meeting in a slot that is already taken', async () => {
+      mockedSeriesRepository.findById.mockResolvedValue(series());
+      mockedMeetingRepository.findById.mockResolvedValue({
+        id: 'meeting-9',
+        userId: 'user-123',
+        scheduledAt: new Date('2026-10-19T09:00:00Z'),
+      } as Meeting);
+      mockedMeetingRepository.exists.mockResolvedValue(true);
+
+      await expect(service.attachMeeting('series-1', 'meeting-9', 'user-123')).rejects.toThrow(
+        'The series already has a meeting at this time'
+      );
+      expect(mockedMeetingRepository.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import dns from 'dns';
+import { BlockedAddressError, NetworkUtil } from '../utils/network.util';
+
+describe('NetworkUtil', () => {
+  describe('isPublicAddress', () => {
+    it('should reject loopback, private, link-local and metadata addresses', () => {
+      const internal = [
+        '127.0.0.1',
+        '10.1.2.3',
+        '172.20.0.1',
+        '192.168.1.10',
+        '169.254.169.254',
+        '100.64.0.1',
+        '0.0.0.0',
+        '::1',
+        'fd00:ec2::254',
+        'fe80::1',
+        '::ffff:127.0.0.1',
+        'not an address',
+      ];
+
+      for (const address of internal) {
+        expect(NetworkUtil.isPublicAddress(address)).toBe(false);
+      }
+    });
+
+    it('should accept public addresses', () => {
+      expect(NetworkUtil.isPublicAddress('93.184.216.34')).toBe(true);
+      expect(NetworkUtil.isPublicAddress('2606:2800:220:1:248:1893:25c8:1946')).toBe(true);
+    });
+  });
+
+  describe('assertPublicUrl', () => {
+    it('should reject other protocols and internal IP literals', () => {
+      expect(() => NetworkUtil.assertPublicUrl('file:///etc/passwd')).toThrow(BlockedAddressError);
+      expect(() => NetworkUtil.assertPublicUrl('http://127.0.0.1:6379/')).toThrow(
+        BlockedAddressError
+      );
+      expect(() => NetworkUtil.assertPublicUrl('http://[::1]/feed.ics')).toThrow(
+        BlockedAddressError
+      );
+      expect(NetworkUtil.assertPublicUrl('https://calendar.example.com/feed.ics').host).toBe(
+        'calendar.example.com'
+      );
+    });
+  });
+
+  describe('publicLookup', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should fail when any address of a host is internal', (done) => {
+      jest.spyOn(dns, 'lookup').mockImplementation(((_host: string, _options: object, cb: any) =>
+        cb(null, [
+          { address: '93.184.216.34', family: 4 },
+          { address: '10.0.0.5', family: 4 },
+        ])) as any);
+
+      NetworkUtil.publicLookup('rebind.example.com', {}, (error, addresses) => {
+        expect(error).toBeInstanceOf(BlockedAddressError);
+        expect(addresses).toEqual([]);
+        done();
+      });
+    });
+  });
+});
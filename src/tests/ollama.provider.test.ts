@@ -0,0 +1,235 @@
+import axios from 'axios';
+import { Readable } from 'stream';
+import { OllamaAIProvider } from '../services/ai/providers/ollama.provider';
+import {
+  AIProvider,
+  AIErrorType,
+  AIMessageRole,
+  AIStreamChunk,
+} from '../services/ai/types/ai.types';
+
+jest.mock('axios', () => ({
+  ...jest.requireActual('axios'),
+  create: jest.fn(),
+}));
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('OllamaAIProvider', () => {
+  const client = { get: jest.fn(), post: jest.fn() };
+  const config = {
+    provider: AIProvider.OLLAMA,
+    endpoint: 'http://localhost:11434',
+    model: 'llama3.1',
+  };
+  const request = {
+    messages: [
+      { role: AIMessageRole.SYSTEM, content: 'You summarize meetings.' },
+      { role: AIMessageRole.USER, content: 'Summarize this.' },
+    ],
+    options: { temperature: 0.3, maxTokens: 500 },
+  };
+
+  const createProvider = async (api: 'ollama' | 'openai' = 'ollama') => {
+    const provider = new OllamaAIProvider(config, api);
+    await provider.initialize(config);
+    return provider;
+  };
+
+  const collect = async (provider: OllamaAIProvider) => {
+    const chunks: AIStreamChunk[] = [];
+    await provider.streamChat(request, (chunk) => chunks.push(chunk));
+    return chunks;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(client as any);
+  });
+
+  it('should need an endpoint rather than an API key', async () => {
+    const provider = await createProvider();
+    expect(provider.isConfigured()).toBe(true);
+    expect(mockedAxios.create).toHaveBeenCalledWith(
+      expect.objectContaining({ baseURL: 'http://localhost:11434' })
+    );
+
+    await expect(
+      new OllamaAIProvider({ provider: AIProvider.OLLAMA }).initialize({
+        provider: AIProvider.OLLAMA,
+      })
+    ).rejects.toMatchObject({ type: AIErrorType.INVALID_REQUEST });
+  });
+
+  describe('Ollama API', () => {
+    it('should chat through /api/chat', async () => {
+      client.post.mockResolvedValue({
+        data: {
+          model: 'llama3.1',
+          message: { role: 'assistant', content: 'A short summary.' },
+          done: true,
+          done_reason: 'stop',
+          prompt_eval_count: 40,
+          eval_count: 12,
+        },
+      });
+      const provider = await createProvider();
+
+      const response = await provider.chat(request);
+
+      expect(client.post).toHaveBeenCalledWith(
+        '/api/chat',
+        {
+          model: 'llama3.1',
+          messages: request.messages,
+          stream: false,
+          options: { temperature: 0.3, num_predict: 500, top_p: undefined, top_k: undefined },
+        },
+        { timeout: undefined }
+      );
+      expect(response).toEqual({
+        content: 'A short summary.',
+        provider: AIProvider.OLLAMA,
+        model: 'llama3.1',
+        usage: { promptTokens: 40, completionTokens: 12, totalTokens: 52 },
+        finishReason: 'stop',
+      });
+    });
+
+    it('should complete prompts through /api/generate', async () => {
+      client.post.mockResolvedValue({
+        data: { model: 'mistral', response: 'Done.', done: true },
+      });
+      const provider = await createProvider();
+
+      const response = await provider.complete({
+        prompt: 'Say done',
+        options: { model: 'mistral' },
+      });
+
+      expect(client.post.mock.calls[0][0]).toBe('/api/generate');
+      expect(client.post.mock.calls[0][1]).toMatchObject({ model: 'mistral', prompt: 'Say done' });
+      expect(response.content).toBe('Done.');
+      expect(response.usage).toBeUndefined();
+    });
+
+    it('should stream newline-delimited chunks', async () => {
+      client.post.mockResolvedValue({
+        data: Readable.from([
+          '{"model":"llama3.1","message":{"content":"Hel"},"done":false}\n{"model":"llama3.1",',
+          '"message":{"content":"lo"},"done":false}\n',
+          '{"model":"llama3.1","message":{"content":""},"done":true,' +
+            '"prompt_eval_count":5,"eval_count":2}\n',
+        ]),
+      });
+      const provider = await createProvider();
+
+      const chunks = await collect(provider);
+
+      expect(client.post.mock.calls[0][1]).toMatchObject({ stream: true });
+      expect(chunks.map((chunk) => chunk.content).join('')).toBe('Hello');
+      expect(chunks[chunks.length - 1]).toEqual({
+        content: '',
+        provider: AIProvider.OLLAMA,
+        isComplete: true,
+        usage: { promptTokens: 5, completionTokens: 2, totalTokens: 7 },
+      });
+    });
+
+    it('should list installed models', async () => {
+      client.get.mockResolvedValue({
+        data: { models: [{ name: 'llama3.1:latest' }, { name: 'mistral:7b' }] },
+      });
+      const provider = await createProvider();
+
+      await expect(provider.listModels()).resolves.toEqual(['llama3.1:latest', 'mistral:7b']);
+      expect(client.get).toHaveBeenCalledWith('/api/tags');
+    });
+
+    it('should report models that have not been pulled', async () => {
+      const error = new axios.AxiosError('Request failed with status code 404');
+      error.response = {
+        status: 404,
+        data: { error: 'model "llama9" not found, try pulling it first' },
+      } as any;
+      client.post.mockRejectedValue(error);
+      const provider = await createProvider();
+
+      await expect(provider.chat(request)).rejects.toMatchObject({
+        type: AIErrorType.INVALID_REQUEST,
+        statusCode: 404,
+        message: expect.stringContaining('try pulling it first'),
+      });
+    });
+
+    it('should report an unreachable server as a network error', async () => {
+      client.get.mockRejectedValue(
+        Object.assign(new Error('connect refused'), { code: 'ECONNREFUSED' })
+      );
+      const provider = await createProvider();
+
+      await expect(provider.listModels()).rejects.toMatchObject({
+        type: AIErrorType.NETWORK_ERROR,
+      });
+    });
+  });
+
+  describe('OpenAI-compatible API', () => {
+    it('should chat through /v1/chat/completions', async () => {
+      client.post.mockResolvedValue({
+        data: {
+          model: 'qwen2.5-7b-instruct',
+          choices: [{ message: { content: 'Hi there' }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: 10, completion_tokens: 3, total_tokens: 13 },
+        },
+      });
+      const provider = await createProvider('openai');
+
+      const response = await provider.chat(request);
+
+      expect(client.post).toHaveBeenCalledWith(
+        '/v1/chat/completions',
+        {
+          model: 'llama3.1',
+          temperature: 0.3,
+          max_tokens: 500,
+          top_p: undefined,
+          messages: request.messages,
+        },
+        { timeout: undefined }
+      );
+      expect(response).toMatchObject({
+        content: 'Hi there',
+        model: 'qwen2.5-7b-instruct',
+        usage: { promptTokens: 10, completionTokens: 3, totalTokens: 13 },
+        finishReason: 'stop',
+      });
+    });
+
+    it('should stream server-sent events', async () => {
+      client.post.mockResolvedValue({
+        data: Readable.from([
+          'data: {"model":"m","choices":[{"delta":{"content":"Hi"}}]}\n\n',
+          'data: {"model":"m","choices":[{"delta":{"content":" all"},"finish_reason":"stop"}]}\n\n',
+          'data: [DONE]\n\n',
+        ]),
+      });
+      const provider = await createProvider('openai');
+
+      const chunks = await collect(provider);
+
+      expect(chunks).toEqual([
+        { content: 'Hi', provider: AIProvider.OLLAMA, isComplete: false },
+        { content: ' all', provider: AIProvider.OLLAMA, isComplete: false },
+        { content: '', provider: AIProvider.OLLAMA, isComplete: true, usage: undefined },
+      ]);
+    });
+
+    it('should list models from /v1/models', async () => {
+      client.get.mockResolvedValue({ data: { data: [{ id: 'qwen2.5-7b-instruct' }] } });
+      const provider = await createProvider('openai');
+
+      await expect(provider.listModels()).resolves.toEqual(['qwen2.5-7b-instruct']);
+      expect(client.get).toHaveBeenCalledWith('/v1/models');
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { RecallWebhookService } from '../services/recall-ai/recall-webhook.service';
+import { BotStatus, RecallWebhookPayload } from '../services/recall-ai/types/recall-ai.types';
+import { meetingBotService } from '../services/recall-ai/meeting-bot.service';
+import { transcriptionService } from '../services/transcription.service';
+import { cacheService } from '../services/cache.service';
+import { recallAIService } from '../services/recall-ai/recall-ai.service';
+
+jest.mock('../services/recall-ai/recall-ai.service', () => ({
+  recallAIService: {
+    mapBotStatus: jest.fn(),
+  },
+}));
+jest.mock('../services/recall-ai/meeting-bot.service', () => ({
+  meetingBotService: {
+    handleLifecycleEvent: jest.fn(),
+    getMeetingByBotId: jest.fn(),
+  },
+}));
+jest.mock('../services/transcription.service', () => ({
+  transcriptionService: {
+    processRealtimeTranscription: jest.fn(),
+  },
+}));
+jest.mock('../services/cache.service', () => ({
+  cacheService: {
+    setIfNotExists: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+const mockedMeetingBotService = meetingBotService as jest.Mocked<typeof meetingBotService>;
+const mockedTranscriptionService = transcriptionService as jest.Mocked<
+  typeof transcriptionService
+>;
+const mockedCacheService = cacheService as jest.Mocked<typeof cacheService>;
+
+const loadFixture = (name: string): RecallWebhookPayload =>
+  JSON.parse(
+    readFileSync(join(process.cwd(), 'src/tests/fixtures/recall-webhooks', name), 'utf8')
+  );
+
+describe('RecallWebhookService', () => {
+  let service: RecallWebhookService;
+
+  const secret = `whsec_${Buffer.from('test-webhook-secret').toString('base64')}`;
+  const mockMeeting = { id: 'meeting-123', userId: 'user-123' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new RecallWebhookService();
+    mockedCacheService.setIfNotExists.mockResolvedValue(true);
+    (recallAIService.mapBotStatus as jest.Mock).mockImplementation(
+      (code: string) =>
+        ({
+          in_call_recording: BotStatus.RECORDING,
+          fatal: BotStatus.FAILED,
+          done: BotStatus.COMPLETED,
+        })[code] || BotStatus.IDLE
+    );
+  });
+
+  describe('verifySignature', () => {
+    const rawBody = Buffer.from(JSON.stringify(loadFixture('bot-done.json')));
+    const now = new Date('2025-01-01T10:45:00Z');
+    const timestamp = Math.floor(now.getTime() / 1000).toString();
+
+    it('should accept a valid signature', () => {
+      const signature = service.sign('msg_1', timestamp, rawBody, secret);
+
+      expect(() =>
+        service.verifySignature(
+          { id: 'msg_1', timestamp, signature: `v1,invalid v1,${signature}` },
+          rawBody,
+          secret,
+          now
+        )
+      ).not.toThrow();
+    });
+
+    it('should reject a tampered body', () => {
+      const signature = service.sign('msg_1', timestamp, rawBody, secret);
+
+      expect(() =>
+        service.verifySignature(
+          { id: 'msg_1', timestamp, signature: `v1,${signature}` },
+          Buffer.from('{"event":"bot.fatal"}'),
+          secret,
+          now
+        )
+      ).toThrow('Invalid webhook signature');
+    });
+
+    it('should reject stale timestamps', () => {
+      const stale = (Math.floor(now.getTime() / 1000) - 3600).toString();
+      const signature = service.sign('msg_1', stale, rawBody, secret);
+
+      expect(() =>
+        service.verifySignature(
+          { id: 'msg_1', timestamp: stale, signature: `v1,${signature}` },
+          rawBody,
+          secret,
+          now
+        )
+      ).toThrow('Webhook timestamp is outside the allowed window');
+    });
+
+    it('should reject missing headers', () => {
+      expect(() => service.verifySignature({}, rawBody, secret, now)).toThrow(
+        'Missing webhook signature headers'
+      );
+    });
+  });
+
+  describe('handleWebhook', () => {
+    it('should apply lifecycle events from status payloads', async () => {
+      mockedMeetingBotService.handleLifecycleEvent.mockResolvedValue(mockMeeting as any);
+
+      const result = await service.handleWebhook('msg_1', loadFixture('bot-in-call-recording.json'));
+
+      expect(result).toEqual({ event: 'bot.in_call_recording', duplicate: false, handled: true });
+      expect(mockedMeetingBotService.handleLifecycleEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          botId: 'bot-fixture-123',
+          eventType: 'recording_started',
+          timestamp: '2025-01-01T10:00:30.000Z',
+        })
+      );
+    });
+
+    it('should map legacy status_change errors', async () => {
+      mockedMeetingBotService.handleLifecycleEvent.mockResolvedValue(mockMeeting as any);
+
+      await service.handleWebhook('msg_2', loadFixture('bot-fatal.json'));
+
+      expect(mockedMeetingBotService.handleLifecycleEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'error',
+          data: expect.objectContaining({
+            message: 'The meeting link is invalid or has expired',
+          }),
+        })
+      );
+    });
+
+    it('should stream transcript segments into the transcription session', async () => {
+      mockedMeetingBotService.getMeetingByBotId.mockResolvedValue(mockMeeting as any);
+
+      await service.handleWebhook('msg_3', loadFixture('transcript-data.json'));
+
+      expect(mockedTranscriptionService.processRealtimeTranscription).toHaveBeenCalledWith(
+        'meeting-123',
+        expect.objectContaining({
+          segments: [
+            {
+              speaker: 'Alice Nguyen',
+              text: "Let's review the roadmap.",
+              startTime: 12.4,
+              endTime: 13.9,
+              confidence: 1.0,
+            },
+          ],
+        })
+      );
+    });
+
+    it('should parse legacy transcript payloads', () => {
+      const segment = service.toTranscriptionSegment(loadFixture('bot-transcription-legacy.json'));
+
+      expect(segment).toEqual({
+        speaker: 'Bob Tran',
+        text: 'Sounds good',
+        startTime: 14.2,
+        endTime: 14.9,
+        confidence: 1.0,
+      });
+    });
+
+    it('should ignore duplicate deliveries', async () => {
+      mockedCacheService.setIfNotExists.mockResolvedValue(false);
+
+      const result = await service.handleWebhook('msg_1', loadFixture('bot-done.json'));
+
+      expect(result.duplicate).toBe(true);
+      expect(mockedMeetingBotService.handleLifecycleEvent).not.toHaveBeenCalled();
+    });
+
+    it('should release the delivery key when processing fails', async () => {
+      mockedMeetingBotService.handleLifecycleEvent.mockRejectedValue(new Error('DB down'));
+
+      await expect(service.handleWebhook('msg_4', loadFixture('bot-done.json'))).rejects.toThrow(
+        'DB down'
+      );
+      expect(mockedCacheService.delete).toHaveBeenCalledWith('recall_webhook:msg_4');
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { RecurrenceRuleError, RecurrenceUtil } from '../utils/recurrence';
+
+describe('RecurrenceUtil', () => {
+  const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+  describe('parse', () => {
+    it('should accept the RRULE prefix and normalize the rule', () => {
+      const rule = RecurrenceUtil.parse('RRULE:freq=weekly;byday=MO,WE;interval=1');
+
+      expect(RecurrenceUtil.stringify(rule)).toBe('FREQ=WEEKLY;BYDAY=MO,WE');
+    });
+
+    it('should reject unsupported parts', () => {
+      expect(() => RecurrenceUtil.parse('FREQ=YEARLY')).toThrow(RecurrenceRuleError);
+      expect(() => RecurrenceUtil.parse('FREQ=WEEKLY;BYSETPOS=1')).toThrow(
+        'Unsupported recurrence rule parts: BYSETPOS'
+      );
+      expect(() => RecurrenceUtil.parse('FREQ=WEEKLY;BYDAY=1MO')).toThrow(
+        'BYDAY ordinals are only supported with FREQ=MONTHLY'
+      );
+    });
+  });
+
+  describe('between', () => {
+    it('should expand weekly rules on the given weekdays at the start time of day', () => {
+      const rule = RecurrenceUtil.parse('FREQ=WEEKLY;BYDAY=MO,TH');
+      const dtstart = new Date('2026-10-19T09:30:00Z'); // Monday
+
+      const occurrences = RecurrenceUtil.between(
+        rule,
+        dtstart,
+        dtstart,
+        new Date('2026-10-31T00:00:00Z')
+      );
+
+      expect(iso(occurrences)).toEqual([
+        '2026-10-19T09:30:00.000Z',
+        '2026-10-22T09:30:00.000Z',
+        '2026-10-26T09:30:00.000Z',
+        '2026-10-29T09:30:00.000Z',
+      ]);
+    });
+
+    it('should count occurrences from the start even outside the window', () => {
+      const rule = RecurrenceUtil.parse('FREQ=DAILY;COUNT=3');
+      const dtstart = new Date('2026-10-19T09:00:00Z');
+
+      const occurrences = RecurrenceUtil.between(
+        rule,
+        dtstart,
+        new Date('2026-10-20T12:00:00Z'),
+        new Date('2026-10-31T00:00:00Z')
+      );
+
+      expect(iso(occurrences)).toEqual(['2026-10-21T09:00:00.000Z']);
+    });
+
+    it('should expand monthly rules on the last weekday of the month', () => {
+      const rule = RecurrenceUtil.parse('FREQ=MONTHLY;BYDAY=-1FR');
+      const dtstart = new Date('2026-10-01T15:00:00Z');
+
+      const occurrences = RecurrenceUtil.between(
+        rule,
+        dtstart,
+        dtstart,
+        new Date('2026-12-31T23:59:59Z')
+      );
+
+      expect(iso(occurrences)).toEqual([
+        '2026-10-30T15:00:00.000Z',
+        '2026-11-27T15:00:00.000Z',
+        '2026-12-25T15:00:00.000Z',
+      ]);
+    });
+
+    it('should skip months without the given day and stop at UNTIL', () => {
+      const rule = RecurrenceUtil.parse('FREQ=MONTHLY;BYMONTHDAY=31;UNTIL=20270331');
+      const dtstart = new Date('2026-12-31T08:00:00Z');
+
+      const occurrences = RecurrenceUtil.between(
+        rule,
+        dtstart,
+        dtstart,
+        new Date('2027-12-31T00:00:00Z')
+      );
+
+      expect(iso(occurrences)).toEqual([
+        '2026-12-31T08:00:00.000Z',
+        '2027-01-31T08:00:00.000Z',
+        '2027-03-31T08:00:00.000Z',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import axios from 'axios';
+import { ReportTemplate } from '@prisma/client';
+import { ReportTemplateService } from '../services/report/report-template.service';
+import { reportTemplateRepository } from '../repositories';
+
+jest.mock('axios');
+jest.mock('../repositories', () => ({
+  reportTemplateRepository: {
+    findById: jest.fn(),
+    findByName: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    clearDefault: jest.fn(),
+  },
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockedRepository = reportTemplateRepository as jest.Mocked<typeof reportTemplateRepository>;
+
+describe('ReportTemplateService', () => {
+  let service: ReportTemplateService;
+
+  const template = (overrides: Partial<ReportTemplate> = {}): ReportTemplate =>
+    ({
+      id: 'template-1',
+      userId: 'user-123',
+      name: 'Board',
+      brandName: 'Acme',
+      logoUrl: null,
+      primaryColor: '#AA3300',
+      headerText: null,
+      footerText: null,
+      sections: [],
+      includeTranscript: false,
+      isDefault: false,
+      ...overrides,
+    }) as ReportTemplate;
+
+  beforeEach(() => {
+    service = new ReportTemplateService();
+    jest.clearAllMocks();
+  });
+
+  describe('createTemplate', () => {
+    it('should make a new default template the only default', async () => {
+      mockedRepository.findByName.mockResolvedValue(null);
+      mockedRepository.create.mockResolvedValue(template({ isDefault: true }));
+
+      await service.createTemplate({ userId: 'user-123', name: 'Board', isDefault: true });
+
+      expect(mockedRepository.clearDefault).toHaveBeenCalledWith('user-123', 'template-1');
+    });
+
+    it('should reject a duplicate name', async () => {
+      mockedRepository.findByName.mockResolvedValue(template());
+
+      await expect(
+        service.createTemplate({ userId: 'user-123', name: 'Board' })
+      ).rejects.toMatchObject({ statusCode: 409 });
+      expect(mockedRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateTemplate', () => {
+    it('should not update a template of another user', async () => {
+      mockedRepository.findById.mockResolvedValue(template({ userId: 'user-999' }));
+
+      await expect(
+        service.updateTemplate('template-1', 'user-123', { brandName: 'Other' })
+      ).rejects.toMatchObject({ statusCode: 403 });
+      expect(mockedRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getBranding', () => {
+    it('should use the defaults without a template', async () => {
+      await expect(service.getBranding(null)).resolves.toEqual({ primaryColor: '#1F3A5F' });
+    });
+
+    it('should embed a PNG logo', async () => {
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a]);
+      mockedAxios.get.mockResolvedValue({ data: png });
+
+      const branding = await service.getBranding(
+        template({ logoUrl: 'https://cdn.example.com/logo.png' })
+      );
+
+      expect(branding.logo).toEqual({ data: png, type: 'png' });
+      expect(branding.brandName).toBe('Acme');
+    });
+
+    it('should leave out a logo that is not an image or fails to load', async () => {
+      mockedAxios.get.mockResolvedValueOnce({ data: Buffer.from('<html>') });
+      mockedAxios.get.mockRejectedValueOnce(new Error('timeout'));
+
+      const withPage = await service.getBranding(template({ logoUrl: 'https://example.com' }));
+      const withError = await service.getBranding(template({ logoUrl: 'https://example.com/x' }));
+
+      expect(withPage.logo).toBeNull();
+      expect(withError.logo).toBeNull();
+    });
+  });
+});
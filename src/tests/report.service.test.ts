@@ -0,0 +1,208 @@
+import { ActionItem, AnalysisResult, Decision, ReportTemplate, Transcription } from '@prisma/client';
+import { ReportService } from '../services/report/report.service';
+import { reportTemplateRepository } from '../repositories';
+import { MeetingWithRelations } from '../types/meeting.types';
+import { ReportSection } from '../types/report.types';
+
+jest.mock('../repositories', () => ({
+  reportTemplateRepository: {
+    findById: jest.fn(),
+    findDefaultForUser: jest.fn(),
+  },
+}));
+
+const mockedTemplateRepository = reportTemplateRepository as jest.Mocked<
+  typeof reportTemplateRepository
+>;
+
+describe('ReportService', () => {
+  let service: ReportService;
+
+  const analysis = (overrides: Partial<AnalysisResult>): AnalysisResult =>
+    ({
+      id: `analysis-${overrides.analysisType}`,
+      meetingId: 'meeting-1',
+      summary: null,
+      keyPoints: null,
+      actionItems: null,
+      topics: null,
+      participants: null,
+      createdAt: new Date('2026-10-19T11:00:00Z'),
+      ...overrides,
+    }) as AnalysisResult;
+
+  const meeting = (overrides: Partial<MeetingWithRelations> = {}): MeetingWithRelations =>
+    ({
+      id: 'meeting-1',
+      userId: 'user-123',
+      title: 'Quarterly planning',
+      description: 'Plan Q1 priorities',
+      platform: 'zoom',
+      status: 'completed',
+      scheduledAt: new Date('2026-10-19T09:00:00Z'),
+      startedAt: new Date('2026-10-19T09:02:00Z'),
+      endedAt: new Date('2026-10-19T10:07:00Z'),
+      createdAt: new Date('2026-10-01T09:00:00Z'),
+      user: { id: 'user-123', email: 'alice@example.com', fullName: 'Alice Smith' },
+      transcriptions: [
+        {
+          speakerName: 'Alice',
+          text: 'Welcome everyone.',
+          timestampStart: new Date(5000),
+        },
+        {
+          speakerName: null,
+          text: 'Thanks.',
+          timestampStart: new Date(65000),
+        },
+      ] as Transcription[],
+      analysisResults: [
+        analysis({
+          analysisType: 'meeting_summary',
+          summary: 'We agreed on the Q1 roadmap.',
+          keyPoints: ['Roadmap approved', 'Hiring paused'],
+          topics: [{ name: 'Roadmap' }, { name: 'Hiring' }],
+          participants: [
+            { speakerName: 'Bob', totalWords: 100, speakingTime: 60, speakingPercentage: 40 },
+          ],
+          actionItems: [{ description: 'Extracted item', assignedTo: ['Bob'], priority: 'low' }],
+        }),
+        analysis({
+          analysisType: 'speaker_metrics',
+          participants: [
+            { speakerName: 'Bob', totalWords: 100, speakingTime: 60, speakingPercentage: 40 },
+            { speakerName: 'Alice', totalWords: 150, speakingTime: 90, speakingPercentage: 60 },
+          ],
+        }),
+      ],
+      actionItems: [
+        {
+          description: 'Draft the roadmap doc',
+          owner: 'Alice',
+          assignees: [],
+          dueDate: new Date('2026-10-26T00:00:00Z'),
+          priority: 'high',
+          status: 'open',
+        },
+      ] as unknown as ActionItem[],
+      decisions: [
+        { description: 'Pause hiring', rationale: 'Budget review pending' },
+      ] as Decision[],
+      ...overrides,
+    }) as MeetingWithRelations;
+
+  const template = (overrides: Partial<ReportTemplate> = {}): ReportTemplate =>
+    ({
+      id: 'template-1',
+      userId: 'user-123',
+      name: 'Board',
+      brandName: 'Acme',
+      logoUrl: null,
+      primaryColor: '#AA3300',
+      headerText: 'Confidential',
+      footerText: 'Acme Inc.',
+      sections: [],
+      includeTranscript: false,
+      isDefault: true,
+      ...overrides,
+    }) as ReportTemplate;
+
+  beforeEach(() => {
+    service = new ReportService();
+    jest.clearAllMocks();
+  });
+
+  describe('buildReport', () => {
+    it('should collect the summary, tracked items and speaker metrics', () => {
+      const report = service.buildReport(meeting(), null);
+
+      expect(report.title).toBe('Quarterly planning');
+      expect(report.metadata).toEqual([
+        { label: 'Date', value: '2026-10-19 09:02 UTC' },
+        { label: 'Duration', value: '1 h 5 min' },
+        { label: 'Platform', value: 'zoom' },
+        { label: 'Status', value: 'completed' },
+        { label: 'Organizer', value: 'Alice Smith' },
+        { label: 'Description', value: 'Plan Q1 priorities' },
+      ]);
+      expect(report.summary).toBe('We agreed on the Q1 roadmap.');
+      expect(report.keyPoints).toEqual(['Roadmap approved', 'Hiring paused']);
+      expect(report.topics).toEqual(['Roadmap', 'Hiring']);
+      expect(report.decisions).toEqual([
+        { description: 'Pause hiring', rationale: 'Budget review pending' },
+      ]);
+      expect(report.actionItems).toEqual([
+        expect.objectContaining({ description: 'Draft the roadmap doc', owner: 'Alice' }),
+      ]);
+      expect(report.participants.map((participant) => participant.speakerName)).toEqual([
+        'Alice',
+        'Bob',
+      ]);
+      expect(report.sections).toEqual(Object.values(ReportSection));
+      expect(report.transcript).toBeNull();
+    });
+
+    it('should fall back to extracted action items when none are tracked', () => {
+      const report = service.buildReport(meeting({ actionItems: [] }), null);
+
+      expect(report.actionItems).toEqual([
+        {
+          description: 'Extracted item',
+          owner: 'Bob',
+          dueDate: null,
+          priority: 'low',
+          status: null,
+        },
+      ]);
+    });
+
+    it('should follow the template sections and transcript setting', () => {
+      const report = service.buildReport(
+        meeting(),
+        template({ sections: ['action_items', 'summary'], includeTranscript: true })
+      );
+
+      expect(report.sections).toEqual([ReportSection.ACTION_ITEMS, ReportSection.SUMMARY]);
+      expect(report.transcript).toEqual([
+        { timestamp: '00:00:05', speaker: 'Alice', text: 'Welcome everyone.' },
+        { timestamp: '00:01:05', speaker: 'Speaker', text: 'Thanks.' },
+      ]);
+    });
+
+    it('should let the request override the template transcript setting', () => {
+      const report = service.buildReport(meeting(), template({ includeTranscript: true }), {
+        includeTranscript: false,
+      });
+
+      expect(report.transcript).toBeNull();
+    });
+  });
+
+  describe('renderReport', () => {
+    it('should render a PDF with the default template', async () => {
+      mockedTemplateRepository.findDefaultForUser.mockResolvedValue(template());
+
+      const pdf = await service.renderReport(meeting(), 'pdf', { includeTranscript: true });
+
+      expect(mockedTemplateRepository.findDefaultForUser).toHaveBeenCalledWith('user-123');
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    });
+
+    it('should render a DOCX with the picked template', async () => {
+      mockedTemplateRepository.findById.mockResolvedValue(template({ isDefault: false }));
+
+      const docx = await service.renderReport(meeting(), 'docx', { templateId: 'template-1' });
+
+      expect(mockedTemplateRepository.findById).toHaveBeenCalledWith('template-1');
+      expect(docx.subarray(0, 2).toString()).toBe('PK'); // DOCX files are ZIP archives
+    });
+
+    it('should reject a template of another user', async () => {
+      mockedTemplateRepository.findById.mockResolvedValue(template({ userId: 'user-999' }));
+
+      await expect(
+        service.renderReport(meeting(), 'pdf', { templateId: 'template-1' })
+      ).rejects.toMatchObject({ statusCode: 403 });
+    });
+  });
+});
@@ -32,6 +32,28 @@ describe('Log Sanitizer', () => {
     expect(sanitized.details).toContain('***');
   });
 
+  it('should mask access tokens in query strings', () => {
+    const message =
+      'GET /api/meetings/123/transcription/stream?access_token=eyJhbGciOiJIUzI1NiJ9.abc.def&x=1 HTTP/1.1';
+
+    const sanitized = sanitizeLogData({ message });
+
+    expect(sanitized.message).toContain('access_token=***&x=1');
+    expect(sanitized.message).not.toContain('eyJhbGciOiJIUzI1NiJ9');
+  });
+
+  it('should mask calendar feed tokens in paths', () => {
+    const data = {
+      message: 'GET /api/calendar/feed/3f9c2a7b41d8e6f0a5b2c9d7e1f4a8b6.ics?x=1 HTTP/1.1',
+      path: '/api/calendar/feed/3f9c2a7b41d8e6f0a5b2c9d7e1f4a8b6.ics',
+    };
+
+    const sanitized = sanitizeLogData(data);
+
+    expect(sanitized.message).toContain('/api/calendar/feed/***.ics?x=1');
+    expect(sanitized.path).toBe('/api/calendar/feed/***.ics');
+  });
+
   it('should handle arrays', () => {
     const list = [
       { apiKey: 'secret' },
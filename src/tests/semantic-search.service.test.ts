@@ -0,0 +1,197 @@
+import { SemanticSearchService } from '../services/semantic-search.service';
+import { aiService } from '../services/ai/ai.service';
+import { LocalAIProvider } from '../services/ai/providers/local.provider';
+import { AIProvider } from '../services/ai/types/ai.types';
+import { transcriptionRepository, transcriptChunkRepository } from '../repositories';
+import { AppError } from '../middlewares/error-handler';
+
+jest.mock('../services/ai/ai.service', () => ({
+  aiService: {
+    embed: jest.fn(),
+    isEmbeddingAvailable: jest.fn(),
+  },
+}));
+jest.mock('../repositories', () => ({
+  transcriptionRepository: { findByMeetingIdExcluding: jest.fn() },
+  transcriptChunkRepository: {
+    getIndexedTranscriptionIds: jest.fn(),
+    bulkCreate: jest.fn(),
+    findForUser: jest.fn(),
+    deleteByMeetingId: jest.fn(),
+  },
+}));
+jest.mock('../utils/logger');
+
+const mockedAIService = aiService as jest.Mocked<typeof aiService>;
+const mockedTranscriptionRepository = transcriptionRepository as jest.Mocked<
+  typeof transcriptionRepository
+>;
+const mockedChunkRepository = transcriptChunkRepository as jest.Mocked<
+  typeof transcriptChunkRepository
+>;
+
+describe('SemanticSearchService', () => {
+  let service: SemanticSearchService;
+  let localProvider: LocalAIProvider;
+
+  const mockMeetingId = 'meeting-123';
+  const mockUserId = 'user-123';
+
+  const segment = (id: string, speakerName: string, text: string): Record<string, unknown> => ({
+    id,
+    meetingId: mockMeetingId,
+    speakerName,
+    text,
+    timestampStart: new Date('2025-01-01T10:00:00Z'),
+    timestampEnd: new Date('2025-01-01T10:00:05Z'),
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    service = new SemanticSearchService();
+
+    localProvider = new LocalAIProvider({ provider: AIProvider.LOCAL });
+    await localProvider.initialize({ provider: AIProvider.LOCAL });
+
+    mockedAIService.isEmbeddingAvailable.mockReturnValue(true);
+    mockedAIService.embed.mockImplementation((request) => localProvider.embed(request));
+    mockedChunkRepository.getIndexedTranscriptionIds.mockResolvedValue([]);
+    mockedChunkRepository.bulkCreate.mockImplementation(async (data) => ({ count: data.length }));
+  });
+
+  describe('indexMeeting', () => {
+    const segments = [
+      segment('t1', 'Alice', 'Let us review the launch plan.'),
+      segment('t2', 'Alice', 'The beta goes out on Monday.'),
+      segment('t3', 'Bob', 'I will update the pricing page.'),
+    ];
+
+    it('should group consecutive segments by speaker and hold back the open chunk', async () => {
+      mockedTranscriptionRepository.findByMeetingIdExcluding.mockResolvedValue(segments as any);
+
+      const created = await service.indexMeeting(mockMeetingId);
+
+      expect(created).toBe(1);
+      const [chunks] = mockedChunkRepository.bulkCreate.mock.calls[0];
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0]).toMatchObject({
+        meetingId: mockMeetingId,
+        firstTranscriptionId: 't1',
+        transcriptionIds: ['t1', 't2'],
+        speakerName: 'Alice',
+        text: 'Let us review the launch plan. The beta goes out on Monday.',
+        provider: AIProvider.LOCAL,
+        dimensions: 256,
+      });
+      expect(chunks[0].embedding).toHaveLength(256);
+    });
+
+    it('should embed the trailing chunk when flushing', async () => {
+      mockedTranscriptionRepository.findByMeetingIdExcluding.mockResolvedValue(segments as any);
+
+      const created = await service.indexMeeting(mockMeetingId, { flush: true });
+
+      expect(created).toBe(2);
+      const [chunks] = mockedChunkRepository.bulkCreate.mock.calls[0];
+      expect(chunks[1]).toMatchObject({ speakerName: 'Bob', transcriptionIds: ['t3'] });
+    });
+
+    it('should only consider segments that are not indexed yet', async () => {
+      mockedChunkRepository.getIndexedTranscriptionIds.mockResolvedValue(['t1', 't2']);
+      mockedTranscriptionRepository.findByMeetingIdExcluding.mockResolvedValue([]);
+
+      const created = await service.indexMeeting(mockMeetingId, { flush: true });
+
+      expect(mockedTranscriptionRepository.findByMeetingIdExcluding).toHaveBeenCalledWith(
+        mockMeetingId,
+        ['t1', 't2']
+      );
+      expect(created).toBe(0);
+      expect(mockedAIService.embed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('search', () => {
+    it('should rank chunks by similarity to the query', async () => {
+      const texts = [
+        'We need to hire two backend engineers this quarter.',
+        'The database migration is scheduled for the weekend.',
+      ];
+      const { embeddings, model } = await localProvider.embed({ input: texts });
+
+      mockedChunkRepository.findForUser.mockResolvedValue(
+        texts.map((text, i) => ({
+          id: `chunk-${i}`,
+          meetingId: mockMeetingId,
+          transcriptionIds: [`t${i}`],
+          speakerName: 'Alice',
+          text,
+          timestampStart: null,
+          timestampEnd: null,
+          embedding: embeddings[i],
+          meeting: {
+            id: mockMeetingId,
+            title: 'Weekly sync',
+            platform: 'zoom',
+            startedAt: new Date('2025-01-01T10:00:00Z'),
+            scheduledAt: null,
+          },
+        })) as any
+      );
+
+      const results = await service.search(mockUserId, 'when is the database migration', {
+        limit: 1,
+      });
+
+      expect(mockedChunkRepository.findForUser).toHaveBeenCalledWith(
+        mockUserId,
+        model,
+        expect.any(Object)
+      );
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({
+        chunkId: 'chunk-1',
+        speakerName: 'Alice',
+        meeting: { id: mockMeetingId, title: 'Weekly sync' },
+      });
+      expect(results[0].score).toBeGreaterThan(0);
+    });
+
+    it('should score every candidate page by page', async () => {
+      service['SEARCH_PAGE_SIZE'] = 2;
+      const texts = [
+        'Lunch options near the office.',
+        'The quarterly roadmap review.',
+        'The database migration is scheduled for the weekend.',
+      ];
+      const { embeddings, model } = await localProvider.embed({ input: texts });
+      const chunks = texts.map((text, i) => ({
+        id: `chunk-${i}`,
+        text,
+        embedding: embeddings[i],
+        meeting: { id: mockMeetingId, title: 'Weekly sync' },
+      })) as any;
+      mockedChunkRepository.findForUser
+        .mockResolvedValueOnce(chunks.slice(0, 2))
+        .mockResolvedValueOnce(chunks.slice(2));
+
+      const results = await service.search(mockUserId, 'when is the database migration', {
+        limit: 1,
+      });
+
+      expect(mockedChunkRepository.findForUser).toHaveBeenLastCalledWith(
+        mockUserId,
+        model,
+        expect.objectContaining({ take: 2, cursor: 'chunk-1' })
+      );
+      expect(results.map((result) => result.chunkId)).toEqual(['chunk-2']);
+    });
+
+    it('should fail when no embedding provider is configured', async () => {
+      mockedAIService.isEmbeddingAvailable.mockReturnValue(false);
+
+      await expect(service.search(mockUserId, 'anything')).rejects.toThrow(AppError);
+      expect(mockedAIService.embed).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,423 @@
+import { speakerService, mergeSpeakerMetrics } from '../services/speaker.service';
+import { participantService } from '../services/participant.service';
+import { transcriptRevisionService } from '../services/transcript-revision.service';
+import {
+  actionItemRepository,
+  analysisResultRepository,
+  decisionRepository,
+  meetingRepository,
+  speakerMappingRepository,
+  transcriptChunkRepository,
+  transcriptionRepository,
+} from '../repositories';
+
+jest.mock('../repositories', () => ({
+  meetingRepository: {
+    findById: jest.fn(),
+  },
+  transcriptionRepository: {
+    countBySpeaker: jest.fn(),
+    renameSpeaker: jest.fn(),
+    reassignSpeaker: jest.fn(),
+    findBySpeakers: jest.fn(),
+    findByIds: jest.fn(),
+  },
+  transcriptChunkRepository: {
+    renameSpeaker: jest.fn(),
+  },
+  speakerMappingRepository: {
+    findByMeetingId: jest.fn(),
+    findForSeries: jest.fn(),
+    updateByDisplayName: jest.fn(),
+    upsertMapping: jest.fn(),
+  },
+  analysisResultRepository: {
+    findByMeetingId: jest.fn(),
+    update: jest.fn(),
+    updateTranscriptRevision: jest.fn(),
+  },
+  actionItemRepository: {
+    findByMeetingId: jest.fn(),
+    update: jest.fn(),
+  },
+  decisionRepository: {
+    findByMeetingId: jest.fn(),
+    update: jest.fn(),
+  },
+}));
+
+jest.mock('../services/transcript-revision.service', () => ({
+  ...jest.requireActual('../services/transcript-revision.service'),
+  transcriptRevisionService: {
+    record: jest.fn(),
+  },
+}));
+
+jest.mock('../services/semantic-search.service', () => ({
+  semanticSearchService: {
+    scheduleIndexing: jest.fn(),
+  },
+}));
+
+jest.mock('../services/participant.service', () => ({
+  participantService: {
+    getOwnedParticipant: jest.fn(),
+    findOrCreateByEmail: jest.fn(),
+  },
+}));
+
+describe('SpeakerService', () => {
+  const userId = 'user-123';
+  const meeting = { id: 'meeting-1', userId, seriesId: null };
+  const alice = { id: 'participant-1', ownerId: userId, name: 'Alice Nguyen', email: 'a@x.io' };
+
+  const metrics = (speakerName: string, totalWords: number, speakingTime: number) => ({
+    speakerName,
+    totalWords,
+    speakingTime,
+    speakingPercentage: 25,
+    averageConfidence: totalWords > 100 ? 0.9 : 0.6,
+    sentimentDistribution: { positive: 0.5, neutral: 0.5, negative: 0 },
+    keyContributions: [`${speakerName} proposed a plan`],
+  });
+
+  const segment = (id: string, speakerName: string) => ({
+    id,
+    meetingId: meeting.id,
+    speakerName,
+    text: 'Hello',
+    timestampStart: new Date(1000),
+    timestampEnd: new Date(2000),
+    confidence: null,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (meetingRepository.findById as jest.Mock).mockResolvedValue(meeting);
+    (transcriptionRepository.findBySpeakers as jest.Mock).mockResolvedValue([
+      segment('t-1', 'Speaker 1'),
+    ]);
+    (transcriptRevisionService.record as jest.Mock).mockResolvedValue({ revision: 5 });
+    (transcriptionRepository.countBySpeaker as jest.Mock).mockResolvedValue([
+      { speakerName: 'Speaker 1', count: 12 },
+      { speakerName: 'Speaker 2', count: 3 },
+      { speakerName: 'Bob', count: 20 },
+    ]);
+    (transcriptionRepository.renameSpeaker as jest.Mock).mockResolvedValue({ count: 4 });
+    (speakerMappingRepository.findByMeetingId as jest.Mock).mockResolvedValue([]);
+    (speakerMappingRepository.findForSeries as jest.Mock).mockResolvedValue([]);
+    (speakerMappingRepository.updateByDisplayName as jest.Mock).mockResolvedValue({ count: 0 });
+    (analysisResultRepository.findByMeetingId as jest.Mock).mockResolvedValue([]);
+    (actionItemRepository.findByMeetingId as jest.Mock).mockResolvedValue([]);
+    (decisionRepository.findByMeetingId as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('renameSpeaker', () => {
+    it('should rewrite the transcript, analyses, action items and decisions', async () => {
+      (analysisResultRepository.findByMeetingId as jest.Mock).mockResolvedValue([
+        {
+          id: 'analysis-1',
+          summary: 'Speaker 1 and Bob agreed. Speaker 10 was absent.',
+          keyPoints: ['Speaker 1 owns the rollout'],
+          actionItems: null,
+          topics: null,
+          participants: null,
+          metadata: null,
+        },
+        {
+          id: 'analysis-2',
+          summary: 'Bob spoke most',
+          keyPoints: null,
+          actionItems: null,
+          topics: null,
+          participants: null,
+          metadata: null,
+        },
+      ]);
+      (actionItemRepository.findByMeetingId as jest.Mock).mockResolvedValue([
+        {
+          id: 'item-1',
+          owner: 'Speaker 1',
+          assignees: ['Bob', 'Speaker 1'],
+          description: 'Ship it',
+          context: null,
+        },
+      ]);
+      (decisionRepository.findByMeetingId as jest.Mock).mockResolvedValue([
+        {
+          id: 'decision-1',
+          participants: ['Bob'],
+          description: 'Use Postgres',
+          rationale: null,
+          context: null,
+        },
+      ]);
+
+      const result = await speakerService.renameSpeaker(meeting.id, userId, 'Speaker 1', {
+        name: ' Alice ',
+      });
+
+      expect(transcriptionRepository.renameSpeaker).toHaveBeenCalledWith(
+        meeting.id,
+        'Speaker 1',
+        'Alice'
+      );
+      expect(transcriptChunkRepository.renameSpeaker).toHaveBeenCalledWith(
+        meeting.id,
+        'Speaker 1',
+        'Alice'
+      );
+      expect(analysisResultRepository.update).toHaveBeenCalledTimes(1);
+      expect(analysisResultRepository.update).toHaveBeenCalledWith('analysis-1', {
+        summary: 'Alice and Bob agreed. Speaker 10 was absent.',
+        keyPoints: ['Alice owns the rollout'],
+      });
+      expect(actionItemRepository.update).toHaveBeenCalledWith('item-1', {
+        owner: 'Alice',
+        assignees: ['Bob', 'Alice'],
+      });
+      expect(decisionRepository.update).not.toHaveBeenCalled();
+      expect(speakerMappingRepository.upsertMapping).toHaveBeenCalledWith(
+        meeting.id,
+        'Speaker 1',
+        { displayName: 'Alice', participantId: null }
+      );
+      expect(transcriptRevisionService.record).toHaveBeenCalledWith(
+        meeting.id,
+        userId,
+        'rename_speaker',
+        {
+          before: [expect.objectContaining({ id: 't-1', speakerName: 'Speaker 1' })],
+          after: [expect.objectContaining({ id: 't-1', speakerName: 'Alice' })],
+        },
+        { summary: 'Renamed Speaker 1 to Alice' }
+      );
+      // The rewritten analyses still match the transcript
+      expect(analysisResultRepository.updateTranscriptRevision).toHaveBeenCalledWith(
+        meeting.id,
+        4,
+        5
+      );
+      expect(result).toMatchObject({
+        meetingId: meeting.id,
+        transcriptionsUpdated: 4,
+        analysesUpdated: 1,
+        actionItemsUpdated: 1,
+        decisionsUpdated: 0,
+        revision: 5,
+      });
+    });
+
+    it('should link the speaker to the participant with an email', async () => {
+      (participantService.findOrCreateByEmail as jest.Mock).mockResolvedValue(alice);
+
+      await speakerService.renameSpeaker(meeting.id, userId, 'Speaker 1', { email: 'a@x.io' });
+
+      expect(participantService.findOrCreateByEmail).toHaveBeenCalledWith(
+        userId,
+        'a@x.io',
+        undefined
+      );
+      expect(transcriptionRepository.renameSpeaker).toHaveBeenCalledWith(
+        meeting.id,
+        'Speaker 1',
+        'Alice Nguyen'
+      );
+      expect(speakerMappingRepository.upsertMapping).toHaveBeenCalledWith(
+        meeting.id,
+        'Speaker 1',
+        { displayName: 'Alice Nguyen', participantId: alice.id }
+      );
+    });
+
+    it('should keep the labels of a speaker renamed before', async () => {
+      (speakerMappingRepository.updateByDisplayName as jest.Mock).mockResolvedValueOnce({
+        count: 1,
+      });
+
+      await speakerService.renameSpeaker(meeting.id, userId, 'Bob', { name: 'Robert' });
+
+      expect(speakerMappingRepository.updateByDisplayName).toHaveBeenCalledWith(
+        meeting.id,
+        'Bob',
+        { displayName: 'Robert', participantId: null }
+      );
+      expect(speakerMappingRepository.upsertMapping).not.toHaveBeenCalled();
+    });
+
+    it('should reject speakers the meeting does not have', async () => {
+      await expect(
+        speakerService.renameSpeaker(meeting.id, userId, 'Carol', { name: 'Caroline' })
+      ).rejects.toMatchObject({ statusCode: 404, message: 'Speakers not found in meeting: Carol' });
+      expect(transcriptionRepository.renameSpeaker).not.toHaveBeenCalled();
+    });
+
+    it('should check the meeting exists and is the user\'s', async () => {
+      (meetingRepository.findById as jest.Mock).mockResolvedValueOnce(null);
+      await expect(
+        speakerService.renameSpeaker('missing', userId, 'Bob', { name: 'Robert' })
+      ).rejects.toMatchObject({ statusCode: 404 });
+
+      await expect(
+        speakerService.renameSpeaker(meeting.id, 'other-user', 'Bob', { name: 'Robert' })
+      ).rejects.toMatchObject({ statusCode: 403 });
+    });
+  });
+
+  describe('mergeSpeakers', () => {
+    it('should combine the speaker metrics of merged speakers', async () => {
+      (analysisResultRepository.findByMeetingId as jest.Mock).mockResolvedValue([
+        {
+          id: 'analysis-1',
+          summary: null,
+          keyPoints: null,
+          actionItems: null,
+          topics: null,
+          participants: [
+            metrics('Speaker 1', 300, 120),
+            metrics('Speaker 2', 100, 40),
+            metrics('Bob', 400, 200),
+          ],
+          metadata: { participantCount: 3 },
+        },
+      ]);
+
+      await speakerService.mergeSpeakers(meeting.id, userId, ['Speaker 1', 'Speaker 2'], {
+        name: 'Alice',
+      });
+
+      expect(transcriptionRepository.renameSpeaker).toHaveBeenCalledTimes(2);
+      const [, data] = (analysisResultRepository.update as jest.Mock).mock.calls[0];
+      expect(data.metadata).toEqual({ participantCount: 2 });
+      expect(data.participants).toHaveLength(2);
+      expect(data.participants[0]).toMatchObject({
+        speakerName: 'Alice',
+        totalWords: 400,
+        speakingTime: 160,
+        speakingPercentage: 50,
+        averageConfidence: expect.closeTo(0.825),
+        keyContributions: ['Alice proposed a plan'],
+      });
+    });
+  });
+
+  describe('reassignTranscriptions', () => {
+    it('should move segments to another speaker', async () => {
+      (transcriptionRepository.findByIds as jest.Mock).mockResolvedValue([
+        segment('t-1', 'Speaker 1'),
+        segment('t-2', 'Speaker 2'),
+      ]);
+      (transcriptionRepository.reassignSpeaker as jest.Mock).mockResolvedValue({ count: 2 });
+
+      const result = await speakerService.reassignTranscriptions(
+        meeting.id,
+        userId,
+        ['t-1', 't-2', 't-1'],
+        { name: 'Bob' }
+      );
+
+      expect(transcriptionRepository.reassignSpeaker).toHaveBeenCalledWith(
+        meeting.id,
+        ['t-1', 't-2'],
+        'Bob'
+      );
+      expect(result).toMatchObject({ transcriptionsUpdated: 2, revision: 5 });
+      expect(transcriptRevisionService.record).toHaveBeenCalledWith(
+        meeting.id,
+        userId,
+        'reassign_speaker',
+        expect.objectContaining({
+          after: [
+            expect.objectContaining({ id: 't-1', speakerName: 'Bob' }),
+            expect.objectContaining({ id: 't-2', speakerName: 'Bob' }),
+          ],
+        }),
+        { summary: 'Attributed 2 segments to Bob' }
+      );
+      // Analyses are left stale
+      expect(analysisResultRepository.update).not.toHaveBeenCalled();
+      expect(analysisResultRepository.updateTranscriptRevision).not.toHaveBeenCalled();
+    });
+
+    it('should reject transcriptions of other meetings', async () => {
+      (transcriptionRepository.findByIds as jest.Mock).mockResolvedValue([
+        segment('t-1', 'Speaker 1'),
+      ]);
+
+      await expect(
+        speakerService.reassignTranscriptions(meeting.id, userId, ['t-1', 't-9'], {
+          name: 'Bob',
+        })
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(transcriptionRepository.reassignSpeaker).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getMeetingSpeakers', () => {
+    it('should suggest names given in earlier meetings of the series', async () => {
+      (meetingRepository.findById as jest.Mock).mockResolvedValue({
+        ...meeting,
+        seriesId: 'series-1',
+      });
+      (speakerMappingRepository.findByMeetingId as jest.Mock).mockResolvedValue([
+        { label: 'Speaker 9', displayName: 'Bob', participant: null },
+      ]);
+      (speakerMappingRepository.findForSeries as jest.Mock).mockResolvedValue([
+        { meetingId: 'meeting-0', label: 'Speaker 1', displayName: 'Alice', participant: alice },
+      ]);
+
+      const speakers = await speakerService.getMeetingSpeakers(meeting.id, userId);
+
+      expect(speakers.map((speaker) => speaker.name)).toEqual(['Bob', 'Speaker 1', 'Speaker 2']);
+      expect(speakers[0]).toMatchObject({ labels: ['Speaker 9'], suggestion: null });
+      expect(speakers[1]).toMatchObject({
+        labels: ['Speaker 1'],
+        suggestion: { meetingId: 'meeting-0', displayName: 'Alice', participant: alice },
+      });
+    });
+  });
+
+  describe('applySeriesMappings', () => {
+    it('should name unmapped speakers as the series last named them', async () => {
+      (meetingRepository.findById as jest.Mock).mockResolvedValue({
+        ...meeting,
+        seriesId: 'series-1',
+      });
+      (speakerMappingRepository.findForSeries as jest.Mock).mockResolvedValue([
+        { label: 'Speaker 1', displayName: 'Alice', participantId: alice.id },
+        { label: 'Speaker 1', displayName: 'Alicia', participantId: null },
+        { label: 'Bob', displayName: 'Robert', participantId: null },
+      ]);
+      (speakerMappingRepository.findByMeetingId as jest.Mock).mockResolvedValue([
+        { label: 'Bob', displayName: 'Bob', participantId: null },
+      ]);
+
+      const applied = await speakerService.applySeriesMappings(meeting.id);
+
+      expect(applied).toBe(1);
+      expect(transcriptionRepository.renameSpeaker).toHaveBeenCalledTimes(1);
+      expect(transcriptionRepository.renameSpeaker).toHaveBeenCalledWith(
+        meeting.id,
+        'Speaker 1',
+        'Alice'
+      );
+      expect(speakerMappingRepository.upsertMapping).toHaveBeenCalledWith(
+        meeting.id,
+        'Speaker 1',
+        { displayName: 'Alice', participantId: alice.id }
+      );
+    });
+
+    it('should do nothing for meetings outside a series', async () => {
+      expect(await speakerService.applySeriesMappings(meeting.id)).toBe(0);
+      expect(speakerMappingRepository.findForSeries).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mergeSpeakerMetrics', () => {
+    it('should leave distinct speakers as they are', () => {
+      const list = [metrics('Alice', 10, 5), metrics('Bob', 20, 10)];
+      expect(mergeSpeakerMetrics(list)).toEqual(list);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { SubtitleUtil } from '../utils/subtitle.util';
+
+const at = (iso: string): Date => new Date(iso);
+
+describe('SubtitleUtil', () => {
+  describe('fromTranscriptions', () => {
+    it('should keep recording offsets stored as 1970 dates', () => {
+      const segments = SubtitleUtil.fromTranscriptions({ startedAt: at('2026-10-19T09:00:00Z') }, [
+        {
+          speakerName: 'Bob',
+          text: 'Second',
+          timestampStart: new Date(12000),
+          timestampEnd: new Date(14500),
+        },
+        {
+          speakerName: 'Alice',
+          text: ' First  line ',
+          timestampStart: new Date(3000),
+          timestampEnd: new Date(5000),
+        },
+      ]);
+
+      expect(segments).toEqual([
+        { speaker: 'Alice', text: 'First line', start: 3000, end: 5000 },
+        { speaker: 'Bob', text: 'Second', start: 12000, end: 14500 },
+      ]);
+    });
+
+    it('should time absolute timestamps from the meeting start', () => {
+      const segments = SubtitleUtil.fromTranscriptions({ startedAt: at('2026-10-19T09:00:00Z') }, [
+        {
+          speakerName: null,
+          text: 'Hello',
+          timestampStart: at('2026-10-19T09:01:00Z'),
+          timestampEnd: at('2026-10-19T09:01:02Z'),
+        },
+      ]);
+
+      expect(segments[0]).toEqual(expect.objectContaining({ start: 60000, end: 62000 }));
+    });
+
+    it('should estimate missing end times without overlapping the next segment', () => {
+      const segments = SubtitleUtil.fromTranscriptions({ startedAt: null }, [
+        {
+          speakerName: 'Alice',
+          text: 'This sentence is long enough to take a few seconds to read',
+          timestampStart: at('2026-10-19T09:00:10Z'),
+          timestampEnd: null,
+        },
+        {
+          speakerName: 'Bob',
+          text: 'Ok',
+          timestampStart: at('2026-10-19T09:00:12Z'),
+          timestampEnd: null,
+        },
+        { speakerName: 'Bob', text: 'Untimed', timestampStart: null, timestampEnd: null },
+      ]);
+
+      expect(segments).toHaveLength(2);
+      expect(segments[0]).toEqual(expect.objectContaining({ start: 0, end: 2000 }));
+      expect(segments[1].start).toBe(2000);
+      expect(segments[1].end).toBeGreaterThan(2000);
+    });
+  });
+
+  describe('buildCues', () => {
+    it('should wrap text to the line length and line count limits', () => {
+      const text =
+        'We agreed to ship the new onboarding flow next sprint once the design review ' +
+        'is done and the copy has been approved by marketing';
+      const cues = SubtitleUtil.buildCues([{ speaker: 'Alice', text, start: 0, end: 6000 }]);
+
+      expect(cues.length).toBeGreaterThan(1);
+      for (const cue of cues) {
+        expect(cue.lines.length).toBeLessThanOrEqual(2);
+        cue.lines.forEach((line) => expect(line.length).toBeLessThanOrEqual(42));
+      }
+      expect(cues.flatMap((cue) => cue.lines).join(' ')).toBe(text);
+      expect(cues[0].start).toBe(0);
+      expect(cues[cues.length - 1].end).toBe(6000);
+    });
+
+    it('should split long segments to respect the maximum duration', () => {
+      const cues = SubtitleUtil.buildCues([
+        { speaker: 'Bob', text: 'Short words spoken very slowly here', start: 1000, end: 21000 },
+      ]);
+
+      expect(cues.length).toBeGreaterThanOrEqual(3);
+      cues.forEach((cue, index) => {
+        expect(cue.end - cue.start).toBeLessThanOrEqual(7000);
+        if (index > 0) expect(cue.start).toBe(cues[index - 1].end);
+      });
+      expect(cues[cues.length - 1].end).toBe(21000);
+    });
+
+    it('should give very short segments a minimum duration', () => {
+      const cues = SubtitleUtil.buildCues([{ text: 'Yes', start: 500, end: 700 }]);
+
+      expect(cues).toEqual([{ speaker: undefined, lines: ['Yes'], start: 500, end: 1500 }]);
+    });
+
+    it('should prefix speakers when requested', () => {
+      const cues = SubtitleUtil.buildCues([{ speaker: 'Alice', text: 'Hi', start: 0, end: 1000 }], {
+        labelSpeakers: true,
+      });
+
+      expect(cues[0].lines).toEqual(['Alice: Hi']);
+    });
+  });
+
+  describe('toSrt', () => {
+    it('should number cues and use comma millisecond separators', () => {
+      const srt = SubtitleUtil.toSrt([
+        { lines: ['Alice: Hello', 'everyone'], start: 1500, end: 4000 },
+        { lines: ['Bob: Hi'], start: 3723004, end: 3725000 },
+      ]);
+
+      expect(srt).toBe(
+        '1\n00:00:01,500 --> 00:00:04,000\nAlice: Hello\neveryone\n\n' +
+          '2\n01:02:03,004 --> 01:02:05,000\nBob: Hi\n'
+      );
+    });
+  });
+
+  describe('toWebVtt', () => {
+    it('should write a header and speakers as escaped voice tags', () => {
+      const vtt = SubtitleUtil.toWebVtt([
+        { speaker: 'R&D <lead>', lines: ['Use a < b', 'and c > d'], start: 0, end: 2500 },
+        { speaker: null, lines: ['No speaker'], start: 2500, end: 4000 },
+      ]);
+
+      expect(vtt).toBe(
+        'WEBVTT\n\n' +
+          '00:00:00.000 --> 00:00:02.500\n<v R&amp;D &lt;lead&gt;>Use a &lt; b\nand c &gt; d\n\n' +
+          '00:00:02.500 --> 00:00:04.000\nNo speaker\n'
+      );
+    });
+  });
+});
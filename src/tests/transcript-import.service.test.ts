@@ -0,0 +1,236 @@
+import { transcriptImportService } from '../services/import/transcript-import.service';
+import { TranscriptFormat } from '../services/import/types/import.types';
+import {
+  meetingRepository,
+  transcriptChunkRepository,
+  transcriptionRepository,
+} from '../repositories';
+import { analysisQueueService } from '../services/ai/analysis-queue.service';
+import { semanticSearchService } from '../services/semantic-search.service';
+import { transcriptRevisionService } from '../services/transcript-revision.service';
+
+jest.mock('../repositories', () => ({
+  meetingRepository: {
+    findById: jest.fn(),
+    update: jest.fn(),
+  },
+  transcriptionRepository: {
+    countByMeetingId: jest.fn(),
+    deleteByMeetingId: jest.fn(),
+    bulkCreate: jest.fn(),
+  },
+  transcriptChunkRepository: {
+    deleteByMeetingId: jest.fn(),
+  },
+}));
+
+jest.mock('../services/ai/analysis-queue.service', () => ({
+  analysisQueueService: {
+    enqueue: jest.fn(),
+  },
+}));
+
+jest.mock('../services/semantic-search.service', () => ({
+  semanticSearchService: {
+    scheduleIndexing: jest.fn(),
+  },
+}));
+
+jest.mock('../services/speaker.service', () => ({
+  speakerService: {
+    applySeriesMappings: jest.fn(),
+  },
+}));
+
+jest.mock('../services/transcript-revision.service', () => ({
+  transcriptRevisionService: {
+    record: jest.fn(),
+  },
+}));
+
+describe('TranscriptImportService', () => {
+  const userId = 'user-123';
+  const meeting = {
+    id: 'meeting-1',
+    userId,
+    title: 'Weekly Sync',
+    status: 'completed',
+    metadata: { source: 'calendar' },
+  };
+
+  const vtt = Buffer.from(
+    [
+      'WEBVTT',
+      '',
+      '00:00:01.000 --> 00:00:03.000',
+      '<v alice  smith>Hello</v>',
+      '',
+      '00:00:04.000 --> 00:00:09.500',
+      '<v Alice Smith>Shall we start?</v>',
+    ].join('\n')
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (meetingRepository.findById as jest.Mock).mockResolvedValue(meeting);
+    (transcriptionRepository.countByMeetingId as jest.Mock).mockResolvedValue(0);
+  });
+
+  describe('detectFormat', () => {
+    it('should recognise each format from its content', () => {
+      expect(transcriptImportService.detectFormat(vtt)).toBe(TranscriptFormat.VTT);
+      expect(
+        transcriptImportService.detectFormat(
+          Buffer.from('1\r\n00:00:01,000 --> 00:00:02,000\r\nHi')
+        )
+      ).toBe(TranscriptFormat.SRT);
+      expect(transcriptImportService.detectFormat(Buffer.from('PK\x03\x04rest'))).toBe(
+        TranscriptFormat.DOCX
+      );
+      expect(transcriptImportService.detectFormat(Buffer.from('Alice: Hi'))).toBe(
+        TranscriptFormat.TEXT
+      );
+    });
+  });
+
+  describe('importTranscript', () => {
+    it('should store segments as offsets with speakers merged', async () => {
+      const result = await transcriptImportService.importTranscript(meeting.id, userId, vtt);
+
+      expect(transcriptionRepository.bulkCreate).toHaveBeenCalledWith([
+        {
+          meetingId: meeting.id,
+          speakerName: 'alice smith',
+          text: 'Hello',
+          timestampStart: new Date(1000),
+          timestampEnd: new Date(3000),
+        },
+        {
+          meetingId: meeting.id,
+          speakerName: 'alice smith',
+          text: 'Shall we start?',
+          timestampStart: new Date(4000),
+          timestampEnd: new Date(9500),
+        },
+      ]);
+      expect(result).toEqual({
+        meetingId: meeting.id,
+        format: TranscriptFormat.VTT,
+        imported: 2,
+        replaced: 0,
+        speakers: ['alice smith'],
+        duration: 9.5,
+        warnings: [],
+      });
+      expect(meetingRepository.update).toHaveBeenCalledWith(meeting.id, {
+        metadata: expect.objectContaining({
+          source: 'calendar',
+          transcription: expect.objectContaining({ totalSegments: 2, importedFrom: 'vtt' }),
+        }),
+      });
+      expect(semanticSearchService.scheduleIndexing).toHaveBeenCalledWith(meeting.id, {
+        flush: true,
+      });
+      expect(analysisQueueService.enqueue).not.toHaveBeenCalled();
+      expect(transcriptRevisionService.record).not.toHaveBeenCalled();
+    });
+
+    it('should estimate times of lines without one and report it', async () => {
+      const result = await transcriptImportService.importTranscript(
+        meeting.id,
+        userId,
+        Buffer.from('[00:01:00] Alice: Fifteen letters\nBob: Next\n\nJust a remark'),
+        { format: TranscriptFormat.TEXT }
+      );
+
+      const rows = (transcriptionRepository.bulkCreate as jest.Mock).mock.calls[0][0];
+      expect(rows.map((row: { timestampStart: Date }) => row.timestampStart.getTime())).toEqual(
+        [60000, 61000, 61267]
+      );
+      expect(result.warnings).toEqual([
+        { message: 'Segments without a timestamp: 2 (times estimated)' },
+        { message: 'Segments without a speaker: 1' },
+      ]);
+    });
+
+    it('should insert large transcripts in batches', async () => {
+      const lines = Array.from({ length: 2500 }, (_, index) => `Speaker ${index % 3}: Line`);
+
+      const result = await transcriptImportService.importTranscript(
+        meeting.id,
+        userId,
+        Buffer.from(lines.join('\n'))
+      );
+
+      expect(result.imported).toBe(2500);
+      expect(transcriptionRepository.bulkCreate).toHaveBeenCalledTimes(3);
+      expect(result.speakers).toEqual(['Speaker 0', 'Speaker 1', 'Speaker 2']);
+    });
+
+    it('should refuse to overwrite a transcript unless asked', async () => {
+      (transcriptionRepository.countByMeetingId as jest.Mock).mockResolvedValue(12);
+
+      await expect(
+        transcriptImportService.importTranscript(meeting.id, userId, vtt)
+      ).rejects.toMatchObject({ statusCode: 409 });
+      expect(transcriptionRepository.bulkCreate).not.toHaveBeenCalled();
+
+      const result = await transcriptImportService.importTranscript(meeting.id, userId, vtt, {
+        replace: true,
+      });
+      expect(result.replaced).toBe(12);
+      expect(transcriptChunkRepository.deleteByMeetingId).toHaveBeenCalledWith(meeting.id);
+      expect(transcriptionRepository.deleteByMeetingId).toHaveBeenCalledWith(meeting.id);
+      expect(transcriptRevisionService.record).toHaveBeenCalledWith(
+        meeting.id,
+        userId,
+        'replace',
+        null,
+        { summary: 'Replaced by an imported vtt transcript' }
+      );
+    });
+
+    it('should queue analysis when asked', async () => {
+      (analysisQueueService.enqueue as jest.Mock).mockResolvedValue({ jobId: 'job-1' });
+
+      const result = await transcriptImportService.importTranscript(meeting.id, userId, vtt, {
+        analyze: true,
+      });
+
+      expect(result.analysisJobId).toBe('job-1');
+      expect(analysisQueueService.enqueue).toHaveBeenCalledWith(
+        meeting.id,
+        userId,
+        expect.arrayContaining(['meeting_summary', 'action_items'])
+      );
+    });
+
+    it('should reject files without a transcript', async () => {
+      await expect(
+        transcriptImportService.importTranscript(meeting.id, userId, Buffer.from('WEBVTT\n\n'))
+      ).rejects.toMatchObject({
+        statusCode: 400,
+        message: 'No transcript found in the file (read as vtt)',
+      });
+    });
+
+    it('should check the meeting exists, is the user\'s and is not live', async () => {
+      (meetingRepository.findById as jest.Mock).mockResolvedValueOnce(null);
+      await expect(
+        transcriptImportService.importTranscript('missing', userId, vtt)
+      ).rejects.toMatchObject({ statusCode: 404 });
+
+      await expect(
+        transcriptImportService.importTranscript(meeting.id, 'other-user', vtt)
+      ).rejects.toMatchObject({ statusCode: 403 });
+
+      (meetingRepository.findById as jest.Mock).mockResolvedValueOnce({
+        ...meeting,
+        status: 'in_progress',
+      });
+      await expect(
+        transcriptImportService.importTranscript(meeting.id, userId, vtt)
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+});
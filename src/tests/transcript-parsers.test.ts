@@ -0,0 +1,213 @@
+import JSZip from 'jszip';
+import { Document, Packer, Paragraph, TextRun } from 'docx';
+import { vttParser } from '../services/import/parsers/vtt.parser';
+import { srtParser } from '../services/import/parsers/srt.parser';
+import { textParser } from '../services/import/parsers/text.parser';
+import { docxParser } from '../services/import/parsers/docx.parser';
+import { parseTimestamp } from '../services/import/import-format';
+
+const file = (lines: string[]): Buffer => Buffer.from(lines.join('\n'));
+
+describe('Transcript parsers', () => {
+  describe('parseTimestamp', () => {
+    it('should read subtitle, Teams and short timestamps', () => {
+      expect(parseTimestamp('00:01:02.500')).toBe(62500);
+      expect(parseTimestamp('00:01:02,500')).toBe(62500);
+      expect(parseTimestamp('0:0:4.83')).toBe(4830);
+      expect(parseTimestamp('1:05')).toBe(65000);
+      expect(parseTimestamp('1:02:03')).toBe(3723000);
+      expect(parseTimestamp('12:75')).toBeNull();
+      expect(parseTimestamp('soon')).toBeNull();
+    });
+  });
+
+  describe('vtt', () => {
+    it('should read Teams voice tags and skip notes', async () => {
+      const result = await vttParser.parse(
+        file([
+          '\uFEFFWEBVTT',
+          '',
+          'NOTE exported by Teams',
+          '',
+          '8c1f-4/12-0',
+          '00:00:01.000 --> 00:00:03.500 align:start',
+          '<v Alice Smith>Morning &amp; welcome</v>',
+          '',
+          '00:00:04.000 --> 00:00:06.000',
+          '<v Bob>Thanks,',
+          'glad to be here</v>',
+        ])
+      );
+
+      expect(result.warnings).toEqual([]);
+      expect(result.segments).toEqual([
+        { speaker: 'Alice Smith', text: 'Morning & welcome', start: 1000, end: 3500, line: 5 },
+        { speaker: 'Bob', text: 'Thanks, glad to be here', start: 4000, end: 6000, line: 9 },
+      ]);
+    });
+
+    it('should read Zoom speaker prefixes and warn about broken cues', async () => {
+      const result = await vttParser.parse(
+        file([
+          'WEBVTT',
+          '',
+          '1',
+          '00:00:01.000 --> 00:00:02.000',
+          'Alice: Can everyone hear me?',
+          '',
+          '2',
+          '00:00:xx --> 00:00:03.000',
+          'Bob: Yes',
+          '',
+          '3',
+          '00:00:05.000 --> 00:00:04.000',
+          'Loud and clear',
+        ])
+      );
+
+      expect(result.segments).toEqual([
+        { speaker: 'Alice', text: 'Can everyone hear me?', start: 1000, end: 2000, line: 3 },
+        { text: 'Loud and clear', start: 5000, end: undefined, line: 11 },
+      ]);
+      expect(result.warnings).toEqual([
+        { line: 8, message: 'Skipped cue with invalid timing "00:00:xx --> 00:00:03.000"' },
+        { line: 12, message: 'Cue ends before it starts, end time ignored' },
+      ]);
+    });
+
+    it('should warn when the header is missing', async () => {
+      const result = await vttParser.parse(file(['00:00:01.000 --> 00:00:02.000', 'Hello']));
+
+      expect(result.warnings).toEqual([{ line: 1, message: 'Missing WEBVTT header' }]);
+      expect(result.segments).toHaveLength(1);
+    });
+  });
+
+  describe('srt', () => {
+    it('should read cues, markup and speaker prefixes', async () => {
+      const result = await srtParser.parse(
+        file([
+          '1',
+          '00:00:01,000 --> 00:00:02,500',
+          '<i>Alice: Let us begin</i>',
+          '',
+          '2',
+          '00:00:03,000 --> 00:00:05,000',
+          'We meet again at 10:30 tomorrow',
+        ])
+      );
+
+      expect(result.segments).toEqual([
+        { speaker: 'Alice', text: 'Let us begin', start: 1000, end: 2500, line: 1 },
+        {
+          speaker: undefined,
+          text: 'We meet again at 10:30 tomorrow',
+          start: 3000,
+          end: 5000,
+          line: 5,
+        },
+      ]);
+    });
+  });
+
+  describe('txt', () => {
+    it('should read speaker lines with and without timestamps', async () => {
+      const result = await textParser.parse(
+        file([
+          '[00:00:05] Alice: First point',
+          'continues here',
+          'Bob: Second point',
+          '',
+          'A note without a speaker',
+        ])
+      );
+
+      expect(result.segments).toEqual([
+        { speaker: 'Alice', text: 'First point continues here', start: 5000, line: 1 },
+        { speaker: 'Bob', text: 'Second point', line: 3 },
+        { speaker: undefined, text: 'A note without a speaker', line: 5 },
+      ]);
+    });
+
+    it('should read Otter speaker headings', async () => {
+      const result = await textParser.parse(
+        file(['Alice Smith  0:03', 'Hello everyone.', '', 'Bob  1:12', 'Hi Alice.', 'Ready?'])
+      );
+
+      expect(result.segments).toEqual([
+        { speaker: 'Alice Smith', text: 'Hello everyone.', start: 3000, line: 1 },
+        { speaker: 'Bob', text: 'Hi Alice. Ready?', start: 72000, line: 4 },
+      ]);
+    });
+  });
+
+  describe('docx', () => {
+    const docx = (paragraphs: string[]): Promise<Buffer> =>
+      Packer.toBuffer(
+        new Document({
+          sections: [
+            {
+              children: paragraphs.map(
+                (paragraph) => new Paragraph({ children: [new TextRun(paragraph)] })
+              ),
+            },
+          ],
+        })
+      );
+
+    it('should read Teams transcripts with timing lines', async () => {
+      const result = await docxParser.parse(
+        await docx([
+          'Weekly sync transcript',
+          '0:0:0.0 --> 0:0:4.5',
+          'Alice Smith',
+          'Welcome & thanks for joining',
+          '0:0:5.0 --> 0:0:7.25',
+          'Bob',
+          'Happy to be here',
+        ])
+      );
+
+      expect(result.segments).toEqual([
+        { speaker: undefined, text: 'Weekly sync transcript', line: 1 },
+        {
+          speaker: 'Alice Smith',
+          text: 'Welcome & thanks for joining',
+          start: 0,
+          end: 4500,
+          line: 3,
+        },
+        { speaker: 'Bob', text: 'Happy to be here', start: 5000, end: 7250, line: 6 },
+      ]);
+    });
+
+    it('should read Teams transcripts with speaker headings', async () => {
+      const result = await docxParser.parse(
+        await docx(['Alice Smith   0:03', 'Welcome', 'Bob   0:10', 'Thanks'])
+      );
+
+      expect(result.segments.map(({ speaker, start }) => ({ speaker, start }))).toEqual([
+        { speaker: 'Alice Smith', start: 3000 },
+        { speaker: 'Bob', start: 10000 },
+      ]);
+    });
+
+    it('should reject files that are not Word documents', async () => {
+      await expect(docxParser.parse(Buffer.from('not a zip'))).rejects.toMatchObject({
+        statusCode: 400,
+      });
+    });
+
+    it('should stop inflating documents that expand past the size limit', async () => {
+      const zip = new JSZip();
+      zip.file('word/document.xml', ' '.repeat(60 * 1024 * 1024));
+      const bomb = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+
+      expect(bomb.length).toBeLessThan(1024 * 1024);
+      await expect(docxParser.parse(bomb)).rejects.toMatchObject({
+        statusCode: 400,
+        message: 'The Word document is too large to import',
+      });
+    });
+  });
+});
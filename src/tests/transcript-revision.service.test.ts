@@ -0,0 +1,418 @@
+import { transcriptRevisionService } from '../services/transcript-revision.service';
+import { transcriptEditService } from '../services/transcript-edit.service';
+import { semanticSearchService } from '../services/semantic-search.service';
+import {
+  actionItemRepository,
+  decisionRepository,
+  meetingRepository,
+  transcriptChunkRepository,
+  transcriptionRepository,
+  transcriptRevisionRepository,
+} from '../repositories';
+import { TranscriptRevisionAction } from '../types/transcript-revision.types';
+import { TextDiffUtil } from '../utils/text-diff.util';
+
+jest.mock('../repositories', () => ({
+  meetingRepository: {
+    findById: jest.fn(),
+    nextTranscriptRevision: jest.fn(),
+  },
+  transcriptionRepository: {
+    findById: jest.fn(),
+    findByIds: jest.fn(),
+    create: jest.fn(),
+    bulkCreate: jest.fn(),
+    update: jest.fn(),
+    deleteByIds: jest.fn(),
+  },
+  transcriptChunkRepository: {
+    deleteByTranscriptionIds: jest.fn(),
+  },
+  transcriptRevisionRepository: {
+    create: jest.fn(),
+    findByRevision: jest.fn(),
+    findBetween: jest.fn(),
+  },
+  actionItemRepository: {
+    moveSourceTranscriptions: jest.fn(),
+  },
+  decisionRepository: {
+    moveSourceTranscriptions: jest.fn(),
+  },
+}));
+
+jest.mock('../services/semantic-search.service', () => ({
+  semanticSearchService: {
+    scheduleIndexing: jest.fn(),
+  },
+}));
+
+describe('TranscriptRevisionService', () => {
+  const userId = 'user-123';
+  const meeting = { id: 'meeting-1', userId, transcriptRevision: 3 };
+
+  const segment = (id: string, text: string, start: number, end: number) => ({
+    id,
+    meetingId: meeting.id,
+    speakerName: 'Alice',
+    text,
+    timestampStart: new Date(start),
+    timestampEnd: new Date(end),
+    confidence: null,
+  });
+
+  const snapshot = (id: string, text: string, start: number, end: number) => ({
+    id,
+    speakerName: 'Alice',
+    text,
+    timestampStart: new Date(start).toISOString(),
+    timestampEnd: new Date(end).toISOString(),
+    confidence: null,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (meetingRepository.findById as jest.Mock).mockResolvedValue(meeting);
+    (meetingRepository.nextTranscriptRevision as jest.Mock).mockResolvedValue(4);
+    (transcriptRevisionRepository.create as jest.Mock).mockImplementation(async (data) => ({
+      id: 'revision-id',
+      ...data,
+    }));
+  });
+
+  describe('record', () => {
+    it('should record the next revision and reindex segments whose text changed', async () => {
+      const changes = {
+        before: [snapshot('t-1', 'Hello wrld', 0, 1000), snapshot('t-2', 'Bye', 1000, 2000)],
+        after: [
+          snapshot('t-1', 'Hello world', 0, 1000),
+          { ...snapshot('t-2', 'Bye', 1000, 2000), speakerName: 'Bob' },
+        ],
+      };
+
+      const entry = await transcriptRevisionService.record(
+        meeting.id,
+        userId,
+        TranscriptRevisionAction.EDIT,
+        changes,
+        { summary: 'Edited text' }
+      );
+
+      expect(entry).toMatchObject({ revision: 4, action: 'edit', authorId: userId });
+      expect(transcriptChunkRepository.deleteByTranscriptionIds).toHaveBeenCalledWith(meeting.id, [
+        't-1',
+      ]);
+      expect(semanticSearchService.scheduleIndexing).toHaveBeenCalledWith(meeting.id, {
+        flush: true,
+      });
+    });
+
+    it('should not reindex when a revision keeps no changes', async () => {
+      await transcriptRevisionService.record(
+        meeting.id,
+        userId,
+        TranscriptRevisionAction.CLEAR,
+        null
+      );
+
+      expect(transcriptRevisionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ revision: 4, changes: undefined })
+      );
+      expect(transcriptChunkRepository.deleteByTranscriptionIds).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('diff', () => {
+    it('should compose revisions into the segments that changed', async () => {
+      (transcriptRevisionRepository.findBetween as jest.Mock).mockResolvedValue([
+        {
+          revision: 2,
+          action: 'edit',
+          changes: {
+            before: [snapshot('t-2', 'We ship on friday', 5000, 6000)],
+            after: [snapshot('t-2', 'We ship on Monday', 5000, 6000)],
+          },
+        },
+        {
+          revision: 3,
+          action: 'insert',
+          changes: { before: [], after: [snapshot('t-9', 'Missed this', 1000, 2000)] },
+        },
+      ]);
+
+      const diff = await transcriptRevisionService.diff(meeting.id, userId, 1);
+
+      expect(transcriptRevisionRepository.findBetween).toHaveBeenCalledWith(meeting.id, 1, 3);
+      expect(diff.toRevision).toBe(3);
+      expect(diff.segments.map((s) => [s.transcriptionId, s.change])).toEqual([
+        ['t-9', 'added'],
+        ['t-2', 'modified'],
+      ]);
+      expect(diff.segments[1].textDiff).toEqual([
+        { type: 'equal', text: 'We ship on ' },
+        { type: 'delete', text: 'friday' },
+        { type: 'insert', text: 'Monday' },
+      ]);
+    });
+
+    it('should leave out segments changed and changed back', async () => {
+      (transcriptRevisionRepository.findBetween as jest.Mock).mockResolvedValue([
+        {
+          revision: 1,
+          action: 'edit',
+          changes: {
+            before: [snapshot('t-1', 'Hi', 0, 1000)],
+            after: [snapshot('t-1', 'Hey', 0, 1000)],
+          },
+        },
+        {
+          revision: 2,
+          action: 'revert',
+          changes: {
+            before: [snapshot('t-1', 'Hey', 0, 1000)],
+            after: [snapshot('t-1', 'Hi', 0, 1000)],
+          },
+        },
+      ]);
+
+      const diff = await transcriptRevisionService.diff(meeting.id, userId, 0, 2);
+
+      expect(diff.segments).toEqual([]);
+    });
+
+    it('should reject revisions out of range', async () => {
+      await expect(transcriptRevisionService.diff(meeting.id, userId, 3)).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      await expect(transcriptRevisionService.diff(meeting.id, userId, 0, 5)).rejects.toMatchObject(
+        { statusCode: 400 }
+      );
+    });
+
+    it('should reject diffs across a transcript replacement', async () => {
+      (transcriptRevisionRepository.findBetween as jest.Mock).mockResolvedValue([
+        { revision: 2, action: 'replace', changes: null },
+      ]);
+
+      await expect(transcriptRevisionService.diff(meeting.id, userId, 1)).rejects.toMatchObject({
+        statusCode: 400,
+      });
+    });
+  });
+
+  describe('revert', () => {
+    const split = {
+      revision: 2,
+      action: 'split',
+      changes: {
+        before: [snapshot('t-1', 'One two', 0, 2000)],
+        after: [snapshot('t-1', 'One', 0, 1000), snapshot('t-2', 'two', 1000, 2000)],
+      },
+    };
+
+    it('should put split segments back as they were', async () => {
+      (transcriptRevisionRepository.findByRevision as jest.Mock).mockResolvedValue(split);
+      (transcriptionRepository.findByIds as jest.Mock).mockResolvedValueOnce([
+        segment('t-1', 'One', 0, 1000),
+        segment('t-2', 'two', 1000, 2000),
+      ]);
+
+      const result = await transcriptRevisionService.revert(meeting.id, userId, 2);
+
+      expect(transcriptionRepository.deleteByIds).toHaveBeenCalledWith(meeting.id, ['t-2']);
+      expect(transcriptionRepository.update).toHaveBeenCalledWith(
+        't-1',
+        expect.objectContaining({ text: 'One two', timestampEnd: new Date(2000) })
+      );
+      expect(transcriptRevisionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'revert',
+          revertedRevision: 2,
+          summary: 'Reverted revision 2',
+          changes: { before: split.changes.after, after: split.changes.before },
+        })
+      );
+      expect(result.revision.revision).toBe(4);
+    });
+
+    it('should restore merged segments with their ids', async () => {
+      const merge = {
+        revision: 2,
+        action: 'merge',
+        changes: { before: split.changes.after, after: split.changes.before },
+      };
+      (transcriptRevisionRepository.findByRevision as jest.Mock).mockResolvedValue(merge);
+      (transcriptionRepository.findByIds as jest.Mock).mockResolvedValueOnce([
+        segment('t-1', 'One two', 0, 2000),
+      ]);
+
+      await transcriptRevisionService.revert(meeting.id, userId, 2);
+
+      expect(transcriptionRepository.bulkCreate).toHaveBeenCalledWith([
+        expect.objectContaining({ id: 't-2', meetingId: meeting.id, text: 'two' }),
+      ]);
+      expect(transcriptionRepository.deleteByIds).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to revert segments changed since', async () => {
+      (transcriptRevisionRepository.findByRevision as jest.Mock).mockResolvedValue(split);
+      (transcriptionRepository.findByIds as jest.Mock).mockResolvedValueOnce([
+        segment('t-1', 'One!', 0, 1000),
+        segment('t-2', 'two', 1000, 2000),
+      ]);
+
+      await expect(transcriptRevisionService.revert(meeting.id, userId, 2)).rejects.toMatchObject({
+        statusCode: 409,
+      });
+      expect(transcriptionRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to revert a transcript replacement', async () => {
+      (transcriptRevisionRepository.findByRevision as jest.Mock).mockResolvedValue({
+        revision: 1,
+        action: 'replace',
+        changes: null,
+      });
+
+      await expect(transcriptRevisionService.revert(meeting.id, userId, 1)).rejects.toMatchObject({
+        statusCode: 400,
+      });
+    });
+  });
+});
+
+describe('TranscriptEditService', () => {
+  const userId = 'user-123';
+  const meeting = { id: 'meeting-1', userId, transcriptRevision: 0 };
+
+  const segment = (id: string, text: string, start: number, end: number, confidence = 0.9) => ({
+    id,
+    meetingId: meeting.id,
+    speakerName: 'Alice',
+    text,
+    timestampStart: new Date(start),
+    timestampEnd: new Date(end),
+    confidence,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (meetingRepository.findById as jest.Mock).mockResolvedValue(meeting);
+    (meetingRepository.nextTranscriptRevision as jest.Mock).mockResolvedValue(1);
+    (transcriptRevisionRepository.create as jest.Mock).mockImplementation(async (data) => data);
+    (transcriptionRepository.update as jest.Mock).mockImplementation(async (id, data) => ({
+      ...segment(id, '', 0, 0),
+      ...data,
+    }));
+    (transcriptionRepository.create as jest.Mock).mockImplementation(async (data) => ({
+      id: 't-new',
+      confidence: null,
+      ...data,
+    }));
+  });
+
+  it('should record an edit of a segment', async () => {
+    (transcriptionRepository.findById as jest.Mock).mockResolvedValue(
+      segment('t-1', 'Helo', 0, 1000)
+    );
+
+    const result = await transcriptEditService.editSegment(meeting.id, userId, 't-1', {
+      text: ' Hello ',
+    });
+
+    expect(transcriptionRepository.update).toHaveBeenCalledWith('t-1', { text: 'Hello' });
+    expect(result.revision).toMatchObject({ revision: 1, action: 'edit', authorId: userId });
+  });
+
+  it('should reject edits that change nothing', async () => {
+    (transcriptionRepository.findById as jest.Mock).mockResolvedValue(
+      segment('t-1', 'Hello', 0, 1000)
+    );
+
+    await expect(
+      transcriptEditService.editSegment(meeting.id, userId, 't-1', { speakerName: 'Alice' })
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('should split a segment sharing its time by length', async () => {
+    (transcriptionRepository.findById as jest.Mock).mockResolvedValue(
+      segment('t-1', 'abc defghij', 0, 1000)
+    );
+
+    const result = await transcriptEditService.splitSegment(meeting.id, userId, 't-1', {
+      at: 3,
+      speakerName: 'Bob',
+    });
+
+    expect(transcriptionRepository.update).toHaveBeenCalledWith('t-1', {
+      text: 'abc',
+      timestampEnd: new Date(300),
+    });
+    expect(transcriptionRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        speakerName: 'Bob',
+        text: 'defghij',
+        timestampStart: new Date(300),
+        timestampEnd: new Date(1000),
+      })
+    );
+    expect(result.segments).toHaveLength(2);
+  });
+
+  it('should reject a split point at the edge of the text', async () => {
+    (transcriptionRepository.findById as jest.Mock).mockResolvedValue(
+      segment('t-1', 'Hello', 0, 1000)
+    );
+
+    await expect(
+      transcriptEditService.splitSegment(meeting.id, userId, 't-1', { at: 5 })
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('should merge segments into the first and move their sources', async () => {
+    (transcriptionRepository.findByIds as jest.Mock).mockResolvedValue([
+      segment('t-1', 'One', 0, 1000, 0.9),
+      segment('t-2', 'two', 1000, 2500, 0.7),
+    ]);
+
+    await transcriptEditService.mergeSegments(meeting.id, userId, ['t-2', 't-1']);
+
+    expect(transcriptionRepository.update).toHaveBeenCalledWith(
+      't-1',
+      expect.objectContaining({ text: 'One two', timestampEnd: new Date(2500) })
+    );
+    expect(actionItemRepository.moveSourceTranscriptions).toHaveBeenCalledWith(['t-2'], 't-1');
+    expect(decisionRepository.moveSourceTranscriptions).toHaveBeenCalledWith(['t-2'], 't-1');
+    expect(transcriptionRepository.deleteByIds).toHaveBeenCalledWith(meeting.id, ['t-2']);
+    expect(transcriptRevisionRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'merge', summary: 'Merged 2 segments' })
+    );
+  });
+
+  it('should reject merging segments of another meeting', async () => {
+    (transcriptionRepository.findByIds as jest.Mock).mockResolvedValue([
+      segment('t-1', 'One', 0, 1000),
+    ]);
+
+    await expect(
+      transcriptEditService.mergeSegments(meeting.id, userId, ['t-1', 't-x'])
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should not let other users edit the transcript', async () => {
+    await expect(
+      transcriptEditService.insertSegment(meeting.id, 'someone-else', { text: 'Hi' })
+    ).rejects.toMatchObject({ statusCode: 403 });
+  });
+});
+
+describe('TextDiffUtil', () => {
+  it('should diff text by words', () => {
+    expect(TextDiffUtil.diffWords('the quick fox', 'the slow brown fox')).toEqual([
+      { type: 'equal', text: 'the ' },
+      { type: 'delete', text: 'quick ' },
+      { type: 'insert', text: 'slow brown ' },
+      { type: 'equal', text: 'fox' },
+    ]);
+  });
+});
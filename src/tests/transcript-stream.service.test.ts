@@ -0,0 +1,121 @@
+import { TranscriptStreamService } from '../services/transcript-stream.service';
+import { cacheService } from '../services/cache.service';
+import { getRedisSubscriber } from '../config/redis';
+
+jest.mock('../services/cache.service', () => ({
+  cacheService: {
+    get: jest.fn(),
+    set: jest.fn(),
+    publish: jest.fn(),
+  },
+}));
+jest.mock('../config/redis', () => ({
+  getRedisSubscriber: jest.fn(),
+}));
+
+const mockedCacheService = cacheService as jest.Mocked<typeof cacheService>;
+
+describe('TranscriptStreamService', () => {
+  let service: TranscriptStreamService;
+  let channelHandlers: Map<string, (message: string) => void>;
+  let mockSubscriber: { subscribe: jest.Mock; unsubscribe: jest.Mock };
+
+  const mockTranscription = {
+    id: 'transcription-1',
+    meetingId: 'meeting-123',
+    speakerName: 'Alice',
+    text: 'Hello everyone',
+    timestampStart: new Date('2025-01-01T10:00:00Z'),
+    timestampEnd: new Date('2025-01-01T10:00:02Z'),
+    confidence: 0.9,
+    createdAt: new Date(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new TranscriptStreamService();
+    channelHandlers = new Map();
+
+    mockSubscriber = {
+      subscribe: jest.fn(async (channel: string, handler: (message: string) => void) => {
+        channelHandlers.set(channel, handler);
+      }),
+      unsubscribe: jest.fn(async (channel: string) => {
+        channelHandlers.delete(channel);
+      }),
+    };
+    (getRedisSubscriber as jest.Mock).mockResolvedValue(mockSubscriber);
+
+    // Route published messages straight back to the subscriber, like Redis would
+    mockedCacheService.publish.mockImplementation(async (channel: string, message: unknown) => {
+      channelHandlers.get(channel)?.(JSON.stringify(message));
+      return 1;
+    });
+  });
+
+  describe('publishSegment', () => {
+    it('should emit a speaker change before the first segment of a new speaker', async () => {
+      mockedCacheService.get.mockResolvedValue('Bob');
+
+      await service.publishSegment(mockTranscription as any);
+
+      expect(mockedCacheService.publish).toHaveBeenCalledTimes(2);
+      expect(mockedCacheService.publish.mock.calls[0][1]).toMatchObject({
+        type: 'speaker_change',
+        previousSpeaker: 'Bob',
+        speaker: 'Alice',
+      });
+      expect(mockedCacheService.publish.mock.calls[1][1]).toMatchObject({
+        type: 'segment',
+        segment: { id: 'transcription-1', text: 'Hello everyone', confidence: 0.9 },
+      });
+    });
+
+    it('should only emit the segment when the speaker is unchanged', async () => {
+      mockedCacheService.get.mockResolvedValue('Alice');
+
+      await service.publishSegment(mockTranscription as any);
+
+      expect(mockedCacheService.publish).toHaveBeenCalledTimes(1);
+      expect(mockedCacheService.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should deliver events to every local listener of a meeting', async () => {
+      const first = jest.fn();
+      const second = jest.fn();
+
+      await service.subscribe('meeting-123', first);
+      await service.subscribe('meeting-123', second);
+      await service.publishSessionStatus('meeting-123', 'session-1', 'paused');
+
+      // One Redis subscription is shared by all listeners of the meeting
+      expect(mockSubscriber.subscribe).toHaveBeenCalledTimes(1);
+      expect(first).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'session_status', status: 'paused' })
+      );
+      expect(second).toHaveBeenCalledTimes(1);
+    });
+
+    it('should drop the Redis subscription after the last listener leaves', async () => {
+      const first = await service.subscribe('meeting-123', jest.fn());
+      const second = await service.subscribe('meeting-123', jest.fn());
+
+      await first();
+      expect(mockSubscriber.unsubscribe).not.toHaveBeenCalled();
+
+      await second();
+      expect(mockSubscriber.unsubscribe).toHaveBeenCalledWith('transcript_stream:meeting-123');
+    });
+
+    it('should not deliver events from other meetings', async () => {
+      const listener = jest.fn();
+      await service.subscribe('meeting-123', listener);
+
+      await service.publishSessionStatus('meeting-456', 'session-2', 'completed');
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -10,6 +10,7 @@ import {
 
 jest.mock('../repositories/transcription.repository');
 jest.mock('../repositories/meeting.repository');
+jest.mock('../repositories/transcript-chunk.repository');
 jest.mock('../services/cache.service', () => ({
   cacheService: {
     get: jest.fn(),
@@ -18,7 +19,27 @@ jest.mock('../services/cache.service', () => ({
   },
 }));
 
+jest.mock('../services/transcript-stream.service', () => ({
+  transcriptStreamService: {
+    publishSegment: jest.fn(),
+    publishSessionStatus: jest.fn(),
+  },
+}));
+
+jest.mock('../services/semantic-search.service', () => ({
+  semanticSearchService: {
+    scheduleIndexing: jest.fn(),
+  },
+}));
+
+jest.mock('../services/transcript-revision.service', () => ({
+  transcriptRevisionService: {
+    record: jest.fn(),
+  },
+}));
+
 import { cacheService } from '../services/cache.service';
+import { transcriptRevisionService } from '../services/transcript-revision.service';
 
 const mockedTranscriptionRepository = transcriptionRepository as jest.Mocked<typeof transcriptionRepository>;
 const mockedMeetingRepository = meetingRepository as jest.Mocked<typeof meetingRepository>;
@@ -179,6 +200,44 @@ describe('TranscriptionService', () => {
 
       expect(segment.speakerName).toBe('Unknown Speaker');
     });
+
+    it('should keep the speaker confidence of a diarized chunk', async () => {
+      const audioChunk = {
+        chunkId: 'chunk-123',
+        meetingId: 'meeting-123',
+        timestamp: 12,
+        duration: 5,
+        speaker: 'Speaker 2',
+        speakerConfidence: 0.8,
+      };
+
+      mockedTranscriptionRepository.create.mockResolvedValue(mockTranscription as any);
+
+      const segment = await service.processAudioChunk(audioChunk, 'Hello', 0.95);
+
+      expect(segment).toMatchObject({ speakerName: 'Speaker 2', speakerConfidence: 0.8 });
+      expect(mockedTranscriptionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ speakerConfidence: new Decimal(0.8) })
+      );
+    });
+
+    it('should not give a confidence to speakers named by the source', async () => {
+      const audioChunk = {
+        chunkId: 'chunk-123',
+        meetingId: 'meeting-123',
+        timestamp: 12,
+        duration: 5,
+        speaker: 'Speaker 2',
+        speakerConfidence: 0.8,
+      };
+
+      mockedTranscriptionRepository.create.mockResolvedValue(mockTranscription as any);
+
+      const segment = await service.processAudioChunk(audioChunk, 'Hello', 0.95, 'Jane Doe');
+
+      expect(segment.speakerName).toBe('Jane Doe');
+      expect(segment.speakerConfidence).toBeUndefined();
+    });
   });
 
   describe('processAudioChunkBatch', () => {
@@ -553,6 +612,13 @@ describe('TranscriptionService', () => {
       await service.deleteTranscription('meeting-123', 'user-123');
 
       expect(mockedTranscriptionRepository.deleteByMeetingId).toHaveBeenCalledWith('meeting-123');
+      expect(transcriptRevisionService.record).toHaveBeenCalledWith(
+        'meeting-123',
+        'user-123',
+        'clear',
+        null,
+        { summary: 'Deleted the transcript' }
+      );
     });
 
     it('should throw error when meeting not found', async () => {
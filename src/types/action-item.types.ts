@@ -0,0 +1,42 @@
+import { ActionItem } from '@prisma/client';
+
+/**
+ * Action item status
+ */
+export enum ActionItemStatus {
+  OPEN = 'open',
+  IN_PROGRESS = 'in_progress',
+  DONE = 'done',
+}
+
+/**
+ * Action item priority
+ */
+export type ActionItemPriority = 'low' | 'medium' | 'high';
+
+/**
+ * Action item with the meeting it came from
+ */
+export interface ActionItemWithMeeting extends ActionItem {
+  meeting: {
+    id: string;
+    title: string;
+    userId: string;
+    scheduledAt: Date | null;
+    startedAt: Date | null;
+  };
+}
+
+/**
+ * Action item list filters
+ */
+export interface ActionItemFilters {
+  statuses?: ActionItemStatus[];
+  priority?: ActionItemPriority;
+  owner?: string;
+  dueBefore?: Date;
+  dueAfter?: Date;
+  overdue?: boolean;
+  skip?: number;
+  take?: number;
+}
@@ -0,0 +1,11 @@
+/**
+ * Outcome of importing a calendar file or syncing a feed
+ */
+export interface CalendarImportResult {
+  calendarName?: string;
+  created: number;
+  updated: number;
+  cancelled: number;
+  skipped: number; // All-day events, cancelled events never imported, meetings already held
+  warnings: string[];
+}
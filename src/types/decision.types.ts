@@ -0,0 +1,55 @@
+import { Decision, DecisionLink } from '@prisma/client';
+
+/**
+ * Decision status
+ */
+export enum DecisionStatus {
+  ACTIVE = 'active',
+  SUPERSEDED = 'superseded',
+}
+
+/**
+ * How a later decision relates to an earlier one
+ */
+export enum DecisionRelation {
+  REVISITS = 'revisits',
+  SUPERSEDES = 'supersedes',
+}
+
+/**
+ * Decision fields shown on the other end of a link
+ */
+export interface LinkedDecisionSummary {
+  id: string;
+  meetingId: string;
+  description: string;
+  status: string;
+  decidedAt: Date;
+}
+
+/**
+ * Decision with its meeting and links in both directions
+ */
+export interface DecisionWithLinks extends Decision {
+  meeting: {
+    id: string;
+    title: string;
+    userId: string;
+  };
+  links: (DecisionLink & { relatedDecision: LinkedDecisionSummary })[];
+  linkedFrom: (DecisionLink & { decision: LinkedDecisionSummary })[];
+}
+
+/**
+ * Decision log filters
+ */
+export interface DecisionLogFilters {
+  q?: string;
+  meetingIds?: string[];
+  participant?: string;
+  status?: DecisionStatus;
+  startDate?: Date;
+  endDate?: Date;
+  skip?: number;
+  take?: number;
+}
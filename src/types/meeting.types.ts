@@ -1,4 +1,12 @@
-import { Meeting, Transcription, AnalysisResult, User } from '@prisma/client';
+import {
+  Meeting,
+  MeetingSeries,
+  Transcription,
+  AnalysisResult,
+  ActionItem,
+  Decision,
+  User,
+} from '@prisma/client';
 
 /**
  * Meeting with transcriptions relation
@@ -21,4 +29,15 @@ export interface MeetingWithRelations extends Meeting {
   user?: Pick<User, 'id' | 'email' | 'fullName'>;
   transcriptions?: Transcription[];
   analysisResults?: AnalysisResult[];
+  actionItems?: ActionItem[];
+  decisions?: Decision[];
+}
+
+/**
+ * Meeting with what its calendar event shows
+ */
+export interface MeetingForCalendar extends Meeting {
+  series?: Pick<MeetingSeries, 'durationMinutes'> | null;
+  analysisResults?: AnalysisResult[];
+  actionItems?: ActionItem[];
 }
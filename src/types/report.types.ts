@@ -0,0 +1,75 @@
+/**
+ * Sections of a meeting report, in their default order
+ */
+export enum ReportSection {
+  METADATA = 'metadata',
+  SUMMARY = 'summary',
+  KEY_POINTS = 'key_points',
+  DECISIONS = 'decisions',
+  ACTION_ITEMS = 'action_items',
+  PARTICIPATION = 'participation',
+  TOPICS = 'topics',
+}
+
+/**
+ * Document formats a meeting report can be rendered as
+ */
+export type ReportFormat = 'pdf' | 'docx';
+
+/**
+ * Look of a rendered report, from a report template or the defaults
+ */
+export interface ReportBranding {
+  brandName?: string | null;
+  logo?: { data: Buffer; type: 'png' | 'jpg' } | null;
+  primaryColor: string; // #RRGGBB
+  headerText?: string | null;
+  footerText?: string | null;
+}
+
+/**
+ * Action item row of the report table
+ */
+export interface ReportActionItem {
+  description: string;
+  owner: string | null;
+  dueDate: Date | null;
+  priority: string | null;
+  status: string | null;
+}
+
+/**
+ * Speaker participation row, from the speaker metrics analysis
+ */
+export interface ReportParticipant {
+  speakerName: string;
+  totalWords: number;
+  speakingTime: number; // in seconds
+  speakingPercentage: number; // 0-100
+}
+
+/**
+ * Everything a meeting report shows, independent of the document format
+ */
+export interface MeetingReport {
+  title: string;
+  metadata: { label: string; value: string }[];
+  summary: string | null;
+  keyPoints: string[];
+  decisions: { description: string; rationale: string | null }[];
+  actionItems: ReportActionItem[];
+  participants: ReportParticipant[];
+  topics: string[];
+  transcript: { timestamp: string | null; speaker: string; text: string }[] | null;
+  sections: ReportSection[];
+  generatedAt: Date;
+}
+
+/**
+ * Report options taken from the export request
+ */
+export interface ReportOptions {
+  templateId?: string;
+  includeTranscript?: boolean; // Overrides the template
+  sections?: ReportSection[]; // Limits the template's sections
+}
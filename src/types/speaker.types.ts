@@ -0,0 +1,44 @@
+import { Participant } from '@prisma/client';
+
+/**
+ * Who a speaker should be: an existing participant, a contact found or added by email, or
+ * just a name
+ */
+export interface SpeakerTarget {
+  name?: string; // Defaults to the participant's name
+  participantId?: string;
+  email?: string;
+}
+
+/**
+ * Speaker of a meeting as the transcript names them now
+ */
+export interface MeetingSpeaker {
+  name: string;
+  segmentCount: number;
+  labels: string[]; // Labels from the transcript source shown under this name
+  participant: Participant | null;
+  suggestion: SpeakerSuggestion | null; // From earlier meetings of the series, when unmapped
+}
+
+/**
+ * Name a speaker label had in another meeting of the same series
+ */
+export interface SpeakerSuggestion {
+  meetingId: string;
+  displayName: string;
+  participant: Participant | null;
+}
+
+/**
+ * Outcome of renaming, merging or reassigning speakers
+ */
+export interface SpeakerChangeResult {
+  meetingId: string;
+  transcriptionsUpdated: number;
+  analysesUpdated: number;
+  actionItemsUpdated: number;
+  decisionsUpdated: number;
+  revision: number | null; // Transcript revision recorded, when the transcript changed
+  speakers: MeetingSpeaker[];
+}
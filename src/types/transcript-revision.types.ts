@@ -0,0 +1,85 @@
+import { Transcription, TranscriptRevision } from '@prisma/client';
+import { TextDiffPart } from '../utils/text-diff.util.js';
+
+/**
+ * Kind of change a transcript revision records
+ */
+export enum TranscriptRevisionAction {
+  EDIT = 'edit',
+  SPLIT = 'split',
+  MERGE = 'merge',
+  INSERT = 'insert',
+  RENAME_SPEAKER = 'rename_speaker',
+  REASSIGN_SPEAKER = 'reassign_speaker',
+  REPLACE = 'replace', // Transcript imported over the old one
+  CLEAR = 'clear', // Transcript deleted
+  REVERT = 'revert',
+}
+
+/**
+ * Transcript segment as a revision stored it
+ */
+export interface TranscriptSegmentSnapshot {
+  id: string;
+  speakerName: string | null;
+  text: string;
+  timestampStart: string | null; // ISO 8601
+  timestampEnd: string | null;
+  confidence: number | null;
+}
+
+/**
+ * Segments a revision changed, as they were before and after it
+ * Segments only in `before` were removed and segments only in `after` were added.
+ */
+export interface TranscriptRevisionChanges {
+  before: TranscriptSegmentSnapshot[];
+  after: TranscriptSegmentSnapshot[];
+}
+
+/**
+ * Change to one segment between two revisions
+ */
+export interface TranscriptSegmentDiff {
+  transcriptionId: string;
+  change: 'added' | 'removed' | 'modified';
+  before: TranscriptSegmentSnapshot | null;
+  after: TranscriptSegmentSnapshot | null;
+  textDiff: TextDiffPart[] | null; // Word diff, when the text changed
+}
+
+/**
+ * Changes to a meeting's transcript between two revisions
+ */
+export interface TranscriptDiff {
+  meetingId: string;
+  fromRevision: number;
+  toRevision: number;
+  segments: TranscriptSegmentDiff[];
+}
+
+/**
+ * Outcome of an edit to a meeting's transcript
+ */
+export interface TranscriptEditResult {
+  revision: TranscriptRevision;
+  segments: Transcription[]; // Segments the edit left behind
+}
+
+/**
+ * Changes to a segment's text or speaker
+ */
+export interface TranscriptSegmentUpdate {
+  text?: string;
+  speakerName?: string | null;
+}
+
+/**
+ * Segment added to correct a transcript
+ */
+export interface TranscriptSegmentInsert {
+  text: string;
+  speakerName?: string | null;
+  timestampStart?: Date;
+  timestampEnd?: Date;
+}
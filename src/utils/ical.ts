@@ -0,0 +1,507 @@
+import { RecurrenceUtil } from './recurrence.js';
+
+/**
+ * iCalendar (RFC 5545) parsing for calendar import and writing for calendar export
+ *
+ * Reads the VEVENTs of a calendar with their recurrence (RRULE, EXDATE, RECURRENCE-ID
+ * overrides) and time zones. TZIDs are resolved as IANA names first and fall back to the
+ * standard offset of the calendar's VTIMEZONE, which covers Outlook names such as
+ * "W. Europe Standard Time". Floating times (no TZID, no Z) are read as UTC.
+ */
+
+export interface ICalEvent {
+  uid: string;
+  summary?: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  start: Date;
+  end?: Date;
+  allDay: boolean;
+  timeZone?: string;
+  timeZoneOffset?: number; // Standard offset of a VTIMEZONE that is not an IANA zone, in ms
+  rrule?: string;
+  exdates: Date[];
+  recurrenceId?: Date; // Set on overrides of a single occurrence of a recurring event
+  status?: string; // TENTATIVE, CONFIRMED or CANCELLED
+  sequence: number;
+}
+
+export interface ICalCalendar {
+  name?: string;
+  events: ICalEvent[];
+  warnings: string[];
+}
+
+/**
+ * Event to write, times are written in UTC
+ */
+export interface ICalExportEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  start: Date;
+  end: Date;
+  status: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+  lastModified?: Date;
+}
+
+interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Error for content that is not an iCalendar file
+ */
+export class ICalParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ICalParseError';
+  }
+}
+
+/**
+ * Resolves TZIDs to UTC offsets
+ */
+class TimeZoneResolver {
+  private readonly formatters = new Map<string, Intl.DateTimeFormat | null>();
+
+  constructor(private readonly fixedOffsets: Map<string, number>) {}
+
+  /**
+   * Convert a wall-clock time (its UTC fields) in a time zone to the actual instant
+   */
+  toUtc(wallClock: Date, timeZone?: string): Date {
+    if (!timeZone) return wallClock;
+
+    const fixed = this.getFixedOffset(timeZone);
+    if (fixed !== undefined) return new Date(wallClock.getTime() - fixed);
+
+    // The offset at the guess is right except within a DST transition
+    const guess = new Date(wallClock.getTime() - this.getOffset(wallClock, timeZone));
+    return new Date(wallClock.getTime() - this.getOffset(guess, timeZone));
+  }
+
+  /**
+   * Wall-clock time of an instant in a time zone, as UTC fields
+   */
+  toWallClock(instant: Date, timeZone?: string): Date {
+    if (!timeZone) return instant;
+
+    const fixed = this.getFixedOffset(timeZone);
+    return new Date(instant.getTime() + (fixed ?? this.getOffset(instant, timeZone)));
+  }
+
+  isKnown(timeZone: string): boolean {
+    return this.getFormatter(timeZone) !== null || this.fixedOffsets.has(timeZone);
+  }
+
+  /**
+   * Offset of a zone only known from its VTIMEZONE, undefined for IANA zones
+   */
+  getFixedOffset(timeZone: string): number | undefined {
+    return this.getFormatter(timeZone) ? undefined : (this.fixedOffsets.get(timeZone) ?? 0);
+  }
+
+  private getOffset(instant: Date, timeZone: string): number {
+    const parts = this.getFormatter(timeZone)!.formatToParts(instant);
+    const field = (type: string): number => Number(parts.find((part) => part.type === type)?.value);
+
+    const asUtc = Date.UTC(
+      field('year'),
+      field('month') - 1,
+      field('day'),
+      field('hour'),
+      field('minute'),
+      field('second')
+    );
+    return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+  }
+
+  private getFormatter(timeZone: string): Intl.DateTimeFormat | null {
+    if (!this.formatters.has(timeZone)) {
+      let formatter: Intl.DateTimeFormat | null = null;
+      try {
+        formatter = new Intl.DateTimeFormat('en-US', {
+          timeZone,
+          hourCycle: 'h23',
+          year: 'numeric',
+          month: 'numeric',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: 'numeric',
+          second: 'numeric',
+        });
+      } catch {
+        formatter = null;
+      }
+      this.formatters.set(timeZone, formatter);
+    }
+
+    return this.formatters.get(timeZone)!;
+  }
+}
+
+export class ICalUtil {
+  /**
+   * Parse the events of an iCalendar document
+   * Events that cannot be read are skipped with a warning instead of failing the file.
+   */
+  static parse(content: string): ICalCalendar {
+    const lines = ICalUtil.unfold(content);
+    if (!lines.some((line) => line.toUpperCase() === 'BEGIN:VCALENDAR')) {
+      throw new ICalParseError('Not an iCalendar file (missing BEGIN:VCALENDAR)');
+    }
+
+    const warnings: string[] = [];
+    const components: string[] = [];
+    const eventProperties: ICalProperty[][] = [];
+    const fixedOffsets = new Map<string, number>();
+    let current: ICalProperty[] | null = null;
+    let timeZoneId: string | undefined;
+    let name: string | undefined;
+
+    for (const line of lines) {
+      const property = ICalUtil.parseProperty(line);
+      if (!property) continue;
+
+      if (property.name === 'BEGIN') {
+        components.push(property.value.toUpperCase());
+        if (components.length === 2 && property.value.toUpperCase() === 'VEVENT') current = [];
+        continue;
+      }
+
+      if (property.name === 'END') {
+        const ended = components.pop();
+        if (ended === 'VEVENT' && components.length === 1 && current) {
+          eventProperties.push(current);
+          current = null;
+        }
+        if (ended === 'VTIMEZONE') timeZoneId = undefined;
+        continue;
+      }
+
+      const component = components[components.length - 1];
+
+      if (component === 'VCALENDAR' && property.name === 'X-WR-CALNAME') {
+        name = ICalUtil.unescapeText(property.value);
+      } else if (component === 'VEVENT' && current) {
+        current.push(property);
+      } else if (component === 'VTIMEZONE' && property.name === 'TZID') {
+        timeZoneId = property.value;
+      } else if (component === 'STANDARD' && property.name === 'TZOFFSETTO' && timeZoneId) {
+        const offset = ICalUtil.parseUtcOffset(property.value);
+        if (offset !== null) fixedOffsets.set(timeZoneId, offset);
+      }
+    }
+
+    const timeZones = new TimeZoneResolver(fixedOffsets);
+    const events: ICalEvent[] = [];
+
+    for (const properties of eventProperties) {
+      try {
+        events.push(ICalUtil.buildEvent(properties, timeZones, warnings));
+      } catch (error) {
+        warnings.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    return { name, events, warnings };
+  }
+
+  /**
+   * Start times of an event's occurrences within [from, to]
+   * Recurrence is expanded in the event's own time zone so occurrences keep their local
+   * time across DST changes. Throws RecurrenceRuleError for unsupported rules.
+   */
+  static expand(event: ICalEvent, from: Date, to: Date, limit: number = 500): Date[] {
+    if (!event.rrule) {
+      return event.start >= from && event.start <= to ? [event.start] : [];
+    }
+
+    const timeZones = ICalUtil.resolverFor(event);
+    const rule = RecurrenceUtil.parse(event.rrule);
+    if (rule.until) {
+      rule.until = timeZones.toWallClock(rule.until, event.timeZone);
+    }
+
+    const excluded = new Set(event.exdates.map((date) => date.getTime()));
+
+    return RecurrenceUtil.between(
+      rule,
+      timeZones.toWallClock(event.start, event.timeZone),
+      timeZones.toWallClock(from, event.timeZone),
+      timeZones.toWallClock(to, event.timeZone),
+      limit + excluded.size
+    )
+      .map((wallClock) => timeZones.toUtc(wallClock, event.timeZone))
+      .filter((start) => !excluded.has(start.getTime()))
+      .slice(0, limit);
+  }
+
+  /**
+   * Write events as an iCalendar document
+   */
+  static serialize(calendar: { name?: string; events: ICalExportEvent[] }): string {
+    const stamp = ICalUtil.formatDateTime(new Date());
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//CogniNote//Meetings//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+    ];
+
+    if (calendar.name) lines.push(`X-WR-CALNAME:${ICalUtil.escapeText(calendar.name)}`);
+
+    for (const event of calendar.events) {
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${event.uid}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${ICalUtil.formatDateTime(event.start)}`,
+        `DTEND:${ICalUtil.formatDateTime(event.end)}`,
+        `SUMMARY:${ICalUtil.escapeText(event.summary)}`
+      );
+      if (event.description) {
+        lines.push(`DESCRIPTION:${ICalUtil.escapeText(event.description)}`);
+      }
+      if (event.location) lines.push(`LOCATION:${ICalUtil.escapeText(event.location)}`);
+      if (event.url) lines.push(`URL:${event.url}`);
+      lines.push(`STATUS:${event.status}`);
+      if (event.lastModified) {
+        lines.push(`LAST-MODIFIED:${ICalUtil.formatDateTime(event.lastModified)}`);
+      }
+      lines.push('END:VEVENT');
+    }
+
+    lines.push('END:VCALENDAR');
+
+    return lines.map((line) => ICalUtil.fold(line)).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * All URLs in a piece of text, in order of appearance
+   */
+  static extractUrls(text: string): string[] {
+    return (text.match(/https?:\/\/[^\s<>"'()]+/gi) || []).map((url) =>
+      url.replace(/[.,;:!?]+$/, '')
+    );
+  }
+
+  private static buildEvent(
+    properties: ICalProperty[],
+    timeZones: TimeZoneResolver,
+    warnings: string[]
+  ): ICalEvent {
+    const get = (name: string): ICalProperty | undefined =>
+      properties.find((property) => property.name === name);
+    const text = (name: string): string | undefined => {
+      const property = get(name);
+      return property ? ICalUtil.unescapeText(property.value) : undefined;
+    };
+
+    const uid = get('UID')?.value;
+    if (!uid) {
+      throw new ICalParseError(`Skipped event "${text('SUMMARY') ?? ''}" without UID`);
+    }
+
+    const dtstart = get('DTSTART');
+    if (!dtstart) {
+      throw new ICalParseError(`Skipped event ${uid} without DTSTART`);
+    }
+
+    let timeZone: string | undefined = dtstart.params.TZID;
+    if (timeZone && !timeZones.isKnown(timeZone)) {
+      warnings.push(`Unknown time zone "${timeZone}" in event ${uid}, read as UTC`);
+      timeZone = undefined;
+    }
+
+    const start = ICalUtil.parseDateValue(dtstart, timeZones);
+    const dtend = get('DTEND');
+    const duration = get('DURATION');
+    let end: Date | undefined;
+    if (dtend) {
+      end = ICalUtil.parseDateValue(dtend, timeZones);
+    } else if (duration) {
+      const durationMs = ICalUtil.parseDuration(duration.value);
+      end = durationMs !== null ? new Date(start.getTime() + durationMs) : undefined;
+    }
+
+    const recurrenceId = get('RECURRENCE-ID');
+    const sequence = Number(get('SEQUENCE')?.value ?? 0);
+
+    return {
+      uid,
+      summary: text('SUMMARY'),
+      description: text('DESCRIPTION'),
+      location: text('LOCATION'),
+      url: get('URL')?.value,
+      start,
+      end,
+      allDay: dtstart.params.VALUE === 'DATE' || /^\d{8}$/.test(dtstart.value),
+      timeZone,
+      timeZoneOffset: timeZone ? timeZones.getFixedOffset(timeZone) : undefined,
+      rrule: get('RRULE')?.value,
+      exdates: properties
+        .filter((property) => property.name === 'EXDATE')
+        .flatMap((property) =>
+          property.value
+            .split(',')
+            .map((value) => ICalUtil.parseDateValue({ ...property, value }, timeZones))
+        ),
+      recurrenceId: recurrenceId ? ICalUtil.parseDateValue(recurrenceId, timeZones) : undefined,
+      status: get('STATUS')?.value.toUpperCase(),
+      sequence: Number.isFinite(sequence) ? sequence : 0,
+    };
+  }
+
+  private static resolverFor(event: ICalEvent): TimeZoneResolver {
+    const fixedOffsets = new Map<string, number>();
+    if (event.timeZone && event.timeZoneOffset !== undefined) {
+      fixedOffsets.set(event.timeZone, event.timeZoneOffset);
+    }
+    return new TimeZoneResolver(fixedOffsets);
+  }
+
+  /**
+   * Parse a DATE or DATE-TIME value, honoring its TZID
+   */
+  private static parseDateValue(property: ICalProperty, timeZones: TimeZoneResolver): Date {
+    const match = property.value
+      .trim()
+      .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+    if (!match) {
+      throw new ICalParseError(`Invalid ${property.name} value "${property.value}"`);
+    }
+
+    const [, year, month, day, hour, minute, second, utc] = match;
+    const wallClock = new Date(
+      Date.UTC(
+        Number(year),
+        Number(month) - 1,
+        Number(day),
+        Number(hour ?? 0),
+        Number(minute ?? 0),
+        Number(second ?? 0)
+      )
+    );
+
+    if (hour === undefined || utc) return wallClock;
+    return timeZones.toUtc(wallClock, property.params.TZID);
+  }
+
+  /**
+   * Parse a DURATION value such as PT1H30M or P1D into milliseconds
+   */
+  private static parseDuration(value: string): number | null {
+    const match = value.match(
+      /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+    );
+    if (!match) return null;
+
+    const [, sign, weeks, days, hours, minutes, seconds] = match;
+    const ms =
+      Number(weeks ?? 0) * 7 * DAY_MS +
+      Number(days ?? 0) * DAY_MS +
+      Number(hours ?? 0) * 60 * 60 * 1000 +
+      Number(minutes ?? 0) * 60 * 1000 +
+      Number(seconds ?? 0) * 1000;
+
+    return sign === '-' ? -ms : ms;
+  }
+
+  private static parseUtcOffset(value: string): number | null {
+    const match = value.match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+    if (!match) return null;
+
+    const [, sign, hours, minutes, seconds] = match;
+    const ms = (Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds ?? 0)) * 1000;
+    return sign === '-' ? -ms : ms;
+  }
+
+  /**
+   * Split into logical lines, joining folded continuation lines
+   */
+  private static unfold(content: string): string[] {
+    return content
+      .replace(/\r\n/g, '\n')
+      .replace(/\n[ \t]/g, '')
+      .split('\n')
+      .map((line) => line.trimEnd())
+      .filter(Boolean);
+  }
+
+  /**
+   * Parse `NAME;PARAM=value;PARAM="quoted":value`
+   */
+  private static parseProperty(line: string): ICalProperty | null {
+    let inQuotes = false;
+    let separator = -1;
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"') inQuotes = !inQuotes;
+      if (line[i] === ':' && !inQuotes) {
+        separator = i;
+        break;
+      }
+    }
+    if (separator === -1) return null;
+
+    const [name, ...paramParts] = line.slice(0, separator).split(';');
+    const params: Record<string, string> = {};
+    for (const part of paramParts) {
+      const [key, ...rest] = part.split('=');
+      params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+    }
+
+    return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+  }
+
+  private static escapeText(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  private static formatDateTime(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  /**
+   * Fold a line into parts of at most 75 octets without splitting characters
+   */
+  private static fold(line: string): string {
+    const parts: string[] = [];
+    let part = '';
+    let octets = 0;
+
+    for (const char of line) {
+      const size = Buffer.byteLength(char);
+      // Continuation lines start with a space, which counts towards their length
+      if (octets + size > (parts.length === 0 ? 75 : 74)) {
+        parts.push(part);
+        part = '';
+        octets = 0;
+      }
+      part += char;
+      octets += size;
+    }
+    parts.push(part);
+
+    return parts.join('\r\n ');
+  }
+
+  private static unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+      char.toLowerCase() === 'n' ? '\n' : char
+    );
+  }
+}
@@ -16,6 +16,8 @@ export interface MeetingResponse {
   endedAt: string | null;
   status: string;
   metadata: Record<string, any>;
+  seriesId: string | null;
+  occurrenceAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -37,6 +39,8 @@ export function transformMeetingResponse(meeting: Meeting): MeetingResponse {
     endedAt: meeting.endedAt ? meeting.endedAt.toISOString() : null,
     status: meeting.status,
     metadata: (meeting.metadata as Record<string, any>) || {},
+    seriesId: meeting.seriesId,
+    occurrenceAt: meeting.occurrenceAt ? meeting.occurrenceAt.toISOString() : null,
     createdAt: meeting.createdAt.toISOString(),
     updatedAt: meeting.updatedAt.toISOString(),
   };
@@ -0,0 +1,108 @@
+import dns from 'dns';
+import net from 'net';
+
+/**
+ * Addresses outbound requests to user-supplied URLs must never reach:
+ * loopback, private, link-local (including cloud metadata), shared, multicast and reserved
+ */
+const BLOCKED_ADDRESSES = new net.BlockList();
+
+BLOCKED_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('192.0.0.0', 24, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('198.18.0.0', 15, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('224.0.0.0', 3, 'ipv4');
+BLOCKED_ADDRESSES.addAddress('::', 'ipv6');
+BLOCKED_ADDRESSES.addAddress('::1', 'ipv6');
+BLOCKED_ADDRESSES.addSubnet('64:ff9b::', 96, 'ipv6');
+BLOCKED_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+BLOCKED_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+BLOCKED_ADDRESSES.addSubnet('ff00::', 8, 'ipv6');
+
+/**
+ * Raised when a URL or one of its addresses may not be requested
+ */
+export class BlockedAddressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BlockedAddressError';
+  }
+}
+
+type LookupCallback = (
+  error: Error | null,
+  addresses: { address: string; family: 4 | 6 }[]
+) => void;
+
+/**
+ * Network Utility
+ * Guards requests the server makes to URLs supplied by users
+ */
+export class NetworkUtil {
+  /**
+   * Check whether an IP address is reachable on the public internet
+   */
+  static isPublicAddress(address: string): boolean {
+    const family = net.isIP(address);
+    if (family === 0) {
+      return false;
+    }
+
+    // IPv4-mapped IPv6 addresses are matched against the IPv4 subnets
+    return !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+  }
+
+  /**
+   * Reject URLs that are not http(s) or name a non-public IP address
+   * Host names are checked when they are resolved, by publicLookup.
+   */
+  static assertPublicUrl(url: string): URL {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new BlockedAddressError('Invalid URL');
+    }
+
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new BlockedAddressError(`Protocol ${parsed.protocol} is not allowed`);
+    }
+
+    const host = parsed.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(host) !== 0 && !this.isPublicAddress(host)) {
+      throw new BlockedAddressError(`Address ${host} is not allowed`);
+    }
+
+    return parsed;
+  }
+
+  /**
+   * DNS lookup for HTTP clients that fails when a host resolves to a non-public address
+   * Checking at connection time also covers hosts that change their records after a first check.
+   */
+  static publicLookup(hostname: string, options: object, callback: LookupCallback): void {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        return callback(error, []);
+      }
+
+      const blocked = addresses.find(({ address }) => !NetworkUtil.isPublicAddress(address));
+      if (blocked) {
+        return callback(
+          new BlockedAddressError(`${hostname} resolves to ${blocked.address}, which is not allowed`),
+          []
+        );
+      }
+
+      callback(
+        null,
+        addresses.map(({ address, family }) => ({ address, family: family === 6 ? 6 : 4 }))
+      );
+    });
+  }
+}
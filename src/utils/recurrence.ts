@@ -0,0 +1,313 @@
+/**
+ * Recurrence rules for meeting series
+ *
+ * Supports the subset of RFC 5545 RRULE used by calendar apps for recurring meetings:
+ * FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL.
+ * BYDAY takes an ordinal only with FREQ=MONTHLY (e.g. 1MO, -1FR). Weeks start on Monday
+ * and all times are computed in UTC from the series start.
+ */
+
+export enum RecurrenceFrequency {
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY',
+}
+
+export interface RecurrenceWeekday {
+  day: number; // 0 = Sunday ... 6 = Saturday, as Date.getUTCDay()
+  ordinal?: number; // Nth weekday of the month, negative counts from the end
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: RecurrenceWeekday[];
+  byMonthDay?: number[];
+  count?: number;
+  until?: Date;
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_PERIODS = 5000; // Guards against rules that never produce an occurrence
+
+/**
+ * Error for rules outside the supported subset
+ */
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceRuleError';
+  }
+}
+
+export class RecurrenceUtil {
+  /**
+   * Parse an RRULE string, with or without the `RRULE:` prefix
+   */
+  static parse(value: string): RecurrenceRule {
+    const parts = value.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+    const fields = new Map<string, string>();
+
+    for (const part of parts) {
+      const [key, fieldValue] = part.split('=');
+      if (!key || fieldValue === undefined || fieldValue === '') {
+        throw new RecurrenceRuleError(`Malformed recurrence rule part "${part}"`);
+      }
+      fields.set(key.toUpperCase(), fieldValue.toUpperCase());
+    }
+
+    const freq = fields.get('FREQ') as RecurrenceFrequency | undefined;
+    if (!freq || !Object.values(RecurrenceFrequency).includes(freq)) {
+      throw new RecurrenceRuleError('FREQ must be DAILY, WEEKLY or MONTHLY');
+    }
+
+    const unsupported = [...fields.keys()].filter(
+      (key) => !['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'COUNT', 'UNTIL', 'WKST'].includes(key)
+    );
+    if (unsupported.length > 0) {
+      throw new RecurrenceRuleError(`Unsupported recurrence rule parts: ${unsupported.join(', ')}`);
+    }
+
+    const rule: RecurrenceRule = {
+      freq,
+      interval: RecurrenceUtil.parsePositiveInt(fields.get('INTERVAL') ?? '1', 'INTERVAL'),
+    };
+
+    if (fields.has('COUNT') && fields.has('UNTIL')) {
+      throw new RecurrenceRuleError('COUNT and UNTIL cannot be combined');
+    }
+
+    if (fields.has('COUNT')) {
+      rule.count = RecurrenceUtil.parsePositiveInt(fields.get('COUNT')!, 'COUNT');
+    }
+
+    if (fields.has('UNTIL')) {
+      rule.until = RecurrenceUtil.parseUntil(fields.get('UNTIL')!);
+    }
+
+    if (fields.has('BYDAY')) {
+      rule.byDay = fields
+        .get('BYDAY')!
+        .split(',')
+        .map((code) => RecurrenceUtil.parseWeekday(code, freq));
+    }
+
+    if (fields.has('BYMONTHDAY')) {
+      if (freq !== RecurrenceFrequency.MONTHLY) {
+        throw new RecurrenceRuleError('BYMONTHDAY is only supported with FREQ=MONTHLY');
+      }
+      rule.byMonthDay = fields
+        .get('BYMONTHDAY')!
+        .split(',')
+        .map((day) => {
+          const parsed = Number(day);
+          if (!Number.isInteger(parsed) || parsed === 0 || parsed < -31 || parsed > 31) {
+            throw new RecurrenceRuleError(`Invalid BYMONTHDAY value "${day}"`);
+          }
+          return parsed;
+        });
+    }
+
+    return rule;
+  }
+
+  /**
+   * Serialize a rule back to a normalized RRULE string (without prefix)
+   */
+  static stringify(rule: RecurrenceRule): string {
+    const parts = [`FREQ=${rule.freq}`];
+
+    if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.byDay?.length) {
+      const days = rule.byDay.map((day) => `${day.ordinal ?? ''}${WEEKDAY_CODES[day.day]}`);
+      parts.push(`BYDAY=${days.join(',')}`);
+    }
+    if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+    if (rule.count) parts.push(`COUNT=${rule.count}`);
+    if (rule.until) {
+      parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+    }
+
+    return parts.join(';');
+  }
+
+  /**
+   * List occurrences of a rule starting at `dtstart` that fall within [from, to]
+   * COUNT is applied from `dtstart`, so earlier occurrences still use up the count.
+   */
+  static between(
+    rule: RecurrenceRule,
+    dtstart: Date,
+    from: Date,
+    to: Date,
+    limit: number = 500
+  ): Date[] {
+    const occurrences: Date[] = [];
+    let produced = 0;
+
+    for (let period = 0; period < MAX_PERIODS; period++) {
+      const candidates = RecurrenceUtil.expandPeriod(rule, dtstart, period);
+      if (candidates === null) break;
+
+      for (const candidate of candidates) {
+        if (candidate < dtstart) continue;
+        if (rule.until && candidate > rule.until) return occurrences;
+        if (candidate > to) return occurrences;
+
+        produced++;
+        if (candidate >= from) {
+          occurrences.push(candidate);
+          if (occurrences.length >= limit) return occurrences;
+        }
+        if (rule.count && produced >= rule.count) return occurrences;
+      }
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * Candidate dates of the nth period after dtstart, sorted ascending
+   */
+  private static expandPeriod(rule: RecurrenceRule, dtstart: Date, period: number): Date[] | null {
+    const timeOfDay = dtstart.getTime() - RecurrenceUtil.startOfDay(dtstart).getTime();
+    const at = (year: number, month: number, day: number): Date =>
+      new Date(Date.UTC(year, month, day) + timeOfDay);
+
+    switch (rule.freq) {
+      case RecurrenceFrequency.DAILY: {
+        const candidate = new Date(dtstart.getTime() + period * rule.interval * DAY_MS);
+        const matches =
+          !rule.byDay || rule.byDay.some((weekday) => weekday.day === candidate.getUTCDay());
+        return matches ? [candidate] : [];
+      }
+
+      case RecurrenceFrequency.WEEKLY: {
+        // Monday of the week dtstart falls in
+        const mondayOffset = (dtstart.getUTCDay() + 6) % 7;
+        const weekStart = new Date(
+          RecurrenceUtil.startOfDay(dtstart).getTime() -
+            mondayOffset * DAY_MS +
+            period * rule.interval * 7 * DAY_MS
+        );
+        const days = rule.byDay?.map((weekday) => weekday.day) ?? [dtstart.getUTCDay()];
+
+        return [...new Set(days)]
+          .map((day) => (day + 6) % 7)
+          .sort((a, b) => a - b)
+          .map((offset) =>
+            at(weekStart.getUTCFullYear(), weekStart.getUTCMonth(), weekStart.getUTCDate() + offset)
+          );
+      }
+
+      case RecurrenceFrequency.MONTHLY: {
+        const monthIndex = dtstart.getUTCMonth() + period * rule.interval;
+        const year = dtstart.getUTCFullYear() + Math.floor(monthIndex / 12);
+        const month = monthIndex % 12;
+        const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+        const monthDays = rule.byMonthDay
+          ?.map((day) => (day > 0 ? day : daysInMonth + day + 1))
+          // Months without the day are skipped, as in RFC 5545
+          .filter((day) => day >= 1 && day <= daysInMonth);
+        const weekdayDays = rule.byDay?.flatMap((weekday) =>
+          RecurrenceUtil.monthDaysForWeekday(year, month, daysInMonth, weekday)
+        );
+
+        let days: Set<number>;
+        if (monthDays && weekdayDays) {
+          // Both parts given: only days matching each of them
+          days = new Set(monthDays.filter((day) => weekdayDays.includes(day)));
+        } else if (monthDays || weekdayDays) {
+          days = new Set(monthDays ?? weekdayDays);
+        } else {
+          const day = dtstart.getUTCDate();
+          days = new Set(day <= daysInMonth ? [day] : []);
+        }
+
+        return [...days].sort((a, b) => a - b).map((day) => at(year, month, day));
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Days of a month matching a weekday, optionally only its nth occurrence
+   */
+  private static monthDaysForWeekday(
+    year: number,
+    month: number,
+    daysInMonth: number,
+    weekday: RecurrenceWeekday
+  ): number[] {
+    const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+    const matches: number[] = [];
+
+    for (let day = 1 + ((weekday.day - firstWeekday + 7) % 7); day <= daysInMonth; day += 7) {
+      matches.push(day);
+    }
+
+    if (weekday.ordinal === undefined) return matches;
+
+    const index = weekday.ordinal > 0 ? weekday.ordinal - 1 : matches.length + weekday.ordinal;
+    return matches[index] !== undefined ? [matches[index]] : [];
+  }
+
+  private static parseWeekday(code: string, freq: RecurrenceFrequency): RecurrenceWeekday {
+    const match = code.trim().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    if (!match) {
+      throw new RecurrenceRuleError(`Invalid BYDAY value "${code}"`);
+    }
+
+    const weekday: RecurrenceWeekday = { day: WEEKDAY_CODES.indexOf(match[2]) };
+
+    if (match[1]) {
+      const ordinal = Number(match[1]);
+      if (freq !== RecurrenceFrequency.MONTHLY) {
+        throw new RecurrenceRuleError('BYDAY ordinals are only supported with FREQ=MONTHLY');
+      }
+      if (ordinal === 0 || Math.abs(ordinal) > 5) {
+        throw new RecurrenceRuleError(`Invalid BYDAY ordinal in "${code}"`);
+      }
+      weekday.ordinal = ordinal;
+    }
+
+    return weekday;
+  }
+
+  private static parsePositiveInt(value: string, name: string): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      throw new RecurrenceRuleError(`${name} must be a positive integer`);
+    }
+    return parsed;
+  }
+
+  private static parseUntil(value: string): Date {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+    if (!match) {
+      throw new RecurrenceRuleError('UNTIL must be a date (YYYYMMDD) or UTC date-time');
+    }
+
+    const [, year, month, day, hour, minute, second] = match;
+    // A date-only UNTIL includes the whole day
+    return hour === undefined
+      ? new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), 23, 59, 59))
+      : new Date(
+          Date.UTC(
+            Number(year),
+            Number(month) - 1,
+            Number(day),
+            Number(hour),
+            Number(minute),
+            Number(second)
+          )
+        );
+  }
+
+  private static startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+}
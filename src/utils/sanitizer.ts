@@ -14,6 +14,8 @@ const SENSITIVE_KEYS = [
 ];
 
 const API_KEY_REGEX = /sk-[a-zA-Z0-9]{20,}/;
+const ACCESS_TOKEN_PARAM_REGEX = /([?&]access_token=)[^&\s"]+/g;
+const CALENDAR_FEED_TOKEN_REGEX = /(\/calendar\/feed\/)[^/?\s"]+?(\.ics)/g;
 
 /**
  * Recursively sanitizes sensitive data from an object
@@ -22,11 +24,17 @@ export const sanitizeLogData = (data: any): any => {
   if (!data) return data;
 
   if (typeof data === 'string') {
+    // Mask tokens passed in query strings (e.g. event stream URLs in access logs)
+    // and the token in calendar feed paths, which grants access to the feed on its own
+    const masked = data
+      .replace(ACCESS_TOKEN_PARAM_REGEX, '$1***')
+      .replace(CALENDAR_FEED_TOKEN_REGEX, '$1***$2');
+
     // Check if string contains API key pattern
-    if (API_KEY_REGEX.test(data)) {
-        return data.replace(API_KEY_REGEX, '***');
+    if (API_KEY_REGEX.test(masked)) {
+        return masked.replace(API_KEY_REGEX, '***');
     }
-    return data;
+    return masked;
   }
 
   if (Array.isArray(data)) {
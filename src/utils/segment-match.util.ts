@@ -0,0 +1,51 @@
+import { Transcription } from '@prisma/client';
+
+const DEFAULT_MIN_OVERLAP = 0.3; // Share of context words a segment must contain
+
+/**
+ * Helpers for tying AI-extracted text back to transcript segments
+ */
+export class SegmentMatchUtil {
+  /**
+   * Lowercase words of a text
+   */
+  static tokenize(text: string): string[] {
+    return text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+  }
+
+  /**
+   * Key used to recognise the same extracted item across analysis runs
+   */
+  static normalize(text: string): string {
+    return SegmentMatchUtil.tokenize(text).join(' ');
+  }
+
+  /**
+   * Find the transcript segment a quoted or paraphrased context was taken from
+   */
+  static findSourceSegment<T extends Pick<Transcription, 'id' | 'text'>>(
+    context: string | undefined,
+    transcriptions: T[],
+    minOverlap: number = DEFAULT_MIN_OVERLAP
+  ): T | null {
+    const contextWords = new Set(SegmentMatchUtil.tokenize(context || ''));
+    if (contextWords.size === 0) return null;
+
+    let best: { segment: T; overlap: number } | null = null;
+
+    for (const transcription of transcriptions) {
+      const segmentWords = new Set(SegmentMatchUtil.tokenize(transcription.text));
+      let shared = 0;
+      contextWords.forEach((word) => {
+        if (segmentWords.has(word)) shared++;
+      });
+
+      const overlap = shared / contextWords.size;
+      if (!best || overlap > best.overlap) {
+        best = { segment: transcription, overlap };
+      }
+    }
+
+    return best && best.overlap >= minOverlap ? best.segment : null;
+  }
+}
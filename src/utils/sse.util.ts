@@ -0,0 +1,47 @@
+import { Request, Response } from 'express';
+
+const HEARTBEAT_INTERVAL = 25000; // 25 seconds, below common proxy idle timeouts
+
+/**
+ * Server-Sent Events helpers
+ */
+export class SSEUtil {
+  /**
+   * Switch the response into an event stream
+   * Sends periodic comments to keep the connection open and calls `onClose` when the client leaves
+   */
+  static open(req: Request, res: Response, onClose?: () => void): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable nginx buffering
+    });
+    res.write(': connected\n\n');
+
+    const heartbeat = setInterval(() => {
+      res.write(': ping\n\n');
+    }, HEARTBEAT_INTERVAL);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      onClose?.();
+    });
+  }
+
+  /**
+   * Write a named event with JSON data
+   */
+  static send(res: Response, event: string, data: unknown, id?: string): void {
+    if (res.writableEnded) return;
+
+    let message = '';
+    if (id) {
+      message += `id: ${id}\n`;
+    }
+    message += `event: ${event}\n`;
+    message += `data: ${JSON.stringify(data)}\n\n`;
+
+    res.write(message);
+  }
+}
@@ -0,0 +1,265 @@
+import { Meeting, Transcription } from '@prisma/client';
+
+/**
+ * Transcript segment placed on the recording timeline, in milliseconds
+ */
+export interface SubtitleSegment {
+  speaker?: string | null;
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * A single caption on screen
+ */
+export interface SubtitleCue {
+  speaker?: string | null;
+  lines: string[];
+  start: number;
+  end: number;
+}
+
+export interface SubtitleOptions {
+  maxLineLength?: number;
+  maxLines?: number;
+  maxDurationMs?: number;
+  minDurationMs?: number;
+  labelSpeakers?: boolean; // Prefix text with "Speaker: " (SRT has no voice tags)
+}
+
+// Common broadcast caption limits
+const DEFAULT_OPTIONS: Required<SubtitleOptions> = {
+  maxLineLength: 42,
+  maxLines: 2,
+  maxDurationMs: 7000,
+  minDurationMs: 1000,
+  labelSpeakers: false,
+};
+
+export const READING_CHARS_PER_SECOND = 15; // Estimates the length of segments without an end time
+const RELATIVE_TIMESTAMP_LIMIT = Date.UTC(2000, 0, 1);
+
+export const WEBVTT_HEADER = 'WEBVTT\n';
+
+/**
+ * Helpers for turning transcriptions into SRT and WebVTT captions
+ */
+export class SubtitleUtil {
+  /**
+   * Place transcriptions on a timeline starting at the beginning of the meeting
+   * Segments from Recall AI are stored as offsets from the recording start (dates in 1970)
+   * and are used as they are. Other timestamps are taken relative to when the meeting started,
+   * or to the first segment if the meeting has no start time.
+   */
+  static fromTranscriptions(
+    meeting: Pick<Meeting, 'startedAt'>,
+    transcriptions: Pick<
+      Transcription,
+      'speakerName' | 'text' | 'timestampStart' | 'timestampEnd'
+    >[]
+  ): SubtitleSegment[] {
+    const timed = transcriptions
+      .filter((transcription) => transcription.timestampStart && transcription.text.trim())
+      .sort((a, b) => a.timestampStart!.getTime() - b.timestampStart!.getTime());
+    if (timed.length === 0) return [];
+
+    const origin = SubtitleUtil.timelineOrigin(meeting, timed[0].timestampStart!);
+
+    return timed.map((transcription, index) => {
+      const next = timed[index + 1];
+      return SubtitleUtil.toSegment(transcription, origin, next?.timestampStart ?? undefined);
+    });
+  }
+
+  /**
+   * Place one timed transcription on the timeline
+   * The start of the next transcription caps the estimated end of one without an end time.
+   */
+  static toSegment(
+    transcription: Pick<Transcription, 'speakerName' | 'text' | 'timestampStart' | 'timestampEnd'>,
+    origin: number,
+    nextTimestamp?: Date
+  ): SubtitleSegment {
+    const text = transcription.text.trim().replace(/\s+/g, ' ');
+    const start = Math.max(0, transcription.timestampStart!.getTime() - origin);
+    const estimatedEnd = start + (text.length / READING_CHARS_PER_SECOND) * 1000;
+    const nextStart = nextTimestamp ? nextTimestamp.getTime() - origin : Infinity;
+
+    let end = transcription.timestampEnd ? transcription.timestampEnd.getTime() - origin : 0;
+    if (end <= start) {
+      // No usable end time: estimate it, without running into the next segment
+      end = nextStart > start ? Math.min(estimatedEnd, nextStart) : estimatedEnd;
+    }
+
+    return { speaker: transcription.speakerName, text, start, end: Math.round(end) };
+  }
+
+  /**
+   * Check whether a timestamp is an offset from the recording start rather than a point in time
+   */
+  static isRelativeTimestamp(timestamp: Date): boolean {
+    return timestamp.getTime() < RELATIVE_TIMESTAMP_LIMIT;
+  }
+
+  /**
+   * Point in time the recording timeline starts at, given the earliest transcription timestamp
+   */
+  static timelineOrigin(meeting: Pick<Meeting, 'startedAt'>, firstTimestamp: Date): number {
+    const first = firstTimestamp.getTime();
+    if (SubtitleUtil.isRelativeTimestamp(firstTimestamp)) return 0;
+    if (meeting.startedAt && meeting.startedAt.getTime() <= first) {
+      return meeting.startedAt.getTime();
+    }
+    return first;
+  }
+
+  /**
+   * Split segments into cues that respect line length, line count and duration limits
+   * Each cue gets a share of its segment's time proportional to its length.
+   */
+  static buildCues(segments: SubtitleSegment[], options: SubtitleOptions = {}): SubtitleCue[] {
+    const settings = { ...DEFAULT_OPTIONS, ...options };
+    const cues: SubtitleCue[] = [];
+
+    for (const segment of segments) {
+      const text =
+        settings.labelSpeakers && segment.speaker
+          ? `${segment.speaker}: ${segment.text}`
+          : segment.text;
+      const duration = Math.max(segment.end - segment.start, settings.minDurationMs);
+
+      // Fewer characters per cue when the segment is too long to show in one go
+      const capacity = settings.maxLineLength * settings.maxLines;
+      const minCues = Math.ceil(duration / settings.maxDurationMs);
+      const limit = Math.min(capacity, Math.ceil(text.length / minCues));
+
+      const chunks = SubtitleUtil.splitText(text, limit, settings);
+      const totalLength = chunks.reduce((sum, chunk) => sum + chunk.join(' ').length, 0);
+      let start = segment.start;
+
+      chunks.forEach((lines, index) => {
+        const share = lines.join(' ').length / totalLength;
+        const end =
+          index === chunks.length - 1
+            ? segment.start + duration
+            : Math.round(start + duration * share);
+
+        cues.push({ speaker: segment.speaker, lines, start, end });
+        start = end;
+      });
+    }
+
+    return cues;
+  }
+
+  /**
+   * Render cues as SubRip (.srt)
+   */
+  static toSrt(cues: SubtitleCue[]): string {
+    return cues.map((cue, index) => SubtitleUtil.formatSrtCue(cue, index + 1)).join('\n');
+  }
+
+  /**
+   * Render cues as WebVTT (.vtt), with speakers as voice tags
+   */
+  static toWebVtt(cues: SubtitleCue[]): string {
+    return [WEBVTT_HEADER, ...cues.map((cue) => SubtitleUtil.formatVttCue(cue))].join('\n');
+  }
+
+  /**
+   * Render one SubRip cue; cues are separated by a blank line
+   */
+  static formatSrtCue(cue: SubtitleCue, sequence: number): string {
+    const timing = SubtitleUtil.formatTiming(cue, ',');
+    return `${[String(sequence), timing, ...cue.lines].join('\n')}\n`;
+  }
+
+  /**
+   * Render one WebVTT cue; the file starts with `WEBVTT_HEADER` and cues are separated by a
+   * blank line
+   */
+  static formatVttCue(cue: SubtitleCue): string {
+    const lines = cue.lines.map((line) => SubtitleUtil.escapeVtt(line));
+    if (cue.speaker) {
+      lines[0] = `<v ${SubtitleUtil.escapeVtt(cue.speaker)}>${lines[0]}`;
+    }
+
+    const timing = SubtitleUtil.formatTiming(cue, '.');
+    return `${[timing, ...lines].join('\n')}\n`;
+  }
+
+  /**
+   * Wrap text into cues of at most `limit` characters and `maxLines` lines
+   */
+  private static splitText(
+    text: string,
+    limit: number,
+    settings: Required<SubtitleOptions>
+  ): string[][] {
+    const cues: string[][] = [];
+    let lines: string[] = [];
+    let line = '';
+    let length = 0;
+
+    const flushCue = (): void => {
+      if (line) lines.push(line);
+      if (lines.length > 0) cues.push(lines);
+      lines = [];
+      line = '';
+      length = 0;
+    };
+
+    for (const word of SubtitleUtil.breakLongWords(text.split(' '), settings.maxLineLength)) {
+      const cueFull = length > 0 && length + 1 + word.length > limit;
+      if (cueFull) flushCue();
+
+      if (line && line.length + 1 + word.length > settings.maxLineLength) {
+        lines.push(line);
+        line = '';
+        if (lines.length >= settings.maxLines) {
+          cues.push(lines);
+          lines = [];
+          length = 0;
+        }
+      }
+
+      line = line ? `${line} ${word}` : word;
+      length += (length > 0 ? 1 : 0) + word.length;
+    }
+    flushCue();
+
+    return cues;
+  }
+
+  private static breakLongWords(words: string[], maxLength: number): string[] {
+    return words.flatMap((word) => {
+      if (word.length <= maxLength) return [word];
+      const parts: string[] = [];
+      for (let i = 0; i < word.length; i += maxLength) {
+        parts.push(word.slice(i, i + maxLength));
+      }
+      return parts;
+    });
+  }
+
+  private static formatTiming(cue: SubtitleCue, separator: ',' | '.'): string {
+    const start = SubtitleUtil.formatTime(cue.start, separator);
+    return `${start} --> ${SubtitleUtil.formatTime(cue.end, separator)}`;
+  }
+
+  private static formatTime(ms: number, separator: ',' | '.'): string {
+    const total = Math.max(0, Math.round(ms));
+    const hours = Math.floor(total / 3600000);
+    const minutes = Math.floor((total % 3600000) / 60000);
+    const seconds = Math.floor((total % 60000) / 1000);
+    const millis = total % 1000;
+    const pad = (value: number, size: number = 2): string => String(value).padStart(size, '0');
+
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+  }
+
+  private static escapeVtt(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+}
@@ -0,0 +1,81 @@
+const MAX_DIFF_CELLS = 1_000_000; // Word pairs compared before falling back to a full replace
+
+/**
+ * Part of a word diff
+ */
+export interface TextDiffPart {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/**
+ * Word-level diffs of transcript text
+ */
+export class TextDiffUtil {
+  /**
+   * Diff two texts word by word
+   * Whitespace goes with the word before it, so a changed run of words diffs as one part.
+   */
+  static diffWords(before: string, after: string): TextDiffPart[] {
+    if (before === after) {
+      return before ? [{ type: 'equal', text: before }] : [];
+    }
+
+    const a = before.match(/^\s+|\S+\s*/g) || [];
+    const b = after.match(/^\s+|\S+\s*/g) || [];
+    if (a.length * b.length > MAX_DIFF_CELLS) {
+      return TextDiffUtil.join([
+        { type: 'delete', text: before },
+        { type: 'insert', text: after },
+      ]);
+    }
+
+    // Longest common subsequence lengths of the suffixes a[i..] and b[j..]
+    const lengths = Array.from({ length: a.length + 1 }, () =>
+      new Array<number>(b.length + 1).fill(0)
+    );
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i][j] =
+          a[i] === b[j]
+            ? lengths[i + 1][j + 1] + 1
+            : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const parts: TextDiffPart[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        parts.push({ type: 'equal', text: a[i++] });
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        parts.push({ type: 'delete', text: a[i++] });
+      } else {
+        parts.push({ type: 'insert', text: b[j++] });
+      }
+    }
+    a.slice(i).forEach((text) => parts.push({ type: 'delete', text }));
+    b.slice(j).forEach((text) => parts.push({ type: 'insert', text }));
+
+    return TextDiffUtil.join(parts);
+  }
+
+  /**
+   * Merge neighbouring parts of the same type and drop empty ones
+   */
+  private static join(parts: TextDiffPart[]): TextDiffPart[] {
+    return parts.reduce<TextDiffPart[]>((joined, part) => {
+      if (!part.text) return joined;
+
+      const last = joined[joined.length - 1];
+      if (last?.type === part.type) {
+        last.text += part.text;
+      } else {
+        joined.push({ ...part });
+      }
+      return joined;
+    }, []);
+  }
+}
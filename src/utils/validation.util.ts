@@ -1,4 +1,19 @@
 import Joi from 'joi';
+import { AnalysisType } from '../services/ai/types/analysis.types.js';
+import { ActionItemStatus } from '../types/action-item.types.js';
+import { DecisionRelation, DecisionStatus } from '../types/decision.types.js';
+import { ReportSection } from '../types/report.types.js';
+import { ExportSection } from '../services/export/types/export.types.js';
+import { TranscriptFormat } from '../services/import/types/import.types.js';
+import { MeetingPlatform } from '../services/recall-ai/types/recall-ai.types.js';
+
+const analysisOptionsSchema = Joi.object({
+  includeTimestamps: Joi.boolean(),
+  minConfidenceThreshold: Joi.number().min(0).max(1),
+  maxInsights: Joi.number().integer().min(1),
+  maxActionItems: Joi.number().integer().min(1),
+  customInstructions: Joi.string().max(2000),
+});
 
 export class ValidationUtil {
   /**
@@ -64,4 +79,723 @@ export class ValidationUtil {
 
     return { valid: true };
   }
+
+  /**
+   * Validate analysis request data
+   */
+  static validateAnalysisRequest(data: {
+    analysisType: string;
+    options?: Record<string, unknown>;
+  }): { valid: boolean; message?: string } {
+    const schema = Joi.object({
+      analysisType: Joi.string()
+        .valid(...Object.values(AnalysisType))
+        .required(),
+      options: analysisOptionsSchema.optional(),
+    });
+
+    const { error } = schema.validate(data);
+
+    if (error) {
+      return {
+        valid: false,
+        message: error.details[0].message,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate analysis job request data
+   */
+  static validateAnalysisJobRequest(data: {
+    analysisTypes: string[];
+    options?: Record<string, unknown>;
+    maxAttempts?: number;
+  }): { valid: boolean; message?: string } {
+    const schema = Joi.object({
+      analysisTypes: Joi.array()
+        .items(Joi.string().valid(...Object.values(AnalysisType)))
+        .min(1)
+        .unique()
+        .required(),
+      options: analysisOptionsSchema.optional(),
+      maxAttempts: Joi.number().integer().min(1).max(10).optional(),
+    });
+
+    const { error } = schema.validate(data);
+
+    if (error) {
+      return {
+        valid: false,
+        message: error.details[0].message,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate meeting chat request data
+   */
+  static validateChatRequest(data: {
+    question: string;
+    history?: unknown[];
+    meetingIds?: string[];
+    startDate?: string;
+    endDate?: string;
+    maxSources?: number;
+    stream?: boolean;
+  }): { valid: boolean; message?: string } {
+    const schema = Joi.object({
+      question: Joi.string().trim().min(1).max(2000).required(),
+      history: Joi.array()
+        .items(
+          Joi.object({
+            role: Joi.string().valid('user', 'assistant').required(),
+            content: Joi.string().max(8000).required(),
+          })
+        )
+        .max(20)
+        .optional(),
+      meetingIds: Joi.array().items(Joi.string()).min(1).max(50).unique().optional(),
+      startDate: Joi.date().iso().optional(),
+      endDate: Joi.date().iso().min(Joi.ref('startDate')).optional(),
+      maxSources: Joi.number().integer().min(1).max(30).optional(),
+      stream: Joi.boolean().optional(),
+    });
+
+    const { error } = schema.validate(data);
+
+    if (error) {
+      return {
+        valid: false,
+        message: error.details[0].message,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate semantic search query parameters
+   */
+  static validateSemanticSearchQuery(data: {
+    q?: string;
+    meetingIds?: string[];
+    startDate?: string;
+    endDate?: string;
+    limit?: number;
+    minScore?: number;
+  }): { valid: boolean; message?: string } {
+    const schema = Joi.object({
+      q: Joi.string().trim().min(1).max(500).required(),
+      meetingIds: Joi.array().items(Joi.string()).min(1).max(50).optional(),
+      startDate: Joi.date().iso().optional(),
+      endDate: Joi.date().iso().min(Joi.ref('startDate')).optional(),
+      limit: Joi.number().integer().min(1).max(100).optional(),
+      minScore: Joi.number().min(-1).max(1).optional(),
+    });
+
+    const { error } = schema.validate(data);
+
+    if (error) {
+      return {
+        valid: false,
+        message: error.details[0].message,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate full-text search query parameters
+   */
+  static validateFullTextSearchQuery(data: {
+    q?: string;
+    types?: string[];
+    userId?: string;
+    startDate?: string;
+    endDate?: string;
+    platform?: string;
+    speaker?: string;
+    analysisType?: string;
+    skip?: number;
+    take?: number;
+  }): { valid: boolean; message?: string } {
+    const schema = Joi.object({
+      q: Joi.string().trim().min(1).max(500).required(),
+      types: Joi.array()
+        .items(Joi.string().valid('meeting', 'transcript', 'analysis'))
+        .min(1)
+        .unique()
+        .optional(),
+      userId: Joi.string().optional(),
+      startDate: Joi.date().iso().optional(),
+      endDate: Joi.date().iso().min(Joi.ref('startDate')).optional(),
+      platform: Joi.string().max(50).optional(),
+      speaker: Joi.string().max(255).optional(),
+      analysisType: Joi.string()
+        .valid(...Object.values(AnalysisType))
+        .optional(),
+      skip: Joi.number().integer().min(0).optional(),
+      take: Joi.number().integer().min(1).max(100).optional(),
+    });
+
+    const { error } = schema.validate(data);
+
+    if (error) {
+      return {
+        valid: false,
+        message: error.details[0].message,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate AI usage report query
+   */
+  static validateAIUsageQuery(data: {
+    userId?: string;
+    startDate?: string;
+    endDate?: string;
+  }): { valid: boolean; message?: string } {
+    const schema = Joi.object({
+      userId: Joi.string().optional(),
+      startDate: Joi.date().iso().optional(),
+      endDate: Joi.date().iso().min(Joi.ref('startDate')).optional(),
+    });
+
+    const { error } = schema.validate(data);
+
+    if (error) {
+      return {
+        valid: false,
+        message: error.details[0].message,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate action item create or update body
+   */
+  static validateActionItem(
+    data: {
+      description?: unknown;
+      owner?: unknown;
+      assignees?: unknown;
+      priority?: unknown;
+      status?: unknown;
+      dueDate?: unknown;
+      sourceTranscriptionId?: unknown;
+    },
+    options: { partial: boolean }
+  ): { valid: boolean; message?: string } {
+    const description = Joi.string().trim().min(1).max(2000);
+
+    const schema = Joi.object({
+      description: options.partial ? description.optional() : description.required(),
+      owner: Joi.string().trim().max(255).allow(null).optional(),
+      assignees: Joi.array().items(Joi.string().trim().max(255)).max(20).unique().optional(),
+      priority: Joi.string().valid('low', 'medium', 'high').optional(),
+      status: Joi.string()
+        .valid(...Object.values(ActionItemStatus))
+        .optional(),
+      dueDate: Joi.date().iso().allow(null).optional(),
+      sourceTranscriptionId: Joi.string().allow(null).optional(),
+    }).min(1);
+
+    const { error } = schema.validate(data);
+
+    if (error) {
+      return {
+        valid: false,
+        message: error.details[0].message,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate action item list query
+   */
+  static validateActionItemQuery(data: {
+    statuses?: string[];
+    priority?: string;
+    owner?: string;
+    dueBefore?: string;
+    dueAfter?: string;
+    skip?: number;
+    take?: number;
+  }): { valid: boolean; message?: string } {
+    const schema = Joi.object({
+      statuses: Joi.array()
+        .items(Joi.string().valid(...Object.values(ActionItemStatus)))
+        .min(1)
+        .unique()
+        .optional(),
+      priority: Joi.string().valid('low', 'medium', 'high').optional(),
+      owner: Joi.string().max(255).optional(),
+      dueBefore: Joi.date().iso().optional(),
+      dueAfter: Joi.date().iso().optional(),
+      skip: Joi.number().integer().min(0).optional(),
+      take: Joi.number().integer().min(1).max(100).optional(),
+    });
+
+    const { error } = schema.validate(data);
+
+    if (error) {
+      return {
+        valid: false,
+        message: error.details[0].message,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate decision log query
+   */
+  static validateDecisionLogQuery(data: {
+    q?: string;
+    meetingIds?: string[];
+    participant?: string;
+    status?: string;
+    startDate?: string;
+    endDate?: string;
+    skip?: number;
+    take?: number;
+  }): { valid: boolean; message?: string } {
+    const schema = Joi.object({
+      q: Joi.string().trim().min(1).max(500).optional(),
+      meetingIds: Joi.array().items(Joi.string()).min(1).max(50).optional(),
+      participant: Joi.string().max(255).optional(),
+      status: Joi.string()
+        .valid(...Object.values(DecisionStatus))
+        .optional(),
+      startDate: Joi.date().iso().optional(),
+      endDate: Joi.date().iso().min(Joi.ref('startDate')).optional(),
+      skip: Joi.number().integer().min(0).optional(),
+      take: Joi.number().integer().min(1).max(100).optional(),
+    });
+
+    const { error } = schema.validate(data);
+
+    if (error) {
+      return {
+        valid: false,
+        message: error.details[0].message,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate decision link body
+   */
+  static validateDecisionLink(data: {
+    relatedDecisionId?: unknown;
+    relation?: unknown;
+  }): { valid: boolean; message?: string } {
+    const schema = Joi.object({
+      relatedDecisionId: Joi.string().required(),
+      relation: Joi.string()
+        .valid(...Object.values(DecisionRelation))
+        .required(),
+    });
+
+    const { error } = schema.validate(data);
+
+    if (error) {
+      return {
+        valid: false,
+        message: error.details[0].message,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate meeting series create or update body
+   * The recurrence rule itself is checked when it is parsed.
+   */
+  static validateMeetingSeries(
+    data: {
+      title?: unknown;
+      description?: unknown;
+      meetingUrl?: unknown;
+      platform?: unknown;
+      recurrenceRule?: unknown;
+      startsAt?: unknown;
+      durationMinutes?: unknown;
+      active?: unknown;
+    },
+    options: { partial: boolean }
+  ): { valid: boolean; message?: string } {
+    const title = Joi.string().trim().min(1).max(255);
+    const recurrenceRule = Joi.string().trim().max(500);
+    const startsAt = Joi.date().iso();
+
+    const schema = Joi.object({
+      title: options.partial ? title.optional() : title.required(),
+      description: Joi.string().max(2000).allow(null, '').optional(),
+      meetingUrl: Joi.string().uri().allow(null).optional(),
+      platform: Joi.string()
+        .valid(...Object.values(MeetingPlatform))
+        .allow(null)
+        .optional(),
+      recurrenceRule: options.partial ? recurrenceRule.optional() : recurrenceRule.required(),
+      startsAt: options.partial ? startsAt.optional() : startsAt.required(),
+      durationMinutes: Joi.number().integer().min(1).max(24 * 60).allow(null).optional(),
+      active: options.partial ? Joi.boolean().optional() : Joi.forbidden(),
+    }).min(1);
+
+    const { error } = schema.validate(data);
+
+    if (error) {
+      return {
+        valid: false,
+        message: error.details[0].message,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate calendar feed registration data
+   */
+  static validateCalendarFeed(data: {
+    url?: unknown;
+    name?: unknown;
+  }): { valid: boolean; message?: string } {
+    const schema = Joi.object({
+      url: Joi.string()
+        .trim()
+        .uri({ scheme: ['http', 'https', 'webcal', 'webcals'] })
+        .max(2000)
+        .required(),
+      name: Joi.string().trim().max(255).allow(null, '').optional(),
+    });
+
+    const { error } = schema.validate(data);
+
+    if (error) {
+      return {
+        valid: false,
+        message: error.details[0].message,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate report template create or update body
+   */
+  static validateReportTemplate(
+    data: {
+      name?: unknown;
+      brandName?: unknown;
+      logoUrl?: unknown;
+      primaryColor?: unknown;
+      headerText?: unknown;
+      footerText?: unknown;
+      sections?: unknown;
+      includeTranscript?: unknown;
+      isDefault?: unknown;
+    },
+    options: { partial: boolean }
+  ): { valid: boolean; message?: string } {
+    const name = Joi.string().trim().min(1).max(100);
+
+    const schema = Joi.object({
+      name: options.partial ? name.optional() : name.required(),
+      brandName: Joi.string().trim().max(255).allow(null, '').optional(),
+      logoUrl: Joi.string()
+        .uri({ scheme: ['http', 'https'] })
+        .max(2000)
+        .allow(null)
+        .optional(),
+      primaryColor: Joi.string()
+        .pattern(/^#[0-9a-fA-F]{6}$/)
+        .message('"primaryColor" must be a hex color like #1F3A5F')
+        .optional(),
+      headerText: Joi.string().max(500).allow(null, '').optional(),
+      footerText: Joi.string().max(500).allow(null, '').optional(),
+      sections: Joi.array()
+        .items(Joi.string().valid(...Object.values(ReportSection)))
+        .unique()
+        .optional(),
+      includeTranscript: Joi.boolean().optional(),
+      isDefault: Joi.boolean().optional(),
+    }).min(1);
+
+    const { error } = schema.validate(data);
+
+    if (error) {
+      return {
+        valid: false,
+        message: error.details[0].message,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate meeting export options
+   */
+  static validateExportOptions(data: {
+    sections?: unknown;
+    templateId?: unknown;
+    includeTranscript?: unknown;
+  }): { valid: boolean; message?: string } {
+    const schema = Joi.object({
+      sections: Joi.array()
+        .items(Joi.string().valid(...Object.values(ExportSection)))
+        .unique()
+        .optional(),
+      templateId: Joi.string().optional(),
+      includeTranscript: Joi.boolean().optional(),
+    });
+
+    const { error } = schema.validate(data);
+
+    if (error) {
+      return {
+        valid: false,
+        message: error.details[0].message,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate bulk meeting export request
+   */
+  static validateBulkExport(data: {
+    meetingIds?: unknown;
+    format?: unknown;
+  }): { valid: boolean; message?: string } {
+    const schema = Joi.object({
+      meetingIds: Joi.array().items(Joi.string()).min(1).max(100).required(),
+      format: Joi.string().optional(),
+    });
+
+    const { error } = schema.validate(data);
+
+    if (error) {
+      return {
+        valid: false,
+        message: error.details[0].message,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate transcript import options
+   */
+  static validateTranscriptImport(data: {
+    format?: unknown;
+    replace?: unknown;
+    analyze?: unknown;
+  }): { valid: boolean; message?: string } {
+    const schema = Joi.object({
+      format: Joi.string()
+        .valid(...Object.values(TranscriptFormat))
+        .optional(),
+      replace: Joi.boolean().optional(),
+      analyze: Joi.boolean().optional(),
+    });
+
+    const { error } = schema.validate(data);
+
+    if (error) {
+      return {
+        valid: false,
+        message: error.details[0].message,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate options of a recording uploaded for transcription
+   */
+  static validateAudioTranscription(data: {
+    engine?: unknown;
+    language?: unknown;
+    diarize?: unknown;
+    replace?: unknown;
+    analyze?: unknown;
+  }): { valid: boolean; message?: string } {
+    const schema = Joi.object({
+      engine: Joi.string().max(50).optional(),
+      language: Joi.string()
+        .pattern(/^[a-z]{2}$/)
+        .optional()
+        .messages({ 'string.pattern.base': 'language must be a two-letter ISO 639-1 code' }),
+      diarize: Joi.boolean().optional(),
+      replace: Joi.boolean().optional(),
+      analyze: Joi.boolean().optional(),
+    });
+
+    const { error } = schema.validate(data);
+
+    if (error) {
+      return {
+        valid: false,
+        message: error.details[0].message,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate participant data
+   */
+  static validateParticipant(
+    data: { name?: unknown; email?: unknown },
+    options: { partial: boolean }
+  ): { valid: boolean; message?: string } {
+    const name = Joi.string().trim().min(1).max(255);
+
+    const schema = Joi.object({
+      name: options.partial ? name.optional() : name.required(),
+      email: Joi.string().email().max(255).allow(null).optional(),
+    }).min(1);
+
+    const { error } = schema.validate(data);
+
+    if (error) {
+      return {
+        valid: false,
+        message: error.details[0].message,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate a speaker change: who the speakers become, and which speakers or transcriptions
+   */
+  static validateSpeakerChange(
+    data: {
+      target?: unknown;
+      speakers?: unknown;
+      transcriptionIds?: unknown;
+    },
+    options: { require?: 'speakers' | 'transcriptionIds' } = {}
+  ): { valid: boolean; message?: string } {
+    const speakers = Joi.array().items(Joi.string().min(1)).min(1).max(50).unique();
+    const transcriptionIds = Joi.array().items(Joi.string()).min(1).max(5000);
+
+    const schema = Joi.object({
+      target: Joi.object({
+        name: Joi.string().trim().min(1).max(255).optional(),
+        participantId: Joi.string().optional(),
+        email: Joi.string().email().max(255).optional(),
+      })
+        .or('name', 'participantId', 'email')
+        .oxor('participantId', 'email')
+        .required(),
+      speakers: options.require === 'speakers' ? speakers.required() : speakers.optional(),
+      transcriptionIds:
+        options.require === 'transcriptionIds'
+          ? transcriptionIds.required()
+          : transcriptionIds.optional(),
+    });
+
+    const { error } = schema.validate(data);
+
+    if (error) {
+      return {
+        valid: false,
+        message: error.details[0].message,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate a transcript segment to insert, or the changes to one
+   */
+  static validateTranscriptSegment(
+    data: {
+      text?: unknown;
+      speakerName?: unknown;
+      timestampStart?: unknown;
+      timestampEnd?: unknown;
+    },
+    options: { partial: boolean }
+  ): { valid: boolean; message?: string } {
+    const text = Joi.string().trim().min(1).max(10000);
+
+    const schema = options.partial
+      ? Joi.object({
+          text: text.optional(),
+          speakerName: Joi.string().trim().max(255).allow(null).optional(),
+        }).or('text', 'speakerName')
+      : Joi.object({
+          text: text.required(),
+          speakerName: Joi.string().trim().max(255).allow(null).optional(),
+          timestampStart: Joi.date().iso().optional(),
+          timestampEnd: Joi.date().iso().min(Joi.ref('timestampStart')).optional(),
+        });
+
+    const { error } = schema.validate(data);
+
+    if (error) {
+      return {
+        valid: false,
+        message: error.details[0].message,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate a transcript segment split or merge
+   */
+  static validateTranscriptRestructure(data: {
+    at?: unknown;
+    transcriptionIds?: unknown;
+    speakerName?: unknown;
+  }): { valid: boolean; message?: string } {
+    const schema = Joi.object({
+      at: Joi.number().integer().min(1).optional(),
+      transcriptionIds: Joi.array().items(Joi.string()).min(2).max(100).unique().optional(),
+      speakerName: Joi.string().trim().max(255).allow(null).optional(),
+    }).xor('at', 'transcriptionIds');
+
+    const { error } = schema.validate(data);
+
+    if (error) {
+      return {
+        valid: false,
+        message: error.details[0].message,
+      };
+    }
+
+    return { valid: true };
+  }
 }